@@ -1,8 +1,9 @@
 import React from 'react';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
-import { AuthProvider } from './context/AuthContext';
+import { AuthProvider, useAuth } from './context/AuthContext';
 import { LanguageProvider, useLanguage } from './context/LanguageContext';
 import { NotificationProvider } from './context/NotificationContext';
+import { WorkspaceProvider } from './context/WorkspaceContext';
 import { Layout, Notifications } from './components/common';
 import { Dashboard } from './components/Dashboard';
 import { WorkflowEditor, WorkflowRunner } from './components/RecipeBuilder';
@@ -11,18 +12,26 @@ import { ExecutionList } from './components/WorkflowExecution';
 import ChatExecution from './components/ChatExecution/ChatExecution';
 import { StandardsManager } from './components/CompanyStandards';
 import { OutputsGallery } from './components/OutputsGallery';
-import { UsageDashboard } from './components/ReviewAnalysis';
+import { UsageDashboard, ReviewAnalyticsDashboard } from './components/ReviewAnalysis';
 import { AIWorkflowBuilder } from './components/WorkflowBuilder';
 import { ManusAgentPage } from './components/ManusAgent/ManusAgentPage';
 import { AgentChat } from './components/AgentChat/AgentChat';
 import { SessionMonitor } from './components/SessionMonitor/SessionMonitor';
 import { PluginManager } from './components/PluginManager/PluginManager';
 import { DraftList } from './components/SkillDraftReview/DraftList';
+import { EvaluationManager, EvaluationGrid } from './components/Evaluations';
+import { ScheduleManager } from './components/ScheduleManager/ScheduleManager';
+import { WebhookManager } from './components/WebhookManager/WebhookManager';
+import { UserManager } from './components/UserManager/UserManager';
+import { WorkspaceSettings } from './components/WorkspaceSettings/WorkspaceSettings';
+import { LoginPage } from './components/Auth/LoginPage';
 
 function App() {
   return (
     <LanguageProvider>
       <AuthProvider>
+        <AuthGate>
+        <WorkspaceProvider>
         <BrowserRouter>
         <NotificationProvider>
         <Notifications />
@@ -52,6 +61,16 @@ function App() {
             {/* Skill Draft Review */}
             <Route path="/drafts" element={<DraftList />} />
 
+            {/* Model and prompt evaluations */}
+            <Route path="/evaluations" element={<EvaluationManager />} />
+            <Route path="/evaluations/:id" element={<EvaluationGrid />} />
+
+            {/* Schedules */}
+            <Route path="/schedules" element={<ScheduleManager />} />
+
+            {/* Webhooks */}
+            <Route path="/webhooks" element={<WebhookManager />} />
+
             {/* Execution Routes */}
             <Route path="/executions" element={<ExecutionList />} />
             <Route path="/executions/:id" element={<ChatExecution />} />
@@ -68,9 +87,18 @@ function App() {
             {/* Manus AI Agent */}
             <Route path="/manus" element={<ManusAgentPage />} />
 
+            {/* Review Analytics */}
+            <Route path="/reviews/analytics" element={<ReviewAnalyticsDashboard />} />
+
             {/* Usage Dashboard */}
             <Route path="/usage" element={<UsageDashboardPage />} />
 
+            {/* Workspace members, quota and sharing */}
+            <Route path="/workspace" element={<WorkspaceSettings />} />
+
+            {/* User roles */}
+            <Route path="/users" element={<UserManager />} />
+
             {/* 404 */}
             <Route
               path="*"
@@ -80,11 +108,33 @@ function App() {
         </Layout>
         </NotificationProvider>
       </BrowserRouter>
+        </WorkspaceProvider>
+        </AuthGate>
       </AuthProvider>
     </LanguageProvider>
   );
 }
 
+// Shows the login screen until a session is established
+function AuthGate({ children }: { children: React.ReactNode }) {
+  const { isAuthenticated, isLoading } = useAuth();
+  const { t } = useLanguage();
+
+  if (isLoading && !isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-secondary-500">
+        {t('loading')}
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return <LoginPage />;
+  }
+
+  return <>{children}</>;
+}
+
 // Usage Dashboard Page wrapper
 function UsageDashboardPage() {
   const { t } = useLanguage();
@@ -0,0 +1,90 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useLanguage } from '../../context/LanguageContext';
+import { Button, Modal } from '../common';
+import api from '../../services/api';
+import { UserIdentity } from '../../types';
+
+interface LinkedAccountsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/** Chat platform accounts (e.g. Lark) whose messages act as the current user. */
+export function LinkedAccountsModal({ isOpen, onClose }: LinkedAccountsModalProps) {
+  const { t } = useLanguage();
+  const [identities, setIdentities] = useState<UserIdentity[]>([]);
+  const [linkCode, setLinkCode] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchIdentities = useCallback(async () => {
+    try {
+      setIdentities(await api.getIdentities());
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t('failedToLoadLinkedAccounts'));
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setLinkCode(null);
+      setError(null);
+      fetchIdentities();
+    }
+  }, [isOpen, fetchIdentities]);
+
+  const handleCreateCode = async () => {
+    try {
+      setError(null);
+      const { code } = await api.createLinkCode();
+      setLinkCode(code);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t('failedToLoadLinkedAccounts'));
+    }
+  };
+
+  const handleUnlink = async (identity: UserIdentity) => {
+    try {
+      await api.unlinkIdentity(identity.id);
+      setIdentities((prev) => prev.filter((i) => i.id !== identity.id));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t('failedToLoadLinkedAccounts'));
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t('linkedAccounts')} size="sm">
+      <div className="space-y-4">
+        <p className="text-sm text-secondary-600">{t('linkedAccountsDescription')}</p>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {identities.length === 0 ? (
+          <p className="text-sm text-secondary-500 italic">{t('noLinkedAccounts')}</p>
+        ) : (
+          <ul className="divide-y divide-secondary-100">
+            {identities.map((identity) => (
+              <li key={identity.id} className="flex items-center justify-between py-2 text-sm">
+                <span>
+                  <span className="font-medium text-secondary-900">{identity.provider}</span>
+                  <span className="ml-2 font-mono text-xs text-secondary-500">{identity.external_id}</span>
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => handleUnlink(identity)}>
+                  {t('unlink')}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {linkCode ? (
+          <div className="p-3 bg-primary-50 rounded-lg text-sm text-secondary-700">
+            {t('linkCodeInstructions')}
+            <div className="mt-2 font-mono text-lg text-primary-700">/link {linkCode}</div>
+          </div>
+        ) : (
+          <Button onClick={handleCreateCode}>{t('generateLinkCode')}</Button>
+        )}
+      </div>
+    </Modal>
+  );
+}
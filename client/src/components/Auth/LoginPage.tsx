@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { useLanguage } from '../../context/LanguageContext';
+import { Button, Card, CardBody, Input } from '../common';
+
+export function LoginPage() {
+  const { login, register } = useAuth();
+  const { t } = useLanguage();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+    try {
+      if (mode === 'login') {
+        await login(email, password);
+      } else {
+        await register(email, password);
+      }
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t('authFailed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-secondary-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-sm">
+        <div className="flex items-center justify-center space-x-2 mb-6">
+          <div className="w-10 h-10 bg-primary-600 rounded-lg flex items-center justify-center">
+            <span className="text-white font-bold text-xl">N</span>
+          </div>
+          <span className="text-2xl font-semibold text-secondary-900">NovoHaven</span>
+        </div>
+
+        <Card>
+          <CardBody>
+            <h1 className="text-lg font-semibold text-secondary-900 mb-4">
+              {mode === 'login' ? t('signIn') : t('createAccount')}
+            </h1>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <Input
+                label={t('email')}
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+              <Input
+                label={t('password')}
+                type="password"
+                autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                helperText={mode === 'register' ? t('passwordRequirement') : undefined}
+                required
+              />
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              <Button type="submit" className="w-full" isLoading={submitting}>
+                {mode === 'login' ? t('signIn') : t('createAccount')}
+              </Button>
+            </form>
+
+            <button
+              type="button"
+              onClick={() => {
+                setMode(mode === 'login' ? 'register' : 'login');
+                setError(null);
+              }}
+              className="mt-4 w-full text-sm text-primary-600 hover:text-primary-700"
+            >
+              {mode === 'login' ? t('noAccountRegister') : t('haveAccountSignIn')}
+            </button>
+          </CardBody>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useParams, Link, useNavigate } from 'react-router-dom';
 import api from '../../services/api';
 import {
   WorkflowExecution,
   StepExecution,
+  StepAttempt,
   ExecutionChatMessage,
+  ReviewSubmission,
 } from '../../types';
 import StepProgressBar from './StepProgressBar';
 import ChatMessageList from './ChatMessageList';
@@ -13,12 +15,14 @@ import ChatInput from './ChatInput';
 const ChatExecution: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const executionId = parseInt(id || '0', 10);
+  const navigate = useNavigate();
 
   const [execution, setExecution] = useState<WorkflowExecution | null>(null);
   const [messages, setMessages] = useState<ExecutionChatMessage[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState(false);
+  const [rerunFrom, setRerunFrom] = useState<number | ''>('');
 
   const stepRefs = useRef<Record<number, HTMLDivElement | null>>({});
   const eventSourceRef = useRef<EventSource | null>(null);
@@ -33,6 +37,21 @@ const ChatExecution: React.FC = () => {
       for (const step of steps) {
         if (step.status === 'pending') continue;
 
+        if (step.status === 'skipped') {
+          msgs.push({
+            id: `reconstructed-skipped-${step.id}`,
+            executionId: exec.id,
+            stepOrder: step.step_order,
+            stepName: step.step_name || `Step ${step.step_order}`,
+            stepType: getStepType(step),
+            type: 'step-skipped',
+            role: 'system',
+            content: `Skipped step ${step.step_order}`,
+            timestamp: step.executed_at || exec.created_at,
+          });
+          continue;
+        }
+
         // step-start
         msgs.push({
           id: `reconstructed-start-${step.id}`,
@@ -46,6 +65,40 @@ const ChatExecution: React.FC = () => {
           timestamp: step.executed_at || exec.created_at,
         });
 
+        // step-retry for every failed attempt that was followed by another one
+        const attempts = step.attempts || [];
+        attempts.slice(0, -1).forEach((attempt, index) => {
+          if (attempt.status !== 'failed') return;
+          msgs.push({
+            id: `reconstructed-retry-${step.id}-${attempt.attempt}`,
+            executionId: exec.id,
+            stepOrder: step.step_order,
+            stepName: step.step_name || `Step ${step.step_order}`,
+            stepType: getStepType(step),
+            type: 'step-retry',
+            role: 'system',
+            content: describeRetry(attempt, attempts[index + 1]),
+            metadata: { stepExecutionId: step.id, attempt: attempt.attempt, errorClass: attempt.error_class },
+            timestamp: attempt.finished_at || step.executed_at || exec.created_at,
+          });
+        });
+
+        // The nested run a skill step started
+        if (step.child_execution_id) {
+          msgs.push({
+            id: `reconstructed-child-${step.id}`,
+            executionId: exec.id,
+            stepOrder: step.step_order,
+            stepName: step.step_name || `Step ${step.step_order}`,
+            stepType: getStepType(step),
+            type: 'progress',
+            role: 'system',
+            content: `Nested run #${step.child_execution_id}`,
+            metadata: { stepExecutionId: step.id, childExecutionId: step.child_execution_id },
+            timestamp: step.executed_at || exec.created_at,
+          });
+        }
+
         // step-output or step-error
         if (step.status === 'failed' && step.error_message) {
           msgs.push({
@@ -60,6 +113,27 @@ const ChatExecution: React.FC = () => {
             metadata: { stepExecutionId: step.id },
             timestamp: step.executed_at || exec.created_at,
           });
+        } else if (step.status === 'awaiting_review' && step.output?.review) {
+          // Human step waiting for its reviewer: show the form, not an output
+          const review = step.output.review;
+          msgs.push({
+            id: `reconstructed-action-${step.id}`,
+            executionId: exec.id,
+            stepOrder: step.step_order,
+            stepName: step.step_name || `Step ${step.step_order}`,
+            stepType: getStepType(step),
+            type: 'action-required',
+            role: 'system',
+            content: review.instructions,
+            metadata: {
+              actionType: review.kind === 'ask_user' ? 'form' : 'approve',
+              review,
+              assignedTo: step.assigned_to,
+              dueAt: step.review_due_at,
+              stepExecutionId: step.id,
+            },
+            timestamp: step.executed_at || exec.created_at,
+          });
         } else if (step.output_data || step.output) {
           const output = parseStepOutput(step);
           msgs.push({
@@ -76,6 +150,9 @@ const ChatExecution: React.FC = () => {
               usage: output.usage,
               images: output.generatedImages,
               isJson: output.isJson,
+              cached: output.cached,
+              cachedAt: output.cachedAt,
+              edited: output.edited,
               stepExecutionId: step.id,
             },
             timestamp: step.executed_at || exec.created_at,
@@ -117,6 +194,21 @@ const ChatExecution: React.FC = () => {
         }
       }
 
+      // execution-recovered (set when a server restart interrupted the run)
+      if (exec.status_reason) {
+        msgs.push({
+          id: `reconstructed-recovered-${exec.id}`,
+          executionId: exec.id,
+          stepOrder: exec.current_step,
+          stepName: '',
+          stepType: 'ai',
+          type: 'execution-recovered',
+          role: 'system',
+          content: exec.status_reason,
+          timestamp: exec.created_at,
+        });
+      }
+
       // execution-complete
       if (exec.status === 'completed') {
         msgs.push({
@@ -188,6 +280,7 @@ const ChatExecution: React.FC = () => {
           msg.type === 'step-approved' ||
           msg.type === 'step-rejected' ||
           msg.type === 'execution-complete' ||
+          msg.type === 'execution-recovered' ||
           msg.type === 'step-error' ||
           msg.type === 'action-required'
         ) {
@@ -242,6 +335,24 @@ const ChatExecution: React.FC = () => {
     }
   };
 
+  // Approve or answer a human step; errors are shown in its form
+  const handleSubmitReview = async (stepExecutionId: number, submission: ReviewSubmission) => {
+    const result = await api.approveStep(executionId, stepExecutionId, submission);
+    if (!result.success && result.error) {
+      throw new Error(result.error);
+    }
+    setTimeout(() => {
+      api.getExecution(executionId).then(setExecution).catch(() => {});
+    }, 500);
+  };
+
+  const handleRejectReview = async (stepExecutionId: number, comment?: string) => {
+    await api.rejectStep(executionId, stepExecutionId, comment);
+    setTimeout(() => {
+      api.getExecution(executionId).then(setExecution).catch(() => {});
+    }, 500);
+  };
+
   // Handle retry
   const handleRetry = async (stepExecutionId: number) => {
     setActionLoading(true);
@@ -257,6 +368,26 @@ const ChatExecution: React.FC = () => {
     }
   };
 
+  // Start a new run, reusing cached results for the steps before the chosen one
+  const handleRerun = async () => {
+    setActionLoading(true);
+    try {
+      const result = await api.rerunExecution(executionId, rerunFrom || undefined);
+      setRerunFrom('');
+      navigate(`/executions/${result.executionId}`);
+    } catch (err: any) {
+      console.error('Re-run failed:', err);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  // Fork: copy results up to the step, replace its output and re-run the rest
+  const handleFork = async (stepOrder: number, content: string) => {
+    const result = await api.forkExecution(executionId, stepOrder, content);
+    navigate(`/executions/${result.executionId}`);
+  };
+
   // Handle user message sent (for Manus)
   const handleMessageSent = (text: string) => {
     const userMsg: ExecutionChatMessage = {
@@ -309,6 +440,7 @@ const ChatExecution: React.FC = () => {
 
   const stepExecutions = execution.step_executions || [];
   const totalSteps = execution.total_steps || stepExecutions.length;
+  const canRerun = ['completed', 'failed', 'paused', 'cancelled'].includes(execution.status);
 
   return (
     <div className="flex flex-col h-[calc(100vh-8rem)] bg-white rounded-lg border border-secondary-200 shadow-sm overflow-hidden">
@@ -321,9 +453,57 @@ const ChatExecution: React.FC = () => {
             </h2>
             <p className="text-xs text-secondary-500">
               Execution #{execution.id}
+              {execution.skill_version ? ` · version ${execution.skill_version}` : ''}
+              {execution.replay_from_step && execution.replay_from_step > 1
+                ? ` · replayed from step ${execution.replay_from_step}`
+                : ''}
+              {execution.forked_from_id && (
+                <>
+                  {' · forked from '}
+                  <Link to={`/executions/${execution.forked_from_id}`} className="text-primary-600 hover:text-primary-700">
+                    #{execution.forked_from_id}
+                  </Link>
+                  {` after step ${execution.forked_from_step}`}
+                </>
+              )}
+              {execution.parent_execution_id && (
+                <>
+                  {' · nested run of '}
+                  <Link to={`/executions/${execution.parent_execution_id}`} className="text-primary-600 hover:text-primary-700">
+                    #{execution.parent_execution_id}
+                  </Link>
+                  {execution.parent_step_order ? ` step ${execution.parent_step_order}` : ''}
+                </>
+              )}
             </p>
           </div>
-          <StatusBadge status={execution.status} />
+          <div className="flex items-center gap-3">
+            {canRerun && (
+              <div className="flex items-center gap-2">
+                <select
+                  value={rerunFrom}
+                  onChange={(e) => setRerunFrom(e.target.value ? parseInt(e.target.value, 10) : '')}
+                  className="text-xs border border-secondary-300 rounded px-2 py-1 bg-white"
+                  title="Steps before this one reuse cached results"
+                >
+                  <option value="">From first unfinished step</option>
+                  {stepExecutions.map((step) => (
+                    <option key={step.id} value={step.step_order}>
+                      From step {step.step_order}: {step.step_name || 'Unknown'}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleRerun}
+                  disabled={actionLoading}
+                  className="px-2.5 py-1 text-xs font-medium rounded bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-50"
+                >
+                  Re-run
+                </button>
+              </div>
+            )}
+            <StatusBadge status={execution.status} />
+          </div>
         </div>
       </div>
 
@@ -342,6 +522,9 @@ const ChatExecution: React.FC = () => {
         messages={messages}
         onApprove={handleApprove}
         onReject={handleReject}
+        onSubmitReview={handleSubmitReview}
+        onRejectReview={handleRejectReview}
+        onFork={canRerun ? handleFork : undefined}
         onRetry={handleRetry}
         actionDisabled={actionLoading}
         stepRefs={stepRefs}
@@ -380,6 +563,7 @@ function StatusBadge({ status }: { status: string }) {
 }
 
 function getStepType(step: StepExecution): string {
+  if (step.step_type) return step.step_type;
   // Try to get step type from output_data metadata
   if (step.output_data) {
     try {
@@ -390,11 +574,19 @@ function getStepType(step: StepExecution): string {
   return 'ai';
 }
 
+function describeRetry(attempt: StepAttempt, next: StepAttempt): string {
+  const withModel = next.model && next.model !== attempt.model ? ` with ${next.model}` : '';
+  return `Attempt ${attempt.attempt} failed (${attempt.error_class || 'other'}): ${attempt.error || 'Step execution failed'}. Retried${withModel}.`;
+}
+
 function parseStepOutput(step: StepExecution): {
   content: string;
   usage?: { promptTokens: number; completionTokens: number };
   generatedImages?: any[];
   isJson?: boolean;
+  cached?: boolean;
+  cachedAt?: string;
+  edited?: boolean;
 } {
   // Use parsed output object if available
   if (step.output) {
@@ -402,6 +594,9 @@ function parseStepOutput(step: StepExecution): {
       content: step.output.content || '',
       usage: step.output.usage,
       generatedImages: step.output.generatedImages,
+      cached: step.output.cached,
+      cachedAt: step.output.cachedAt,
+      edited: !!step.output.edited_by,
     };
   }
 
@@ -414,6 +609,9 @@ function parseStepOutput(step: StepExecution): {
         usage: parsed.usage,
         generatedImages: parsed.generatedImages,
         isJson: typeof parsed.content === 'string' && isJsonString(parsed.content),
+        cached: parsed.cached,
+        cachedAt: parsed.cachedAt,
+        edited: !!parsed.edited_by,
       };
     } catch {
       return { content: step.output_data };
@@ -1,5 +1,5 @@
 import React, { useEffect, useRef } from 'react';
-import { ExecutionChatMessage } from '../../types';
+import { ExecutionChatMessage, ReviewSubmission } from '../../types';
 import StepHeaderMessage from './messages/StepHeaderMessage';
 import SystemMessage from './messages/SystemMessage';
 import AgentMessage from './messages/AgentMessage';
@@ -7,12 +7,18 @@ import UserMessage from './messages/UserMessage';
 import OutputMessage from './messages/OutputMessage';
 import ErrorMessage from './messages/ErrorMessage';
 import ActionMessage from './messages/ActionMessage';
+import RetryMessage from './messages/RetryMessage';
+import ReviewMessage from './messages/ReviewMessage';
+import ChildRunMessage from './messages/ChildRunMessage';
 
 interface ChatMessageListProps {
   messages: ExecutionChatMessage[];
   onApprove?: (stepExecutionId: number) => void;
   onReject?: (stepExecutionId: number) => void;
   onRetry?: (stepExecutionId: number) => void;
+  onSubmitReview?: (stepExecutionId: number, submission: ReviewSubmission) => Promise<void>;
+  onRejectReview?: (stepExecutionId: number, comment?: string) => Promise<void>;
+  onFork?: (stepOrder: number, content: string) => Promise<void>;
   actionDisabled?: boolean;
   stepRefs: React.MutableRefObject<Record<number, HTMLDivElement | null>>;
 }
@@ -22,6 +28,9 @@ const ChatMessageList: React.FC<ChatMessageListProps> = ({
   onApprove,
   onReject,
   onRetry,
+  onSubmitReview,
+  onRejectReview,
+  onFork,
   actionDisabled,
   stepRefs,
 }) => {
@@ -36,16 +45,33 @@ const ChatMessageList: React.FC<ChatMessageListProps> = ({
       case 'step-start':
         return <StepHeaderMessage message={message} />;
       case 'progress':
+        // Skill steps show the nested run they started
+        if (message.metadata?.childExecutionId) {
+          return <ChildRunMessage message={message} />;
+        }
         return <SystemMessage message={message} />;
       case 'agent-message':
         return <AgentMessage message={message} />;
       case 'user-message':
         return <UserMessage message={message} />;
       case 'step-output':
-        return <OutputMessage message={message} />;
+        return <OutputMessage message={message} onFork={onFork} />;
+      case 'step-retry':
+        return <RetryMessage message={message} />;
       case 'step-error':
         return <ErrorMessage message={message} onRetry={onRetry} />;
       case 'action-required':
+        // Approval and ask-user steps bring their own form
+        if (message.metadata?.review) {
+          return (
+            <ReviewMessage
+              message={message}
+              onSubmit={onSubmitReview}
+              onReject={onRejectReview}
+              disabled={actionDisabled}
+            />
+          );
+        }
         return (
           <ActionMessage
             message={message}
@@ -56,6 +82,8 @@ const ChatMessageList: React.FC<ChatMessageListProps> = ({
         );
       case 'step-approved':
       case 'step-rejected':
+      case 'step-skipped':
+      case 'execution-recovered':
       case 'execution-complete':
         return <SystemMessage message={message} />;
       default:
@@ -14,6 +14,13 @@ const statusColors: Record<StepExecutionStatus | string, string> = {
   completed: 'bg-green-500',
   failed: 'bg-red-500',
   awaiting_review: 'bg-purple-500',
+  skipped: 'bg-secondary-200',
+};
+
+// Control-flow steps get a distinct marker shape
+const markerShapes: Record<string, string> = {
+  condition: 'rotate-45 rounded-sm',
+  parallel: 'rounded-sm',
 };
 
 const StepProgressBar: React.FC<StepProgressBarProps> = ({
@@ -33,12 +40,12 @@ const StepProgressBar: React.FC<StepProgressBarProps> = ({
             key={step.id}
             onClick={() => onStepClick(step.step_order)}
             className="group relative"
-            title={step.step_name || `Step ${step.step_order}`}
+            title={`${step.step_name || `Step ${step.step_order}`}${step.status === 'skipped' ? ' (skipped)' : ''}`}
           >
             <div
-              className={`w-3 h-3 rounded-full transition-transform group-hover:scale-125 ${
-                statusColors[step.status] || statusColors.pending
-              }`}
+              className={`w-3 h-3 transition-transform group-hover:scale-125 ${
+                markerShapes[step.step_type || ''] || 'rounded-full'
+              } ${statusColors[step.status] || statusColors.pending}`}
             />
           </button>
         ))}
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import api from '../../../services/api';
+import { ExecutionChatMessage, StepExecutionStatus, WorkflowExecution } from '../../../types';
+
+interface ChildRunMessageProps {
+  message: ExecutionChatMessage;
+}
+
+const POLL_MS = 3000;
+
+const STEP_STATUS_ICONS: Record<StepExecutionStatus, string> = {
+  pending: '○',
+  running: '◐',
+  awaiting_review: '⏸',
+  completed: '✓',
+  failed: '✕',
+  skipped: '–',
+};
+
+const STEP_STATUS_COLORS: Record<StepExecutionStatus, string> = {
+  pending: 'text-secondary-400',
+  running: 'text-blue-600',
+  awaiting_review: 'text-yellow-600',
+  completed: 'text-green-600',
+  failed: 'text-red-600',
+  skipped: 'text-secondary-400',
+};
+
+// Nested run started by a `skill` step, shown inline with its own step progress
+const ChildRunMessage: React.FC<ChildRunMessageProps> = ({ message }) => {
+  const childId = message.metadata!.childExecutionId!;
+  const [child, setChild] = useState<WorkflowExecution | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const load = async () => {
+      try {
+        const data = await api.getExecution(childId);
+        if (cancelled) return;
+        setChild(data);
+        setError(null);
+        if (data.status === 'running' || data.status === 'pending' || data.status === 'paused') {
+          timer = setTimeout(load, POLL_MS);
+        }
+      } catch (err: any) {
+        if (!cancelled) setError(err.message || 'Failed to load nested run');
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [childId]);
+
+  const steps = child?.step_executions || [];
+
+  return (
+    <div className="flex justify-start">
+      <div className="max-w-[90%] w-full bg-secondary-50 border border-secondary-200 rounded-lg overflow-hidden">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-secondary-200">
+          <span className="text-xs font-medium text-secondary-700">
+            🧩 Nested run #{childId}{child?.recipe?.name ? ` · ${child.recipe.name}` : ''}
+          </span>
+          <span className="flex items-center gap-3 text-xs">
+            {child && <span className="text-secondary-500">{child.status}</span>}
+            <Link to={`/executions/${childId}`} className="text-primary-600 hover:text-primary-700">
+              Open
+            </Link>
+          </span>
+        </div>
+        {error ? (
+          <p className="px-3 py-2 text-xs text-red-600">{error}</p>
+        ) : (
+          <ol className="px-3 py-2 space-y-1">
+            {steps.map((step) => (
+              <li key={step.id} className="flex items-center gap-2 text-xs text-secondary-700">
+                <span className={`w-4 text-center ${STEP_STATUS_COLORS[step.status]}`}>
+                  {STEP_STATUS_ICONS[step.status]}
+                </span>
+                <span>{step.step_order}. {step.step_name || `Step ${step.step_order}`}</span>
+                {step.status === 'failed' && step.error_message && (
+                  <span className="text-red-600 truncate">{step.error_message}</span>
+                )}
+              </li>
+            ))}
+            {child && steps.length === 0 && (
+              <li className="text-xs text-secondary-500">{message.content}</li>
+            )}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChildRunMessage;
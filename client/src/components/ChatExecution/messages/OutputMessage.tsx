@@ -4,10 +4,16 @@ import { ExecutionChatMessage } from '../../../types';
 
 interface OutputMessageProps {
   message: ExecutionChatMessage;
+  // Edit this output and re-run the later steps in a new, linked execution
+  onFork?: (stepOrder: number, content: string) => Promise<void>;
 }
 
-const OutputMessage: React.FC<OutputMessageProps> = ({ message }) => {
+const OutputMessage: React.FC<OutputMessageProps> = ({ message, onFork }) => {
   const [copied, setCopied] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const [forking, setForking] = useState(false);
+  const [forkError, setForkError] = useState<string | null>(null);
   const isJson = message.metadata?.isJson;
   const images = message.metadata?.images;
   const files = message.metadata?.files;
@@ -42,15 +48,54 @@ const OutputMessage: React.FC<OutputMessageProps> = ({ message }) => {
     URL.revokeObjectURL(url);
   };
 
+  const handleFork = async () => {
+    if (!onFork) return;
+    setForking(true);
+    setForkError(null);
+    try {
+      await onFork(message.stepOrder, draft);
+    } catch (err: any) {
+      setForkError(err.message || 'Re-run failed');
+      setForking(false);
+    }
+  };
+
+  // Per-item outputs of a for-each step are not step outputs
+  const canFork = !!onFork && message.metadata?.itemIndex === undefined;
+
   return (
     <div className="flex justify-start">
       <div className="max-w-[90%] w-full bg-white border border-secondary-200 rounded-lg shadow-sm overflow-hidden">
         {/* Header */}
         <div className="flex items-center justify-between px-3 py-2 bg-secondary-50 border-b border-secondary-200">
-          <span className="text-xs font-medium text-secondary-500">
-            Output{message.metadata?.model ? ` (${message.metadata.model})` : ''}
-          </span>
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-medium text-secondary-500">
+              Output{message.metadata?.model ? ` (${message.metadata.model})` : ''}
+            </span>
+            {message.metadata?.cached && (
+              <span
+                className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-green-100 text-green-700"
+                title={message.metadata.cachedAt ? `Reused result from ${message.metadata.cachedAt}` : undefined}
+              >
+                Cached
+              </span>
+            )}
+            {message.metadata?.edited && (
+              <span className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-purple-100 text-purple-700">
+                Edited
+              </span>
+            )}
+          </div>
           <div className="flex items-center gap-3">
+            {canFork && !editing && (
+              <button
+                onClick={() => setEditing(true)}
+                className="text-xs text-secondary-400 hover:text-secondary-600 transition-colors"
+                title="Edit this output and re-run the later steps as a new execution"
+              >
+                Edit & re-run
+              </button>
+            )}
             <button
               onClick={handleCopy}
               className="text-xs text-secondary-400 hover:text-secondary-600 transition-colors"
@@ -68,7 +113,37 @@ const OutputMessage: React.FC<OutputMessageProps> = ({ message }) => {
 
         {/* Content */}
         <div className="p-4">
-          {isJson ? (
+          {editing ? (
+            <div className="space-y-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={10}
+                className="w-full px-3 py-2 text-sm font-mono border border-secondary-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+              {forkError && <p className="text-xs text-red-600">{forkError}</p>}
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={handleFork}
+                  disabled={forking}
+                  className="px-2.5 py-1 text-xs font-medium rounded bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-50"
+                >
+                  Re-run later steps
+                </button>
+                <button
+                  onClick={() => {
+                    setEditing(false);
+                    setDraft(message.content);
+                    setForkError(null);
+                  }}
+                  disabled={forking}
+                  className="px-2.5 py-1 text-xs font-medium rounded text-secondary-600 hover:bg-secondary-100 disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : isJson ? (
             <pre className="text-xs font-mono bg-secondary-50 p-3 rounded overflow-x-auto max-h-96 whitespace-pre-wrap">
               {message.content}
             </pre>
@@ -0,0 +1,18 @@
+import React from 'react';
+import { ExecutionChatMessage } from '../../../types';
+
+interface RetryMessageProps {
+  message: ExecutionChatMessage;
+}
+
+const RetryMessage: React.FC<RetryMessageProps> = ({ message }) => {
+  return (
+    <div className="flex justify-center py-1">
+      <span className="px-3 py-1 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-full max-w-xl truncate" title={message.content}>
+        {message.content}
+      </span>
+    </div>
+  );
+};
+
+export default RetryMessage;
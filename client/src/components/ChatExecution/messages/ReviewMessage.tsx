@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { ExecutionChatMessage, ReviewSubmission } from '../../../types';
+import { DynamicInput } from '../../common';
+import { useAuth } from '../../../context/AuthContext';
+import { useLanguage } from '../../../context/LanguageContext';
+
+interface ReviewMessageProps {
+  message: ExecutionChatMessage;
+  onSubmit?: (stepExecutionId: number, submission: ReviewSubmission) => Promise<void>;
+  onReject?: (stepExecutionId: number, comment?: string) => Promise<void>;
+  disabled?: boolean;
+}
+
+// Uploaded files carry a browser File object that cannot be sent as JSON
+function toSubmittedValue(value: any): any {
+  if (value && typeof value === 'object' && !Array.isArray(value) && 'file' in value) {
+    const { file, ...rest } = value;
+    return rest;
+  }
+  return value;
+}
+
+const ReviewMessage: React.FC<ReviewMessageProps> = ({
+  message,
+  onSubmit,
+  onReject,
+  disabled,
+}) => {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const review = message.metadata!.review!;
+  const stepExecutionId = message.metadata?.stepExecutionId;
+  const assignedTo = message.metadata?.assignedTo;
+  const dueAt = message.metadata?.dueAt;
+
+  const [values, setValues] = useState<Record<string, any>>({});
+  const [previousOutput, setPreviousOutput] = useState(review.previous_output ?? '');
+  const [comment, setComment] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [decision, setDecision] = useState<'approved' | 'rejected' | null>(null);
+
+  const isAskUser = review.kind === 'ask_user';
+  const assignedElsewhere = !!assignedTo && !!user && assignedTo !== user.id;
+  const canEditPrevious = review.allow_edit_previous && review.previous_output !== undefined;
+  const locked = disabled || submitting || assignedElsewhere || !stepExecutionId;
+
+  const missing = Object.entries(review.fields || {})
+    .filter(([name, field]) => {
+      const value = values[name];
+      return field.required && (value === undefined || value === null || String(value).trim() === ''
+        || (Array.isArray(value) && value.length === 0));
+    })
+    .map(([name, field]) => field.label || name);
+
+  const handleSubmit = async () => {
+    if (!stepExecutionId || !onSubmit) return;
+    if (missing.length > 0) {
+      setError(`Please fill in: ${missing.join(', ')}`);
+      return;
+    }
+    const submission: ReviewSubmission = {
+      values: Object.fromEntries(Object.entries(values).map(([name, value]) => [name, toSubmittedValue(value)])),
+      comment: comment.trim() || undefined,
+    };
+    if (canEditPrevious && previousOutput !== review.previous_output) {
+      submission.previous_output = previousOutput;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(stepExecutionId, submission);
+      setDecision('approved');
+    } catch (err: any) {
+      setError(err.message || 'Submit failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!stepExecutionId || !onReject) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onReject(stepExecutionId, comment.trim() || undefined);
+      setDecision('rejected');
+    } catch (err: any) {
+      setError(err.message || 'Reject failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (decision) {
+    return (
+      <div className="flex justify-center py-2">
+        <span className="px-3 py-1 text-xs text-secondary-500 bg-secondary-100 rounded-full">
+          {decision === 'approved' ? (isAskUser ? 'Answers submitted' : 'Approved') : 'Rejected'}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex justify-start">
+      <div className="max-w-[90%] w-full bg-purple-50 border border-purple-200 rounded-lg overflow-hidden">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-purple-200">
+          <span className="text-xs font-medium text-purple-700">
+            {isAskUser ? 'Input needed' : 'Approval needed'}
+          </span>
+          <span className="text-xs text-purple-600">
+            {assignedElsewhere ? 'Assigned to another reviewer' : assignedTo ? 'Assigned to you' : ''}
+            {dueAt ? `${assignedTo ? ' · ' : ''}Due ${new Date(`${dueAt.replace(' ', 'T')}Z`).toLocaleString()}` : ''}
+          </span>
+        </div>
+
+        <div className="p-3 space-y-3">
+          <p className="text-sm text-secondary-800 whitespace-pre-wrap">{review.instructions}</p>
+
+          {review.previous_output !== undefined && (
+            <div>
+              <label className="block text-xs font-medium text-secondary-600 mb-1">
+                Output of step {review.previous_step_order}{canEditPrevious ? ' (editable)' : ''}
+              </label>
+              <textarea
+                value={previousOutput}
+                onChange={(e) => setPreviousOutput(e.target.value)}
+                readOnly={!canEditPrevious || locked}
+                rows={6}
+                className="w-full px-3 py-2 text-sm font-mono border border-secondary-300 rounded-lg bg-white focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+            </div>
+          )}
+
+          {Object.entries(review.fields || {}).map(([name, field]) => (
+            <DynamicInput
+              key={name}
+              name={name}
+              config={{ ...field, label: `${field.label || name}${field.required ? ' *' : ''}` }}
+              value={values[name]}
+              onChange={(value) => setValues((prev) => ({ ...prev, [name]: value }))}
+              t={t}
+            />
+          ))}
+
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            disabled={locked}
+            placeholder="Comment (optional)"
+            rows={2}
+            className="w-full px-3 py-2 text-sm border border-secondary-300 rounded-lg bg-white focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleSubmit}
+              disabled={locked}
+              className="px-4 py-1.5 text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:opacity-50 rounded-md transition-colors"
+            >
+              {isAskUser ? 'Submit' : 'Approve'}
+            </button>
+            <button
+              onClick={handleReject}
+              disabled={locked}
+              className="px-4 py-1.5 text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 disabled:opacity-50 rounded-md transition-colors"
+            >
+              Reject
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewMessage;
@@ -2,7 +2,9 @@ import React, { useEffect, useState } from 'react';
 import { CompanyStandard } from '../../types';
 import api from '../../services/api';
 import { Button, Input, TextArea, Select, Card, CardBody, CardHeader, Modal, TranslatedText } from '../common';
+import { useAuth } from '../../context/AuthContext';
 import { useLanguage } from '../../context/LanguageContext';
+import { useWorkspace } from '../../context/WorkspaceContext';
 
 type StandardType = 'voice' | 'platform' | 'image';
 
@@ -31,6 +33,8 @@ const EMPTY_FORM: StandardFormData = {
 
 export function StandardsManager() {
   const { t } = useLanguage();
+  const { can } = useAuth();
+  const { isShared } = useWorkspace();
   const [standards, setStandards] = useState<CompanyStandard[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -210,7 +214,9 @@ export function StandardsManager() {
             {t('companyStandardsSubtitle')}
           </p>
         </div>
-        <Button onClick={handleCreate}>{t('addStandard')}</Button>
+        {can('assets:write') && (
+          <Button onClick={handleCreate}>{t('addStandard')}</Button>
+        )}
       </div>
 
       {error && (
@@ -248,7 +254,9 @@ export function StandardsManager() {
             <p className="text-secondary-600 mb-4">
               {t('noStandardsYet')}
             </p>
-            <Button onClick={handleCreate}>{t('createStandard')}</Button>
+            {can('assets:write') && (
+              <Button onClick={handleCreate}>{t('createStandard')}</Button>
+            )}
           </CardBody>
         </Card>
       ) : (
@@ -259,6 +267,8 @@ export function StandardsManager() {
               standard={standard}
               onEdit={() => handleEdit(standard)}
               onDelete={() => handleDelete(standard.id)}
+              canEdit={can('assets:write') && !isShared(standard)}
+              shared={isShared(standard)}
               t={t}
             />
           ))}
@@ -426,10 +436,12 @@ interface StandardCardProps {
   standard: CompanyStandard;
   onEdit: () => void;
   onDelete: () => void;
+  canEdit: boolean;
+  shared?: boolean;
   t: (key: any) => string;
 }
 
-function StandardCard({ standard, onEdit, onDelete, t }: StandardCardProps) {
+function StandardCard({ standard, onEdit, onDelete, canEdit, shared, t }: StandardCardProps) {
   const content = standard.content;
 
   return (
@@ -438,14 +450,21 @@ function StandardCard({ standard, onEdit, onDelete, t }: StandardCardProps) {
         <h3 className="font-semibold text-secondary-900">
           <TranslatedText text={standard.name} />
         </h3>
-        <div className="flex items-center space-x-2">
-          <Button size="sm" variant="ghost" onClick={onEdit}>
-            {t('edit')}
-          </Button>
-          <Button size="sm" variant="ghost" onClick={onDelete}>
-            {t('delete')}
-          </Button>
-        </div>
+        {shared && (
+          <span className="inline-block px-2 py-0.5 text-xs font-medium bg-amber-100 text-amber-700 rounded">
+            {t('sharedBadge')}
+          </span>
+        )}
+        {canEdit && (
+          <div className="flex items-center space-x-2">
+            <Button size="sm" variant="ghost" onClick={onEdit}>
+              {t('edit')}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={onDelete}>
+              {t('delete')}
+            </Button>
+          </div>
+        )}
       </CardHeader>
       <CardBody className="space-y-2 text-sm">
         {content.tone && (
@@ -3,12 +3,16 @@ import { useNavigate } from 'react-router-dom';
 import { WorkflowDefinition, WorkflowExecution } from '../../types';
 import api from '../../services/api';
 import { Button, Card, CardBody } from '../common';
+import { useAuth } from '../../context/AuthContext';
 import { useLanguage } from '../../context/LanguageContext';
+import { useWorkspace } from '../../context/WorkspaceContext';
 import { translateText } from '../../services/translationService';
 
 export function Dashboard() {
   const navigate = useNavigate();
   const { t } = useLanguage();
+  const { can } = useAuth();
+  const { isShared } = useWorkspace();
   const [skills, setSkills] = useState<WorkflowDefinition[]>([]);
   const [workflows, setWorkflows] = useState<WorkflowDefinition[]>([]);
   const [recentExecutions, setRecentExecutions] = useState<WorkflowExecution[]>([]);
@@ -138,18 +142,20 @@ export function Dashboard() {
       </div>
 
       {/* Build with AI card */}
-      <Card hoverable onClick={() => navigate('/workflows/ai-builder')} className="bg-gradient-to-r from-primary-50 to-blue-50 border-primary-200">
-        <CardBody className="flex items-center gap-4 py-5">
-          <div className="text-3xl">{'\uD83E\uDD16'}</div>
-          <div className="flex-1">
-            <h2 className="text-lg font-semibold text-primary-900">{t('buildWithAI')}</h2>
-            <p className="text-sm text-primary-700">{t('buildWithAIDescription')}</p>
-          </div>
-          <Button size="sm" onClick={(e) => { e.stopPropagation(); navigate('/workflows/ai-builder'); }}>
-            {t('getStarted')}
-          </Button>
-        </CardBody>
-      </Card>
+      {can('assets:write') && (
+        <Card hoverable onClick={() => navigate('/workflows/ai-builder')} className="bg-gradient-to-r from-primary-50 to-blue-50 border-primary-200">
+          <CardBody className="flex items-center gap-4 py-5">
+            <div className="text-3xl">{'\uD83E\uDD16'}</div>
+            <div className="flex-1">
+              <h2 className="text-lg font-semibold text-primary-900">{t('buildWithAI')}</h2>
+              <p className="text-sm text-primary-700">{t('buildWithAIDescription')}</p>
+            </div>
+            <Button size="sm" onClick={(e) => { e.stopPropagation(); navigate('/workflows/ai-builder'); }}>
+              {t('getStarted')}
+            </Button>
+          </CardBody>
+        </Card>
+      )}
 
       {error && (
         <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg">
@@ -166,9 +172,11 @@ export function Dashboard() {
             </h2>
             <p className="text-sm text-secondary-500">{t('mySkillsDescription')}</p>
           </div>
-          <Button variant="secondary" size="sm" onClick={() => navigate('/skills/new')}>
-            {t('createNewSkill')}
-          </Button>
+          {can('assets:write') && (
+            <Button variant="secondary" size="sm" onClick={() => navigate('/skills/new')}>
+              {t('createNewSkill')}
+            </Button>
+          )}
         </div>
         {skills.length === 0 ? (
           <Card>
@@ -176,9 +184,11 @@ export function Dashboard() {
               <p className="text-secondary-600 mb-4">
                 {t('noSkillsYet')}
               </p>
-              <Button variant="secondary" onClick={() => navigate('/skills/new')}>
-                {t('createNewSkill')}
-              </Button>
+              {can('assets:write') && (
+                <Button variant="secondary" onClick={() => navigate('/skills/new')}>
+                  {t('createNewSkill')}
+                </Button>
+              )}
             </CardBody>
           </Card>
         ) : (
@@ -187,8 +197,9 @@ export function Dashboard() {
               <SkillCard
                 key={skill.id}
                 skill={skill}
+                shared={isShared(skill)}
                 onEdit={() => navigate(`/skills/${skill.id}`)}
-                onDelete={() => handleDeleteSkill(skill.id)}
+                onDelete={can('assets:write') && !isShared(skill) ? () => handleDeleteSkill(skill.id) : undefined}
                 t={t}
               />
             ))}
@@ -205,9 +216,11 @@ export function Dashboard() {
             </h2>
             <p className="text-sm text-secondary-500">{t('myWorkflowsDescription')}</p>
           </div>
-          <Button size="sm" onClick={() => navigate('/workflows/new')}>
-            {t('createNewWorkflow')}
-          </Button>
+          {can('assets:write') && (
+            <Button size="sm" onClick={() => navigate('/workflows/new')}>
+              {t('createNewWorkflow')}
+            </Button>
+          )}
         </div>
         {workflows.length === 0 ? (
           <Card>
@@ -215,9 +228,11 @@ export function Dashboard() {
               <p className="text-secondary-600 mb-4">
                 {t('noWorkflowsYet')}
               </p>
-              <Button onClick={() => navigate('/workflows/new')}>
-                {t('createFirstWorkflow')}
-              </Button>
+              {can('assets:write') && (
+                <Button onClick={() => navigate('/workflows/new')}>
+                  {t('createFirstWorkflow')}
+                </Button>
+              )}
             </CardBody>
           </Card>
         ) : (
@@ -226,10 +241,11 @@ export function Dashboard() {
               <WorkflowCard
                 key={workflow.id}
                 workflow={workflow}
-                onRun={() => navigate(`/workflows/${workflow.id}/run`)}
-                onEdit={() => navigate(`/workflows/${workflow.id}`)}
-                onClone={() => handleCloneWorkflow(workflow.id)}
-                onDelete={() => handleDeleteWorkflow(workflow.id)}
+                shared={isShared(workflow)}
+                onRun={can('assets:run') ? () => navigate(`/workflows/${workflow.id}/run`) : undefined}
+                onEdit={isShared(workflow) ? undefined : () => navigate(`/workflows/${workflow.id}`)}
+                onClone={can('assets:write') ? () => handleCloneWorkflow(workflow.id) : undefined}
+                onDelete={can('assets:write') && !isShared(workflow) ? () => handleDeleteWorkflow(workflow.id) : undefined}
                 t={t}
               />
             ))}
@@ -276,6 +292,7 @@ export function Dashboard() {
 
 interface WorkflowCardProps {
   workflow: WorkflowDefinition;
+  shared?: boolean;
   onRun?: () => void;
   onEdit?: () => void;
   onClone?: () => void;
@@ -283,7 +300,7 @@ interface WorkflowCardProps {
   t: (key: any) => string;
 }
 
-function WorkflowCard({ workflow, onRun, onEdit, onClone, onDelete, t }: WorkflowCardProps) {
+function WorkflowCard({ workflow, shared, onRun, onEdit, onClone, onDelete, t }: WorkflowCardProps) {
   const { language } = useLanguage();
   const [translatedName, setTranslatedName] = useState(workflow.name);
   const [translatedDesc, setTranslatedDesc] = useState(workflow.description || '');
@@ -305,9 +322,12 @@ function WorkflowCard({ workflow, onRun, onEdit, onClone, onDelete, t }: Workflo
       <CardBody className="flex-1">
         <div className="flex items-start justify-between">
           <h3 className="font-semibold text-secondary-900">{translatedName}</h3>
-          <span className="text-sm text-secondary-500">
-            {workflow.step_count || 0} {t('steps')}
-          </span>
+          <div className="flex items-center gap-2">
+            {shared && <SharedBadge t={t} />}
+            <span className="text-sm text-secondary-500">
+              {workflow.step_count || 0} {t('steps')}
+            </span>
+          </div>
         </div>
         <p className="text-sm text-secondary-600 mt-2 line-clamp-2">
           {translatedDesc || t('noDescription')}
@@ -341,14 +361,24 @@ function WorkflowCard({ workflow, onRun, onEdit, onClone, onDelete, t }: Workflo
   );
 }
 
+// Assets shared into the active workspace from another one are read-only
+function SharedBadge({ t }: { t: (key: any) => string }) {
+  return (
+    <span className="inline-block px-2 py-0.5 text-xs font-medium bg-amber-100 text-amber-700 rounded">
+      {t('sharedBadge')}
+    </span>
+  );
+}
+
 interface SkillCardProps {
   skill: WorkflowDefinition;
+  shared?: boolean;
   onEdit: () => void;
-  onDelete: () => void;
+  onDelete?: () => void;
   t: (key: any) => string;
 }
 
-function SkillCard({ skill, onEdit, onDelete, t }: SkillCardProps) {
+function SkillCard({ skill, shared, onEdit, onDelete, t }: SkillCardProps) {
   const { language } = useLanguage();
   const [translatedName, setTranslatedName] = useState(skill.name);
   const [translatedDesc, setTranslatedDesc] = useState(skill.description || '');
@@ -391,9 +421,12 @@ function SkillCard({ skill, onEdit, onDelete, t }: SkillCardProps) {
       <CardBody className="flex-1">
         <div className="flex items-start justify-between">
           <h3 className="font-semibold text-secondary-900">{translatedName}</h3>
-          <span className="inline-block px-2 py-0.5 text-xs font-medium bg-primary-100 text-primary-700 rounded">
-            {skillType}
-          </span>
+          <div className="flex items-center gap-2">
+            {shared && <SharedBadge t={t} />}
+            <span className="inline-block px-2 py-0.5 text-xs font-medium bg-primary-100 text-primary-700 rounded">
+              {skillType}
+            </span>
+          </div>
         </div>
         <p className="text-sm text-secondary-600 mt-2 line-clamp-2">
           {translatedDesc || t('noDescription')}
@@ -404,9 +437,11 @@ function SkillCard({ skill, onEdit, onDelete, t }: SkillCardProps) {
           <Button size="sm" variant="ghost" onClick={(e) => { e.stopPropagation(); onEdit(); }}>
             {t('edit')}
           </Button>
-          <Button size="sm" variant="ghost" onClick={(e) => { e.stopPropagation(); onDelete(); }}>
-            {t('delete')}
-          </Button>
+          {onDelete && (
+            <Button size="sm" variant="ghost" onClick={(e) => { e.stopPropagation(); onDelete(); }}>
+              {t('delete')}
+            </Button>
+          )}
         </div>
       </div>
     </Card>
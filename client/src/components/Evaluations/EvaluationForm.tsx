@@ -0,0 +1,244 @@
+import React, { useEffect, useState } from 'react';
+import { useLanguage } from '../../context/LanguageContext';
+import { Button, Input, TextArea, Select } from '../common';
+import api from '../../services/api';
+import { AIModel, Evaluation, EvaluationVariant, WorkflowDefinition, WorkflowStep } from '../../types';
+
+const MAX_VARIANTS = 6;
+
+interface EvaluationFormProps {
+  skills: WorkflowDefinition[];
+  workflows: WorkflowDefinition[];
+  models: AIModel[];
+  onSaved: (evaluation: Evaluation) => void;
+  onCancel: () => void;
+}
+
+export function EvaluationForm({ skills, workflows, models, onSaved, onCancel }: EvaluationFormProps) {
+  const { t } = useLanguage();
+  const [name, setName] = useState('');
+  const [parentType, setParentType] = useState<'skill' | 'workflow'>('skill');
+  const [parentId, setParentId] = useState<number | ''>('');
+  const [steps, setSteps] = useState<WorkflowStep[]>([]);
+  const [stepOrder, setStepOrder] = useState<number | ''>('');
+  const [variants, setVariants] = useState<EvaluationVariant[]>([{ label: '', model: models[0]?.id || '', prompt_template: '' }]);
+  const [datasetText, setDatasetText] = useState('[\n  {}\n]');
+  const [useJudge, setUseJudge] = useState(false);
+  const [judgeModel, setJudgeModel] = useState(models[0]?.id || '');
+  const [rubric, setRubric] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parents = parentType === 'skill' ? skills : workflows;
+  const aiSteps = steps.filter((step) => (step.step_type || 'ai') === 'ai');
+  const modelOptions = models.map((model) => ({ value: model.id, label: model.name }));
+
+  // AI steps of the chosen skill/workflow, and the step's prompt as the starting variant
+  useEffect(() => {
+    setSteps([]);
+    setStepOrder('');
+    if (!parentId) return;
+    let cancelled = false;
+    const load = parentType === 'skill' ? api.getSkill(Number(parentId)) : api.getWorkflow(Number(parentId));
+    load
+      .then((definition) => {
+        if (!cancelled) setSteps(definition.steps || []);
+      })
+      .catch(() => {
+        // No step choice; the whole skill/workflow is evaluated
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [parentType, parentId]);
+
+  const updateVariant = (index: number, changes: Partial<EvaluationVariant>) => {
+    setVariants((prev) => prev.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!name.trim()) {
+      setError(t('nameRequired'));
+      return;
+    }
+    if (!parentId) {
+      setError(t('scheduleTargetRequired'));
+      return;
+    }
+
+    let dataset: Array<Record<string, any>>;
+    try {
+      dataset = JSON.parse(datasetText);
+      if (!Array.isArray(dataset)) throw new Error();
+    } catch {
+      setError(t('evaluationDatasetInvalid'));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await api.createEvaluation({
+        name: name.trim(),
+        parent_type: parentType,
+        parent_id: Number(parentId),
+        step_order: stepOrder === '' ? null : stepOrder,
+        variants: variants.map((variant) => ({
+          label: variant.label.trim(),
+          model: variant.model,
+          prompt_template: stepOrder !== '' && variant.prompt_template?.trim() ? variant.prompt_template : null,
+        })),
+        dataset,
+        judge: useJudge ? { model: judgeModel, rubric } : null,
+      });
+      onSaved(saved);
+    } catch (err: any) {
+      setError(err.message || t('failedToSaveEvaluation'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <Input label={t('name')} value={name} onChange={(e) => setName(e.target.value)} />
+
+      <div className="grid grid-cols-3 gap-4">
+        <Select
+          label={t('type')}
+          value={parentType}
+          onChange={(e) => {
+            setParentType(e.target.value as 'skill' | 'workflow');
+            setParentId('');
+          }}
+          options={[
+            { value: 'skill', label: t('skill') },
+            { value: 'workflow', label: t('workflow') },
+          ]}
+        />
+        <Select
+          label={parentType === 'skill' ? t('skill') : t('workflow')}
+          value={parentId === '' ? '' : String(parentId)}
+          onChange={(e) => setParentId(e.target.value ? Number(e.target.value) : '')}
+          options={[
+            { value: '', label: t('scheduleSelectTarget') },
+            ...parents.map((p) => ({ value: String(p.id), label: p.name })),
+          ]}
+        />
+        <Select
+          label={t('evaluationStep')}
+          value={stepOrder === '' ? '' : String(stepOrder)}
+          onChange={(e) => setStepOrder(e.target.value ? Number(e.target.value) : '')}
+          options={[
+            { value: '', label: t('evaluationWholeRun') },
+            ...aiSteps.map((step) => ({ value: String(step.step_order), label: `${step.step_order}. ${step.step_name}` })),
+          ]}
+        />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="block text-sm font-medium text-secondary-700">{t('evaluationVariants')}</span>
+          {variants.length < MAX_VARIANTS && (
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => setVariants((prev) => [...prev, { label: '', model: models[0]?.id || '', prompt_template: '' }])}
+            >
+              {t('addVariant')}
+            </Button>
+          )}
+        </div>
+        <div className="space-y-3">
+          {variants.map((variant, index) => (
+            <div key={index} className="border border-secondary-200 rounded-lg p-3 space-y-2">
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  placeholder={t('evaluationVariantLabel')}
+                  value={variant.label}
+                  onChange={(e) => updateVariant(index, { label: e.target.value })}
+                />
+                <div className="flex items-center space-x-2">
+                  <Select
+                    value={variant.model}
+                    onChange={(e) => updateVariant(index, { model: e.target.value })}
+                    options={modelOptions}
+                  />
+                  {variants.length > 1 && (
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-600"
+                      onClick={() => setVariants((prev) => prev.filter((_, i) => i !== index))}
+                    >
+                      {t('remove')}
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {stepOrder !== '' && (
+                <TextArea
+                  placeholder={aiSteps.find((step) => step.step_order === stepOrder)?.prompt_template}
+                  value={variant.prompt_template || ''}
+                  onChange={(e) => updateVariant(index, { prompt_template: e.target.value })}
+                  rows={3}
+                  className="font-mono text-xs"
+                  helperText={t('evaluationPromptHelp')}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <TextArea
+        label={t('evaluationDataset')}
+        value={datasetText}
+        onChange={(e) => setDatasetText(e.target.value)}
+        rows={6}
+        className="font-mono text-sm"
+        helperText={t('evaluationDatasetHelp')}
+      />
+
+      <div className="space-y-2">
+        <label className="flex items-center space-x-2 text-sm text-secondary-700">
+          <input
+            type="checkbox"
+            checked={useJudge}
+            onChange={(e) => setUseJudge(e.target.checked)}
+            className="rounded border-secondary-300"
+          />
+          <span>{t('evaluationUseJudge')}</span>
+        </label>
+        {useJudge && (
+          <div className="grid grid-cols-3 gap-3">
+            <Select value={judgeModel} onChange={(e) => setJudgeModel(e.target.value)} options={modelOptions} />
+            <div className="col-span-2">
+              <TextArea
+                placeholder={t('evaluationRubric')}
+                value={rubric}
+                onChange={(e) => setRubric(e.target.value)}
+                rows={2}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <Button type="button" variant="ghost" onClick={onCancel}>{t('cancel')}</Button>
+        <Button type="submit" isLoading={isSaving}>{t('save')}</Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,210 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
+import { useLanguage } from '../../context/LanguageContext';
+import { Button, Card } from '../common';
+import { EVALUATION_STATUS_STYLES } from './EvaluationManager';
+import api from '../../services/api';
+import { EvaluationReport, EvaluationResult } from '../../types';
+
+const POLL_INTERVAL_MS = 2000;
+const SCORES = [1, 2, 3, 4, 5];
+
+const formatCost = (cost: number | null) => (cost === null ? '—' : `$${cost.toFixed(4)}`);
+
+// Comparison grid: a row per dataset row, a column per variant
+export function EvaluationGrid() {
+  const { id } = useParams<{ id: string }>();
+  const { t } = useLanguage();
+  const { can } = useAuth();
+  const [report, setReport] = useState<EvaluationReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setReport(await api.getEvaluation(Number(id)));
+    } catch (err: any) {
+      setError(err.message || t('failedToLoadEvaluations'));
+    }
+  }, [id, t]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  // Cells run in the background; poll until the evaluation finishes
+  useEffect(() => {
+    if (report?.evaluation.status !== 'running') return;
+    const timer = setTimeout(loadReport, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [report, loadReport]);
+
+  const handleRun = async () => {
+    setError(null);
+    try {
+      setReport(await api.runEvaluation(Number(id)));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleScore = async (cell: EvaluationResult, score: number) => {
+    try {
+      // Clicking the current score clears it; reload for the new averages
+      await api.scoreEvaluationResult(Number(id), cell.id, cell.human_score === score ? null : score);
+      await loadReport();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  if (!report) {
+    return error ? (
+      <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+    ) : (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  const { evaluation, results, summary } = report;
+  const cellAt = (rowIndex: number, variantIndex: number) =>
+    results.find((r) => r.row_index === rowIndex && r.variant_index === variantIndex);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link to="/evaluations" className="text-sm text-primary-600 hover:text-primary-700">
+            ← {t('evaluations')}
+          </Link>
+          <h1 className="text-2xl font-bold text-secondary-900 mt-1">{evaluation.name}</h1>
+          {evaluation.judge && (
+            <p className="text-sm text-secondary-600 mt-1">
+              {t('evaluationJudge')} ({evaluation.judge.model}): {evaluation.judge.rubric}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center space-x-3">
+          <span className={`inline-block px-2.5 py-0.5 rounded-full text-xs font-medium ${EVALUATION_STATUS_STYLES[evaluation.status]}`}>
+            {evaluation.status === 'draft' ? t('evaluationNotRun') : t(evaluation.status)}
+          </span>
+          {can('assets:run_draft') && (
+            <Button onClick={handleRun} isLoading={evaluation.status === 'running'}>
+              {evaluation.status === 'draft' ? t('runEvaluation') : t('rerunEvaluation')}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <Card>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="border-b border-secondary-200 bg-secondary-50">
+                <th className="px-4 py-3 text-xs font-semibold text-secondary-500 uppercase tracking-wider w-48">
+                  {t('evaluationInputs')}
+                </th>
+                {evaluation.variants.map((variant, index) => (
+                  <th key={index} className="px-4 py-3 text-xs font-semibold text-secondary-500 align-top">
+                    <div className="uppercase tracking-wider">{variant.label}</div>
+                    <div className="font-normal normal-case text-secondary-400">{variant.model}</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-secondary-100">
+              {evaluation.dataset.map((row, rowIndex) => (
+                <tr key={rowIndex} className="align-top">
+                  <td className="px-4 py-3">
+                    <pre className="text-xs text-secondary-600 whitespace-pre-wrap break-words">
+                      {JSON.stringify(row, null, 2)}
+                    </pre>
+                  </td>
+                  {evaluation.variants.map((_variant, variantIndex) => {
+                    const cell = cellAt(rowIndex, variantIndex);
+                    if (!cell || cell.status === 'pending') {
+                      return (
+                        <td key={variantIndex} className="px-4 py-3 text-secondary-400">
+                          {evaluation.status === 'running' ? t('running') : '—'}
+                        </td>
+                      );
+                    }
+                    return (
+                      <td key={variantIndex} className="px-4 py-3 min-w-[16rem]">
+                        {cell.status === 'failed' ? (
+                          <p className="text-xs text-red-600">{cell.error}</p>
+                        ) : (
+                          <div className="text-sm text-secondary-900 whitespace-pre-wrap break-words max-h-48 overflow-y-auto">
+                            {cell.output}
+                          </div>
+                        )}
+                        <div className="mt-2 text-xs text-secondary-500 space-x-2">
+                          {cell.latency_ms !== null && <span>{cell.latency_ms} ms</span>}
+                          {cell.prompt_tokens !== null && (
+                            <span>{cell.prompt_tokens} / {cell.completion_tokens} {t('evaluationTokens')}</span>
+                          )}
+                          {cell.cost_usd !== null && <span>{formatCost(cell.cost_usd)}</span>}
+                          {cell.execution_id && (
+                            <Link to={`/executions/${cell.execution_id}`} className="text-primary-600 hover:text-primary-700">
+                              #{cell.execution_id}
+                            </Link>
+                          )}
+                        </div>
+                        {(cell.judge_score !== null || cell.judge_reason) && (
+                          <p className="mt-1 text-xs text-secondary-600" title={cell.judge_reason || ''}>
+                            {t('evaluationJudge')}: {cell.judge_score ?? '—'}/5 {cell.judge_reason && `· ${cell.judge_reason}`}
+                          </p>
+                        )}
+                        {cell.status === 'completed' && (
+                          <div className="mt-1 flex items-center space-x-1">
+                            <span className="text-xs text-secondary-500 mr-1">{t('evaluationYourScore')}:</span>
+                            {SCORES.map((score) => (
+                              <button
+                                key={score}
+                                type="button"
+                                disabled={!can('assets:run')}
+                                onClick={() => handleScore(cell, score)}
+                                className={`w-6 h-6 rounded text-xs ${
+                                  cell.human_score === score
+                                    ? 'bg-primary-600 text-white'
+                                    : 'bg-secondary-100 text-secondary-700 hover:bg-secondary-200'
+                                }`}
+                              >
+                                {score}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t-2 border-secondary-200 bg-secondary-50 align-top text-xs text-secondary-600">
+                <td className="px-4 py-3 font-semibold uppercase tracking-wider">{t('evaluationSummary')}</td>
+                {summary.map((variant) => (
+                  <td key={variant.variant_index} className="px-4 py-3 space-y-0.5">
+                    <div>{variant.completed} {t('completed')} · {variant.failed} {t('failed')}</div>
+                    <div>{t('evaluationAvgLatency')}: {variant.avg_latency_ms === null ? '—' : `${Math.round(variant.avg_latency_ms)} ms`}</div>
+                    <div>{variant.prompt_tokens} / {variant.completion_tokens} {t('evaluationTokens')} · {formatCost(variant.cost_usd)}</div>
+                    <div>{t('evaluationJudge')}: {variant.avg_judge_score ?? '—'} · {t('evaluationYourScore')}: {variant.avg_human_score ?? '—'}</div>
+                  </td>
+                ))}
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
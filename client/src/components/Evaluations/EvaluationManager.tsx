@@ -0,0 +1,154 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
+import { useLanguage } from '../../context/LanguageContext';
+import { Button, Card, CardBody, Modal } from '../common';
+import { EvaluationForm } from './EvaluationForm';
+import api from '../../services/api';
+import { AIModel, Evaluation, WorkflowDefinition } from '../../types';
+
+export const EVALUATION_STATUS_STYLES: Record<Evaluation['status'], string> = {
+  draft: 'bg-secondary-100 text-secondary-700',
+  running: 'bg-blue-100 text-blue-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+// Evaluations in the workspace, and the form for a new one
+export function EvaluationManager() {
+  const { t, language } = useLanguage();
+  const { can } = useAuth();
+  const [evaluations, setEvaluations] = useState<Evaluation[]>([]);
+  const [skills, setSkills] = useState<WorkflowDefinition[]>([]);
+  const [workflows, setWorkflows] = useState<WorkflowDefinition[]>([]);
+  const [models, setModels] = useState<AIModel[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [evaluationData, skillData, workflowData, modelData] = await Promise.all([
+        api.getEvaluations(),
+        api.getSkills(),
+        api.getWorkflows(),
+        api.getAIModels(),
+      ]);
+      setEvaluations(evaluationData);
+      setSkills(skillData);
+      setWorkflows(workflowData);
+      setModels(modelData.available);
+    } catch (err: any) {
+      setError(err.message || t('failedToLoadEvaluations'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleDelete = async (evaluation: Evaluation) => {
+    if (!window.confirm(t('confirmDeleteGeneric'))) return;
+    try {
+      await api.deleteEvaluation(evaluation.id);
+      setEvaluations((prev) => prev.filter((e) => e.id !== evaluation.id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const parentName = (evaluation: Evaluation) => {
+    const parents = evaluation.parent_type === 'skill' ? skills : workflows;
+    return parents.find((p) => p.id === evaluation.parent_id)?.name || `#${evaluation.parent_id}`;
+  };
+
+  const locale = language === 'zh' ? 'zh-CN' : 'en-US';
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">{t('evaluations')}</h1>
+          <p className="text-secondary-600 mt-1">{t('evaluationsSubtitle')}</p>
+        </div>
+        {can('assets:run_draft') && (
+          <Button onClick={() => setIsFormOpen(true)}>{t('newEvaluation')}</Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {evaluations.length === 0 ? (
+        <Card>
+          <CardBody className="text-center py-12">
+            <p className="text-secondary-600">{t('noEvaluationsYet')}</p>
+          </CardBody>
+        </Card>
+      ) : (
+        <Card>
+          <ul className="divide-y divide-secondary-100">
+            {evaluations.map((evaluation) => (
+              <li key={evaluation.id} className="flex items-center justify-between px-6 py-4">
+                <div className="min-w-0">
+                  <Link
+                    to={`/evaluations/${evaluation.id}`}
+                    className="font-medium text-secondary-900 hover:text-primary-600"
+                  >
+                    {evaluation.name}
+                  </Link>
+                  <div className="text-xs text-secondary-500 mt-0.5">
+                    {evaluation.parent_type === 'skill' ? t('skill') : t('workflow')}: {parentName(evaluation)}
+                    {evaluation.step_order !== null && <> · {t('stepLabel')} {evaluation.step_order}</>}
+                    {' · '}{evaluation.variants.length} × {evaluation.dataset.length}
+                    {' · '}{new Date(evaluation.created_at).toLocaleString(locale)}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3 flex-shrink-0">
+                  <span className={`inline-block px-2.5 py-0.5 rounded-full text-xs font-medium ${EVALUATION_STATUS_STYLES[evaluation.status]}`}>
+                    {evaluation.status === 'draft' ? t('evaluationNotRun') : t(evaluation.status)}
+                  </span>
+                  {can('assets:run_draft') && evaluation.status !== 'running' && (
+                    <Button size="sm" variant="danger" onClick={() => handleDelete(evaluation)}>
+                      {t('delete')}
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      <Modal isOpen={isFormOpen} onClose={() => setIsFormOpen(false)} title={t('newEvaluation')} size="xl">
+        {isFormOpen && (
+          <EvaluationForm
+            skills={skills}
+            workflows={workflows}
+            models={models}
+            onSaved={(saved) => {
+              setEvaluations((prev) => [saved, ...prev]);
+              setIsFormOpen(false);
+            }}
+            onCancel={() => setIsFormOpen(false)}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { EvaluationManager } from './EvaluationManager';
+export { EvaluationGrid } from './EvaluationGrid';
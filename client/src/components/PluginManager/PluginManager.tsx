@@ -1,7 +1,9 @@
 import React, { useEffect, useState, useCallback } from 'react';
+import { useAuth } from '../../context/AuthContext';
 import { useLanguage } from '../../context/LanguageContext';
 import { Button, Card, CardBody, Input } from '../common';
 import api from '../../services/api';
+import { SandboxSettings } from './SandboxSettings';
 
 interface PluginConfigSchema {
   type?: string;
@@ -14,7 +16,7 @@ interface PluginConfigSchema {
 
 interface Plugin {
   name: string;
-  type: 'channel' | 'tool' | 'memory' | 'provider';
+  type: 'channel' | 'tool' | 'memory' | 'provider' | 'extraction';
   version: string;
   displayName: string;
   description: string;
@@ -28,10 +30,12 @@ const TYPE_COLORS: Record<string, string> = {
   tool: 'bg-green-100 text-green-800',
   memory: 'bg-purple-100 text-purple-800',
   provider: 'bg-orange-100 text-orange-800',
+  extraction: 'bg-teal-100 text-teal-800',
 };
 
 export function PluginManager() {
   const { t } = useLanguage();
+  const { can } = useAuth();
   const [plugins, setPlugins] = useState<Plugin[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -179,14 +183,16 @@ export function PluginManager() {
           );
         })}
 
-        <div className="pt-2">
-          <Button
-            onClick={() => handleSaveConfig(plugin)}
-            disabled={saving === plugin.name}
-          >
-            {saving === plugin.name ? t('saving') : t('saveConfig')}
-          </Button>
-        </div>
+        {can('system:configure') && (
+          <div className="pt-2">
+            <Button
+              onClick={() => handleSaveConfig(plugin)}
+              disabled={saving === plugin.name}
+            >
+              {saving === plugin.name ? t('saving') : t('saveConfig')}
+            </Button>
+          </div>
+        )}
       </div>
     );
   };
@@ -254,7 +260,8 @@ export function PluginManager() {
                         e.stopPropagation();
                         handleToggleEnabled(plugin);
                       }}
-                      className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                      disabled={!can('system:configure')}
+                      className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
                         plugin.enabled ? 'bg-blue-600' : 'bg-gray-300'
                       }`}
                       aria-label={plugin.enabled ? t('disablePlugin') : t('enablePlugin')}
@@ -296,6 +303,10 @@ export function PluginManager() {
           ))}
         </div>
       )}
+
+      <div className="mt-8">
+        {can('system:configure') && <SandboxSettings />}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,234 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { useLanguage } from '../../context/LanguageContext';
+import { Button, Card, CardBody, Input, TextArea } from '../common';
+import api from '../../services/api';
+import { TranslationKey } from '../../i18n/translations';
+import { SandboxAuditEntry, SandboxConfig, SandboxStatus } from '../../types';
+
+const RUN_MODE_BADGES: Record<SandboxStatus['runMode'], { className: string; labelKey: TranslationKey }> = {
+  isolated: { className: 'bg-green-100 text-green-800', labelKey: 'sandboxIsolationAvailable' },
+  unisolated: { className: 'bg-red-100 text-red-800', labelKey: 'sandboxRunningUnisolated' },
+  blocked: { className: 'bg-amber-100 text-amber-800', labelKey: 'sandboxIsolationUnavailable' },
+};
+
+const STATUS_COLORS: Record<SandboxAuditEntry['status'], string> = {
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  timed_out: 'bg-amber-100 text-amber-800',
+  denied: 'bg-gray-200 text-gray-800',
+};
+
+// List fields keep blank lines while editing and are trimmed on save
+function toLines(lines: string[]): string[] {
+  return lines.map((line) => line.trim()).filter(Boolean);
+}
+
+/** Limits shared by script steps and the bash tool, plus the recent audit log. */
+export function SandboxSettings() {
+  const { t } = useLanguage();
+  const [config, setConfig] = useState<SandboxConfig | null>(null);
+  const [runMode, setRunMode] = useState<SandboxStatus['runMode']>('blocked');
+  const [audit, setAudit] = useState<SandboxAuditEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchSandbox = useCallback(async () => {
+    try {
+      setError(null);
+      const [status, entries] = await Promise.all([
+        api.getSandboxConfig(),
+        api.getSandboxAudit(20),
+      ]);
+      setConfig(status.config);
+      setRunMode(status.runMode);
+      setAudit(entries);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t('failedToLoadSandbox'));
+    }
+  }, [t]);
+
+  useEffect(() => {
+    fetchSandbox();
+  }, [fetchSandbox]);
+
+  const update = <K extends keyof SandboxConfig>(key: K, value: SandboxConfig[K]) => {
+    setConfig((prev) => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!config) return;
+    try {
+      setSaving(true);
+      setError(null);
+      const status = await api.updateSandboxConfig({
+        ...config,
+        allowedPaths: toLines(config.allowedPaths),
+        writablePaths: toLines(config.writablePaths),
+        allowedEnv: toLines(config.allowedEnv),
+      });
+      setConfig(status.config);
+      setRunMode(status.runMode);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t('failedToSaveConfig'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!config) {
+    return error ? (
+      <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">{error}</div>
+    ) : null;
+  }
+
+  return (
+    <Card>
+      <CardBody>
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-lg font-semibold text-gray-900">{t('sandbox')}</h2>
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${RUN_MODE_BADGES[runMode].className}`}>
+            {t(RUN_MODE_BADGES[runMode].labelKey)}
+          </span>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">{t('sandboxDescription')}</p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={config.allowNetwork}
+              onChange={(e) => update('allowNetwork', e.target.checked)}
+              className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="text-sm font-medium text-gray-700">{t('sandboxAllowNetwork')}</span>
+          </label>
+
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={config.requireIsolation}
+              onChange={(e) => update('requireIsolation', e.target.checked)}
+              className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <div>
+              <span className="text-sm font-medium text-gray-700">{t('sandboxRequireIsolation')}</span>
+              <p className="text-xs text-gray-500">{t('sandboxRequireIsolationHelp')}</p>
+            </div>
+          </label>
+
+          <div className="grid grid-cols-2 gap-4">
+            <TextArea
+              label={t('sandboxAllowedPaths')}
+              helperText={t('sandboxPathsHelp')}
+              rows={3}
+              value={config.allowedPaths.join('\n')}
+              onChange={(e) => update('allowedPaths', e.target.value.split('\n'))}
+            />
+            <TextArea
+              label={t('sandboxWritablePaths')}
+              helperText={t('sandboxPathsHelp')}
+              rows={3}
+              value={config.writablePaths.join('\n')}
+              onChange={(e) => update('writablePaths', e.target.value.split('\n'))}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              type="number"
+              min={1}
+              label={t('sandboxTimeoutMs')}
+              value={config.timeoutMs}
+              onChange={(e) => update('timeoutMs', Number(e.target.value))}
+            />
+            <Input
+              type="number"
+              min={1}
+              label={t('sandboxMaxCpuSeconds')}
+              value={config.maxCpuSeconds}
+              onChange={(e) => update('maxCpuSeconds', Number(e.target.value))}
+            />
+            <Input
+              type="number"
+              min={1}
+              label={t('sandboxMaxMemoryMb')}
+              value={config.maxMemoryMb}
+              onChange={(e) => update('maxMemoryMb', Number(e.target.value))}
+            />
+            <Input
+              type="number"
+              min={1}
+              label={t('sandboxMaxOutputBytes')}
+              value={config.maxOutputBytes}
+              onChange={(e) => update('maxOutputBytes', Number(e.target.value))}
+            />
+          </div>
+
+          <TextArea
+            label={t('sandboxAllowedEnv')}
+            helperText={t('sandboxAllowedEnvHelp')}
+            rows={3}
+            value={config.allowedEnv.join('\n')}
+            onChange={(e) => update('allowedEnv', e.target.value.split('\n'))}
+          />
+
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? t('saving') : t('saveConfig')}
+          </Button>
+        </div>
+
+        <div className="mt-6 pt-4 border-t border-gray-200">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-gray-900">{t('sandboxAuditLog')}</h3>
+            <Button variant="ghost" size="sm" onClick={fetchSandbox}>{t('refresh')}</Button>
+          </div>
+          {audit.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">{t('sandboxNoAuditEntries')}</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1 pr-2">{t('sandboxAuditTime')}</th>
+                  <th className="py-1 pr-2">{t('sandboxAuditSource')}</th>
+                  <th className="py-1 pr-2">{t('sandboxAuditCommand')}</th>
+                  <th className="py-1 pr-2">{t('status')}</th>
+                  <th className="py-1 text-right">{t('sandboxAuditDuration')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {audit.map((entry) => (
+                  <tr key={entry.id} className="border-t border-gray-100 align-top">
+                    <td className="py-1 pr-2 whitespace-nowrap text-gray-500">
+                      {new Date(entry.created_at).toLocaleString()}
+                    </td>
+                    <td className="py-1 pr-2">{entry.source}</td>
+                    <td className="py-1 pr-2 font-mono text-gray-700 break-all" title={entry.error_message || undefined}>
+                      {entry.command.length > 120 ? `${entry.command.slice(0, 120)}…` : entry.command}
+                    </td>
+                    <td className="py-1 pr-2 whitespace-nowrap">
+                      <span className={`px-1.5 py-0.5 rounded ${STATUS_COLORS[entry.status]}`}>
+                        {entry.status}
+                      </span>
+                      {entry.isolation === 'none' && (
+                        <span className="ml-1 text-amber-600">{t('sandboxNotIsolated')}</span>
+                      )}
+                    </td>
+                    <td className="py-1 text-right text-gray-500">
+                      {entry.duration_ms != null ? `${entry.duration_ms}ms` : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
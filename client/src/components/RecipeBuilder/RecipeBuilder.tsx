@@ -2,11 +2,15 @@ import React, { useEffect, useState, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { WorkflowDefinition, WorkflowStep, AIModel } from '../../types';
 import api, { ExecutorInfo } from '../../services/api';
-import { Button, Input, TextArea, Select, Card, CardBody, CardHeader, Modal, ExecutorConfigFields } from '../common';
+import {
+  Button, Input, TextArea, Select, Card, CardBody, CardHeader, Modal, ExecutorConfigFields,
+  OutputSchemaField, StepReferenceSuggestions, parseOutputSchema, getSchemaPaths,
+} from '../common';
 import { useLanguage } from '../../context/LanguageContext';
 import { useNotifications } from '../../context/NotificationContext';
 
-const STEP_OUTPUT_REF_REGEX = /^step_\d+_output(?:\..+)?$/i;
+// Step outputs, including the review monitor's {{new_reviews}} / {{updated_reviews}}
+const STEP_OUTPUT_REF_REGEX = /^(?:step_\d+_output|new_reviews|updated_reviews)(?:\..+)?$/i;
 const COMPANY_STANDARD_KEYS = [
   'company_voice',
   'company_platform',
@@ -176,6 +180,7 @@ export function RecipeBuilder() {
   const [error, setError] = useState<string | null>(null);
   const [selectedStepIndex, setSelectedStepIndex] = useState<number | null>(null);
   const [showVariableHelp, setShowVariableHelp] = useState(false);
+  const [promptCursor, setPromptCursor] = useState<number | null>(null);
   const [showStepSelector, setShowStepSelector] = useState(false);
 
   // Compute required inputs from all steps
@@ -335,6 +340,25 @@ export function RecipeBuilder() {
     setSelectedStepIndex(newIndex);
   };
 
+  const handlePickReference = (value: string, cursor: number) => {
+    updateStep(selectedStepIndex!, { prompt_template: value });
+    setPromptCursor(cursor);
+    requestAnimationFrame(() => {
+      const textarea = document.getElementById('workflow-step-prompt') as HTMLTextAreaElement | null;
+      textarea?.focus();
+      textarea?.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  // Outputs of earlier steps, with the fields their output schemas declare
+  const stepReferences = useMemo(() => {
+    if (selectedStepIndex === null) return [];
+    return (recipe.steps || []).slice(0, selectedStepIndex).flatMap((step, index) => {
+      const base = `step_${index + 1}_output`;
+      return [base, ...getSchemaPaths(parseOutputSchema(step.executor_config), base)];
+    });
+  }, [recipe.steps, selectedStepIndex]);
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -573,12 +597,24 @@ export function RecipeBuilder() {
                         </button>
                       </div>
                       <TextArea
+                        id="workflow-step-prompt"
                         value={selectedStep.prompt_template}
-                        onChange={(e) => updateStep(selectedStepIndex!, { prompt_template: e.target.value })}
+                        onChange={(e) => {
+                          updateStep(selectedStepIndex!, { prompt_template: e.target.value });
+                          setPromptCursor(e.target.selectionStart);
+                        }}
+                        onSelect={(e) => setPromptCursor(e.currentTarget.selectionStart)}
+                        onBlur={() => setPromptCursor(null)}
                         placeholder={t('promptTemplatePlaceholder')}
                         rows={12}
                         className="font-mono text-sm"
                       />
+                      <StepReferenceSuggestions
+                        value={selectedStep.prompt_template || ''}
+                        cursor={promptCursor}
+                        references={stepReferences}
+                        onPick={handlePickReference}
+                      />
                       <p className="mt-1 text-sm text-secondary-500">
                         {t('promptTemplateHelp')}
                       </p>
@@ -595,6 +631,16 @@ export function RecipeBuilder() {
                       ]}
                     />
 
+                    <OutputSchemaField
+                      key={selectedStepIndex}
+                      executorConfig={selectedStep.executor_config || ''}
+                      stepOrder={selectedStepIndex! + 1}
+                      onConfigChange={(config) => updateStep(selectedStepIndex!, {
+                        executor_config: config,
+                        ...(parseOutputSchema(config) ? { output_format: 'json' as const } : {}),
+                      })}
+                    />
+
                     {/* Model Config */}
                     <div className="border-t border-secondary-200 pt-4">
                       <h3 className="text-sm font-medium text-secondary-700 mb-3">{t('modelSettings')}</h3>
@@ -630,12 +676,25 @@ export function RecipeBuilder() {
                   </>
                 ) : (
                   /* Dynamic executor config (script, http, transform, etc.) */
-                  <ExecutorConfigFields
-                    stepType={selectedStep.step_type!}
-                    executors={executors}
-                    executorConfig={selectedStep.executor_config || '{}'}
-                    onConfigChange={(config) => updateStep(selectedStepIndex!, { executor_config: config })}
-                  />
+                  <>
+                    {['approval', 'ask_user'].includes(selectedStep.step_type!) && (
+                      <div>
+                        <TextArea
+                          label={t('reviewInstructions')}
+                          value={selectedStep.prompt_template || ''}
+                          onChange={(e) => updateStep(selectedStepIndex!, { prompt_template: e.target.value })}
+                          rows={4}
+                        />
+                        <p className="mt-1 text-sm text-secondary-500">{t('reviewInstructionsHelp')}</p>
+                      </div>
+                    )}
+                    <ExecutorConfigFields
+                      stepType={selectedStep.step_type!}
+                      executors={executors}
+                      executorConfig={selectedStep.executor_config || '{}'}
+                      onConfigChange={(config) => updateStep(selectedStepIndex!, { executor_config: config })}
+                    />
+                  </>
                 )}
               </CardBody>
             </Card>
@@ -677,8 +736,10 @@ export function RecipeBuilder() {
             </p>
             <div className="mt-2 bg-secondary-50 p-3 rounded text-sm font-mono">
               {'{{step_1_output}}'}<br/>
-              {'{{step_2_output}}'}
+              {'{{step_2_output}}'}<br/>
+              {'{{step_2_output.summary}}'}
             </div>
+            <p className="text-sm text-secondary-600 mt-2">{t('stepOutputPathsDesc')}</p>
           </div>
           <div>
             <h3 className="font-semibold text-secondary-900">{t('companyStandards')}</h3>
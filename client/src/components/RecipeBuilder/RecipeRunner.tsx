@@ -138,7 +138,7 @@ export function RecipeRunner() {
     const inputs = new Set<string>();
     const optionalInputs = new Set<string>();
     const variableRegex = /\{\{([^}]+)\}\}/g;
-    const isStepOutputReference = (value: string): boolean => /^step_\d+_output(?:\..+)?$/i.test(String(value || '').trim());
+    const isStepOutputReference = (value: string): boolean => /^(?:step_\d+_output|new_reviews|updated_reviews)(?:\..+)?$/i.test(String(value || '').trim());
 
     const standardNames = [
       'company_voice', 'company_platform', 'company_image', 'voice_guidelines',
@@ -247,7 +247,7 @@ export function RecipeRunner() {
   const allInputs = useMemo(() => {
     const allVars = new Set<string>();
     const variableRegex = /\{\{([^}]+)\}\}/g;
-    const isStepOutputReference = (value: string): boolean => /^step_\d+_output(?:\..+)?$/i.test(String(value || '').trim());
+    const isStepOutputReference = (value: string): boolean => /^(?:step_\d+_output|new_reviews|updated_reviews)(?:\..+)?$/i.test(String(value || '').trim());
 
     const standardNames = [
       'company_voice', 'company_platform', 'company_image', 'voice_guidelines',
@@ -648,10 +648,12 @@ export function RecipeRunner() {
                       </div>
                       <div className="bg-secondary-50 rounded-lg p-4">
                         <h5 className="text-sm font-medium text-secondary-700 mb-2">{t('supportedPlatforms')}</h5>
-                        <div className="flex space-x-2">
-                          <span className="px-2 py-1 bg-purple-100 text-purple-800 text-xs rounded border border-purple-200">
-                            🛋️ Wayfair
-                          </span>
+                        <div className="flex flex-wrap gap-2">
+                          {['Wayfair', 'Amazon', 'Walmart', 'Etsy', 'Home Depot', 'Shopify'].map((name) => (
+                            <span key={name} className="px-2 py-1 bg-purple-100 text-purple-800 text-xs rounded border border-purple-200">
+                              {name}
+                            </span>
+                          ))}
                         </div>
                       </div>
                       <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
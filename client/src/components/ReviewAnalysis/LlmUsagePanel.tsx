@@ -0,0 +1,294 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import api from '../../services/api';
+import { LlmUsagePeriod, LlmUsageSummary, LlmUsageTotals, ModelPriceEntry } from '../../types';
+import { useLanguage } from '../../context/LanguageContext';
+import { useAuth } from '../../context/AuthContext';
+
+const PERIODS: LlmUsagePeriod[] = ['today', 'week', 'month', 'all'];
+
+const formatCost = (value: number) => `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)}`;
+
+interface BreakdownRow extends LlmUsageTotals {
+  key: string;
+  label: string;
+}
+
+const BreakdownTable: React.FC<{ title: string; rows: BreakdownRow[] }> = ({ title, rows }) => {
+  const { t } = useLanguage();
+  if (rows.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-secondary-700 mb-2">{title}</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-secondary-200">
+            <th className="text-left py-2 px-3 font-medium text-secondary-700">{t('name')}</th>
+            <th className="text-right py-2 px-3 font-medium text-secondary-700">{t('llmCalls')}</th>
+            <th className="text-right py-2 px-3 font-medium text-secondary-700">{t('promptTokens')}</th>
+            <th className="text-right py-2 px-3 font-medium text-secondary-700">{t('completionTokens')}</th>
+            <th className="text-right py-2 px-3 font-medium text-secondary-700">{t('cost')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key} className="border-b border-secondary-100 hover:bg-secondary-50">
+              <td className="py-2 px-3 text-secondary-900 truncate max-w-xs">{row.label}</td>
+              <td className="py-2 px-3 text-right text-secondary-900">{row.calls}</td>
+              <td className="py-2 px-3 text-right text-secondary-600">{row.prompt_tokens.toLocaleString()}</td>
+              <td className="py-2 px-3 text-right text-secondary-600">{row.completion_tokens.toLocaleString()}</td>
+              <td className="py-2 px-3 text-right font-medium text-secondary-900">{formatCost(row.cost_usd)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export const LlmUsagePanel: React.FC = () => {
+  const { t } = useLanguage();
+  const { can } = useAuth();
+  const [period, setPeriod] = useState<LlmUsagePeriod>('month');
+  const [summary, setSummary] = useState<LlmUsageSummary | null>(null);
+  const [prices, setPrices] = useState<ModelPriceEntry[]>([]);
+  const [editing, setEditing] = useState<{ model: string; input: string; output: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    setError(null);
+    try {
+      const [summaryData, priceData] = await Promise.all([api.getLlmUsage(period), api.getModelPrices()]);
+      setSummary(summaryData);
+      setPrices(priceData);
+    } catch (err: any) {
+      setError(err.message || t('failedToLoadUsageData'));
+    }
+  }, [period, t]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleSavePrice = async () => {
+    if (!editing) return;
+    try {
+      await api.setModelPrice(editing.model, Number(editing.input), Number(editing.output));
+      setEditing(null);
+      await loadData();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleResetPrice = async (model: string) => {
+    try {
+      await api.clearModelPrice(model);
+      await loadData();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const budget = summary?.budget;
+  const periodLabels: Record<LlmUsagePeriod, string> = {
+    today: t('today'),
+    week: t('thisWeek'),
+    month: t('thisMonth'),
+    all: t('allTime'),
+  };
+  const priceSourceLabels: Record<ModelPriceEntry['source'], string> = {
+    override: t('priceSourceOverride'),
+    default: t('priceSourceDefault'),
+    free: t('priceSourceFree'),
+    unpriced: t('priceSourceUnpriced'),
+  };
+  const sourceLabels: Record<string, string> = {
+    workflow_step: t('llmSourceWorkflowStep'),
+    agent: t('llmSourceAgent'),
+    assistant: t('llmSourceAssistant'),
+    model_test: t('llmSourceModelTest'),
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-2">
+        {PERIODS.map((p) => (
+          <button
+            key={p}
+            onClick={() => setPeriod(p)}
+            className={`px-3 py-1 text-sm rounded-full ${
+              period === p ? 'bg-primary-600 text-white' : 'bg-secondary-100 text-secondary-700 hover:bg-secondary-200'
+            }`}
+          >
+            {periodLabels[p]}
+          </button>
+        ))}
+      </div>
+
+      {error && <div className="p-3 bg-red-50 text-red-700 text-sm rounded-lg">{error}</div>}
+
+      {budget && budget.state !== 'none' && (
+        <div className={`p-4 rounded-lg border ${
+          budget.state === 'exceeded' ? 'bg-red-50 border-red-200 text-red-800' :
+          budget.state === 'warning' ? 'bg-yellow-50 border-yellow-200 text-yellow-800' :
+          'bg-secondary-50 border-secondary-200 text-secondary-800'
+        }`}>
+          <div className="text-sm font-medium">
+            {t('llmBudgetSpent')
+              .replace('{spent}', formatCost(budget.month_cost_usd))
+              .replace('{budget}', formatCost(budget.monthly_budget_usd || 0))}
+          </div>
+          {budget.state === 'warning' && <div className="text-xs mt-1">{t('llmBudgetWarning')}</div>}
+          {budget.state === 'exceeded' && <div className="text-xs mt-1">{t('llmBudgetExceeded')}</div>}
+        </div>
+      )}
+
+      {summary && (
+        <>
+          <div className="grid grid-cols-4 gap-4">
+            <div className="bg-secondary-50 rounded-lg p-4">
+              <div className="text-2xl font-bold text-secondary-900">{summary.totals.calls}</div>
+              <div className="text-sm text-secondary-600">{t('llmCalls')}</div>
+            </div>
+            <div className="bg-secondary-50 rounded-lg p-4">
+              <div className="text-2xl font-bold text-secondary-900">{summary.totals.prompt_tokens.toLocaleString()}</div>
+              <div className="text-sm text-secondary-600">{t('promptTokens')}</div>
+            </div>
+            <div className="bg-secondary-50 rounded-lg p-4">
+              <div className="text-2xl font-bold text-secondary-900">{summary.totals.completion_tokens.toLocaleString()}</div>
+              <div className="text-sm text-secondary-600">{t('completionTokens')}</div>
+            </div>
+            <div className="bg-primary-50 rounded-lg p-4">
+              <div className="text-2xl font-bold text-primary-700">{formatCost(summary.totals.cost_usd)}</div>
+              <div className="text-sm text-primary-600">{t('cost')}</div>
+            </div>
+          </div>
+
+          {summary.totals.calls === 0 ? (
+            <div className="text-center py-6 text-secondary-500">{t('noLlmUsageYet')}</div>
+          ) : (
+            <>
+              <BreakdownTable
+                title={t('llmBySource')}
+                rows={summary.by_source.map((r) => ({ ...r, key: r.source, label: sourceLabels[r.source] || r.source }))}
+              />
+              <BreakdownTable
+                title={t('llmByModel')}
+                rows={summary.by_model.map((r) => ({ ...r, key: `${r.provider}:${r.model}`, label: `${r.model} (${r.provider})` }))}
+              />
+              <BreakdownTable
+                title={t('llmBySkill')}
+                rows={summary.by_skill.map((r) => ({ ...r, key: String(r.skill_id), label: r.name || `#${r.skill_id}` }))}
+              />
+              <BreakdownTable
+                title={t('llmByWorkflow')}
+                rows={summary.by_workflow.map((r) => ({ ...r, key: String(r.workflow_id), label: r.name || `#${r.workflow_id}` }))}
+              />
+              <BreakdownTable
+                title={t('llmBySession')}
+                rows={summary.by_session.map((r) => ({ ...r, key: r.session_id, label: r.session_id }))}
+              />
+              <BreakdownTable
+                title={t('llmByUser')}
+                rows={summary.by_user.map((r) => ({ ...r, key: String(r.user_id), label: r.email }))}
+              />
+            </>
+          )}
+        </>
+      )}
+
+      {/* Price table */}
+      <div>
+        <h3 className="text-sm font-medium text-secondary-700 mb-2">{t('modelPrices')}</h3>
+        <p className="text-xs text-secondary-500 mb-2">{t('modelPricesHint')}</p>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-secondary-200">
+              <th className="text-left py-2 px-3 font-medium text-secondary-700">{t('model')}</th>
+              <th className="text-right py-2 px-3 font-medium text-secondary-700">{t('inputPerMtok')}</th>
+              <th className="text-right py-2 px-3 font-medium text-secondary-700">{t('outputPerMtok')}</th>
+              <th className="text-left py-2 px-3 font-medium text-secondary-700">{t('priceSource')}</th>
+              {can('system:configure') && <th className="py-2 px-3" />}
+            </tr>
+          </thead>
+          <tbody>
+            {prices.map((price) => (
+              <tr key={price.model} className="border-b border-secondary-100">
+                <td className="py-2 px-3 text-secondary-900">{price.model}</td>
+                {editing?.model === price.model ? (
+                  <>
+                    <td className="py-1 px-3 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={editing.input}
+                        onChange={(e) => setEditing({ ...editing, input: e.target.value })}
+                        className="w-24 px-2 py-1 border border-secondary-300 rounded text-right"
+                      />
+                    </td>
+                    <td className="py-1 px-3 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={editing.output}
+                        onChange={(e) => setEditing({ ...editing, output: e.target.value })}
+                        className="w-24 px-2 py-1 border border-secondary-300 rounded text-right"
+                      />
+                    </td>
+                  </>
+                ) : (
+                  <>
+                    <td className="py-2 px-3 text-right text-secondary-600">${price.input_per_mtok}</td>
+                    <td className="py-2 px-3 text-right text-secondary-600">${price.output_per_mtok}</td>
+                  </>
+                )}
+                <td className="py-2 px-3">
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${
+                    price.source === 'override' ? 'bg-primary-100 text-primary-800' :
+                    price.source === 'unpriced' ? 'bg-yellow-100 text-yellow-800' :
+                    'bg-secondary-100 text-secondary-700'
+                  }`}>
+                    {priceSourceLabels[price.source]}
+                  </span>
+                </td>
+                {can('system:configure') && (
+                  <td className="py-2 px-3 text-right whitespace-nowrap space-x-3">
+                    {editing?.model === price.model ? (
+                      <>
+                        <button onClick={handleSavePrice} className="text-primary-600 hover:text-primary-700">{t('save')}</button>
+                        <button onClick={() => setEditing(null)} className="text-secondary-500 hover:text-secondary-700">{t('cancel')}</button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => setEditing({
+                            model: price.model,
+                            input: String(price.input_per_mtok),
+                            output: String(price.output_per_mtok),
+                          })}
+                          className="text-primary-600 hover:text-primary-700"
+                        >
+                          {t('edit')}
+                        </button>
+                        {price.source === 'override' && (
+                          <button onClick={() => handleResetPrice(price.model)} className="text-secondary-500 hover:text-secondary-700">
+                            {t('reset')}
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default LlmUsagePanel;
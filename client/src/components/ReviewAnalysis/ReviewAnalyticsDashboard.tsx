@@ -0,0 +1,412 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import api from '../../services/api';
+import { useAuth } from '../../context/AuthContext';
+import { useLanguage } from '../../context/LanguageContext';
+import { Button, Card, CardBody } from '../common';
+import {
+  ReviewAnalytics,
+  ReviewProduct,
+  ReviewRatingCounts,
+  ReviewSentiment,
+  ReviewSentimentCounts,
+} from '../../types';
+
+const STARS = ['5', '4', '3', '2', '1'] as const;
+
+const STAR_COLORS: Record<keyof ReviewRatingCounts, string> = {
+  5: 'bg-green-500',
+  4: 'bg-green-300',
+  3: 'bg-yellow-300',
+  2: 'bg-orange-400',
+  1: 'bg-red-500',
+};
+
+const SENTIMENTS: ReviewSentiment[] = ['positive', 'neutral', 'negative'];
+
+const SENTIMENT_COLORS: Record<ReviewSentiment, string> = {
+  positive: 'bg-green-500',
+  neutral: 'bg-secondary-300',
+  negative: 'bg-red-500',
+};
+
+const SENTIMENT_BADGES: Record<ReviewSentiment, string> = {
+  positive: 'bg-green-100 text-green-800',
+  neutral: 'bg-secondary-100 text-secondary-700',
+  negative: 'bg-red-100 text-red-800',
+};
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+const rating = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+// One horizontal bar split into segments proportional to their counts
+function StackedBar({ segments }: { segments: Array<{ key: string; count: number; color: string; label: string }> }) {
+  const total = segments.reduce((sum, segment) => sum + segment.count, 0);
+  if (total === 0) return <div className="h-4 rounded bg-secondary-100" />;
+  return (
+    <div className="flex h-4 rounded overflow-hidden bg-secondary-100">
+      {segments.filter((segment) => segment.count > 0).map((segment) => (
+        <div
+          key={segment.key}
+          className={segment.color}
+          style={{ width: `${(segment.count / total) * 100}%` }}
+          title={`${segment.label}: ${segment.count}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+export const ReviewAnalyticsDashboard: React.FC = () => {
+  const { t } = useLanguage();
+  const { can } = useAuth();
+  const [products, setProducts] = useState<ReviewProduct[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [interval, setTrendInterval] = useState<'week' | 'month'>('month');
+  const [analytics, setAnalytics] = useState<ReviewAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isTagging, setIsTagging] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAnalytics = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setAnalytics(await api.getReviewAnalytics({ products: selected, interval }));
+    } catch (err: any) {
+      setError(err.message || t('failedToLoadReviewAnalytics'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selected, interval, t]);
+
+  useEffect(() => {
+    api.getReviewProducts().then(setProducts).catch((err: any) => setError(err.message));
+  }, []);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  const toggleProduct = (productKey: string) => {
+    setSelected((current) => (
+      current.includes(productKey) ? current.filter((key) => key !== productKey) : [...current, productKey]
+    ));
+  };
+
+  const productLabel = (productKey: string) => {
+    const product = products.find((item) => item.productKey === productKey);
+    return product?.productName || productKey;
+  };
+
+  const handleTag = async () => {
+    setIsTagging(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const result = await api.tagReviews({ productKeys: selected.length > 0 ? selected : undefined });
+      setNotice(t('reviewsTaggedSummary')
+        .replace('{tagged}', String(result.tagged))
+        .replace('{model}', result.model)
+        .replace('{remaining}', String(result.remaining)));
+      await loadAnalytics();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsTagging(false);
+    }
+  };
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    try {
+      const { filename, blob } = await api.exportReviewAnalytics({ products: selected, interval }, format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const ratingSegments = (counts: ReviewRatingCounts) => STARS.map((star) => ({
+    key: star, count: counts[star], color: STAR_COLORS[star], label: `${star}★`,
+  }));
+
+  const sentimentSegments = (counts: ReviewSentimentCounts) => SENTIMENTS.map((sentiment) => ({
+    key: sentiment, count: counts[sentiment], color: SENTIMENT_COLORS[sentiment], label: t(sentiment),
+  }));
+
+  const positiveShare = analytics && analytics.taggedCount > 0
+    ? analytics.trend.reduce((sum, point) => sum + point.sentimentCounts.positive, 0) / analytics.taggedCount
+    : null;
+  const averageRating = analytics && analytics.products.length > 0
+    ? analytics.products.reduce((sum, product) => sum + (product.averageRating ?? 0) * product.reviewCount, 0)
+      / Math.max(1, analytics.products.reduce((sum, product) => sum + (product.averageRating === null ? 0 : product.reviewCount), 0))
+    : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">{t('reviewAnalytics')}</h1>
+          <p className="text-secondary-600 mt-1">{t('reviewAnalyticsSubtitle')}</p>
+        </div>
+        <div className="flex gap-2">
+          {can('assets:run') && (
+            <Button onClick={handleTag} isLoading={isTagging} disabled={!analytics || analytics.reviewCount === 0}>
+              {t('tagWithAi')}
+            </Button>
+          )}
+          <Button variant="secondary" onClick={() => handleExport('csv')}>{t('exportCsv')}</Button>
+          <Button variant="secondary" onClick={() => handleExport('xlsx')}>{t('exportXlsx')}</Button>
+        </div>
+      </div>
+
+      {error && <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg">{error}</div>}
+      {notice && <div className="bg-green-50 text-green-700 px-4 py-3 rounded-lg">{notice}</div>}
+
+      {/* Filters */}
+      <Card>
+        <CardBody className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium text-secondary-700">{t('products')}</h3>
+            <div className="flex space-x-4">
+              {(['week', 'month'] as const).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setTrendInterval(value)}
+                  className={`pb-1 text-sm font-medium border-b-2 transition-colors ${
+                    interval === value
+                      ? 'border-primary-600 text-primary-600'
+                      : 'border-transparent text-secondary-600 hover:text-secondary-900'
+                  }`}
+                >
+                  {t(value === 'week' ? 'byWeek' : 'byMonth')}
+                </button>
+              ))}
+            </div>
+          </div>
+          {products.length === 0 ? (
+            <p className="text-sm text-secondary-500">{t('noStoredReviewsYet')}</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {products.map((product) => (
+                <button
+                  key={`${product.platform}:${product.productKey}`}
+                  onClick={() => toggleProduct(product.productKey)}
+                  className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                    selected.includes(product.productKey)
+                      ? 'bg-primary-50 border-primary-300 text-primary-700'
+                      : 'border-secondary-200 text-secondary-600 hover:bg-secondary-50'
+                  }`}
+                  title={product.productUrl || product.productKey}
+                >
+                  {product.productName || product.productKey}
+                  <span className="ml-1 text-xs text-secondary-400">
+                    {product.platform} · {product.reviewCount}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+          <p className="text-xs text-secondary-500">{t('reviewProductFilterHint')}</p>
+        </CardBody>
+      </Card>
+
+      {isLoading && !analytics ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      ) : analytics && analytics.reviewCount > 0 ? (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-4 gap-4">
+            {[
+              { label: t('reviews'), value: analytics.reviewCount.toLocaleString() },
+              { label: t('averageRating'), value: rating(averageRating) },
+              { label: t('taggedReviews'), value: `${analytics.taggedCount} / ${analytics.reviewCount}` },
+              { label: t('positiveShare'), value: positiveShare === null ? '—' : percent(positiveShare) },
+            ].map((stat) => (
+              <div key={stat.label} className="bg-white rounded-lg shadow-sm border border-secondary-200 p-4">
+                <div className="text-3xl font-bold text-secondary-900">{stat.value}</div>
+                <div className="text-sm text-secondary-600">{stat.label}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Trends */}
+          <div className="grid grid-cols-2 gap-6">
+            <Card>
+              <CardBody>
+                <h3 className="text-sm font-medium text-secondary-700 mb-3">{t('ratingDistributionOverTime')}</h3>
+                <div className="space-y-2">
+                  {analytics.trend.map((point) => (
+                    <div key={point.period} className="flex items-center gap-3 text-sm">
+                      <span className="w-24 text-secondary-600 shrink-0">{point.period}</span>
+                      <div className="flex-1"><StackedBar segments={ratingSegments(point.ratingCounts)} /></div>
+                      <span className="w-20 text-right text-secondary-900 shrink-0">
+                        {rating(point.averageRating)} · {point.reviewCount}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-3 mt-3 text-xs text-secondary-500">
+                  {STARS.map((star) => (
+                    <span key={star} className="flex items-center gap-1">
+                      <span className={`w-3 h-3 rounded-sm ${STAR_COLORS[star]}`} />{star}★
+                    </span>
+                  ))}
+                </div>
+              </CardBody>
+            </Card>
+
+            <Card>
+              <CardBody>
+                <h3 className="text-sm font-medium text-secondary-700 mb-3">{t('sentimentOverTime')}</h3>
+                {analytics.taggedCount === 0 ? (
+                  <p className="text-sm text-secondary-500">{t('noTaggedReviewsYet')}</p>
+                ) : (
+                  <>
+                    <div className="space-y-2">
+                      {analytics.trend.map((point) => (
+                        <div key={point.period} className="flex items-center gap-3 text-sm">
+                          <span className="w-24 text-secondary-600 shrink-0">{point.period}</span>
+                          <div className="flex-1"><StackedBar segments={sentimentSegments(point.sentimentCounts)} /></div>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex gap-3 mt-3 text-xs text-secondary-500">
+                      {SENTIMENTS.map((sentiment) => (
+                        <span key={sentiment} className="flex items-center gap-1">
+                          <span className={`w-3 h-3 rounded-sm ${SENTIMENT_COLORS[sentiment]}`} />{t(sentiment)}
+                        </span>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </CardBody>
+            </Card>
+          </div>
+
+          {/* Product comparison */}
+          {analytics.products.length > 1 && (
+            <Card>
+              <CardBody>
+                <h3 className="text-sm font-medium text-secondary-700 mb-3">{t('productComparison')}</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-secondary-200">
+                        <th className="text-left py-2 px-3 font-medium text-secondary-700">{t('product')}</th>
+                        <th className="text-right py-2 px-3 font-medium text-secondary-700">{t('reviews')}</th>
+                        <th className="text-right py-2 px-3 font-medium text-secondary-700">{t('averageRating')}</th>
+                        <th className="py-2 px-3 font-medium text-secondary-700 w-40">{t('ratings')}</th>
+                        <th className="py-2 px-3 font-medium text-secondary-700 w-40">{t('sentiment')}</th>
+                        <th className="text-left py-2 px-3 font-medium text-secondary-700">{t('topTopics')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analytics.products.map((product) => (
+                        <tr key={`${product.platform}:${product.productKey}`} className="border-b border-secondary-100">
+                          <td className="py-2 px-3 text-secondary-900">
+                            {product.productName || product.productKey}
+                            <div className="text-xs text-secondary-500">{product.platform}</div>
+                          </td>
+                          <td className="py-2 px-3 text-right text-secondary-900">{product.reviewCount}</td>
+                          <td className="py-2 px-3 text-right text-secondary-900">{rating(product.averageRating)}</td>
+                          <td className="py-2 px-3"><StackedBar segments={ratingSegments(product.ratingCounts)} /></td>
+                          <td className="py-2 px-3"><StackedBar segments={sentimentSegments(product.sentimentCounts)} /></td>
+                          <td className="py-2 px-3 text-secondary-600">
+                            {product.topTopics.map((topic) => `${topic.topic} (${percent(topic.share)})`).join(', ') || '—'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardBody>
+            </Card>
+          )}
+
+          {/* Topics and motivations */}
+          <div className="grid grid-cols-3 gap-6">
+            <Card className="col-span-2">
+              <CardBody>
+                <h3 className="text-sm font-medium text-secondary-700 mb-3">{t('topicClusters')}</h3>
+                {analytics.topics.length === 0 ? (
+                  <p className="text-sm text-secondary-500">{t('noTaggedReviewsYet')}</p>
+                ) : (
+                  <div className="space-y-4">
+                    {analytics.topics.map((topic) => (
+                      <div key={topic.topic} className="border-b border-secondary-100 pb-3 last:border-0">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <span className="font-medium text-secondary-900">{topic.topic}</span>
+                            {topic.variants.length > 0 && (
+                              <span className="ml-2 text-xs text-secondary-500">{topic.variants.join(', ')}</span>
+                            )}
+                          </div>
+                          <span className="text-sm text-secondary-600">
+                            {topic.count} · {percent(topic.share)} · {rating(topic.averageRating)}★
+                          </span>
+                        </div>
+                        <div className="mt-2"><StackedBar segments={sentimentSegments(topic.sentimentCounts)} /></div>
+                        <ul className="mt-2 space-y-1">
+                          {topic.examples.map((example, index) => (
+                            <li key={index} className="text-sm text-secondary-700 flex items-start gap-2">
+                              <span className={`px-1.5 py-0.5 rounded text-xs font-medium shrink-0 ${SENTIMENT_BADGES[example.sentiment]}`}>
+                                {example.rating ?? '—'}★
+                              </span>
+                              <span>
+                                “{example.quote}”
+                                <span className="ml-1 text-xs text-secondary-400">
+                                  {productLabel(example.productKey)} · {example.date}
+                                </span>
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardBody>
+            </Card>
+
+            <Card>
+              <CardBody>
+                <h3 className="text-sm font-medium text-secondary-700 mb-3">{t('purchaseMotivations')}</h3>
+                {analytics.motivations.length === 0 ? (
+                  <p className="text-sm text-secondary-500">{t('noTaggedReviewsYet')}</p>
+                ) : (
+                  <div className="space-y-2">
+                    {analytics.motivations.map((item) => (
+                      <div key={item.motivation} className="text-sm">
+                        <div className="flex justify-between text-secondary-700">
+                          <span>{item.motivation}</span>
+                          <span>{item.count}</span>
+                        </div>
+                        <div className="h-2 rounded bg-secondary-100 mt-1">
+                          <div className="h-2 rounded bg-primary-500" style={{ width: percent(item.share) }} />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardBody>
+            </Card>
+          </div>
+        </>
+      ) : (
+        <div className="text-center py-12 text-secondary-500">{t('noStoredReviewsYet')}</div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewAnalyticsDashboard;
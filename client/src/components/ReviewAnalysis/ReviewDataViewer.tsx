@@ -17,6 +17,9 @@ const platformColors: Record<ScrapingPlatform, string> = {
   amazon: 'bg-orange-100 text-orange-800',
   walmart: 'bg-blue-100 text-blue-800',
   wayfair: 'bg-purple-100 text-purple-800',
+  etsy: 'bg-amber-100 text-amber-800',
+  homedepot: 'bg-red-100 text-red-800',
+  shopify: 'bg-green-100 text-green-800',
 };
 
 const sentimentColors: Record<string, string> = {
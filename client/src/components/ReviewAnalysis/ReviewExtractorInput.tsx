@@ -1,5 +1,17 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { BrowserChat } from '../BrowserChat/BrowserChat';
+import api from '../../services/api';
+import { ExtractionPlatform } from '../../types';
+
+// Example product URL for each built-in platform
+const URL_PLACEHOLDERS: Record<string, string> = {
+  wayfair: 'https://www.wayfair.com/furniture/pdp/product-name-w123456789.html',
+  amazon: 'https://www.amazon.com/dp/B0EXAMPLE1',
+  walmart: 'https://www.walmart.com/ip/product-name/123456789',
+  etsy: 'https://www.etsy.com/listing/123456789/product-name',
+  homedepot: 'https://www.homedepot.com/p/product-name/123456789',
+  shopify: 'https://store.example.com/products/product-name',
+};
 
 interface ReviewExtractorInputProps {
   onDataExtracted: (data: {
@@ -15,9 +27,18 @@ export const ReviewExtractorInput: React.FC<ReviewExtractorInputProps> = ({
 }) => {
   const [urls, setUrls] = useState('');
   const [platform, setPlatform] = useState('wayfair');
+  const [platforms, setPlatforms] = useState<ExtractionPlatform[]>([
+    { platform: 'wayfair', displayName: 'Wayfair Reviews' },
+  ]);
   const [showChat, setShowChat] = useState(false);
   const [chatResult, setChatResult] = useState<string | null>(null);
 
+  useEffect(() => {
+    api.getBrowserPlatforms()
+      .then((list) => { if (list.length > 0) setPlatforms(list); })
+      .catch(() => { /* keep the default list */ });
+  }, []);
+
   const handleStartScraping = () => {
     const urlList = urls.split('\n').map(u => u.trim()).filter(Boolean);
     if (urlList.length === 0) {
@@ -70,7 +91,11 @@ export const ReviewExtractorInput: React.FC<ReviewExtractorInputProps> = ({
               onChange={(e) => setPlatform(e.target.value)}
               className="w-full px-3 py-2 border border-secondary-200 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
             >
-              <option value="wayfair">Wayfair</option>
+              {platforms.map((p) => (
+                <option key={p.platform} value={p.platform}>
+                  {p.displayName.replace(/ Reviews$/, '')}
+                </option>
+              ))}
             </select>
           </div>
 
@@ -84,7 +109,7 @@ export const ReviewExtractorInput: React.FC<ReviewExtractorInputProps> = ({
             <textarea
               value={urls}
               onChange={(e) => setUrls(e.target.value)}
-              placeholder="https://www.wayfair.com/furniture/pdp/product-name-w123456789.html"
+              placeholder={URL_PLACEHOLDERS[platform] || 'https://'}
               rows={4}
               className="w-full px-3 py-2 border border-secondary-200 rounded-lg text-sm font-mono focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
             />
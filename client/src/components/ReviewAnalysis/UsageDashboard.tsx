@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import api from '../../services/api';
 import { UsageStats, UsageHistoryItem, BillingReport } from '../../types';
 import { useLanguage } from '../../context/LanguageContext';
+import { LlmUsagePanel } from './LlmUsagePanel';
 
 interface UsageDashboardProps {
   showBilling?: boolean;
@@ -18,7 +19,7 @@ export const UsageDashboard: React.FC<UsageDashboardProps> = ({
   const [billing, setBilling] = useState<BillingReport | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'overview' | 'history'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'llm' | 'history'>('overview');
 
   useEffect(() => {
     loadData();
@@ -125,6 +126,16 @@ export const UsageDashboard: React.FC<UsageDashboardProps> = ({
           >
             {t('overview')}
           </button>
+          <button
+            onClick={() => setActiveTab('llm')}
+            className={`pb-2 text-sm font-medium border-b-2 transition-colors ${
+              activeTab === 'llm'
+                ? 'border-primary-600 text-primary-600'
+                : 'border-transparent text-secondary-600 hover:text-secondary-900'
+            }`}
+          >
+            {t('llmTokensAndCost')}
+          </button>
           <button
             onClick={() => setActiveTab('history')}
             className={`pb-2 text-sm font-medium border-b-2 transition-colors ${
@@ -140,7 +151,9 @@ export const UsageDashboard: React.FC<UsageDashboardProps> = ({
 
       {/* Content */}
       <div className="p-4">
-        {activeTab === 'overview' ? (
+        {activeTab === 'llm' ? (
+          <LlmUsagePanel />
+        ) : activeTab === 'overview' ? (
           <div className="space-y-6">
             {/* Period Stats */}
             <div>
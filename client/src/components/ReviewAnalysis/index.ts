@@ -2,3 +2,4 @@ export { ReviewDataViewer } from './ReviewDataViewer';
 export { ReviewAnalysisDisplay } from './ReviewAnalysisDisplay';
 export { UsageDashboard } from './UsageDashboard';
 export { ReviewExtractorInput } from './ReviewExtractorInput';
+export { ReviewAnalyticsDashboard } from './ReviewAnalyticsDashboard';
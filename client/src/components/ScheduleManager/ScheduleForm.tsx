@@ -0,0 +1,330 @@
+import React, { useEffect, useState } from 'react';
+import { useLanguage } from '../../context/LanguageContext';
+import { Button, Input, TextArea, Select } from '../common';
+import api from '../../services/api';
+import {
+  CreateScheduleRequest,
+  CronPreview,
+  ScheduleOutputChannel,
+  WorkflowDefinition,
+  WorkflowSchedule,
+} from '../../types';
+
+const CRON_PRESETS = [
+  { value: '0 9 * * *', labelKey: 'cronPresetDaily' as const },
+  { value: '0 9 * * MON', labelKey: 'cronPresetWeekly' as const },
+  { value: '0 9 1 * *', labelKey: 'cronPresetMonthly' as const },
+  { value: '0 * * * *', labelKey: 'cronPresetHourly' as const },
+];
+
+const SYSTEM_VARIABLES = [
+  'brand_voice', 'amazon_requirements', 'social_media_guidelines', 'image_style_guidelines',
+  'platform_requirements', 'tone_guidelines', 'content_guidelines', 'new_reviews', 'updated_reviews',
+];
+
+// Input variables referenced by a skill/workflow's prompts
+function extractRequiredInputs(definition: WorkflowDefinition): string[] {
+  if (definition.required_inputs && definition.required_inputs.length > 0) {
+    return definition.required_inputs;
+  }
+  const variables: string[] = [];
+  for (const step of definition.steps || []) {
+    const matches = (step.prompt_template || '').match(/\{\{([^}]+)\}\}/g) || [];
+    for (const match of matches) {
+      const varName = match.replace(/\{\{|\}\}/g, '').trim();
+      if (/^step_\d+_output/.test(varName) || /^item([._]|$)/.test(varName) || SYSTEM_VARIABLES.includes(varName)) {
+        continue;
+      }
+      if (!variables.includes(varName)) variables.push(varName);
+    }
+  }
+  return variables;
+}
+
+interface ScheduleFormProps {
+  schedule: WorkflowSchedule | null;
+  skills: WorkflowDefinition[];
+  workflows: WorkflowDefinition[];
+  sessions: Array<{ id: string; channel_type: string; channel_id: string; title?: string | null }>;
+  onSaved: (schedule: WorkflowSchedule) => void;
+  onCancel: () => void;
+}
+
+export function ScheduleForm({ schedule, skills, workflows, sessions, onSaved, onCancel }: ScheduleFormProps) {
+  const { t, language } = useLanguage();
+  const [name, setName] = useState(schedule?.name || '');
+  const [parentType, setParentType] = useState<'skill' | 'workflow'>(schedule?.parent_type || 'skill');
+  const [parentId, setParentId] = useState<number | ''>(schedule?.parent_id || '');
+  const [cronExpression, setCronExpression] = useState(schedule?.cron_expression || '0 9 * * MON');
+  const [inputText, setInputText] = useState(
+    schedule ? JSON.stringify(schedule.input_data || {}, null, 2) : '{}'
+  );
+  const [outputChannel, setOutputChannel] = useState<ScheduleOutputChannel>(schedule?.output_channel || 'none');
+  const [outputChannelId, setOutputChannelId] = useState(schedule?.output_channel_id || '');
+  const [autoApprove, setAutoApprove] = useState(schedule ? schedule.auto_approve : true);
+  const [enabled, setEnabled] = useState(schedule ? schedule.enabled : true);
+  const [preview, setPreview] = useState<CronPreview | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parents = parentType === 'skill' ? skills : workflows;
+  const channelSessions = sessions.filter((s) => s.channel_type === outputChannel);
+
+  // Live next-run preview
+  useEffect(() => {
+    const expression = cronExpression.trim();
+    if (!expression) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const data = await api.previewCron(expression);
+        if (!cancelled) setPreview(data);
+      } catch {
+        if (!cancelled) setPreview(null);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [cronExpression]);
+
+  // Prefill input keys from the selected skill/workflow when inputs are still empty
+  useEffect(() => {
+    if (!parentId) return;
+    let cancelled = false;
+    const load = parentType === 'skill' ? api.getSkill(Number(parentId)) : api.getWorkflow(Number(parentId));
+    load
+      .then((definition) => {
+        if (cancelled) return;
+        const inputs = extractRequiredInputs(definition);
+        if (inputs.length > 0) {
+          const prefilled = JSON.stringify(Object.fromEntries(inputs.map((key) => [key, ''])), null, 2);
+          setInputText((current) => (current.trim() === '{}' ? prefilled : current));
+        }
+      })
+      .catch(() => {
+        // Leave inputs as-is
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [parentType, parentId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!name.trim()) {
+      setError(t('nameRequired'));
+      return;
+    }
+    if (!parentId) {
+      setError(t('scheduleTargetRequired'));
+      return;
+    }
+
+    let inputData: Record<string, any>;
+    try {
+      inputData = JSON.parse(inputText || '{}');
+      if (!inputData || typeof inputData !== 'object' || Array.isArray(inputData)) throw new Error();
+    } catch {
+      setError(t('scheduleInputsInvalid'));
+      return;
+    }
+
+    const payload: CreateScheduleRequest = {
+      name: name.trim(),
+      parent_type: parentType,
+      parent_id: Number(parentId),
+      cron_expression: cronExpression.trim(),
+      input_data: inputData,
+      output_channel: outputChannel,
+      output_channel_id: outputChannel === 'none' ? null : outputChannelId.trim(),
+      auto_approve: autoApprove,
+      enabled,
+    };
+
+    setIsSaving(true);
+    try {
+      const saved = schedule
+        ? await api.updateSchedule(schedule.id, payload)
+        : await api.createSchedule(payload);
+      onSaved(saved);
+    } catch (err: any) {
+      setError(err.message || t('failedToSaveSchedule'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const locale = language === 'zh' ? 'zh-CN' : 'en-US';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <Input
+        label={t('name')}
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder={t('scheduleNamePlaceholder')}
+      />
+
+      <div className="grid grid-cols-2 gap-4">
+        <Select
+          label={t('type')}
+          value={parentType}
+          onChange={(e) => {
+            setParentType(e.target.value as 'skill' | 'workflow');
+            setParentId('');
+          }}
+          options={[
+            { value: 'skill', label: t('skill') },
+            { value: 'workflow', label: t('workflow') },
+          ]}
+        />
+        <Select
+          label={parentType === 'skill' ? t('skill') : t('workflow')}
+          value={parentId === '' ? '' : String(parentId)}
+          onChange={(e) => setParentId(e.target.value ? Number(e.target.value) : '')}
+          options={[
+            { value: '', label: t('scheduleSelectTarget') },
+            ...parents.map((p) => ({ value: String(p.id), label: p.name })),
+          ]}
+        />
+      </div>
+
+      <div>
+        <Input
+          label={t('cronExpression')}
+          value={cronExpression}
+          onChange={(e) => setCronExpression(e.target.value)}
+          className="font-mono"
+          helperText={t('cronExpressionHelp')}
+        />
+        <div className="flex flex-wrap gap-2 mt-2">
+          {CRON_PRESETS.map((preset) => (
+            <button
+              key={preset.value}
+              type="button"
+              onClick={() => setCronExpression(preset.value)}
+              className="px-2 py-1 text-xs rounded bg-secondary-100 text-secondary-700 hover:bg-secondary-200"
+            >
+              {t(preset.labelKey)}
+            </button>
+          ))}
+        </div>
+        {preview && (
+          <div className="mt-2 text-sm">
+            {preview.valid ? (
+              <div className="text-secondary-600">
+                <span className="font-medium">{t('nextRuns')}:</span>
+                <ul className="mt-1 space-y-0.5">
+                  {preview.next_runs.map((run) => (
+                    <li key={run} className="font-mono text-xs">
+                      {new Date(run).toLocaleString(locale)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : (
+              <p className="text-red-600">{preview.error}</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <TextArea
+        label={t('scheduleInputs')}
+        value={inputText}
+        onChange={(e) => setInputText(e.target.value)}
+        rows={5}
+        className="font-mono text-sm"
+        helperText={t('scheduleInputsHelp')}
+      />
+
+      <div className="grid grid-cols-2 gap-4">
+        <Select
+          label={t('postResultsTo')}
+          value={outputChannel}
+          onChange={(e) => {
+            setOutputChannel(e.target.value as ScheduleOutputChannel);
+            setOutputChannelId('');
+          }}
+          options={[
+            { value: 'none', label: t('scheduleNoDelivery') },
+            { value: 'web', label: t('channelWeb') },
+            { value: 'lark', label: t('channelLark') },
+          ]}
+        />
+        {outputChannel !== 'none' && (
+          channelSessions.length > 0 && outputChannel === 'web' ? (
+            <Select
+              label={t('scheduleTargetSession')}
+              value={outputChannelId}
+              onChange={(e) => setOutputChannelId(e.target.value)}
+              options={[
+                { value: '', label: t('scheduleSelectSession') },
+                ...channelSessions.map((s) => ({
+                  value: s.channel_id,
+                  label: s.title || s.channel_id,
+                })),
+              ]}
+            />
+          ) : (
+            <Input
+              label={outputChannel === 'lark' ? t('larkChatId') : t('scheduleTargetSession')}
+              value={outputChannelId}
+              onChange={(e) => setOutputChannelId(e.target.value)}
+              placeholder={outputChannel === 'lark' ? 'oc_xxxxxxxx' : ''}
+              list={outputChannel === 'lark' ? 'schedule-lark-chats' : undefined}
+            />
+          )
+        )}
+        <datalist id="schedule-lark-chats">
+          {sessions.filter((s) => s.channel_type === 'lark').map((s) => (
+            <option key={s.id} value={s.channel_id}>{s.title || s.channel_id}</option>
+          ))}
+        </datalist>
+      </div>
+
+      <div className="flex items-center space-x-6">
+        <label className="flex items-center space-x-2 text-sm text-secondary-700">
+          <input
+            type="checkbox"
+            checked={autoApprove}
+            onChange={(e) => setAutoApprove(e.target.checked)}
+            className="rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+          />
+          <span>{t('scheduleAutoApprove')}</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-secondary-700">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+            className="rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+          />
+          <span>{t('scheduleEnabled')}</span>
+        </label>
+      </div>
+
+      <div className="flex justify-end space-x-3 pt-2">
+        <Button type="button" variant="secondary" onClick={onCancel}>
+          {t('cancel')}
+        </Button>
+        <Button type="submit" isLoading={isSaving}>
+          {t('save')}
+        </Button>
+      </div>
+    </form>
+  );
+}
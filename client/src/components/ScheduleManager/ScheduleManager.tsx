@@ -0,0 +1,365 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
+import { useLanguage } from '../../context/LanguageContext';
+import { Button, Card, CardBody, Modal } from '../common';
+import { ScheduleForm } from './ScheduleForm';
+import api from '../../services/api';
+import { ScheduleRun, WorkflowDefinition, WorkflowSchedule } from '../../types';
+
+const RUN_STATUS_STYLES: Record<ScheduleRun['status'], string> = {
+  running: 'bg-blue-100 text-blue-700',
+  awaiting_review: 'bg-yellow-100 text-yellow-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+export function ScheduleManager() {
+  const { t, language } = useLanguage();
+  const { can } = useAuth();
+  const [schedules, setSchedules] = useState<WorkflowSchedule[]>([]);
+  const [skills, setSkills] = useState<WorkflowDefinition[]>([]);
+  const [workflows, setWorkflows] = useState<WorkflowDefinition[]>([]);
+  const [sessions, setSessions] = useState<any[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<WorkflowSchedule | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [runs, setRuns] = useState<ScheduleRun[]>([]);
+  const [runsLoading, setRunsLoading] = useState(false);
+  const [actionLoading, setActionLoading] = useState<number | null>(null);
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [scheduleData, skillData, workflowData, sessionData] = await Promise.all([
+        api.getSchedules(),
+        api.getSkills(),
+        api.getWorkflows(),
+        api.getSessions().catch(() => []),
+      ]);
+      setSchedules(scheduleData);
+      setSkills(skillData);
+      setWorkflows(workflowData);
+      setSessions(sessionData);
+    } catch (err: any) {
+      setError(err.message || t('failedToLoadSchedules'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const loadRuns = async (scheduleId: number) => {
+    setRunsLoading(true);
+    try {
+      setRuns(await api.getScheduleRuns(scheduleId));
+    } catch (err: any) {
+      setError(err.message || t('failedToLoadSchedules'));
+    } finally {
+      setRunsLoading(false);
+    }
+  };
+
+  const handleRowClick = (schedule: WorkflowSchedule) => {
+    if (expandedId === schedule.id) {
+      setExpandedId(null);
+      setRuns([]);
+      return;
+    }
+    setExpandedId(schedule.id);
+    setRuns([]);
+    loadRuns(schedule.id);
+  };
+
+  const openForm = (schedule: WorkflowSchedule | null) => {
+    setEditing(schedule);
+    setIsFormOpen(true);
+  };
+
+  const handleSaved = (saved: WorkflowSchedule) => {
+    setSchedules((prev) => {
+      const exists = prev.some((s) => s.id === saved.id);
+      return exists ? prev.map((s) => (s.id === saved.id ? saved : s)) : [saved, ...prev];
+    });
+    setIsFormOpen(false);
+    setEditing(null);
+  };
+
+  const handleToggle = async (schedule: WorkflowSchedule, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setActionLoading(schedule.id);
+    try {
+      const updated = await api.updateSchedule(schedule.id, { enabled: !schedule.enabled });
+      setSchedules((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+    } catch (err: any) {
+      setError(err.message || t('failedToSaveSchedule'));
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleRunNow = async (schedule: WorkflowSchedule, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setActionLoading(schedule.id);
+    try {
+      const run = await api.runScheduleNow(schedule.id);
+      setSchedules((prev) => prev.map((s) => (
+        s.id === schedule.id ? { ...s, last_run: run, last_run_at: run.started_at } : s
+      )));
+      if (expandedId === schedule.id) {
+        loadRuns(schedule.id);
+      }
+    } catch (err: any) {
+      setError(err.message || t('failedToRunSchedule'));
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleDelete = async (schedule: WorkflowSchedule, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!window.confirm(t('confirmDeleteSchedule'))) return;
+    setActionLoading(schedule.id);
+    try {
+      await api.deleteSchedule(schedule.id);
+      setSchedules((prev) => prev.filter((s) => s.id !== schedule.id));
+      if (expandedId === schedule.id) {
+        setExpandedId(null);
+        setRuns([]);
+      }
+    } catch (err: any) {
+      setError(err.message || t('failedToDeleteSchedule'));
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const locale = language === 'zh' ? 'zh-CN' : 'en-US';
+  const formatDateTime = (value: string | null | undefined) =>
+    value ? new Date(value).toLocaleString(locale) : '—';
+
+  const runStatusLabel = (status: ScheduleRun['status']) => {
+    switch (status) {
+      case 'running': return t('running');
+      case 'awaiting_review': return t('awaitingReview');
+      case 'completed': return t('completed');
+      case 'failed': return t('failed');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">{t('schedules')}</h1>
+          <p className="text-secondary-600 mt-1">
+            {t('schedulesSubtitle')}
+          </p>
+        </div>
+        {can('assets:write') && (
+          <Button onClick={() => openForm(null)}>
+            {t('newSchedule')}
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {schedules.length === 0 ? (
+        <Card>
+          <CardBody className="text-center py-12">
+            <p className="text-secondary-600">
+              {t('noSchedulesYet')}
+            </p>
+          </CardBody>
+        </Card>
+      ) : (
+        <Card>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="border-b border-secondary-200 bg-secondary-50">
+                  <th className="px-6 py-3 text-xs font-semibold text-secondary-500 uppercase tracking-wider">
+                    {t('name')}
+                  </th>
+                  <th className="px-6 py-3 text-xs font-semibold text-secondary-500 uppercase tracking-wider">
+                    {t('cronExpression')}
+                  </th>
+                  <th className="px-6 py-3 text-xs font-semibold text-secondary-500 uppercase tracking-wider">
+                    {t('nextRun')}
+                  </th>
+                  <th className="px-6 py-3 text-xs font-semibold text-secondary-500 uppercase tracking-wider">
+                    {t('lastRun')}
+                  </th>
+                  <th className="px-6 py-3 text-xs font-semibold text-secondary-500 uppercase tracking-wider text-right">
+                    {t('actions')}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-secondary-100">
+                {schedules.map((schedule) => (
+                  <React.Fragment key={schedule.id}>
+                    <tr
+                      onClick={() => handleRowClick(schedule)}
+                      className={`cursor-pointer transition-colors hover:bg-secondary-50 ${
+                        expandedId === schedule.id ? 'bg-secondary-50' : ''
+                      } ${schedule.enabled ? '' : 'opacity-60'}`}
+                    >
+                      <td className="px-6 py-4 text-sm">
+                        <div className="font-medium text-secondary-900">{schedule.name}</div>
+                        <div className="text-xs text-secondary-500 mt-0.5">
+                          {schedule.parent_type === 'skill' ? t('skill') : t('workflow')}: {schedule.parent_name || `#${schedule.parent_id}`}
+                          {schedule.output_channel !== 'none' && (
+                            <> · {schedule.output_channel === 'lark' ? t('channelLark') : t('channelWeb')}</>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 text-sm font-mono text-secondary-700 whitespace-nowrap">
+                        {schedule.cron_expression}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-secondary-600 whitespace-nowrap">
+                        {schedule.enabled ? formatDateTime(schedule.next_run_at) : t('schedulePaused')}
+                      </td>
+                      <td className="px-6 py-4 text-sm whitespace-nowrap">
+                        {schedule.last_run ? (
+                          <span className={`inline-block px-2.5 py-0.5 rounded-full text-xs font-medium ${RUN_STATUS_STYLES[schedule.last_run.status]}`}>
+                            {runStatusLabel(schedule.last_run.status)}
+                          </span>
+                        ) : (
+                          <span className="text-secondary-400">—</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-right whitespace-nowrap">
+                        <div className="flex items-center justify-end space-x-2">
+                          {can('assets:run') && (
+                            <Button
+                              size="sm"
+                              onClick={(e) => handleRunNow(schedule, e)}
+                              disabled={actionLoading === schedule.id}
+                            >
+                              {t('runNow')}
+                            </Button>
+                          )}
+                          {can('assets:write') && (
+                            <>
+                              <Button
+                                size="sm"
+                                variant="secondary"
+                                onClick={(e) => handleToggle(schedule, e)}
+                                disabled={actionLoading === schedule.id}
+                              >
+                                {schedule.enabled ? t('pause') : t('resume')}
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  openForm(schedule);
+                                }}
+                              >
+                                {t('edit')}
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="danger"
+                                onClick={(e) => handleDelete(schedule, e)}
+                                disabled={actionLoading === schedule.id}
+                              >
+                                {t('delete')}
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+
+                    {/* Run history */}
+                    {expandedId === schedule.id && (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-4 bg-secondary-50">
+                          <h3 className="text-sm font-semibold text-secondary-700 mb-2">{t('runHistory')}</h3>
+                          {runsLoading ? (
+                            <p className="text-sm text-secondary-500">{t('loading')}</p>
+                          ) : runs.length === 0 ? (
+                            <p className="text-sm text-secondary-500">{t('noRunsYet')}</p>
+                          ) : (
+                            <ul className="space-y-1">
+                              {runs.map((run) => (
+                                <li key={run.id} className="flex items-center space-x-3 text-sm">
+                                  <span className="font-mono text-xs text-secondary-500 w-44">
+                                    {formatDateTime(run.started_at)}
+                                  </span>
+                                  <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${RUN_STATUS_STYLES[run.status]}`}>
+                                    {runStatusLabel(run.status)}
+                                  </span>
+                                  <span className="text-xs text-secondary-500">
+                                    {run.trigger_type === 'manual' ? t('triggerManual') : t('triggerSchedule')}
+                                  </span>
+                                  {run.execution_id && (
+                                    <Link
+                                      to={`/executions/${run.execution_id}`}
+                                      className="text-primary-600 hover:underline text-xs"
+                                    >
+                                      #{run.execution_id}
+                                    </Link>
+                                  )}
+                                  {run.error_message && (
+                                    <span className="text-xs text-red-600 truncate max-w-md" title={run.error_message}>
+                                      {run.error_message}
+                                    </span>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      <Modal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        title={editing ? t('editSchedule') : t('newSchedule')}
+        size="lg"
+      >
+        {isFormOpen && (
+          <ScheduleForm
+            schedule={editing}
+            skills={skills}
+            workflows={workflows}
+            sessions={sessions}
+            onSaved={handleSaved}
+            onCancel={() => setIsFormOpen(false)}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+}
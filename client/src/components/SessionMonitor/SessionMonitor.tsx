@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../context/AuthContext';
 import { useLanguage } from '../../context/LanguageContext';
 import { Button, Card, CardBody } from '../common';
 import api from '../../services/api';
@@ -130,6 +131,7 @@ function SessionDetailPanel({ sessionId, t }: { sessionId: string; t: (key: any)
 
 export function SessionMonitor() {
   const { t } = useLanguage();
+  const { can } = useAuth();
   const [sessions, setSessions] = useState<Session[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -225,15 +227,17 @@ export function SessionMonitor() {
       <div className="flex items-center justify-between">
         <h2 className="text-xl font-semibold text-secondary-800">{t('sessionMonitor')}</h2>
         <div className="flex items-center gap-2">
-          <Button
-            variant="danger"
-            size="sm"
-            isLoading={closingAll}
-            disabled={closingAll || sessions.every((s) => s.status === 'closed')}
-            onClick={handleCloseAll}
-          >
-            {t('closeAll')}
-          </Button>
+          {can('sessions:manage') && (
+            <Button
+              variant="danger"
+              size="sm"
+              isLoading={closingAll}
+              disabled={closingAll || sessions.every((s) => s.status === 'closed')}
+              onClick={handleCloseAll}
+            >
+              {t('closeAll')}
+            </Button>
+          )}
           <Button variant="secondary" size="sm" onClick={fetchSessions}>
             {t('refresh')}
           </Button>
@@ -1,7 +1,12 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
 import { useLanguage } from '../../context/LanguageContext';
 import { Button, Card, CardBody } from '../common';
 import api from '../../services/api';
+import { BundleImportResult, SkillTestRun } from '../../types';
+import { TestRunReport } from '../SkillEditor/TestSuite';
+
+const TEST_POLL_INTERVAL_MS = 2000;
 
 interface DraftStep {
   id: number;
@@ -23,10 +28,13 @@ interface DraftSummary {
 interface DraftDetail {
   draft: DraftSummary & { steps: DraftStep[] };
   original: (DraftSummary & { steps: DraftStep[] }) | null;
+  // Test cases of the skill/workflow an edit draft changes; null for new ones
+  tests: { case_count: number; latest_run: SkillTestRun | null } | null;
 }
 
 export function DraftList() {
   const { t, language } = useLanguage();
+  const { can } = useAuth();
   const [drafts, setDrafts] = useState<DraftSummary[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -34,6 +42,10 @@ export function DraftList() {
   const [detail, setDetail] = useState<DraftDetail | null>(null);
   const [detailLoading, setDetailLoading] = useState(false);
   const [actionLoading, setActionLoading] = useState<number | null>(null);
+  const [importAsNew, setImportAsNew] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<BundleImportResult | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     loadDrafts();
@@ -73,6 +85,31 @@ export function DraftList() {
     }
   };
 
+  // Draft test runs finish in the background; refresh the detail until the report is in
+  useEffect(() => {
+    if (!detail || detail.tests?.latest_run?.status !== 'running') return;
+    const draftId = detail.draft.id;
+    const timer = setTimeout(async () => {
+      try {
+        const data = await api.getSkillDraft(draftId);
+        setDetail((prev) => (prev?.draft.id === draftId ? data : prev));
+      } catch {
+        // Keep showing the last report; the next expand reloads it
+      }
+    }, TEST_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [detail]);
+
+  const handleRunTests = async (id: number) => {
+    setError(null);
+    try {
+      const run = await api.runSkillDraftTests(id);
+      setDetail((prev) => (prev?.draft.id === id && prev.tests ? { ...prev, tests: { ...prev.tests, latest_run: run } } : prev));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
   const handleApprove = async (id: number, e: React.MouseEvent) => {
     e.stopPropagation();
     setActionLoading(id);
@@ -107,6 +144,25 @@ export function DraftList() {
     }
   };
 
+  // Bundles exported from another instance come in as drafts, like agent proposals
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    setError(null);
+    setImportResult(null);
+    try {
+      const result = await api.importBundle(await file.text(), importAsNew);
+      setImportResult(result);
+      await loadDrafts();
+    } catch (err: any) {
+      setError(err.message || t('failedToImportBundle'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -118,19 +174,58 @@ export function DraftList() {
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-2xl font-bold text-secondary-900">{t('skillDraftReview')}</h1>
-        <p className="text-secondary-600 mt-1">
-          {t('skillDraftReviewSubtitle')}
-        </p>
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">{t('skillDraftReview')}</h1>
+          <p className="text-secondary-600 mt-1">
+            {t('skillDraftReviewSubtitle')}
+          </p>
+        </div>
+        {can('assets:write') && (
+          <div className="flex items-center space-x-3">
+            <label className="flex items-center space-x-2 text-sm text-secondary-600">
+              <input
+                type="checkbox"
+                checked={importAsNew}
+                onChange={(e) => setImportAsNew(e.target.checked)}
+                className="rounded border-secondary-300"
+              />
+              <span>{t('importAsNew')}</span>
+            </label>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,.yaml,.yml"
+              onChange={handleImport}
+              className="hidden"
+            />
+            <Button variant="secondary" onClick={() => importInputRef.current?.click()} isLoading={isImporting}>
+              {t('importBundle')}
+            </Button>
+          </div>
+        )}
       </div>
 
       {error && (
-        <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg">
+        <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg whitespace-pre-line">
           {error}
         </div>
       )}
 
+      {importResult && (
+        <div className="bg-blue-50 text-blue-800 px-4 py-3 rounded-lg text-sm space-y-1">
+          <p>
+            {t('bundleImported')}: {importResult.drafts.map((draft) => `#${draft.id} ${draft.name}`).join(', ')}
+          </p>
+          {importResult.reused.length > 0 && (
+            <p>{t('bundleReused')}: {importResult.reused.map((asset) => asset.name).join(', ')}</p>
+          )}
+          {importResult.warnings.map((warning, i) => (
+            <p key={i} className="text-amber-700">{warning}</p>
+          ))}
+        </div>
+      )}
+
       {drafts.length === 0 ? (
         <Card>
           <CardBody className="text-center py-12">
@@ -193,26 +288,28 @@ export function DraftList() {
                         {formatDate(draft.created_at, language)}
                       </td>
                       <td className="px-6 py-4 text-right whitespace-nowrap">
-                        <div className="flex items-center justify-end space-x-2">
-                          <Button
-                            size="sm"
-                            className="bg-green-600 text-white hover:bg-green-700 focus:ring-green-500"
-                            onClick={(e) => handleApprove(draft.id, e)}
-                            isLoading={actionLoading === draft.id}
-                            disabled={actionLoading === draft.id}
-                          >
-                            {t('approve')}
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="danger"
-                            onClick={(e) => handleReject(draft.id, e)}
-                            isLoading={actionLoading === draft.id}
-                            disabled={actionLoading === draft.id}
-                          >
-                            {t('reject')}
-                          </Button>
-                        </div>
+                        {can('drafts:review') && (
+                          <div className="flex items-center justify-end space-x-2">
+                            <Button
+                              size="sm"
+                              className="bg-green-600 text-white hover:bg-green-700 focus:ring-green-500"
+                              onClick={(e) => handleApprove(draft.id, e)}
+                              isLoading={actionLoading === draft.id}
+                              disabled={actionLoading === draft.id}
+                            >
+                              {t('approve')}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="danger"
+                              onClick={(e) => handleReject(draft.id, e)}
+                              isLoading={actionLoading === draft.id}
+                              disabled={actionLoading === draft.id}
+                            >
+                              {t('reject')}
+                            </Button>
+                          </div>
+                        )}
                       </td>
                     </tr>
 
@@ -225,7 +322,11 @@ export function DraftList() {
                               <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
                             </div>
                           ) : detail ? (
-                            <DraftDetailView detail={detail} t={t} />
+                            <DraftDetailView
+                              detail={detail}
+                              t={t}
+                              onRunTests={can('assets:run_draft') ? () => handleRunTests(draft.id) : undefined}
+                            />
                           ) : null}
                         </td>
                       </tr>
@@ -241,8 +342,16 @@ export function DraftList() {
   );
 }
 
-function DraftDetailView({ detail, t }: { detail: DraftDetail; t: (key: any) => string }) {
-  const { draft, original } = detail;
+function DraftDetailView({
+  detail,
+  t,
+  onRunTests,
+}: {
+  detail: DraftDetail;
+  t: (key: any) => string;
+  onRunTests?: () => void;
+}) {
+  const { draft, original, tests } = detail;
   const hasOriginal = original !== null;
   const typeLabel = draft.skill_type === 'skill' ? t('skill') : t('workflow');
 
@@ -306,6 +415,29 @@ function DraftDetailView({ detail, t }: { detail: DraftDetail; t: (key: any) =>
           </div>
         </div>
       )}
+
+      {/* What the change breaks, from the edited skill/workflow's test cases */}
+      {tests && (
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-semibold text-secondary-500 uppercase tracking-wider">
+              {t('regressionTests')}
+            </h3>
+            {onRunTests && tests.case_count > 0 && (
+              <Button size="sm" variant="secondary" onClick={onRunTests} isLoading={tests.latest_run?.status === 'running'}>
+                {t('runTests')}
+              </Button>
+            )}
+          </div>
+          {tests.case_count === 0 ? (
+            <p className="text-sm text-secondary-500">{t('noTestCasesForDraft')}</p>
+          ) : tests.latest_run ? (
+            <TestRunReport run={tests.latest_run} />
+          ) : (
+            <p className="text-sm text-secondary-500">{t('testsNotRun')}</p>
+          )}
+        </div>
+      )}
     </div>
   );
 }
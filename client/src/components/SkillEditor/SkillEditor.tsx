@@ -1,18 +1,26 @@
 import React, { useEffect, useState, useMemo, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { AIModel, InputType, InputTypeConfig, TemplateInputConfig, GeneratedImage, StepType } from '../../types';
+import {
+  AIModel, InputType, InputTypeConfig, TemplateInputConfig, GeneratedImage, StepType, StepErrorClass, StepRetryPolicy, StepCachePolicy,
+} from '../../types';
 import api, { ExecutorInfo } from '../../services/api';
-import { Button, Input, TextArea, Select, Card, CardBody, CardHeader, Modal, DynamicInput } from '../common';
+import {
+  Button, Input, TextArea, Select, Card, CardBody, CardHeader, Modal, DynamicInput, OutputSchemaField, parseOutputSchema,
+} from '../common';
+import { useAuth } from '../../context/AuthContext';
 import { useLanguage } from '../../context/LanguageContext';
 import { useNotifications } from '../../context/NotificationContext';
 import { TranslationKey } from '../../i18n/translations';
 import ReactMarkdown from 'react-markdown';
+import { VersionHistory } from './VersionHistory';
+import { TestSuite } from './TestSuite';
 
 // System variables that shouldn't be treated as user inputs
 const SYSTEM_VARIABLES = [
   'company_voice', 'company_platform', 'company_image', 'voice_guidelines',
   'brand_voice', 'amazon_requirements', 'image_style_guidelines',
-  'social_media_guidelines', 'platform_requirements', 'tone_guidelines', 'content_guidelines'
+  'social_media_guidelines', 'platform_requirements', 'tone_guidelines', 'content_guidelines',
+  'new_reviews', 'updated_reviews',
 ];
 
 // Extract user input variables from prompt template
@@ -79,13 +87,21 @@ const DEFAULT_INPUT_CONFIG: InputTypeConfig = {
   description: '',
 };
 
-const BUSINESS_EXECUTOR_TYPES = new Set(['ai', 'browser']);
-const EXECUTOR_DISPLAY_ORDER = ['ai', 'browser', 'script', 'http', 'transform'];
+const FOREACH_ITEM_VARIABLE_REGEX = /^item(?:\..+|_index|_number)?$/;
+const BUSINESS_EXECUTOR_TYPES = new Set(['ai', 'browser', 'reviews']);
+const EXECUTOR_DISPLAY_ORDER = ['ai', 'browser', 'reviews', 'script', 'http', 'transform', 'condition', 'parallel', 'foreach', 'approval', 'ask_user', 'skill'];
+
+// Step types that run under a retry policy (interactive and control-flow steps do not)
+const RETRY_STEP_TYPES = ['ai', 'script', 'http', 'transform', 'foreach'];
+
+// Step types whose results can be served from the step result cache
+const CACHE_STEP_TYPES = ['ai', 'browser', 'script', 'http', 'transform'];
 
 export function SkillEditor() {
   const { id } = useParams();
   const navigate = useNavigate();
   const { t } = useLanguage();
+  const { can } = useAuth();
   const { trackExecution } = useNotifications();
   const isNew = !id || id === 'new';
   const promptTextAreaRef = useRef<HTMLTextAreaElement>(null);
@@ -120,6 +136,9 @@ export function SkillEditor() {
   const [executors, setExecutors] = useState<ExecutorInfo[]>([]);
   const [isLoading, setIsLoading] = useState(!isNew);
   const [isSaving, setIsSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showTests, setShowTests] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showVariableHelp, setShowVariableHelp] = useState(false);
   const [expandedVariable, setExpandedVariable] = useState<string | null>(null);
@@ -594,6 +613,25 @@ export function SkillEditor() {
     }
   };
 
+  const handleExport = async (format: 'json' | 'yaml') => {
+    if (!id) return;
+    setShowExportMenu(false);
+    try {
+      const { filename, content } = await api.exportBundle('skill', parseInt(id), format);
+      const blob = new Blob([content], { type: format === 'yaml' ? 'application/yaml' : 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
   const handleDelete = async () => {
     if (!id || !window.confirm(t('confirmDeleteTemplate'))) return;
     try {
@@ -604,8 +642,13 @@ export function SkillEditor() {
     }
   };
 
-  // Variables extracted from prompt
-  const promptVariables = useMemo(() => extractInputsFromPrompt(template.prompt_template), [template.prompt_template]);
+  // Variables extracted from prompt (for-each steps fill {{item}} themselves)
+  const promptVariables = useMemo(() => {
+    const variables = extractInputsFromPrompt(template.prompt_template);
+    return template.step_type === 'foreach'
+      ? variables.filter(v => !FOREACH_ITEM_VARIABLE_REGEX.test(v))
+      : variables;
+  }, [template.prompt_template, template.step_type]);
 
   // All variables (from prompt + configured)
   const allVariables = useMemo(() => {
@@ -711,19 +754,52 @@ export function SkillEditor() {
             {t('cancel')}
           </Button>
           {!isNew && (
+            <Button variant="ghost" onClick={() => setShowHistory(true)}>
+              {t('versionHistory')}
+            </Button>
+          )}
+          {!isNew && (
+            <Button variant="ghost" onClick={() => setShowTests(true)}>
+              {t('testSuite')}
+            </Button>
+          )}
+          {!isNew && (
+            <div className="relative">
+              <Button variant="ghost" onClick={() => setShowExportMenu(!showExportMenu)}>
+                {t('exportBundle')}
+              </Button>
+              {showExportMenu && (
+                <div className="absolute right-0 mt-1 w-32 bg-white border border-secondary-200 rounded-lg shadow-lg z-10 py-1">
+                  {(['json', 'yaml'] as const).map((format) => (
+                    <button
+                      key={format}
+                      type="button"
+                      onClick={() => handleExport(format)}
+                      className="block w-full text-left px-3 py-1.5 text-sm text-secondary-700 hover:bg-secondary-50"
+                    >
+                      {format.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          {!isNew && can('assets:write') && (
             <Button variant="ghost" onClick={handleDelete} className="text-red-600 hover:text-red-700">
               {t('delete')}
             </Button>
           )}
-          {!isNew && (
+          {!isNew && can('assets:run') && (
             <Button variant="secondary" onClick={openRunPanel}>
               <PlayIcon className="w-4 h-4 mr-2" />
               {t('run')}
             </Button>
           )}
-          <Button onClick={handleSave} isLoading={isSaving}>
-            {isNew ? t('createTemplate') : t('saveChanges')}
-          </Button>
+          {can('assets:write') && (
+            <Button onClick={handleSave} isLoading={isSaving}>
+              {isNew ? t('createTemplate') : t('saveChanges')}
+            </Button>
+          )}
         </div>
       </div>
 
@@ -914,6 +990,17 @@ export function SkillEditor() {
               ]}
             />
 
+            {/* A schema makes the step's output JSON */}
+            <OutputSchemaField
+              executorConfig={template.executor_config}
+              stepOrder={1}
+              onConfigChange={(config) => setTemplate({
+                ...template,
+                executor_config: config,
+                ...(parseOutputSchema(config) ? { output_format: 'json' as const } : {}),
+              })}
+            />
+
             {/* Model Settings */}
             <div className="border-t border-secondary-200 pt-4">
               <h3 className="text-sm font-medium text-secondary-700 mb-3">{t('modelSettings')}</h3>
@@ -950,9 +1037,74 @@ export function SkillEditor() {
         </Card>
       ) : (
         /* Dynamic Executor Configuration (script, http, transform, etc.) */
-        <ExecutorConfigForm
+        <>
+          {['approval', 'ask_user'].includes(template.step_type) && (
+            <Card>
+              <CardBody>
+                <TextArea
+                  label={t('reviewInstructions')}
+                  value={template.prompt_template}
+                  onChange={(e) => setTemplate({ ...template, prompt_template: e.target.value })}
+                  rows={4}
+                />
+                <p className="mt-1 text-sm text-secondary-500">{t('reviewInstructionsHelp')}</p>
+              </CardBody>
+            </Card>
+          )}
+          <ExecutorConfigForm
+            stepType={template.step_type}
+            executors={executors}
+            executorConfig={template.executor_config}
+            onConfigChange={(config) => setTemplate({ ...template, executor_config: config })}
+          />
+          {template.step_type === 'foreach' && (
+            <Card>
+              <CardHeader>
+                <h2 className="font-semibold text-secondary-900">{t('forEachItemPrompt')}</h2>
+              </CardHeader>
+              <CardBody className="space-y-4">
+                <Select
+                  label={t('aiModel')}
+                  value={template.ai_model}
+                  onChange={(e) => setTemplate({ ...template, ai_model: e.target.value })}
+                  options={models.map(m => ({
+                    value: m.id,
+                    label: `${m.name}${m.available ? '' : ` (${t('notConfigured')})`}`,
+                  }))}
+                />
+                <div>
+                  <label className="block text-sm font-medium text-secondary-700 mb-1">
+                    {t('promptTemplate')}
+                  </label>
+                  <textarea
+                    value={template.prompt_template}
+                    onChange={(e) => setTemplate({ ...template, prompt_template: e.target.value })}
+                    placeholder="Summarize this review: {{item}}"
+                    rows={8}
+                    className="w-full px-3 py-2 border border-secondary-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent font-mono text-sm"
+                  />
+                  <p className="mt-1 text-sm text-secondary-500">
+                    {t('forEachItemPromptHelp')}
+                  </p>
+                </div>
+              </CardBody>
+            </Card>
+          )}
+        </>
+      )}
+
+      {RETRY_STEP_TYPES.includes(template.step_type) && (
+        <RetryPolicyForm
           stepType={template.step_type}
-          executors={executors}
+          aiModel={template.ai_model}
+          models={models}
+          executorConfig={template.executor_config}
+          onConfigChange={(config) => setTemplate({ ...template, executor_config: config })}
+        />
+      )}
+
+      {CACHE_STEP_TYPES.includes(template.step_type) && (
+        <CachePolicyForm
           executorConfig={template.executor_config}
           onConfigChange={(config) => setTemplate({ ...template, executor_config: config })}
         />
@@ -1178,6 +1330,19 @@ export function SkillEditor() {
         </CardBody>
       </Card>
 
+      {!isNew && id && (
+        <VersionHistory
+          skillId={parseInt(id)}
+          isOpen={showHistory}
+          onClose={() => setShowHistory(false)}
+          onRolledBack={() => loadSkill(parseInt(id))}
+        />
+      )}
+
+      {!isNew && id && (
+        <TestSuite skillId={parseInt(id)} isOpen={showTests} onClose={() => setShowTests(false)} />
+      )}
+
       {/* Add Variable Modal */}
       <Modal
         isOpen={showAddVariable}
@@ -1704,6 +1869,226 @@ function ExecutorConfigForm({
   );
 }
 
+const RETRY_ERROR_CLASSES: { value: StepErrorClass; labelKey: TranslationKey }[] = [
+  { value: 'rate_limit', labelKey: 'errorClassRateLimit' },
+  { value: 'timeout', labelKey: 'errorClassTimeout' },
+  { value: 'network', labelKey: 'errorClassNetwork' },
+  { value: 'server', labelKey: 'errorClassServer' },
+  { value: 'auth', labelKey: 'errorClassAuth' },
+  { value: 'other', labelKey: 'errorClassOther' },
+];
+
+const DEFAULT_RETRY_ON: StepErrorClass[] = ['rate_limit', 'timeout', 'network', 'server'];
+
+/**
+ * Retry policy and (for AI steps) fallback models. Both live in
+ * executor_config next to the executor's own fields.
+ */
+function RetryPolicyForm({
+  stepType,
+  aiModel,
+  models,
+  executorConfig,
+  onConfigChange,
+}: {
+  stepType: string;
+  aiModel: string;
+  models: AIModel[];
+  executorConfig: string;
+  onConfigChange: (config: string) => void;
+}) {
+  const { t } = useLanguage();
+
+  let config: Record<string, any> = {};
+  try {
+    config = executorConfig ? JSON.parse(executorConfig) : {};
+  } catch {
+    config = {};
+  }
+  const retry: StepRetryPolicy = config.retry && typeof config.retry === 'object' ? config.retry : {};
+  const retryOn = retry.retry_on || DEFAULT_RETRY_ON;
+  const fallbackModels: string[] = Array.isArray(config.fallback_models) ? config.fallback_models : [];
+
+  const update = (changes: Record<string, any>) => {
+    const updated = { ...config, ...changes };
+    Object.keys(changes).forEach((key) => {
+      if (updated[key] === undefined) delete updated[key];
+    });
+    onConfigChange(JSON.stringify(updated));
+  };
+  const updateRetry = (changes: Partial<StepRetryPolicy>) => update({ retry: { ...retry, ...changes } });
+
+  const toggleRetryOn = (errorClass: StepErrorClass) => {
+    const next = retryOn.includes(errorClass)
+      ? retryOn.filter((c) => c !== errorClass)
+      : [...retryOn, errorClass];
+    updateRetry({ retry_on: next });
+  };
+
+  const setFallbacks = (next: string[]) => update({ fallback_models: next.length > 0 ? next : undefined });
+  const availableFallbacks = models.filter((m) => m.id !== aiModel && !fallbackModels.includes(m.id));
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="font-semibold text-secondary-900">{t('retryPolicy')}</h2>
+        <p className="text-sm text-secondary-500 mt-1">{t('retryPolicyHelp')}</p>
+      </CardHeader>
+      <CardBody className="space-y-4">
+        <div className="grid grid-cols-3 gap-4">
+          <Input
+            label={t('retryMaxAttempts')}
+            type="number"
+            min="1"
+            max="10"
+            value={retry.max_attempts ?? 1}
+            onChange={(e) => updateRetry({ max_attempts: parseInt(e.target.value) || 1 })}
+          />
+          <Input
+            label={t('retryBackoff')}
+            type="number"
+            min="0"
+            step="500"
+            value={retry.backoff_ms ?? 1000}
+            onChange={(e) => updateRetry({ backoff_ms: parseInt(e.target.value) || 0 })}
+          />
+          <Input
+            label={t('retryBackoffMultiplier')}
+            type="number"
+            min="1"
+            max="10"
+            step="0.5"
+            value={retry.backoff_multiplier ?? 2}
+            onChange={(e) => updateRetry({ backoff_multiplier: parseFloat(e.target.value) || 1 })}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-secondary-700 mb-2">{t('retryOn')}</label>
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {RETRY_ERROR_CLASSES.map(({ value, labelKey }) => (
+              <label key={value} className="flex items-center space-x-2 text-sm text-secondary-700">
+                <input
+                  type="checkbox"
+                  checked={retryOn.includes(value)}
+                  onChange={() => toggleRetryOn(value)}
+                  className="rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span>{t(labelKey)}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {stepType === 'ai' && (
+          <div>
+            <label className="block text-sm font-medium text-secondary-700 mb-2">{t('fallbackModels')}</label>
+            {fallbackModels.length > 0 && (
+              <ol className="space-y-1 mb-2">
+                {fallbackModels.map((modelId, index) => (
+                  <li key={modelId} className="flex items-center justify-between text-sm bg-secondary-50 px-3 py-1.5 rounded">
+                    <span>
+                      {index + 1}. {models.find((m) => m.id === modelId)?.name || modelId}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setFallbacks(fallbackModels.filter((m) => m !== modelId))}
+                      className="text-xs text-red-600 hover:text-red-700"
+                    >
+                      {t('remove')}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
+            {availableFallbacks.length > 0 && (
+              <Select
+                value=""
+                onChange={(e) => e.target.value && setFallbacks([...fallbackModels, e.target.value])}
+                options={[
+                  { value: '', label: t('addFallbackModel') },
+                  ...availableFallbacks.map((m) => ({
+                    value: m.id,
+                    label: `${m.name}${m.available ? '' : ` (${t('notConfigured')})`}`,
+                  })),
+                ]}
+              />
+            )}
+            <p className="mt-1 text-sm text-secondary-500">{t('fallbackModelsHelp')}</p>
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
+
+/**
+ * Opt-in to the step result cache (executor_config.cache). The TTL is edited
+ * in hours and stored in seconds.
+ */
+function CachePolicyForm({
+  executorConfig,
+  onConfigChange,
+}: {
+  executorConfig: string;
+  onConfigChange: (config: string) => void;
+}) {
+  const { t } = useLanguage();
+
+  let config: Record<string, any> = {};
+  try {
+    config = executorConfig ? JSON.parse(executorConfig) : {};
+  } catch {
+    config = {};
+  }
+  const cache: StepCachePolicy = config.cache === true
+    ? { enabled: true }
+    : config.cache && typeof config.cache === 'object' ? config.cache : {};
+  const enabled = config.cache === true || (!!config.cache && cache.enabled !== false);
+  const ttlHours = (cache.ttl_seconds ?? 24 * 3600) / 3600;
+
+  const updateCache = (changes: StepCachePolicy) => {
+    const next = { ...cache, ...changes };
+    const updated = { ...config };
+    if (next.enabled === false) {
+      delete updated.cache;
+    } else {
+      updated.cache = next;
+    }
+    onConfigChange(JSON.stringify(updated));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="font-semibold text-secondary-900">{t('stepCache')}</h2>
+        <p className="text-sm text-secondary-500 mt-1">{t('stepCacheHelp')}</p>
+      </CardHeader>
+      <CardBody className="space-y-4">
+        <label className="flex items-center space-x-2 text-sm text-secondary-700">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => updateCache({ enabled: e.target.checked })}
+            className="rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+          />
+          <span>{t('stepCacheEnabled')}</span>
+        </label>
+        {enabled && (
+          <Input
+            label={t('stepCacheTtl')}
+            type="number"
+            min="1"
+            max="720"
+            value={ttlHours}
+            onChange={(e) => updateCache({ ttl_seconds: Math.round((parseFloat(e.target.value) || 24) * 3600) })}
+          />
+        )}
+      </CardBody>
+    </Card>
+  );
+}
+
 function ChevronIcon({ className }: { className?: string }) {
   return (
     <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
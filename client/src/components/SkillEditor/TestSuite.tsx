@@ -0,0 +1,272 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { SkillTestCase, SkillTestCaseRequest, SkillTestCaseResult, SkillTestRun } from '../../types';
+import api from '../../services/api';
+import { Button, Input, Modal, TextArea } from '../common';
+import { useAuth } from '../../context/AuthContext';
+import { useLanguage } from '../../context/LanguageContext';
+
+const POLL_INTERVAL_MS = 2000;
+
+const EMPTY_CASE = {
+  name: '',
+  inputs: '{}',
+  assertions: '[\n  { "type": "contains", "value": "" }\n]',
+  stubs: '{}',
+  mock_ai: false,
+};
+
+type CaseForm = typeof EMPTY_CASE;
+
+const STATUS_MARKS: Record<SkillTestCaseResult['status'], { mark: string; color: string }> = {
+  passed: { mark: '✓', color: 'text-green-600' },
+  failed: { mark: '✗', color: 'text-red-600' },
+  error: { mark: '!', color: 'text-amber-600' },
+};
+
+function toForm(testCase: SkillTestCase): CaseForm {
+  return {
+    name: testCase.name,
+    inputs: JSON.stringify(testCase.inputs, null, 2),
+    assertions: JSON.stringify(testCase.assertions, null, 2),
+    stubs: JSON.stringify(testCase.stubs, null, 2),
+    mock_ai: testCase.mock_ai,
+  };
+}
+
+// Pass/fail report of a test run, case by case with each assertion's verdict
+export function TestRunReport({ run }: { run: SkillTestRun }) {
+  const { t } = useLanguage();
+
+  if (run.status === 'running') {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-secondary-600">
+        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary-600"></div>
+        <span>{t('testsRunning')}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className={`text-sm font-medium ${run.status === 'passed' ? 'text-green-700' : 'text-red-700'}`}>
+        {run.passed} {t('testsPassed')} · {run.failed} {t('testsFailed')}
+      </p>
+      {run.results.map((result) => (
+        <div key={result.case_id} className="bg-white border border-secondary-200 rounded-lg px-3 py-2">
+          <div className="flex items-center space-x-2 text-sm">
+            <span className={`font-bold ${STATUS_MARKS[result.status].color}`}>{STATUS_MARKS[result.status].mark}</span>
+            <span className="font-medium text-secondary-900">{result.name}</span>
+            {result.execution_id && (
+              <Link to={`/executions/${result.execution_id}`} className="text-xs text-primary-600 hover:text-primary-700">
+                #{result.execution_id}
+              </Link>
+            )}
+          </div>
+          {result.error && (
+            <p className="text-xs text-amber-700 mt-1">{t('testCaseError')}: {result.error}</p>
+          )}
+          {result.assertions.length > 0 && (
+            <ul className="mt-1 space-y-0.5">
+              {result.assertions.map((assertion, i) => (
+                <li key={i} className={`text-xs ${assertion.passed ? 'text-secondary-500' : 'text-red-700'}`}>
+                  {assertion.passed ? '✓' : '✗'} {assertion.type}
+                  {assertion.step !== null ? ` (${t('stepLabel')} ${assertion.step})` : ''}: {assertion.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface TestSuiteProps {
+  skillId: number;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Saved test cases of a skill, and a regression run against its current definition
+export function TestSuite({ skillId, isOpen, onClose }: TestSuiteProps) {
+  const { t } = useLanguage();
+  const { can } = useAuth();
+  const [cases, setCases] = useState<SkillTestCase[]>([]);
+  const [latestRun, setLatestRun] = useState<SkillTestRun | null>(null);
+  const [editing, setEditing] = useState<number | 'new' | null>(null);
+  const [form, setForm] = useState<CaseForm>(EMPTY_CASE);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadTests = useCallback(async () => {
+    try {
+      const data = await api.getSkillTests('skill', skillId);
+      setCases(data.cases);
+      setLatestRun(data.latest_run);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, [skillId]);
+
+  useEffect(() => {
+    if (isOpen) loadTests();
+  }, [isOpen, loadTests]);
+
+  // Cases run in the background; poll until the report is in
+  useEffect(() => {
+    if (!isOpen || latestRun?.status !== 'running') return;
+    const timer = setTimeout(loadTests, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [isOpen, latestRun, loadTests]);
+
+  const startEditing = (testCase: SkillTestCase | null) => {
+    setEditing(testCase ? testCase.id : 'new');
+    setForm(testCase ? toForm(testCase) : EMPTY_CASE);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    const data: Partial<SkillTestCaseRequest> = { name: form.name, mock_ai: form.mock_ai };
+    for (const field of ['inputs', 'assertions', 'stubs'] as const) {
+      try {
+        data[field] = JSON.parse(form[field] || (field === 'assertions' ? '[]' : '{}'));
+      } catch {
+        const label = field === 'inputs' ? 'testInputs' : field === 'assertions' ? 'testAssertions' : 'testStubs';
+        setError(`${t(label)} ${t('invalidTestJson')}`);
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      if (editing === 'new') {
+        await api.createSkillTest('skill', skillId, data as SkillTestCaseRequest);
+      } else if (editing !== null) {
+        await api.updateSkillTest('skill', skillId, editing, data as SkillTestCaseRequest);
+      }
+      setEditing(null);
+      setError(null);
+      await loadTests();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (caseId: number) => {
+    if (!window.confirm(t('confirmDeleteGeneric'))) return;
+    try {
+      await api.deleteSkillTest('skill', skillId, caseId);
+      await loadTests();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleRun = async () => {
+    setError(null);
+    try {
+      setLatestRun(await api.runSkillTests('skill', skillId));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t('testSuite')} size="xl">
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+      <div className="space-y-4 max-h-[70vh] overflow-y-auto">
+        <div className="flex items-center justify-end">
+          <div className="flex items-center space-x-2">
+            {can('assets:write') && editing === null && (
+              <Button size="sm" variant="secondary" onClick={() => startEditing(null)}>
+                {t('addTestCase')}
+              </Button>
+            )}
+            {can('assets:run_draft') && cases.length > 0 && (
+              <Button size="sm" onClick={handleRun} isLoading={latestRun?.status === 'running'}>
+                {t('runTests')}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {editing !== null && (
+          <div className="border border-primary-200 rounded-lg p-4 space-y-3">
+            <Input
+              label={t('testCaseName')}
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+            <TextArea
+              label={t('testInputs')}
+              value={form.inputs}
+              onChange={(e) => setForm({ ...form, inputs: e.target.value })}
+              rows={3}
+              className="font-mono text-xs"
+            />
+            <TextArea
+              label={t('testAssertions')}
+              helperText={t('testAssertionsHelp')}
+              value={form.assertions}
+              onChange={(e) => setForm({ ...form, assertions: e.target.value })}
+              rows={6}
+              className="font-mono text-xs"
+            />
+            <TextArea
+              label={t('testStubs')}
+              helperText={t('testStubsHelp')}
+              value={form.stubs}
+              onChange={(e) => setForm({ ...form, stubs: e.target.value })}
+              rows={3}
+              className="font-mono text-xs"
+            />
+            <label className="flex items-center space-x-2 text-sm text-secondary-700">
+              <input
+                type="checkbox"
+                checked={form.mock_ai}
+                onChange={(e) => setForm({ ...form, mock_ai: e.target.checked })}
+                className="rounded border-secondary-300"
+              />
+              <span>{t('testMockAi')}</span>
+            </label>
+            <div className="flex justify-end space-x-2">
+              <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>{t('cancel')}</Button>
+              <Button size="sm" onClick={handleSave} isLoading={isSaving}>{t('save')}</Button>
+            </div>
+          </div>
+        )}
+
+        {cases.length === 0 && editing === null ? (
+          <p className="text-sm text-secondary-500">{t('noTestCases')}</p>
+        ) : (
+          <ul className="divide-y divide-secondary-100 border border-secondary-200 rounded-lg">
+            {cases.map((testCase) => (
+              <li key={testCase.id} className="flex items-center justify-between px-3 py-2">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-secondary-900 truncate">{testCase.name}</div>
+                  <div className="text-xs text-secondary-500">
+                    {testCase.assertions.map((assertion) => assertion.type).join(', ')}
+                    {testCase.mock_ai ? ' · mock AI' : ''}
+                  </div>
+                </div>
+                {can('assets:write') && (
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    <Button size="sm" variant="ghost" onClick={() => startEditing(testCase)}>{t('edit')}</Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleDelete(testCase.id)} className="text-red-600">
+                      {t('delete')}
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {latestRun && <TestRunReport run={latestRun} />}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,224 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { DiffLine, SkillVersionSource, SkillVersionSummary, VersionDiff } from '../../types';
+import api from '../../services/api';
+import { Button, Modal } from '../common';
+import { useAuth } from '../../context/AuthContext';
+import { useLanguage } from '../../context/LanguageContext';
+import { TranslationKey } from '../../i18n/translations';
+
+interface VersionHistoryProps {
+  skillId: number;
+  isOpen: boolean;
+  onClose: () => void;
+  onRolledBack: () => void;
+}
+
+const SOURCE_LABELS: Record<SkillVersionSource, TranslationKey> = {
+  create: 'versionSourceCreate',
+  edit: 'versionSourceEdit',
+  draft: 'versionSourceDraft',
+  rollback: 'versionSourceRollback',
+  run: 'versionSourceRun',
+};
+
+interface SideBySideRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+// Line up a unified diff in two columns: removed lines pair with the added
+// lines that replace them, unchanged lines appear on both sides.
+function toSideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i] || null, right: added[i] || null });
+    }
+    removed = [];
+    added = [];
+  };
+  for (const line of lines) {
+    if (line.type === 'removed') removed.push(line);
+    else if (line.type === 'added') added.push(line);
+    else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+  return rows;
+}
+
+function DiffCell({ line }: { line: DiffLine | null }) {
+  if (!line) return <div className="bg-secondary-50">&nbsp;</div>;
+  const color = line.type === 'added'
+    ? 'bg-green-50 text-green-800'
+    : line.type === 'removed'
+      ? 'bg-red-50 text-red-800'
+      : 'text-secondary-600';
+  return <div className={`px-2 whitespace-pre-wrap break-words ${color}`}>{line.text || ' '}</div>;
+}
+
+function SideBySide({ lines }: { lines: DiffLine[] }) {
+  return (
+    <div className="grid grid-cols-2 divide-x divide-secondary-200 text-xs font-mono">
+      {toSideBySide(lines).map((row, i) => (
+        <React.Fragment key={i}>
+          <DiffCell line={row.left} />
+          <DiffCell line={row.right} />
+        </React.Fragment>
+      ))}
+    </div>
+  );
+}
+
+// Version history of a skill: every saved version, what changed in it, and rollback
+export function VersionHistory({ skillId, isOpen, onClose, onRolledBack }: VersionHistoryProps) {
+  const { t } = useLanguage();
+  const { can } = useAuth();
+  const [versions, setVersions] = useState<SkillVersionSummary[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      const data = await api.getSkillVersions(skillId);
+      setVersions(data);
+      setSelected(data[0]?.version ?? null);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, [skillId]);
+
+  useEffect(() => {
+    if (isOpen) loadVersions();
+  }, [isOpen, loadVersions]);
+
+  useEffect(() => {
+    if (!isOpen || selected === null) return;
+    let cancelled = false;
+    setDiff(null);
+    api.getSkillVersionDiff(skillId, selected)
+      .then((data) => { if (!cancelled) setDiff(data); })
+      .catch((err: any) => { if (!cancelled) setError(err.message); });
+    return () => { cancelled = true; };
+  }, [isOpen, skillId, selected]);
+
+  const handleRollback = async (version: number) => {
+    if (!window.confirm(`${t('confirmRollback')} v${version}?`)) return;
+    setIsRollingBack(true);
+    try {
+      await api.rollbackSkill(skillId, version);
+      await loadVersions();
+      onRolledBack();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  const latest = versions[0]?.version;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t('versionHistory')} size="xl">
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+      <div className="flex gap-4 max-h-[70vh]">
+        <ul className="w-56 flex-shrink-0 overflow-y-auto space-y-1">
+          {versions.map((version) => (
+            <li key={version.id}>
+              <button
+                type="button"
+                onClick={() => setSelected(version.version)}
+                className={`w-full text-left px-3 py-2 rounded-lg border ${
+                  selected === version.version
+                    ? 'border-primary-300 bg-primary-50'
+                    : 'border-transparent hover:bg-secondary-50'
+                }`}
+              >
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium text-secondary-900">v{version.version}</span>
+                  <span className="text-xs text-secondary-500">{t(SOURCE_LABELS[version.source])}</span>
+                </div>
+                <div className="text-xs text-secondary-500 truncate">
+                  {new Date(`${version.created_at.replace(' ', 'T')}Z`).toLocaleString()}
+                  {version.created_by_email ? ` · ${version.created_by_email}` : ''}
+                </div>
+                {version.note && (
+                  <div className="text-xs text-secondary-600 truncate" title={version.note}>{version.note}</div>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex-1 min-w-0 overflow-y-auto space-y-3">
+          {selected !== null && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-secondary-700">
+                {diff && diff.from_version > 0 ? `v${diff.from_version} → v${diff.to_version}` : `v${selected}`}
+              </span>
+              {can('assets:write') && selected !== latest && (
+                <Button size="sm" variant="secondary" onClick={() => handleRollback(selected)} isLoading={isRollingBack}>
+                  {t('rollbackToVersion')}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {!diff ? (
+            selected !== null && (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+              </div>
+            )
+          ) : (
+            <>
+              {diff.name && (
+                <p className="text-sm text-secondary-700">
+                  {t('templateName')}: <span className="line-through text-red-700">{diff.name.before}</span>
+                  {' → '}<span className="text-green-700">{diff.name.after}</span>
+                </p>
+              )}
+              {diff.description && (
+                <div className="border border-secondary-200 rounded-lg overflow-hidden">
+                  <div className="px-3 py-2 bg-secondary-50 border-b border-secondary-200 text-sm font-medium text-secondary-900">
+                    {t('description')}
+                  </div>
+                  <SideBySide lines={[
+                    ...(diff.description.before ? [{ type: 'removed' as const, text: diff.description.before }] : []),
+                    ...(diff.description.after ? [{ type: 'added' as const, text: diff.description.after }] : []),
+                  ]} />
+                </div>
+              )}
+              {diff.steps.filter((step) => step.change !== 'unchanged').map((step) => (
+                <div key={step.step_order} className="border border-secondary-200 rounded-lg overflow-hidden">
+                  <div className="flex items-center justify-between px-3 py-2 bg-secondary-50 border-b border-secondary-200">
+                    <span className="text-sm font-medium text-secondary-900">
+                      {t('stepLabel')} {step.step_order}: {step.step_name}
+                    </span>
+                    <span className="text-xs text-secondary-500">{step.change}</span>
+                  </div>
+                  {step.fields.map((field) => (
+                    <div key={field.field} className="border-t border-secondary-100 first:border-t-0">
+                      <div className="px-3 pt-2 pb-1 text-xs font-medium text-secondary-500">{field.field}</div>
+                      <SideBySide lines={field.lines} />
+                    </div>
+                  ))}
+                </div>
+              ))}
+              {!diff.name && !diff.description && diff.steps.every((step) => step.change === 'unchanged') && (
+                <p className="text-sm text-secondary-500">{t('noVersionChanges')}</p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
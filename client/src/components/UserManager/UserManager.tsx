@@ -0,0 +1,125 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { useLanguage } from '../../context/LanguageContext';
+import { Card, Select } from '../common';
+import api from '../../services/api';
+import { UserAccount, UserRole } from '../../types';
+import { TranslationKey } from '../../i18n/translations';
+
+export const ROLE_LABELS: Record<UserRole, TranslationKey> = {
+  admin: 'roleAdmin',
+  builder: 'roleBuilder',
+  operator: 'roleOperator',
+  viewer: 'roleViewer',
+};
+
+export function UserManager() {
+  const { t } = useLanguage();
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<number | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setUsers(await api.getUsers());
+    } catch (err: any) {
+      setError(err.message || t('failedToLoadUsers'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const handleRoleChange = async (account: UserAccount, role: UserRole) => {
+    setSavingId(account.id);
+    setError(null);
+    try {
+      const updated = await api.updateUserRole(account.id, role);
+      setUsers((prev) => prev.map((u) => (u.id === updated.id ? updated : u)));
+    } catch (err: any) {
+      setError(err.message || t('failedToUpdateRole'));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const roleOptions = (Object.keys(ROLE_LABELS) as UserRole[]).map((role) => ({
+    value: role,
+    label: t(ROLE_LABELS[role]),
+  }));
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-secondary-900">{t('users')}</h1>
+        <p className="text-secondary-600 mt-1">{t('usersSubtitle')}</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <Card>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b border-secondary-200 bg-secondary-50">
+                <th className="px-6 py-3 text-xs font-semibold text-secondary-500 uppercase tracking-wider">
+                  {t('email')}
+                </th>
+                <th className="px-6 py-3 text-xs font-semibold text-secondary-500 uppercase tracking-wider">
+                  {t('created')}
+                </th>
+                <th className="px-6 py-3 text-xs font-semibold text-secondary-500 uppercase tracking-wider w-48">
+                  {t('role')}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-secondary-100">
+              {users.map((account) => (
+                <tr key={account.id}>
+                  <td className="px-6 py-4 text-sm text-secondary-900">
+                    {account.email}
+                    {account.id === currentUser?.id && (
+                      <span className="ml-2 text-xs text-secondary-500">({t('you')})</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-secondary-500 whitespace-nowrap">
+                    {new Date(account.created_at).toLocaleDateString()}
+                  </td>
+                  <td className="px-6 py-3">
+                    <Select
+                      options={roleOptions}
+                      value={account.role}
+                      disabled={savingId === account.id}
+                      onChange={(e) => handleRoleChange(account, e.target.value as UserRole)}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <p className="text-sm text-secondary-500">{t('roleDescriptions')}</p>
+    </div>
+  );
+}
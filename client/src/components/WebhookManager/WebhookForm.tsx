@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { useLanguage } from '../../context/LanguageContext';
+import { Button, Input, TextArea, Select } from '../common';
+import api from '../../services/api';
+import {
+  CreateWebhookRequest,
+  WebhookResponseMode,
+  WorkflowDefinition,
+  WorkflowWebhook,
+} from '../../types';
+
+interface WebhookFormProps {
+  webhook: WorkflowWebhook | null;
+  skills: WorkflowDefinition[];
+  workflows: WorkflowDefinition[];
+  onSaved: (webhook: WorkflowWebhook) => void;
+  onCancel: () => void;
+}
+
+function parseObject(text: string): Record<string, any> | null {
+  try {
+    const parsed = JSON.parse(text || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function WebhookForm({ webhook, skills, workflows, onSaved, onCancel }: WebhookFormProps) {
+  const { t } = useLanguage();
+  const [name, setName] = useState(webhook?.name || '');
+  const [parentType, setParentType] = useState<'skill' | 'workflow'>(webhook?.parent_type || 'workflow');
+  const [parentId, setParentId] = useState<number | ''>(webhook?.parent_id || '');
+  const [mappingText, setMappingText] = useState(JSON.stringify(webhook?.field_mapping || {}, null, 2));
+  const [staticText, setStaticText] = useState(JSON.stringify(webhook?.static_inputs || {}, null, 2));
+  const [responseMode, setResponseMode] = useState<WebhookResponseMode>(webhook?.response_mode || 'async');
+  const [callbackUrl, setCallbackUrl] = useState(webhook?.callback_url || '');
+  const [syncTimeout, setSyncTimeout] = useState(String(webhook?.sync_timeout_seconds || 60));
+  const [autoApprove, setAutoApprove] = useState(webhook ? webhook.auto_approve : true);
+  const [enabled, setEnabled] = useState(webhook ? webhook.enabled : true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parents = parentType === 'skill' ? skills : workflows;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!name.trim()) {
+      setError(t('nameRequired'));
+      return;
+    }
+    if (!parentId) {
+      setError(t('scheduleTargetRequired'));
+      return;
+    }
+    const fieldMapping = parseObject(mappingText);
+    const staticInputs = parseObject(staticText);
+    if (!fieldMapping || !staticInputs) {
+      setError(t('webhookJsonInvalid'));
+      return;
+    }
+
+    const payload: CreateWebhookRequest = {
+      name: name.trim(),
+      parent_type: parentType,
+      parent_id: Number(parentId),
+      field_mapping: fieldMapping,
+      static_inputs: staticInputs,
+      response_mode: responseMode,
+      callback_url: callbackUrl.trim() || null,
+      sync_timeout_seconds: Number(syncTimeout) || 60,
+      auto_approve: autoApprove,
+      enabled,
+    };
+
+    setIsSaving(true);
+    try {
+      const saved = webhook
+        ? await api.updateWebhook(webhook.id, payload)
+        : await api.createWebhook(payload);
+      onSaved(saved);
+    } catch (err: any) {
+      setError(err.message || t('failedToSaveWebhook'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <Input
+        label={t('name')}
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder={t('webhookNamePlaceholder')}
+      />
+
+      <div className="grid grid-cols-2 gap-4">
+        <Select
+          label={t('type')}
+          value={parentType}
+          onChange={(e) => {
+            setParentType(e.target.value as 'skill' | 'workflow');
+            setParentId('');
+          }}
+          options={[
+            { value: 'skill', label: t('skill') },
+            { value: 'workflow', label: t('workflow') },
+          ]}
+        />
+        <Select
+          label={parentType === 'skill' ? t('skill') : t('workflow')}
+          value={parentId === '' ? '' : String(parentId)}
+          onChange={(e) => setParentId(e.target.value ? Number(e.target.value) : '')}
+          options={[
+            { value: '', label: t('scheduleSelectTarget') },
+            ...parents.map((p) => ({ value: String(p.id), label: p.name })),
+          ]}
+        />
+      </div>
+
+      <TextArea
+        label={t('webhookFieldMapping')}
+        value={mappingText}
+        onChange={(e) => setMappingText(e.target.value)}
+        rows={4}
+        className="font-mono text-sm"
+        placeholder={'{\n  "customer.email": "customer_email",\n  "line_items.0.title": "product_name"\n}'}
+        helperText={t('webhookFieldMappingHelp')}
+      />
+
+      <TextArea
+        label={t('webhookStaticInputs')}
+        value={staticText}
+        onChange={(e) => setStaticText(e.target.value)}
+        rows={3}
+        className="font-mono text-sm"
+        helperText={t('webhookStaticInputsHelp')}
+      />
+
+      <div className="grid grid-cols-2 gap-4">
+        <Select
+          label={t('webhookResponseMode')}
+          value={responseMode}
+          onChange={(e) => setResponseMode(e.target.value as WebhookResponseMode)}
+          options={[
+            { value: 'async', label: t('webhookModeAsync') },
+            { value: 'sync', label: t('webhookModeSync') },
+          ]}
+        />
+        {responseMode === 'sync' && (
+          <Input
+            label={t('webhookSyncTimeout')}
+            type="number"
+            min={1}
+            max={300}
+            value={syncTimeout}
+            onChange={(e) => setSyncTimeout(e.target.value)}
+          />
+        )}
+      </div>
+
+      <Input
+        label={t('webhookCallbackUrl')}
+        value={callbackUrl}
+        onChange={(e) => setCallbackUrl(e.target.value)}
+        placeholder="https://example.com/novohaven-callback"
+        helperText={t('webhookCallbackUrlHelp')}
+      />
+
+      <div className="flex items-center space-x-6">
+        <label className="flex items-center space-x-2 text-sm text-secondary-700">
+          <input
+            type="checkbox"
+            checked={autoApprove}
+            onChange={(e) => setAutoApprove(e.target.checked)}
+            className="rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+          />
+          <span>{t('scheduleAutoApprove')}</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-secondary-700">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+            className="rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+          />
+          <span>{t('scheduleEnabled')}</span>
+        </label>
+      </div>
+
+      <div className="flex justify-end space-x-3 pt-2">
+        <Button type="button" variant="secondary" onClick={onCancel}>
+          {t('cancel')}
+        </Button>
+        <Button type="submit" isLoading={isSaving}>
+          {t('save')}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,300 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
+import { useLanguage } from '../../context/LanguageContext';
+import { Button, Card, CardBody, Modal } from '../common';
+import { WebhookForm } from './WebhookForm';
+import api from '../../services/api';
+import { WebhookInvocation, WorkflowDefinition, WorkflowWebhook } from '../../types';
+
+const INVOCATION_STATUS_STYLES: Record<WebhookInvocation['status'], string> = {
+  rejected: 'bg-secondary-100 text-secondary-700',
+  running: 'bg-blue-100 text-blue-700',
+  awaiting_review: 'bg-yellow-100 text-yellow-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  timed_out: 'bg-orange-100 text-orange-700',
+};
+
+export function WebhookManager() {
+  const { t, language } = useLanguage();
+  const { can } = useAuth();
+  const [webhooks, setWebhooks] = useState<WorkflowWebhook[]>([]);
+  const [skills, setSkills] = useState<WorkflowDefinition[]>([]);
+  const [workflows, setWorkflows] = useState<WorkflowDefinition[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<WorkflowWebhook | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [invocations, setInvocations] = useState<WebhookInvocation[]>([]);
+  const [invocationsLoading, setInvocationsLoading] = useState(false);
+  const [revealedSecretId, setRevealedSecretId] = useState<number | null>(null);
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [webhookData, skillData, workflowData] = await Promise.all([
+        api.getWebhooks(),
+        api.getSkills(),
+        api.getWorkflows(),
+      ]);
+      setWebhooks(webhookData);
+      setSkills(skillData);
+      setWorkflows(workflowData);
+    } catch (err: any) {
+      setError(err.message || t('failedToLoadWebhooks'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleRowClick = async (webhook: WorkflowWebhook) => {
+    if (expandedId === webhook.id) {
+      setExpandedId(null);
+      setInvocations([]);
+      return;
+    }
+    setExpandedId(webhook.id);
+    setInvocations([]);
+    setInvocationsLoading(true);
+    try {
+      setInvocations(await api.getWebhookInvocations(webhook.id));
+    } catch (err: any) {
+      setError(err.message || t('failedToLoadWebhooks'));
+    } finally {
+      setInvocationsLoading(false);
+    }
+  };
+
+  const handleSaved = (saved: WorkflowWebhook) => {
+    setWebhooks((prev) => {
+      const exists = prev.some((w) => w.id === saved.id);
+      return exists ? prev.map((w) => (w.id === saved.id ? saved : w)) : [saved, ...prev];
+    });
+    setIsFormOpen(false);
+    setEditing(null);
+  };
+
+  const handleRotate = async (webhook: WorkflowWebhook) => {
+    if (!window.confirm(t('confirmRotateSecret'))) return;
+    try {
+      const updated = await api.rotateWebhookSecret(webhook.id);
+      setWebhooks((prev) => prev.map((w) => (w.id === updated.id ? updated : w)));
+      setRevealedSecretId(updated.id);
+    } catch (err: any) {
+      setError(err.message || t('failedToSaveWebhook'));
+    }
+  };
+
+  const handleDelete = async (webhook: WorkflowWebhook, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!window.confirm(t('confirmDeleteWebhook'))) return;
+    try {
+      await api.deleteWebhook(webhook.id);
+      setWebhooks((prev) => prev.filter((w) => w.id !== webhook.id));
+      if (expandedId === webhook.id) {
+        setExpandedId(null);
+        setInvocations([]);
+      }
+    } catch (err: any) {
+      setError(err.message || t('failedToDeleteWebhook'));
+    }
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard?.writeText(text).catch(() => {});
+  };
+
+  const locale = language === 'zh' ? 'zh-CN' : 'en-US';
+  const formatDateTime = (value: string | null | undefined) =>
+    value ? new Date(value).toLocaleString(locale) : '—';
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">{t('webhooks')}</h1>
+          <p className="text-secondary-600 mt-1">
+            {t('webhooksSubtitle')}
+          </p>
+        </div>
+        {can('assets:write') && (
+          <Button
+            onClick={() => {
+              setEditing(null);
+              setIsFormOpen(true);
+            }}
+          >
+            {t('newWebhook')}
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {webhooks.length === 0 ? (
+        <Card>
+          <CardBody className="text-center py-12">
+            <p className="text-secondary-600">
+              {t('noWebhooksYet')}
+            </p>
+          </CardBody>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {webhooks.map((webhook) => {
+            const url = api.getWebhookUrl(webhook);
+            const isExpanded = expandedId === webhook.id;
+
+            return (
+              <Card key={webhook.id} className={webhook.enabled ? '' : 'opacity-60'}>
+                <CardBody>
+                  <div className="flex items-start justify-between">
+                    <div className="min-w-0 cursor-pointer" onClick={() => handleRowClick(webhook)}>
+                      <div className="font-medium text-secondary-900">{webhook.name}</div>
+                      <div className="text-xs text-secondary-500 mt-0.5">
+                        {webhook.parent_type === 'skill' ? t('skill') : t('workflow')}: {webhook.parent_name || `#${webhook.parent_id}`}
+                        {' · '}
+                        {webhook.response_mode === 'sync' ? t('webhookModeSync') : t('webhookModeAsync')}
+                        {webhook.callback_url && <> · {t('webhookCallbackUrl')}</>}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      {can('assets:write') && (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => {
+                              setEditing(webhook);
+                              setIsFormOpen(true);
+                            }}
+                          >
+                            {t('edit')}
+                          </Button>
+                          <Button size="sm" variant="danger" onClick={(e) => handleDelete(webhook, e)}>
+                            {t('delete')}
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="mt-3 space-y-2 text-sm">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-secondary-500 w-20">{t('webhookUrl')}</span>
+                      <code className="flex-1 truncate bg-secondary-50 px-2 py-1 rounded text-xs">{url}</code>
+                      <Button size="sm" variant="secondary" onClick={() => copyToClipboard(url)}>
+                        {t('copy')}
+                      </Button>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-secondary-500 w-20">{t('webhookSecret')}</span>
+                      <code className="flex-1 truncate bg-secondary-50 px-2 py-1 rounded text-xs">
+                        {revealedSecretId === webhook.id ? webhook.secret : '••••••••••••••••'}
+                      </code>
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => setRevealedSecretId(revealedSecretId === webhook.id ? null : webhook.id)}
+                      >
+                        {revealedSecretId === webhook.id ? t('hide') : t('show')}
+                      </Button>
+                      <Button size="sm" variant="secondary" onClick={() => copyToClipboard(webhook.secret)}>
+                        {t('copy')}
+                      </Button>
+                      {can('assets:write') && (
+                        <Button size="sm" variant="ghost" onClick={() => handleRotate(webhook)}>
+                          {t('rotateSecret')}
+                        </Button>
+                      )}
+                    </div>
+                    <p className="text-xs text-secondary-500">{t('webhookSignatureHelp')}</p>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="mt-4 pt-4 border-t border-secondary-100">
+                      <h3 className="text-sm font-semibold text-secondary-700 mb-2">{t('webhookInvocations')}</h3>
+                      {invocationsLoading ? (
+                        <p className="text-sm text-secondary-500">{t('loading')}</p>
+                      ) : invocations.length === 0 ? (
+                        <p className="text-sm text-secondary-500">{t('noRunsYet')}</p>
+                      ) : (
+                        <ul className="space-y-1">
+                          {invocations.map((invocation) => (
+                            <li key={invocation.id} className="flex items-center space-x-3 text-sm">
+                              <span className="font-mono text-xs text-secondary-500 w-44">
+                                {formatDateTime(invocation.received_at)}
+                              </span>
+                              <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${INVOCATION_STATUS_STYLES[invocation.status]}`}>
+                                {invocation.status}
+                              </span>
+                              {invocation.execution_id && (
+                                <Link
+                                  to={`/executions/${invocation.execution_id}`}
+                                  className="text-primary-600 hover:underline text-xs"
+                                >
+                                  #{invocation.execution_id}
+                                </Link>
+                              )}
+                              {invocation.callback_status !== 'none' && (
+                                <span className="text-xs text-secondary-500">
+                                  {t('webhookCallback')}: {invocation.callback_status}
+                                </span>
+                              )}
+                              {invocation.error_message && (
+                                <span className="text-xs text-red-600 truncate max-w-md" title={invocation.error_message}>
+                                  {invocation.error_message}
+                                </span>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                </CardBody>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Modal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        title={editing ? t('editWebhook') : t('newWebhook')}
+        size="lg"
+      >
+        {isFormOpen && (
+          <WebhookForm
+            webhook={editing}
+            skills={skills}
+            workflows={workflows}
+            onSaved={handleSaved}
+            onCancel={() => setIsFormOpen(false)}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+}
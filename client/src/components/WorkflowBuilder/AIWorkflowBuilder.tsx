@@ -57,6 +57,8 @@ const RESERVED_VARIABLES = new Set([
   'platform_requirements',
   'tone_guidelines',
   'content_guidelines',
+  'new_reviews',
+  'updated_reviews',
 ]);
 
 const WORKFLOW_JSON_BLOCK_REGEX = /```workflow-json\s*\n?([\s\S]*?)\n?\s*```/i;
@@ -1,6 +1,6 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { WorkflowExecution } from '../../types';
+import { AssignedReview, ExecutionDiff, WorkflowExecution } from '../../types';
 import api from '../../services/api';
 import { Button, Card, CardBody, Modal, TranslatedText } from '../common';
 import { useLanguage } from '../../context/LanguageContext';
@@ -10,15 +10,21 @@ export function ExecutionList() {
   const navigate = useNavigate();
   const { t } = useLanguage();
   const [executions, setExecutions] = useState<WorkflowExecution[]>([]);
+  const [assignedReviews, setAssignedReviews] = useState<AssignedReview[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState<number | null>(null);
   const [confirmDelete, setConfirmDelete] = useState<WorkflowExecution | null>(null);
   const [deletingAll, setDeletingAll] = useState(false);
+  const [comparing, setComparing] = useState<WorkflowExecution | null>(null);
+  const [diff, setDiff] = useState<ExecutionDiff | null>(null);
+  const [diffError, setDiffError] = useState<string | null>(null);
   const pollingRef = useRef<NodeJS.Timeout | null>(null);
 
   useEffect(() => {
     loadExecutions();
+    // Steps other people's runs are waiting on us for
+    api.getAssignedReviews().then(setAssignedReviews).catch(() => {});
   }, []);
 
   // Auto-refresh if there are running executions
@@ -101,6 +107,18 @@ export function ExecutionList() {
     }
   };
 
+  const handleCompare = async (execution: WorkflowExecution, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setComparing(execution);
+    setDiff(null);
+    setDiffError(null);
+    try {
+      setDiff(await api.getExecutionDiff(execution.id));
+    } catch (err: any) {
+      setDiffError(err.message);
+    }
+  };
+
   const canCancel = (status: string) => ['running', 'paused', 'pending'].includes(status);
 
   if (isLoading) {
@@ -151,6 +169,38 @@ export function ExecutionList() {
         </div>
       )}
 
+      {/* Human steps assigned to the current user */}
+      {assignedReviews.length > 0 && (
+        <Card>
+          <CardBody className="space-y-2">
+            <h2 className="font-semibold text-secondary-900">{t('assignedReviews')}</h2>
+            {assignedReviews.map((review) => (
+              <button
+                key={review.step_execution_id}
+                onClick={() => navigate(`/executions/${review.execution_id}`)}
+                className="w-full flex items-center justify-between px-3 py-2 text-left rounded-lg bg-purple-50 hover:bg-purple-100 transition-colors"
+              >
+                <div>
+                  <p className="text-sm font-medium text-secondary-900">
+                    <TranslatedText text={review.recipe_name || `${t('execution')} #${review.execution_id}`} />
+                    {' · '}
+                    {review.kind === 'ask_user' ? t('reviewKindAskUser') : t('reviewKindApproval')}
+                  </p>
+                  {review.requested_by && (
+                    <p className="text-xs text-secondary-500">{t('reviewRequestedBy')} {review.requested_by}</p>
+                  )}
+                </div>
+                {review.review_due_at && (
+                  <span className="text-xs text-purple-700">
+                    {t('reviewDue')} {new Date(`${review.review_due_at.replace(' ', 'T')}Z`).toLocaleString()}
+                  </span>
+                )}
+              </button>
+            ))}
+          </CardBody>
+        </Card>
+      )}
+
       {/* Execution List */}
       {executions.length === 0 ? (
         <Card>
@@ -182,7 +232,23 @@ export function ExecutionList() {
                     </h3>
                     <p className="text-sm text-secondary-500">
                       {t('execution')} #{execution.id}
+                      {execution.skill_version ? ` · v${execution.skill_version}` : ''}
                     </p>
+                    {execution.forked_from_id && (
+                      <p className="text-xs text-secondary-500 mt-0.5">
+                        {t('forkedFrom')} #{execution.forked_from_id} · {t('stepLabel')} {execution.forked_from_step}
+                      </p>
+                    )}
+                    {execution.parent_execution_id && (
+                      <p className="text-xs text-secondary-500 mt-0.5">
+                        {t('nestedRunOf')} #{execution.parent_execution_id}
+                      </p>
+                    )}
+                    {execution.status_reason && (
+                      <p className="text-xs text-amber-700 mt-0.5 max-w-md truncate" title={execution.status_reason}>
+                        {execution.status_reason}
+                      </p>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center space-x-4">
@@ -198,6 +264,15 @@ export function ExecutionList() {
                     </p>
                   </div>
                   <div className="flex items-center space-x-2">
+                    {execution.forked_from_id && (
+                      <button
+                        onClick={(e) => handleCompare(execution, e)}
+                        className="px-2 py-1 text-xs font-medium text-primary-600 hover:bg-primary-50 rounded-lg transition-colors"
+                        title={t('compareWithOriginal')}
+                      >
+                        {t('compare')}
+                      </button>
+                    )}
                     {canCancel(execution.status) && (
                       <button
                         onClick={(e) => handleCancel(execution, e)}
@@ -231,6 +306,53 @@ export function ExecutionList() {
         </div>
       )}
 
+      {/* Fork comparison */}
+      <Modal
+        isOpen={!!comparing}
+        onClose={() => setComparing(null)}
+        title={comparing ? `${t('compareWithOriginal')}: #${comparing.forked_from_id} → #${comparing.id}` : ''}
+        size="lg"
+      >
+        {diffError ? (
+          <p className="text-sm text-red-600">{diffError}</p>
+        ) : !diff ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+          </div>
+        ) : (
+          <div className="space-y-4 max-h-[70vh] overflow-y-auto">
+            {diff.steps.map((step) => (
+              <div key={step.step_order} className="border border-secondary-200 rounded-lg overflow-hidden">
+                <div className="flex items-center justify-between px-3 py-2 bg-secondary-50 border-b border-secondary-200">
+                  <span className="text-sm font-medium text-secondary-900">
+                    {t('stepLabel')} {step.step_order}: <TranslatedText text={step.step_name} />
+                  </span>
+                  <span className="text-xs text-secondary-500">
+                    {step.edited ? t('outputEdited') : step.changed ? t('outputChanged') : t('outputUnchanged')}
+                  </span>
+                </div>
+                {step.changed && (
+                  <pre className="text-xs font-mono p-2 overflow-x-auto whitespace-pre-wrap">
+                    {step.lines.map((line, i) => (
+                      <div
+                        key={i}
+                        className={line.type === 'added'
+                          ? 'bg-green-50 text-green-800'
+                          : line.type === 'removed'
+                            ? 'bg-red-50 text-red-800 line-through'
+                            : 'text-secondary-600'}
+                      >
+                        {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                      </div>
+                    ))}
+                  </pre>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </Modal>
+
       {/* Delete Confirmation Modal */}
       <Modal
         isOpen={!!confirmDelete}
@@ -0,0 +1,513 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { useLanguage } from '../../context/LanguageContext';
+import { useWorkspace } from '../../context/WorkspaceContext';
+import { Button, Card, CardBody, CardHeader, Input, Modal, Select } from '../common';
+import api from '../../services/api';
+import {
+  AssetShare,
+  ShareableAssetType,
+  Workspace,
+  WorkspaceDetail,
+  WorkspaceRole,
+  WorkspaceUsage,
+} from '../../types';
+import { TranslationKey } from '../../i18n/translations';
+
+const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, TranslationKey> = {
+  admin: 'workspaceRoleAdmin',
+  member: 'workspaceRoleMember',
+};
+
+const ASSET_TYPE_LABELS: Record<ShareableAssetType, TranslationKey> = {
+  skill: 'skill',
+  workflow: 'workflow',
+  standard: 'standard',
+};
+
+// Sentinel select value for publishing to every workspace
+const EVERYONE = 'everyone';
+
+export function WorkspaceSettings() {
+  const { t } = useLanguage();
+  const { user, can } = useAuth();
+  const { activeWorkspace, refreshWorkspaces, switchWorkspace } = useWorkspace();
+  const [detail, setDetail] = useState<WorkspaceDetail | null>(null);
+  const [usage, setUsage] = useState<WorkspaceUsage | null>(null);
+  const [shares, setShares] = useState<AssetShare[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [name, setName] = useState('');
+  const [quota, setQuota] = useState('');
+  const [budget, setBudget] = useState('');
+  const [warnPercent, setWarnPercent] = useState('80');
+  const [newMemberEmail, setNewMemberEmail] = useState('');
+  const [showCreate, setShowCreate] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+
+  const workspaceId = activeWorkspace?.id;
+  const isAdmin = detail?.role === 'admin' || can('users:manage');
+
+  const loadWorkspace = useCallback(async () => {
+    if (!workspaceId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [loaded, loadedUsage, loadedShares] = await Promise.all([
+        api.getWorkspace(workspaceId),
+        api.getWorkspaceUsage(workspaceId),
+        api.getWorkspaceShares(workspaceId),
+      ]);
+      setDetail(loaded);
+      setUsage(loadedUsage);
+      setShares(loadedShares);
+      setName(loaded.name);
+      setQuota(loaded.monthly_request_quota?.toString() ?? '');
+      setBudget(loaded.monthly_budget_usd?.toString() ?? '');
+      setWarnPercent(String(loaded.budget_warn_percent ?? 80));
+    } catch (err: any) {
+      setError(err.message || t('failedToLoadWorkspace'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspaceId, t]);
+
+  useEffect(() => {
+    loadWorkspace();
+  }, [loadWorkspace]);
+
+  // Runs a mutation, surfaces its error and reloads the page data
+  const mutate = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await loadWorkspace();
+    } catch (err: any) {
+      setError(err.message || t('failedToUpdateWorkspace'));
+    }
+  };
+
+  const handleSaveSettings = () =>
+    mutate(async () => {
+      await api.updateWorkspace(workspaceId!, {
+        name,
+        monthly_request_quota: quota.trim() ? parseInt(quota, 10) : null,
+        monthly_budget_usd: budget.trim() ? parseFloat(budget) : null,
+        budget_warn_percent: parseInt(warnPercent, 10) || 80,
+      });
+      await refreshWorkspaces();
+    });
+
+  const handleAddMember = () =>
+    mutate(async () => {
+      await api.addWorkspaceMember(workspaceId!, newMemberEmail.trim());
+      setNewMemberEmail('');
+    });
+
+  const handleLeave = async () => {
+    if (!window.confirm(t('confirmLeaveWorkspace'))) return;
+    setError(null);
+    try {
+      await api.removeWorkspaceMember(workspaceId!, user!.id);
+      await refreshWorkspaces();
+    } catch (err: any) {
+      setError(err.message || t('failedToUpdateWorkspace'));
+    }
+  };
+
+  const handleCreated = async (workspace: Workspace) => {
+    setShowCreate(false);
+    await refreshWorkspaces();
+    switchWorkspace(workspace.id);
+  };
+
+  if (isLoading && !detail) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  const quotaLimit = usage?.monthly_request_quota ?? null;
+  const usedPercent = quotaLimit ? Math.min(100, Math.round(((usage?.month_requests ?? 0) / quotaLimit) * 100)) : 0;
+  const llmBudget = usage?.budget;
+  const budgetPercent = llmBudget?.monthly_budget_usd
+    ? Math.min(100, Math.round((llmBudget.month_cost_usd / llmBudget.monthly_budget_usd) * 100))
+    : 0;
+  const roleOptions = (Object.keys(WORKSPACE_ROLE_LABELS) as WorkspaceRole[]).map((role) => ({
+    value: role,
+    label: t(WORKSPACE_ROLE_LABELS[role]),
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">{detail?.name || t('workspace')}</h1>
+          <p className="text-secondary-600 mt-1">{t('workspaceSubtitle')}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={handleLeave}>{t('leaveWorkspace')}</Button>
+          {can('assets:write') && (
+            <Button onClick={() => setShowCreate(true)}>{t('newWorkspace')}</Button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {/* Usage against the monthly quota */}
+      <Card>
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-secondary-900">{t('workspaceUsage')}</h2>
+        </CardHeader>
+        <CardBody className="space-y-3">
+          <p className="text-sm text-secondary-700">
+            {quotaLimit
+              ? t('requestsOfQuota').replace('{used}', String(usage?.month_requests ?? 0)).replace('{quota}', String(quotaLimit))
+              : t('requestsNoQuota').replace('{used}', String(usage?.month_requests ?? 0))}
+          </p>
+          {quotaLimit && (
+            <div className="w-full h-2 bg-secondary-100 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${usedPercent >= 90 ? 'bg-red-500' : 'bg-primary-500'}`}
+                style={{ width: `${usedPercent}%` }}
+              />
+            </div>
+          )}
+          {llmBudget && (
+            <>
+              <p className="text-sm text-secondary-700">
+                {llmBudget.monthly_budget_usd !== null
+                  ? t('llmBudgetSpent')
+                    .replace('{spent}', `$${llmBudget.month_cost_usd.toFixed(2)}`)
+                    .replace('{budget}', `$${llmBudget.monthly_budget_usd.toFixed(2)}`)
+                  : t('llmSpendNoBudget').replace('{spent}', `$${llmBudget.month_cost_usd.toFixed(2)}`)}
+              </p>
+              {llmBudget.monthly_budget_usd !== null && (
+                <div className="w-full h-2 bg-secondary-100 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${
+                      llmBudget.state === 'exceeded' ? 'bg-red-500' :
+                      llmBudget.state === 'warning' ? 'bg-yellow-500' : 'bg-primary-500'
+                    }`}
+                    style={{ width: `${budgetPercent}%` }}
+                  />
+                </div>
+              )}
+            </>
+          )}
+          {usage && usage.by_member.length > 0 && (
+            <ul className="text-sm text-secondary-600 space-y-1">
+              {usage.by_member.map((member) => (
+                <li key={member.user_id} className="flex justify-between">
+                  <span>{member.email}</span>
+                  <span>{member.requests}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardBody>
+      </Card>
+
+      {/* Name, quota and LLM budget */}
+      {isAdmin && (
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-secondary-900">{t('workspaceSettings')}</h2>
+          </CardHeader>
+          <CardBody className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <Input label={t('name')} value={name} onChange={(e) => setName(e.target.value)} />
+              <Input
+                label={t('monthlyRequestQuota')}
+                type="number"
+                min={1}
+                value={quota}
+                placeholder={t('unlimited')}
+                onChange={(e) => setQuota(e.target.value)}
+              />
+              <Input
+                label={t('monthlyLlmBudget')}
+                type="number"
+                min={0}
+                step="0.01"
+                value={budget}
+                placeholder={t('unlimited')}
+                onChange={(e) => setBudget(e.target.value)}
+              />
+              <Input
+                label={t('budgetWarnPercent')}
+                type="number"
+                min={1}
+                max={100}
+                value={warnPercent}
+                onChange={(e) => setWarnPercent(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleSaveSettings} disabled={!name.trim()}>{t('save')}</Button>
+            </div>
+          </CardBody>
+        </Card>
+      )}
+
+      {/* Members */}
+      <Card>
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-secondary-900">{t('members')}</h2>
+        </CardHeader>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b border-secondary-200 bg-secondary-50">
+                <th className="px-6 py-3 text-xs font-semibold text-secondary-500 uppercase tracking-wider">
+                  {t('email')}
+                </th>
+                <th className="px-6 py-3 text-xs font-semibold text-secondary-500 uppercase tracking-wider w-48">
+                  {t('role')}
+                </th>
+                {isAdmin && <th className="px-6 py-3 w-24" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-secondary-100">
+              {detail?.members.map((member) => (
+                <tr key={member.user_id}>
+                  <td className="px-6 py-4 text-sm text-secondary-900">
+                    {member.email}
+                    {member.user_id === user?.id && (
+                      <span className="ml-2 text-xs text-secondary-500">({t('you')})</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-3">
+                    {isAdmin ? (
+                      <Select
+                        options={roleOptions}
+                        value={member.role}
+                        onChange={(e) =>
+                          mutate(() => api.updateWorkspaceMember(workspaceId!, member.user_id, e.target.value as WorkspaceRole))
+                        }
+                      />
+                    ) : (
+                      <span className="text-sm text-secondary-700">{t(WORKSPACE_ROLE_LABELS[member.role])}</span>
+                    )}
+                  </td>
+                  {isAdmin && (
+                    <td className="px-6 py-3 text-right">
+                      {member.user_id !== user?.id && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => mutate(() => api.removeWorkspaceMember(workspaceId!, member.user_id))}
+                        >
+                          {t('remove')}
+                        </Button>
+                      )}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {isAdmin && (
+          <CardBody className="flex gap-2 items-end border-t border-secondary-200">
+            <Input
+              label={t('addMemberByEmail')}
+              type="email"
+              value={newMemberEmail}
+              onChange={(e) => setNewMemberEmail(e.target.value)}
+            />
+            <Button onClick={handleAddMember} disabled={!newMemberEmail.trim()}>{t('add')}</Button>
+          </CardBody>
+        )}
+      </Card>
+
+      {/* Assets shared out of this workspace */}
+      <Card>
+        <CardHeader className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-secondary-900">{t('sharedAssets')}</h2>
+          {isAdmin && (
+            <Button size="sm" onClick={() => setShowShare(true)}>{t('shareAsset')}</Button>
+          )}
+        </CardHeader>
+        <CardBody>
+          {shares.length === 0 ? (
+            <p className="text-sm text-secondary-500">{t('noSharedAssets')}</p>
+          ) : (
+            <ul className="divide-y divide-secondary-100">
+              {shares.map((share) => (
+                <li key={share.id} className="flex items-center justify-between py-2 text-sm">
+                  <span className="text-secondary-900">
+                    {t(ASSET_TYPE_LABELS[share.asset_type])}: {share.asset_name || `#${share.asset_id}`}
+                    <span className="ml-2 text-secondary-500">
+                      → {share.workspace_id === null ? t('allWorkspaces') : share.workspace_name || `#${share.workspace_id}`}
+                    </span>
+                  </span>
+                  {isAdmin && (
+                    <Button variant="ghost" size="sm" onClick={() => mutate(() => api.unshareAsset(share.id))}>
+                      {t('stopSharing')}
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardBody>
+      </Card>
+
+      <CreateWorkspaceModal isOpen={showCreate} onClose={() => setShowCreate(false)} onCreated={handleCreated} />
+      {workspaceId && (
+        <ShareAssetModal
+          isOpen={showShare}
+          workspaceId={workspaceId}
+          onClose={() => setShowShare(false)}
+          onShared={() => {
+            setShowShare(false);
+            loadWorkspace();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function CreateWorkspaceModal({
+  isOpen,
+  onClose,
+  onCreated,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreated: (workspace: Workspace) => void;
+}) {
+  const { t } = useLanguage();
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const workspace = await api.createWorkspace(name.trim());
+      setName('');
+      onCreated(workspace);
+    } catch (err: any) {
+      setError(err.message || t('failedToUpdateWorkspace'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t('newWorkspace')} size="sm">
+      <div className="space-y-4">
+        {error && <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>}
+        <Input label={t('name')} value={name} onChange={(e) => setName(e.target.value)} />
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose}>{t('cancel')}</Button>
+          <Button onClick={handleCreate} isLoading={isSaving} disabled={!name.trim()}>{t('create')}</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+function ShareAssetModal({
+  isOpen,
+  workspaceId,
+  onClose,
+  onShared,
+}: {
+  isOpen: boolean;
+  workspaceId: number;
+  onClose: () => void;
+  onShared: () => void;
+}) {
+  const { t } = useLanguage();
+  const [assetType, setAssetType] = useState<ShareableAssetType>('skill');
+  const [assets, setAssets] = useState<Array<{ id: number; name: string }>>([]);
+  const [targets, setTargets] = useState<Array<{ id: number; name: string }>>([]);
+  const [assetId, setAssetId] = useState('');
+  const [target, setTarget] = useState(EVERYONE);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    api.getAllWorkspaces()
+      .then((all) => setTargets(all.filter((w) => w.id !== workspaceId)))
+      .catch(() => setTargets([]));
+  }, [isOpen, workspaceId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const load = assetType === 'skill'
+      ? api.getSkills()
+      : assetType === 'workflow'
+        ? api.getWorkflows()
+        : api.getStandards();
+    // Only assets owned by this workspace can be shared from here
+    load
+      .then((list) => {
+        const owned = (list as Array<{ id: number; name: string; workspace_id?: number | null }>)
+          .filter((asset) => asset.workspace_id === workspaceId);
+        setAssets(owned);
+        setAssetId(owned[0] ? String(owned[0].id) : '');
+      })
+      .catch(() => setAssets([]));
+  }, [isOpen, assetType, workspaceId]);
+
+  const handleShare = async () => {
+    setError(null);
+    try {
+      await api.shareAsset(assetType, parseInt(assetId, 10), target === EVERYONE ? null : parseInt(target, 10));
+      onShared();
+    } catch (err: any) {
+      setError(err.message || t('failedToUpdateWorkspace'));
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t('shareAsset')} size="sm">
+      <div className="space-y-4">
+        {error && <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>}
+        <Select
+          label={t('type')}
+          options={(Object.keys(ASSET_TYPE_LABELS) as ShareableAssetType[]).map((type) => ({
+            value: type,
+            label: t(ASSET_TYPE_LABELS[type]),
+          }))}
+          value={assetType}
+          onChange={(e) => setAssetType(e.target.value as ShareableAssetType)}
+        />
+        <Select
+          label={t('name')}
+          options={assets.map((asset) => ({ value: String(asset.id), label: asset.name }))}
+          value={assetId}
+          onChange={(e) => setAssetId(e.target.value)}
+        />
+        <Select
+          label={t('shareWith')}
+          options={[
+            { value: EVERYONE, label: t('allWorkspaces') },
+            ...targets.map((w) => ({ value: String(w.id), label: w.name })),
+          ]}
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+        />
+        <p className="text-xs text-secondary-500">{t('shareReadOnlyHint')}</p>
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose}>{t('cancel')}</Button>
+          <Button onClick={handleShare} disabled={!assetId}>{t('share')}</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -1,7 +1,11 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { useAuth } from '../../context/AuthContext';
 import { useLanguage } from '../../context/LanguageContext';
+import { useWorkspace } from '../../context/WorkspaceContext';
+import { LinkedAccountsModal } from '../Auth/LinkedAccountsModal';
+import { ROLE_LABELS } from '../UserManager/UserManager';
+import { Select } from './Input';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -9,21 +13,29 @@ interface LayoutProps {
 
 export function Layout({ children }: LayoutProps) {
   const location = useLocation();
-  const { user } = useAuth();
+  const { user, logout, can } = useAuth();
   const { language, setLanguage, t } = useLanguage();
+  const { workspaces, activeWorkspace, switchWorkspace } = useWorkspace();
+  const [showLinkedAccounts, setShowLinkedAccounts] = useState(false);
 
   const navItems = [
     { path: '/', labelKey: 'dashboard' as const, icon: HomeIcon },
-    { path: '/chat', labelKey: 'agentChat' as const, icon: ChatIcon },
-    { path: '/skills/new', labelKey: 'newSkill' as const, icon: PlusIcon },
-    { path: '/workflows/new', labelKey: 'newWorkflow' as const, icon: PlusIcon },
+    { path: '/chat', labelKey: 'agentChat' as const, icon: ChatIcon, permission: 'assets:run' as const },
+    { path: '/skills/new', labelKey: 'newSkill' as const, icon: PlusIcon, permission: 'assets:write' as const },
+    { path: '/workflows/new', labelKey: 'newWorkflow' as const, icon: PlusIcon, permission: 'assets:write' as const },
     { path: '/executions', labelKey: 'executions' as const, icon: PlayIcon },
+    { path: '/schedules', labelKey: 'schedules' as const, icon: ClockIcon },
+    { path: '/webhooks', labelKey: 'webhooks' as const, icon: LinkIcon },
     { path: '/outputs', labelKey: 'outputs' as const, icon: FolderIcon },
     { path: '/sessions', labelKey: 'sessions' as const, icon: AgentIcon },
-    { path: '/plugins', labelKey: 'plugins' as const, icon: PluginIcon },
+    { path: '/plugins', labelKey: 'plugins' as const, icon: PluginIcon, permission: 'system:configure' as const },
     { path: '/drafts', labelKey: 'skillDrafts' as const, icon: DocumentIcon },
+    { path: '/evaluations', labelKey: 'evaluations' as const, icon: ChartIcon, permission: 'assets:run_draft' as const },
     { path: '/standards', labelKey: 'standards' as const, icon: DocumentIcon },
+    { path: '/reviews/analytics', labelKey: 'reviewAnalytics' as const, icon: ChartIcon },
     { path: '/usage', labelKey: 'usage' as const, icon: ChartIcon },
+    { path: '/workspace', labelKey: 'workspace' as const, icon: UsersIcon },
+    { path: '/users', labelKey: 'users' as const, icon: UsersIcon, permission: 'users:manage' as const },
   ];
 
   const toggleLanguage = () => {
@@ -44,9 +56,22 @@ export function Layout({ children }: LayoutProps) {
           </Link>
         </div>
 
+        {/* Workspace switcher */}
+        {workspaces.length > 0 && (
+          <div className="px-4 pt-4">
+            <Select
+              label={t('workspace')}
+              options={workspaces.map((workspace) => ({ value: String(workspace.id), label: workspace.name }))}
+              value={activeWorkspace ? String(activeWorkspace.id) : ''}
+              onChange={(e) => switchWorkspace(parseInt(e.target.value, 10))}
+              className="text-sm"
+            />
+          </div>
+        )}
+
         {/* Navigation */}
-        <nav className="px-4 py-6 space-y-1">
-          {navItems.map((item) => {
+        <nav className="px-4 py-4 space-y-1">
+          {navItems.filter((item) => !item.permission || can(item.permission)).map((item) => {
             const isActive = location.pathname === item.path ||
               (item.path !== '/' && location.pathname.startsWith(item.path));
 
@@ -97,15 +122,37 @@ export function Layout({ children }: LayoutProps) {
               <p className="text-sm font-medium text-secondary-900 truncate">
                 {user?.email || t('guest')}
               </p>
-              <p className="text-xs text-secondary-500">{t('demoAccount')}</p>
+              {user && <p className="text-xs text-secondary-500">{t(ROLE_LABELS[user.role])}</p>}
+              <div className="flex items-center gap-2 text-xs">
+                <button
+                  onClick={() => setShowLinkedAccounts(true)}
+                  className="text-secondary-500 hover:text-secondary-900"
+                >
+                  {t('linkedAccounts')}
+                </button>
+                <span className="text-secondary-300">·</span>
+                <button onClick={logout} className="text-secondary-500 hover:text-secondary-900">
+                  {t('signOut')}
+                </button>
+              </div>
             </div>
           </div>
         </div>
       </aside>
 
+      <LinkedAccountsModal isOpen={showLinkedAccounts} onClose={() => setShowLinkedAccounts(false)} />
+
       {/* Main content */}
       <main className="pl-64">
-        <div className="min-h-screen p-8">
+        {/* Remount the page on workspace switch so it reloads workspace-scoped data */}
+        <div key={activeWorkspace?.id ?? 'none'} className="min-h-screen p-8">
+          {(activeWorkspace?.budget_state === 'warning' || activeWorkspace?.budget_state === 'exceeded') && (
+            <div className={`mb-6 px-4 py-3 rounded-lg text-sm ${
+              activeWorkspace.budget_state === 'exceeded' ? 'bg-red-50 text-red-700' : 'bg-yellow-50 text-yellow-800'
+            }`}>
+              {activeWorkspace.budget_state === 'exceeded' ? t('llmBudgetExceeded') : t('llmBudgetWarning')}
+            </div>
+          )}
           {children}
         </div>
       </main>
@@ -194,3 +241,27 @@ function PluginIcon({ className }: { className?: string }) {
     </svg>
   );
 }
+
+function ClockIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+    </svg>
+  );
+}
+
+function LinkIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+    </svg>
+  );
+}
+
+function UsersIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+    </svg>
+  );
+}
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { TextArea } from './Input';
+import { useLanguage } from '../../context/LanguageContext';
+
+type JsonSchema = Record<string, any>;
+
+const MAX_PATH_DEPTH = 4;
+const MAX_SUGGESTIONS = 8;
+
+function parseConfig(executorConfig?: string): Record<string, any> {
+  try {
+    const parsed = executorConfig ? JSON.parse(executorConfig) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** The `output_schema` an AI step declares in its executor_config, if any. */
+export function parseOutputSchema(executorConfig?: string): JsonSchema | null {
+  let schema = parseConfig(executorConfig).output_schema;
+  if (typeof schema === 'string') {
+    try {
+      schema = JSON.parse(schema);
+    } catch {
+      return null;
+    }
+  }
+  return schema && typeof schema === 'object' && !Array.isArray(schema) ? schema : null;
+}
+
+/**
+ * Reference paths a schema makes available, e.g. `step_2_output.themes.0.name`.
+ * Array items use index 0, matching how step references resolve.
+ */
+export function getSchemaPaths(schema: JsonSchema | null, prefix: string, depth = 0): string[] {
+  if (!schema || depth >= MAX_PATH_DEPTH) return [];
+  if (schema.properties && typeof schema.properties === 'object') {
+    return Object.entries(schema.properties).flatMap(([key, child]) => [
+      `${prefix}.${key}`,
+      ...getSchemaPaths(child as JsonSchema, `${prefix}.${key}`, depth + 1),
+    ]);
+  }
+  if (schema.items && typeof schema.items === 'object' && !Array.isArray(schema.items)) {
+    return getSchemaPaths(schema.items, `${prefix}.0`, depth + 1);
+  }
+  return [];
+}
+
+/**
+ * Editor for `executor_config.output_schema`. Text is kept locally while it
+ * is not valid JSON; only a parsed object (or nothing) is written back, so
+ * give it a `key` per step to reset the text when the step changes.
+ */
+export function OutputSchemaField({
+  executorConfig,
+  stepOrder,
+  onConfigChange,
+}: {
+  executorConfig: string;
+  stepOrder: number;
+  onConfigChange: (config: string) => void;
+}) {
+  const { t } = useLanguage();
+  const schema = parseOutputSchema(executorConfig);
+  const [text, setText] = useState(schema ? JSON.stringify(schema, null, 2) : '');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = (value: string) => {
+    setText(value);
+    const config = parseConfig(executorConfig);
+    if (!value.trim()) {
+      delete config.output_schema;
+      setError(null);
+      onConfigChange(JSON.stringify(config));
+      return;
+    }
+    try {
+      const parsed = JSON.parse(value);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        setError(t('outputSchemaMustBeObject'));
+        return;
+      }
+      setError(null);
+      onConfigChange(JSON.stringify({ ...config, output_schema: parsed }));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const paths = getSchemaPaths(schema, `step_${stepOrder}_output`);
+
+  return (
+    <div>
+      <TextArea
+        label={t('outputSchema')}
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder={'{\n  "type": "object",\n  "properties": { "summary": { "type": "string" } },\n  "required": ["summary"]\n}'}
+        rows={8}
+        className="font-mono text-sm"
+        error={error || undefined}
+      />
+      <p className="mt-1 text-sm text-secondary-500">{t('outputSchemaHelp')}</p>
+      {paths.length > 0 && (
+        <div className="mt-2">
+          <p className="text-xs text-secondary-500 mb-1">{t('outputSchemaReferences')}</p>
+          <div className="flex flex-wrap gap-1">
+            {paths.map((path) => (
+              <code key={path} className="text-xs bg-secondary-100 text-secondary-700 px-1.5 py-0.5 rounded">
+                {`{{${path}}}`}
+              </code>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Completion list for a `{{step_N_output...` reference being typed at the
+ * cursor. Picking a suggestion replaces the partial reference and closes it.
+ */
+export function StepReferenceSuggestions({
+  value,
+  cursor,
+  references,
+  onPick,
+}: {
+  value: string;
+  cursor: number | null;
+  references: string[];
+  onPick: (value: string, cursor: number) => void;
+}) {
+  if (cursor === null) return null;
+  const match = value.slice(0, cursor).match(/\{\{\s*(step_[\w.]*)$/);
+  if (!match) return null;
+
+  const partial = match[1];
+  const suggestions = references.filter((ref) => ref.startsWith(partial) && ref !== partial).slice(0, MAX_SUGGESTIONS);
+  if (suggestions.length === 0) return null;
+
+  const pick = (reference: string) => {
+    const start = cursor - partial.length;
+    const rest = value.slice(cursor).replace(/^[\w.]*\s*(\}\})?/, '');
+    const inserted = `${reference}}}`;
+    onPick(value.slice(0, start) + inserted + rest, start + inserted.length);
+  };
+
+  return (
+    <div className="mt-1 border border-secondary-200 rounded-lg bg-white shadow-sm divide-y divide-secondary-100">
+      {suggestions.map((reference) => (
+        <button
+          key={reference}
+          type="button"
+          onMouseDown={(e) => {
+            // Keep focus in the textarea
+            e.preventDefault();
+            pick(reference);
+          }}
+          className="block w-full text-left px-3 py-1.5 font-mono text-xs text-secondary-700 hover:bg-primary-50"
+        >
+          {`{{${reference}}}`}
+        </button>
+      ))}
+    </div>
+  );
+}
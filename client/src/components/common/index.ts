@@ -7,3 +7,4 @@ export { DynamicInput } from './DynamicInput';
 export { TranslatedText } from './TranslatedText';
 export { Notifications } from './Notifications';
 export { ExecutorConfigFields } from './ExecutorConfigFields';
+export { OutputSchemaField, StepReferenceSuggestions, parseOutputSchema, getSchemaPaths } from './OutputSchema';
@@ -1,12 +1,14 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { User } from '../types';
+import { Permission, User } from '../types';
 import api from '../services/api';
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
+  can: (permission: Permission) => boolean;
   login: (email: string, password: string) => Promise<void>;
+  register: (email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
   checkAuth: () => Promise<void>;
 }
@@ -19,48 +21,50 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const checkAuth = useCallback(async () => {
     try {
-      const token = api.getToken();
-      if (!token) {
-        // Auto-login for MVP
-        await login('demo@novohaven.com', 'password');
+      if (!api.getToken()) {
+        setUser(null);
         return;
       }
 
       const { user: currentUser } = await api.getCurrentUser();
       setUser(currentUser);
     } catch (error) {
-      // Auto-login for MVP
-      try {
-        await login('demo@novohaven.com', 'password');
-      } catch {
-        setUser(null);
-        api.setToken(null);
-      }
+      setUser(null);
+      api.setToken(null);
     } finally {
       setIsLoading(false);
     }
   }, []);
 
   useEffect(() => {
+    // Drop back to the login screen when the session expires
+    api.setUnauthorizedHandler(() => setUser(null));
     checkAuth();
+    return () => api.setUnauthorizedHandler(null);
   }, [checkAuth]);
 
   const login = async (email: string, password: string) => {
-    setIsLoading(true);
-    try {
-      const response = await api.login({ email, password });
-      setUser(response.user);
-    } finally {
-      setIsLoading(false);
-    }
+    const response = await api.login({ email, password });
+    setUser(response.user);
+  };
+
+  const register = async (email: string, password: string) => {
+    const response = await api.register({ email, password });
+    setUser(response.user);
   };
 
+  // UI hint only; the server enforces every permission
+  const can = useCallback(
+    (permission: Permission) => !!user?.permissions.includes(permission),
+    [user]
+  );
+
   const logout = async () => {
     setIsLoading(true);
     try {
       await api.logout();
-      setUser(null);
     } finally {
+      setUser(null);
       setIsLoading(false);
     }
   };
@@ -71,7 +75,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         user,
         isLoading,
         isAuthenticated: !!user,
+        can,
         login,
+        register,
         logout,
         checkAuth,
       }}
@@ -0,0 +1,67 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { WorkspaceSummary } from '../types';
+import api from '../services/api';
+
+interface WorkspaceContextType {
+  workspaces: WorkspaceSummary[];
+  activeWorkspace: WorkspaceSummary | null;
+  switchWorkspace: (workspaceId: number) => void;
+  refreshWorkspaces: () => Promise<void>;
+  // True when an asset lives in another workspace and is only shared into this one
+  isShared: (asset: { workspace_id?: number | null }) => boolean;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
+
+export function WorkspaceProvider({ children }: { children: React.ReactNode }) {
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [activeId, setActiveId] = useState<number | null>(api.getWorkspaceId());
+
+  const refreshWorkspaces = useCallback(async () => {
+    try {
+      const list = await api.getWorkspaces();
+      setWorkspaces(list);
+      // Without a stored choice (or after leaving it) the first workspace is the personal one
+      const stored = api.getWorkspaceId();
+      if (list.length > 0 && !list.some((w) => w.id === stored)) {
+        api.setWorkspaceId(list[0].id);
+        setActiveId(list[0].id);
+      }
+    } catch (error) {
+      console.error('Failed to load workspaces:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshWorkspaces();
+  }, [refreshWorkspaces]);
+
+  const switchWorkspace = useCallback((workspaceId: number) => {
+    api.setWorkspaceId(workspaceId);
+    setActiveId(workspaceId);
+  }, []);
+
+  const activeWorkspace = workspaces.find((w) => w.id === activeId) || null;
+
+  const isShared = useCallback(
+    (asset: { workspace_id?: number | null }) =>
+      !!activeWorkspace && asset.workspace_id != null && asset.workspace_id !== activeWorkspace.id,
+    [activeWorkspace]
+  );
+
+  return (
+    <WorkspaceContext.Provider
+      value={{ workspaces, activeWorkspace, switchWorkspace, refreshWorkspaces, isShared }}
+    >
+      {children}
+    </WorkspaceContext.Provider>
+  );
+}
+
+export function useWorkspace() {
+  const context = useContext(WorkspaceContext);
+  if (context === undefined) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider');
+  }
+  return context;
+}
@@ -142,6 +142,8 @@ export const translations = {
     templateNamePlaceholder: 'e.g., Product Research, Amazon Listing Generator',
     templateDescriptionPlaceholder: 'Describe what this skill does...',
     aiConfiguration: 'AI Configuration',
+    forEachItemPrompt: 'Per-Item AI Prompt',
+    forEachItemPromptHelp: 'Runs once per list item. Use {{item}}, {{item.field}} and {{item_number}} to reference the current item.',
     templatePromptHelp: 'Use {{variable_name}} for inputs that will be provided when running a workflow',
     templateInputsDesc: 'These variables will become input fields when this skill is used in a workflow.',
     templateVariableDesc: 'creates an input field for users to fill when running the workflow.',
@@ -456,7 +458,6 @@ export const translations = {
     plugins: 'Plugins',
     skillDrafts: 'Skill Drafts',
     guest: 'Guest',
-    demoAccount: 'Demo Account',
     skills: 'Skills',
     workflows: 'Workflows',
     activeSessions: 'Active Sessions',
@@ -481,6 +482,30 @@ export const translations = {
     pageNotFoundDesc: 'The page you\'re looking for doesn\'t exist.',
     executionHistorySubtitle: 'View and manage your workflow executions',
     deleteAllExecutions: 'Delete All',
+    assignedReviews: 'Waiting for your review',
+    reviewKindApproval: 'Approval',
+    reviewKindAskUser: 'Input requested',
+    reviewRequestedBy: 'Requested by',
+    reviewDue: 'Due',
+    forkedFrom: 'Forked from',
+    nestedRunOf: 'Nested run of',
+    versionHistory: 'Version History',
+    rollbackToVersion: 'Roll back to this version',
+    confirmRollback: 'Make this the current definition again? A new version is saved; history is kept. Roll back to',
+    noVersionChanges: 'No changes from the previous version.',
+    versionSourceCreate: 'Created',
+    versionSourceEdit: 'Edited',
+    versionSourceDraft: 'Draft approved',
+    versionSourceRollback: 'Rollback',
+    versionSourceRun: 'Changed outside editor',
+    stepLabel: 'Step',
+    compare: 'Compare',
+    compareWithOriginal: 'Compare with original',
+    outputEdited: 'Edited',
+    outputChanged: 'Changed',
+    outputUnchanged: 'Unchanged',
+    reviewInstructions: 'Instructions for the reviewer',
+    reviewInstructionsHelp: 'Shown in the review form and chat notifications. Supports {{variables}} and {{step_N_output}} references.',
     startNewWorkflow: 'Start New Workflow',
     sessionMonitor: 'Session Monitor',
     closeAll: 'Close All',
@@ -525,6 +550,58 @@ export const translations = {
     failedToLoadDrafts: 'Failed to load drafts',
     failedToLoadDraftDetails: 'Failed to load draft details',
     failedToApproveDraft: 'Failed to approve draft',
+    importBundle: 'Import Bundle',
+    importAsNew: 'Import as new',
+    failedToImportBundle: 'Failed to import bundle',
+    bundleImported: 'Imported as drafts',
+    bundleReused: 'Using existing',
+    exportBundle: 'Export',
+    testSuite: 'Tests',
+    addTestCase: 'Add Test Case',
+    testCaseName: 'Test case name',
+    testInputs: 'Inputs (JSON)',
+    testAssertions: 'Assertions (JSON)',
+    testAssertionsHelp: 'Types: contains, regex, json_schema, field_equals, llm_rubric. Add "step": N to check a step other than the last.',
+    testStubs: 'Stubbed step outputs (JSON)',
+    testStubsHelp: 'Step number to canned output. Browser, Manus, approval and ask-user steps need one.',
+    testMockAi: 'Run AI steps on the mock model',
+    runTests: 'Run Tests',
+    regressionTests: 'Regression Tests',
+    testsRunning: 'Running tests...',
+    testsNotRun: 'Not run against this draft yet',
+    noTestCases: 'No test cases saved yet',
+    noTestCasesForDraft: 'The skill or workflow this draft edits has no test cases',
+    testsPassed: 'passed',
+    testsFailed: 'failed',
+    testCaseError: 'Could not run',
+    invalidTestJson: 'is not valid JSON',
+    // Evaluations
+    evaluations: 'Evaluations',
+    evaluationsSubtitle: 'Compare models and prompts side by side over a dataset of inputs',
+    newEvaluation: 'New Evaluation',
+    noEvaluationsYet: 'No evaluations yet.',
+    failedToLoadEvaluations: 'Failed to load evaluations',
+    failedToSaveEvaluation: 'Failed to save evaluation',
+    evaluationNotRun: 'Not run',
+    evaluationStep: 'Step',
+    evaluationWholeRun: 'Whole skill/workflow',
+    evaluationVariants: 'Variants',
+    addVariant: 'Add Variant',
+    evaluationVariantLabel: 'Label (defaults to the model)',
+    evaluationPromptHelp: "Leave empty to use the step's prompt",
+    evaluationDataset: 'Dataset',
+    evaluationDatasetHelp: 'JSON array of input objects, one per row. Use step_N_output keys for earlier steps.',
+    evaluationDatasetInvalid: 'Dataset must be a JSON array of input objects',
+    evaluationUseJudge: 'Score outputs with an LLM judge',
+    evaluationRubric: 'What makes a good output?',
+    evaluationJudge: 'Judge',
+    evaluationInputs: 'Inputs',
+    evaluationYourScore: 'Your score',
+    evaluationSummary: 'Summary',
+    evaluationAvgLatency: 'Avg latency',
+    evaluationTokens: 'tokens',
+    runEvaluation: 'Run',
+    rerunEvaluation: 'Re-run',
     failedToRejectDraft: 'Failed to reject draft',
     failedToLoadUsageData: 'Failed to load usage data',
     loadingUsageData: 'Loading usage data...',
@@ -575,6 +652,262 @@ export const translations = {
     unknownError: 'Unknown error',
     somethingWentWrong: 'Something went wrong',
 
+    // Schedules
+    schedules: 'Schedules',
+    schedulesSubtitle: 'Run skills and workflows automatically on a recurring schedule',
+    newSchedule: 'New Schedule',
+    editSchedule: 'Edit Schedule',
+    noSchedulesYet: 'No schedules yet. Create one to run a skill or workflow automatically.',
+    cronExpression: 'Cron Expression',
+    cronExpressionHelp: 'minute hour day-of-month month day-of-week, e.g. "0 9 * * MON" (server time)',
+    cronPresetDaily: 'Daily 9:00',
+    cronPresetWeekly: 'Mondays 9:00',
+    cronPresetMonthly: 'Monthly on the 1st',
+    cronPresetHourly: 'Hourly',
+    nextRuns: 'Next runs',
+    nextRun: 'Next Run',
+    lastRun: 'Last Run',
+    schedulePaused: 'Paused',
+    scheduleNamePlaceholder: 'e.g. Weekly competitor review report',
+    scheduleSelectTarget: 'Select...',
+    scheduleTargetRequired: 'Select a skill or workflow to run',
+    scheduleInputs: 'Inputs (JSON)',
+    scheduleInputsHelp: 'Input values passed to every run',
+    scheduleInputsInvalid: 'Inputs must be a JSON object',
+    postResultsTo: 'Post Results To',
+    scheduleNoDelivery: 'Don\'t post',
+    scheduleTargetSession: 'Chat Session',
+    scheduleSelectSession: 'Select a session...',
+    larkChatId: 'Lark Chat ID',
+    scheduleAutoApprove: 'Auto-approve review steps',
+    scheduleEnabled: 'Enabled',
+    runNow: 'Run Now',
+    pause: 'Pause',
+    resume: 'Resume',
+    runHistory: 'Run History',
+    noRunsYet: 'No runs yet.',
+    triggerManual: 'Manual',
+    triggerSchedule: 'Scheduled',
+    confirmDeleteSchedule: 'Delete this schedule and its run history?',
+    failedToLoadSchedules: 'Failed to load schedules',
+    failedToSaveSchedule: 'Failed to save schedule',
+    failedToRunSchedule: 'Failed to start run',
+    failedToDeleteSchedule: 'Failed to delete schedule',
+
+    // Webhooks
+    webhooks: 'Webhooks',
+    webhooksSubtitle: 'Let external systems such as Shopify or your CRM start skills and workflows',
+    newWebhook: 'New Webhook',
+    editWebhook: 'Edit Webhook',
+    noWebhooksYet: 'No webhooks yet. Create one to trigger a workflow from another system.',
+    webhookNamePlaceholder: 'e.g. Shopify new order',
+    webhookFieldMapping: 'Field Mapping (JSON)',
+    webhookFieldMappingHelp: 'Map payload paths to inputs, e.g. {"customer.email": "customer_email"}. Leave empty to pass top-level fields through; use "$" for the whole payload.',
+    webhookStaticInputs: 'Fixed Inputs (JSON)',
+    webhookStaticInputsHelp: 'Inputs used for every call, unless the payload provides them',
+    webhookJsonInvalid: 'Field mapping and fixed inputs must be JSON objects',
+    webhookResponseMode: 'Response',
+    webhookModeAsync: 'Reply immediately (async)',
+    webhookModeSync: 'Wait for the result (sync)',
+    webhookSyncTimeout: 'Wait Timeout (seconds)',
+    webhookCallbackUrl: 'Callback URL',
+    webhookCallbackUrlHelp: 'Optional. The final result is POSTed here, signed with the webhook secret.',
+    webhookCallback: 'Callback',
+    webhookUrl: 'URL',
+    webhookSecret: 'Secret',
+    webhookSignatureHelp: 'Send the current unix time as "X-Webhook-Timestamp: <seconds>", sign "<timestamp>.<request body>" with HMAC-SHA256 using the secret and send it as "X-Webhook-Signature: sha256=<hex>". Requests more than 5 minutes old, or delivered before, are rejected. Shopify\'s X-Shopify-Hmac-Sha256 header is also accepted.',
+    webhookInvocations: 'Recent Calls',
+    rotateSecret: 'Rotate Secret',
+    confirmRotateSecret: 'Rotate the secret? Callers using the old secret will be rejected.',
+    confirmDeleteWebhook: 'Delete this webhook and its call history?',
+    failedToLoadWebhooks: 'Failed to load webhooks',
+    failedToSaveWebhook: 'Failed to save webhook',
+    failedToDeleteWebhook: 'Failed to delete webhook',
+    copy: 'Copy',
+    show: 'Show',
+    hide: 'Hide',
+
+    // Retry policy
+    retryPolicy: 'Retries & Fallbacks',
+    retryPolicyHelp: 'Retry this step automatically before pausing the run. Each attempt is recorded in the execution view.',
+    retryMaxAttempts: 'Attempts per model',
+    retryBackoff: 'Initial backoff (ms)',
+    retryBackoffMultiplier: 'Backoff multiplier',
+    retryOn: 'Retry on',
+    errorClassRateLimit: 'Rate limits',
+    errorClassTimeout: 'Timeouts',
+    errorClassNetwork: 'Network errors',
+    errorClassServer: 'Server errors',
+    errorClassAuth: 'Auth errors',
+    errorClassOther: 'Other errors',
+    fallbackModels: 'Fallback models',
+    fallbackModelsHelp: 'Tried in order when the primary model keeps failing with a retryable or auth error.',
+    addFallbackModel: 'Add fallback model...',
+
+    // Step result cache
+    stepCache: 'Response Cache',
+    stepCacheHelp: 'Reuse this step\'s result when it runs again with the same prompt, config, model and inputs. Replays reuse cached results for earlier steps even when this is off.',
+    stepCacheEnabled: 'Reuse cached results',
+    stepCacheTtl: 'Keep results for (hours)',
+
+    sandbox: 'Sandbox',
+    sandboxDescription: 'Limits applied to script steps and the bash tool. Every run starts in an empty temporary directory and is recorded in the audit log.',
+    sandboxIsolationAvailable: 'Namespace isolation active',
+    sandboxIsolationUnavailable: 'Isolation unavailable: commands are refused',
+    sandboxRunningUnisolated: 'Isolation unavailable: running without isolation',
+    sandboxAllowNetwork: 'Allow network access',
+    sandboxRequireIsolation: 'Require isolation',
+    sandboxRequireIsolationHelp: 'Refuse to run commands when this server cannot create namespaces. Turning this off lets commands reach the network and host files, with only resource limits applied.',
+    sandboxAllowedPaths: 'Read-only paths',
+    sandboxWritablePaths: 'Writable paths',
+    sandboxPathsHelp: 'One absolute path per line',
+    sandboxTimeoutMs: 'Max run time (ms)',
+    sandboxMaxCpuSeconds: 'CPU limit (seconds)',
+    sandboxMaxMemoryMb: 'Memory limit (MB)',
+    sandboxMaxOutputBytes: 'Output limit (bytes)',
+    sandboxAllowedEnv: 'Passed environment variables',
+    sandboxAllowedEnvHelp: 'One variable name per line; everything else is removed',
+    sandboxAuditLog: 'Recent runs',
+    sandboxNoAuditEntries: 'No sandboxed runs yet.',
+    sandboxAuditTime: 'Time',
+    sandboxAuditSource: 'Source',
+    sandboxAuditCommand: 'Command',
+    sandboxAuditDuration: 'Duration',
+    sandboxNotIsolated: 'not isolated',
+    failedToLoadSandbox: 'Failed to load sandbox settings',
+
+    signIn: 'Sign in',
+    signOut: 'Sign out',
+    createAccount: 'Create account',
+    email: 'Email',
+    password: 'Password',
+    passwordRequirement: 'At least 8 characters',
+    noAccountRegister: "Don't have an account? Create one",
+    haveAccountSignIn: 'Already have an account? Sign in',
+    authFailed: 'Authentication failed',
+    linkedAccounts: 'Linked accounts',
+    linkedAccountsDescription: 'Messages from linked chat accounts (such as Lark) run as you and can use your skills and workflows.',
+    noLinkedAccounts: 'No chat accounts linked yet.',
+    generateLinkCode: 'Generate link code',
+    linkCodeInstructions: 'Send this message to the NovoHaven bot from the chat account you want to link. The code expires in 10 minutes.',
+    unlink: 'Unlink',
+    failedToLoadLinkedAccounts: 'Failed to load linked accounts',
+
+    // Roles
+    users: 'Users',
+    usersSubtitle: 'Choose what each account is allowed to do',
+    role: 'Role',
+    you: 'you',
+    roleAdmin: 'Admin',
+    roleBuilder: 'Builder',
+    roleOperator: 'Operator',
+    roleViewer: 'Viewer',
+    roleDescriptions: 'Admins approve skill drafts and manage plugins, sessions and users. Builders create and edit skills, workflows, standards, schedules and webhooks. Operators run active skills and chat with the agent. Viewers can only look.',
+    failedToLoadUsers: 'Failed to load users',
+    failedToUpdateRole: 'Failed to update role',
+
+    // Workspaces
+    workspace: 'Workspace',
+    workspaceSubtitle: 'Members, monthly quota and assets shared with other workspaces',
+    newWorkspace: 'New Workspace',
+    leaveWorkspace: 'Leave Workspace',
+    confirmLeaveWorkspace: 'Leave this workspace? You will lose access to its assets.',
+    workspaceSettings: 'Settings',
+    workspaceUsage: 'Usage This Month',
+    monthlyRequestQuota: 'Monthly request quota',
+    unlimited: 'Unlimited',
+    requestsOfQuota: '{used} of {quota} requests used',
+    requestsNoQuota: '{used} requests, no quota set',
+    members: 'Members',
+    addMemberByEmail: 'Add member by email',
+    workspaceRoleAdmin: 'Workspace admin',
+    workspaceRoleMember: 'Member',
+    sharedAssets: 'Shared Assets',
+    shareAsset: 'Share Asset',
+    share: 'Share',
+    shareWith: 'Share with',
+    allWorkspaces: 'All workspaces',
+    shareReadOnlyHint: 'Other workspaces can view and run shared assets but not edit them.',
+    noSharedAssets: 'This workspace has not shared any assets.',
+    stopSharing: 'Stop sharing',
+    sharedBadge: 'Shared',
+    standard: 'Standard',
+    failedToLoadWorkspace: 'Failed to load workspace',
+    failedToUpdateWorkspace: 'Failed to update workspace',
+
+    // LLM tokens and cost
+    llmTokensAndCost: 'LLM Tokens & Cost',
+    llmCalls: 'Calls',
+    promptTokens: 'Prompt tokens',
+    completionTokens: 'Completion tokens',
+    cost: 'Cost',
+    allTime: 'All time',
+    noLlmUsageYet: 'No LLM calls recorded for this period.',
+    llmBySource: 'By source',
+    llmByModel: 'By model',
+    llmBySkill: 'By skill',
+    llmByWorkflow: 'By workflow',
+    llmBySession: 'By agent session',
+    llmByUser: 'By user',
+    llmSourceWorkflowStep: 'Workflow steps',
+    llmSourceAgent: 'Agent turns',
+    llmSourceAssistant: 'Workflow assistant',
+    llmSourceModelTest: 'Model tests',
+    llmBudgetSpent: '{spent} of {budget} monthly LLM budget spent',
+    llmSpendNoBudget: '{spent} spent on LLM calls this month, no budget set',
+    llmBudgetWarning: 'This workspace is close to its monthly LLM budget.',
+    llmBudgetExceeded: 'This workspace has used its monthly LLM budget. New runs and model calls are blocked until next month or until an admin raises the budget.',
+    monthlyLlmBudget: 'Monthly LLM budget (USD)',
+    budgetWarnPercent: 'Warn at % of budget',
+    modelPrices: 'Model prices',
+    modelPricesHint: 'USD per million tokens. Overrides apply to calls recorded after the change.',
+    inputPerMtok: 'Input / 1M',
+    outputPerMtok: 'Output / 1M',
+    priceSource: 'Source',
+    priceSourceOverride: 'Override',
+    priceSourceDefault: 'List price',
+    priceSourceFree: 'Free',
+    priceSourceUnpriced: 'Unpriced',
+    reset: 'Reset',
+
+    // Structured output
+    outputSchema: 'Output JSON Schema (optional)',
+    outputSchemaHelp: 'When set, the model must return JSON matching this schema. Replies are repaired or re-asked until they validate, and the output format becomes JSON.',
+    outputSchemaMustBeObject: 'The schema must be a JSON object',
+    outputSchemaReferences: 'Later steps can reference:',
+    stepOutputPathsDesc: 'Steps with an output schema expose their fields as paths. Type {{step_ in a prompt to pick one.',
+
+    // Review analytics
+    reviewAnalytics: 'Review Analytics',
+    reviewAnalyticsSubtitle: 'Rating and sentiment trends, topics and purchase motivations across stored reviews',
+    failedToLoadReviewAnalytics: 'Failed to load review analytics',
+    tagWithAi: 'Tag with AI',
+    reviewsTaggedSummary: 'Tagged {tagged} reviews with {model}; {remaining} still untagged',
+    exportCsv: 'Export CSV',
+    exportXlsx: 'Export XLSX',
+    products: 'Products',
+    product: 'Product',
+    reviewProductFilterHint: 'Select products to focus on; select several to compare them. Nothing selected shows every product.',
+    byWeek: 'By week',
+    byMonth: 'By month',
+    noStoredReviewsYet: 'No stored reviews yet. Run a Review Monitor step or extract reviews to start collecting them.',
+    reviews: 'Reviews',
+    ratings: 'Ratings',
+    averageRating: 'Average rating',
+    taggedReviews: 'Tagged reviews',
+    positiveShare: 'Positive',
+    positive: 'Positive',
+    neutral: 'Neutral',
+    negative: 'Negative',
+    sentiment: 'Sentiment',
+    ratingDistributionOverTime: 'Rating distribution over time',
+    sentimentOverTime: 'Sentiment over time',
+    noTaggedReviewsYet: 'No tagged reviews yet. Use "Tag with AI" to tag sentiment, topics and motivations.',
+    productComparison: 'Product comparison',
+    topTopics: 'Top topics',
+    topicClusters: 'Topics',
+    purchaseMotivations: 'Purchase motivations',
+
     // Language
     language: 'Language',
     english: 'English',
@@ -722,6 +1055,8 @@ export const translations = {
     templateNamePlaceholder: '例如：产品研究、亚马逊列表生成器',
     templateDescriptionPlaceholder: '描述此模板的功能...',
     aiConfiguration: 'AI配置',
+    forEachItemPrompt: '逐项AI提示词',
+    forEachItemPromptHelp: '对列表中的每一项运行一次。使用 {{item}}、{{item.field}} 和 {{item_number}} 引用当前项。',
     templatePromptHelp: '使用 {{variable_name}} 作为运行工作流时需要提供的输入',
     templateInputsDesc: '当此模板在工作流中使用时，这些变量将成为输入字段。',
     templateVariableDesc: '创建一个用户运行工作流时需要填写的输入字段。',
@@ -1036,7 +1371,6 @@ export const translations = {
     plugins: '插件',
     skillDrafts: '技能草稿',
     guest: '访客',
-    demoAccount: '演示账号',
     skills: '技能',
     workflows: '工作流',
     activeSessions: '活跃会话',
@@ -1061,6 +1395,30 @@ export const translations = {
     pageNotFoundDesc: '您访问的页面不存在。',
     executionHistorySubtitle: '查看并管理您的工作流执行',
     deleteAllExecutions: '删除全部',
+    assignedReviews: '等待您审核',
+    reviewKindApproval: '审批',
+    reviewKindAskUser: '需要填写',
+    reviewRequestedBy: '发起人',
+    reviewDue: '截止',
+    forkedFrom: '分支自',
+    nestedRunOf: '嵌套运行，来自',
+    versionHistory: '版本历史',
+    rollbackToVersion: '回滚到此版本',
+    confirmRollback: '将此版本恢复为当前定义？会保存为新版本，历史记录保留。回滚到',
+    noVersionChanges: '与上一版本相比没有变化。',
+    versionSourceCreate: '创建',
+    versionSourceEdit: '编辑',
+    versionSourceDraft: '草稿已批准',
+    versionSourceRollback: '回滚',
+    versionSourceRun: '在编辑器外修改',
+    stepLabel: '步骤',
+    compare: '对比',
+    compareWithOriginal: '与原执行对比',
+    outputEdited: '已编辑',
+    outputChanged: '已变化',
+    outputUnchanged: '未变化',
+    reviewInstructions: '给审核人的说明',
+    reviewInstructionsHelp: '显示在审核表单和聊天通知中。支持 {{variables}} 和 {{step_N_output}} 引用。',
     startNewWorkflow: '开始新工作流',
     sessionMonitor: '会话监控',
     closeAll: '全部关闭',
@@ -1105,6 +1463,58 @@ export const translations = {
     failedToLoadDrafts: '加载草稿失败',
     failedToLoadDraftDetails: '加载草稿详情失败',
     failedToApproveDraft: '批准草稿失败',
+    importBundle: '导入包',
+    importAsNew: '作为新项导入',
+    failedToImportBundle: '导入包失败',
+    bundleImported: '已导入为草稿',
+    bundleReused: '使用已有',
+    exportBundle: '导出',
+    testSuite: '测试',
+    addTestCase: '添加测试用例',
+    testCaseName: '测试用例名称',
+    testInputs: '输入（JSON）',
+    testAssertions: '断言（JSON）',
+    testAssertionsHelp: '类型：contains、regex、json_schema、field_equals、llm_rubric。添加 "step": N 可检查最后一步以外的步骤。',
+    testStubs: '步骤桩输出（JSON）',
+    testStubsHelp: '步骤编号对应的固定输出。浏览器、Manus、审批和询问用户步骤必须提供。',
+    testMockAi: '使用模拟模型运行 AI 步骤',
+    runTests: '运行测试',
+    regressionTests: '回归测试',
+    testsRunning: '测试运行中...',
+    testsNotRun: '尚未针对此草稿运行',
+    noTestCases: '尚未保存测试用例',
+    noTestCasesForDraft: '此草稿修改的技能或工作流没有测试用例',
+    testsPassed: '通过',
+    testsFailed: '失败',
+    testCaseError: '无法运行',
+    invalidTestJson: '不是有效的 JSON',
+    // Evaluations
+    evaluations: '评测',
+    evaluationsSubtitle: '在一组输入上并排比较模型和提示词',
+    newEvaluation: '新建评测',
+    noEvaluationsYet: '暂无评测。',
+    failedToLoadEvaluations: '加载评测失败',
+    failedToSaveEvaluation: '保存评测失败',
+    evaluationNotRun: '未运行',
+    evaluationStep: '步骤',
+    evaluationWholeRun: '整个技能/工作流',
+    evaluationVariants: '变体',
+    addVariant: '添加变体',
+    evaluationVariantLabel: '标签（默认为模型名）',
+    evaluationPromptHelp: '留空则使用该步骤的提示词',
+    evaluationDataset: '数据集',
+    evaluationDatasetHelp: '输入对象的 JSON 数组，每行一个。用 step_N_output 键代替前面步骤的输出。',
+    evaluationDatasetInvalid: '数据集必须是输入对象的 JSON 数组',
+    evaluationUseJudge: '用 LLM 评审为输出打分',
+    evaluationRubric: '什么样的输出算好？',
+    evaluationJudge: '评审',
+    evaluationInputs: '输入',
+    evaluationYourScore: '你的评分',
+    evaluationSummary: '汇总',
+    evaluationAvgLatency: '平均延迟',
+    evaluationTokens: '令牌',
+    runEvaluation: '运行',
+    rerunEvaluation: '重新运行',
     failedToRejectDraft: '拒绝草稿失败',
     failedToLoadUsageData: '加载使用量数据失败',
     loadingUsageData: '正在加载使用量数据...',
@@ -1155,6 +1565,262 @@ export const translations = {
     unknownError: '未知错误',
     somethingWentWrong: '出错了',
 
+    // Schedules
+    schedules: '定时任务',
+    schedulesSubtitle: '按周期自动运行技能和工作流',
+    newSchedule: '新建定时任务',
+    editSchedule: '编辑定时任务',
+    noSchedulesYet: '暂无定时任务。创建一个以自动运行技能或工作流。',
+    cronExpression: 'Cron 表达式',
+    cronExpressionHelp: '分 时 日 月 周，例如 "0 9 * * MON"（服务器时间）',
+    cronPresetDaily: '每天 9:00',
+    cronPresetWeekly: '每周一 9:00',
+    cronPresetMonthly: '每月 1 日',
+    cronPresetHourly: '每小时',
+    nextRuns: '接下来的运行时间',
+    nextRun: '下次运行',
+    lastRun: '上次运行',
+    schedulePaused: '已暂停',
+    scheduleNamePlaceholder: '例如：每周竞品评论报告',
+    scheduleSelectTarget: '请选择...',
+    scheduleTargetRequired: '请选择要运行的技能或工作流',
+    scheduleInputs: '输入（JSON）',
+    scheduleInputsHelp: '每次运行时传入的输入值',
+    scheduleInputsInvalid: '输入必须是 JSON 对象',
+    postResultsTo: '结果发送到',
+    scheduleNoDelivery: '不发送',
+    scheduleTargetSession: '聊天会话',
+    scheduleSelectSession: '请选择会话...',
+    larkChatId: '飞书群聊 ID',
+    scheduleAutoApprove: '自动批准审核步骤',
+    scheduleEnabled: '启用',
+    runNow: '立即运行',
+    pause: '暂停',
+    resume: '恢复',
+    runHistory: '运行记录',
+    noRunsYet: '暂无运行记录。',
+    triggerManual: '手动',
+    triggerSchedule: '定时',
+    confirmDeleteSchedule: '删除此定时任务及其运行记录？',
+    failedToLoadSchedules: '加载定时任务失败',
+    failedToSaveSchedule: '保存定时任务失败',
+    failedToRunSchedule: '启动运行失败',
+    failedToDeleteSchedule: '删除定时任务失败',
+
+    // Webhooks
+    webhooks: 'Webhooks',
+    webhooksSubtitle: '允许 Shopify、CRM 等外部系统启动技能和工作流',
+    newWebhook: '新建 Webhook',
+    editWebhook: '编辑 Webhook',
+    noWebhooksYet: '暂无 Webhook。创建一个以便从其他系统触发工作流。',
+    webhookNamePlaceholder: '例如：Shopify 新订单',
+    webhookFieldMapping: '字段映射（JSON）',
+    webhookFieldMappingHelp: '将请求体路径映射到输入，例如 {"customer.email": "customer_email"}。留空则直接传入顶层字段；使用 "$" 表示整个请求体。',
+    webhookStaticInputs: '固定输入（JSON）',
+    webhookStaticInputsHelp: '每次调用都会使用的输入，除非请求体中已提供',
+    webhookJsonInvalid: '字段映射和固定输入必须是 JSON 对象',
+    webhookResponseMode: '响应方式',
+    webhookModeAsync: '立即返回（异步）',
+    webhookModeSync: '等待结果（同步）',
+    webhookSyncTimeout: '等待超时（秒）',
+    webhookCallbackUrl: '回调 URL',
+    webhookCallbackUrlHelp: '可选。最终结果会以 POST 发送到此地址，并使用 Webhook 密钥签名。',
+    webhookCallback: '回调',
+    webhookUrl: 'URL',
+    webhookSecret: '密钥',
+    webhookSignatureHelp: '以 "X-Webhook-Timestamp: <秒>" 发送当前 Unix 时间，使用密钥对 "<timestamp>.<请求体>" 进行 HMAC-SHA256 签名，并以 "X-Webhook-Signature: sha256=<hex>" 发送。超过 5 分钟或已投递过的请求会被拒绝。也支持 Shopify 的 X-Shopify-Hmac-Sha256 头。',
+    webhookInvocations: '最近调用',
+    rotateSecret: '轮换密钥',
+    confirmRotateSecret: '确定轮换密钥？使用旧密钥的调用将被拒绝。',
+    confirmDeleteWebhook: '删除此 Webhook 及其调用记录？',
+    failedToLoadWebhooks: '加载 Webhook 失败',
+    failedToSaveWebhook: '保存 Webhook 失败',
+    failedToDeleteWebhook: '删除 Webhook 失败',
+    copy: '复制',
+    show: '显示',
+    hide: '隐藏',
+
+    // Retry policy
+    retryPolicy: '重试与备用模型',
+    retryPolicyHelp: '在暂停运行前自动重试此步骤。每次尝试都会记录在执行视图中。',
+    retryMaxAttempts: '每个模型的尝试次数',
+    retryBackoff: '初始退避（毫秒）',
+    retryBackoffMultiplier: '退避倍数',
+    retryOn: '重试条件',
+    errorClassRateLimit: '限流',
+    errorClassTimeout: '超时',
+    errorClassNetwork: '网络错误',
+    errorClassServer: '服务端错误',
+    errorClassAuth: '认证错误',
+    errorClassOther: '其他错误',
+    fallbackModels: '备用模型',
+    fallbackModelsHelp: '当主模型因可重试错误或认证错误持续失败时，按顺序尝试。',
+    addFallbackModel: '添加备用模型...',
+
+    // Step result cache
+    stepCache: '响应缓存',
+    stepCacheHelp: '当此步骤以相同的提示词、配置、模型和输入再次运行时复用其结果。即使未开启，重放时也会复用之前步骤的缓存结果。',
+    stepCacheEnabled: '复用缓存结果',
+    stepCacheTtl: '结果保留时长（小时）',
+
+    sandbox: '沙箱',
+    sandboxDescription: '脚本步骤和 bash 工具的运行限制。每次运行都在空的临时目录中开始，并记录到审计日志。',
+    sandboxIsolationAvailable: '命名空间隔离已启用',
+    sandboxIsolationUnavailable: '隔离不可用：命令将被拒绝',
+    sandboxRunningUnisolated: '隔离不可用：正在无隔离运行',
+    sandboxAllowNetwork: '允许网络访问',
+    sandboxRequireIsolation: '必须隔离',
+    sandboxRequireIsolationHelp: '服务器无法创建命名空间时拒绝运行命令。关闭后命令可访问网络和主机文件，仅应用资源限制。',
+    sandboxAllowedPaths: '只读路径',
+    sandboxWritablePaths: '可写路径',
+    sandboxPathsHelp: '每行一个绝对路径',
+    sandboxTimeoutMs: '最长运行时间（毫秒）',
+    sandboxMaxCpuSeconds: 'CPU 限制（秒）',
+    sandboxMaxMemoryMb: '内存限制（MB）',
+    sandboxMaxOutputBytes: '输出限制（字节）',
+    sandboxAllowedEnv: '传递的环境变量',
+    sandboxAllowedEnvHelp: '每行一个变量名，其他变量都会被移除',
+    sandboxAuditLog: '最近运行',
+    sandboxNoAuditEntries: '暂无沙箱运行记录。',
+    sandboxAuditTime: '时间',
+    sandboxAuditSource: '来源',
+    sandboxAuditCommand: '命令',
+    sandboxAuditDuration: '耗时',
+    sandboxNotIsolated: '未隔离',
+    failedToLoadSandbox: '加载沙箱设置失败',
+
+    signIn: '登录',
+    signOut: '退出登录',
+    createAccount: '创建账号',
+    email: '邮箱',
+    password: '密码',
+    passwordRequirement: '至少 8 个字符',
+    noAccountRegister: '还没有账号？立即创建',
+    haveAccountSignIn: '已有账号？去登录',
+    authFailed: '认证失败',
+    linkedAccounts: '关联账号',
+    linkedAccountsDescription: '来自已关联聊天账号（如飞书）的消息将以你的身份运行，并可使用你的技能和工作流。',
+    noLinkedAccounts: '尚未关联任何聊天账号。',
+    generateLinkCode: '生成关联码',
+    linkCodeInstructions: '请用要关联的聊天账号将以下消息发送给 NovoHaven 机器人。关联码 10 分钟内有效。',
+    unlink: '取消关联',
+    failedToLoadLinkedAccounts: '加载关联账号失败',
+
+    // Roles
+    users: '用户',
+    usersSubtitle: '设置每个账户可以执行的操作',
+    role: '角色',
+    you: '你',
+    roleAdmin: '管理员',
+    roleBuilder: '构建者',
+    roleOperator: '操作员',
+    roleViewer: '查看者',
+    roleDescriptions: '管理员可审批技能草稿，并管理插件、会话和用户。构建者可创建和编辑技能、工作流、标准、定时任务和 Webhook。操作员可运行已启用的技能并与智能体对话。查看者只能查看。',
+    failedToLoadUsers: '加载用户失败',
+    failedToUpdateRole: '更新角色失败',
+
+    // Workspaces
+    workspace: '工作区',
+    workspaceSubtitle: '成员、每月配额以及与其他工作区共享的资源',
+    newWorkspace: '新建工作区',
+    leaveWorkspace: '退出工作区',
+    confirmLeaveWorkspace: '确定退出此工作区？您将无法访问其中的资源。',
+    workspaceSettings: '设置',
+    workspaceUsage: '本月用量',
+    monthlyRequestQuota: '每月请求配额',
+    unlimited: '不限',
+    requestsOfQuota: '已使用 {used} / {quota} 次请求',
+    requestsNoQuota: '{used} 次请求，未设置配额',
+    members: '成员',
+    addMemberByEmail: '通过邮箱添加成员',
+    workspaceRoleAdmin: '工作区管理员',
+    workspaceRoleMember: '成员',
+    sharedAssets: '共享资源',
+    shareAsset: '共享资源',
+    share: '共享',
+    shareWith: '共享给',
+    allWorkspaces: '所有工作区',
+    shareReadOnlyHint: '其他工作区可以查看和运行共享资源，但不能编辑。',
+    noSharedAssets: '此工作区尚未共享任何资源。',
+    stopSharing: '停止共享',
+    sharedBadge: '共享',
+    standard: '标准',
+    failedToLoadWorkspace: '加载工作区失败',
+    failedToUpdateWorkspace: '更新工作区失败',
+
+    // LLM tokens and cost
+    llmTokensAndCost: 'LLM 令牌与成本',
+    llmCalls: '调用次数',
+    promptTokens: '输入令牌',
+    completionTokens: '输出令牌',
+    cost: '成本',
+    allTime: '全部',
+    noLlmUsageYet: '该时间段内没有 LLM 调用记录。',
+    llmBySource: '按来源',
+    llmByModel: '按模型',
+    llmBySkill: '按技能',
+    llmByWorkflow: '按工作流',
+    llmBySession: '按智能体会话',
+    llmByUser: '按用户',
+    llmSourceWorkflowStep: '工作流步骤',
+    llmSourceAgent: '智能体轮次',
+    llmSourceAssistant: '工作流助手',
+    llmSourceModelTest: '模型测试',
+    llmBudgetSpent: '已使用 {spent}，每月 LLM 预算 {budget}',
+    llmSpendNoBudget: '本月 LLM 调用已花费 {spent}，未设置预算',
+    llmBudgetWarning: '该工作区即将用完本月 LLM 预算。',
+    llmBudgetExceeded: '该工作区已用完本月 LLM 预算。在下个月或管理员提高预算之前，新的运行和模型调用将被阻止。',
+    monthlyLlmBudget: '每月 LLM 预算（美元）',
+    budgetWarnPercent: '预算提醒百分比',
+    modelPrices: '模型价格',
+    modelPricesHint: '每百万令牌的美元价格。修改后仅影响之后记录的调用。',
+    inputPerMtok: '输入 / 百万',
+    outputPerMtok: '输出 / 百万',
+    priceSource: '来源',
+    priceSourceOverride: '自定义',
+    priceSourceDefault: '标价',
+    priceSourceFree: '免费',
+    priceSourceUnpriced: '未定价',
+    reset: '重置',
+
+    // Structured output
+    outputSchema: '输出 JSON Schema（可选）',
+    outputSchemaHelp: '设置后，模型必须返回符合该 Schema 的 JSON。不符合时会自动修复或重新请求，输出格式变为 JSON。',
+    outputSchemaMustBeObject: 'Schema 必须是 JSON 对象',
+    outputSchemaReferences: '后续步骤可引用：',
+    stepOutputPathsDesc: '设置了输出 Schema 的步骤会以路径形式公开其字段。在提示词中输入 {{step_ 即可选择。',
+
+    // Review analytics
+    reviewAnalytics: '评论分析',
+    reviewAnalyticsSubtitle: '基于已存储评论的评分与情感趋势、话题和购买动机',
+    failedToLoadReviewAnalytics: '加载评论分析失败',
+    tagWithAi: 'AI 标注',
+    reviewsTaggedSummary: '已使用 {model} 标注 {tagged} 条评论；还有 {remaining} 条未标注',
+    exportCsv: '导出 CSV',
+    exportXlsx: '导出 XLSX',
+    products: '产品',
+    product: '产品',
+    reviewProductFilterHint: '选择要关注的产品；选择多个即可对比。未选择时显示全部产品。',
+    byWeek: '按周',
+    byMonth: '按月',
+    noStoredReviewsYet: '暂无已存储的评论。运行评论监控步骤或提取评论即可开始收集。',
+    reviews: '评论',
+    ratings: '评分',
+    averageRating: '平均评分',
+    taggedReviews: '已标注评论',
+    positiveShare: '正面',
+    positive: '正面',
+    neutral: '中性',
+    negative: '负面',
+    sentiment: '情感',
+    ratingDistributionOverTime: '评分分布趋势',
+    sentimentOverTime: '情感趋势',
+    noTaggedReviewsYet: '暂无已标注的评论。使用“AI 标注”为评论标注情感、话题和动机。',
+    productComparison: '产品对比',
+    topTopics: '热门话题',
+    topicClusters: '话题',
+    purchaseMotivations: '购买动机',
+
     // Language
     language: '语言',
     english: 'English',
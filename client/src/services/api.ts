@@ -9,19 +9,72 @@ import {
   AIResponse,
   LoginRequest,
   LoginResponse,
+  UserIdentity,
   User,
+  UserAccount,
+  UserRole,
+  WorkspaceSummary,
+  WorkspaceDetail,
+  WorkspaceMember,
+  WorkspaceRole,
+  WorkspaceUsage,
+  Workspace,
+  AssetShare,
+  ShareableAssetType,
   ScrapingStatus,
   ManusTestResult,
   UsageStats,
   UsageHistoryItem,
   BillingReport,
   AdminUsageItem,
+  LlmUsagePeriod,
+  LlmUsageSummary,
+  LlmUsageRecord,
+  ModelPriceEntry,
+  WorkflowSchedule,
+  ScheduleRun,
+  CreateScheduleRequest,
+  CronPreview,
+  WorkflowWebhook,
+  WebhookInvocation,
+  CreateWebhookRequest,
+  SandboxConfig,
+  SandboxStatus,
+  SandboxAuditEntry,
+  ReviewSubmission,
+  AssignedReview,
+  ExecutionDiff,
+  SkillVersion,
+  SkillVersionSummary,
+  VersionDiff,
+  BundleImportResult,
+  SkillTestCase,
+  SkillTestCaseRequest,
+  SkillTestRun,
+  CreateEvaluationRequest,
+  Evaluation,
+  EvaluationReport,
+  EvaluationResult,
+  ExtractionPlatform,
+  ReviewRun,
+  ReviewRunDiff,
+  ReviewProduct,
+  ReviewAnalytics,
+  ReviewTagResult,
+  StoredReview,
 } from '../types';
 
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001/api';
+const STALE_WORKSPACE_ERROR = 'Not a member of this workspace';
 
 class ApiClient {
   private token: string | null = null;
+  private onUnauthorized: (() => void) | null = null;
+
+  // Called when the server rejects the stored token (expired or revoked)
+  setUnauthorizedHandler(handler: (() => void) | null) {
+    this.onUnauthorized = handler;
+  }
 
   setToken(token: string | null) {
     this.token = token;
@@ -39,6 +92,48 @@ class ApiClient {
     return this.token;
   }
 
+  // Active workspace, sent with every request; null falls back to the personal workspace
+  setWorkspaceId(workspaceId: number | null) {
+    if (workspaceId) {
+      localStorage.setItem('workspace_id', String(workspaceId));
+    } else {
+      localStorage.removeItem('workspace_id');
+    }
+  }
+
+  getWorkspaceId(): number | null {
+    const stored = localStorage.getItem('workspace_id');
+    return stored ? parseInt(stored, 10) : null;
+  }
+
+  private authHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {};
+    const token = this.getToken();
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    const workspaceId = this.getWorkspaceId();
+    if (workspaceId) headers['X-Workspace-Id'] = String(workspaceId);
+    return headers;
+  }
+
+  // Query string auth for EventSource, which cannot send headers
+  private streamAuthParams(): string {
+    const params = new URLSearchParams();
+    const token = this.getToken();
+    if (token) params.set('token', token);
+    const workspaceId = this.getWorkspaceId();
+    if (workspaceId) params.set('workspace', String(workspaceId));
+    return params.toString();
+  }
+
+  // "?a=1&b=2" from the set filters, or "" when none are set
+  private queryString(filters: Record<string, string | number | undefined>): string {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+    return params.toString() ? `?${params.toString()}` : '';
+  }
+
   private async request<T>(
     endpoint: string,
     options: RequestInit = {}
@@ -47,20 +142,29 @@ class ApiClient {
     const headers: HeadersInit = {
       'Content-Type': 'application/json',
       ...options.headers,
+      ...this.authHeaders(),
     };
 
     const token = this.getToken();
-    if (token) {
-      (headers as Record<string, string>)['Authorization'] = `Bearer ${token}`;
-    }
 
     const response = await fetch(url, {
       ...options,
       headers,
     });
 
+    if (response.status === 401 && token) {
+      this.setToken(null);
+      this.onUnauthorized?.();
+    }
+
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Request failed' }));
+      // The stored workspace is stale (left it, or another account signed in):
+      // fall back to the personal workspace and retry once
+      if (response.status === 403 && error.error === STALE_WORKSPACE_ERROR && this.getWorkspaceId()) {
+        this.setWorkspaceId(null);
+        return this.request<T>(endpoint, options);
+      }
       throw new Error(error.error || `HTTP error ${response.status}`);
     }
 
@@ -77,17 +181,126 @@ class ApiClient {
     return response;
   }
 
-  async logout(): Promise<void> {
-    await this.request<{ message: string }>('/auth/logout', {
+  async register(credentials: LoginRequest): Promise<LoginResponse> {
+    const response = await this.request<LoginResponse>('/auth/register', {
       method: 'POST',
+      body: JSON.stringify(credentials),
     });
-    this.setToken(null);
+    this.setToken(response.token);
+    return response;
+  }
+
+  async logout(): Promise<void> {
+    try {
+      await this.request<{ message: string }>('/auth/logout', {
+        method: 'POST',
+      });
+    } finally {
+      this.setToken(null);
+      this.setWorkspaceId(null);
+    }
   }
 
   async getCurrentUser(): Promise<{ user: User }> {
     return this.request<{ user: User }>('/auth/me');
   }
 
+  async getIdentities(): Promise<UserIdentity[]> {
+    return this.request<UserIdentity[]>('/auth/identities');
+  }
+
+  async createLinkCode(): Promise<{ code: string; expires_at: string }> {
+    return this.request('/auth/identities/link-code', { method: 'POST' });
+  }
+
+  async unlinkIdentity(id: number): Promise<{ success: boolean }> {
+    return this.request(`/auth/identities/${id}`, { method: 'DELETE' });
+  }
+
+  async getUsers(): Promise<UserAccount[]> {
+    return this.request<UserAccount[]>('/auth/users');
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<UserAccount> {
+    return this.request<UserAccount>(`/auth/users/${id}/role`, {
+      method: 'PUT',
+      body: JSON.stringify({ role }),
+    });
+  }
+
+  // Workspace endpoints
+  async getWorkspaces(): Promise<WorkspaceSummary[]> {
+    return this.request<WorkspaceSummary[]>('/workspaces');
+  }
+
+  async getAllWorkspaces(): Promise<Array<Pick<Workspace, 'id' | 'name'>>> {
+    return this.request('/workspaces/all');
+  }
+
+  async getWorkspace(id: number): Promise<WorkspaceDetail> {
+    return this.request<WorkspaceDetail>(`/workspaces/${id}`);
+  }
+
+  async createWorkspace(name: string, monthlyRequestQuota?: number | null): Promise<Workspace> {
+    return this.request<Workspace>('/workspaces', {
+      method: 'POST',
+      body: JSON.stringify({ name, monthly_request_quota: monthlyRequestQuota }),
+    });
+  }
+
+  async updateWorkspace(
+    id: number,
+    data: {
+      name?: string;
+      monthly_request_quota?: number | null;
+      monthly_budget_usd?: number | null;
+      budget_warn_percent?: number;
+    }
+  ): Promise<Workspace> {
+    return this.request<Workspace>(`/workspaces/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async addWorkspaceMember(id: number, email: string, role: WorkspaceRole = 'member'): Promise<WorkspaceMember> {
+    return this.request<WorkspaceMember>(`/workspaces/${id}/members`, {
+      method: 'POST',
+      body: JSON.stringify({ email, role }),
+    });
+  }
+
+  async updateWorkspaceMember(id: number, userId: number, role: WorkspaceRole): Promise<{ success: boolean }> {
+    return this.request(`/workspaces/${id}/members/${userId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ role }),
+    });
+  }
+
+  async removeWorkspaceMember(id: number, userId: number): Promise<{ success: boolean }> {
+    return this.request(`/workspaces/${id}/members/${userId}`, { method: 'DELETE' });
+  }
+
+  async getWorkspaceUsage(id: number): Promise<WorkspaceUsage> {
+    return this.request<WorkspaceUsage>(`/workspaces/${id}/usage`);
+  }
+
+  async getWorkspaceShares(id: number): Promise<AssetShare[]> {
+    return this.request<AssetShare[]>(`/workspaces/${id}/shares`);
+  }
+
+  // targetWorkspaceId null publishes the asset to every workspace
+  async shareAsset(assetType: ShareableAssetType, assetId: number, targetWorkspaceId: number | null): Promise<AssetShare> {
+    return this.request<AssetShare>('/workspaces/shares', {
+      method: 'POST',
+      body: JSON.stringify({ asset_type: assetType, asset_id: assetId, workspace_id: targetWorkspaceId }),
+    });
+  }
+
+  async unshareAsset(shareId: number): Promise<{ success: boolean }> {
+    return this.request(`/workspaces/shares/${shareId}`, { method: 'DELETE' });
+  }
+
   // Execution endpoints
   async getExecutions(): Promise<WorkflowExecution[]> {
     return this.request<WorkflowExecution[]>('/executions');
@@ -142,18 +355,24 @@ class ApiClient {
     });
   }
 
-  async approveStep(executionId: number, stepId: number): Promise<ExecutionResult> {
+  async approveStep(executionId: number, stepId: number, submission: ReviewSubmission = {}): Promise<ExecutionResult> {
     return this.request<ExecutionResult>(`/executions/${executionId}/steps/${stepId}/approve`, {
       method: 'POST',
+      body: JSON.stringify(submission),
     });
   }
 
-  async rejectStep(executionId: number, stepId: number): Promise<{ success: boolean }> {
+  async rejectStep(executionId: number, stepId: number, comment?: string): Promise<{ success: boolean }> {
     return this.request<{ success: boolean }>(`/executions/${executionId}/steps/${stepId}/reject`, {
       method: 'POST',
+      body: JSON.stringify({ comment }),
     });
   }
 
+  async getAssignedReviews(): Promise<AssignedReview[]> {
+    return this.request<AssignedReview[]>('/executions/reviews/assigned');
+  }
+
   async retryStep(
     executionId: number,
     stepId: number,
@@ -166,6 +385,25 @@ class ApiClient {
     });
   }
 
+  // Start a new run with the same inputs, reusing cached results for steps before fromStep
+  async rerunExecution(id: number, fromStep?: number): Promise<ExecutionResult> {
+    return this.request<ExecutionResult>(`/executions/${id}/rerun`, {
+      method: 'POST',
+      body: JSON.stringify({ from_step: fromStep }),
+    });
+  }
+
+  async forkExecution(id: number, stepOrder: number, content?: string): Promise<ExecutionResult> {
+    return this.request<ExecutionResult>(`/executions/${id}/fork`, {
+      method: 'POST',
+      body: JSON.stringify({ step_order: stepOrder, content }),
+    });
+  }
+
+  async getExecutionDiff(id: number): Promise<ExecutionDiff> {
+    return this.request<ExecutionDiff>(`/executions/${id}/diff`);
+  }
+
   async getExecutionStatus(id: number): Promise<ExecutionResult> {
     return this.request<ExecutionResult>(`/executions/${id}/status`);
   }
@@ -311,6 +549,35 @@ class ApiClient {
     return this.request<AdminUsageItem[]>('/usage/admin');
   }
 
+  async getLlmUsage(period: LlmUsagePeriod = 'month', scope?: 'me'): Promise<LlmUsageSummary> {
+    const params = new URLSearchParams({ period });
+    if (scope) params.set('scope', scope);
+    return this.request<LlmUsageSummary>(`/usage/llm?${params}`);
+  }
+
+  async getLlmUsageHistory(limit = 50, scope?: 'me'): Promise<LlmUsageRecord[]> {
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (scope) params.set('scope', scope);
+    return this.request<LlmUsageRecord[]>(`/usage/llm/history?${params}`);
+  }
+
+  async getModelPrices(): Promise<ModelPriceEntry[]> {
+    return this.request<ModelPriceEntry[]>('/usage/prices');
+  }
+
+  async setModelPrice(model: string, inputPerMtok: number, outputPerMtok: number): Promise<ModelPriceEntry> {
+    return this.request<ModelPriceEntry>(`/usage/prices/${encodeURIComponent(model)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ input_per_mtok: inputPerMtok, output_per_mtok: outputPerMtok }),
+    });
+  }
+
+  async clearModelPrice(model: string): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(`/usage/prices/${encodeURIComponent(model)}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Manus chat endpoints
   async startManusTask(prompt: string, urls?: string[]): Promise<{ taskId: string }> {
     return this.request<{ taskId: string }>('/manus/tasks', {
@@ -337,22 +604,31 @@ class ApiClient {
   }
 
   connectManusStream(taskId: string): EventSource {
-    const token = this.getToken();
-    const url = `${API_BASE_URL}/manus/tasks/${taskId}/stream${token ? `?token=${encodeURIComponent(token)}` : ''}`;
+    const params = this.streamAuthParams();
+    const url = `${API_BASE_URL}/manus/tasks/${taskId}/stream${params ? `?${params}` : ''}`;
     return new EventSource(url);
   }
 
   // Browser automation endpoints
-  async startBrowserTask(platform: string, urls: string[], maxReviews?: number): Promise<{ taskId: string; platform: string }> {
+  async getBrowserPlatforms(): Promise<ExtractionPlatform[]> {
+    return this.request<ExtractionPlatform[]>('/browser/platforms');
+  }
+
+  async startBrowserTask(
+    platform: string,
+    urls: string[],
+    maxReviews?: number,
+    incremental?: boolean
+  ): Promise<{ taskId: string; platform: string }> {
     return this.request<{ taskId: string; platform: string }>('/browser/tasks', {
       method: 'POST',
-      body: JSON.stringify({ platform, urls, maxReviews }),
+      body: JSON.stringify({ platform, urls, maxReviews, incremental }),
     });
   }
 
   connectBrowserStream(taskId: string): EventSource {
-    const token = this.getToken();
-    const url = `${API_BASE_URL}/browser/tasks/${taskId}/stream${token ? `?token=${encodeURIComponent(token)}` : ''}`;
+    const params = this.streamAuthParams();
+    const url = `${API_BASE_URL}/browser/tasks/${taskId}/stream${params ? `?${params}` : ''}`;
     return new EventSource(url);
   }
 
@@ -366,10 +642,64 @@ class ApiClient {
     return this.request<{ screenshot: string }>(`/browser/tasks/${taskId}/screenshot`);
   }
 
+  // Stored reviews and the runs that collected them
+  async getStoredReviews(params: { platform?: string; product?: string; limit?: number; offset?: number } = {}): Promise<StoredReview[]> {
+    return this.request<StoredReview[]>(`/reviews${this.queryString(params)}`);
+  }
+
+  async getReviewRuns(params: { platform?: string; product?: string; limit?: number } = {}): Promise<ReviewRun[]> {
+    return this.request<ReviewRun[]>(`/reviews/runs${this.queryString(params)}`);
+  }
+
+  async getReviewRunDiff(runId: number): Promise<ReviewRunDiff> {
+    return this.request<ReviewRunDiff>(`/reviews/runs/${runId}/diff`);
+  }
+
+  async getReviewProducts(): Promise<ReviewProduct[]> {
+    return this.request<ReviewProduct[]>('/reviews/products');
+  }
+
+  // Repeated ?product= params select the products to compare
+  private reviewAnalyticsQuery(params: { platform?: string; products?: string[]; interval?: 'week' | 'month'; format?: string }): string {
+    const query = new URLSearchParams();
+    (['platform', 'interval', 'format'] as const).forEach((key) => {
+      if (params[key]) query.set(key, params[key]!);
+    });
+    (params.products || []).forEach((product) => query.append('product', product));
+    return query.toString() ? `?${query.toString()}` : '';
+  }
+
+  async getReviewAnalytics(params: { platform?: string; products?: string[]; interval?: 'week' | 'month' } = {}): Promise<ReviewAnalytics> {
+    return this.request<ReviewAnalytics>(`/reviews/analytics${this.reviewAnalyticsQuery(params)}`);
+  }
+
+  async tagReviews(data: { platform?: string; productKeys?: string[]; model?: string; limit?: number } = {}): Promise<ReviewTagResult> {
+    return this.request<ReviewTagResult>('/reviews/tag', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async exportReviewAnalytics(
+    params: { platform?: string; products?: string[]; interval?: 'week' | 'month' },
+    format: 'csv' | 'xlsx'
+  ): Promise<{ filename: string; blob: Blob }> {
+    const response = await fetch(`${API_BASE_URL}/reviews/export${this.reviewAnalyticsQuery({ ...params, format })}`, {
+      headers: this.authHeaders(),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Request failed' }));
+      throw new Error(error.error || `HTTP error ${response.status}`);
+    }
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `reviews.${format}`;
+    return { filename, blob: await response.blob() };
+  }
+
   // Execution stream (unified chat SSE)
   connectExecutionStream(executionId: number): EventSource {
-    const token = this.getToken();
-    const url = `${API_BASE_URL}/executions/${executionId}/stream${token ? `?token=${encodeURIComponent(token)}` : ''}`;
+    const params = this.streamAuthParams();
+    const url = `${API_BASE_URL}/executions/${executionId}/stream${params ? `?${params}` : ''}`;
     return new EventSource(url);
   }
 
@@ -409,6 +739,70 @@ class ApiClient {
     return this.request(`/skills/${id}/clone`, { method: 'POST', body: JSON.stringify({ name }) });
   }
 
+  async getSkillVersions(id: number): Promise<SkillVersionSummary[]> {
+    return this.request(`/skills/${id}/versions`);
+  }
+
+  async getSkillVersion(id: number, version: number): Promise<SkillVersion> {
+    return this.request(`/skills/${id}/versions/${version}`);
+  }
+
+  async getSkillVersionDiff(id: number, version: number, against?: number): Promise<VersionDiff> {
+    const query = against !== undefined ? `?against=${against}` : '';
+    return this.request(`/skills/${id}/versions/${version}/diff${query}`);
+  }
+
+  async rollbackSkill(id: number, version: number): Promise<Omit<SkillVersion, 'steps'>> {
+    return this.request(`/skills/${id}/versions/${version}/rollback`, { method: 'POST' });
+  }
+
+  // Test cases of a skill/workflow, with the latest run against its current definition
+  async getSkillTests(
+    type: 'skill' | 'workflow',
+    id: number
+  ): Promise<{ cases: SkillTestCase[]; latest_run: SkillTestRun | null }> {
+    return this.request(`/${type}s/${id}/tests`);
+  }
+
+  async createSkillTest(type: 'skill' | 'workflow', id: number, data: SkillTestCaseRequest): Promise<SkillTestCase> {
+    return this.request(`/${type}s/${id}/tests`, { method: 'POST', body: JSON.stringify(data) });
+  }
+
+  async updateSkillTest(
+    type: 'skill' | 'workflow',
+    id: number,
+    caseId: number,
+    data: SkillTestCaseRequest
+  ): Promise<SkillTestCase> {
+    return this.request(`/${type}s/${id}/tests/${caseId}`, { method: 'PUT', body: JSON.stringify(data) });
+  }
+
+  async deleteSkillTest(type: 'skill' | 'workflow', id: number, caseId: number): Promise<{ success: boolean }> {
+    return this.request(`/${type}s/${id}/tests/${caseId}`, { method: 'DELETE' });
+  }
+
+  async runSkillTests(type: 'skill' | 'workflow', id: number): Promise<SkillTestRun> {
+    return this.request(`/${type}s/${id}/tests/run`, { method: 'POST' });
+  }
+
+  // Portable bundle of a skill/workflow, as the file the server names
+  async exportBundle(
+    type: 'skill' | 'workflow',
+    id: number,
+    format: 'json' | 'yaml' = 'json'
+  ): Promise<{ filename: string; content: string }> {
+    const response = await fetch(`${API_BASE_URL}/${type}s/${id}/export?format=${format}`, {
+      headers: this.authHeaders(),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Request failed' }));
+      throw new Error(error.error || `HTTP error ${response.status}`);
+    }
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `${type}-${id}.${format}`;
+    return { filename, content: await response.text() };
+  }
+
   // Workflow endpoints (new architecture)
   async getWorkflows(): Promise<WorkflowDefinition[]> {
     return this.request('/workflows');
@@ -434,6 +828,64 @@ class ApiClient {
     return this.request(`/workflows/${id}/clone`, { method: 'POST', body: JSON.stringify({ name }) });
   }
 
+  // Schedule endpoints
+  async getSchedules(): Promise<WorkflowSchedule[]> {
+    return this.request('/schedules');
+  }
+
+  async createSchedule(data: CreateScheduleRequest): Promise<WorkflowSchedule> {
+    return this.request('/schedules', { method: 'POST', body: JSON.stringify(data) });
+  }
+
+  async updateSchedule(id: number, data: Partial<CreateScheduleRequest>): Promise<WorkflowSchedule> {
+    return this.request(`/schedules/${id}`, { method: 'PUT', body: JSON.stringify(data) });
+  }
+
+  async deleteSchedule(id: number): Promise<{ success: boolean }> {
+    return this.request(`/schedules/${id}`, { method: 'DELETE' });
+  }
+
+  async runScheduleNow(id: number): Promise<ScheduleRun> {
+    return this.request(`/schedules/${id}/run`, { method: 'POST' });
+  }
+
+  async getScheduleRuns(id: number): Promise<ScheduleRun[]> {
+    return this.request(`/schedules/${id}/runs`);
+  }
+
+  async previewCron(expression: string, count = 5): Promise<CronPreview> {
+    return this.request(`/schedules/preview?expression=${encodeURIComponent(expression)}&count=${count}`);
+  }
+
+  // Webhook endpoints
+  getWebhookUrl(webhook: WorkflowWebhook): string {
+    return `${API_BASE_URL.replace('/api', '')}${webhook.url_path}`;
+  }
+
+  async getWebhooks(): Promise<WorkflowWebhook[]> {
+    return this.request('/webhooks');
+  }
+
+  async createWebhook(data: CreateWebhookRequest): Promise<WorkflowWebhook> {
+    return this.request('/webhooks', { method: 'POST', body: JSON.stringify(data) });
+  }
+
+  async updateWebhook(id: number, data: Partial<CreateWebhookRequest>): Promise<WorkflowWebhook> {
+    return this.request(`/webhooks/${id}`, { method: 'PUT', body: JSON.stringify(data) });
+  }
+
+  async deleteWebhook(id: number): Promise<{ success: boolean }> {
+    return this.request(`/webhooks/${id}`, { method: 'DELETE' });
+  }
+
+  async rotateWebhookSecret(id: number): Promise<WorkflowWebhook> {
+    return this.request(`/webhooks/${id}/rotate-secret`, { method: 'POST' });
+  }
+
+  async getWebhookInvocations(id: number): Promise<WebhookInvocation[]> {
+    return this.request(`/webhooks/${id}/invocations`);
+  }
+
   // Session endpoints
   async getSessions(): Promise<any[]> {
     return this.request('/sessions');
@@ -468,10 +920,23 @@ class ApiClient {
     return this.request(`/plugins/${name}`, { method: 'PUT', body: JSON.stringify(data) });
   }
 
-  async getAvailableModels(): Promise<Array<{ id: string; name: string; provider: string }>> {
+  async getAvailableModels(): Promise<AIModel[]> {
     return this.request('/plugins/models');
   }
 
+  // Sandbox endpoints
+  async getSandboxConfig(): Promise<SandboxStatus> {
+    return this.request('/sandbox/config');
+  }
+
+  async updateSandboxConfig(config: Partial<SandboxConfig>): Promise<SandboxStatus> {
+    return this.request('/sandbox/config', { method: 'PUT', body: JSON.stringify(config) });
+  }
+
+  async getSandboxAudit(limit = 50): Promise<SandboxAuditEntry[]> {
+    return this.request(`/sandbox/audit?limit=${limit}`);
+  }
+
   // Agent config endpoints
   async getAgents(): Promise<any[]> {
     return this.request('/agents');
@@ -510,6 +975,53 @@ class ApiClient {
     return this.request(`/skills/drafts/${id}/reject`, { method: 'POST' });
   }
 
+  async runSkillDraftTests(id: number): Promise<SkillTestRun> {
+    return this.request(`/skills/drafts/${id}/tests/run`, { method: 'POST' });
+  }
+
+  // Validation errors for each step are listed after the message
+  async importBundle(bundle: string, asNew = false): Promise<BundleImportResult> {
+    const response = await fetch(`${API_BASE_URL}/skills/drafts/import`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      body: JSON.stringify({ bundle, as_new: asNew }),
+    });
+    const data = await response.json().catch(() => ({ error: 'Request failed' }));
+    if (!response.ok) {
+      const details: string[] = Array.isArray(data.errors) ? data.errors : [];
+      throw new Error([data.error || `HTTP error ${response.status}`, ...details].join('\n'));
+    }
+    return data;
+  }
+
+  // Evaluation endpoints
+  async getEvaluations(): Promise<Evaluation[]> {
+    return this.request('/evaluations');
+  }
+
+  async getEvaluation(id: number): Promise<EvaluationReport> {
+    return this.request(`/evaluations/${id}`);
+  }
+
+  async createEvaluation(data: CreateEvaluationRequest): Promise<Evaluation> {
+    return this.request('/evaluations', { method: 'POST', body: JSON.stringify(data) });
+  }
+
+  async runEvaluation(id: number): Promise<EvaluationReport> {
+    return this.request(`/evaluations/${id}/run`, { method: 'POST' });
+  }
+
+  async scoreEvaluationResult(id: number, resultId: number, score: number | null): Promise<EvaluationResult> {
+    return this.request(`/evaluations/${id}/results/${resultId}/score`, {
+      method: 'PUT',
+      body: JSON.stringify({ score }),
+    });
+  }
+
+  async deleteEvaluation(id: number): Promise<{ success: boolean }> {
+    return this.request(`/evaluations/${id}`, { method: 'DELETE' });
+  }
+
   // Web channel endpoints (for AgentChat)
   async sendAgentMessage(
     sessionId: string,
@@ -521,7 +1033,7 @@ class ApiClient {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        ...(this.getToken() ? { Authorization: `Bearer ${this.getToken()}` } : {}),
+        ...this.authHeaders(),
       },
       body: JSON.stringify({ sessionId, text, attachments }),
     });
@@ -530,8 +1042,8 @@ class ApiClient {
 
   connectAgentStream(sessionId: string): EventSource {
     const channelBase = API_BASE_URL.replace('/api', '');
-    const token = this.getToken();
-    const url = `${channelBase}/channels/channel-web/stream?sessionId=${sessionId}${token ? `&token=${encodeURIComponent(token)}` : ''}`;
+    const params = this.streamAuthParams();
+    const url = `${channelBase}/channels/channel-web/stream?sessionId=${sessionId}${params ? `&${params}` : ''}`;
     return new EventSource(url);
   }
 
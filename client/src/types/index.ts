@@ -1,16 +1,91 @@
 // User types
+export type UserRole = 'admin' | 'builder' | 'operator' | 'viewer';
+
+export type Permission =
+  | 'assets:run'
+  | 'assets:run_draft'
+  | 'assets:write'
+  | 'drafts:review'
+  | 'system:configure'
+  | 'sessions:manage'
+  | 'users:manage';
+
 export interface User {
   id: number;
   email: string;
+  role: UserRole;
+  permissions: Permission[];
+  created_at: string;
+}
+
+export interface UserAccount {
+  id: number;
+  email: string;
+  role: UserRole;
   created_at: string;
 }
 
+// Workspace types
+export type WorkspaceRole = 'admin' | 'member';
+
+export type ShareableAssetType = 'skill' | 'workflow' | 'standard';
+
+export interface Workspace {
+  id: number;
+  name: string;
+  monthly_request_quota: number | null;
+  monthly_budget_usd: number | null;
+  budget_warn_percent: number;
+  created_by: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkspaceSummary extends Workspace {
+  role: WorkspaceRole;
+  member_count: number;
+  budget_state: BudgetState;
+}
+
+export interface WorkspaceMember {
+  workspace_id: number;
+  user_id: number;
+  email: string;
+  role: WorkspaceRole;
+  created_at: string;
+}
+
+export interface WorkspaceDetail extends Workspace {
+  role: WorkspaceRole | null;
+  members: WorkspaceMember[];
+}
+
+export interface AssetShare {
+  id: number;
+  asset_type: ShareableAssetType;
+  asset_id: number;
+  asset_name?: string | null;
+  workspace_id: number | null; // null = published to every workspace
+  workspace_name?: string | null;
+  shared_by: number | null;
+  created_at: string;
+}
+
+export interface WorkspaceUsage {
+  monthly_request_quota: number | null;
+  month_requests: number;
+  by_service: Record<string, number>;
+  by_member: Array<{ user_id: number; email: string; requests: number }>;
+  budget: BudgetStatus;
+}
+
 // Workflow/Skill graph types
 export interface WorkflowDefinition {
   id: number;
   name: string;
   description?: string;
   created_by: number;
+  workspace_id?: number | null;
   is_template?: boolean;
   created_at: string;
   updated_at: string;
@@ -19,7 +94,7 @@ export interface WorkflowDefinition {
   required_inputs?: string[];
 }
 
-export type StepType = 'ai' | 'scraping' | 'manus' | 'script' | 'browser' | 'http' | 'transform' | string;
+export type StepType = 'ai' | 'scraping' | 'manus' | 'script' | 'browser' | 'http' | 'transform' | 'condition' | 'parallel' | 'foreach' | 'approval' | 'ask_user' | 'skill' | string;
 
 export interface WorkflowStep {
   id?: number;
@@ -73,6 +148,7 @@ export interface TemplateInputConfig {
 export interface CompanyStandard {
   id: number;
   user_id: number;
+  workspace_id?: number | null;
   standard_type: 'voice' | 'platform' | 'image';
   name: string;
   content: any;
@@ -102,7 +178,7 @@ export interface ImageStandardContent {
 
 // Workflow Execution types
 export type ExecutionStatus = 'pending' | 'running' | 'paused' | 'completed' | 'failed';
-export type StepExecutionStatus = 'pending' | 'running' | 'completed' | 'failed' | 'awaiting_review';
+export type StepExecutionStatus = 'pending' | 'running' | 'completed' | 'failed' | 'awaiting_review' | 'skipped';
 
 export interface WorkflowExecution {
   id: number;
@@ -111,6 +187,19 @@ export interface WorkflowExecution {
   status: ExecutionStatus;
   current_step: number;
   input_data?: Record<string, any>;
+  status_reason?: string | null;
+  // Steps before this one were served from the result cache
+  replay_from_step?: number | null;
+  // Forks copy another run's results up to forked_from_step and re-run the rest
+  forked_from_id?: number | null;
+  forked_from_step?: number | null;
+  // Child runs started by a `skill` step of another execution
+  parent_execution_id?: number | null;
+  parent_step_execution_id?: number | null;
+  parent_step_order?: number | null;
+  // Version of the skill/workflow this run executed
+  skill_version_id?: number | null;
+  skill_version?: number | null;
   started_at?: string;
   completed_at?: string;
   created_at: string;
@@ -136,14 +225,303 @@ export interface StepExecution {
       completionTokens: number;
     };
     generatedImages?: GeneratedImage[];
+    cached?: boolean;
+    cachedAt?: string;
+    // Set while a human step waits for its reviewer
+    review?: ReviewRequest;
+    // Reviewer who replaced the output
+    edited_by?: number;
   };
   ai_model_used?: string;
   ai_model?: string;
   prompt_used?: string;
   approved: boolean;
   error_message?: string;
+  attempts?: StepAttempt[];
   executed_at?: string;
   step_name?: string;
+  step_type?: StepType;
+  assigned_to?: number | null;
+  assignee_email?: string | null;
+  review_due_at?: string | null;
+  escalation_count?: number;
+  // Nested run started by a `skill` step
+  child_execution_id?: number | null;
+}
+
+// Human step types: approval gates and ask-user forms
+export type ReviewKind = 'approval' | 'ask_user';
+
+export interface ReviewFormField {
+  type: 'text' | 'textarea' | 'image' | 'url_list' | 'file';
+  label?: string;
+  placeholder?: string;
+  description?: string;
+  required?: boolean;
+}
+
+// What a paused human step asks for
+export interface ReviewRequest {
+  kind: ReviewKind;
+  instructions: string;
+  fields: Record<string, ReviewFormField>;
+  allow_edit_previous: boolean;
+  previous_step_order?: number;
+  previous_output?: string;
+  assignee_id?: number | null;
+  timeout_minutes?: number | null;
+  escalate_to_id?: number | null;
+  on_timeout: 'approve' | 'reject';
+}
+
+export interface ReviewSubmission {
+  values?: Record<string, any>;
+  previous_output?: string;
+  comment?: string;
+}
+
+// A human step waiting on the current user
+export interface AssignedReview {
+  step_execution_id: number;
+  execution_id: number;
+  step_order: number;
+  review_due_at: string | null;
+  recipe_name: string | null;
+  requested_by: string | null;
+  kind: ReviewKind;
+}
+
+// A fork's step outputs compared with its original run
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface StepOutputDiff {
+  step_order: number;
+  step_name: string;
+  original_status: StepExecutionStatus | null;
+  forked_status: StepExecutionStatus | null;
+  changed: boolean;
+  edited: boolean;
+  lines: DiffLine[];
+}
+
+export interface ExecutionDiff {
+  execution_id: number;
+  forked_from_id: number;
+  forked_from_step: number;
+  steps: StepOutputDiff[];
+}
+
+// Immutable snapshots of a skill or workflow definition
+export type SkillVersionSource = 'create' | 'edit' | 'draft' | 'rollback' | 'run';
+
+export interface SkillVersionSummary {
+  id: number;
+  parent_type: 'skill' | 'workflow';
+  parent_id: number;
+  version: number;
+  name: string;
+  description: string | null;
+  source: SkillVersionSource;
+  note: string | null;
+  created_by: number | null;
+  created_by_email: string | null;
+  created_at: string;
+  step_count: number;
+}
+
+export interface VersionStep {
+  step_order: number;
+  step_name: string;
+  step_type: string;
+  ai_model: string | null;
+  prompt_template: string;
+  input_config: string;
+  output_format: string;
+  model_config: string;
+  executor_config: string;
+}
+
+export interface SkillVersion extends Omit<SkillVersionSummary, 'step_count' | 'created_by_email'> {
+  steps: VersionStep[];
+}
+
+export interface VersionFieldDiff {
+  field: keyof VersionStep;
+  before: string;
+  after: string;
+  lines: DiffLine[];
+}
+
+export interface VersionStepDiff {
+  step_order: number;
+  step_name: string;
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+  fields: VersionFieldDiff[];
+}
+
+export interface VersionDiff {
+  parent_type: 'skill' | 'workflow';
+  parent_id: number;
+  from_version: number;
+  to_version: number;
+  name: { before: string; after: string } | null;
+  description: { before: string; after: string } | null;
+  steps: VersionStepDiff[];
+}
+
+// Result of importing a skill/workflow bundle as drafts
+export interface BundleImportResult {
+  drafts: Array<{ id: number; ref: string; type: 'skill' | 'workflow'; name: string; original_skill_id: number | null }>;
+  reused: Array<{ ref: string; type: 'skill' | 'workflow'; id: number; name: string }>;
+  standards: Array<{ ref: string; name: string; id: number | null; action: 'reused' | 'create_on_approval' }>;
+  warnings: string[];
+}
+
+export type SkillTestAssertionType = 'contains' | 'regex' | 'json_schema' | 'field_equals' | 'llm_rubric';
+
+// A check on one step's output (the last step's by default)
+export interface SkillTestAssertion {
+  type: SkillTestAssertionType;
+  step?: number;
+  value?: string;
+  flags?: string;
+  path?: string;
+  expected?: unknown;
+  schema?: Record<string, any>;
+  model?: string;
+}
+
+// Golden inputs for a skill/workflow and what its output must satisfy
+export interface SkillTestCase {
+  id: number;
+  parent_type: 'skill' | 'workflow';
+  parent_id: number;
+  name: string;
+  inputs: Record<string, any>;
+  assertions: SkillTestAssertion[];
+  stubs: Record<string, string>; // step number -> canned output
+  mock_ai: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SkillTestCaseResult {
+  case_id: number;
+  name: string;
+  status: 'passed' | 'failed' | 'error';
+  execution_id: number | null;
+  error?: string;
+  assertions: Array<{ type: SkillTestAssertionType; step: number | null; passed: boolean; message: string }>;
+}
+
+// A run of every test case, against a draft or the current definition
+export interface SkillTestRun {
+  id: number;
+  parent_type: 'skill' | 'workflow';
+  parent_id: number;
+  draft_id: number | null;
+  status: 'running' | 'passed' | 'failed';
+  passed: number;
+  failed: number;
+  results: SkillTestCaseResult[];
+  created_at: string;
+  completed_at: string | null;
+}
+
+export type SkillTestCaseRequest = Pick<SkillTestCase, 'name' | 'inputs' | 'assertions' | 'stubs' | 'mock_ai'>;
+
+export interface EvaluationVariant {
+  label: string;
+  model: string;
+  prompt_template?: string | null;
+}
+
+// A matrix of model/prompt variants run over a dataset, on one step or a whole skill/workflow
+export interface Evaluation {
+  id: number;
+  name: string;
+  parent_type: 'skill' | 'workflow';
+  parent_id: number;
+  step_order: number | null;
+  variants: EvaluationVariant[];
+  dataset: Array<Record<string, any>>;
+  judge: { model: string; rubric: string } | null;
+  status: 'draft' | 'running' | 'completed' | 'failed';
+  created_by_email?: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+// One cell of the grid: a variant run on a dataset row
+export interface EvaluationResult {
+  id: number;
+  variant_index: number;
+  row_index: number;
+  status: 'pending' | 'completed' | 'failed';
+  output: string | null;
+  error: string | null;
+  latency_ms: number | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  cost_usd: number | null;
+  execution_id: number | null;
+  judge_score: number | null;
+  judge_reason: string | null;
+  human_score: number | null;
+}
+
+export interface EvaluationVariantSummary {
+  variant_index: number;
+  label: string;
+  model: string;
+  completed: number;
+  failed: number;
+  avg_latency_ms: number | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+  avg_judge_score: number | null;
+  avg_human_score: number | null;
+}
+
+export interface EvaluationReport {
+  evaluation: Evaluation;
+  results: EvaluationResult[];
+  summary: EvaluationVariantSummary[];
+}
+
+export type CreateEvaluationRequest = Pick<Evaluation, 'name' | 'parent_type' | 'parent_id' | 'step_order' | 'variants' | 'dataset' | 'judge'>;
+
+export type StepErrorClass = 'rate_limit' | 'timeout' | 'network' | 'server' | 'auth' | 'other';
+
+// One try of a step under its retry policy
+export interface StepAttempt {
+  attempt: number;
+  model?: string;
+  status: 'succeeded' | 'failed';
+  error?: string;
+  error_class?: StepErrorClass;
+  started_at: string;
+  finished_at: string;
+}
+
+// Step result cache settings stored in executor_config.cache
+export interface StepCachePolicy {
+  enabled?: boolean;
+  ttl_seconds?: number;
+}
+
+// Step retry policy stored in executor_config.retry
+export interface StepRetryPolicy {
+  max_attempts?: number;
+  backoff_ms?: number;
+  backoff_multiplier?: number;
+  max_backoff_ms?: number;
+  retry_on?: StepErrorClass[];
 }
 
 export interface ExecutionResult {
@@ -165,16 +543,20 @@ export interface StepExecutionResult {
 }
 
 // AI types
-export type AIProvider = 'openai' | 'anthropic' | 'google' | 'mock';
+// Provider id reported by a provider plugin, e.g. 'openai', 'anthropic', 'google', 'mock'
+export type AIProvider = string;
 
 export interface AIModel {
   id: string;
   name: string;
   provider: AIProvider;
+  plugin: string;
   maxTokens: number;
   available?: boolean;
   supportsVision?: boolean;
   supportsImageGeneration?: boolean;
+  supportsTools?: boolean;
+  supportsStructuredOutput?: boolean;
 }
 
 export interface AIProvider_Status {
@@ -214,7 +596,15 @@ export interface LoginRequest {
 export interface LoginResponse {
   user: User;
   token: string;
-  message: string;
+  expires_at: string;
+}
+
+export interface UserIdentity {
+  id: number;
+  user_id: number;
+  provider: string;
+  external_id: string;
+  created_at: string;
 }
 
 // Manus AI scraping types
@@ -274,7 +664,8 @@ export interface BrowserStreamEvent {
 export type ExecutionChatMessageType =
   | 'step-start' | 'progress' | 'agent-message' | 'user-message'
   | 'step-output' | 'step-error' | 'action-required'
-  | 'step-approved' | 'step-rejected' | 'execution-complete';
+  | 'step-approved' | 'step-rejected' | 'step-skipped' | 'step-retry' | 'execution-recovered'
+  | 'execution-complete';
 
 export interface ExecutionChatMessage {
   id: string;
@@ -291,16 +682,146 @@ export interface ExecutionChatMessage {
     files?: ManusFile[];
     usage?: { promptTokens: number; completionTokens: number };
     model?: string;
-    actionType?: 'approve' | 'captcha' | 'take-control';
+    actionType?: 'approve' | 'form' | 'captcha' | 'take-control';
     debuggerUrl?: string;
     isJson?: boolean;
+    // Served from the step result cache instead of re-running
+    cached?: boolean;
+    cachedAt?: string;
+    review?: ReviewRequest;
+    // Output replaced by a reviewer
+    edited?: boolean;
+    assignedTo?: number | null;
+    dueAt?: string | null;
+    // Nested run started by a `skill` step
+    childExecutionId?: number;
     stepExecutionId?: number;
+    itemIndex?: number;
+    attempt?: number;
+    errorClass?: StepErrorClass;
+    delayMs?: number;
   };
   timestamp: string;
 }
 
 // Review display types (used by ReviewDataViewer)
-export type ScrapingPlatform = 'amazon' | 'walmart' | 'wayfair';
+export type ScrapingPlatform = 'amazon' | 'walmart' | 'wayfair' | 'etsy' | 'homedepot' | 'shopify';
+
+// A review platform browser tasks can extract from (GET /api/browser/platforms)
+export interface ExtractionPlatform {
+  platform: string;
+  displayName: string;
+}
+
+// A review in the shape every extraction platform reports
+export interface NormalizedReview {
+  platform: string;
+  reviewId: string;
+  rating: number | null;
+  title: string;
+  body: string;
+  date: string;
+  author: string;
+  variant: string;
+  images: string[];
+  verified: boolean;
+}
+
+// A review kept in the workspace's review history (GET /api/reviews)
+export interface StoredReview extends NormalizedReview {
+  productKey: string;
+  productUrl: string | null;
+  productName: string | null;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  changedAt: string | null;
+}
+
+// One product's extraction; new/updated counts are relative to earlier runs
+export interface ReviewRun {
+  id: number;
+  workspace_id: number;
+  platform: string;
+  product_key: string;
+  product_url: string;
+  product_name: string | null;
+  incremental: number;
+  reviews_seen: number;
+  new_count: number;
+  updated_count: number;
+  execution_id: number | null;
+  created_by: number | null;
+  created_at: string;
+}
+
+export interface ReviewRunDiff {
+  run: ReviewRun;
+  newReviews: NormalizedReview[];
+  updatedReviews: NormalizedReview[];
+}
+
+export type ReviewSentiment = 'positive' | 'neutral' | 'negative';
+export type ReviewRatingCounts = Record<'1' | '2' | '3' | '4' | '5', number>;
+export type ReviewSentimentCounts = Record<ReviewSentiment, number>;
+
+export interface ReviewProduct {
+  platform: string;
+  productKey: string;
+  productName: string | null;
+  productUrl: string | null;
+  reviewCount: number;
+  averageRating: number | null;
+  lastSeenAt: string;
+}
+
+export interface ReviewProductSummary {
+  platform: string;
+  productKey: string;
+  productName: string | null;
+  productUrl: string | null;
+  reviewCount: number;
+  taggedCount: number;
+  averageRating: number | null;
+  ratingCounts: ReviewRatingCounts;
+  sentimentCounts: ReviewSentimentCounts;
+  topTopics: Array<{ topic: string; count: number; share: number }>;
+}
+
+export interface ReviewTrendPoint {
+  period: string;
+  reviewCount: number;
+  averageRating: number | null;
+  ratingCounts: ReviewRatingCounts;
+  sentimentCounts: ReviewSentimentCounts;
+  byProduct: Record<string, { reviewCount: number; averageRating: number | null }>;
+}
+
+export interface ReviewTopicCluster {
+  topic: string;
+  variants: string[];
+  count: number;
+  share: number;
+  averageRating: number | null;
+  sentimentCounts: ReviewSentimentCounts;
+  examples: Array<{ quote: string; rating: number | null; sentiment: ReviewSentiment; productKey: string; date: string }>;
+}
+
+export interface ReviewAnalytics {
+  interval: 'week' | 'month';
+  reviewCount: number;
+  taggedCount: number;
+  products: ReviewProductSummary[];
+  trend: ReviewTrendPoint[];
+  topics: ReviewTopicCluster[];
+  motivations: Array<{ motivation: string; count: number; share: number }>;
+}
+
+export interface ReviewTagResult {
+  model: string;
+  tagged: number;
+  failed: number;
+  remaining: number;
+}
 
 export interface ReviewData {
   id: string;
@@ -356,3 +877,201 @@ export interface AdminUsageItem {
   total_records: number;
   last_used: string;
 }
+
+// LLM token and cost accounting
+export type LlmUsageSource = 'workflow_step' | 'agent' | 'assistant' | 'model_test';
+export type LlmUsagePeriod = 'today' | 'week' | 'month' | 'all';
+export type BudgetState = 'none' | 'ok' | 'warning' | 'exceeded';
+
+export interface LlmUsageTotals {
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+}
+
+export interface BudgetStatus {
+  monthly_budget_usd: number | null;
+  budget_warn_percent: number;
+  month_cost_usd: number;
+  state: BudgetState;
+}
+
+export interface LlmUsageSummary {
+  period: LlmUsagePeriod;
+  totals: LlmUsageTotals;
+  by_source: Array<LlmUsageTotals & { source: LlmUsageSource }>;
+  by_model: Array<LlmUsageTotals & { model: string; provider: string }>;
+  by_user: Array<LlmUsageTotals & { user_id: number; email: string }>;
+  by_skill: Array<LlmUsageTotals & { skill_id: number; name: string | null }>;
+  by_workflow: Array<LlmUsageTotals & { workflow_id: number; name: string | null }>;
+  by_session: Array<LlmUsageTotals & { session_id: string }>;
+  budget: BudgetStatus | null;
+}
+
+export interface LlmUsageRecord {
+  id: number;
+  user_id: number;
+  source: LlmUsageSource;
+  provider: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+  estimated: number;
+  execution_id: number | null;
+  skill_id: number | null;
+  workflow_id: number | null;
+  session_id: string | null;
+  created_at: string;
+}
+
+export interface ModelPriceEntry {
+  model: string;
+  provider: string;
+  input_per_mtok: number;
+  output_per_mtok: number;
+  source: 'override' | 'default' | 'free' | 'unpriced';
+}
+
+// Schedule types
+export type ScheduleOutputChannel = 'none' | 'web' | 'lark';
+export type ScheduleRunStatus = 'running' | 'awaiting_review' | 'completed' | 'failed';
+
+export interface ScheduleRun {
+  id: number;
+  schedule_id: number;
+  execution_id: number | null;
+  trigger_type: 'schedule' | 'manual';
+  status: ScheduleRunStatus;
+  error_message: string | null;
+  delivery_status: 'pending' | 'sent' | 'skipped' | 'failed';
+  started_at: string;
+  finished_at: string | null;
+  execution_status?: ExecutionStatus | null;
+}
+
+export interface WorkflowSchedule {
+  id: number;
+  name: string;
+  parent_type: 'skill' | 'workflow';
+  parent_id: number;
+  parent_name: string | null;
+  cron_expression: string;
+  input_data: Record<string, any>;
+  output_channel: ScheduleOutputChannel;
+  output_channel_id: string | null;
+  auto_approve: boolean;
+  enabled: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_run: ScheduleRun | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateScheduleRequest {
+  name: string;
+  parent_type: 'skill' | 'workflow';
+  parent_id: number;
+  cron_expression: string;
+  input_data?: Record<string, any>;
+  output_channel?: ScheduleOutputChannel;
+  output_channel_id?: string | null;
+  auto_approve?: boolean;
+  enabled?: boolean;
+}
+
+export interface CronPreview {
+  valid: boolean;
+  error?: string;
+  next_runs: string[];
+}
+
+// Webhook types
+export type WebhookResponseMode = 'async' | 'sync';
+export type WebhookInvocationStatus = 'rejected' | 'running' | 'awaiting_review' | 'completed' | 'failed' | 'timed_out';
+
+export interface WebhookInvocation {
+  id: number;
+  webhook_id: number;
+  execution_id: number | null;
+  status: WebhookInvocationStatus;
+  payload?: string | null;
+  error_message: string | null;
+  callback_status: 'none' | 'pending' | 'sent' | 'failed';
+  received_at: string;
+  finished_at: string | null;
+}
+
+export interface WorkflowWebhook {
+  id: number;
+  name: string;
+  parent_type: 'skill' | 'workflow';
+  parent_id: number;
+  parent_name: string | null;
+  token: string;
+  secret: string;
+  url_path: string;
+  field_mapping: Record<string, string>;
+  static_inputs: Record<string, any>;
+  response_mode: WebhookResponseMode;
+  callback_url: string | null;
+  sync_timeout_seconds: number;
+  auto_approve: boolean;
+  enabled: boolean;
+  last_triggered_at: string | null;
+  last_invocation: WebhookInvocation | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateWebhookRequest {
+  name: string;
+  parent_type: 'skill' | 'workflow';
+  parent_id: number;
+  field_mapping?: Record<string, string>;
+  static_inputs?: Record<string, any>;
+  response_mode?: WebhookResponseMode;
+  callback_url?: string | null;
+  sync_timeout_seconds?: number;
+  auto_approve?: boolean;
+  enabled?: boolean;
+}
+
+// Sandbox types
+export interface SandboxConfig {
+  allowNetwork: boolean;
+  allowedPaths: string[];
+  writablePaths: string[];
+  timeoutMs: number;
+  maxCpuSeconds: number;
+  maxMemoryMb: number;
+  maxOutputBytes: number;
+  allowedEnv: string[];
+  requireIsolation: boolean;
+}
+
+export interface SandboxStatus {
+  config: SandboxConfig;
+  defaults: SandboxConfig;
+  isolationAvailable: boolean;
+  runMode: 'isolated' | 'unisolated' | 'blocked';
+}
+
+export interface SandboxAuditEntry {
+  id: number;
+  source: 'script' | 'bash';
+  command: string;
+  user_id: number | null;
+  execution_id: number | null;
+  session_id: string | null;
+  status: 'completed' | 'failed' | 'timed_out' | 'denied';
+  exit_code: number | null;
+  isolation: 'namespace' | 'none';
+  network_allowed: number;
+  output_truncated: number;
+  duration_ms: number | null;
+  error_message: string | null;
+  created_at: string;
+}
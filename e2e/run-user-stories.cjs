@@ -13,6 +13,9 @@ const DOC_PATH = process.env.STORY_DOC_PATH
   : path.join(process.cwd(), 'docs', 'user-stories-web-tests.md');
 const ARTIFACT_DIR = path.join(process.cwd(), 'e2e', 'artifacts');
 const FIXTURE_DIR = path.join(process.cwd(), 'e2e', 'fixtures');
+// The server must be started with the same DEMO_USER_PASSWORD
+const DEMO_EMAIL = 'demo@novohaven.com';
+const DEMO_PASSWORD = process.env.DEMO_USER_PASSWORD || '';
 const selectedIds = (() => {
   const raw = process.env.STORY_IDS || '';
   const ids = raw
@@ -33,11 +36,14 @@ const state = {
 };
 
 const results = [];
+let authToken = null;
 
 async function api(method, route, body) {
+  const headers = { 'Content-Type': 'application/json' };
+  if (authToken) headers.Authorization = `Bearer ${authToken}`;
   const res = await fetch(`${API_URL}${route}`, {
     method,
-    headers: { 'Content-Type': 'application/json' },
+    headers,
     body: body ? JSON.stringify(body) : undefined,
   });
   const text = await res.text();
@@ -53,6 +59,12 @@ async function api(method, route, body) {
   return json;
 }
 
+async function signIn() {
+  if (!DEMO_PASSWORD) throw new Error('Set DEMO_USER_PASSWORD to the password the server was started with.');
+  const { token } = await api('POST', '/auth/login', { email: DEMO_EMAIL, password: DEMO_PASSWORD });
+  authToken = token;
+}
+
 async function ensureDirs() {
   await fs.mkdir(ARTIFACT_DIR, { recursive: true });
   await fs.mkdir(FIXTURE_DIR, { recursive: true });
@@ -459,8 +471,13 @@ async function main() {
   await waitForUrlHealth(`${API_URL}/health`);
   await waitForUrlHealth(BASE_URL);
 
+  await signIn();
+
   const browser = await chromium.launch({ headless: true });
   const context = await browser.newContext({ viewport: { width: 1600, height: 1000 } });
+  await context.addInitScript((token) => {
+    window.localStorage.setItem('auth_token', token);
+  }, authToken);
   const page = await context.newPage();
 
   try {
@@ -875,13 +892,21 @@ async function main() {
       return 'Anthropic/Google/Kimi/OpenAI provider conformance tests passed under Jest.';
     });
 
-    await runStory(page, 'HP-01', 'Auto-auth dashboard loads', async () => {
-      await page.goto(`${BASE_URL}/`, { waitUntil: 'domcontentloaded' });
-      await page.getByText('NovoHaven').first().waitFor({ timeout: 10000 });
-      await page.getByText('demo@novohaven.com').first().waitFor({ timeout: 10000 });
-      const hasPassword = await page.locator('input[type="password"]').count();
-      if (hasPassword > 0) throw new Error('Password input was visible, expected auto-authenticated app shell.');
-      return 'Sidebar brand and demo user were visible; no login form shown.';
+    await runStory(page, 'HP-01', 'Sign in loads dashboard', async () => {
+      const guestContext = await browser.newContext({ viewport: { width: 1600, height: 1000 } });
+      try {
+        const guest = await guestContext.newPage();
+        await guest.goto(`${BASE_URL}/`, { waitUntil: 'domcontentloaded' });
+        await guest.locator('input[type="password"]').waitFor({ timeout: 10000 });
+        await guest.locator('input[type="email"]').fill(DEMO_EMAIL);
+        await guest.locator('input[type="password"]').fill(DEMO_PASSWORD);
+        await guest.locator('form button[type="submit"]').click();
+        await guest.getByText('NovoHaven').first().waitFor({ timeout: 10000 });
+        await guest.getByText(DEMO_EMAIL).first().waitFor({ timeout: 10000 });
+      } finally {
+        await guestContext.close();
+      }
+      return 'Login form was shown; after signing in the sidebar brand and demo user were visible.';
     });
 
     await runStory(page, 'HP-02', 'Language toggle persistence', async () => {
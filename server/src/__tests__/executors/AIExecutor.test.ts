@@ -326,8 +326,17 @@ describe('AIExecutor', () => {
       const result = await executor.execute(mockStep, mockContext);
 
       expect(result.success).toBe(true);
-      // Should fall back to empty config
-      expect(mockCallAI).toHaveBeenCalledWith('gpt-4o', 'prompt', {});
+      // Should fall back to empty config, plus the usage attribution
+      expect(mockCallAI).toHaveBeenCalledWith('gpt-4o', 'prompt', {
+        usage: {
+          userId: 1,
+          workspaceId: undefined,
+          source: 'workflow_step',
+          executionId: 1,
+          skillId: undefined,
+          workflowId: undefined,
+        },
+      });
     });
 
     test('passes images from compiled prompt to model config', async () => {
@@ -392,6 +401,57 @@ describe('AIExecutor', () => {
     });
   });
 
+  describe('structured output', () => {
+    const schema = {
+      type: 'object',
+      required: ['sentiment'],
+      properties: { sentiment: { type: 'string', enum: ['positive', 'negative'] } },
+    };
+
+    beforeEach(() => {
+      mockStep.output_format = 'json';
+      mockStep.executor_config = JSON.stringify({ output_schema: schema, max_repair_attempts: 1 });
+      mockCompilePrompt.mockReturnValue({ compiledPrompt: 'Classify', unresolvedVariables: [], images: [] });
+    });
+
+    test('passes the schema to the model and repairs fenced JSON', async () => {
+      mockCallAI.mockResolvedValue({
+        success: true,
+        content: '```json\n{"sentiment": "positive",}\n```',
+        model: 'gpt-4o',
+      });
+
+      const result = await executor.execute(mockStep, mockContext);
+
+      expect(result.success).toBe(true);
+      expect(JSON.parse(result.content)).toEqual({ sentiment: 'positive' });
+      expect(result.metadata?.structuredOutput).toEqual({ attempts: 1, repaired: true });
+      expect(mockCallAI).toHaveBeenCalledWith('gpt-4o', 'Classify', expect.objectContaining({
+        responseSchema: { name: 'step_output', schema },
+      }));
+    });
+
+    test('re-asks with the validation errors and fails after the last attempt', async () => {
+      mockCallAI
+        .mockResolvedValueOnce({ success: true, content: '{"sentiment": "meh"}', model: 'gpt-4o' })
+        .mockResolvedValueOnce({ success: true, content: 'still not json', model: 'gpt-4o' });
+
+      const result = await executor.execute(mockStep, mockContext);
+
+      expect(mockCallAI).toHaveBeenCalledTimes(2);
+      const retryMessages = mockCallAI.mock.calls[1][2]!.messages!;
+      expect(retryMessages.map((m) => m.role)).toEqual(['user', 'assistant', 'user']);
+      expect(retryMessages[2].content).toContain('$.sentiment: must be one of "positive", "negative"');
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Output did not match the JSON Schema after 2 attempt(s): $: reply is not valid JSON');
+    });
+
+    test('rejects a schema that is not an object', () => {
+      mockStep.executor_config = JSON.stringify({ output_schema: '{broken' });
+      expect(executor.validateConfig(mockStep).errors).toContain('Output schema must be a JSON Schema object');
+    });
+  });
+
   describe('getConfigSchema', () => {
     test('returns a schema with required fields', () => {
       const schema = executor.getConfigSchema();
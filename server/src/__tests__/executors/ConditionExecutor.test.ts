@@ -0,0 +1,131 @@
+import { ConditionExecutor, evaluateCondition, normalizeBranchTarget } from '../../executors/ConditionExecutor';
+import { RecipeStep, StepExecution } from '../../types';
+import { StepExecutorContext } from '../../executors/StepExecutor';
+
+describe('ConditionExecutor', () => {
+  let executor: ConditionExecutor;
+
+  function makeStep(config: Record<string, any>, stepOrder = 2): RecipeStep {
+    return {
+      id: 2,
+      recipe_id: 1,
+      step_order: stepOrder,
+      step_name: 'Needs Translation?',
+      step_type: 'condition',
+      ai_model: '',
+      prompt_template: '',
+      output_format: 'json',
+      created_at: '2024-01-01',
+      executor_config: JSON.stringify(config),
+    };
+  }
+
+  function makeContext(completed: Partial<StepExecution>[] = [], userInputs: Record<string, any> = {}): StepExecutorContext {
+    return {
+      userId: 1,
+      executionId: 1,
+      stepExecution: {
+        id: 2, execution_id: 1, step_id: 2, step_order: 2, status: 'running', approved: false,
+      } as StepExecution,
+      userInputs,
+      completedStepExecutions: completed as StepExecution[],
+    };
+  }
+
+  beforeEach(() => {
+    executor = new ConditionExecutor();
+  });
+
+  test('has correct metadata', () => {
+    expect(executor.type).toBe('condition');
+    expect(executor.displayName).toBe('Condition');
+  });
+
+  describe('validateConfig', () => {
+    test('requires a source', () => {
+      const result = executor.validateConfig(makeStep({ operator: 'truthy' }));
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('source');
+    });
+
+    test('rejects unknown operators', () => {
+      const result = executor.validateConfig(makeStep({ source: 'flag', operator: 'matches' }));
+      expect(result.valid).toBe(false);
+    });
+
+    test('rejects targets that do not point forward', () => {
+      const result = executor.validateConfig(makeStep({ source: 'flag', operator: 'truthy', on_false: 1 }));
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('later step');
+    });
+
+    test('accepts "end" and blank targets', () => {
+      const result = executor.validateConfig(makeStep({ source: 'flag', operator: 'truthy', on_true: '', on_false: 'end' }));
+      expect(result.valid).toBe(true);
+    });
+  });
+
+  describe('evaluateCondition', () => {
+    test('treats "false", "no" and empty values as falsy', () => {
+      expect(evaluateCondition('truthy', 'false')).toBe(false);
+      expect(evaluateCondition('truthy', 'no')).toBe(false);
+      expect(evaluateCondition('truthy', [])).toBe(false);
+      expect(evaluateCondition('truthy', 'yes')).toBe(true);
+    });
+
+    test('compares values loosely', () => {
+      expect(evaluateCondition('equals', 'EN ', 'en')).toBe(true);
+      expect(evaluateCondition('contains', ['de', 'fr'], 'fr')).toBe(true);
+      expect(evaluateCondition('greater_than', '4.5', 4)).toBe(true);
+    });
+  });
+
+  test('normalizeBranchTarget parses numbers and "end"', () => {
+    expect(normalizeBranchTarget('4')).toBe(4);
+    expect(normalizeBranchTarget('END')).toBe('end');
+    expect(normalizeBranchTarget('')).toBeUndefined();
+  });
+
+  describe('execute', () => {
+    const completed: Partial<StepExecution>[] = [{
+      id: 1, execution_id: 1, step_id: 1, step_order: 1, status: 'completed', approved: true,
+      output_data: JSON.stringify({ content: JSON.stringify({ needs_translation: false, language: 'en' }) }),
+    }];
+
+    test('reads nested fields from previous step output', async () => {
+      const result = await executor.execute(
+        makeStep({ source: 'step_1_output.needs_translation', operator: 'truthy', on_false: 4 }),
+        makeContext(completed)
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.metadata?.branch).toEqual({ result: false, target: 4 });
+      expect(JSON.parse(result.content).next_step).toBe(4);
+    });
+
+    test('falls through to the next step when no target is set', async () => {
+      const result = await executor.execute(
+        makeStep({ source: '{{step_1_output.language}}', operator: 'equals', value: 'en', on_false: 'end' }),
+        makeContext(completed)
+      );
+
+      expect(result.metadata?.branch).toEqual({ result: true, target: undefined });
+      expect(JSON.parse(result.content).next_step).toBe('next');
+    });
+
+    test('reads user inputs', async () => {
+      const result = await executor.execute(
+        makeStep({ source: 'target_language', operator: 'not_equals', value: 'en', on_true: 3 }),
+        makeContext([], { target_language: 'de' })
+      );
+
+      expect(result.metadata?.branch).toEqual({ result: true, target: 3 });
+    });
+
+    test('fails on invalid config', async () => {
+      const result = await executor.execute(makeStep({ operator: 'truthy' }), makeContext());
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('source');
+    });
+  });
+});
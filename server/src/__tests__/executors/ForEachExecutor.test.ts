@@ -0,0 +1,161 @@
+import { ForEachExecutor, parseForEachConfig, toItemList } from '../../executors/ForEachExecutor';
+import { RecipeStep, StepExecution } from '../../types';
+import { StepExecutor, StepExecutorContext } from '../../executors/StepExecutor';
+
+describe('ForEachExecutor', () => {
+  const mockItemExecute = jest.fn();
+  const mockItemExecutor: StepExecutor = {
+    type: 'ai',
+    displayName: 'AI Model',
+    icon: '🤖',
+    description: 'AI',
+    execute: mockItemExecute,
+    validateConfig: jest.fn().mockReturnValue({ valid: true, errors: [] }),
+    getConfigSchema: jest.fn(),
+  };
+
+  let executor: ForEachExecutor;
+  let mockEmit: jest.Mock;
+
+  function makeStep(config: Record<string, any>): RecipeStep {
+    return {
+      id: 2,
+      recipe_id: 1,
+      step_order: 2,
+      step_name: 'Summarize Reviews',
+      step_type: 'foreach',
+      ai_model: 'gpt-4o',
+      prompt_template: 'Summarize: {{item.text}}',
+      output_format: 'json',
+      created_at: '2024-01-01',
+      executor_config: JSON.stringify(config),
+    };
+  }
+
+  function makeContext(outputData?: string): StepExecutorContext {
+    return {
+      userId: 1,
+      executionId: 1,
+      stepExecution: {
+        id: 2, execution_id: 1, step_id: 2, step_order: 2, status: 'running', approved: false,
+        output_data: outputData,
+      } as StepExecution,
+      userInputs: { tone: 'brief' },
+      completedStepExecutions: [{
+        id: 1, execution_id: 1, step_id: 1, step_order: 1, status: 'completed', approved: true,
+        output_data: JSON.stringify({
+          content: JSON.stringify({ reviews: [{ text: 'Great' }, { text: 'Bad' }, { text: 'Okay' }] }),
+        }),
+      } as StepExecution],
+      emitter: {
+        emit: mockEmit,
+        createMessage: (partial: any) => ({ ...partial, id: 'msg', timestamp: 'now' }),
+      } as any,
+    };
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockEmit = jest.fn();
+    executor = new ForEachExecutor((type) => (type === 'ai' ? mockItemExecutor : undefined));
+    mockItemExecute.mockImplementation(async (_step: RecipeStep, context: StepExecutorContext) => ({
+      success: true,
+      content: `summary of ${context.userInputs['item.text']}`,
+      modelUsed: 'gpt-4o',
+    }));
+  });
+
+  test('clamps concurrency and defaults the item type', () => {
+    const config = parseForEachConfig(makeStep({ source: 'x', concurrency: 50 }));
+    expect(config.concurrency).toBe(10);
+    expect(config.item_step_type).toBe('ai');
+  });
+
+  test('toItemList accepts arrays, JSON strings, wrapper objects and lines', () => {
+    expect(toItemList([1, 2])).toEqual([1, 2]);
+    expect(toItemList('["a","b"]')).toEqual(['a', 'b']);
+    expect(toItemList({ urls: ['u1'] })).toEqual(['u1']);
+    expect(toItemList('one\n\ntwo')).toEqual(['one', 'two']);
+    expect(toItemList({ a: 1 })).toBeNull();
+  });
+
+  test('rejects control-flow item types', () => {
+    const result = executor.validateConfig(makeStep({ source: 'x', item_step_type: 'condition' }));
+    expect(result.valid).toBe(false);
+  });
+
+  test('runs the item step once per item and collects results in order', async () => {
+    const result = await executor.execute(makeStep({ source: 'step_1_output.reviews' }), makeContext());
+
+    expect(result.success).toBe(true);
+    expect(mockItemExecute).toHaveBeenCalledTimes(3);
+    expect(JSON.parse(result.content)).toEqual(['summary of Great', 'summary of Bad', 'summary of Okay']);
+
+    const itemContext = mockItemExecute.mock.calls[0][1] as StepExecutorContext;
+    expect(itemContext.userInputs.tone).toBe('brief');
+    expect(itemContext.userInputs.item_number).toBe('1');
+    expect(mockItemExecute.mock.calls[0][0].step_type).toBe('ai');
+  });
+
+  test('never runs more items at once than the concurrency limit', async () => {
+    let active = 0;
+    let peak = 0;
+    mockItemExecute.mockImplementation(async () => {
+      active += 1;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setImmediate(resolve));
+      active -= 1;
+      return { success: true, content: 'ok' };
+    });
+
+    await executor.execute(makeStep({ source: 'step_1_output.reviews', concurrency: 2 }), makeContext());
+
+    expect(peak).toBe(2);
+  });
+
+  test('emits a progress event per item', async () => {
+    await executor.execute(makeStep({ source: 'step_1_output.reviews' }), makeContext());
+
+    const progress = mockEmit.mock.calls.map((call: any[]) => call[1]).filter((msg: any) => msg.type === 'progress');
+    expect(progress).toHaveLength(4);
+    expect(progress.filter((msg: any) => msg.metadata.itemIndex !== undefined)).toHaveLength(3);
+  });
+
+  test('fails with partial output when an item fails', async () => {
+    mockItemExecute.mockImplementation(async (_step: RecipeStep, context: StepExecutorContext) => (
+      context.userInputs['item.text'] === 'Bad'
+        ? { success: false, content: '', error: 'Rate limited' }
+        : { success: true, content: 'ok' }
+    ));
+
+    const result = await executor.execute(makeStep({ source: 'step_1_output.reviews' }), makeContext());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('items 2');
+    expect(JSON.parse(result.content)).toEqual(['ok', null, 'ok']);
+    expect(result.metadata?.failedItems).toEqual([1]);
+  });
+
+  test('retry re-runs only the failed items', async () => {
+    const previousOutput = JSON.stringify({
+      content: '["ok", null, "ok"]',
+      items: [
+        { index: 0, item: { text: 'Great' }, status: 'completed', output: 'ok' },
+        { index: 1, item: { text: 'Bad' }, status: 'failed', error: 'Rate limited' },
+        { index: 2, item: { text: 'Okay' }, status: 'completed', output: 'ok' },
+      ],
+    });
+
+    const result = await executor.execute(makeStep({ source: 'step_1_output.reviews' }), makeContext(previousOutput));
+
+    expect(result.success).toBe(true);
+    expect(mockItemExecute).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(result.content)).toEqual(['ok', 'summary of Bad', 'ok']);
+  });
+
+  test('fails when the source is not a list', async () => {
+    const result = await executor.execute(makeStep({ source: 'missing_input' }), makeContext());
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('did not resolve to a list');
+  });
+});
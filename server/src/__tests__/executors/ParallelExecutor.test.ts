@@ -0,0 +1,71 @@
+import { ParallelExecutor, parseParallelConfig } from '../../executors/ParallelExecutor';
+import { RecipeStep, StepExecution } from '../../types';
+import { StepExecutorContext } from '../../executors/StepExecutor';
+
+describe('ParallelExecutor', () => {
+  let executor: ParallelExecutor;
+
+  function makeStep(branches: any): RecipeStep {
+    return {
+      id: 2,
+      recipe_id: 1,
+      step_order: 2,
+      step_name: 'Generate Variants',
+      step_type: 'parallel',
+      ai_model: '',
+      prompt_template: '',
+      output_format: 'json',
+      created_at: '2024-01-01',
+      executor_config: JSON.stringify({ branches }),
+    };
+  }
+
+  function makeContext(completed: Partial<StepExecution>[]): StepExecutorContext {
+    return {
+      userId: 1,
+      executionId: 1,
+      stepExecution: {
+        id: 2, execution_id: 1, step_id: 2, step_order: 2, status: 'running', approved: false,
+      } as StepExecution,
+      userInputs: {},
+      completedStepExecutions: completed as StepExecution[],
+    };
+  }
+
+  beforeEach(() => {
+    executor = new ParallelExecutor();
+  });
+
+  test('parses branches from comma-separated strings and arrays', () => {
+    expect(parseParallelConfig(makeStep('4, 3,4')).branches).toEqual([3, 4]);
+    expect(parseParallelConfig(makeStep([5, '3'])).branches).toEqual([3, 5]);
+  });
+
+  test('requires at least two later branches', () => {
+    expect(executor.validateConfig(makeStep('3')).valid).toBe(false);
+    expect(executor.validateConfig(makeStep('1,3')).valid).toBe(false);
+    expect(executor.validateConfig(makeStep('3,4')).valid).toBe(true);
+  });
+
+  test('joins branch outputs keyed by step', async () => {
+    const result = await executor.execute(makeStep('3,4'), makeContext([
+      { id: 3, step_order: 3, status: 'completed', output_data: JSON.stringify({ content: 'Short copy' }) },
+      { id: 4, step_order: 4, status: 'completed', output_data: JSON.stringify({ content: '{"title":"Long"}' }) },
+    ]));
+
+    expect(result.success).toBe(true);
+    expect(JSON.parse(result.content)).toEqual({
+      step_3: 'Short copy',
+      step_4: { title: 'Long' },
+    });
+  });
+
+  test('fails when a branch has not completed', async () => {
+    const result = await executor.execute(makeStep('3,4'), makeContext([
+      { id: 3, step_order: 3, status: 'completed', output_data: JSON.stringify({ content: 'Short copy' }) },
+    ]));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('step 4');
+  });
+});
@@ -4,9 +4,10 @@ import { StepExecutorContext } from '../../executors/StepExecutor';
 import { spawn } from 'child_process';
 import { EventEmitter } from 'events';
 
-// Mock child_process.spawn
+// Mock child_process.spawn; the namespace probe succeeds, so the sandbox runs isolated
 jest.mock('child_process', () => ({
   spawn: jest.fn(),
+  execFileSync: jest.fn(),
 }));
 
 const mockSpawn = spawn as jest.MockedFunction<typeof spawn>;
@@ -61,9 +62,11 @@ describe('ScriptExecutor', () => {
     return proc;
   }
 
+  // The sandbox prepares a work directory before spawning, so wait for the spawn call
   async function waitForSpawnSetup() {
-    await Promise.resolve();
-    await Promise.resolve();
+    for (let i = 0; i < 200 && mockSpawn.mock.calls.length === 0; i++) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
   }
 
   describe('type and metadata', () => {
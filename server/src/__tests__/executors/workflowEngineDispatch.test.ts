@@ -21,15 +21,25 @@ const mockQueries = {
   createStepExecution: jest.fn(),
   updateStepExecution: jest.fn(),
   updateExecutionStatus: jest.fn(),
+  setExecutionStatusReason: jest.fn(),
   completeExecution: jest.fn(),
   setStepExecutionError: jest.fn(),
+  setStepExecutionAttempts: jest.fn(),
   approveStepExecution: jest.fn(),
   getStepExecutionById: jest.fn(),
   getStepById: jest.fn(),
+  skipStepExecution: jest.fn(),
+  getRecipeById: jest.fn(),
+  getStepCacheEntry: jest.fn(),
+  putStepCacheEntry: jest.fn(),
+  recordStepCacheHit: jest.fn(),
+  deleteExpiredStepCache: jest.fn(),
+  getStandardsByType: jest.fn().mockReturnValue([]),
 };
 
 jest.mock('../../models/database', () => ({
   queries: mockQueries,
+  ensurePersonalWorkspace: jest.fn().mockReturnValue(1),
 }));
 
 // Mock the execution events emitter
@@ -256,6 +266,26 @@ describe('Workflow Engine - Executor Dispatch', () => {
       expect(errorCall![0].content).toBe('Model overloaded');
     });
 
+    test('keeps partial output when a failed executor returns content', async () => {
+      mockExecute.mockResolvedValue({
+        success: false,
+        content: '["ok", null]',
+        metadata: { failedItems: [1] },
+        error: '1 of 2 item(s) failed',
+        modelUsed: 'gpt-4o',
+      });
+
+      await startExecution(1, 1, { input: 'test' });
+      await flushBackgroundExecution();
+
+      const failedOutput = mockQueries.updateStepExecution.mock.calls.find(
+        (call: any[]) => call[0] === 'failed'
+      );
+      expect(failedOutput).toBeDefined();
+      expect(JSON.parse(failedOutput![1]).failedItems).toEqual([1]);
+      expect(mockQueries.setStepExecutionError).toHaveBeenCalledWith('failed', '1 of 2 item(s) failed', 1);
+    });
+
     test('handles executor throwing an exception', async () => {
       mockExecute.mockRejectedValue(new Error('Connection timeout'));
 
@@ -522,6 +552,77 @@ describe('Workflow Engine - Executor Dispatch', () => {
     });
   });
 
+  describe('condition branching', () => {
+    const mockConditionExecutor = {
+      type: 'condition',
+      displayName: 'Condition',
+      icon: '🔀',
+      description: 'Condition',
+      execute: jest.fn().mockResolvedValue({
+        success: true,
+        content: JSON.stringify({ result: false, next_step: 4 }),
+        metadata: { branch: { result: false, target: 4 }, isJson: true },
+        promptUsed: '[condition] flag truthy',
+        modelUsed: 'condition',
+      }),
+      validateConfig: jest.fn(),
+      getConfigSchema: jest.fn(),
+    };
+
+    const branchSteps: RecipeStep[] = [1, 2, 3, 4].map((order) => ({
+      id: order,
+      recipe_id: 1,
+      step_order: order,
+      step_name: order === 1 ? 'Check' : `Step ${order}`,
+      step_type: order === 1 ? 'condition' : 'ai',
+      ai_model: order === 1 ? '' : 'gpt-4o',
+      prompt_template: '',
+      output_format: 'text',
+      created_at: '2024-01-01',
+    }));
+
+    beforeEach(() => {
+      mockGetExecutor.mockImplementation((type: string) => {
+        if (type === 'ai') return mockAIExecutor;
+        if (type === 'condition') return mockConditionExecutor;
+        return undefined;
+      });
+
+      mockQueries.createExecution.mockReturnValue({ lastInsertRowid: 300 });
+      mockQueries.getExecutionById.mockReturnValue({
+        id: 300, recipe_id: 1, user_id: 1, status: 'pending', current_step: 0,
+      });
+
+      const pending = (order: number) => ({
+        id: 30 + order, execution_id: 300, step_id: order, step_order: order,
+        status: 'pending', approved: false,
+      });
+      mockQueries.getStepExecutionsByExecutionId
+        .mockReturnValueOnce([1, 2, 3, 4].map(pending))
+        .mockReturnValueOnce([1, 2, 3, 4].map(pending))
+        .mockReturnValue([
+          { ...pending(1), status: 'completed', approved: true },
+          { ...pending(2), status: 'skipped' },
+          { ...pending(3), status: 'skipped' },
+          { ...pending(4), status: 'completed', approved: true },
+        ]);
+    });
+
+    test('skips steps between the condition and its target', async () => {
+      await startExecution(1, 1, {}, branchSteps);
+      await flushBackgroundExecution();
+
+      expect(mockQueries.skipStepExecution).toHaveBeenCalledWith(32);
+      expect(mockQueries.skipStepExecution).toHaveBeenCalledWith(33);
+      expect(mockQueries.skipStepExecution).not.toHaveBeenCalledWith(34);
+
+      const skippedCalls = mockCreateMessage.mock.calls.filter(
+        (call: any[]) => call[0].type === 'step-skipped'
+      );
+      expect(skippedCalls.map((call: any[]) => call[0].stepOrder)).toEqual([2, 3]);
+    });
+  });
+
   describe('retryStep', () => {
     beforeEach(() => {
       mockQueries.getExecutionById.mockReturnValue({
@@ -565,7 +666,7 @@ describe('Workflow Engine - Executor Dispatch', () => {
 
       mockQueries.getStepsByRecipeId.mockReturnValue([{
         id: 1, recipe_id: 1, step_order: 1, step_name: 'AI Step',
-        step_type: 'ai', ai_model: 'gpt-4o', prompt_template: 'prompt',
+        step_type: 'ai', ai_model: 'gpt-4o', prompt_template: 'Original prompt {{input}}',
         output_format: 'text', created_at: '2024-01-01',
       }]);
     });
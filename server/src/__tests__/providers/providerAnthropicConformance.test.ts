@@ -134,4 +134,25 @@ describe('Anthropic Provider Conformance', () => {
     expect(events[0].error).toMatch(/toolCallId is required/i);
     expect(streamFn).not.toHaveBeenCalled();
   });
+
+  test('forces a tool call for the response schema and unwraps non-object schemas', async () => {
+    const provider = new AnthropicProvider(manifest);
+    const createFn = jest.fn().mockResolvedValue({
+      content: [{ type: 'tool_use', id: 'tu-1', name: 'step_output', input: { value: ['a', 'b'] } }],
+      usage: { input_tokens: 7, output_tokens: 4 },
+    });
+    (provider as any).client = { messages: { create: createFn } };
+
+    const schema = { type: 'array', items: { type: 'string' } };
+    const result = await provider.complete({
+      model: 'claude-sonnet-4-5-20250929',
+      messages: [{ role: 'user', content: 'List' }],
+      responseSchema: { name: 'step_output', schema },
+    });
+
+    expect(result.text).toBe('["a","b"]');
+    const payload = createFn.mock.calls[0][0];
+    expect(payload.tool_choice).toEqual({ type: 'tool', name: 'step_output' });
+    expect(payload.tools[0].input_schema).toEqual({ type: 'object', properties: { value: schema }, required: ['value'] });
+  });
 });
@@ -0,0 +1,211 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import OpenAICompatibleProvider from '../../plugins/builtin/provider-openai-compatible';
+import { CompletionRequest, StreamEvent } from '../../plugins/types';
+
+interface StubRequest {
+  method: string;
+  url: string;
+  body: any;
+}
+
+// Minimal OpenAI-compatible server, shaped like vLLM / Ollama responses
+function startStubServer(): Promise<{ baseUrl: string; requests: StubRequest[]; close: () => Promise<void> }> {
+  const requests: StubRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => { raw += chunk; });
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : undefined;
+      requests.push({ method: req.method || '', url: req.url || '', body });
+
+      if (req.url === '/v1/models') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          object: 'list',
+          data: [
+            { id: 'llama-3.1-8b', object: 'model', max_model_len: 32768 },
+            { id: 'gemma-2b', object: 'model', capabilities: ['completion'] },
+            { id: 'nomic-embed-text', object: 'model' },
+          ],
+        }));
+        return;
+      }
+
+      if (req.url === '/v1/embeddings') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          object: 'list',
+          data: body.input.map((_: string, index: number) => ({ object: 'embedding', index, embedding: [0.1, 0.2, index] })),
+          model: body.model,
+        }));
+        return;
+      }
+
+      if (req.url === '/v1/chat/completions') {
+        if (body.tools && body.model === 'qwen-no-tools') {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: { message: 'qwen-no-tools does not support tools' } }));
+          return;
+        }
+
+        if (!body.stream) {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({
+            id: 'cmpl-1',
+            object: 'chat.completion',
+            choices: [{ index: 0, message: { role: 'assistant', content: 'Local answer' }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 12, completion_tokens: 2 },
+          }));
+          return;
+        }
+
+        const chunks = body.tools
+          ? [
+            { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: 'call-1', function: { name: 'skill_search', arguments: '{"query":' } }] }, finish_reason: null }] },
+            { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '"reviews"}' } }] }, finish_reason: null }] },
+            { choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] },
+          ]
+          : [
+            { choices: [{ index: 0, delta: { content: 'Hello ' }, finish_reason: null }] },
+            { choices: [{ index: 0, delta: { content: 'there' }, finish_reason: null }] },
+            { choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] },
+          ];
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        for (const chunk of chunks) {
+          res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+        }
+        res.end('data: [DONE]\n\n');
+        return;
+      }
+
+      res.writeHead(404);
+      res.end();
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        baseUrl: `http://127.0.0.1:${port}/v1`,
+        requests,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+async function collect(provider: OpenAICompatibleProvider, request: CompletionRequest): Promise<StreamEvent[]> {
+  const out: StreamEvent[] = [];
+  for await (const event of provider.stream(request)) {
+    out.push(event);
+  }
+  return out;
+}
+
+describe('OpenAI-Compatible Provider Conformance', () => {
+  const manifest: any = {
+    name: 'provider-openai-compatible',
+    version: '1.0.0',
+    type: 'provider',
+    displayName: 'OpenAI-Compatible',
+    description: 'test',
+    entry: './index.ts',
+  };
+  const tools = [{ name: 'skill_search', description: 'Search skills', parameters: { type: 'object', properties: {} } }];
+
+  let stub: Awaited<ReturnType<typeof startStubServer>>;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    stub = await startStubServer();
+  });
+
+  afterAll(async () => {
+    await stub.close();
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    stub.requests.length = 0;
+  });
+
+  test('discovers models and detects tool support from /v1/models', async () => {
+    const provider = new OpenAICompatibleProvider(manifest);
+    await provider.initialize({ baseUrl: `${stub.baseUrl}/`, embeddingModel: 'nomic-embed-text' });
+
+    expect(provider.isConfigured()).toBe(true);
+    expect(provider.listModels()).toEqual([
+      expect.objectContaining({ id: 'llama-3.1-8b', provider: 'openai-compatible', supportsTools: true, contextWindow: 32768 }),
+      expect.objectContaining({ id: 'gemma-2b', supportsTools: false, contextWindow: 8192 }),
+    ]);
+  });
+
+  test('is not configured without a base URL or when the server is unreachable', async () => {
+    const missing = new OpenAICompatibleProvider(manifest);
+    await missing.initialize({});
+    expect(missing.isConfigured()).toBe(false);
+    expect(await collect(missing, { model: 'x', messages: [] })).toEqual([
+      { type: 'error', error: 'OpenAI-compatible client not initialized (missing base URL)' },
+    ]);
+
+    const unreachable = new OpenAICompatibleProvider(manifest);
+    await unreachable.initialize({ baseUrl: 'http://127.0.0.1:9/v1' });
+    expect(unreachable.listModels()).toEqual([]);
+  });
+
+  test('streams text and tool calls', async () => {
+    const provider = new OpenAICompatibleProvider(manifest);
+    await provider.initialize({ baseUrl: stub.baseUrl, models: 'llama-3.1-8b' });
+
+    expect(await collect(provider, { model: 'llama-3.1-8b', messages: [{ role: 'user', content: 'Hi' }] })).toEqual([
+      { type: 'text', text: 'Hello ' },
+      { type: 'text', text: 'there' },
+      { type: 'done' },
+    ]);
+
+    const events = await collect(provider, { model: 'llama-3.1-8b', tools, messages: [{ role: 'user', content: 'Find' }] });
+    expect(events).toEqual([
+      { type: 'tool_call', toolCall: { id: 'call-1', name: 'skill_search', args: { query: 'reviews' } } },
+      { type: 'done' },
+    ]);
+    expect(stub.requests.every((r) => r.body.max_tokens === 4096)).toBe(true);
+  });
+
+  test('falls back to plain chat when the model rejects tools', async () => {
+    const provider = new OpenAICompatibleProvider(manifest);
+    await provider.initialize({ baseUrl: stub.baseUrl, models: 'qwen-no-tools' });
+
+    const events = await collect(provider, { model: 'qwen-no-tools', tools, messages: [{ role: 'user', content: 'Hi' }] });
+    expect(events).toEqual([
+      { type: 'text', text: 'Hello ' },
+      { type: 'text', text: 'there' },
+      { type: 'done' },
+    ]);
+    expect(provider.listModels()[0].supportsTools).toBe(false);
+
+    // Later turns skip tools without another failed request
+    stub.requests.length = 0;
+    await collect(provider, { model: 'qwen-no-tools', tools, messages: [{ role: 'user', content: 'Again' }] });
+    expect(stub.requests).toHaveLength(1);
+    expect(stub.requests[0].body.tools).toBeUndefined();
+  });
+
+  test('completes and embeds through the configured server', async () => {
+    const provider = new OpenAICompatibleProvider(manifest);
+    await provider.initialize({ baseUrl: stub.baseUrl, models: 'llama-3.1-8b', apiKey: 'local-key' });
+
+    await expect(provider.embed(['a'])).rejects.toThrow('No embeddingModel configured');
+
+    const result = await provider.complete({ model: 'llama-3.1-8b', messages: [{ role: 'user', content: 'Hi' }] });
+    expect(result).toEqual({ text: 'Local answer', usage: { promptTokens: 12, completionTokens: 2 } });
+
+    const withEmbeddings = new OpenAICompatibleProvider(manifest);
+    await withEmbeddings.initialize({ baseUrl: stub.baseUrl, models: 'llama-3.1-8b', embeddingModel: 'nomic-embed-text' });
+    expect(await withEmbeddings.embed(['a', 'b'])).toEqual([[0.1, 0.2, 0], [0.1, 0.2, 1]]);
+    expect(stub.requests.find((r) => r.url === '/v1/embeddings')?.body.model).toBe('nomic-embed-text');
+  });
+});
@@ -143,4 +143,26 @@ describe('OpenAI Provider Conformance', () => {
     expect(events[0].error).toMatch(/toolCallId is required/i);
     expect(createFn).not.toHaveBeenCalled();
   });
+
+  test('asks for the response schema through response_format', async () => {
+    const provider = new OpenAIProvider(manifest);
+    const createFn = jest.fn().mockResolvedValue({
+      choices: [{ message: { content: '{"ok":true}' } }],
+      usage: { prompt_tokens: 5, completion_tokens: 3 },
+    });
+    (provider as any).client = { chat: { completions: { create: createFn } } };
+
+    const schema = { type: 'object', properties: { ok: { type: 'boolean' } } };
+    const result = await provider.complete({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Check' }],
+      responseSchema: { name: 'review summary', schema },
+    });
+
+    expect(result.text).toBe('{"ok":true}');
+    expect(createFn.mock.calls[0][0].response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'review_summary', schema, strict: false },
+    });
+  });
 });
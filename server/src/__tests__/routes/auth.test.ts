@@ -0,0 +1,111 @@
+import request from 'supertest';
+import express from 'express';
+
+process.env.DATABASE_PATH = ':memory:';
+// These tests exercise ownership, so new accounts need to be able to build
+process.env.DEFAULT_USER_ROLE = 'builder';
+
+import { initializeDatabase, getDatabase } from '../../models/database';
+import authRouter from '../../routes/auth';
+import skillsRouter from '../../routes/skills';
+import { SessionManager } from '../../gateway/sessionManager';
+import { createLinkCode, redeemLinkCode } from '../../services/authService';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/auth', authRouter);
+  app.use('/skills', skillsRouter);
+  return app;
+}
+
+async function register(app: express.Express, email: string): Promise<{ token: string; userId: number }> {
+  const res = await request(app).post('/auth/register').send({ email, password: 'correct horse' });
+  expect(res.status).toBe(201);
+  return { token: res.body.token, userId: res.body.user.id };
+}
+
+describe('auth routes', () => {
+  let app: express.Express;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    initializeDatabase();
+    app = makeApp();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('registers, logs in and revokes the session on logout', async () => {
+    const { token } = await register(app, 'Ana@Example.com');
+
+    const me = await request(app).get('/auth/me').set('Authorization', `Bearer ${token}`);
+    expect(me.status).toBe(200);
+    expect(me.body.user.email).toBe('ana@example.com');
+    expect(me.body.user.password_hash).toBeUndefined();
+
+    const badLogin = await request(app).post('/auth/login').send({ email: 'ana@example.com', password: 'nope' });
+    expect(badLogin.status).toBe(401);
+
+    const login = await request(app).post('/auth/login').send({ email: 'ana@example.com', password: 'correct horse' });
+    expect(login.status).toBe(200);
+    expect(login.body.token).not.toBe(token);
+
+    await request(app).post('/auth/logout').set('Authorization', `Bearer ${login.body.token}`).expect(200);
+    await request(app).get('/auth/me').set('Authorization', `Bearer ${login.body.token}`).expect(401);
+    await request(app).get('/auth/me').set('Authorization', `Bearer ${token}`).expect(200);
+  });
+
+  test('rejects duplicate accounts, short passwords and missing tokens', async () => {
+    await register(app, 'dup@example.com');
+    const dup = await request(app).post('/auth/register').send({ email: 'dup@example.com', password: 'correct horse' });
+    expect(dup.status).toBe(409);
+
+    const short = await request(app).post('/auth/register').send({ email: 'short@example.com', password: 'abc' });
+    expect(short.status).toBe(400);
+
+    await request(app).get('/skills').expect(401);
+    await request(app).get('/skills').set('Authorization', 'Bearer not-a-token').expect(401);
+  });
+
+  test('only the owner can read or change a skill', async () => {
+    const owner = await register(app, 'owner@example.com');
+    const other = await register(app, 'other@example.com');
+
+    const created = await request(app)
+      .post('/skills')
+      .set('Authorization', `Bearer ${owner.token}`)
+      .send({ name: 'Private skill' });
+    expect(created.status).toBe(201);
+
+    await request(app).get(`/skills/${created.body.id}`).set('Authorization', `Bearer ${owner.token}`).expect(200);
+    await request(app).get(`/skills/${created.body.id}`).set('Authorization', `Bearer ${other.token}`).expect(403);
+    await request(app).delete(`/skills/${created.body.id}`).set('Authorization', `Bearer ${other.token}`).expect(403);
+    await request(app).get('/skills/999999').set('Authorization', `Bearer ${other.token}`).expect(404);
+
+    const list = await request(app).get('/skills').set('Authorization', `Bearer ${other.token}`);
+    expect(list.body.map((s: any) => s.name)).not.toContain('Private skill');
+  });
+
+  test('maps Lark users to their own account until they link it with a code', async () => {
+    const { userId } = await register(app, 'lark-user@example.com');
+    const sessions = new SessionManager();
+
+    const before = sessions.resolveSession('lark', 'chat-1', 'ou_abc');
+    expect(before.user_id).not.toBe(1);
+    expect(before.user_id).not.toBe(userId);
+
+    expect(redeemLinkCode('BADCODE', 'lark', 'ou_abc')).toBeNull();
+    const { code } = createLinkCode(userId);
+    expect(redeemLinkCode(code, 'lark', 'ou_abc')).toBe(userId);
+    expect(redeemLinkCode(code, 'lark', 'ou_abc')).toBeNull();
+
+    const after = sessions.resolveSession('lark', 'chat-1', 'ou_abc');
+    expect(after.id).toBe(before.id);
+    expect(after.user_id).toBe(userId);
+    const stored = getDatabase().prepare('SELECT user_id FROM sessions WHERE id = ?').get(after.id) as { user_id: number };
+    expect(stored.user_id).toBe(userId);
+  });
+});
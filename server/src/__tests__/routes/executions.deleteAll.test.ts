@@ -14,6 +14,9 @@ jest.mock('../../middleware/auth', () => ({
     req.user = { id: 1 };
     next();
   },
+  requireOwnership: () => (_req: any, _res: any, next: any) => next(),
+  requirePermission: () => (_req: any, _res: any, next: any) => next(),
+  requireWorkspaceQuota: (_req: any, _res: any, next: any) => next(),
 }));
 
 // Mock workflowEngine — executions router imports several functions from it
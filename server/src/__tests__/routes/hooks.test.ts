@@ -0,0 +1,315 @@
+import request from 'supertest';
+import express from 'express';
+import crypto from 'crypto';
+
+process.env.DATABASE_PATH = ':memory:';
+
+const mockStartExecution = jest.fn();
+
+jest.mock('../../services/workflowEngine', () => ({
+  startExecution: mockStartExecution,
+  approveStep: jest.fn(),
+}));
+
+import { initializeDatabase, getDatabase, queries, ensurePersonalWorkspace } from '../../models/database';
+import hooksRouter from '../../routes/hooks';
+import { computeWebhookSignature, mapPayloadToInputs } from '../../services/webhookTrigger';
+import { WebhookInvocation } from '../../types';
+
+const SECRET = 'whsec_test';
+
+function makeApp() {
+  const app = express();
+  app.use('/hooks', hooksRouter);
+  return app;
+}
+
+function createWebhook(overrides: Record<string, any> = {}): number {
+  const db = getDatabase();
+  const skillId = Number(db.prepare(
+    "INSERT INTO skills (name, description, created_by) VALUES ('Order follow-up', 'test', 1)"
+  ).run().lastInsertRowid);
+  db.prepare(`
+    INSERT INTO skill_steps (parent_id, parent_type, step_order, step_name, step_type, ai_model, prompt_template)
+    VALUES (?, 'skill', 1, 'Draft email', 'ai', 'gpt-4o', 'Write to {{customer_email}} about {{product}}')
+  `).run(skillId);
+
+  const values = {
+    token: 'tok_123',
+    field_mapping: JSON.stringify({ 'customer.email': 'customer_email', 'line_items.0.title': 'product' }),
+    static_inputs: JSON.stringify({ tone: 'friendly' }),
+    response_mode: 'async',
+    ...overrides,
+  };
+  return Number(db.prepare(`
+    INSERT INTO workflow_webhooks (name, parent_type, parent_id, token, secret, field_mapping, static_inputs, response_mode, created_by)
+    VALUES ('Shopify orders', 'skill', ?, ?, ?, ?, ?, ?, 1)
+  `).run(skillId, values.token, SECRET, values.field_mapping, values.static_inputs, values.response_mode).lastInsertRowid);
+}
+
+function signedHeaders(body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  return {
+    'X-Webhook-Timestamp': String(timestamp),
+    'X-Webhook-Signature': `sha256=${computeWebhookSignature(SECRET, timestamp, body)}`,
+  };
+}
+
+function getInvocations(webhookId: number): WebhookInvocation[] {
+  return getDatabase().prepare('SELECT * FROM webhook_invocations WHERE webhook_id = ?').all(webhookId) as WebhookInvocation[];
+}
+
+// Background settling polls once a second
+async function waitForInvocationStatus(webhookId: number, status: string): Promise<WebhookInvocation> {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const [invocation] = getInvocations(webhookId);
+    if (invocation?.status === status) return invocation;
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  throw new Error(`Invocation never reached ${status}`);
+}
+
+function completeExecution(executionId: number, output: string) {
+  queries.createStepExecution(executionId, 1, 1, '{}');
+  const [stepExecution] = queries.getStepExecutionsByExecutionId(executionId) as any[];
+  queries.updateStepExecution('completed', JSON.stringify({ content: output }), 'gpt-4o', '', stepExecution.id);
+  queries.completeExecution('completed', executionId);
+}
+
+const payload = JSON.stringify({
+  customer: { email: 'jane@example.com' },
+  line_items: [{ title: 'Desk Lamp' }],
+});
+
+describe('POST /hooks/:token', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    initializeDatabase();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const db = getDatabase();
+    db.prepare('DELETE FROM webhook_invocations').run();
+    db.prepare('DELETE FROM workflow_webhooks').run();
+
+    mockStartExecution.mockImplementation((recipeId: number, userId: number, inputs: Record<string, any>) => {
+      const created = queries.createExecution(recipeId, userId, JSON.stringify(inputs));
+      return Promise.resolve({ success: true, executionId: created.lastInsertRowid, status: 'running' });
+    });
+  });
+
+  afterEach(() => {
+    // Stop the background watchers of executions a test left running
+    getDatabase().prepare("UPDATE workflow_executions SET status = 'cancelled' WHERE status = 'running'").run();
+  });
+
+  it('rejects requests with a bad signature', async () => {
+    const webhookId = createWebhook();
+
+    const res = await request(makeApp())
+      .post('/hooks/tok_123')
+      .set('Content-Type', 'application/json')
+      .set('X-Webhook-Signature', 'sha256=deadbeef')
+      .send(payload);
+
+    expect(res.status).toBe(401);
+    expect(mockStartExecution).not.toHaveBeenCalled();
+    expect(getInvocations(webhookId)[0].status).toBe('rejected');
+  });
+
+  it('rejects signatures with a missing or stale timestamp', async () => {
+    const webhookId = createWebhook();
+    const stale = Math.floor(Date.now() / 1000) - 10 * 60;
+
+    const staleRes = await request(makeApp())
+      .post('/hooks/tok_123')
+      .set('Content-Type', 'application/json')
+      .set(signedHeaders(payload, stale))
+      .send(payload);
+    const { 'X-Webhook-Signature': signature } = signedHeaders(payload);
+    const missingRes = await request(makeApp())
+      .post('/hooks/tok_123')
+      .set('Content-Type', 'application/json')
+      .set('X-Webhook-Signature', signature)
+      .send(payload);
+
+    expect(staleRes.status).toBe(401);
+    expect(missingRes.status).toBe(401);
+    expect(missingRes.body.error).toBe('Missing or stale timestamp');
+    expect(mockStartExecution).not.toHaveBeenCalled();
+    expect(getInvocations(webhookId).map(invocation => invocation.status)).toEqual(['rejected', 'rejected']);
+  });
+
+  it('refuses a request that was already delivered', async () => {
+    createWebhook();
+    const headers = signedHeaders(payload);
+    const shopifySignature = crypto.createHmac('sha256', SECRET).update(payload).digest('base64');
+
+    const send = (set: Record<string, string>) => request(makeApp())
+      .post('/hooks/tok_123')
+      .set('Content-Type', 'application/json')
+      .set(set)
+      .send(payload);
+
+    expect((await send(headers)).status).toBe(202);
+    expect((await send(headers)).status).toBe(409);
+    expect((await send({ 'X-Shopify-Hmac-Sha256': shopifySignature })).status).toBe(202);
+    expect((await send({ 'X-Shopify-Hmac-Sha256': shopifySignature })).status).toBe(409);
+    expect(mockStartExecution).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns 404 for unknown or disabled webhooks', async () => {
+    const webhookId = createWebhook();
+    getDatabase().prepare('UPDATE workflow_webhooks SET enabled = 0 WHERE id = ?').run(webhookId);
+
+    const res = await request(makeApp())
+      .post('/hooks/tok_123')
+      .set(signedHeaders(payload))
+      .send(payload);
+
+    expect(res.status).toBe(404);
+  });
+
+  it('maps the payload onto inputs and starts the execution', async () => {
+    const webhookId = createWebhook();
+
+    const res = await request(makeApp())
+      .post('/hooks/tok_123')
+      .set('Content-Type', 'application/json')
+      .set(signedHeaders(payload))
+      .send(payload);
+
+    expect(res.status).toBe(202);
+    expect(res.body.status).toBe('running');
+    expect(mockStartExecution).toHaveBeenCalledWith(
+      expect.any(Number),
+      1,
+      { customer_email: 'jane@example.com', product: 'Desk Lamp', tone: 'friendly' },
+      expect.any(Array)
+    );
+    const [invocation] = getInvocations(webhookId);
+    expect(invocation.status).toBe('running');
+    expect(invocation.execution_id).toBe(res.body.execution_id);
+  });
+
+  it('accepts Shopify-style base64 signatures', async () => {
+    createWebhook();
+    const signature = crypto.createHmac('sha256', SECRET).update(payload).digest('base64');
+
+    const res = await request(makeApp())
+      .post('/hooks/tok_123')
+      .set('Content-Type', 'application/json')
+      .set('X-Shopify-Hmac-Sha256', signature)
+      .send(payload);
+
+    expect(res.status).toBe(202);
+  });
+
+  it('rejects triggers whose owner no longer exists', async () => {
+    const webhookId = createWebhook();
+    getDatabase().prepare('UPDATE workflow_webhooks SET created_by = NULL WHERE id = ?').run(webhookId);
+
+    const res = await request(makeApp())
+      .post('/hooks/tok_123')
+      .set('Content-Type', 'application/json')
+      .set(signedHeaders(payload))
+      .send(payload);
+
+    expect(res.status).toBe(403);
+    expect(mockStartExecution).not.toHaveBeenCalled();
+    expect(getInvocations(webhookId)[0]).toMatchObject({ status: 'failed', error_message: 'Trigger has no owner to run as' });
+  });
+
+  it('rejects triggers once the workspace has used its quota', async () => {
+    const db = getDatabase();
+    const webhookId = createWebhook();
+    const workspaceId = ensurePersonalWorkspace(1);
+    db.prepare('UPDATE skills SET workspace_id = ? WHERE id = (SELECT parent_id FROM workflow_webhooks WHERE id = ?)')
+      .run(workspaceId, webhookId);
+    db.prepare('UPDATE workspaces SET monthly_request_quota = 0 WHERE id = ?').run(workspaceId);
+
+    const res = await request(makeApp())
+      .post('/hooks/tok_123')
+      .set('Content-Type', 'application/json')
+      .set(signedHeaders(payload))
+      .send(payload);
+
+    expect(res.status).toBe(429);
+    expect(res.body.error).toMatch(/has used its 0 requests/);
+    expect(mockStartExecution).not.toHaveBeenCalled();
+    expect(getInvocations(webhookId)[0].status).toBe('failed');
+  });
+
+  it('replies with the final output in sync mode', async () => {
+    const webhookId = createWebhook({ response_mode: 'sync' });
+    mockStartExecution.mockImplementation((recipeId: number, userId: number, inputs: Record<string, any>) => {
+      const executionId = Number(queries.createExecution(recipeId, userId, JSON.stringify(inputs)).lastInsertRowid);
+      completeExecution(executionId, 'Hi Jane!');
+      return Promise.resolve({ success: true, executionId, status: 'completed' });
+    });
+
+    const res = await request(makeApp())
+      .post('/hooks/tok_123')
+      .set('Content-Type', 'application/json')
+      .set(signedHeaders(payload))
+      .send(payload);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ status: 'completed', output: 'Hi Jane!' });
+    expect(getInvocations(webhookId)[0].status).toBe('completed');
+  });
+
+  it('records the outcome of an async run without a callback URL', async () => {
+    const webhookId = createWebhook();
+
+    const res = await request(makeApp())
+      .post('/hooks/tok_123')
+      .set('Content-Type', 'application/json')
+      .set(signedHeaders(payload))
+      .send(payload);
+    expect(res.status).toBe(202);
+    expect(getInvocations(webhookId)[0].status).toBe('running');
+
+    completeExecution(res.body.execution_id, 'Hi Jane!');
+    const invocation = await waitForInvocationStatus(webhookId, 'completed');
+    expect(invocation.finished_at).not.toBeNull();
+    expect(invocation.callback_status).toBe('none');
+  });
+
+  it('settles a sync run that timed out once the execution finishes', async () => {
+    const webhookId = createWebhook({ response_mode: 'sync' });
+    getDatabase().prepare('UPDATE workflow_webhooks SET sync_timeout_seconds = 1 WHERE id = ?').run(webhookId);
+
+    const res = await request(makeApp())
+      .post('/hooks/tok_123')
+      .set('Content-Type', 'application/json')
+      .set(signedHeaders(payload))
+      .send(payload);
+    expect(res.status).toBe(202);
+    expect(res.body.status).toBe('timed_out');
+    expect(getInvocations(webhookId)[0].status).toBe('timed_out');
+
+    completeExecution(res.body.execution_id, 'Hi Jane!');
+    const invocation = await waitForInvocationStatus(webhookId, 'completed');
+    expect(invocation.finished_at).not.toBeNull();
+  });
+});
+
+describe('mapPayloadToInputs', () => {
+  it('passes top-level fields through when no mapping is configured', () => {
+    expect(mapPayloadToInputs({ order_id: 42, tags: ['vip'] }, {})).toEqual({
+      order_id: '42',
+      tags: JSON.stringify(['vip'], null, 2),
+    });
+  });
+
+  it('drops execution control keys from the inputs', () => {
+    const controls = { __customSteps: [{ step_type: 'ai' }], __replayFromStep: 2 };
+    expect(mapPayloadToInputs({ order_id: 42, ...controls }, {})).toEqual({ order_id: '42' });
+    expect(mapPayloadToInputs({ steps: [] }, { steps: '__customSteps' }, { __replayFromStep: 1 })).toEqual({});
+  });
+
+  it('maps the whole payload with "$"', () => {
+    expect(mapPayloadToInputs({ a: 1 }, { $: 'raw' })).toEqual({ raw: JSON.stringify({ a: 1 }, null, 2) });
+  });
+});
@@ -0,0 +1,150 @@
+import request from 'supertest';
+import express from 'express';
+
+process.env.DATABASE_PATH = ':memory:';
+process.env.ADMIN_BOOTSTRAP_TOKEN = 'bootstrap-secret';
+
+import { initializeDatabase, getDatabase } from '../../models/database';
+import authRouter from '../../routes/auth';
+import usageRouter from '../../routes/usage';
+import workspacesRouter from '../../routes/workspaces';
+import executionsRouter from '../../routes/executions';
+import { pluginRegistry } from '../../plugins/registry';
+import { CompletionRequest, ProviderPlugin, StreamEvent } from '../../plugins/types';
+import { callAIByModel, streamCompletion } from '../../services/aiService';
+import { LlmUsageContext } from '../../types';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/auth', authRouter);
+  app.use('/usage', usageRouter);
+  app.use('/workspaces', workspacesRouter);
+  app.use('/executions', executionsRouter);
+  return app;
+}
+
+// Bills 1M prompt + 1M completion tokens per call on 'metered-model', reports nothing on 'quiet-model'
+const meteredProvider: ProviderPlugin = {
+  manifest: {
+    name: 'provider-metered',
+    version: '1.0.0',
+    type: 'provider',
+    displayName: 'Metered',
+    description: 'Test provider',
+    entry: './index.ts',
+  },
+  async initialize() {},
+  async shutdown() {},
+  listModels: () => ['metered-model', 'quiet-model'].map((id) => ({
+    id, name: id, provider: 'metered', supportsStreaming: true, supportsTools: false,
+  })),
+  async complete(req: CompletionRequest) {
+    return req.model === 'metered-model'
+      ? { text: 'ok', usage: { promptTokens: 1_000_000, completionTokens: 1_000_000 } }
+      : { text: 'twelve chars' };
+  },
+  async *stream(): AsyncIterable<StreamEvent> {
+    yield { type: 'text', text: 'hi' };
+    yield { type: 'done', usage: { promptTokens: 10, completionTokens: 2 } };
+  },
+};
+
+describe('LLM token and cost accounting', () => {
+  let app: express.Express;
+  let token: string;
+  let userId: number;
+  let workspaceId: number;
+  let skillId: number;
+
+  const auth = () => ({ Authorization: `Bearer ${token}` });
+  const usageFor = (extra: Partial<LlmUsageContext> = {}): LlmUsageContext => ({
+    userId, workspaceId, source: 'workflow_step', ...extra,
+  });
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    initializeDatabase();
+    pluginRegistry.register('provider', 'provider-metered', meteredProvider);
+    app = makeApp();
+
+    const res = await request(app).post('/auth/register').send({
+      email: 'owner@example.com', password: 'correct horse', bootstrap_token: 'bootstrap-secret',
+    });
+    token = res.body.token;
+    userId = res.body.user.id;
+    workspaceId = (await request(app).get('/workspaces').set(auth())).body[0].id;
+    skillId = Number(getDatabase().prepare(
+      "INSERT INTO skills (name, created_by, workspace_id, status) VALUES ('Summarizer', ?, ?, 'active')"
+    ).run(userId, workspaceId).lastInsertRowid);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('prices calls with admin overrides and estimates unreported tokens', async () => {
+    const priced = await request(app)
+      .put('/usage/prices/metered-model')
+      .set(auth())
+      .send({ input_per_mtok: 1, output_per_mtok: 3 });
+    expect(priced.body).toMatchObject({ model: 'metered-model', provider: 'metered', source: 'override' });
+    await request(app).put('/usage/prices/metered-model').set(auth()).send({ input_per_mtok: -1, output_per_mtok: 0 }).expect(400);
+
+    await callAIByModel('metered-model', 'hello', { usage: usageFor({ skillId }) });
+    await callAIByModel('quiet-model', 'abcdefgh', { usage: usageFor() });
+
+    const history = (await request(app).get('/usage/llm/history').set(auth())).body;
+    expect(history.map((r: any) => [r.model, r.prompt_tokens, r.completion_tokens, r.cost_usd, r.estimated])).toEqual([
+      ['quiet-model', 2, 3, 0, 1],
+      ['metered-model', 1_000_000, 1_000_000, 4, 0],
+    ]);
+  });
+
+  test('aggregates by skill, session, user and source', async () => {
+    const events: StreamEvent[] = [];
+    for await (const event of streamCompletion(
+      { model: 'metered-model', messages: [{ role: 'user', content: 'hi' }] },
+      usageFor({ source: 'agent', sessionId: 'session-1' })
+    )) {
+      events.push(event);
+    }
+    expect(events[events.length - 1].type).toBe('done');
+
+    const summary = (await request(app).get('/usage/llm').set(auth())).body;
+    expect(summary.totals.calls).toBe(3);
+    expect(summary.by_skill).toEqual([expect.objectContaining({ skill_id: skillId, name: 'Summarizer', calls: 1, cost_usd: 4 })]);
+    expect(summary.by_session).toEqual([expect.objectContaining({ session_id: 'session-1', prompt_tokens: 10 })]);
+    expect(summary.by_user).toEqual([expect.objectContaining({ email: 'owner@example.com', calls: 3 })]);
+    expect(summary.by_source.map((s: any) => s.source).sort()).toEqual(['agent', 'workflow_step']);
+    expect(summary.budget.state).toBe('none');
+
+    await request(app).get('/usage/llm?period=decade').set(auth()).expect(400);
+  });
+
+  test('warns near the monthly budget and then blocks runs and calls', async () => {
+    await request(app).put(`/workspaces/${workspaceId}`).set(auth()).send({ monthly_budget_usd: -5 }).expect(400);
+    const updated = await request(app)
+      .put(`/workspaces/${workspaceId}`)
+      .set(auth())
+      .send({ monthly_budget_usd: 10, budget_warn_percent: 50 });
+    expect(updated.body).toMatchObject({ monthly_budget_usd: 10, budget_warn_percent: 50 });
+
+    await callAIByModel('metered-model', 'hello', { usage: usageFor() });
+    const warned = (await request(app).get('/workspaces').set(auth())).body[0];
+    expect(warned.budget_state).toBe('warning');
+
+    await callAIByModel('metered-model', 'hello', { usage: usageFor() });
+    const usage = (await request(app).get(`/workspaces/${workspaceId}/usage`).set(auth())).body;
+    expect(usage.budget.state).toBe('exceeded');
+    expect(usage.budget.month_cost_usd).toBeCloseTo(12);
+
+    const blocked = await callAIByModel('metered-model', 'hello', { usage: usageFor() });
+    expect(blocked.success).toBe(false);
+    expect(blocked.error).toBe('Workspace has used its $10 LLM budget for this month');
+
+    const run = await request(app).post('/executions').set(auth()).send({ skill_id: skillId });
+    expect(run.status).toBe(429);
+  });
+});
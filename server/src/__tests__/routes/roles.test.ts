@@ -0,0 +1,135 @@
+import request from 'supertest';
+import express from 'express';
+
+process.env.DATABASE_PATH = ':memory:';
+process.env.ADMIN_BOOTSTRAP_TOKEN = 'bootstrap-secret';
+
+import { initializeDatabase, getDatabase, ensurePersonalWorkspace } from '../../models/database';
+import authRouter from '../../routes/auth';
+import skillsRouter from '../../routes/skills';
+import skillDraftsRouter from '../../routes/skillDrafts';
+import pluginsRouter from '../../routes/plugins';
+import sessionsRouter from '../../routes/sessions';
+import executionsRouter from '../../routes/executions';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/auth', authRouter);
+  app.use('/skills/drafts', skillDraftsRouter);
+  app.use('/skills', skillsRouter);
+  app.use('/plugins', pluginsRouter);
+  app.use('/sessions', sessionsRouter);
+  app.use('/executions', executionsRouter);
+  return app;
+}
+
+const BOOTSTRAP_TOKEN = 'bootstrap-secret';
+
+async function register(app: express.Express, email: string, fields: Record<string, string> = {}) {
+  const res = await request(app).post('/auth/register').send({ email, password: 'correct horse', ...fields });
+  expect(res.status).toBe(201);
+  return { token: res.body.token as string, user: res.body.user };
+}
+
+describe('role-based access control', () => {
+  let app: express.Express;
+  let admin: { token: string; user: any };
+  let member: { token: string; user: any };
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    initializeDatabase();
+    app = makeApp();
+    // The seeded demo admin has no password, so the first admin registers with the bootstrap token
+    admin = await register(app, 'admin@example.com', { bootstrap_token: BOOTSTRAP_TOKEN });
+    member = await register(app, 'member@example.com');
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  const as = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+  test('the bootstrap account is an admin and later accounts default to viewer', async () => {
+    expect(admin.user.role).toBe('admin');
+    expect(admin.user.permissions).toContain('drafts:review');
+    expect(member.user.role).toBe('viewer');
+    expect(member.user.permissions).toEqual([]);
+  });
+
+  test('only the bootstrap token makes an admin, and only until one can sign in', async () => {
+    const db = getDatabase();
+    const promoted = await request(app).post('/auth/register')
+      .send({ email: 'late@example.com', password: 'correct horse', bootstrap_token: BOOTSTRAP_TOKEN });
+    expect(promoted.status).toBe(409);
+
+    // With no admin able to sign in, registering first is not enough
+    db.prepare("UPDATE users SET role = 'viewer' WHERE id = ?").run(admin.user.id);
+    try {
+      const first = await register(app, 'first@example.com');
+      expect(first.user.role).toBe('viewer');
+      await request(app).post('/auth/register')
+        .send({ email: 'guess@example.com', password: 'correct horse', bootstrap_token: 'guess' })
+        .expect(403);
+    } finally {
+      db.prepare("UPDATE users SET role = 'admin' WHERE id = ?").run(admin.user.id);
+    }
+  });
+
+  test('viewers cannot build, review drafts, configure plugins or clear sessions', async () => {
+    await request(app).get('/skills').set(as(member.token)).expect(200);
+    await request(app).post('/skills').set(as(member.token)).send({ name: 'Nope' }).expect(403);
+    await request(app).put('/plugins/provider-openai').set(as(member.token)).send({ enabled: false }).expect(403);
+    await request(app).delete('/sessions').set(as(member.token)).expect(403);
+    await request(app).get('/auth/users').set(as(member.token)).expect(403);
+  });
+
+  test('only admins can approve drafts, which belong to their proposer', async () => {
+    const db = getDatabase();
+    // Proposed from a chat in a workspace the reviewer belongs to
+    const workspaceId = ensurePersonalWorkspace(admin.user.id);
+    db.prepare("INSERT INTO workspace_members (workspace_id, user_id, role) VALUES (?, ?, 'member')")
+      .run(workspaceId, member.user.id);
+    db.prepare("INSERT INTO sessions (id, channel_type, channel_id, user_id, workspace_id) VALUES ('s-member', 'web', 'c-member', ?, ?)")
+      .run(member.user.id, workspaceId);
+    const draftId = Number(db.prepare(`
+      INSERT INTO skill_drafts (skill_type, proposed_by_session, name, steps) VALUES ('skill', 's-member', 'Proposed', '[]')
+    `).run().lastInsertRowid);
+
+    await request(app).post(`/skills/drafts/${draftId}/approve`).set(as(member.token)).expect(403);
+    await request(app).post(`/skills/drafts/${draftId}/approve`).set(as(admin.token)).expect(200);
+
+    const skill = db.prepare("SELECT created_by FROM skills WHERE name = 'Proposed'").get() as { created_by: number };
+    expect(skill.created_by).toBe(member.user.id);
+  });
+
+  test('operators can only run active skills', async () => {
+    const promoted = await request(app)
+      .put(`/auth/users/${member.user.id}/role`)
+      .set(as(admin.token))
+      .send({ role: 'operator' });
+    expect(promoted.status).toBe(200);
+    expect(promoted.body.role).toBe('operator');
+
+    const me = await request(app).get('/auth/me').set(as(member.token));
+    expect(me.body.user.permissions).toEqual(['assets:run']);
+
+    const draftSkillId = Number(getDatabase().prepare(
+      "INSERT INTO skills (name, created_by, workspace_id, status) VALUES ('Unpublished', ?, ?, 'draft')"
+    ).run(member.user.id, ensurePersonalWorkspace(member.user.id)).lastInsertRowid);
+
+    const res = await request(app).post('/executions').set(as(member.token)).send({ skill_id: draftSkillId });
+    expect(res.status).toBe(403);
+    expect(res.body.error).toBe('Only active skills can be run');
+    await request(app).post('/skills').set(as(member.token)).send({ name: 'Still nope' }).expect(403);
+  });
+
+  test('rejects unknown roles and keeps at least one admin', async () => {
+    await request(app).put(`/auth/users/${member.user.id}/role`).set(as(admin.token)).send({ role: 'root' }).expect(400);
+    // The seeded demo account is also an admin, so it can be demoted but the last one cannot
+    await request(app).put('/auth/users/1/role').set(as(admin.token)).send({ role: 'viewer' }).expect(200);
+    await request(app).put(`/auth/users/${admin.user.id}/role`).set(as(admin.token)).send({ role: 'viewer' }).expect(409);
+  });
+});
@@ -9,6 +9,8 @@ jest.mock('../../models/database', () => ({
 // Mock auth middleware to pass through
 jest.mock('../../middleware/auth', () => ({
   authMiddleware: (_req: any, _res: any, next: any) => next(),
+  requireOwnership: () => (_req: any, _res: any, next: any) => next(),
+  requirePermission: () => (_req: any, _res: any, next: any) => next(),
 }));
 
 import { getDatabase } from '../../models/database';
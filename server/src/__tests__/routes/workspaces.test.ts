@@ -0,0 +1,254 @@
+import request from 'supertest';
+import express from 'express';
+
+process.env.DATABASE_PATH = ':memory:';
+process.env.ADMIN_BOOTSTRAP_TOKEN = 'bootstrap-secret';
+process.env.DEFAULT_USER_ROLE = 'builder';
+
+import { initializeDatabase, getDatabase, ensurePersonalWorkspace } from '../../models/database';
+import authRouter from '../../routes/auth';
+import skillsRouter from '../../routes/skills';
+import skillDraftsRouter from '../../routes/skillDrafts';
+import standardsRouter from '../../routes/standards';
+import workspacesRouter from '../../routes/workspaces';
+import executionsRouter from '../../routes/executions';
+import { compilePrompt } from '../../services/promptParser';
+import { logUsage } from '../../services/usageTrackingService';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/auth', authRouter);
+  app.use('/skills/drafts', skillDraftsRouter);
+  app.use('/skills', skillsRouter);
+  app.use('/standards', standardsRouter);
+  app.use('/workspaces', workspacesRouter);
+  app.use('/executions', executionsRouter);
+  return app;
+}
+
+const BOOTSTRAP_TOKEN = 'bootstrap-secret';
+
+async function register(app: express.Express, email: string, fields: Record<string, string> = {}) {
+  const res = await request(app).post('/auth/register').send({ email, password: 'correct horse', ...fields });
+  expect(res.status).toBe(201);
+  return { token: res.body.token as string, userId: res.body.user.id as number };
+}
+
+describe('workspaces', () => {
+  let app: express.Express;
+  let owner: { token: string; userId: number };
+  let teammate: { token: string; userId: number };
+  let outsider: { token: string; userId: number };
+  let marketingId: number;
+
+  const as = (token: string, workspaceId?: number) => ({
+    Authorization: `Bearer ${token}`,
+    ...(workspaceId ? { 'X-Workspace-Id': String(workspaceId) } : {}),
+  });
+  const skillNames = (res: request.Response) => res.body.map((s: any) => s.name);
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    initializeDatabase();
+    app = makeApp();
+    owner = await register(app, 'owner@example.com', { bootstrap_token: BOOTSTRAP_TOKEN });
+    teammate = await register(app, 'teammate@example.com');
+    outsider = await register(app, 'outsider@example.com');
+
+    const created = await request(app).post('/workspaces').set(as(owner.token)).send({ name: 'Marketing' });
+    expect(created.status).toBe(201);
+    marketingId = created.body.id;
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('lists a personal workspace and the ones the user created', async () => {
+    const res = await request(app).get('/workspaces').set(as(owner.token));
+    expect(res.status).toBe(200);
+    expect(res.body.map((w: any) => w.name)).toEqual(["owner's workspace", 'Marketing']);
+    expect(res.body.every((w: any) => w.role === 'admin')).toBe(true);
+
+    await request(app).get('/skills').set(as(outsider.token, marketingId)).expect(403);
+  });
+
+  test('scopes skills to the active workspace and lets members edit them', async () => {
+    const skill = await request(app)
+      .post('/skills')
+      .set(as(owner.token, marketingId))
+      .send({ name: 'Campaign brief' });
+    expect(skill.status).toBe(201);
+    expect(skill.body.workspace_id).toBe(marketingId);
+
+    const personal = await request(app).get('/skills').set(as(owner.token));
+    expect(skillNames(personal)).not.toContain('Campaign brief');
+    const marketing = await request(app).get('/skills').set(as(owner.token, marketingId));
+    expect(skillNames(marketing)).toEqual(['Campaign brief']);
+
+    await request(app).get(`/skills/${skill.body.id}`).set(as(teammate.token)).expect(403);
+    const added = await request(app)
+      .post(`/workspaces/${marketingId}/members`)
+      .set(as(owner.token))
+      .send({ email: 'Teammate@example.com' });
+    expect(added.status).toBe(201);
+    expect(added.body.role).toBe('member');
+
+    await request(app)
+      .put(`/skills/${skill.body.id}`)
+      .set(as(teammate.token, marketingId))
+      .send({ description: 'Edited by a teammate' })
+      .expect(200);
+  });
+
+  test('workspace admins share assets read-only or publish them to everyone', async () => {
+    const skill = await request(app)
+      .post('/skills')
+      .set(as(owner.token, marketingId))
+      .send({ name: 'Tone checker' });
+    const outsiderWorkspaceId = ensurePersonalWorkspace(outsider.userId);
+
+    const denied = await request(app)
+      .post('/workspaces/shares')
+      .set(as(teammate.token))
+      .send({ asset_type: 'skill', asset_id: skill.body.id, workspace_id: outsiderWorkspaceId });
+    expect(denied.status).toBe(403);
+
+    const shared = await request(app)
+      .post('/workspaces/shares')
+      .set(as(owner.token))
+      .send({ asset_type: 'skill', asset_id: skill.body.id, workspace_id: outsiderWorkspaceId });
+    expect(shared.status).toBe(201);
+
+    expect(skillNames(await request(app).get('/skills').set(as(outsider.token)))).toContain('Tone checker');
+    await request(app).get(`/skills/${skill.body.id}`).set(as(outsider.token)).expect(200);
+    await request(app).put(`/skills/${skill.body.id}`).set(as(outsider.token)).send({ name: 'Mine now' }).expect(403);
+    expect(skillNames(await request(app).get('/skills').set(as(teammate.token)))).not.toContain('Tone checker');
+
+    await request(app).delete(`/workspaces/shares/${shared.body.id}`).set(as(owner.token)).expect(200);
+    expect(skillNames(await request(app).get('/skills').set(as(outsider.token)))).not.toContain('Tone checker');
+
+    const published = await request(app)
+      .post('/workspaces/shares')
+      .set(as(owner.token))
+      .send({ asset_type: 'skill', asset_id: skill.body.id, workspace_id: null });
+    expect(published.status).toBe(201);
+    expect(skillNames(await request(app).get('/skills').set(as(outsider.token)))).toContain('Tone checker');
+    expect(skillNames(await request(app).get('/skills').set(as(teammate.token)))).toContain('Tone checker');
+  });
+
+  test('drafts that edit a skill need access to that skill', async () => {
+    const skill = await request(app)
+      .post('/skills')
+      .set(as(owner.token, marketingId))
+      .send({ name: 'Launch plan' });
+    const draftId = Number(getDatabase().prepare(`
+      INSERT INTO skill_drafts (skill_type, original_skill_id, name, steps) VALUES ('skill', ?, 'Launch plan v2', '[]')
+    `).run(skill.body.id).lastInsertRowid);
+
+    await request(app).get(`/skills/drafts/${draftId}`).set(as(outsider.token)).expect(403);
+    await request(app).post(`/skills/drafts/${draftId}/tests/run`).set(as(outsider.token)).expect(403);
+
+    const draft = await request(app).get(`/skills/drafts/${draftId}`).set(as(owner.token, marketingId));
+    expect(draft.status).toBe(200);
+    expect(draft.body.original.name).toBe('Launch plan');
+    const run = await request(app).post(`/skills/drafts/${draftId}/tests/run`).set(as(owner.token, marketingId));
+    expect(run.status).toBe(400);
+    expect(run.body.error).toBe('This skill has no test cases');
+  });
+
+  test('lists and reviews drafts only within their workspace', async () => {
+    const db = getDatabase();
+    const skill = await request(app)
+      .post('/skills')
+      .set(as(owner.token, marketingId))
+      .send({ name: 'Press release' });
+    const editId = Number(db.prepare(`
+      INSERT INTO skill_drafts (skill_type, original_skill_id, name, steps) VALUES ('skill', ?, 'Press release v2', '[]')
+    `).run(skill.body.id).lastInsertRowid);
+    const newId = Number(db.prepare(`
+      INSERT INTO skill_drafts (skill_type, workspace_id, name, steps) VALUES ('skill', ?, 'Imported brief', '[]')
+    `).run(marketingId).lastInsertRowid);
+    const draftNames = (res: request.Response) => res.body.map((d: any) => d.name);
+
+    const marketing = await request(app).get('/skills/drafts').set(as(owner.token, marketingId));
+    expect(draftNames(marketing)).toEqual(expect.arrayContaining(['Press release v2', 'Imported brief']));
+    expect(draftNames(await request(app).get('/skills/drafts').set(as(owner.token)))).not.toContain('Imported brief');
+
+    // A reviewer from another workspace can neither see nor decide on them
+    db.prepare("UPDATE users SET role = 'admin' WHERE id = ?").run(outsider.userId);
+    try {
+      const listed = await request(app).get('/skills/drafts').set(as(outsider.token));
+      expect(draftNames(listed)).not.toContain('Press release v2');
+      expect(draftNames(listed)).not.toContain('Imported brief');
+      await request(app).post(`/skills/drafts/${editId}/approve`).set(as(outsider.token)).expect(403);
+      await request(app).post(`/skills/drafts/${newId}/reject`).set(as(outsider.token)).expect(403);
+    } finally {
+      db.prepare("UPDATE users SET role = 'builder' WHERE id = ?").run(outsider.userId);
+    }
+
+    await request(app).post(`/skills/drafts/${editId}/approve`).set(as(owner.token, marketingId)).expect(200);
+    await request(app).post(`/skills/drafts/${newId}/reject`).set(as(owner.token, marketingId)).expect(200);
+  });
+
+  test('company standards resolve from the workspace being run in', async () => {
+    const voice = (tone: string) => ({ tone, style: 'short', guidelines: [] });
+    await request(app).post('/standards').set(as(owner.token))
+      .send({ standard_type: 'voice', name: 'Brand voice', content: voice('personal') }).expect(201);
+    await request(app).post('/standards').set(as(owner.token, marketingId))
+      .send({ standard_type: 'voice', name: 'Brand voice', content: voice('marketing') }).expect(201);
+
+    const listed = await request(app).get('/standards').set(as(owner.token, marketingId));
+    expect(listed.body.map((s: any) => s.content.tone)).toEqual(['marketing']);
+
+    const compile = (workspaceId?: number) => compilePrompt('{{brand_voice}}', {
+      userId: owner.userId,
+      workspaceId,
+      userInputs: {},
+      stepExecutions: [],
+    }).compiledPrompt;
+    expect(compile(marketingId)).toContain('marketing');
+    expect(compile()).toContain('personal');
+  });
+
+  test('enforces the monthly request quota', async () => {
+    await request(app)
+      .put(`/workspaces/${marketingId}`)
+      .set(as(teammate.token))
+      .send({ monthly_request_quota: 1 })
+      .expect(403);
+    const updated = await request(app)
+      .put(`/workspaces/${marketingId}`)
+      .set(as(owner.token))
+      .send({ monthly_request_quota: 1 });
+    expect(updated.body.monthly_request_quota).toBe(1);
+
+    logUsage(teammate.userId, 'manus', 'chat_task', 1, 0, undefined, marketingId);
+
+    const usage = await request(app).get(`/workspaces/${marketingId}/usage`).set(as(teammate.token));
+    expect(usage.body.month_requests).toBe(1);
+    expect(usage.body.by_member).toEqual([{ user_id: teammate.userId, email: 'teammate@example.com', requests: 1 }]);
+
+    const skillId = (getDatabase().prepare(
+      "SELECT id FROM skills WHERE name = 'Campaign brief'"
+    ).get() as { id: number }).id;
+    const blocked = await request(app)
+      .post('/executions')
+      .set(as(teammate.token, marketingId))
+      .send({ skill_id: skillId });
+    expect(blocked.status).toBe(429);
+  });
+
+  test('keeps at least one admin per workspace', async () => {
+    await request(app)
+      .put(`/workspaces/${marketingId}/members/${owner.userId}`)
+      .set(as(owner.token))
+      .send({ role: 'member' })
+      .expect(409);
+    await request(app).delete(`/workspaces/${marketingId}/members/${owner.userId}`).set(as(owner.token)).expect(409);
+
+    await request(app).delete(`/workspaces/${marketingId}/members/${teammate.userId}`).set(as(teammate.token)).expect(200);
+    await request(app).get('/skills').set(as(teammate.token, marketingId)).expect(403);
+  });
+});
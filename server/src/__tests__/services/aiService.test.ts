@@ -0,0 +1,116 @@
+process.env.DATABASE_PATH = ':memory:';
+
+import { initializeDatabase, getDatabase } from '../../models/database';
+import { pluginRegistry } from '../../plugins/registry';
+import { CompletionRequest, ProviderPlugin, StreamEvent } from '../../plugins/types';
+import {
+  callAIByModel,
+  getAllModels,
+  getAvailableModels,
+  getProviderForModel,
+  streamCompletion,
+} from '../../services/aiService';
+
+function makeProvider(name: string, overrides: Partial<ProviderPlugin> = {}): ProviderPlugin {
+  return {
+    manifest: {
+      name,
+      version: '1.0.0',
+      type: 'provider',
+      displayName: name,
+      description: 'Test provider',
+      entry: './index.ts',
+    },
+    async initialize() {},
+    async shutdown() {},
+    listModels: () => [{
+      id: `${name}-model`,
+      name: `${name} model`,
+      provider: name,
+      supportsStreaming: true,
+      supportsTools: true,
+    }],
+    async *stream(request: CompletionRequest): AsyncIterable<StreamEvent> {
+      yield { type: 'text', text: 'echo: ' };
+      yield { type: 'text', text: String(request.messages[0].content) };
+      yield { type: 'done' };
+    },
+    ...overrides,
+  };
+}
+
+describe('aiService model routing', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    initializeDatabase();
+    pluginRegistry.register('provider', 'community-echo', makeProvider('community-echo'));
+    pluginRegistry.register('provider', 'community-complete', makeProvider('community-complete', {
+      complete: async () => ({ text: 'completed', usage: { promptTokens: 3, completionTokens: 1 } }),
+    }));
+    pluginRegistry.register('provider', 'community-nokey', makeProvider('community-nokey', {
+      isConfigured: () => false,
+    }));
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('lists models from every registered provider plugin', () => {
+    const all = getAllModels().map((m) => m.id);
+    expect(all).toEqual(expect.arrayContaining(['community-echo-model', 'community-complete-model', 'community-nokey-model']));
+    expect(getProviderForModel('community-echo-model')).toBe('community-echo');
+
+    const available = getAvailableModels().map((m) => m.id);
+    expect(available).toContain('community-echo-model');
+    expect(available).not.toContain('community-nokey-model');
+  });
+
+  test('collects streamed text for providers without complete()', async () => {
+    const res = await callAIByModel('community-echo-model', 'hello');
+    expect(res).toMatchObject({ success: true, content: 'echo: hello' });
+  });
+
+  test('prefers complete() and passes usage through', async () => {
+    const res = await callAIByModel('community-complete-model', 'hello');
+    expect(res.content).toBe('completed');
+    expect(res.usage).toEqual({ promptTokens: 3, completionTokens: 1 });
+  });
+
+  test('reports unknown models instead of throwing', async () => {
+    const res = await callAIByModel('no-such-model', 'hello');
+    expect(res.success).toBe(false);
+    expect(res.error).toBe('Unknown model: no-such-model');
+
+    const events: StreamEvent[] = [];
+    for await (const event of streamCompletion({ model: 'no-such-model', messages: [] })) events.push(event);
+    expect(events).toEqual([{ type: 'error', error: 'Unknown model: no-such-model' }]);
+  });
+
+  test('adds the response schema to the system prompt for models without native support', async () => {
+    const requests: CompletionRequest[] = [];
+    pluginRegistry.register('provider', 'community-capture', makeProvider('community-capture', {
+      complete: async (request) => {
+        requests.push(request);
+        return { text: '{}' };
+      },
+    }));
+
+    const schema = { type: 'object', properties: { title: { type: 'string' } } };
+    await callAIByModel('community-capture-model', 'hello', {
+      systemMessage: 'Be brief.',
+      responseSchema: { name: 'step_output', schema },
+    });
+
+    expect(requests[0].responseSchema).toEqual({ name: 'step_output', schema });
+    expect(requests[0].systemPrompt).toMatch(/^Be brief\.\n\nRespond with a single JSON value/);
+    expect(requests[0].systemPrompt).toContain('"title"');
+  });
+
+  test('hides models of disabled plugins', () => {
+    getDatabase().prepare(
+      "INSERT INTO plugin_configs (plugin_name, plugin_type, enabled) VALUES ('community-echo', 'provider', 0)"
+    ).run();
+    expect(getAllModels().map((m) => m.id)).not.toContain('community-echo-model');
+  });
+});
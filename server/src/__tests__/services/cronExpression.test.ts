@@ -0,0 +1,60 @@
+import {
+  parseCronExpression,
+  validateCronExpression,
+  getNextRunTime,
+  getNextRunTimes,
+} from '../../services/cronExpression';
+
+// Dates are built in local time because cron is evaluated in server-local time
+function local(year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  return new Date(year, month - 1, day, hour, minute, 0, 0);
+}
+
+describe('cronExpression', () => {
+  test('parses ranges, steps, lists and names', () => {
+    const cron = parseCronExpression('*/15 9-17 1,15 JAN-MAR MON-FRI');
+    expect(Array.from(cron.minutes)).toEqual([0, 15, 30, 45]);
+    expect(cron.hours.size).toBe(9);
+    expect(Array.from(cron.daysOfMonth)).toEqual([1, 15]);
+    expect(Array.from(cron.months)).toEqual([1, 2, 3]);
+    expect(Array.from(cron.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test('rejects malformed expressions', () => {
+    expect(validateCronExpression('* * * *').valid).toBe(false);
+    expect(validateCronExpression('60 * * * *').error).toContain('out of range');
+    expect(validateCronExpression('*/0 * * * *').valid).toBe(false);
+    expect(validateCronExpression('@weekly').valid).toBe(true);
+  });
+
+  test('finds the next Monday 09:00 run', () => {
+    // 2024-01-03 is a Wednesday
+    const next = getNextRunTime('0 9 * * MON', local(2024, 1, 3, 12, 30));
+    expect(next).toEqual(local(2024, 1, 8, 9, 0));
+  });
+
+  test('next run is strictly after the reference time', () => {
+    const next = getNextRunTime('30 8 * * *', local(2024, 5, 1, 8, 30));
+    expect(next).toEqual(local(2024, 5, 2, 8, 30));
+  });
+
+  test('treats 7 as Sunday', () => {
+    expect(getNextRunTime('0 0 * * 7', local(2024, 1, 1))).toEqual(local(2024, 1, 7));
+  });
+
+  test('matches either day field when both are restricted', () => {
+    // 1st of the month OR any Friday; 2024-03-01 is a Friday, 2024-03-08 the next one
+    const runs = getNextRunTimes('0 6 1 * FRI', 3, local(2024, 2, 28));
+    expect(runs).toEqual([local(2024, 3, 1, 6), local(2024, 3, 8, 6), local(2024, 3, 15, 6)]);
+  });
+
+  test('requires both day fields when one starts with *', () => {
+    // Odd days of the month that are Mondays: 2024-01-01, 01-15 and 01-29
+    const runs = getNextRunTimes('0 0 */2 * 1', 3, local(2023, 12, 31));
+    expect(runs).toEqual([local(2024, 1, 1), local(2024, 1, 15), local(2024, 1, 29)]);
+  });
+
+  test('returns null for expressions that never fire', () => {
+    expect(getNextRunTime('0 0 31 2 *', local(2024, 1, 1))).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Evaluation tests run against an in-memory SQLite database. Two provider
+ * plugins put `smart-model` and `fast-model` in the catalog; every AI call,
+ * the variants' and the judge's, goes through a spy on `callAIByModel`.
+ */
+process.env.DATABASE_PATH = ':memory:';
+
+import { initializeDatabase, getDatabase, ensurePersonalWorkspace } from '../../models/database';
+import { pluginRegistry } from '../../plugins/registry';
+import { ProviderPlugin } from '../../plugins/types';
+import * as aiService from '../../services/aiService';
+import {
+  EvaluationError,
+  INTERRUPTED_EVALUATION_ERROR,
+  createEvaluation,
+  deleteEvaluation,
+  executeEvaluation,
+  getEvaluationReport,
+  recoverInterruptedEvaluations,
+  scoreEvaluationResult,
+  startEvaluation,
+} from '../../services/evaluations';
+
+function catalogProvider(name: string): ProviderPlugin {
+  return {
+    manifest: { name, version: '1.0.0', type: 'provider', displayName: name, description: 'Test provider', entry: './index.ts' },
+    async initialize() {},
+    async shutdown() {},
+    listModels: () => [{ id: `${name}-model`, name: `${name} model`, provider: name, supportsStreaming: false, supportsTools: false }],
+    async *stream() {
+      yield { type: 'done' as const };
+    },
+  };
+}
+
+describe('evaluations', () => {
+  let workspaceId: number;
+  let skillId: number;
+  let callAI: jest.SpyInstance;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    initializeDatabase();
+    pluginRegistry.register('provider', 'smart', catalogProvider('smart'));
+    pluginRegistry.register('provider', 'fast', catalogProvider('fast'));
+    getDatabase().prepare("INSERT INTO model_prices (model, input_per_mtok, output_per_mtok) VALUES ('smart-model', 2, 8)").run();
+    workspaceId = ensurePersonalWorkspace(1);
+    callAI = jest.spyOn(aiService, 'callAIByModel').mockImplementation(async (model, prompt) => {
+      if (prompt.startsWith('You are scoring')) {
+        const score = prompt.includes('[smart-model]') ? 5 : 2;
+        return { success: true, content: `{"score": ${score}, "reason": "Scored ${score}"}`, model };
+      }
+      if (model === 'fast-model' && prompt.startsWith('List reviews')) {
+        return { success: false, content: '', model, error: 'Rate limited' };
+      }
+      return { success: true, content: `[${model}] ${prompt}`, model, usage: { promptTokens: 100, completionTokens: 10 } };
+    });
+  });
+
+  beforeEach(() => {
+    const db = getDatabase();
+    skillId = Number(db.prepare(
+      "INSERT INTO skills (name, description, created_by, workspace_id) VALUES ('Review report', 'test', 1, ?)"
+    ).run(workspaceId).lastInsertRowid);
+    const insertStep = db.prepare(`
+      INSERT INTO skill_steps (parent_id, parent_type, step_order, step_name, step_type, ai_model, prompt_template)
+      VALUES (?, 'skill', ?, ?, ?, ?, ?)
+    `);
+    insertStep.run(skillId, 1, 'Fetch', 'ai', 'smart-model', 'List reviews for {{product}}');
+    insertStep.run(skillId, 2, 'Report', 'ai', 'smart-model', 'Summarize: {{step_1_output}}');
+    callAI.mockClear();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('rejects unknown models, prompt variants without a step and bad datasets', () => {
+    expect(() => createEvaluation({
+      name: 'Bad',
+      parent_type: 'skill',
+      parent_id: skillId,
+      variants: [{ model: 'no-such-model' }, { model: 'smart-model', prompt_template: 'Hi' }],
+      dataset: [{ product: 'mug' }, 'mug'],
+    }, 1, workspaceId)).toThrow(
+      'Variant 1: unknown model "no-such-model"; Variant 2: prompt variants need a step; every dataset row must be an object of inputs'
+    );
+
+    // Someone outside the workspace can't see the skill
+    const outsider = Number(getDatabase().prepare("INSERT INTO users (email, password_hash) VALUES (?, '')")
+      .run(`outsider${skillId}@example.com`).lastInsertRowid);
+    let error: EvaluationError | undefined;
+    try {
+      createEvaluation({ name: 'Hidden', parent_type: 'skill', parent_id: skillId, variants: [], dataset: [] }, outsider, ensurePersonalWorkspace(outsider));
+    } catch (err: any) {
+      error = err;
+    }
+    expect(error).toMatchObject({ status: 404, message: 'Skill not found' });
+  });
+
+  test('compares models and prompt variants on one step, with judge and reviewer scores', async () => {
+    const evaluation = createEvaluation({
+      name: 'Report prompts',
+      parent_type: 'skill',
+      parent_id: skillId,
+      step_order: 2,
+      variants: [
+        { model: 'smart-model' },
+        { label: 'Terse', model: 'fast-model', prompt_template: 'In one line: {{step_1_output}}' },
+      ],
+      dataset: [{ step_1_output: 'Sturdy mug' }, { step_1_output: 'Leaky mug' }],
+      judge: { model: 'smart-model', rubric: 'Names the product' },
+    }, 1, workspaceId);
+    expect(evaluation.variants).toEqual([
+      { label: 'smart-model', model: 'smart-model', prompt_template: null },
+      { label: 'Terse', model: 'fast-model', prompt_template: 'In one line: {{step_1_output}}' },
+    ]);
+
+    startEvaluation(evaluation.id);
+    expect(() => startEvaluation(evaluation.id)).toThrow('Evaluation is already running');
+    await executeEvaluation(evaluation.id);
+
+    const report = getEvaluationReport(evaluation.id, workspaceId)!;
+    expect(report.evaluation.status).toBe('completed');
+    expect(report.results.map((cell) => [cell.row_index, cell.variant_index, cell.output])).toEqual([
+      [0, 0, '[smart-model] Summarize: Sturdy mug'],
+      [0, 1, '[fast-model] In one line: Sturdy mug'],
+      [1, 0, '[smart-model] Summarize: Leaky mug'],
+      [1, 1, '[fast-model] In one line: Leaky mug'],
+    ]);
+    expect(report.results[0]).toMatchObject({ status: 'completed', prompt_tokens: 100, completion_tokens: 10, judge_score: 5 });
+    expect(report.results[0].cost_usd).toBeCloseTo(0.00028);
+    expect(report.summary.map((variant) => [variant.label, variant.completed, variant.prompt_tokens, variant.avg_judge_score]))
+      .toEqual([['smart-model', 2, 200, 5], ['Terse', 2, 200, 2]]);
+
+    const scored = scoreEvaluationResult(evaluation.id, report.results[1].id, 4, 1);
+    expect(scored).toMatchObject({ human_score: 4, scored_by: 1 });
+    expect(() => scoreEvaluationResult(evaluation.id, report.results[1].id, 9, 1)).toThrow('whole number from 1 to 5');
+    expect(getEvaluationReport(evaluation.id, workspaceId)!.summary[1].avg_human_score).toBe(4);
+    expect(getEvaluationReport(evaluation.id, workspaceId + 1)).toBeNull();
+  });
+
+  test('runs the whole skill on each model and records failed cells', async () => {
+    const evaluation = createEvaluation({
+      name: 'Skill models',
+      parent_type: 'skill',
+      parent_id: skillId,
+      variants: [{ model: 'smart-model' }, { model: 'fast-model' }],
+      dataset: [{ product: 'mug' }],
+    }, 1, workspaceId);
+    startEvaluation(evaluation.id);
+    await executeEvaluation(evaluation.id);
+
+    const [first, second] = getEvaluationReport(evaluation.id, workspaceId)!.results;
+    expect(first).toMatchObject({ status: 'completed', output: '[smart-model] Summarize: [smart-model] List reviews for mug' });
+    expect(first.execution_id).not.toBeNull();
+    expect(second).toMatchObject({ status: 'failed', output: null });
+    expect(second.error).toBe('Step 1 failed: Rate limited');
+  });
+
+  test('an evaluation left running by a restart fails and can be re-run and deleted', async () => {
+    const evaluation = createEvaluation({
+      name: 'Interrupted',
+      parent_type: 'skill',
+      parent_id: skillId,
+      step_order: 1,
+      variants: [{ model: 'smart-model' }],
+      dataset: [{ product: 'mug' }],
+    }, 1, workspaceId);
+    // The previous process started it but never got to run the cells
+    startEvaluation(evaluation.id);
+    expect(() => startEvaluation(evaluation.id)).toThrow('Evaluation is already running');
+    expect(() => deleteEvaluation(evaluation.id)).toThrow('Evaluation is still running');
+
+    expect(recoverInterruptedEvaluations()).toEqual([evaluation.id]);
+    const report = getEvaluationReport(evaluation.id, workspaceId)!;
+    expect(report.evaluation.status).toBe('failed');
+    expect(report.results[0]).toMatchObject({ status: 'failed', error: INTERRUPTED_EVALUATION_ERROR });
+
+    startEvaluation(evaluation.id);
+    await executeEvaluation(evaluation.id);
+    expect(getEvaluationReport(evaluation.id, workspaceId)!.evaluation.status).toBe('completed');
+
+    deleteEvaluation(evaluation.id);
+    expect(getEvaluationReport(evaluation.id, workspaceId)).toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Fork tests run against an in-memory SQLite database with a recording
+ * `http` executor, so they can see which steps a fork re-runs.
+ */
+process.env.DATABASE_PATH = ':memory:';
+
+import { initializeDatabase, getDatabase, queries } from '../../models/database';
+import { registerExecutor } from '../../executors/registry';
+import { StepExecutor } from '../../executors/StepExecutor';
+import { retryStep, startExecution, validateForkPoint } from '../../services/workflowEngine';
+import { diffForkedExecution, diffLines } from '../../services/executionDiff';
+import { RecipeStep, StepExecution, WorkflowExecution } from '../../types';
+
+describe('diffLines', () => {
+  test('marks added and removed lines around common ones', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc\nd')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'same', text: 'c' },
+      { type: 'added', text: 'd' },
+    ]);
+  });
+
+  test('handles empty texts', () => {
+    expect(diffLines('', '')).toEqual([]);
+    expect(diffLines('', 'new')).toEqual([{ type: 'added', text: 'new' }]);
+    expect(diffLines('old', '')).toEqual([{ type: 'removed', text: 'old' }]);
+  });
+});
+
+describe('execution forks', () => {
+  let calls: string[];
+  let failing: string[];
+
+  const recordingExecutor: StepExecutor = {
+    type: 'http',
+    displayName: 'HTTP Request',
+    icon: '🌐',
+    description: 'Recording test executor',
+    validateConfig: () => ({ valid: true, errors: [] }),
+    getConfigSchema: () => ({ fields: [] }),
+    async execute(step, context) {
+      calls.push(step.step_name);
+      if (failing.includes(step.step_name)) {
+        return { success: false, content: '', error: `${step.step_name} failed` };
+      }
+      const previous = context.completedStepExecutions
+        .filter((se) => se.step_order === step.step_order - 1)
+        .map((se) => JSON.parse(se.output_data || '{}').content)[0];
+      return { success: true, content: `${step.step_name}(${previous ?? 'start'})`, modelUsed: 'http' };
+    },
+  };
+
+  function createRecipe(stepNames: string[]): number {
+    const db = getDatabase();
+    const recipeId = Number(db.prepare(
+      "INSERT INTO recipes (name, description, created_by) VALUES ('Forked', 'test', 1)"
+    ).run().lastInsertRowid);
+    stepNames.forEach((name, index) => db.prepare(
+      "INSERT INTO recipe_steps (recipe_id, step_order, step_name, step_type, executor_config) VALUES (?, ?, ?, 'http', '{}')"
+    ).run(recipeId, index + 1, name));
+    return recipeId;
+  }
+
+  async function waitForRun(executionId: number): Promise<WorkflowExecution> {
+    let execution = queries.getExecutionById(executionId) as WorkflowExecution;
+    for (let i = 0; i < 50 && execution.status === 'running'; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      execution = queries.getExecutionById(executionId) as WorkflowExecution;
+    }
+    return execution;
+  }
+
+  const outputs = (executionId: number) => (queries.getStepExecutionsByExecutionId(executionId) as StepExecution[])
+    .map((se) => JSON.parse(se.output_data || '{}').content);
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    initializeDatabase();
+    registerExecutor(recordingExecutor);
+  });
+
+  beforeEach(() => {
+    calls = [];
+    failing = [];
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('copies results up to the fork step, edits it and re-runs the rest', async () => {
+    const recipeId = createRecipe(['Scrape', 'Summarize', 'Draft']);
+    const { executionId: originalId } = await startExecution(recipeId, 1, {});
+    await waitForRun(originalId);
+    expect(outputs(originalId)).toEqual(['Scrape(start)', 'Summarize(Scrape(start))', 'Draft(Summarize(Scrape(start)))']);
+
+    calls = [];
+    const { executionId: forkId } = await startExecution(recipeId, 1, {}, undefined, {
+      fork: { executionId: originalId, stepOrder: 2, content: 'Edited summary' },
+    });
+    const fork = await waitForRun(forkId);
+
+    expect(calls).toEqual(['Draft']);
+    expect(fork).toMatchObject({ status: 'completed', forked_from_id: originalId, forked_from_step: 2 });
+    expect(outputs(forkId)).toEqual(['Scrape(start)', 'Edited summary', 'Draft(Edited summary)']);
+    const edited = (queries.getStepExecutionsByExecutionId(forkId) as StepExecution[])[1];
+    expect(JSON.parse(edited.output_data!)).toMatchObject({ edited_by: 1 });
+
+    const diff = diffForkedExecution(fork)!;
+    expect(diff.steps.map((step) => [step.step_name, step.changed, step.edited])).toEqual([
+      ['Scrape', false, false],
+      ['Summarize', true, true],
+      ['Draft', true, false],
+    ]);
+    expect(diff.steps[1].lines).toEqual([
+      { type: 'removed', text: 'Summarize(Scrape(start))' },
+      { type: 'added', text: 'Edited summary' },
+    ]);
+  });
+
+  test('only forks after steps that finished', async () => {
+    const recipeId = createRecipe(['Scrape', 'Summarize']);
+    const { executionId } = await startExecution(recipeId, 1, {});
+    await waitForRun(executionId);
+    const second = (queries.getStepExecutionsByExecutionId(executionId) as StepExecution[])[1];
+    queries.setStepExecutionError('failed', 'boom', second.id);
+
+    expect(validateForkPoint(executionId, 1)).toBeNull();
+    expect(validateForkPoint(executionId, 2)).toBe('Step 2 has not completed');
+    expect(validateForkPoint(executionId, 5)).toMatch(/not found/);
+  });
+
+  test('deleting the original keeps its forks', async () => {
+    const recipeId = createRecipe(['Scrape', 'Summarize']);
+    const { executionId: originalId } = await startExecution(recipeId, 1, {});
+    await waitForRun(originalId);
+    const { executionId: forkId } = await startExecution(recipeId, 1, {}, undefined, {
+      fork: { executionId: originalId, stepOrder: 1 },
+    });
+    await waitForRun(forkId);
+
+    queries.deleteExecution(originalId);
+    const fork = queries.getExecutionById(forkId) as WorkflowExecution;
+    expect(fork.forked_from_id).toBeNull();
+    expect(diffForkedExecution(fork)).toBeNull();
+  });
+
+  test('retrying a step runs the branches the execution was started with', async () => {
+    // Edited template steps keep the recipe's step ids but not its definitions
+    const recipeId = createRecipe(['Scrape', 'Summarize', 'Draft']);
+    const [group, first, second] = queries.getStepsByRecipeId(recipeId) as RecipeStep[];
+    failing = ['Variant B'];
+    const { executionId } = await startExecution(recipeId, 1, {}, [
+      { ...group, step_name: 'Variants', step_type: 'parallel', executor_config: JSON.stringify({ branches: [2, 3] }) },
+      { ...first, step_name: 'Variant A' },
+      { ...second, step_name: 'Variant B' },
+    ]);
+    expect(await waitForRun(executionId)).toMatchObject({ status: 'paused' });
+
+    calls = [];
+    failing = [];
+    const groupExecution = (queries.getStepExecutionsByExecutionId(executionId) as StepExecution[])[0];
+    const result = await retryStep(executionId, groupExecution.id, 1);
+
+    expect(result.success).toBe(true);
+    expect(calls).toEqual(['Variant B']);
+    expect(result.stepResults.map((step) => [step.stepName, step.status])).toEqual([
+      ['Variants', 'awaiting_review'],
+      ['Variant A', 'completed'],
+      ['Variant B', 'completed'],
+    ]);
+  });
+});
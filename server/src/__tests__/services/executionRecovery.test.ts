@@ -0,0 +1,102 @@
+/**
+ * Recovery tests run against an in-memory SQLite database seeded with
+ * executions that were left "running" by a previous process. Resuming the
+ * workflow itself is mocked.
+ */
+process.env.DATABASE_PATH = ':memory:';
+
+const mockResumeExecution = jest.fn();
+
+jest.mock('../../services/workflowEngine', () => ({
+  ...jest.requireActual('../../services/workflowEngine'),
+  resumeExecution: mockResumeExecution,
+}));
+
+import { initializeDatabase, getDatabase, queries } from '../../models/database';
+import { recoverInterruptedExecutions, RESUMED_REASON } from '../../services/executionRecovery';
+import { StepExecution, WorkflowExecution } from '../../types';
+
+function createInterruptedExecution(steps: Array<{ step_name: string; step_type: string }>, runningOrder: number): number {
+  const db = getDatabase();
+  const recipeId = Number(db.prepare(
+    "INSERT INTO recipes (name, description, created_by) VALUES ('Interrupted', 'test', 1)"
+  ).run().lastInsertRowid);
+  const executionId = Number(queries.createExecution(recipeId, 1, JSON.stringify({ topic: 'shoes' })).lastInsertRowid);
+
+  steps.forEach((step, index) => {
+    const order = index + 1;
+    const stepId = Number(db.prepare(
+      'INSERT INTO recipe_steps (recipe_id, step_order, step_name, step_type) VALUES (?, ?, ?, ?)'
+    ).run(recipeId, order, step.step_name, step.step_type).lastInsertRowid);
+    const id = Number(queries.createStepExecution(executionId, stepId, order, '{}').lastInsertRowid);
+    if (order < runningOrder) queries.updateStepExecution('completed', '{"content":"done"}', null, null, id);
+    if (order === runningOrder) queries.updateStepExecution('running', null, null, null, id);
+  });
+  queries.updateExecutionStatus('running', runningOrder, executionId);
+  return executionId;
+}
+
+function getStepExecutions(executionId: number): StepExecution[] {
+  return queries.getStepExecutionsByExecutionId(executionId) as StepExecution[];
+}
+
+describe('recoverInterruptedExecutions', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    initializeDatabase();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const db = getDatabase();
+    db.prepare('DELETE FROM step_executions').run();
+    db.prepare('DELETE FROM workflow_executions').run();
+    mockResumeExecution.mockResolvedValue({ success: true });
+  });
+
+  it('resumes executions interrupted in an idempotent step', () => {
+    const executionId = createInterruptedExecution([
+      { step_name: 'Fetch', step_type: 'http' },
+      { step_name: 'Summarize', step_type: 'ai' },
+    ], 2);
+
+    const result = recoverInterruptedExecutions();
+
+    expect(result).toEqual({ resumed: [executionId], paused: [] });
+    expect(mockResumeExecution).toHaveBeenCalledWith(executionId);
+
+    const execution = queries.getExecutionById(executionId) as WorkflowExecution;
+    expect(execution.status).toBe('running');
+    expect(execution.current_step).toBe(1);
+    expect(execution.status_reason).toBe(RESUMED_REASON);
+    expect(getStepExecutions(executionId).map(se => se.status)).toEqual(['completed', 'pending']);
+  });
+
+  it('pauses executions interrupted in a step with side effects', () => {
+    const executionId = createInterruptedExecution([
+      { step_name: 'Summarize', step_type: 'ai' },
+      { step_name: 'Notify', step_type: 'http' },
+    ], 2);
+
+    const result = recoverInterruptedExecutions();
+
+    expect(result).toEqual({ resumed: [], paused: [executionId] });
+    expect(mockResumeExecution).not.toHaveBeenCalled();
+
+    const execution = queries.getExecutionById(executionId) as WorkflowExecution;
+    expect(execution.status).toBe('paused');
+    expect(execution.status_reason).toContain('step 2 (Notify)');
+
+    const interrupted = getStepExecutions(executionId)[1];
+    expect(interrupted.status).toBe('failed');
+    expect(interrupted.error_message).toContain('server restart');
+  });
+
+  it('leaves paused and completed executions alone', () => {
+    const executionId = createInterruptedExecution([{ step_name: 'Summarize', step_type: 'ai' }], 1);
+    queries.updateExecutionStatus('paused', 1, executionId);
+
+    expect(recoverInterruptedExecutions()).toEqual({ resumed: [], paused: [] });
+    expect(mockResumeExecution).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * Human review tests run the real workflow engine against an in-memory
+ * SQLite database. A recording `http` executor stands in for the automated
+ * steps around the approval and ask-user steps.
+ */
+process.env.DATABASE_PATH = ':memory:';
+
+import { initializeDatabase, getDatabase, queries } from '../../models/database';
+import { registerExecutor } from '../../executors/registry';
+import { StepExecutor } from '../../executors/StepExecutor';
+import { approveStep, rejectStep, startExecution } from '../../services/workflowEngine';
+import { executionEvents } from '../../services/executionEvents';
+import { getStepOutputContent } from '../../services/executionBridge';
+import { resolveReferenceValue } from '../../services/promptParser';
+import { canReviewStep, parseReviewConfig } from '../../services/humanReview';
+import { WorkflowScheduler } from '../../services/scheduler';
+import { pluginRegistry } from '../../plugins/registry';
+import { ChannelPlugin } from '../../plugins/types';
+import { ExecutionChatMessage, RecipeStep, StepExecution, WorkflowExecution } from '../../types';
+
+function makeStep(executorConfig: Record<string, any>): RecipeStep {
+  return {
+    id: 1,
+    recipe_id: 1,
+    step_order: 2,
+    step_name: 'Review',
+    step_type: 'approval',
+    ai_model: '',
+    prompt_template: '',
+    output_format: 'text',
+    executor_config: JSON.stringify(executorConfig),
+    created_at: '2024-01-01',
+  };
+}
+
+describe('parseReviewConfig', () => {
+  test('defaults to an unassigned review that waits indefinitely', () => {
+    expect(parseReviewConfig(makeStep({}))).toEqual({
+      config: {
+        assignee: undefined,
+        escalate_to: undefined,
+        timeout_minutes: null,
+        on_timeout: 'reject',
+        allow_edit_previous: true,
+        fields: {},
+      },
+      errors: [],
+    });
+  });
+
+  test('reads form fields, including label shorthand and JSON text', () => {
+    const { config } = parseReviewConfig(makeStep({
+      fields: JSON.stringify({ discount: 'Discount %', notes: { type: 'textarea', required: true } }),
+    }));
+    expect(config.fields).toEqual({
+      discount: { type: 'text', label: 'Discount %' },
+      notes: { type: 'textarea', required: true },
+    });
+  });
+
+  test('reports unusable settings', () => {
+    const { errors } = parseReviewConfig(makeStep({
+      fields: { 'bad name': 'x', ok: { type: 'slider' } },
+      timeout_minutes: -1,
+      on_timeout: 'escalate',
+    }));
+    expect(errors).toEqual([
+      'Timeout must be a positive number of minutes',
+      'On timeout must be one of: approve, reject',
+      'Form field "bad name" must be a plain identifier',
+      'Form field "ok" has unknown type "slider"',
+    ]);
+  });
+});
+
+describe('human review steps', () => {
+  let seen: string[][];
+  let ownerId: number;
+  let reviewerId: number;
+  let managerId: number;
+  const sendOutbound = jest.fn();
+
+  const recordingExecutor: StepExecutor = {
+    type: 'http',
+    displayName: 'HTTP Request',
+    icon: '🌐',
+    description: 'Recording test executor',
+    validateConfig: () => ({ valid: true, errors: [] }),
+    getConfigSchema: () => ({ fields: [] }),
+    async execute(step, context) {
+      seen.push(context.completedStepExecutions.map(getStepOutputContent));
+      return { success: true, content: `${step.step_name} output`, modelUsed: 'http' };
+    },
+  };
+
+  function createRecipe(steps: Array<{ name: string; type: string; prompt?: string; config?: Record<string, any> }>): number {
+    const db = getDatabase();
+    const recipeId = Number(db.prepare(
+      "INSERT INTO recipes (name, description, created_by) VALUES ('Reviewed', 'test', ?)"
+    ).run(ownerId).lastInsertRowid);
+    steps.forEach((step, index) => db.prepare(
+      'INSERT INTO recipe_steps (recipe_id, step_order, step_name, step_type, prompt_template, executor_config) VALUES (?, ?, ?, ?, ?, ?)'
+    ).run(recipeId, index + 1, step.name, step.type, step.prompt || '', JSON.stringify(step.config || {})));
+    return recipeId;
+  }
+
+  async function waitFor(executionId: number, status: string): Promise<WorkflowExecution> {
+    let execution = queries.getExecutionById(executionId) as WorkflowExecution;
+    for (let i = 0; i < 50 && execution.status !== status; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      execution = queries.getExecutionById(executionId) as WorkflowExecution;
+    }
+    return execution;
+  }
+
+  async function run(recipeId: number) {
+    const emit = jest.spyOn(executionEvents, 'emit');
+    const { executionId } = await startExecution(recipeId, ownerId, {});
+    const execution = await waitFor(executionId, 'paused');
+    const actions = emit.mock.calls
+      .map(([, message]) => message as ExecutionChatMessage)
+      .filter((m) => m.executionId === executionId && m.type === 'action-required');
+    emit.mockRestore();
+
+    const stepExecutions = queries.getStepExecutionsByExecutionId(executionId) as StepExecution[];
+    const waiting = stepExecutions.find((se) => se.status === 'awaiting_review')!;
+    return { executionId, execution, actions, waiting };
+  }
+
+  const stepExecutions = (executionId: number) =>
+    queries.getStepExecutionsByExecutionId(executionId) as StepExecution[];
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    initializeDatabase();
+    registerExecutor(recordingExecutor);
+
+    const createUser = (email: string) => Number(queries.createUser(email, 'x', 'operator').lastInsertRowid);
+    ownerId = createUser('owner@example.com');
+    reviewerId = createUser('reviewer@example.com');
+    managerId = createUser('manager@example.com');
+
+    getDatabase().prepare(
+      "INSERT INTO user_identities (user_id, provider, external_id) VALUES (?, 'test', 'ou_reviewer')"
+    ).run(reviewerId);
+    pluginRegistry.register('channel', 'channel-test', {
+      manifest: { name: 'channel-test' },
+      sendOutbound,
+    } as unknown as ChannelPlugin);
+  });
+
+  beforeEach(() => {
+    seen = [];
+    sendOutbound.mockReset().mockResolvedValue(undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('an approval step pauses the run until someone approves it', async () => {
+    const recipeId = createRecipe([
+      { name: 'Draft', type: 'http' },
+      { name: 'Check', type: 'approval', prompt: 'Is "{{step_1_output}}" ready?' },
+      { name: 'Publish', type: 'http' },
+    ]);
+
+    const { executionId, execution, actions, waiting } = await run(recipeId);
+    expect(execution.status).toBe('paused');
+    expect(waiting.step_order).toBe(2);
+    expect(actions[0]).toMatchObject({
+      content: 'Is "Draft output" ready?',
+      metadata: {
+        actionType: 'approve',
+        stepExecutionId: waiting.id,
+        review: { kind: 'approval', previous_step_order: 1, previous_output: 'Draft output', allow_edit_previous: true },
+      },
+    });
+
+    const result = await approveStep(executionId, waiting.id, ownerId, { comment: 'Looks good' });
+    expect(result.success).toBe(true);
+    expect((await waitFor(executionId, 'completed')).status).toBe('completed');
+    expect(seen[1]).toEqual(['Draft output', 'Looks good']);
+  });
+
+  test('the reviewer can correct the previous output before continuing', async () => {
+    const recipeId = createRecipe([
+      { name: 'Draft', type: 'http' },
+      { name: 'Check', type: 'approval' },
+      { name: 'Publish', type: 'http' },
+    ]);
+    const { executionId, waiting } = await run(recipeId);
+
+    await approveStep(executionId, waiting.id, ownerId, { previous_output: 'Corrected draft' });
+    await waitFor(executionId, 'completed');
+    expect(seen[1][0]).toBe('Corrected draft');
+    expect(JSON.parse(stepExecutions(executionId)[0].output_data!)).toMatchObject({
+      content: 'Corrected draft',
+      edited_by: ownerId,
+    });
+  });
+
+  test('editing the previous output can be turned off', async () => {
+    const recipeId = createRecipe([
+      { name: 'Draft', type: 'http' },
+      { name: 'Check', type: 'approval', config: { allow_edit_previous: false } },
+    ]);
+    const { executionId, waiting } = await run(recipeId);
+
+    const result = await approveStep(executionId, waiting.id, ownerId, { previous_output: 'Sneaky' });
+    expect(result).toMatchObject({ success: false, error: 'This step does not allow editing the previous output' });
+  });
+
+  test('an ask-user step requires its fields and exposes the answers to later steps', async () => {
+    const recipeId = createRecipe([
+      {
+        name: 'Details',
+        type: 'ask_user',
+        config: { fields: { discount: { type: 'text', label: 'Discount %', required: true }, note: 'Note' } },
+      },
+      { name: 'Apply', type: 'http' },
+    ]);
+    const { executionId, actions, waiting } = await run(recipeId);
+    expect(actions[0].metadata).toMatchObject({ actionType: 'form', review: { kind: 'ask_user', allow_edit_previous: false } });
+
+    const missing = await approveStep(executionId, waiting.id, ownerId, { values: { note: 'hi' } });
+    expect(missing).toMatchObject({ success: false, error: '"Discount %" is required' });
+
+    await approveStep(executionId, waiting.id, ownerId, { values: { discount: '15', ignored: 'x' } });
+    await waitFor(executionId, 'completed');
+    const answers = stepExecutions(executionId);
+    expect(resolveReferenceValue('step_1_output', {}, answers)).toEqual({ discount: '15', note: '' });
+    expect(resolveReferenceValue('step_1_output.discount', {}, answers)).toBe('15');
+  });
+
+  test('an assigned step can only be answered by its reviewer, who is notified', async () => {
+    const recipeId = createRecipe([
+      { name: 'Draft', type: 'http' },
+      { name: 'Check', type: 'approval', config: { assignee: 'Reviewer@example.com', timeout_minutes: 30 } },
+    ]);
+    const { execution, actions, waiting } = await run(recipeId);
+
+    expect(waiting.assigned_to).toBe(reviewerId);
+    expect(waiting.review_due_at).toBeTruthy();
+    expect(actions[0].metadata).toMatchObject({ assignedTo: reviewerId, dueAt: waiting.review_due_at });
+    expect(canReviewStep(reviewerId, execution, waiting)).toBe(true);
+    expect(canReviewStep(ownerId, execution, waiting)).toBe(false);
+
+    expect(sendOutbound).toHaveBeenCalledWith('ou_reviewer', expect.objectContaining({
+      metadata: expect.objectContaining({
+        review: expect.objectContaining({ kind: 'approval', executionId: execution.id, stepExecutionId: waiting.id }),
+      }),
+    }));
+  });
+
+  test('rejecting a review step fails it and keeps the run paused', async () => {
+    const recipeId = createRecipe([
+      { name: 'Draft', type: 'http' },
+      { name: 'Check', type: 'approval' },
+      { name: 'Publish', type: 'http' },
+    ]);
+    const { executionId, waiting } = await run(recipeId);
+
+    expect(rejectStep(executionId, waiting.id, 'Wrong tone')).toEqual({ success: true });
+    const rejected = queries.getStepExecutionById(waiting.id) as StepExecution;
+    expect(rejected).toMatchObject({ status: 'failed', error_message: 'Rejected: Wrong tone' });
+    expect((queries.getExecutionById(executionId) as WorkflowExecution).status).toBe('paused');
+    expect(stepExecutions(executionId)[2].status).toBe('pending');
+    expect(rejectStep(executionId, waiting.id)).toEqual({ success: false, error: 'Step is not waiting for review' });
+  });
+
+  describe('deadlines', () => {
+    const scheduler = new WorkflowScheduler();
+    const expire = (stepExecutionId: number) => getDatabase().prepare(
+      "UPDATE step_executions SET review_due_at = datetime('now', '-1 second') WHERE id = ?"
+    ).run(stepExecutionId);
+
+    test('an overdue review is escalated once, then rejected', async () => {
+      const recipeId = createRecipe([
+        { name: 'Draft', type: 'http' },
+        {
+          name: 'Check',
+          type: 'approval',
+          config: { assignee: reviewerId, escalate_to: 'manager@example.com', timeout_minutes: 60 },
+        },
+      ]);
+      const { waiting } = await run(recipeId);
+
+      expire(waiting.id);
+      await scheduler.processOverdueReviews();
+      const escalated = queries.getStepExecutionById(waiting.id) as StepExecution;
+      expect(escalated).toMatchObject({ status: 'awaiting_review', assigned_to: managerId, escalation_count: 1 });
+      expect(escalated.review_due_at).toBeTruthy();
+
+      expire(waiting.id);
+      await scheduler.processOverdueReviews();
+      expect(queries.getStepExecutionById(waiting.id)).toMatchObject({
+        status: 'failed',
+        error_message: 'Rejected: No response before the review deadline',
+        review_due_at: null,
+      });
+    });
+
+    test('an overdue review set to approve continues the run', async () => {
+      const recipeId = createRecipe([
+        { name: 'Draft', type: 'http' },
+        { name: 'Check', type: 'approval', config: { timeout_minutes: 5, on_timeout: 'approve' } },
+        { name: 'Publish', type: 'http' },
+      ]);
+      const { executionId, waiting } = await run(recipeId);
+
+      expire(waiting.id);
+      await scheduler.processOverdueReviews();
+      expect((await waitFor(executionId, 'completed')).status).toBe('completed');
+      expect(getStepOutputContent(queries.getStepExecutionById(waiting.id) as StepExecution))
+        .toBe('Approved automatically after the review deadline');
+    });
+
+    test('an unanswered required form is rejected even when set to approve', async () => {
+      const recipeId = createRecipe([
+        { name: 'Details', type: 'ask_user', config: { fields: { po: { required: true } }, timeout_minutes: 5, on_timeout: 'approve' } },
+      ]);
+      const { waiting } = await run(recipeId);
+
+      expire(waiting.id);
+      await scheduler.processOverdueReviews();
+      expect(queries.getStepExecutionById(waiting.id)).toMatchObject({ status: 'failed' });
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Review analytics tests run against an in-memory SQLite database seeded
+ * through the review store. Tagging goes through a spy on `callAIByModel`
+ * that tags each review in the prompt by its wording.
+ */
+process.env.DATABASE_PATH = ':memory:';
+
+import zlib from 'zlib';
+import { initializeDatabase, ensurePersonalWorkspace } from '../../models/database';
+import { pluginRegistry } from '../../plugins/registry';
+import { ProviderPlugin } from '../../plugins/types';
+import * as aiService from '../../services/aiService';
+import { recordProductReviews } from '../../services/reviewStore';
+import {
+  ReviewAnalyticsError,
+  exportReviewAnalytics,
+  getReviewAnalytics,
+  periodOf,
+  tagReviews,
+} from '../../services/reviewAnalytics';
+import { NormalizedReview } from '../../services/extractionStrategies/reviewSchema';
+
+const catalogProvider: ProviderPlugin = {
+  manifest: { name: 'tagger', version: '1.0.0', type: 'provider', displayName: 'Tagger', description: 'Test provider', entry: './index.ts' },
+  async initialize() {},
+  async shutdown() {},
+  listModels: () => [{ id: 'tagger-model', name: 'Tagger', provider: 'tagger', supportsStreaming: false, supportsTools: false }],
+  async *stream() {
+    yield { type: 'done' as const };
+  },
+};
+
+const review = (reviewId: string, rating: number, date: string, body: string): NormalizedReview => ({
+  platform: 'shopify', reviewId, rating, title: '', body, date,
+  author: 'Sam', variant: '', images: [], verified: true,
+});
+
+function record(product: string, reviews: NormalizedReview[], workspaceId: number) {
+  const url = `https://shop.example.com/products/${product}`;
+  recordProductReviews(
+    { url, platform: 'shopify', productName: product, totalCount: reviews.length, averageRating: null, reviews, pages: 1, source: 'html' },
+    url,
+    { workspaceId, userId: 1 },
+  );
+}
+
+// Tags by wording; a review saying "ignore me" gets no tag back
+function tagReply(prompt: string): string {
+  const items = JSON.parse(prompt.slice(prompt.indexOf('Reviews:\n') + 'Reviews:\n'.length));
+  return JSON.stringify(items
+    .filter((item: any) => !item.body.includes('ignore me'))
+    .map((item: any) => {
+      const topics = [];
+      if (/battery life/i.test(item.body)) topics.push({ topic: 'battery life', quote: item.body });
+      else if (/batteries/i.test(item.body)) topics.push({ topic: 'Batteries', quote: item.body });
+      if (/screen/i.test(item.body)) topics.push({ topic: 'screen', quote: item.body });
+      return {
+        id: item.id,
+        sentiment: item.rating >= 4 ? 'positive' : item.rating === 3 ? 'neutral' : 'negative',
+        motivation: /gift/i.test(item.body) ? 'Gift' : null,
+        topics,
+      };
+    }));
+}
+
+describe('review analytics', () => {
+  let workspaceId: number;
+  let callAI: jest.SpyInstance;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    initializeDatabase();
+    pluginRegistry.register('provider', 'tagger', catalogProvider);
+    workspaceId = ensurePersonalWorkspace(1);
+    callAI = jest.spyOn(aiService, 'callAIByModel').mockImplementation(async (model, prompt) => (
+      { success: true, content: `\`\`\`json\n${tagReply(prompt)}\n\`\`\``, model }
+    ));
+
+    record('phone', [
+      review('p1', 5, '2026-01-05', 'Battery life is amazing, bought as a gift'),
+      review('p2', 4, '2026-01-20', 'Great screen and battery life'),
+      review('p3', 2, '2026-02-03', 'Batteries die within a day'),
+      review('p4', 3, '2026-02-10', 'It is fine, ignore me'),
+    ], workspaceId);
+    record('tablet', [
+      review('t1', 1, '2026-02-04', 'Screen cracked on arrival'),
+      review('t2', 5, 'March 2, 2026', 'Lovely screen, a gift for my dad'),
+    ], workspaceId);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('tags untagged reviews in batches and skips replies it cannot use', async () => {
+    await expect(tagReviews(workspaceId, 1, { model: 'missing-model' })).rejects.toThrow(ReviewAnalyticsError);
+
+    const result = await tagReviews(workspaceId, 1, { productKeys: ['https://shop.example.com/products/phone'] });
+    expect(result).toEqual({ model: 'tagger-model', tagged: 3, failed: 1, remaining: 1 });
+    expect(callAI).toHaveBeenCalledWith('tagger-model', expect.stringContaining('purchase motivation'), expect.objectContaining({
+      usage: { userId: 1, workspaceId, source: 'workflow_step' },
+    }));
+
+    expect(await tagReviews(workspaceId, 1, {})).toMatchObject({ tagged: 2, failed: 1, remaining: 1 });
+  });
+
+  test('trends, topic clusters and the product comparison', () => {
+    expect(periodOf('2026-02-04', 'week')).toBe('2026-02-02');
+    expect(periodOf('2026-02-04', 'month')).toBe('2026-02');
+
+    const analytics = getReviewAnalytics(workspaceId, { interval: 'month' });
+    expect(analytics).toMatchObject({ reviewCount: 6, taggedCount: 5 });
+
+    // The tablet review without an ISO date falls back to when it was stored
+    const months = analytics.trend.map((point) => point.period);
+    expect(months.slice(0, 2)).toEqual(['2026-01', '2026-02']);
+    expect(analytics.trend[1]).toMatchObject({
+      reviewCount: 3,
+      averageRating: 2,
+      ratingCounts: { 1: 1, 2: 1, 3: 1, 4: 0, 5: 0 },
+      sentimentCounts: { positive: 0, neutral: 0, negative: 2 },
+    });
+    expect(analytics.trend[1].byProduct['https://shop.example.com/products/phone']).toEqual({ reviewCount: 2, averageRating: 2.5 });
+
+    // "Batteries" joins "battery life"
+    const battery = analytics.topics.find((topic) => topic.topic === 'battery life')!;
+    expect(battery).toMatchObject({ variants: ['batteries'], count: 3, share: 0.6, averageRating: 3.67 });
+    expect(battery.sentimentCounts).toEqual({ positive: 2, neutral: 0, negative: 1 });
+    expect(battery.examples[0]).toMatchObject({ quote: 'Batteries die within a day', rating: 2, date: '2026-02-03' });
+    expect(analytics.topics.find((topic) => topic.topic === 'screen')!.count).toBe(3);
+    expect(analytics.motivations).toEqual([{ motivation: 'gift', count: 2, share: 0.4 }]);
+
+    const compared = getReviewAnalytics(workspaceId, {
+      productKeys: ['https://shop.example.com/products/phone', 'https://shop.example.com/products/tablet'],
+    });
+    expect(compared.products.map((product) => [product.productName, product.reviewCount, product.averageRating, product.taggedCount]))
+      .toEqual([['phone', 4, 3.5, 3], ['tablet', 2, 3, 2]]);
+    expect(compared.products[1].topTopics).toEqual([{ topic: 'screen', count: 2, share: 1 }]);
+
+    const one = getReviewAnalytics(workspaceId, { productKeys: ['https://shop.example.com/products/tablet'], interval: 'week' });
+    expect(one.reviewCount).toBe(2);
+    expect(one.trend[0].period).toBe('2026-02-02');
+  });
+
+  test('exports CSV and XLSX', () => {
+    const csv = exportReviewAnalytics(workspaceId, {}, 'csv');
+    expect(csv.contentType).toMatch(/^text\/csv/);
+    const lines = String(csv.body).split('\r\n');
+    expect(lines[0]).toMatch(/^\ufeffPlatform,Product,/);
+    expect(lines[1]).toBe(
+      'shopify,phone,https://shop.example.com/products/phone,p1,2026-01-05,5,,"Battery life is amazing, bought as a gift",'
+      + `Sam,,true,positive,Gift,battery life,${lines[1].split(',').pop()}`
+    );
+
+    const xlsx = exportReviewAnalytics(workspaceId, {}, 'xlsx');
+    const body = xlsx.body as Buffer;
+    expect(xlsx.filename).toMatch(/\.xlsx$/);
+    expect(body.readUInt32LE(0)).toBe(0x04034b50);
+    const text = body.toString('latin1');
+    ['[Content_Types].xml', 'xl/workbook.xml', 'xl/worksheets/sheet4.xml'].forEach((name) => expect(text).toContain(name));
+
+    // The first entry inflates back to the content types
+    const nameLength = body.readUInt16LE(26);
+    const compressedSize = body.readUInt32LE(18);
+    const data = zlib.inflateRawSync(body.subarray(30 + nameLength, 30 + nameLength + compressedSize)).toString('utf-8');
+    expect(data).toContain('/xl/worksheets/sheet4.xml');
+  });
+});
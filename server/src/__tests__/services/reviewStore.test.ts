@@ -0,0 +1,144 @@
+/**
+ * Review store tests run against an in-memory SQLite database, with a
+ * Puppeteer page stand-in serving the saved review pages in ../fixtures.
+ */
+process.env.DATABASE_PATH = ':memory:';
+
+import fs from 'fs';
+import path from 'path';
+import { initializeDatabase, getDatabase, ensurePersonalWorkspace } from '../../models/database';
+import {
+  extractAndRecordReviews,
+  getReviewRunDiff,
+  listReviewRuns,
+  listStoredReviews,
+  recordProductReviews,
+} from '../../services/reviewStore';
+import { compilePrompt, extractVariables, resolveReferenceValue } from '../../services/promptParser';
+import { pluginRegistry } from '../../plugins/registry';
+import AmazonExtraction from '../../plugins/builtin/extraction-amazon';
+import { NormalizedReview } from '../../services/extractionStrategies/reviewSchema';
+
+const FIXTURES = path.join(__dirname, '../fixtures/reviews');
+const fixture = (name: string) => fs.readFileSync(path.join(FIXTURES, name), 'utf-8');
+
+const PRODUCT_URL = 'https://www.amazon.com/Acme-Bottle/dp/B0TESTASIN?th=1';
+
+// Serves page 1 and 2 of the Amazon fixture; `edit` rewrites page 1
+function createMockPage(edit: (html: string) => string = (html) => html) {
+  let current = '';
+  return {
+    goto: jest.fn(async (url: string) => {
+      current = url;
+      return { status: () => 200, headers: () => ({}) };
+    }),
+    content: jest.fn(async () => {
+      if (current.includes('pageNumber=1')) return edit(fixture('amazon-page1.html'));
+      if (current.includes('pageNumber=2')) return fixture('amazon-page2.html');
+      return '<html><body></body></html>';
+    }),
+  } as any;
+}
+
+const review = (reviewId: string, body: string): NormalizedReview => ({
+  platform: 'shopify', reviewId, rating: 4, title: '', body, date: '2026-02-01',
+  author: 'Sam', variant: '', images: [], verified: false,
+});
+
+describe('review store', () => {
+  let workspaceId: number;
+  let otherWorkspaceId: number;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    initializeDatabase();
+    workspaceId = ensurePersonalWorkspace(1);
+    const other = Number(getDatabase().prepare("INSERT INTO users (email, password_hash) VALUES ('other@example.com', '')").run().lastInsertRowid);
+    otherWorkspaceId = ensurePersonalWorkspace(other);
+
+    const plugin = new AmazonExtraction({
+      name: 'extraction-amazon', version: '1.0.0', type: 'extraction',
+      displayName: 'Amazon Reviews', description: '', entry: './index.ts',
+    });
+    await plugin.initialize({ pageDelayMs: 0 });
+    pluginRegistry.register('extraction', 'extraction-amazon', plugin);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('a repeat run stops at stored reviews and reports only what changed', async () => {
+    const context = { workspaceId, userId: 1 };
+    const onProgress = jest.fn();
+
+    const first = await extractAndRecordReviews(createMockPage(), 'amazon', [PRODUCT_URL], context, onProgress);
+    expect(first.success).toBe(true);
+    expect(first.newReviews.map((r) => r.reviewId)).toEqual(['R1AAAAAAAAAAAA', 'R2BBBBBBBBBBBB', 'R3CCCCCCCCCCCC']);
+    expect(first.products[0]).toMatchObject({ newCount: 3, updatedCount: 0, pages: 2 });
+
+    // The reviewer edited R1's title since
+    const page = createMockPage((html) => html.replace('Keeps ice for two days', 'Keeps ice for three days'));
+    const second = await extractAndRecordReviews(page, 'amazon', ['https://www.amazon.com/dp/B0TESTASIN'], context, onProgress);
+
+    expect(page.goto).toHaveBeenCalledTimes(1);
+    expect(onProgress).toHaveBeenCalledWith('Reached reviews collected by an earlier run; stopping.');
+    expect(second.newReviews).toEqual([]);
+    expect(second.updatedReviews.map((r) => [r.reviewId, r.title])).toEqual([['R1AAAAAAAAAAAA', 'Keeps ice for three days']]);
+
+    // Other URL forms of the product share its history
+    const runs = listReviewRuns(workspaceId, { platform: 'amazon' });
+    expect(runs.map((run) => [run.new_count, run.updated_count, run.reviews_seen])).toEqual([[0, 1, 2], [3, 0, 3]]);
+    expect(new Set(runs.map((run) => run.product_key)).size).toBe(1);
+    expect(listStoredReviews(workspaceId, { platform: 'amazon' })).toHaveLength(3);
+
+    const diff = getReviewRunDiff(runs[1].id, workspaceId)!;
+    expect(diff.newReviews).toHaveLength(3);
+    expect(diff.newReviews[0]).toMatchObject({ reviewId: 'R1AAAAAAAAAAAA', rating: 5, verified: true });
+    expect(getReviewRunDiff(runs[0].id, workspaceId)!.updatedReviews.map((r) => r.reviewId)).toEqual(['R1AAAAAAAAAAAA']);
+    expect(getReviewRunDiff(runs[0].id, otherWorkspaceId)).toBeNull();
+  });
+
+  test('a full run pages through everything and reviews are kept per workspace', async () => {
+    const page = createMockPage();
+    const full = await extractAndRecordReviews(
+      page, 'amazon', [PRODUCT_URL], { workspaceId, userId: 1, incremental: false }, jest.fn()
+    );
+    expect(page.goto).toHaveBeenCalledTimes(2);
+    // R1's title is back to what the first run stored, which counts as a change again
+    expect(full.newReviews).toEqual([]);
+    expect(full.updatedReviews.map((r) => r.reviewId)).toEqual(['R1AAAAAAAAAAAA']);
+
+    const elsewhere = recordProductReviews(
+      { url: 'https://shop.example.com/products/mug', platform: 'shopify', productName: 'Mug', totalCount: 2,
+        averageRating: 4, reviews: [review('a', 'Nice'), review('b', 'Fine')], pages: 1, source: 'html' },
+      'https://shop.example.com/products/mug',
+      { workspaceId: otherWorkspaceId, userId: null },
+    );
+    expect(elsewhere.newReviews).toHaveLength(2);
+    expect(listStoredReviews(workspaceId, { platform: 'shopify' })).toEqual([]);
+  });
+
+  test('{{new_reviews}} reads the latest review monitor step', () => {
+    const output = {
+      content: JSON.stringify({ new_count: 1, new_reviews: [review('a', 'Handle is too small')], updated_reviews: [] }),
+    };
+    const stepExecutions = [
+      { step_order: 1, status: 'completed', output_data: JSON.stringify(output) },
+    ] as any[];
+
+    expect(extractVariables('{{new_reviews}}')[0].type).toBe('review_changes');
+    const { compiledPrompt, unresolvedVariables } = compilePrompt(
+      'New:\n{{new_reviews}}\nChanged:\n{{updated_reviews}}\nCount: {{new_reviews.length}}',
+      { userId: 1, workspaceId, userInputs: {}, stepExecutions }
+    );
+    expect(unresolvedVariables).toEqual([]);
+    expect(compiledPrompt).toBe(
+      'New:\n- [4/5 | 2026-02-01 | Sam] Handle is too small\nChanged:\nNo updated reviews since the last run\nCount: 1'
+    );
+    expect(resolveReferenceValue('new_reviews.length', {}, stepExecutions as any)).toBe(1);
+
+    const missing = compilePrompt('{{new_reviews}}', { userId: 1, workspaceId, userInputs: {}, stepExecutions: [] });
+    expect(missing.unresolvedVariables).toEqual(['new_reviews']);
+  });
+});
@@ -0,0 +1,208 @@
+import fs from 'fs';
+import path from 'path';
+import { AmazonStrategy } from '../../services/extractionStrategies/amazonStrategy';
+import { WalmartStrategy } from '../../services/extractionStrategies/walmartStrategy';
+import { HomeDepotStrategy } from '../../services/extractionStrategies/homeDepotStrategy';
+import { EtsyStrategy } from '../../services/extractionStrategies/etsyStrategy';
+import { ShopifyStrategy } from '../../services/extractionStrategies/shopifyStrategy';
+import { getAllStrategies, getStrategy } from '../../services/extractionStrategies';
+import { parseRating, parseReviewDate } from '../../services/extractionStrategies/reviewSchema';
+import { pluginRegistry } from '../../plugins/registry';
+import AmazonExtraction from '../../plugins/builtin/extraction-amazon';
+
+const FIXTURES = path.join(__dirname, '../fixtures/reviews');
+const fixture = (name: string) => fs.readFileSync(path.join(FIXTURES, name), 'utf-8');
+
+// No waiting between pages or on retries
+const FAST = { pageDelayMs: 0, retryDelayMs: 0 };
+
+/**
+ * A Puppeteer page stand-in that serves saved HTML: `pages` maps a URL
+ * substring to a fixture file; `statuses` are returned by goto in order.
+ */
+function createMockPage(pages: Array<[string, string]>, statuses: number[] = []) {
+  let current = '';
+  return {
+    goto: jest.fn(async (url: string) => {
+      current = url;
+      const status = statuses.length > 0 ? statuses.shift()! : 200;
+      return { status: () => status, headers: () => ({}) };
+    }),
+    content: jest.fn(async () => {
+      const match = pages.find(([part]) => current.includes(part));
+      return match ? fixture(match[1]) : '<html><body></body></html>';
+    }),
+  } as any;
+}
+
+describe('review extraction strategies', () => {
+  let onProgress: jest.Mock;
+
+  beforeEach(() => {
+    onProgress = jest.fn();
+  });
+
+  test('Amazon pages through review pages and normalizes each review', async () => {
+    const page = createMockPage([
+      ['pageNumber=1', 'amazon-page1.html'],
+      ['pageNumber=2', 'amazon-page2.html'],
+    ]);
+    const strategy = new AmazonStrategy(FAST);
+
+    const result = await strategy.execute(page, ['https://www.amazon.com/Acme-Bottle/dp/B0TESTASIN?th=1'], onProgress);
+
+    expect(result.success).toBe(true);
+    expect(page.goto.mock.calls.map((call: any[]) => call[0])).toEqual([
+      'https://www.amazon.com/product-reviews/B0TESTASIN/?reviewerType=all_reviews&sortBy=recent&pageNumber=1',
+      'https://www.amazon.com/product-reviews/B0TESTASIN/?reviewerType=all_reviews&sortBy=recent&pageNumber=2',
+    ]);
+    expect(result.data).toMatchObject({
+      platform: 'amazon',
+      productName: 'Acme Stainless Steel Water Bottle, 32 oz',
+      totalCount: 3412,
+      averageRating: 4.4,
+      pages: 2,
+    });
+    // R2 appears on both pages and is kept once
+    expect(result.data.reviews.map((review: any) => review.reviewId)).toEqual(['R1AAAAAAAAAAAA', 'R2BBBBBBBBBBBB', 'R3CCCCCCCCCCCC']);
+    expect(result.reviewCount).toBe(3);
+    expect(result.data.reviews[0]).toEqual({
+      platform: 'amazon',
+      reviewId: 'R1AAAAAAAAAAAA',
+      rating: 5,
+      title: 'Keeps ice for two days',
+      body: 'Took it hiking & the ice was still there the next evening. No leaks so far.',
+      date: '2026-01-05',
+      author: 'Jordan P.',
+      variant: 'Color: Ocean Blue Size: 32 oz',
+      images: ['https://images.example.com/R1-1.jpg'],
+      verified: true,
+    });
+    expect(result.data.reviews[1]).toMatchObject({ rating: 2, verified: false, images: [], date: '2025-12-28' });
+  });
+
+  test('Walmart reads __NEXT_DATA__ and stops at maxReviews', async () => {
+    const page = createMockPage([['/reviews/product/123456789', 'walmart.html']]);
+    const strategy = new WalmartStrategy(FAST);
+
+    const result = await strategy.execute(
+      page, ['https://www.walmart.com/ip/Acme-Pressure-Cooker/123456789'], onProgress, { maxReviews: 1 }
+    );
+
+    expect(page.goto).toHaveBeenCalledTimes(1);
+    expect(page.goto.mock.calls[0][0]).toBe('https://www.walmart.com/reviews/product/123456789?sort=submission-desc&page=1');
+    expect(result.data).toMatchObject({ productName: 'Acme 6-Quart Pressure Cooker', totalCount: 812, averageRating: 4.2 });
+    expect(result.data.reviews).toEqual([{
+      platform: 'walmart',
+      reviewId: '301',
+      rating: 5,
+      title: 'Dinner in 20 minutes',
+      body: "Easy to use and clean. The sealing ring doesn't hold smells.",
+      date: '2026-01-12',
+      author: 'Maria',
+      variant: 'Size: 6 qt',
+      images: ['https://i5.walmartimages.com/reviews/301.jpg'],
+      verified: true,
+    }]);
+  });
+
+  test('Home Depot reads reviews from JSON-LD', async () => {
+    const page = createMockPage([['/p/reviews/Acme-20V-Cordless-Drill/312345678/1', 'homedepot.html']]);
+    const strategy = new HomeDepotStrategy({ ...FAST, maxPages: 1 });
+
+    const result = await strategy.execute(page, ['https://www.homedepot.com/p/Acme-20V-Cordless-Drill/312345678'], onProgress);
+
+    expect(result.data).toMatchObject({ productName: 'Acme 20V Cordless Drill', totalCount: 1205, averageRating: 4.6 });
+    expect(result.data.reviews).toEqual([
+      expect.objectContaining({ reviewId: 'hd-9001', rating: 5, title: 'Plenty of torque', author: 'Contractor Dave', date: '2026-01-09', verified: true }),
+      expect.objectContaining({ reviewId: 'hd-9002', rating: 3, author: 'Weekend DIY', verified: false }),
+    ]);
+  });
+
+  test('Etsy and Shopify (Judge.me) read review cards', async () => {
+    const etsy = await new EtsyStrategy({ ...FAST, maxPages: 1 }).execute(
+      createMockPage([['/listing/', 'etsy.html']]),
+      ['https://www.etsy.com/listing/123456789/ceramic-mug'],
+      onProgress,
+    );
+    expect(etsy.data.productName).toBe('Hand-thrown Ceramic Mug');
+    expect(etsy.data.reviews).toEqual([
+      expect.objectContaining({
+        reviewId: '11111111', rating: 5, author: 'Alex', date: '2026-01-10', variant: 'Color: Speckled',
+        images: ['https://i.etsystatic.com/review/11111111.jpg'],
+      }),
+      expect.objectContaining({ reviewId: '22222222', rating: 4, date: '2026-01-04' }),
+    ]);
+
+    const shopify = await new ShopifyStrategy({ ...FAST, maxPages: 1 }).execute(
+      createMockPage([['/products/', 'shopify-judgeme.html']]),
+      ['https://home.example.com/products/linen-throw-pillow'],
+      onProgress,
+    );
+    expect(shopify.data).toMatchObject({ productName: 'Linen Throw Pillow', totalCount: 4, averageRating: 4.75 });
+    expect(shopify.data.reviews).toEqual([
+      expect.objectContaining({
+        reviewId: 'a1b2c3', rating: 5, title: 'Softer than expected', body: 'Washed it twice & it only got softer.',
+        author: 'Hannah K.', date: '2026-01-14', verified: true, images: ['https://judgeme.imgix.net/example/a1b2c3.jpg'],
+      }),
+      expect.objectContaining({ reviewId: 'd4e5f6', rating: 4, title: '', date: '2025-12-30', verified: false }),
+    ]);
+  });
+
+  test('backs off and retries when the platform rate-limits', async () => {
+    const page = createMockPage([['/reviews/product/123456789', 'walmart.html']], [429, 503, 200]);
+    const strategy = new WalmartStrategy({ ...FAST, maxPages: 1 });
+
+    const result = await strategy.execute(page, ['https://www.walmart.com/ip/Acme-Pressure-Cooker/123456789'], onProgress);
+
+    expect(page.goto).toHaveBeenCalledTimes(3);
+    expect(result.data.reviews).toHaveLength(2);
+    expect(onProgress).toHaveBeenCalledWith(expect.stringContaining('Rate limited (429). Retrying'));
+  });
+
+  test('reports per-URL errors and fails when no URL yields reviews', async () => {
+    const page = createMockPage([]);
+    const strategy = new AmazonStrategy(FAST);
+
+    const result = await strategy.execute(
+      page, ['https://www.amazon.com/some-page', 'https://www.amazon.com/dp/B0EMPTYPG1'], onProgress
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.data).toHaveLength(2);
+    expect(result.data[0].error).toContain('ASIN');
+    expect(result.data[1].error).toContain('No reviews found');
+  });
+
+  test('extraction plugins are found alongside the built-in strategies', async () => {
+    expect(getStrategy('amazon')).toBeUndefined();
+
+    const plugin = new AmazonExtraction({
+      name: 'extraction-amazon', version: '1.0.0', type: 'extraction',
+      displayName: 'Amazon Reviews', description: '', entry: './index.ts',
+    });
+    await plugin.initialize({ maxPages: '1', pageDelayMs: 0 });
+    pluginRegistry.register('extraction', 'extraction-amazon', plugin);
+
+    expect(getStrategy('amazon')).toBe(plugin);
+    expect(getAllStrategies().map((strategy) => strategy.platform)).toEqual(['wayfair', 'amazon']);
+
+    // Config from plugin_configs limits the pages read
+    const page = createMockPage([['pageNumber=1', 'amazon-page1.html']]);
+    const result = await plugin.execute(page, ['https://www.amazon.com/dp/B0TESTASIN'], onProgress);
+    expect(page.goto).toHaveBeenCalledTimes(1);
+    expect(result.data.pages).toBe(1);
+  });
+});
+
+describe('review schema', () => {
+  test('parses the rating and date formats review pages use', () => {
+    expect(parseRating('4.0 out of 5 stars')).toBe(4);
+    expect(parseRating(90, 100)).toBe(4.5);
+    expect(parseRating('no stars')).toBeNull();
+    expect(parseReviewDate('Reviewed in the United Kingdom on 3 March 2025')).toBe('2025-03-03');
+    expect(parseReviewDate('2026-01-14T18:02:11Z')).toBe('2026-01-14');
+    expect(parseReviewDate('Sept. 9, 2025')).toBe('2025-09-09');
+    expect(parseReviewDate('a week ago')).toBe('a week ago');
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Sandbox tests spawn real `/bin/sh` processes. Whether they run inside
+ * namespaces depends on the host, so runs allow falling back to no isolation
+ * and assertions only cover behaviour that holds either way. Audit rows go
+ * to an in-memory database.
+ */
+process.env.DATABASE_PATH = ':memory:';
+
+import childProcess from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import * as database from '../../models/database';
+import { initializeDatabase, getDatabase } from '../../models/database';
+import {
+  DEFAULT_SANDBOX_CONFIG,
+  ISOLATION_UNAVAILABLE_ERROR,
+  UNISOLATED_RUN_WARNING,
+  normalizeSandboxConfig,
+  saveSandboxConfig,
+  getSandboxConfig,
+  isNamespaceIsolationAvailable,
+  runSandboxed,
+} from '../../services/sandbox';
+import { SandboxAuditEntry } from '../../types';
+
+function lastAudit(): SandboxAuditEntry {
+  return getDatabase().prepare('SELECT * FROM sandbox_audit_log ORDER BY id DESC LIMIT 1').get() as SandboxAuditEntry;
+}
+
+describe('sandbox', () => {
+  beforeAll(() => {
+    initializeDatabase();
+  });
+
+  beforeEach(() => {
+    saveSandboxConfig({ requireIsolation: false });
+  });
+
+  test('normalizes stored config and falls back to defaults', () => {
+    const config = normalizeSandboxConfig({
+      allowNetwork: 'yes',
+      allowedPaths: ['/opt/data/../shared', ''],
+      timeoutMs: -1,
+      maxMemoryMb: 512.2,
+    });
+
+    expect(config.allowNetwork).toBe(false);
+    expect(config.allowedPaths).toEqual(['/opt/shared']);
+    expect(config.timeoutMs).toBe(DEFAULT_SANDBOX_CONFIG.timeoutMs);
+    expect(config.maxMemoryMb).toBe(513);
+    expect(config.allowedEnv).toEqual(DEFAULT_SANDBOX_CONFIG.allowedEnv);
+    expect(config.requireIsolation).toBe(true);
+    expect(normalizeSandboxConfig({ requireIsolation: false }).requireIsolation).toBe(false);
+
+    saveSandboxConfig({ writablePaths: ['/srv/out'] });
+    expect(getSandboxConfig().writablePaths).toEqual(['/srv/out']);
+  });
+
+  test('runs in a fresh work directory without server environment and audits the run', async () => {
+    process.env.SANDBOX_TEST_SECRET = 'hunter2';
+    const result = await runSandboxed({
+      source: 'bash',
+      command: '/bin/sh',
+      args: ['-c', 'pwd; echo "secret=$SANDBOX_TEST_SECRET"'],
+      userId: 1,
+      sessionId: 'session-1',
+    });
+    delete process.env.SANDBOX_TEST_SECRET;
+
+    expect(result.status).toBe('completed');
+    const [workDir, secretLine] = result.stdout.trim().split('\n');
+    expect(workDir).toContain('novohaven-sandbox-');
+    expect(secretLine).toBe('secret=');
+    expect(fs.existsSync(workDir)).toBe(false);
+
+    const audit = lastAudit();
+    expect(audit.source).toBe('bash');
+    expect(audit.status).toBe('completed');
+    expect(audit.exit_code).toBe(0);
+    expect(audit.session_id).toBe('session-1');
+    expect(audit.isolation).toBe(result.isolation);
+  });
+
+  // Only meaningful where namespaces are available
+  (isNamespaceIsolationAvailable() ? test : test.skip)('keeps hidden paths hidden from mount and umount', async () => {
+    // The tmpfs may sit on any directory above the server's own
+    const hidden = process.cwd();
+    const ancestors: string[] = [];
+    for (let dir = hidden; dir !== path.dirname(dir); dir = path.dirname(dir)) ancestors.push(dir);
+    const tryEach = (command: string) => `s=1; for d in ${ancestors.join(' ')}; do ${command} "$d" 2>/dev/null && s=0; done`;
+    const script = [
+      `${tryEach('umount')}; echo "umount=$s"`,
+      'mount -t tmpfs sandbox /tmp 2>/dev/null; echo "mount=$?"',
+      `${tryEach('unshare -U -m umount')}; echo "nested=$s"`,
+      `ls -A ${hidden} | wc -l`,
+    ].join('\n');
+    const result = await runSandboxed({ source: 'bash', command: '/bin/sh', args: ['-c', script] });
+
+    expect(result.isolation).toBe('namespace');
+    const [umount, mount, nested, entries] = result.stdout.trim().split('\n');
+    expect(umount).not.toBe('umount=0');
+    expect(mount).not.toBe('mount=0');
+    expect(nested).not.toBe('nested=0');
+    expect(entries.trim()).toBe('0');
+  });
+
+  test('denies working directories outside the allow-list', async () => {
+    const result = await runSandboxed({
+      source: 'bash',
+      command: '/bin/sh',
+      args: ['-c', 'ls'],
+      cwd: '/etc',
+    });
+
+    expect(result.status).toBe('denied');
+    expect(result.error).toContain('/etc');
+    expect(lastAudit().status).toBe('denied');
+  });
+
+  test('stops runs that exceed the time or output limits', async () => {
+    const slow = await runSandboxed({
+      source: 'script',
+      command: '/bin/sh',
+      args: ['-c', 'sleep 5'],
+      timeoutMs: 200,
+    });
+    expect(slow.status).toBe('timed_out');
+    expect(slow.timedOut).toBe(true);
+
+    saveSandboxConfig({ maxOutputBytes: 16 });
+    const noisy = await runSandboxed({
+      source: 'script',
+      command: '/bin/sh',
+      args: ['-c', 'while true; do echo 0123456789; done'],
+    });
+    expect(noisy.status).toBe('failed');
+    expect(noisy.outputTruncated).toBe(true);
+    expect(noisy.stdout.length).toBeLessThanOrEqual(16);
+    expect(lastAudit().output_truncated).toBe(1);
+  });
+
+  test('refuses to run without isolation unless an admin allows it', async () => {
+    // A fresh copy of the service whose namespace probe fails
+    const probe = jest.spyOn(childProcess, 'execFileSync').mockImplementation(() => {
+      throw new Error('unshare: operation not permitted');
+    });
+    let sandbox!: typeof import('../../services/sandbox');
+    jest.isolateModules(() => {
+      jest.doMock('../../models/database', () => database);
+      sandbox = require('../../services/sandbox');
+    });
+
+    try {
+      sandbox.saveSandboxConfig({});
+      expect(sandbox.getSandboxRunMode()).toBe('blocked');
+      const refused = await sandbox.runSandboxed({ source: 'bash', command: '/bin/sh', args: ['-c', 'echo hi'] });
+      expect(refused).toMatchObject({ status: 'denied', isolation: 'none', error: ISOLATION_UNAVAILABLE_ERROR });
+      expect(refused.stdout).toBe('');
+      expect(lastAudit()).toMatchObject({ status: 'denied', isolation: 'none' });
+
+      sandbox.saveSandboxConfig({ requireIsolation: false });
+      expect(sandbox.getSandboxRunMode()).toBe('unisolated');
+      const allowed = await sandbox.runSandboxed({ source: 'bash', command: '/bin/sh', args: ['-c', 'echo hi'] });
+      expect(allowed).toMatchObject({ status: 'completed', isolation: 'none', warning: UNISOLATED_RUN_WARNING });
+      expect(lastAudit()).toMatchObject({ status: 'completed', isolation: 'none' });
+    } finally {
+      probe.mockRestore();
+    }
+  });
+});
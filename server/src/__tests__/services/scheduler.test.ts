@@ -0,0 +1,201 @@
+/**
+ * Scheduler tests run against an in-memory SQLite database so schedule and
+ * run-history persistence is exercised for real. The workflow engine and
+ * channel plugins are mocked.
+ */
+process.env.DATABASE_PATH = ':memory:';
+
+const mockStartExecution = jest.fn();
+const mockApproveStep = jest.fn();
+
+jest.mock('../../services/workflowEngine', () => ({
+  startExecution: mockStartExecution,
+  approveStep: mockApproveStep,
+}));
+
+const mockSendOutbound = jest.fn();
+const mockGetChannel = jest.fn();
+
+jest.mock('../../plugins/registry', () => ({
+  pluginRegistry: { getChannel: mockGetChannel },
+}));
+
+import { initializeDatabase, getDatabase, queries, ensurePersonalWorkspace } from '../../models/database';
+import { WorkflowScheduler } from '../../services/scheduler';
+import { ScheduleRun, WorkflowSchedule } from '../../types';
+
+describe('WorkflowScheduler', () => {
+  let scheduler: WorkflowScheduler;
+  let skillId: number;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    initializeDatabase();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const db = getDatabase();
+    db.prepare('DELETE FROM schedule_runs').run();
+    db.prepare('DELETE FROM workflow_schedules').run();
+
+    skillId = Number(db.prepare(
+      "INSERT INTO skills (name, description, created_by) VALUES ('Weekly Report', 'test', 1)"
+    ).run().lastInsertRowid);
+    db.prepare(`
+      INSERT INTO skill_steps (parent_id, parent_type, step_order, step_name, step_type, ai_model, prompt_template)
+      VALUES (?, 'skill', 1, 'Summarize', 'ai', 'gpt-4o', 'Summarize {{topic}}')
+    `).run(skillId);
+
+    mockStartExecution.mockImplementation((recipeId: number, userId: number, inputs: Record<string, any>) => {
+      const created = queries.createExecution(recipeId, userId, JSON.stringify(inputs));
+      return Promise.resolve({ success: true, executionId: created.lastInsertRowid, status: 'running' });
+    });
+    mockGetChannel.mockReturnValue({ sendOutbound: mockSendOutbound });
+    mockSendOutbound.mockResolvedValue(undefined);
+    mockApproveStep.mockResolvedValue({ success: true });
+
+    scheduler = new WorkflowScheduler();
+  });
+
+  function createSchedule(overrides: Partial<WorkflowSchedule> = {}): WorkflowSchedule {
+    const db = getDatabase();
+    const values = {
+      name: 'Monday report',
+      cron_expression: '0 9 * * MON',
+      input_data: JSON.stringify({ topic: 'reviews' }),
+      output_channel: 'lark',
+      output_channel_id: 'oc_chat',
+      auto_approve: 1,
+      next_run_at: new Date(Date.now() - 60_000).toISOString(),
+      ...overrides,
+    };
+    const id = Number(db.prepare(`
+      INSERT INTO workflow_schedules
+        (name, parent_type, parent_id, cron_expression, input_data, output_channel, output_channel_id, auto_approve, created_by, next_run_at)
+      VALUES (?, 'skill', ?, ?, ?, ?, ?, ?, 1, ?)
+    `).run(
+      values.name, skillId, values.cron_expression, values.input_data,
+      values.output_channel, values.output_channel_id, values.auto_approve, values.next_run_at
+    ).lastInsertRowid);
+    return db.prepare('SELECT * FROM workflow_schedules WHERE id = ?').get(id) as WorkflowSchedule;
+  }
+
+  function getRuns(scheduleId: number): ScheduleRun[] {
+    return getDatabase().prepare('SELECT * FROM schedule_runs WHERE schedule_id = ?').all(scheduleId) as ScheduleRun[];
+  }
+
+  test('runs due schedules with stored inputs and advances next_run_at', async () => {
+    const schedule = createSchedule();
+
+    await scheduler.tick();
+
+    expect(mockStartExecution).toHaveBeenCalledWith(
+      expect.any(Number),
+      1,
+      { topic: 'reviews' },
+      expect.arrayContaining([expect.objectContaining({ step_name: 'Summarize' })])
+    );
+    const runs = getRuns(schedule.id);
+    expect(runs).toHaveLength(1);
+    expect(runs[0].status).toBe('running');
+    expect(runs[0].trigger_type).toBe('schedule');
+
+    const updated = getDatabase().prepare('SELECT * FROM workflow_schedules WHERE id = ?').get(schedule.id) as WorkflowSchedule;
+    expect(new Date(updated.next_run_at!).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  test('does not run schedules that are not due or disabled', async () => {
+    createSchedule({ next_run_at: new Date(Date.now() + 3_600_000).toISOString() });
+    const disabled = createSchedule();
+    getDatabase().prepare('UPDATE workflow_schedules SET enabled = 0 WHERE id = ?').run(disabled.id);
+
+    await scheduler.tick();
+
+    expect(mockStartExecution).not.toHaveBeenCalled();
+  });
+
+  test('records a failed run when the skill no longer exists', async () => {
+    const schedule = createSchedule();
+    getDatabase().prepare('DELETE FROM skill_steps WHERE parent_id = ?').run(skillId);
+    getDatabase().prepare('DELETE FROM skills WHERE id = ?').run(skillId);
+
+    const run = await scheduler.runSchedule(schedule.id, 'manual');
+
+    expect(run.status).toBe('failed');
+    expect(run.error_message).toContain('no longer exists');
+    expect(mockSendOutbound).toHaveBeenCalledWith('oc_chat', expect.objectContaining({
+      text: expect.stringContaining('failed to start'),
+    }));
+  });
+
+  test('records a failed run when the schedule has no owner to run as', async () => {
+    const schedule = createSchedule();
+    getDatabase().prepare('UPDATE workflow_schedules SET created_by = NULL WHERE id = ?').run(schedule.id);
+
+    const run = await scheduler.runSchedule(schedule.id, 'schedule');
+
+    expect(run.status).toBe('failed');
+    expect(run.error_message).toBe('Trigger has no owner to run as');
+    expect(mockStartExecution).not.toHaveBeenCalled();
+  });
+
+  test('does not start runs once the workspace has used its quota', async () => {
+    const db = getDatabase();
+    const workspaceId = ensurePersonalWorkspace(1);
+    db.prepare('UPDATE skills SET workspace_id = ? WHERE id = ?').run(workspaceId, skillId);
+    db.prepare('UPDATE workspaces SET monthly_request_quota = 0 WHERE id = ?').run(workspaceId);
+    const schedule = createSchedule();
+
+    const run = await scheduler.runSchedule(schedule.id, 'schedule');
+
+    expect(run.status).toBe('failed');
+    expect(run.error_message).toMatch(/has used its 0 requests/);
+    expect(mockStartExecution).not.toHaveBeenCalled();
+  });
+
+  test('delivers the final output once the execution completes', async () => {
+    const schedule = createSchedule();
+    const run = await scheduler.runSchedule(schedule.id, 'manual');
+
+    queries.createStepExecution(run.execution_id!, 1, 1, '{}');
+    const [stepExecution] = queries.getStepExecutionsByExecutionId(run.execution_id!) as any[];
+    queries.updateStepExecution('completed', JSON.stringify({ content: 'Top issue: shipping damage' }), 'gpt-4o', '', stepExecution.id);
+    queries.completeExecution('completed', run.execution_id!);
+
+    await scheduler.syncActiveRuns();
+
+    const [finished] = getRuns(schedule.id);
+    expect(finished.status).toBe('completed');
+    expect(finished.delivery_status).toBe('sent');
+    expect(mockGetChannel).toHaveBeenCalledWith('channel-lark');
+    expect(mockSendOutbound).toHaveBeenCalledWith('oc_chat', expect.objectContaining({
+      text: expect.stringContaining('Top issue: shipping damage'),
+    }));
+  });
+
+  test('auto-approves steps waiting for review', async () => {
+    const schedule = createSchedule();
+    const run = await scheduler.runSchedule(schedule.id, 'manual');
+
+    queries.createStepExecution(run.execution_id!, 1, 1, '{}');
+    const [stepExecution] = queries.getStepExecutionsByExecutionId(run.execution_id!) as any[];
+    queries.updateStepExecution('awaiting_review', JSON.stringify({ content: 'scraped' }), 'browser', '', stepExecution.id);
+
+    await scheduler.syncActiveRuns();
+
+    expect(mockApproveStep).toHaveBeenCalledWith(run.execution_id, stepExecution.id, 1);
+    expect(getRuns(schedule.id)[0].status).toBe('running');
+  });
+
+  test('skips delivery when no output channel is configured', async () => {
+    const schedule = createSchedule({ output_channel: 'none', output_channel_id: null });
+    const run = await scheduler.runSchedule(schedule.id, 'manual');
+    queries.completeExecution('completed', run.execution_id!);
+
+    await scheduler.syncActiveRuns();
+
+    expect(getRuns(schedule.id)[0].delivery_status).toBe('skipped');
+    expect(mockSendOutbound).not.toHaveBeenCalled();
+  });
+});
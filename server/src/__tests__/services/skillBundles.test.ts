@@ -0,0 +1,177 @@
+/**
+ * Bundle tests run against an in-memory SQLite database. Two workspaces stand
+ * in for the staging and production instances a bundle is copied between.
+ */
+process.env.DATABASE_PATH = ':memory:';
+
+import { initializeDatabase, getDatabase, ensurePersonalWorkspace, queries } from '../../models/database';
+import {
+  BundleError,
+  exportSkillBundle,
+  importSkillBundle,
+  parseBundle,
+  resolveImportedDraftSteps,
+  serializeBundle,
+} from '../../services/skillBundles';
+import { CompanyStandard, SkillDraft } from '../../types';
+import { parseYaml, toYaml } from '../../utils/yaml';
+
+describe('yaml', () => {
+  test('round-trips nested values and multi-line prompts', () => {
+    const value = {
+      name: 'Summarize: reviews',
+      count: 3,
+      enabled: false,
+      missing: null,
+      empty: {},
+      none: [],
+      tags: ['a', 'b c', '42'],
+      prompt: 'Line one\n\n  indented {{topic}}\n',
+      stripped: 'no trailing\nnewline',
+      kept: 'blank lines\n\n',
+      steps: [{ step_name: 'Fetch', config: { 'odd key': 'x # not a comment' } }, [1, 2]],
+    };
+    const yaml = toYaml(value);
+    expect(yaml).toContain('prompt: |\n  Line one\n\n    indented {{topic}}\n');
+    expect(parseYaml(yaml)).toEqual(value);
+  });
+
+  test('reads hand-written YAML and reports the line of an error', () => {
+    expect(parseYaml('# bundle\nsteps:\n- name: A # first\n  on: true\n- \'it\'\'s\'\n')).toEqual({
+      steps: [{ name: 'A', on: true }, "it's"],
+    });
+    expect(() => parseYaml('a: 1\n   b: 2\n')).toThrow('Invalid YAML at line 2: bad indentation');
+  });
+});
+
+describe('skill bundles', () => {
+  let staging: number;
+  let production: number;
+  let importer: number;
+
+  const http = (name: string, url = 'https://example.com') => ({ name, type: 'http', config: { url, method: 'GET' } });
+
+  function createSkill(
+    name: string,
+    workspaceId: number,
+    steps: Array<{ name: string; type: string; prompt?: string; config?: Record<string, any>; input?: Record<string, any> }>
+  ): number {
+    const db = getDatabase();
+    const skillId = Number(db.prepare(
+      "INSERT INTO skills (name, description, created_by, workspace_id, tags) VALUES (?, 'test', 1, ?, '[\"reviews\"]')"
+    ).run(name, workspaceId).lastInsertRowid);
+    steps.forEach((step, index) => db.prepare(`
+      INSERT INTO skill_steps (parent_id, parent_type, step_order, step_name, step_type, prompt_template, input_config, executor_config)
+      VALUES (?, 'skill', ?, ?, ?, ?, ?, ?)
+    `).run(
+      skillId, index + 1, step.name, step.type, step.prompt || '',
+      JSON.stringify(step.input || {}), JSON.stringify(step.config || {})
+    ));
+    return skillId;
+  }
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    initializeDatabase();
+    staging = ensurePersonalWorkspace(1);
+    importer = Number(getDatabase().prepare("INSERT INTO users (email, password_hash) VALUES ('prod@example.com', '')").run().lastInsertRowid);
+    production = ensurePersonalWorkspace(importer);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  function exportPipeline() {
+    const voice = Number(queries.createStandard(1, staging, 'voice', 'Brand Voice', '{"tone":"warm"}').lastInsertRowid);
+    const fetchId = createSkill(`Fetch reviews ${voice}`, staging, [http('Fetch')]);
+    const reportId = createSkill(`Review report ${voice}`, staging, [
+      { name: 'Nested', type: 'skill', config: { target_id: fetchId, version: 2 } },
+      {
+        ...http('Post'),
+        prompt: 'Write in {{brand_voice}}:\n{{step_1_output}}',
+        input: { variables: [{ name: 'brand_voice', source: 'company_standard', standardId: voice }] },
+      },
+    ]);
+    return { voice, fetchId, reportId, bundle: exportSkillBundle('skill', reportId, 1, staging)! };
+  }
+
+  test('exports the skills it runs and the standards it uses', () => {
+    const { voice, fetchId, reportId, bundle } = exportPipeline();
+
+    expect(bundle).toMatchObject({ format: 'novohaven-bundle', bundle_version: 1 });
+    expect(bundle.asset).toMatchObject({ ref: `skill:${reportId}`, tags: ['reviews'] });
+    expect(bundle.asset.steps[0].executor_config).toEqual({ target_id: fetchId });
+    expect(bundle.dependencies.map((asset) => asset.ref)).toEqual([`skill:${fetchId}`]);
+    expect(bundle.standards).toEqual([
+      { ref: `standard:${voice}`, standard_type: 'voice', name: 'Brand Voice', content: { tone: 'warm' } },
+    ]);
+    expect(parseBundle(serializeBundle(bundle, 'yaml'))).toEqual(bundle);
+  });
+
+  test('imports as drafts with ids resolved in the importing workspace', () => {
+    const { voice, bundle } = exportPipeline();
+    const result = importSkillBundle(serializeBundle(bundle, 'yaml'), { userId: importer, workspaceId: production });
+
+    expect(result.drafts.map((draft) => draft.name)).toEqual([bundle.dependencies[0].name, bundle.asset.name]);
+    expect(result.standards).toEqual([
+      { ref: `standard:${voice}`, name: 'Brand Voice', id: null, action: 'create_on_approval' },
+    ]);
+    const [fetchDraft, reportDraft] = result.drafts.map((draft) => queries.getSkillDraftById(draft.id) as SkillDraft);
+    expect(reportDraft).toMatchObject({ original_skill_id: null, proposed_by_user: importer, workspace_id: production, tags: '["reviews"]' });
+
+    const steps = JSON.parse(reportDraft.steps);
+    expect(JSON.parse(steps[0].executor_config)).toEqual({ target_id: null, target_draft_id: fetchDraft.id });
+    expect(JSON.parse(steps[1].input_config).variables[0]).toEqual({
+      name: 'brand_voice', source: 'company_standard', standard_ref: `standard:${voice}`,
+    });
+
+    // Runs the imported skill, so that draft must be approved first
+    expect(() => resolveImportedDraftSteps(reportDraft, steps, importer)).toThrow(`Approve draft #${fetchDraft.id}`);
+
+    getDatabase().prepare('UPDATE skill_drafts SET applied_id = 99 WHERE id = ?').run(fetchDraft.id);
+    const resolved = resolveImportedDraftSteps(reportDraft, steps, importer);
+    expect(JSON.parse(resolved[0].executor_config)).toEqual({ target_id: 99 });
+    const created = (queries.getStandardsByType(production, 'voice') as CompanyStandard[])
+      .find((standard) => standard.name === 'Brand Voice')!;
+    expect(created.content).toBe('{"tone":"warm"}');
+    expect(JSON.parse(resolved[1].input_config).variables[0].standardId).toBe(created.id);
+  });
+
+  test('reuses what the workspace already has and updates a same-named skill', () => {
+    const { bundle } = exportPipeline();
+    // The exporting workspace already has everything
+    const result = importSkillBundle(bundle, { userId: 1, workspaceId: staging });
+
+    expect(result.reused.map((asset) => asset.ref)).toEqual([bundle.dependencies[0].ref]);
+    expect(result.standards[0].action).toBe('reused');
+    expect(result.drafts).toHaveLength(1);
+    expect(result.drafts[0].original_skill_id).toBe(Number(bundle.asset.ref.split(':')[1]));
+
+    const asNew = importSkillBundle(bundle, { userId: 1, workspaceId: staging, asNew: true });
+    expect(asNew.drafts[0].original_skill_id).toBeNull();
+  });
+
+  test('rejects bundles that fail validation without creating drafts', () => {
+    const { bundle } = exportPipeline();
+    bundle.asset.steps[1].executor_config = { method: 'GET' };
+    bundle.asset.steps.push({ ...bundle.asset.steps[1], step_name: 'Odd', step_type: 'teleport' });
+    const drafts = () => (getDatabase().prepare('SELECT COUNT(*) AS count FROM skill_drafts').get() as { count: number }).count;
+    const before = drafts();
+
+    let error: BundleError | undefined;
+    try {
+      importSkillBundle(bundle, { userId: importer, workspaceId: production });
+    } catch (err: any) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(BundleError);
+    expect(error!.errors).toEqual([
+      `${bundle.asset.name} step 2 (Post): URL is required`,
+      `${bundle.asset.name} step 3 (Odd): unknown step type "teleport"`,
+    ]);
+    expect(drafts()).toBe(before);
+
+    expect(() => parseBundle({ ...bundle, bundle_version: 2 })).toThrow('newer than this server supports');
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Skill step tests run against an in-memory SQLite database with a recording
+ * `http` executor, so a parent run and the child run it starts are both real.
+ */
+process.env.DATABASE_PATH = ':memory:';
+
+import { initializeDatabase, getDatabase, queries } from '../../models/database';
+import { registerExecutor } from '../../executors/registry';
+import { StepExecutor } from '../../executors/StepExecutor';
+import { SkillExecutor, parseSkillStepConfig } from '../../executors/SkillExecutor';
+import { startExecution } from '../../services/workflowEngine';
+import { RecipeStep, StepExecution, WorkflowExecution } from '../../types';
+
+describe('parseSkillStepConfig', () => {
+  const step = (config: Record<string, any> | string) => ({
+    executor_config: typeof config === 'string' ? config : JSON.stringify(config),
+  } as RecipeStep);
+
+  test('reads the target and input mappings', () => {
+    const { config, errors } = parseSkillStepConfig(step({
+      target_type: 'workflow',
+      target_id: '7',
+      inputs: '{"topic": "{{step_1_output}}", "limit": 3}',
+      inherit_inputs: false,
+    }));
+    expect(errors).toEqual([]);
+    expect(config).toEqual({
+      target_type: 'workflow',
+      target_id: 7,
+      version: null,
+      inputs: { topic: '{{step_1_output}}', limit: '3' },
+      inherit_inputs: false,
+    });
+  });
+
+  test('requires a target id and an object of inputs', () => {
+    const { config, errors } = parseSkillStepConfig(step({ target_type: 'recipe', inputs: ['a'] }));
+    expect(config.target_id).toBeNull();
+    expect(config.inherit_inputs).toBe(true);
+    expect(errors).toEqual([
+      'target_type must be "skill" or "workflow"',
+      'target_id must be the id of a skill or workflow',
+      'inputs must be an object mapping input names to values',
+    ]);
+  });
+});
+
+describe('skill steps', () => {
+  const recordingExecutor: StepExecutor = {
+    type: 'http',
+    displayName: 'HTTP Request',
+    icon: '🌐',
+    description: 'Recording test executor',
+    validateConfig: () => ({ valid: true, errors: [] }),
+    getConfigSchema: () => ({ fields: [] }),
+    async execute(step, context) {
+      const topic = context.userInputs.topic ?? 'none';
+      return { success: true, content: `${step.step_name}(${topic})`, modelUsed: 'http' };
+    },
+  };
+
+  function createSkill(name: string, steps: Array<{ name: string; type: string; config?: Record<string, any> }>): number {
+    const db = getDatabase();
+    const skillId = Number(db.prepare(
+      "INSERT INTO skills (name, description, created_by) VALUES (?, 'test', 1)"
+    ).run(name).lastInsertRowid);
+    steps.forEach((step, index) => db.prepare(`
+      INSERT INTO skill_steps (parent_id, parent_type, step_order, step_name, step_type, executor_config)
+      VALUES (?, 'skill', ?, ?, ?, ?)
+    `).run(skillId, index + 1, step.name, step.type, JSON.stringify(step.config || {})));
+    return skillId;
+  }
+
+  function createRecipe(steps: Array<{ name: string; type: string; config?: Record<string, any> }>): number {
+    const db = getDatabase();
+    const recipeId = Number(db.prepare(
+      "INSERT INTO recipes (name, description, created_by) VALUES ('Parent', 'test', 1)"
+    ).run().lastInsertRowid);
+    steps.forEach((step, index) => db.prepare(
+      'INSERT INTO recipe_steps (recipe_id, step_order, step_name, step_type, executor_config) VALUES (?, ?, ?, ?, ?)'
+    ).run(recipeId, index + 1, step.name, step.type, JSON.stringify(step.config || {})));
+    return recipeId;
+  }
+
+  async function waitForRun(executionId: number): Promise<WorkflowExecution> {
+    let execution = queries.getExecutionById(executionId) as WorkflowExecution;
+    for (let i = 0; i < 200 && ['running', 'pending'].includes(execution.status); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      execution = queries.getExecutionById(executionId) as WorkflowExecution;
+    }
+    return execution;
+  }
+
+  const stepExecutions = (executionId: number) =>
+    queries.getStepExecutionsByExecutionId(executionId) as StepExecution[];
+  const outputs = (executionId: number) => stepExecutions(executionId)
+    .map((se) => JSON.parse(se.output_data || '{}').content);
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    initializeDatabase();
+    registerExecutor(recordingExecutor);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('runs the target as a linked child run and returns its final output', async () => {
+    const childSkillId = createSkill('Summarize reviews', [
+      { name: 'Fetch', type: 'http' },
+      { name: 'Summarize', type: 'http' },
+    ]);
+    const recipeId = createRecipe([
+      { name: 'Scrape', type: 'http' },
+      { name: 'Nested', type: 'skill', config: { target_id: childSkillId, inputs: { topic: 'from {{step_1_output}}' } } },
+      { name: 'Report', type: 'http' },
+    ]);
+
+    const { executionId } = await startExecution(recipeId, 1, { topic: 'shoes' });
+    const parent = await waitForRun(executionId);
+
+    expect(parent.status).toBe('completed');
+    expect(outputs(executionId)).toEqual([
+      'Scrape(shoes)',
+      'Summarize(from Scrape(shoes))',
+      'Report(shoes)',
+    ]);
+
+    const skillStep = stepExecutions(executionId)[1];
+    const child = queries.getChildExecutionForStep(skillStep.id) as WorkflowExecution;
+    expect(child).toMatchObject({
+      status: 'completed',
+      parent_execution_id: executionId,
+      parent_step_execution_id: skillStep.id,
+    });
+    expect(JSON.parse(child.input_data as string)).toEqual({ topic: 'from Scrape(shoes)' });
+    expect(JSON.parse(skillStep.output_data!)).toMatchObject({ childExecutionId: child.id });
+  });
+
+  test('passes inputs through only when asked to', async () => {
+    const childSkillId = createSkill('Echo', [{ name: 'Echo', type: 'http' }]);
+    const recipeId = createRecipe([
+      { name: 'Nested', type: 'skill', config: { target_id: childSkillId, inherit_inputs: false } },
+    ]);
+
+    const { executionId } = await startExecution(recipeId, 1, { topic: 'shoes' });
+    await waitForRun(executionId);
+
+    expect(outputs(executionId)).toEqual(['Echo(none)']);
+  });
+
+  test('refuses a skill that runs itself', async () => {
+    const db = getDatabase();
+    const skillId = createSkill('Recursive', [{ name: 'Again', type: 'skill' }]);
+    db.prepare("UPDATE skill_steps SET executor_config = ? WHERE parent_id = ? AND parent_type = 'skill'")
+      .run(JSON.stringify({ target_id: skillId }), skillId);
+    const recipeId = createRecipe([
+      { name: 'Start', type: 'skill', config: { target_id: skillId } },
+    ]);
+
+    const { executionId } = await startExecution(recipeId, 1, {});
+    const parent = await waitForRun(executionId);
+
+    const child = queries.getChildExecutionForStep(stepExecutions(executionId)[0].id) as WorkflowExecution;
+    expect(child.status).toBe('paused');
+    expect(stepExecutions(child.id)[0].error_message).toMatch(/already running in this chain/);
+    expect(parent.status).toBe('paused');
+    expect(stepExecutions(executionId)[0].error_message)
+      .toMatch(new RegExp(`^Nested execution #${child.id} failed at step 1: `));
+  });
+
+  test('validates that the target exists', () => {
+    const executor = new SkillExecutor();
+    expect(executor.validateConfig({ executor_config: JSON.stringify({ target_id: 99999 }) } as RecipeStep))
+      .toEqual({ valid: false, errors: ['skill #99999 not found'] });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Test-suite tests run against an in-memory SQLite database. AI calls, both
+ * the steps' and the rubric grader's, go through a spy on `callAIByModel`.
+ */
+process.env.DATABASE_PATH = ':memory:';
+
+import { initializeDatabase, getDatabase, queries } from '../../models/database';
+import * as aiService from '../../services/aiService';
+import { SkillTestError, createTestCase, createTestRun, executeTestRun, listTestCases } from '../../services/skillTests';
+import { SkillDraft, StepExecution } from '../../types';
+
+describe('skill test suites', () => {
+  let skillId: number;
+  let callAI: jest.SpyInstance;
+
+  const goldenCase = {
+    name: 'Mug report',
+    inputs: { product: 'mug' },
+    stubs: { 2: '{"rating": 4, "tags": ["sturdy"]}' },
+    mock_ai: true,
+    assertions: [
+      { type: 'contains', value: 'Summary' },
+      { type: 'regex', step: 1, value: 'reviews for MUG', flags: 'i' },
+      { type: 'json_schema', step: 2, schema: { type: 'object', required: ['rating'], properties: { rating: { type: 'number' } } } },
+      { type: 'field_equals', step: 2, path: 'tags[0]', expected: 'sturdy' },
+      { type: 'llm_rubric', value: 'Mentions the rating', model: 'grader' },
+    ],
+  };
+
+  function createDraft(reportPrompt: string): SkillDraft {
+    const steps = [
+      { step_name: 'Fetch', step_type: 'ai', ai_model: 'gpt-4o', prompt_template: 'List reviews for {{product}}' },
+      { step_name: 'Scrape', step_type: 'browser', executor_config: { url: 'https://example.com' } },
+      { step_name: 'Report', step_type: 'ai', ai_model: 'gpt-4o', prompt_template: reportPrompt },
+    ];
+    const result = getDatabase().prepare(`
+      INSERT INTO skill_drafts (original_skill_id, skill_type, name, description, steps, change_summary)
+      VALUES (?, 'skill', 'Review report', 'test', ?, 'Reword the report')
+    `).run(skillId, JSON.stringify(steps));
+    return queries.getSkillDraftById(Number(result.lastInsertRowid)) as SkillDraft;
+  }
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    initializeDatabase();
+    callAI = jest.spyOn(aiService, 'callAIByModel').mockImplementation(async (model, prompt) => {
+      if (prompt.startsWith('You are grading')) {
+        const pass = prompt.includes('"rating": 4');
+        return { success: true, content: `{"pass": ${pass}, "reason": "Rating ${pass ? 'present' : 'missing'}"}`, model };
+      }
+      return { success: true, content: `[${model}] ${prompt}`, model };
+    });
+  });
+
+  beforeEach(() => {
+    const db = getDatabase();
+    skillId = Number(db.prepare(
+      "INSERT INTO skills (name, description, created_by) VALUES ('Review report', 'test', 1)"
+    ).run().lastInsertRowid);
+    const insertStep = db.prepare(`
+      INSERT INTO skill_steps (parent_id, parent_type, step_order, step_name, step_type, ai_model, prompt_template)
+      VALUES (?, 'skill', ?, ?, ?, ?, ?)
+    `);
+    insertStep.run(skillId, 1, 'Fetch', 'ai', 'gpt-4o', 'List reviews for {{product}}');
+    insertStep.run(skillId, 2, 'Scrape', 'browser', null, '');
+    insertStep.run(skillId, 3, 'Report', 'ai', 'gpt-4o', 'Summary: {{step_2_output}}');
+    callAI.mockClear();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('rejects test cases with malformed assertions or stubs', () => {
+    expect(() => createTestCase('skill', skillId, {
+      name: ' ',
+      assertions: [{ type: 'regex', value: '(' }, { type: 'field_equals', path: 'a' }, { type: 'teleport' }],
+      stubs: { first: 'x' },
+    }, 1)).toThrow(SkillTestError);
+
+    expect(() => createTestCase('skill', skillId, {
+      name: 'Bad',
+      assertions: [{ type: 'field_equals', path: 'a' }],
+      stubs: { first: 'x' },
+    }, 1)).toThrow('Assertion 1: expected is required; stubs: "first" is not a step number');
+    expect(listTestCases('skill', skillId)).toEqual([]);
+    expect(() => createTestRun('skill', skillId, 1)).toThrow('This skill has no test cases');
+  });
+
+  test('runs golden cases against the current definition with stubs and mock AI', async () => {
+    const saved = createTestCase('skill', skillId, goldenCase, 1);
+    expect(saved).toMatchObject({ name: 'Mug report', mock_ai: true, stubs: { 2: '{"rating": 4, "tags": ["sturdy"]}' } });
+
+    const report = await executeTestRun(createTestRun('skill', skillId, 1).id);
+
+    expect(report).toMatchObject({ status: 'passed', passed: 1, failed: 0, draft_id: null });
+    const [result] = report.results;
+    expect(result.assertions.map((assertion) => [assertion.type, assertion.passed])).toEqual([
+      ['contains', true], ['regex', true], ['json_schema', true], ['field_equals', true], ['llm_rubric', true],
+    ]);
+    expect(result.assertions[4].message).toBe('Rating present');
+
+    // AI steps ran on the mock model; the browser step was never run
+    expect(callAI.mock.calls.filter(([, prompt]) => !prompt.startsWith('You are grading')).map(([model]) => model))
+      .toEqual(['mock', 'mock']);
+    const steps = queries.getStepExecutionsByExecutionId(result.execution_id!) as StepExecution[];
+    expect(steps[1]).toMatchObject({ status: 'completed', ai_model_used: 'stub' });
+    expect(queries.getSkillVersions('skill', skillId)).toEqual([]);
+  });
+
+  test('reports what a draft breaks, with the failing assertion', async () => {
+    createTestCase('skill', skillId, goldenCase, 1);
+    const draft = createDraft('Overview: {{step_2_output}}');
+
+    const report = await executeTestRun(createTestRun('skill', skillId, 1, draft).id);
+
+    expect(report).toMatchObject({ status: 'failed', passed: 0, failed: 1, draft_id: draft.id });
+    const failing = report.results[0].assertions.filter((assertion) => !assertion.passed);
+    expect(failing).toEqual([{ type: 'contains', step: null, passed: false, message: 'Output does not contain "Summary"' }]);
+    expect(queries.getLatestSkillTestRun('skill', skillId, draft.id)).toMatchObject({ id: report.id, status: 'failed' });
+    expect(queries.getLatestSkillTestRun('skill', skillId, null)).toBeUndefined();
+  });
+
+  test('reports an error when a step needs a person or browser and has no stub', async () => {
+    createTestCase('skill', skillId, { ...goldenCase, stubs: {} }, 1);
+
+    const report = await executeTestRun(createTestRun('skill', skillId, 1).id);
+
+    expect(report.status).toBe('failed');
+    expect(report.results[0]).toMatchObject({
+      status: 'error',
+      execution_id: null,
+      error: 'Step 2 (Scrape) is a browser step and needs a stub',
+    });
+    expect(callAI).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Versioning tests run against an in-memory SQLite database, with a recording
+ * `http` executor for the runs that record which version they executed.
+ */
+process.env.DATABASE_PATH = ':memory:';
+
+import { initializeDatabase, getDatabase, queries } from '../../models/database';
+import { registerExecutor } from '../../executors/registry';
+import { StepExecutor } from '../../executors/StepExecutor';
+import { ensureExecutionRecipeFromGraph, loadGraphParent, parseBridgeMarker } from '../../services/executionBridge';
+import {
+  bridgeSkillVersion,
+  compareSkillVersions,
+  getSkillVersion,
+  listSkillVersions,
+  recordSkillVersion,
+  rollbackSkillVersion,
+} from '../../services/skillVersions';
+import { startExecution } from '../../services/workflowEngine';
+import { StepExecution, WorkflowExecution } from '../../types';
+
+describe('parseBridgeMarker', () => {
+  test('reads the pinned version of a bridged recipe', () => {
+    expect(parseBridgeMarker('[BRIDGE:skill:4]')).toEqual({ parentType: 'skill', parentId: 4 });
+    expect(parseBridgeMarker('[BRIDGE:workflow:4@v3]')).toEqual({ parentType: 'workflow', parentId: 4, version: 3 });
+    expect(parseBridgeMarker('Quick task')).toBeNull();
+  });
+});
+
+describe('skill versions', () => {
+  let skillId: number;
+
+  const recordingExecutor: StepExecutor = {
+    type: 'http',
+    displayName: 'HTTP Request',
+    icon: '🌐',
+    description: 'Recording test executor',
+    validateConfig: () => ({ valid: true, errors: [] }),
+    getConfigSchema: () => ({ fields: [] }),
+    async execute(step) {
+      return { success: true, content: `${step.step_name}: ${step.prompt_template}`, modelUsed: 'http' };
+    },
+  };
+
+  function setPrompt(prompt: string, executorConfig = '{}'): void {
+    getDatabase().prepare(
+      "UPDATE skill_steps SET prompt_template = ?, executor_config = ? WHERE parent_id = ? AND parent_type = 'skill'"
+    ).run(prompt, executorConfig, skillId);
+  }
+
+  async function waitForRun(executionId: number): Promise<WorkflowExecution> {
+    let execution = queries.getExecutionById(executionId) as WorkflowExecution;
+    for (let i = 0; i < 50 && execution.status === 'running'; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      execution = queries.getExecutionById(executionId) as WorkflowExecution;
+    }
+    return execution;
+  }
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    initializeDatabase();
+    registerExecutor(recordingExecutor);
+  });
+
+  beforeEach(() => {
+    const db = getDatabase();
+    skillId = Number(db.prepare(
+      "INSERT INTO skills (name, description, created_by) VALUES ('Summarize', 'test', 1)"
+    ).run().lastInsertRowid);
+    db.prepare(`
+      INSERT INTO skill_steps (parent_id, parent_type, step_order, step_name, step_type, prompt_template)
+      VALUES (?, 'skill', 1, 'Summary', 'http', 'Summarize {{topic}}')
+    `).run(skillId);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('records a new version only when the definition changed', () => {
+    expect(recordSkillVersion('skill', skillId, { source: 'create', createdBy: 1 })).toMatchObject({ version: 1, source: 'create' });
+    expect(recordSkillVersion('skill', skillId, { source: 'edit', createdBy: 1 })).toMatchObject({ version: 1 });
+
+    setPrompt('Summarize {{topic}} in three bullets');
+    expect(recordSkillVersion('skill', skillId, { source: 'draft', createdBy: 1, note: 'Shorter' }))
+      .toMatchObject({ version: 2, source: 'draft', note: 'Shorter' });
+
+    expect(listSkillVersions('skill', skillId).map((v) => [v.version, v.step_count, v.created_by_email]))
+      .toEqual([[2, 1, 'demo@novohaven.com'], [1, 1, 'demo@novohaven.com']]);
+    expect(getSkillVersion('skill', skillId, 1)!.steps[0].prompt_template).toBe('Summarize {{topic}}');
+  });
+
+  test('diffs prompts and executor configs between versions', () => {
+    recordSkillVersion('skill', skillId, { source: 'create' });
+    setPrompt('Summarize {{topic}}\nCite sources', '{"timeout":30}');
+    recordSkillVersion('skill', skillId, { source: 'edit' });
+
+    const diff = compareSkillVersions('skill', skillId, 2)!;
+    expect(diff).toMatchObject({ from_version: 1, to_version: 2, name: null });
+    expect(diff.steps).toHaveLength(1);
+    expect(diff.steps[0].change).toBe('changed');
+    expect(diff.steps[0].fields.map((field) => field.field)).toEqual(['prompt_template', 'executor_config']);
+    expect(diff.steps[0].fields[0].lines).toEqual([
+      { type: 'same', text: 'Summarize {{topic}}' },
+      { type: 'added', text: 'Cite sources' },
+    ]);
+    expect(diff.steps[0].fields[1].after).toBe('{\n  "timeout": 30\n}');
+
+    expect(compareSkillVersions('skill', skillId, 1)!.steps[0].change).toBe('added');
+    expect(compareSkillVersions('skill', skillId, 9)).toBeNull();
+  });
+
+  test('rolls back by copying an old version forward', () => {
+    recordSkillVersion('skill', skillId, { source: 'create' });
+    setPrompt('Broken prompt');
+    recordSkillVersion('skill', skillId, { source: 'draft' });
+
+    const restored = rollbackSkillVersion('skill', skillId, 1, 1)!;
+
+    expect(restored).toMatchObject({ version: 3, source: 'rollback', note: 'Rolled back to version 1' });
+    expect(loadGraphParent('skill', skillId).steps[0].prompt_template).toBe('Summarize {{topic}}');
+    expect(getSkillVersion('skill', skillId, 2)!.steps[0].prompt_template).toBe('Broken prompt');
+    expect(rollbackSkillVersion('skill', skillId, 7, 1)).toBeNull();
+  });
+
+  test('executions record the version they ran, and pinned runs use its steps', async () => {
+    recordSkillVersion('skill', skillId, { source: 'create' });
+    setPrompt('Changed outside the editor');
+
+    const { parent, steps } = loadGraphParent('skill', skillId);
+    const { recipeId } = ensureExecutionRecipeFromGraph('skill', parent!, steps);
+    const { executionId: currentId } = await startExecution(recipeId, 1, {});
+    await waitForRun(currentId);
+    const current = queries.getExecutionById(currentId) as WorkflowExecution;
+    expect(queries.getSkillVersionById(current.skill_version_id!)).toMatchObject({ version: 2, source: 'run' });
+
+    const pinned = bridgeSkillVersion('skill', skillId, 1)!;
+    expect(pinned.recipeId).not.toBe(recipeId);
+    const { executionId: pinnedId } = await startExecution(pinned.recipeId, 1, {});
+    await waitForRun(pinnedId);
+
+    const pinnedRun = queries.getExecutionById(pinnedId) as WorkflowExecution;
+    expect(queries.getSkillVersionById(pinnedRun.skill_version_id!)).toMatchObject({ version: 1 });
+    const output = (queries.getStepExecutionsByExecutionId(pinnedId) as StepExecution[])[0].output_data!;
+    expect(JSON.parse(output).content).toBe('Summary: Summarize {{topic}}');
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Step cache tests run against an in-memory SQLite database. The engine
+ * tests swap in a counting `http` executor to see which steps really ran.
+ */
+process.env.DATABASE_PATH = ':memory:';
+
+import { initializeDatabase, getDatabase, queries } from '../../models/database';
+import { registerExecutor } from '../../executors/registry';
+import { StepExecutor, StepExecutorContext } from '../../executors/StepExecutor';
+import { startExecution } from '../../services/workflowEngine';
+import { executionEvents } from '../../services/executionEvents';
+import {
+  computeStepCacheKey,
+  lookupStepCache,
+  parseCachePolicy,
+  storeStepCache,
+} from '../../services/stepCache';
+import { ExecutionChatMessage, RecipeStep, StepExecution, WorkflowExecution } from '../../types';
+
+function makeStep(overrides: Partial<RecipeStep> = {}): RecipeStep {
+  return {
+    id: 1,
+    recipe_id: 1,
+    step_order: 1,
+    step_name: 'Fetch',
+    step_type: 'http',
+    ai_model: '',
+    prompt_template: '',
+    output_format: 'text',
+    executor_config: JSON.stringify({ method: 'GET', url: 'https://example.com/{{sku}}' }),
+    created_at: '2024-01-01',
+    ...overrides,
+  };
+}
+
+function makeContext(overrides: Partial<StepExecutorContext> = {}): StepExecutorContext {
+  return {
+    userId: 1,
+    workspaceId: null,
+    executionId: 1,
+    stepExecution: { id: 1, execution_id: 1, step_id: 1, step_order: 1, status: 'running', approved: false } as StepExecution,
+    userInputs: { sku: 'A1' },
+    completedStepExecutions: [],
+    ...overrides,
+  };
+}
+
+describe('parseCachePolicy', () => {
+  test('is off unless the step opts in', () => {
+    expect(parseCachePolicy(makeStep())).toEqual({ enabled: false, ttl_seconds: 86400 });
+    expect(parseCachePolicy(makeStep({ executor_config: '{"cache":true}' }))).toEqual({ enabled: true, ttl_seconds: 86400 });
+  });
+
+  test('reads and clamps the TTL', () => {
+    const policy = (cache: any) => parseCachePolicy(makeStep({ executor_config: JSON.stringify({ cache }) }));
+    expect(policy({ ttl_seconds: 600 })).toEqual({ enabled: true, ttl_seconds: 600 });
+    expect(policy({ enabled: false, ttl_seconds: 600 }).enabled).toBe(false);
+    expect(policy({ ttl_seconds: -5 }).ttl_seconds).toBe(86400);
+    expect(policy({ ttl_seconds: 10 ** 9 }).ttl_seconds).toBe(30 * 86400);
+  });
+});
+
+describe('computeStepCacheKey', () => {
+  const key = (step: RecipeStep, context: StepExecutorContext) => computeStepCacheKey(step, step.step_type, context);
+
+  test('is stable for the same step and inputs', () => {
+    const first = key(makeStep(), makeContext({ userInputs: { sku: 'A1', lang: 'en' } }));
+    const second = key(makeStep(), makeContext({ userInputs: { lang: 'en', sku: 'A1' } }));
+    expect(first).toMatch(/^[0-9a-f]{64}$/);
+    expect(second).toBe(first);
+  });
+
+  test('changes with inputs, model, config and earlier outputs', () => {
+    const base = key(makeStep(), makeContext());
+    expect(key(makeStep(), makeContext({ userInputs: { sku: 'B2' } }))).not.toBe(base);
+    expect(key(makeStep({ ai_model: 'gpt-5' }), makeContext())).not.toBe(base);
+    expect(key(makeStep({ executor_config: '{"method":"POST","url":"https://example.com/{{sku}}"}' }), makeContext())).not.toBe(base);
+
+    const upstream = (content: string) => [{
+      id: 9, execution_id: 1, step_id: 9, step_order: 1, status: 'completed', approved: true,
+      output_data: JSON.stringify({ content }),
+    } as StepExecution];
+    const second = makeStep({ step_order: 2 });
+    expect(key(second, makeContext({ completedStepExecutions: upstream('a') })))
+      .not.toBe(key(second, makeContext({ completedStepExecutions: upstream('b') })));
+  });
+
+  test('ignores settings that only change how the step runs', () => {
+    const withSettings = makeStep({
+      executor_config: JSON.stringify({
+        url: 'https://example.com/{{sku}}', method: 'GET', cache: { ttl_seconds: 60 }, retry: { max_attempts: 3 },
+      }),
+    });
+    expect(key(withSettings, makeContext())).toBe(key(makeStep(), makeContext()));
+  });
+
+  test('skips control-flow steps', () => {
+    expect(key(makeStep({ step_type: 'condition' }), makeContext())).toBeNull();
+  });
+});
+
+describe('step cache', () => {
+  let calls: string[];
+
+  const countingExecutor: StepExecutor = {
+    type: 'http',
+    displayName: 'HTTP Request',
+    icon: '🌐',
+    description: 'Counting test executor',
+    validateConfig: () => ({ valid: true, errors: [] }),
+    getConfigSchema: () => ({ fields: [] }),
+    async execute(step, context) {
+      calls.push(step.step_name);
+      return {
+        success: true,
+        content: `${step.step_name} #${calls.length} for ${context.userInputs.sku}`,
+        modelUsed: 'http',
+      };
+    },
+  };
+
+  const twoSteps = (cacheFirst: boolean) => [
+    { name: 'Fetch', config: JSON.stringify({ url: 'https://example.com', cache: cacheFirst }) },
+    { name: 'Post', config: '{"url":"https://example.com/post"}' },
+  ];
+
+  async function run(steps: Array<{ name: string; config: string }>, replayFromStep?: number) {
+    const db = getDatabase();
+    const recipeId = Number(db.prepare(
+      "INSERT INTO recipes (name, description, created_by) VALUES ('Cached', 'test', 1)"
+    ).run().lastInsertRowid);
+    steps.forEach((step, index) => db.prepare(
+      "INSERT INTO recipe_steps (recipe_id, step_order, step_name, step_type, executor_config) VALUES (?, ?, ?, 'http', ?)"
+    ).run(recipeId, index + 1, step.name, step.config));
+
+    const emit = jest.spyOn(executionEvents, 'emit');
+    const { executionId } = await startExecution(recipeId, 1, { sku: 'A1' }, undefined, { replayFromStep });
+    for (let i = 0; i < 50; i++) {
+      const execution = queries.getExecutionById(executionId) as WorkflowExecution;
+      if (execution.status === 'completed' || execution.status === 'paused') break;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    const outputs = emit.mock.calls
+      .map(([, message]) => message as ExecutionChatMessage)
+      .filter((m) => m.executionId === executionId && m.type === 'step-output');
+    emit.mockRestore();
+
+    return {
+      stepExecutions: queries.getStepExecutionsByExecutionId(executionId) as StepExecution[],
+      cached: outputs.map((m) => !!m.metadata?.cached),
+    };
+  }
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    initializeDatabase();
+    registerExecutor(countingExecutor);
+  });
+
+  beforeEach(() => {
+    calls = [];
+    getDatabase().prepare('DELETE FROM step_cache').run();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('stores results and serves unexpired entries', () => {
+    storeStepCache('k1', null, 'http', { success: true, content: 'hello', modelUsed: 'http' }, 60);
+    storeStepCache('k2', null, 'http', { success: false, content: '', error: 'boom' }, 60);
+
+    expect(lookupStepCache('k1')).toMatchObject({ success: true, content: 'hello', modelUsed: 'http' });
+    expect(lookupStepCache('k2')).toBeNull();
+    expect(getDatabase().prepare("SELECT hit_count FROM step_cache WHERE cache_key = 'k1'").get()).toEqual({ hit_count: 1 });
+
+    getDatabase().prepare("UPDATE step_cache SET expires_at = datetime('now', '-1 second')").run();
+    expect(lookupStepCache('k1')).toBeNull();
+  });
+
+  test('reuses the result of a step that opts in', async () => {
+    const first = await run(twoSteps(true));
+    expect(calls).toEqual(['Fetch', 'Post']);
+    expect(first.cached).toEqual([false, false]);
+
+    const second = await run(twoSteps(true));
+    expect(calls).toEqual(['Fetch', 'Post', 'Post']);
+    expect(second.cached).toEqual([true, false]);
+    expect(JSON.parse(second.stepExecutions[0].output_data!)).toMatchObject({ content: 'Fetch #1 for A1', cached: true });
+  });
+
+  test('replays earlier steps from the cache and re-runs the rest', async () => {
+    await run(twoSteps(false));
+    expect(calls).toEqual(['Fetch', 'Post']);
+
+    const replay = await run(twoSteps(false), 2);
+    expect(calls).toEqual(['Fetch', 'Post', 'Post']);
+    expect(replay.cached).toEqual([true, false]);
+    expect(replay.stepExecutions.map((se) => se.status)).toEqual(['completed', 'completed']);
+  });
+});
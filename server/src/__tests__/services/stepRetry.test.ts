@@ -0,0 +1,115 @@
+import {
+  parseRetryPolicy,
+  parseFallbackModels,
+  classifyStepError,
+  getBackoffDelay,
+  runWithRetryPolicy,
+  DEFAULT_RETRY_POLICY,
+} from '../../services/stepRetry';
+import { StepExecutorResult } from '../../executors/StepExecutor';
+import { RecipeStep } from '../../types';
+
+function makeStep(overrides: Partial<RecipeStep> = {}): RecipeStep {
+  return {
+    id: 1,
+    recipe_id: 1,
+    step_order: 1,
+    step_name: 'Summarize',
+    step_type: 'ai',
+    ai_model: 'claude-sonnet-4-20250514',
+    prompt_template: 'Summarize',
+    output_format: 'text',
+    created_at: '',
+    ...overrides,
+  } as RecipeStep;
+}
+
+const ok = (content: string): StepExecutorResult => ({ success: true, content });
+const fail = (error: string): StepExecutorResult => ({ success: false, content: '', error });
+const noSleep = jest.fn(() => Promise.resolve());
+
+describe('stepRetry', () => {
+  beforeEach(() => noSleep.mockClear());
+
+  test('defaults to a single attempt and clamps configured values', () => {
+    expect(parseRetryPolicy(makeStep())).toEqual(DEFAULT_RETRY_POLICY);
+
+    const policy = parseRetryPolicy(makeStep({
+      executor_config: JSON.stringify({ retry: { max_attempts: 50, backoff_ms: -5, retry_on: ['timeout', 'bogus'] } }),
+    }));
+    expect(policy.max_attempts).toBe(10);
+    expect(policy.backoff_ms).toBe(0);
+    expect(policy.retry_on).toEqual(['timeout']);
+  });
+
+  test('reads fallback models without repeating the primary model', () => {
+    const step = makeStep({
+      executor_config: JSON.stringify({ fallback_models: ['gemini-2.5-flash', 'claude-sonnet-4-20250514', 'gemini-2.5-flash', ''] }),
+    });
+    expect(parseFallbackModels(step)).toEqual(['gemini-2.5-flash']);
+  });
+
+  test('classifies common provider errors', () => {
+    expect(classifyStepError('429 Too Many Requests')).toBe('rate_limit');
+    expect(classifyStepError('overloaded_error: Overloaded')).toBe('rate_limit');
+    expect(classifyStepError('Request timed out after 30000ms')).toBe('timeout');
+    expect(classifyStepError('fetch failed: ECONNRESET')).toBe('network');
+    expect(classifyStepError('503 Service Unavailable')).toBe('server');
+    expect(classifyStepError('ANTHROPIC_API_KEY is not configured')).toBe('auth');
+    expect(classifyStepError('Unresolved variables: topic')).toBe('other');
+  });
+
+  test('backs off exponentially up to the cap', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, backoff_ms: 1000, backoff_multiplier: 2, max_backoff_ms: 3000 };
+    expect([1, 2, 3].map(n => getBackoffDelay(policy, n))).toEqual([1000, 2000, 3000]);
+  });
+
+  test('retries retryable errors on the same model and records every attempt', async () => {
+    const step = makeStep({ executor_config: JSON.stringify({ retry: { max_attempts: 3, backoff_ms: 500 } }) });
+    const run = jest.fn()
+      .mockResolvedValueOnce(fail('503 Service Unavailable'))
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce(ok('summary'));
+    const onRetry = jest.fn();
+
+    const { result, attempts } = await runWithRetryPolicy(step, 'ai', run, { onRetry, sleep: noSleep });
+
+    expect(result.success).toBe(true);
+    expect(attempts.map(a => [a.attempt, a.status, a.error_class])).toEqual([
+      [1, 'failed', 'server'],
+      [2, 'failed', 'network'],
+      [3, 'succeeded', undefined],
+    ]);
+    expect(noSleep.mock.calls).toEqual([[500], [1000]]);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+  });
+
+  test('falls back to the next model when the primary is rate limited', async () => {
+    const step = makeStep({ executor_config: JSON.stringify({ fallback_models: ['gemini-2.5-flash'] }) });
+    const run = jest.fn((s: RecipeStep) => Promise.resolve(
+      s.ai_model === 'gemini-2.5-flash' ? ok('from gemini') : fail('rate limit exceeded')
+    ));
+
+    const { result, attempts } = await runWithRetryPolicy(step, 'ai', run, { sleep: noSleep });
+
+    expect(result.content).toBe('from gemini');
+    expect(attempts.map(a => a.model)).toEqual(['claude-sonnet-4-20250514', 'gemini-2.5-flash']);
+    expect(noSleep).not.toHaveBeenCalled();
+  });
+
+  test('stops at errors that are not retryable', async () => {
+    const step = makeStep({
+      executor_config: JSON.stringify({ retry: { max_attempts: 3 }, fallback_models: ['gemini-2.5-flash'] }),
+    });
+    const run = jest.fn().mockResolvedValue(fail('Unresolved variables: topic'));
+
+    const { result, attempts } = await runWithRetryPolicy(step, 'ai', run, {
+      previousAttempts: [{ attempt: 1, status: 'failed', started_at: '', finished_at: '' }],
+      sleep: noSleep,
+    });
+
+    expect(result.success).toBe(false);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(attempts.map(a => a.attempt)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  extractJson,
+  parseOutputSchema,
+  parseRepairAttempts,
+  validateJsonSchema,
+} from '../../services/structuredOutput';
+import { RecipeStep } from '../../types';
+
+const reviewSchema = {
+  type: 'object',
+  required: ['sentiment', 'themes'],
+  additionalProperties: false,
+  properties: {
+    sentiment: { type: 'string', enum: ['positive', 'neutral', 'negative'] },
+    score: { type: 'number', minimum: 0, maximum: 1 },
+    themes: { type: 'array', minItems: 1, items: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } } },
+  },
+};
+
+function stepWith(executorConfig: unknown): RecipeStep {
+  return {
+    id: 1,
+    recipe_id: 1,
+    step_order: 1,
+    step_name: 'Classify',
+    step_type: 'ai',
+    ai_model: 'mock',
+    prompt_template: 'Classify',
+    output_format: 'json',
+    executor_config: typeof executorConfig === 'string' ? executorConfig : JSON.stringify(executorConfig),
+    created_at: '2024-01-01',
+  } as RecipeStep;
+}
+
+describe('structuredOutput', () => {
+  test('reads the output schema from executor_config as an object or a string', () => {
+    expect(parseOutputSchema(stepWith({ output_schema: reviewSchema }))).toEqual(reviewSchema);
+    expect(parseOutputSchema(stepWith({ output_schema: JSON.stringify(reviewSchema) }))).toEqual(reviewSchema);
+    expect(parseOutputSchema(stepWith({ output_schema: '' }))).toBeNull();
+    expect(parseOutputSchema(stepWith({ output_schema: [1] }))).toBeNull();
+    expect(parseOutputSchema(stepWith('not json'))).toBeNull();
+    expect(parseRepairAttempts(stepWith({}))).toBe(2);
+    expect(parseRepairAttempts(stepWith({ max_repair_attempts: 99 }))).toBe(5);
+  });
+
+  test('repairs fenced, wrapped and trailing-comma JSON', () => {
+    expect(extractJson('{"a":1}')).toEqual({ value: { a: 1 }, repaired: false });
+    expect(extractJson('```json\n{"a": [1, 2,],}\n```')).toEqual({ value: { a: [1, 2] }, repaired: true });
+    expect(extractJson('Here you go: [{"a":1}] Hope it helps!')).toEqual({ value: [{ a: 1 }], repaired: true });
+    expect(extractJson('no json here')).toBeUndefined();
+  });
+
+  test('reports paths of schema violations', () => {
+    expect(validateJsonSchema({ sentiment: 'positive', score: 0.9, themes: [{ name: 'battery' }] }, reviewSchema)).toEqual([]);
+    expect(validateJsonSchema({ sentiment: 'great', score: 2, themes: [{}], extra: true }, reviewSchema)).toEqual([
+      '$.sentiment: must be one of "positive", "neutral", "negative"',
+      '$.score: must be <= 1',
+      '$.themes[0]: missing required property "name"',
+      '$: unexpected property "extra"',
+    ]);
+    expect(validateJsonSchema('x', { anyOf: [{ type: 'number' }, { type: 'null' }] })).toEqual([
+      '$: must match at least one of the allowed schemas',
+    ]);
+    expect(validateJsonSchema(3, { type: 'integer' })).toEqual([]);
+    expect(validateJsonSchema(3.5, { type: 'integer' })).toEqual(['$: expected integer, got number']);
+  });
+});
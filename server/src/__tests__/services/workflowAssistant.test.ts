@@ -92,13 +92,15 @@ function resetDbMocks() {
 }
 
 jest.mock('../../models/database', () => ({
+  ensurePersonalWorkspace: jest.fn(() => 1),
+  workspaceVisibilitySql: jest.requireActual('../../models/database').workspaceVisibilitySql,
   getDatabase: jest.fn(() => ({
     transaction: (fn: any) => fn,
     prepare: (sql: string) => {
       const normalized = sql.replace(/\s+/g, ' ').trim();
 
-      if (normalized.startsWith('SELECT id, name, description FROM skills WHERE created_by = ?')) {
-        return { all: (userId: number) => mockSkills(userId) };
+      if (normalized.startsWith('SELECT id, name, description FROM skills a WHERE (a.workspace_id = ?')) {
+        return { all: (workspaceId: number) => mockSkills(workspaceId) };
       }
       if (normalized.startsWith("SELECT step_type FROM skill_steps WHERE parent_id = ? AND parent_type = 'skill'")) {
         return { all: (skillId: number) => mockSkillSteps(skillId).map((s: any) => ({ step_type: s.step_type })) };
@@ -239,7 +241,7 @@ describe('WorkflowAssistant', () => {
     const saved = await saveWorkflowAsRecipe(workflow, 1, false);
 
     expect(saved.recipeId).toBeGreaterThan(0);
-    expect(mockInsertWorkflow).toHaveBeenCalledWith('Scratch Workflow', 'No skill source', 1, '[]');
+    expect(mockInsertWorkflow).toHaveBeenCalledWith('Scratch Workflow', 'No skill source', 1, 1, '[]');
     const args = mockInsertStep.mock.calls[0];
     expect(args[1]).toBe('workflow');
     expect(args[4]).toBe('ai');
@@ -16,7 +16,11 @@ import fs from 'fs';
 import path from 'path';
 import { ChannelMessage, CompletionRequest, MessageAttachment, ProviderPlugin, ToolPlugin } from '../plugins/types';
 import { getUploadsDir } from '../utils/uploadHelpers';
-import { Session, AgentConfig } from '../types';
+import { workspaceVisibilitySql } from '../models/database';
+import { loadProviderPlugins } from '../plugins/loader';
+import { pluginRegistry } from '../plugins/registry';
+import { getProviderPluginForModel, streamCompletion } from '../services/aiService';
+import { Session, AgentConfig, LlmUsageContext } from '../types';
 import { PromptBuilder } from './PromptBuilder';
 import { ToolExecutor } from './ToolExecutor';
 
@@ -103,34 +107,22 @@ export class AgentRunner {
       return;
     }
 
-    // Determine provider from model name
+    // Provider plugins (builtin and community) are loaded into this process's
+    // registry, and the model catalog picks the one serving the configured model
     const model = agentConfig.default_model;
-    const providerName = this.resolveProviderName(model);
-
-    // Load provider plugin directly (child process can't access parent's registry)
     try {
-      const pluginDir = path.join(__dirname, '../plugins/builtin', providerName);
-      const manifest = require(path.join(pluginDir, 'manifest.json'));
-      const entryPath = this.resolvePluginEntryPath(pluginDir, manifest.entry || './index.ts');
-      if (!entryPath) {
-        throw new Error(`Provider entry not found for ${providerName}`);
-      }
-      const PluginModule = require(entryPath);
-      const PluginClass = PluginModule.default || PluginModule;
-      const provider = new PluginClass(manifest);
-
-      // Get config from DB
-      const dbConfig = this.db.prepare(
-        'SELECT config FROM plugin_configs WHERE plugin_name = ?'
-      ).get(providerName) as any;
-      const config = this.parsePluginConfig(dbConfig?.config);
-
-      await provider.initialize(config);
-      this.provider = provider;
-      console.log(`[AgentRunner] Provider ${providerName} initialized for session ${this.sessionId}`);
+      await loadProviderPlugins(this.db);
     } catch (err: any) {
-      console.error(`[AgentRunner] Failed to load provider ${providerName}:`, err.message);
+      console.error('[AgentRunner] Failed to load provider plugins:', err.message);
+    }
+
+    const provider = getProviderPluginForModel(model);
+    if (!provider) {
+      console.error(`[AgentRunner] No provider plugin serves model ${model}`);
+      return;
     }
+    this.provider = provider;
+    console.log(`[AgentRunner] Provider for ${model} initialized for session ${this.sessionId}`);
   }
 
   /**
@@ -183,6 +175,7 @@ export class AgentRunner {
     this.toolExecutor = new ToolExecutor(this.tools, {
       sessionId: this.sessionId,
       userId: session?.user_id || 1,
+      workspaceId: session?.workspace_id ?? null,
     });
   }
 
@@ -219,13 +212,6 @@ export class AgentRunner {
     return null;
   }
 
-  private resolveProviderName(model: string): string {
-    if (model.startsWith('claude') || model.startsWith('anthropic')) return 'provider-anthropic';
-    if (model.startsWith('gpt') || model.startsWith('o1') || model.startsWith('o3')) return 'provider-openai';
-    if (model.startsWith('gemini')) return 'provider-google';
-    return 'provider-anthropic'; // default
-  }
-
   /**
    * Handle an inbound user message — the main agentic loop.
    */
@@ -279,7 +265,7 @@ export class AgentRunner {
     }
 
     if (this.isHelpIntent(inboundText)) {
-      const helpMessage = this.buildHelpMessage(inboundText, session?.user_id || 1);
+      const helpMessage = this.buildHelpMessage(inboundText, session?.workspace_id ?? null);
       this.sendResponse(helpMessage);
       this.persistAssistantMessage(helpMessage);
       return;
@@ -367,6 +353,14 @@ export class AgentRunner {
       return;
     }
 
+    // Each LLM round is billed to the session's user and workspace
+    const usage: LlmUsageContext | undefined = session.user_id ? {
+      userId: session.user_id,
+      workspaceId: session.workspace_id,
+      source: 'agent',
+      sessionId: this.sessionId,
+    } : undefined;
+
     let round = 0;
     let toolRounds = 0;
     let currentMessages = [...messages];
@@ -389,7 +383,7 @@ export class AgentRunner {
       const messageId = `msg-${Date.now()}-${round}`;
 
       // Stream the response
-      for await (const event of this.provider.stream(request)) {
+      for await (const event of streamCompletion(request, usage, this.db)) {
         switch (event.type) {
           case 'text':
             fullText += event.text || '';
@@ -896,11 +890,11 @@ sys.stdout.write(text)`;
     return false;
   }
 
-  private buildHelpMessage(userText: string, userId: number): string {
+  private buildHelpMessage(userText: string, workspaceId: number | null): string {
     const lang = this.getSessionPreferredLanguage(userText);
     const modelName = this.getCurrentDefaultModelName();
-    const workflows = this.getAvailableAssets('workflow', userId, 6);
-    const skills = this.getAvailableAssets('skill', userId, 6);
+    const workflows = this.getAvailableAssets('workflow', workspaceId, 6);
+    const skills = this.getAvailableAssets('skill', workspaceId, 6);
 
     if (lang === 'zh') {
       const workflowLines = workflows.items.length > 0
@@ -1038,24 +1032,26 @@ sys.stdout.write(text)`;
 
   private getAvailableAssets(
     assetType: 'skill' | 'workflow',
-    userId: number,
+    workspaceId: number | null,
     limit: number
   ): { total: number; items: Array<{ name: string; description?: string }> } {
     const table = assetType === 'workflow' ? 'workflows' : 'skills';
+    // Assets without a workspace predate workspaces and stay visible everywhere
+    const visible = `(a.workspace_id IS NULL OR ${workspaceVisibilitySql('a', assetType)})`;
 
     const totalRow = this.db.prepare(
       `SELECT COUNT(1) AS total
-       FROM ${table}
-       WHERE status = 'active' AND (created_by = ? OR created_by IS NULL)`
-    ).get(userId) as { total?: number } | undefined;
+       FROM ${table} a
+       WHERE a.status = 'active' AND ${visible}`
+    ).get(workspaceId, workspaceId) as { total?: number } | undefined;
 
     const items = this.db.prepare(
       `SELECT a.name, a.description
        FROM ${table} a
-       WHERE a.status = 'active' AND (a.created_by = ? OR a.created_by IS NULL)
+       WHERE a.status = 'active' AND ${visible}
        ORDER BY a.updated_at DESC, a.id DESC
        LIMIT ?`
-    ).all(userId, limit) as Array<{ name?: string; description?: string | null }>;
+    ).all(workspaceId, workspaceId, limit) as Array<{ name?: string; description?: string | null }>;
 
     return {
       total: Number(totalRow?.total || 0),
@@ -1238,9 +1234,8 @@ sys.stdout.write(text)`;
    * Graceful shutdown.
    */
   async shutdown(): Promise<void> {
-    if (this.provider) {
-      await this.provider.shutdown();
-    }
+    // Providers live in this process's registry (see initializeProvider)
+    await pluginRegistry.shutdownAll();
     this.db.close();
     console.log(`[AgentRunner] Shutdown complete for session ${this.sessionId}`);
   }
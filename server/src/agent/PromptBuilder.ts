@@ -11,6 +11,7 @@
  */
 import Database from 'better-sqlite3';
 import { MessageAttachment, ToolDefinition } from '../plugins/types';
+import { workspaceVisibilitySql } from '../models/database';
 import { AgentConfig } from '../types';
 
 export interface BuiltPrompt {
@@ -126,7 +127,7 @@ export class PromptBuilder {
     }
 
     // Layer 5: Company standards summary
-    const standardsContext = this.getCompanyStandardsContext();
+    const standardsContext = this.getCompanyStandardsContext(sessionId);
     if (standardsContext) {
       systemParts.push(`\n## Company Standards\n${standardsContext}`);
     }
@@ -173,26 +174,23 @@ export class PromptBuilder {
     const tokens = this.tokenizeQuery(query);
     if (!query || tokens.length === 0) return null;
 
-    const session = this.db.prepare(
-      'SELECT user_id FROM sessions WHERE id = ?'
-    ).get(sessionId) as { user_id?: number } | undefined;
-    const userId = session?.user_id || 1;
+    const workspaceId = this.getSessionWorkspaceId(sessionId);
 
     const candidates = [
       ...(this.db.prepare(`
         SELECT id, name, description, tags, 'skill' as type
-        FROM skills
-        WHERE status = 'active' AND (created_by = ? OR created_by IS NULL)
+        FROM skills a
+        WHERE status = 'active' AND (workspace_id IS NULL OR ${workspaceVisibilitySql('a', 'skill')})
         ORDER BY updated_at DESC
         LIMIT 200
-      `).all(userId) as any[]),
+      `).all(workspaceId, workspaceId) as any[]),
       ...(this.db.prepare(`
         SELECT id, name, description, tags, 'workflow' as type
-        FROM workflows
-        WHERE status = 'active' AND (created_by = ? OR created_by IS NULL)
+        FROM workflows a
+        WHERE status = 'active' AND (workspace_id IS NULL OR ${workspaceVisibilitySql('a', 'workflow')})
         ORDER BY updated_at DESC
         LIMIT 200
-      `).all(userId) as any[]),
+      `).all(workspaceId, workspaceId) as any[]),
     ];
 
     const ranked = candidates.map((candidate) => {
@@ -526,14 +524,23 @@ export class PromptBuilder {
     return normalized.charAt(0).toUpperCase() + normalized.slice(1);
   }
 
+  private getSessionWorkspaceId(sessionId: string): number | null {
+    const session = this.db.prepare(
+      'SELECT workspace_id FROM sessions WHERE id = ?'
+    ).get(sessionId) as { workspace_id?: number | null } | undefined;
+    return session?.workspace_id ?? null;
+  }
+
   /**
-   * Get a summary of available company standards.
+   * Get a summary of the company standards available in the session's workspace.
    */
-  private getCompanyStandardsContext(): string | null {
+  private getCompanyStandardsContext(sessionId: string): string | null {
     try {
+      const workspaceId = this.getSessionWorkspaceId(sessionId);
       const standards = this.db.prepare(
-        'SELECT name, type FROM company_standards LIMIT 10'
-      ).all() as any[];
+        `SELECT s.name, s.standard_type as type FROM company_standards s
+         WHERE ${workspaceVisibilitySql('s', 'standard')} LIMIT 10`
+      ).all(workspaceId, workspaceId) as any[];
 
       if (standards.length === 0) return null;
 
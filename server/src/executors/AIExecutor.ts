@@ -1,5 +1,13 @@
-import { RecipeStep, ModelConfig } from '../types';
+import { RecipeStep, ModelConfig, AIResponse, AIServiceConfig } from '../types';
 import { callAIByModel } from '../services/aiService';
+import {
+  JsonSchema,
+  checkOutputSchema,
+  extractJson,
+  parseOutputSchema,
+  parseRepairAttempts,
+  validateJsonSchema,
+} from '../services/structuredOutput';
 import { compilePrompt, CompilePromptContext } from '../services/promptParser';
 import {
   StepExecutor,
@@ -12,7 +20,7 @@ export class AIExecutor implements StepExecutor {
   type = 'ai';
   displayName = 'AI Model';
   icon = '🤖';
-  description = 'Execute a prompt using an AI language model (OpenAI, Anthropic, Google)';
+  description = 'Execute a prompt using any AI model from an installed provider plugin';
 
   validateConfig(step: RecipeStep): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
@@ -22,6 +30,10 @@ export class AIExecutor implements StepExecutor {
     if (!step.prompt_template) {
       errors.push('Prompt template is required');
     }
+    const schemaError = checkOutputSchema(step);
+    if (schemaError) {
+      errors.push(schemaError);
+    }
     return { valid: errors.length === 0, errors };
   }
 
@@ -29,6 +41,7 @@ export class AIExecutor implements StepExecutor {
     // Compile the prompt with variable substitution
     const compileContext: CompilePromptContext = {
       userId: context.userId,
+      workspaceId: context.workspaceId,
       userInputs: context.userInputs,
       stepExecutions: context.completedStepExecutions,
     };
@@ -76,8 +89,25 @@ export class AIExecutor implements StepExecutor {
       (modelConfig as any).images = images;
     }
 
-    // Call AI
-    const aiResponse = await callAIByModel(step.ai_model, compiledPrompt, modelConfig);
+    // Call AI, billed to the user and workspace running the step
+    const callConfig: AIServiceConfig = {
+      ...modelConfig,
+      usage: {
+        userId: context.userId,
+        workspaceId: context.workspaceId,
+        source: 'workflow_step',
+        executionId: context.executionId,
+        skillId: context.skillId,
+        workflowId: context.workflowId,
+      },
+    };
+
+    const outputSchema = parseOutputSchema(step);
+    if (outputSchema) {
+      return this.executeStructured(step, compiledPrompt, callConfig, outputSchema);
+    }
+
+    const aiResponse = await callAIByModel(step.ai_model, compiledPrompt, callConfig);
 
     if (!aiResponse.success) {
       return {
@@ -89,9 +119,16 @@ export class AIExecutor implements StepExecutor {
       };
     }
 
+    // JSON steps without a schema still get fenced or wrapped JSON cleaned up
+    let content = aiResponse.content;
+    if (step.output_format === 'json') {
+      const extracted = extractJson(content);
+      if (extracted?.repaired) content = JSON.stringify(extracted.value, null, 2);
+    }
+
     return {
       success: true,
-      content: aiResponse.content,
+      content,
       metadata: {
         model: aiResponse.model,
         usage: aiResponse.usage,
@@ -102,6 +139,82 @@ export class AIExecutor implements StepExecutor {
     };
   }
 
+  /**
+   * Run a step that declares `executor_config.output_schema`: ask for the
+   * schema (natively where the model supports it), repair and validate the
+   * reply, and re-ask with the validation errors until it conforms.
+   */
+  private async executeStructured(
+    step: RecipeStep,
+    compiledPrompt: string,
+    callConfig: AIServiceConfig,
+    schema: JsonSchema
+  ): Promise<StepExecutorResult> {
+    const responseSchema = { name: 'step_output', schema };
+    const maxAttempts = parseRepairAttempts(step) + 1;
+    const usage = { promptTokens: 0, completionTokens: 0 };
+    // Re-asks carry the conversation so far; images only go with the first prompt
+    const conversation: NonNullable<AIServiceConfig['messages']> = [{ role: 'user', content: compiledPrompt }];
+    let errors: string[] = [];
+    let lastResponse: AIResponse | null = null;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+      const aiResponse = await callAIByModel(step.ai_model, compiledPrompt, {
+        ...callConfig,
+        responseSchema,
+        ...(attempt > 1 ? { messages: [...conversation] } : {}),
+      });
+      if (!aiResponse.success) {
+        return {
+          success: false,
+          content: '',
+          error: aiResponse.error || 'AI call failed',
+          promptUsed: compiledPrompt,
+          modelUsed: step.ai_model,
+        };
+      }
+      lastResponse = aiResponse;
+      usage.promptTokens += aiResponse.usage?.promptTokens || 0;
+      usage.completionTokens += aiResponse.usage?.completionTokens || 0;
+
+      const extracted = extractJson(aiResponse.content);
+      errors = extracted ? validateJsonSchema(extracted.value, schema) : ['$: reply is not valid JSON'];
+      if (extracted && errors.length === 0) {
+        return {
+          success: true,
+          content: JSON.stringify(extracted.value, null, 2),
+          metadata: {
+            model: aiResponse.model,
+            usage,
+            isJson: true,
+            structuredOutput: { attempts: attempt, repaired: extracted.repaired },
+          },
+          promptUsed: compiledPrompt,
+          modelUsed: aiResponse.model,
+        };
+      }
+
+      conversation.push(
+        { role: 'assistant', content: aiResponse.content },
+        {
+          role: 'user',
+          content: 'Your reply does not match the required JSON Schema:\n' +
+            errors.map((e) => `- ${e}`).join('\n') +
+            '\nReply again with only the corrected JSON.',
+        }
+      );
+    }
+
+    return {
+      success: false,
+      content: '',
+      error: `Output did not match the JSON Schema after ${maxAttempts} attempt(s): ${errors.join('; ')}`,
+      metadata: { model: lastResponse?.model, usage },
+      promptUsed: compiledPrompt,
+      modelUsed: lastResponse?.model || step.ai_model,
+    };
+  }
+
   getConfigSchema(): ExecutorConfigSchema {
     return {
       fields: [
@@ -111,7 +224,7 @@ export class AIExecutor implements StepExecutor {
           type: 'select',
           required: true,
           helpText: 'Select the AI model to use for this step',
-          options: [], // Populated dynamically from AI_MODELS on the frontend
+          options: [], // Populated on the frontend from the model catalog (/api/ai/models)
         },
         {
           name: 'prompt_template',
@@ -133,6 +246,19 @@ export class AIExecutor implements StepExecutor {
             { value: 'image', label: 'Image' },
           ],
         },
+        {
+          name: 'output_schema',
+          label: 'Output Schema',
+          type: 'json',
+          helpText: 'JSON Schema the output must match. Invalid replies are repaired or re-asked.',
+        },
+        {
+          name: 'max_repair_attempts',
+          label: 'Repair Attempts',
+          type: 'number',
+          defaultValue: 2,
+          helpText: 'Times to re-ask the model when its output does not match the schema (0-5)',
+        },
         {
           name: 'temperature',
           label: 'Temperature',
@@ -0,0 +1,100 @@
+import { RecipeStep, ReviewKind } from '../types';
+import { buildReviewRequest, parseReviewConfig, resolveReviewer } from '../services/humanReview';
+import {
+  StepExecutor,
+  StepExecutorContext,
+  StepExecutorResult,
+  ExecutorConfigField,
+  ExecutorConfigSchema,
+} from './StepExecutor';
+
+/** Assignment and deadline settings shared by the human review step types */
+export const REVIEW_ASSIGNMENT_FIELDS: ExecutorConfigField[] = [
+  {
+    name: 'assignee',
+    label: 'Assign To',
+    type: 'text',
+    helpText: 'Email or user id of the reviewer. Leave empty for whoever started the run.',
+  },
+  {
+    name: 'timeout_minutes',
+    label: 'Timeout (minutes)',
+    type: 'number',
+    helpText: 'How long the reviewer has to respond. Leave empty to wait indefinitely.',
+  },
+  {
+    name: 'escalate_to',
+    label: 'Escalate To',
+    type: 'text',
+    helpText: 'Email or user id who gets the review, with a fresh timeout, when the first reviewer does not respond',
+  },
+  {
+    name: 'on_timeout',
+    label: 'When Time Runs Out',
+    type: 'select',
+    defaultValue: 'reject',
+    options: [
+      { value: 'reject', label: 'Reject the step' },
+      { value: 'approve', label: 'Approve and continue' },
+    ],
+  },
+  {
+    name: 'allow_edit_previous',
+    label: 'Reviewer Can Edit Previous Output',
+    type: 'boolean',
+    defaultValue: true,
+  },
+];
+
+/** Config checks shared by the human review step types */
+export function validateReviewStep(step: RecipeStep, kind: ReviewKind): { valid: boolean; errors: string[] } {
+  const { config, errors } = parseReviewConfig(step);
+  if (kind === 'ask_user' && errors.length === 0 && Object.keys(config.fields).length === 0) {
+    errors.push('At least one form field is required');
+  }
+  if (config.assignee && resolveReviewer(config.assignee) === null) {
+    errors.push(`Reviewer "${config.assignee}" not found`);
+  }
+  if (config.escalate_to && resolveReviewer(config.escalate_to) === null) {
+    errors.push(`Escalation reviewer "${config.escalate_to}" not found`);
+  }
+  return { valid: errors.length === 0, errors };
+}
+
+/** Runs a human review step: builds the request the workflow engine pauses on */
+export function executeReviewStep(
+  step: RecipeStep,
+  kind: ReviewKind,
+  context: StepExecutorContext
+): StepExecutorResult {
+  const { request, error } = buildReviewRequest(step, kind, context);
+  if (!request) {
+    return { success: false, content: '', error };
+  }
+  return {
+    success: true,
+    content: request.instructions,
+    metadata: { review: request },
+    promptUsed: request.instructions,
+    modelUsed: kind,
+  };
+}
+
+export class ApprovalExecutor implements StepExecutor {
+  type = 'approval';
+  displayName = 'Approval';
+  icon = '✅';
+  description = 'Pause until a reviewer approves, optionally correcting the previous step output';
+
+  validateConfig(step: RecipeStep): { valid: boolean; errors: string[] } {
+    return validateReviewStep(step, 'approval');
+  }
+
+  async execute(step: RecipeStep, context: StepExecutorContext): Promise<StepExecutorResult> {
+    return executeReviewStep(step, 'approval', context);
+  }
+
+  getConfigSchema(): ExecutorConfigSchema {
+    return { fields: REVIEW_ASSIGNMENT_FIELDS };
+  }
+}
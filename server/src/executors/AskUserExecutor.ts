@@ -0,0 +1,38 @@
+import { RecipeStep } from '../types';
+import { REVIEW_ASSIGNMENT_FIELDS, executeReviewStep, validateReviewStep } from './ApprovalExecutor';
+import {
+  StepExecutor,
+  StepExecutorContext,
+  StepExecutorResult,
+  ExecutorConfigSchema,
+} from './StepExecutor';
+
+export class AskUserExecutor implements StepExecutor {
+  type = 'ask_user';
+  displayName = 'Ask User';
+  icon = '📝';
+  description = 'Pause for a person to fill in a form; later steps read the answers as step_N_output.field';
+
+  validateConfig(step: RecipeStep): { valid: boolean; errors: string[] } {
+    return validateReviewStep(step, 'ask_user');
+  }
+
+  async execute(step: RecipeStep, context: StepExecutorContext): Promise<StepExecutorResult> {
+    return executeReviewStep(step, 'ask_user', context);
+  }
+
+  getConfigSchema(): ExecutorConfigSchema {
+    return {
+      fields: [
+        {
+          name: 'fields',
+          label: 'Form Fields',
+          type: 'json',
+          required: true,
+          helpText: 'Field name → { "type": "text" | "textarea" | "image" | "url_list" | "file", "label", "required" }. Example: {"discount": {"type": "text", "label": "Discount %", "required": true}}',
+        },
+        ...REVIEW_ASSIGNMENT_FIELDS,
+      ],
+    };
+  }
+}
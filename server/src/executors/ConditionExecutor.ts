@@ -0,0 +1,212 @@
+import { RecipeStep } from '../types';
+import { resolveReferenceValue } from '../services/promptParser';
+import {
+  StepExecutor,
+  StepExecutorContext,
+  StepExecutorResult,
+  ExecutorConfigSchema,
+} from './StepExecutor';
+
+export type ConditionOperator =
+  | 'truthy' | 'falsy' | 'exists'
+  | 'equals' | 'not_equals' | 'contains'
+  | 'greater_than' | 'less_than';
+
+/** Step order to jump to, or 'end' to skip every remaining step */
+export type BranchTarget = number | 'end';
+
+export interface ConditionConfig {
+  /** Value to test, e.g. "step_2_output.needs_translation" or a user input name */
+  source: string;
+  operator: ConditionOperator;
+  /** Comparison value for equals/not_equals/contains/greater_than/less_than */
+  value?: any;
+  /** Where to continue when the condition holds (default: next step) */
+  on_true?: BranchTarget;
+  /** Where to continue when the condition fails (default: next step) */
+  on_false?: BranchTarget;
+}
+
+/** Branch decision attached to the step result metadata and read by the workflow engine */
+export interface BranchDecision {
+  result: boolean;
+  target?: BranchTarget;
+}
+
+const OPERATORS: ConditionOperator[] = [
+  'truthy', 'falsy', 'exists', 'equals', 'not_equals', 'contains', 'greater_than', 'less_than',
+];
+
+export function parseConditionConfig(step: RecipeStep): ConditionConfig {
+  const defaults: ConditionConfig = { source: '', operator: 'truthy' };
+
+  if (step.executor_config) {
+    try {
+      return { ...defaults, ...JSON.parse(step.executor_config) };
+    } catch {
+      // fall through
+    }
+  }
+
+  return defaults;
+}
+
+/**
+ * Normalize a branch target from config. Empty values mean "fall through to the next step".
+ */
+export function normalizeBranchTarget(raw: unknown): BranchTarget | undefined {
+  if (raw === undefined || raw === null || raw === '') return undefined;
+  if (String(raw).trim().toLowerCase() === 'end') return 'end';
+  const order = Number(raw);
+  return Number.isInteger(order) && order > 0 ? order : undefined;
+}
+
+function isTruthy(value: any): boolean {
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    return normalized !== '' && normalized !== 'false' && normalized !== '0' && normalized !== 'no';
+  }
+  if (Array.isArray(value)) return value.length > 0;
+  return !!value;
+}
+
+function looselyEquals(actual: any, expected: any): boolean {
+  if (actual === expected) return true;
+  if (actual === null || actual === undefined) return false;
+  if (typeof actual === 'object' || typeof expected === 'object') {
+    return JSON.stringify(actual) === JSON.stringify(expected);
+  }
+  return String(actual).trim().toLowerCase() === String(expected).trim().toLowerCase();
+}
+
+export function evaluateCondition(operator: ConditionOperator, actual: any, expected?: any): boolean {
+  switch (operator) {
+    case 'truthy':
+      return isTruthy(actual);
+    case 'falsy':
+      return !isTruthy(actual);
+    case 'exists':
+      return actual !== undefined && actual !== null && actual !== '';
+    case 'equals':
+      return looselyEquals(actual, expected);
+    case 'not_equals':
+      return !looselyEquals(actual, expected);
+    case 'contains':
+      if (Array.isArray(actual)) return actual.some(item => looselyEquals(item, expected));
+      if (actual === undefined || actual === null) return false;
+      return String(typeof actual === 'object' ? JSON.stringify(actual) : actual)
+        .toLowerCase()
+        .includes(String(expected ?? '').toLowerCase());
+    case 'greater_than':
+      return Number(actual) > Number(expected);
+    case 'less_than':
+      return Number(actual) < Number(expected);
+    default:
+      return false;
+  }
+}
+
+export class ConditionExecutor implements StepExecutor {
+  type = 'condition';
+  displayName = 'Condition';
+  icon = '🔀';
+  description = 'Branch the workflow by testing a previous step output or input value';
+
+  validateConfig(step: RecipeStep): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+    const config = parseConditionConfig(step);
+
+    if (!config.source || !String(config.source).trim()) {
+      errors.push('Condition source is required (e.g. step_2_output.needs_translation)');
+    }
+    if (!OPERATORS.includes(config.operator)) {
+      errors.push(`Operator must be one of: ${OPERATORS.join(', ')}`);
+    }
+
+    for (const key of ['on_true', 'on_false'] as const) {
+      const raw: unknown = config[key];
+      const target = normalizeBranchTarget(raw);
+      if (raw !== undefined && raw !== null && raw !== '' && target === undefined) {
+        errors.push(`${key} must be a step number or "end"`);
+      } else if (typeof target === 'number' && target <= step.step_order) {
+        errors.push(`${key} must point to a later step (got ${target})`);
+      }
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  async execute(step: RecipeStep, context: StepExecutorContext): Promise<StepExecutorResult> {
+    const config = parseConditionConfig(step);
+    const validation = this.validateConfig(step);
+    if (!validation.valid) {
+      return { success: false, content: '', error: validation.errors.join('; ') };
+    }
+
+    const actual = resolveReferenceValue(config.source, context.userInputs, context.completedStepExecutions);
+    const result = evaluateCondition(config.operator, actual, config.value);
+    const target = normalizeBranchTarget(result ? config.on_true : config.on_false);
+    const branch: BranchDecision = { result, target };
+
+    return {
+      success: true,
+      content: JSON.stringify({
+        condition: `${config.source} ${config.operator}${config.value !== undefined ? ` ${JSON.stringify(config.value)}` : ''}`,
+        result,
+        next_step: target ?? 'next',
+      }, null, 2),
+      metadata: { branch, isJson: true },
+      promptUsed: `[condition] ${config.source} ${config.operator}`,
+      modelUsed: 'condition',
+    };
+  }
+
+  getConfigSchema(): ExecutorConfigSchema {
+    return {
+      fields: [
+        {
+          name: 'source',
+          label: 'Value to Test',
+          type: 'text',
+          required: true,
+          helpText: 'Step output path or input name, e.g. step_2_output.needs_translation',
+        },
+        {
+          name: 'operator',
+          label: 'Operator',
+          type: 'select',
+          required: true,
+          defaultValue: 'truthy',
+          options: [
+            { value: 'truthy', label: 'Is true / non-empty' },
+            { value: 'falsy', label: 'Is false / empty' },
+            { value: 'exists', label: 'Exists' },
+            { value: 'equals', label: 'Equals' },
+            { value: 'not_equals', label: 'Does not equal' },
+            { value: 'contains', label: 'Contains' },
+            { value: 'greater_than', label: 'Greater than' },
+            { value: 'less_than', label: 'Less than' },
+          ],
+        },
+        {
+          name: 'value',
+          label: 'Compare With',
+          type: 'text',
+          helpText: 'Comparison value (ignored for true/false/exists checks)',
+        },
+        {
+          name: 'on_true',
+          label: 'If True, Go To Step',
+          type: 'text',
+          helpText: 'Step number to jump to, or "end". Leave blank to continue with the next step.',
+        },
+        {
+          name: 'on_false',
+          label: 'If False, Go To Step',
+          type: 'text',
+          helpText: 'Step number to jump to, or "end". Steps in between are skipped.',
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,354 @@
+import { RecipeStep, StepExecution } from '../types';
+import { resolveReferenceValue } from '../services/promptParser';
+import {
+  StepExecutor,
+  StepExecutorContext,
+  StepExecutorResult,
+  ExecutorConfigSchema,
+} from './StepExecutor';
+
+const DEFAULT_CONCURRENCY = 3;
+const MAX_CONCURRENCY = 10;
+const DEFAULT_MAX_ITEMS = 200;
+
+// Item step types that cannot run inside a for-each (control flow, interactive steps)
+const UNSUPPORTED_ITEM_TYPES = ['foreach', 'condition', 'parallel', 'browser', 'manus', 'scraping', 'approval', 'ask_user', 'skill', 'reviews'];
+
+export interface ForEachConfig {
+  /** Array to iterate over, e.g. "step_1_output.reviews" or "product_files" */
+  source: string;
+  /** Executor type used for each item (default: ai) */
+  item_step_type: string;
+  /** executor_config for the per-item sub-step (non-AI item types) */
+  item_executor_config?: Record<string, any> | string;
+  /** Number of items processed at the same time */
+  concurrency: number;
+  /** Safety cap on the number of items processed */
+  max_items: number;
+}
+
+export interface ForEachItemResult {
+  index: number;
+  item: any;
+  status: 'completed' | 'failed';
+  output?: any;
+  error?: string;
+}
+
+export function parseForEachConfig(step: RecipeStep): ForEachConfig {
+  const defaults: ForEachConfig = {
+    source: '',
+    item_step_type: 'ai',
+    concurrency: DEFAULT_CONCURRENCY,
+    max_items: DEFAULT_MAX_ITEMS,
+  };
+
+  let config = defaults;
+  if (step.executor_config) {
+    try {
+      config = { ...defaults, ...JSON.parse(step.executor_config) };
+    } catch {
+      // fall through
+    }
+  }
+
+  const concurrency = Math.floor(Number(config.concurrency));
+  const maxItems = Math.floor(Number(config.max_items));
+  return {
+    ...config,
+    item_step_type: String(config.item_step_type || 'ai').trim(),
+    concurrency: Number.isFinite(concurrency) && concurrency > 0
+      ? Math.min(concurrency, MAX_CONCURRENCY)
+      : DEFAULT_CONCURRENCY,
+    max_items: Number.isFinite(maxItems) && maxItems > 0 ? maxItems : DEFAULT_MAX_ITEMS,
+  };
+}
+
+/**
+ * Turn the resolved source value into a list of items. JSON strings are parsed;
+ * plain text is split into one item per non-empty line.
+ */
+export function toItemList(value: any): any[] | null {
+  if (Array.isArray(value)) return value;
+  if (value === undefined || value === null) return null;
+
+  if (typeof value === 'string') {
+    const text = value.trim();
+    if (!text) return [];
+    try {
+      return toItemList(JSON.parse(text));
+    } catch {
+      return text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    }
+  }
+
+  if (typeof value === 'object') {
+    // Accept wrapper objects with a single array field, e.g. { reviews: [...] }
+    const arrays = Object.values(value).filter(Array.isArray);
+    if (arrays.length === 1) return arrays[0] as any[];
+  }
+
+  return null;
+}
+
+/**
+ * Expose the current item to the sub-step as {{item}}, {{item_index}} (0-based),
+ * {{item_number}} (1-based) and {{item.<field>}} for object items.
+ */
+function buildItemInputs(userInputs: Record<string, any>, item: any, index: number): Record<string, any> {
+  const inputs: Record<string, any> = {
+    ...userInputs,
+    item: typeof item === 'object' && item !== null ? JSON.stringify(item, null, 2) : item,
+    item_index: String(index),
+    item_number: String(index + 1),
+  };
+
+  if (item && typeof item === 'object' && !Array.isArray(item)) {
+    for (const [key, value] of Object.entries(item)) {
+      inputs[`item.${key}`] = typeof value === 'object' && value !== null ? JSON.stringify(value) : value;
+    }
+  }
+
+  return inputs;
+}
+
+function parseItemOutput(content: string): any {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return content;
+  }
+}
+
+/**
+ * Read item results from a previous attempt of this step so a retry only
+ * re-runs the items that failed.
+ */
+function getPreviousResults(stepExecution: StepExecution): ForEachItemResult[] {
+  if (!stepExecution.output_data) return [];
+  try {
+    const parsed = JSON.parse(stepExecution.output_data);
+    return Array.isArray(parsed.items) ? parsed.items : [];
+  } catch {
+    return [];
+  }
+}
+
+async function runWithConcurrency(
+  indexes: number[],
+  limit: number,
+  worker: (index: number) => Promise<void>
+): Promise<void> {
+  let cursor = 0;
+  const runners = Array.from({ length: Math.min(limit, indexes.length) }, async () => {
+    while (cursor < indexes.length) {
+      const index = indexes[cursor++];
+      await worker(index);
+    }
+  });
+  await Promise.all(runners);
+}
+
+/**
+ * For-each step. Resolves an array from a previous step output or user input,
+ * runs a sub-step per item with bounded concurrency and collects the results
+ * into a JSON array. Failed items are kept in the output so a retry of the
+ * step only re-runs those items.
+ */
+export class ForEachExecutor implements StepExecutor {
+  type = 'foreach';
+  displayName = 'For Each';
+  icon = '🔁';
+  description = 'Run the same sub-step on every item of a list and collect the results';
+
+  constructor(private resolveExecutor: (type: string) => StepExecutor | undefined) {}
+
+  validateConfig(step: RecipeStep): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+    const config = parseForEachConfig(step);
+
+    if (!config.source || !String(config.source).trim()) {
+      errors.push('List source is required (e.g. step_1_output.reviews)');
+    }
+    if (UNSUPPORTED_ITEM_TYPES.includes(config.item_step_type)) {
+      errors.push(`"${config.item_step_type}" steps cannot run inside a for-each step`);
+    } else {
+      const itemExecutor = this.resolveExecutor(config.item_step_type);
+      if (!itemExecutor) {
+        errors.push(`Unknown item step type: ${config.item_step_type}`);
+      } else {
+        const itemValidation = itemExecutor.validateConfig(this.buildItemStep(step, config));
+        errors.push(...itemValidation.errors.map(error => `Item step: ${error}`));
+      }
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  async execute(step: RecipeStep, context: StepExecutorContext): Promise<StepExecutorResult> {
+    const config = parseForEachConfig(step);
+    const validation = this.validateConfig(step);
+    if (!validation.valid) {
+      return { success: false, content: '', error: validation.errors.join('; ') };
+    }
+
+    const resolved = resolveReferenceValue(config.source, context.userInputs, context.completedStepExecutions);
+    const list = toItemList(resolved);
+    if (!list) {
+      return {
+        success: false,
+        content: '',
+        error: `"${config.source}" did not resolve to a list`,
+      };
+    }
+
+    const items = list.slice(0, config.max_items);
+    const itemExecutor = this.resolveExecutor(config.item_step_type)!;
+    const itemStep = this.buildItemStep(step, config);
+
+    // Keep completed items from a previous attempt (per-item retry)
+    const previous = getPreviousResults(context.stepExecution);
+    const results: ForEachItemResult[] = items.map((item, index) => {
+      const prior = previous[index];
+      if (prior && prior.status === 'completed' && JSON.stringify(prior.item) === JSON.stringify(item)) {
+        return prior;
+      }
+      return { index, item, status: 'failed', error: 'Not run' };
+    });
+    const pending = results.filter(result => result.status !== 'completed').map(result => result.index);
+    let finished = items.length - pending.length;
+
+    if (pending.length < items.length) {
+      this.emitProgress(step, context, `Retrying ${pending.length} of ${items.length} item(s)`);
+    } else {
+      this.emitProgress(step, context, `Processing ${items.length} item(s), ${config.concurrency} at a time`);
+    }
+
+    let modelUsed: string | undefined;
+    await runWithConcurrency(pending, config.concurrency, async (index) => {
+      const item = items[index];
+      let result: StepExecutorResult;
+      try {
+        result = await itemExecutor.execute(itemStep, {
+          ...context,
+          userInputs: buildItemInputs(context.userInputs, item, index),
+        });
+      } catch (error: any) {
+        result = { success: false, content: '', error: error?.message || String(error) };
+      }
+
+      finished += 1;
+      if (result.success) {
+        modelUsed = modelUsed || result.modelUsed;
+        results[index] = { index, item, status: 'completed', output: parseItemOutput(result.content) };
+        this.emitProgress(step, context, `Item ${index + 1}/${items.length} completed (${finished}/${items.length} done)`, index);
+      } else {
+        results[index] = { index, item, status: 'failed', error: result.error || 'Item failed' };
+        this.emitProgress(step, context, `Item ${index + 1}/${items.length} failed: ${result.error || 'Item failed'}`, index);
+      }
+    });
+
+    const failed = results.filter(result => result.status === 'failed');
+    const content = JSON.stringify(
+      results.map(result => (result.status === 'completed' ? result.output : null)),
+      null,
+      2
+    );
+    const metadata = {
+      items: results,
+      itemCount: items.length,
+      failedItems: failed.map(result => result.index),
+      truncated: list.length > items.length,
+      isJson: true,
+    };
+    const promptUsed = `[foreach] ${items.length} item(s) from ${config.source}`;
+
+    if (failed.length > 0) {
+      return {
+        success: false,
+        content,
+        metadata,
+        error: `${failed.length} of ${items.length} item(s) failed (items ${failed.map(result => result.index + 1).join(', ')}). Retry the step to re-run only the failed items.`,
+        promptUsed,
+        modelUsed,
+      };
+    }
+
+    return {
+      success: true,
+      content,
+      metadata,
+      promptUsed,
+      modelUsed: modelUsed || `foreach:${config.item_step_type}`,
+    };
+  }
+
+  getConfigSchema(): ExecutorConfigSchema {
+    return {
+      fields: [
+        {
+          name: 'source',
+          label: 'List to Iterate',
+          type: 'text',
+          required: true,
+          helpText: 'Array from a previous step or input, e.g. step_1_output.reviews or product_files. Use {{item}}, {{item.field}} and {{item_number}} in the prompt.',
+        },
+        {
+          name: 'item_step_type',
+          label: 'Run For Each Item',
+          type: 'select',
+          defaultValue: 'ai',
+          options: [
+            { value: 'ai', label: 'AI Model' },
+            { value: 'script', label: 'Script' },
+            { value: 'http', label: 'HTTP Request' },
+            { value: 'transform', label: 'Data Transform' },
+          ],
+        },
+        {
+          name: 'item_executor_config',
+          label: 'Item Step Config',
+          type: 'json',
+          helpText: 'Executor config for non-AI item steps. AI items use this step\'s model and prompt.',
+        },
+        {
+          name: 'concurrency',
+          label: 'Concurrency',
+          type: 'number',
+          defaultValue: DEFAULT_CONCURRENCY,
+          helpText: `Items processed at the same time (max ${MAX_CONCURRENCY})`,
+        },
+        {
+          name: 'max_items',
+          label: 'Max Items',
+          type: 'number',
+          defaultValue: DEFAULT_MAX_ITEMS,
+        },
+      ],
+    };
+  }
+
+  private buildItemStep(step: RecipeStep, config: ForEachConfig): RecipeStep {
+    const itemConfig = config.item_executor_config;
+    return {
+      ...step,
+      step_type: config.item_step_type,
+      executor_config: typeof itemConfig === 'string' ? itemConfig : JSON.stringify(itemConfig || {}),
+    };
+  }
+
+  private emitProgress(step: RecipeStep, context: StepExecutorContext, message: string, itemIndex?: number): void {
+    const { emitter, executionId, stepExecution } = context;
+    if (!emitter) return;
+    emitter.emit(executionId, emitter.createMessage({
+      executionId,
+      stepOrder: stepExecution.step_order,
+      stepName: step.step_name,
+      stepType: 'foreach',
+      type: 'progress',
+      role: 'system',
+      content: message,
+      metadata: { stepExecutionId: stepExecution.id, itemIndex },
+    }));
+  }
+}
@@ -25,7 +25,7 @@ export class ManusExecutor implements StepExecutor {
   }
 
   async execute(step: RecipeStep, context: StepExecutorContext): Promise<StepExecutorResult> {
-    const { userInputs, userId, stepExecution, completedStepExecutions } = context;
+    const { userInputs, userId, workspaceId, stepExecution, completedStepExecutions } = context;
 
     if (!step.prompt_template || !step.prompt_template.trim()) {
       return {
@@ -46,6 +46,7 @@ export class ManusExecutor implements StepExecutor {
     // Compile prompt: resolve {{variables}}, {{step_N_output}}, and company standards
     const compiled = compilePrompt(step.prompt_template, {
       userId,
+      workspaceId,
       userInputs,
       stepExecutions: completedStepExecutions,
     });
@@ -132,7 +133,7 @@ export class ManusExecutor implements StepExecutor {
       logUsage(userId, 'manus', 'agent', 1, 0, {
         taskId,
         creditsUsed: result.creditsUsed,
-      });
+      }, workspaceId);
 
       return {
         success: true,
@@ -0,0 +1,129 @@
+import { RecipeStep } from '../types';
+import {
+  StepExecutor,
+  StepExecutorContext,
+  StepExecutorResult,
+  ExecutorConfigSchema,
+} from './StepExecutor';
+
+export interface ParallelConfig {
+  /** Step orders that run concurrently before this step joins their outputs */
+  branches: number[];
+}
+
+/**
+ * Parse the parallel group config. Branches may be stored as an array
+ * of step numbers or as a comma-separated string from the editor.
+ */
+export function parseParallelConfig(step: RecipeStep): ParallelConfig {
+  let raw: any = {};
+  if (step.executor_config) {
+    try {
+      raw = JSON.parse(step.executor_config);
+    } catch {
+      // fall through
+    }
+  }
+
+  const source = Array.isArray(raw.branches)
+    ? raw.branches
+    : String(raw.branches || '').split(',');
+
+  const branches = Array.from(new Set<number>(
+    source
+      .map((value: any) => Number(String(value).trim()))
+      .filter((order: number) => Number.isInteger(order) && order > 0)
+  )).sort((a, b) => a - b);
+
+  return { branches };
+}
+
+function parseOutputContent(outputData?: string): any {
+  if (!outputData) return null;
+  let content: any = outputData;
+  try {
+    const parsed = JSON.parse(outputData);
+    content = parsed.content ?? parsed;
+  } catch {
+    return outputData;
+  }
+  if (typeof content === 'string') {
+    try {
+      return JSON.parse(content);
+    } catch {
+      return content;
+    }
+  }
+  return content;
+}
+
+/**
+ * Parallel group step. The workflow engine runs the configured branch steps
+ * concurrently; this executor is the join that combines their outputs.
+ */
+export class ParallelExecutor implements StepExecutor {
+  type = 'parallel';
+  displayName = 'Parallel Group';
+  icon = '⏸️';
+  description = 'Run several later steps at the same time and join their outputs';
+
+  validateConfig(step: RecipeStep): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+    const { branches } = parseParallelConfig(step);
+
+    if (branches.length < 2) {
+      errors.push('A parallel group needs at least two branch steps');
+    }
+    const invalid = branches.filter(order => order <= step.step_order);
+    if (invalid.length > 0) {
+      errors.push(`Branch steps must come after the parallel step (invalid: ${invalid.join(', ')})`);
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  async execute(step: RecipeStep, context: StepExecutorContext): Promise<StepExecutorResult> {
+    const { branches } = parseParallelConfig(step);
+    const joined: Record<string, any> = {};
+    const missing: number[] = [];
+
+    for (const order of branches) {
+      const branchExecution = context.completedStepExecutions.find(se => se.step_order === order);
+      if (!branchExecution) {
+        missing.push(order);
+        continue;
+      }
+      joined[`step_${order}`] = parseOutputContent(branchExecution.output_data);
+    }
+
+    if (missing.length > 0) {
+      return {
+        success: false,
+        content: '',
+        error: `Parallel branches did not complete: step ${missing.join(', ')}`,
+      };
+    }
+
+    return {
+      success: true,
+      content: JSON.stringify(joined, null, 2),
+      metadata: { branches, isJson: true },
+      promptUsed: `[parallel] join steps ${branches.join(', ')}`,
+      modelUsed: 'parallel',
+    };
+  }
+
+  getConfigSchema(): ExecutorConfigSchema {
+    return {
+      fields: [
+        {
+          name: 'branches',
+          label: 'Branch Steps',
+          type: 'text',
+          required: true,
+          helpText: 'Comma-separated step numbers to run in parallel, e.g. 3,4,5. Their outputs are joined as this step\'s output.',
+        },
+      ],
+    };
+  }
+}
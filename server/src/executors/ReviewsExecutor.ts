@@ -0,0 +1,236 @@
+import { RecipeStep } from '../types';
+import { browserService } from '../services/browserService';
+import { compilePrompt } from '../services/promptParser';
+import { extractAndRecordReviews } from '../services/reviewStore';
+import { getAllStrategies } from '../services/extractionStrategies';
+import { ensurePersonalWorkspace, queries } from '../models/database';
+import {
+  StepExecutor,
+  StepExecutorContext,
+  StepExecutorResult,
+  ExecutorConfigSchema,
+} from './StepExecutor';
+
+interface ReviewsConfig {
+  platform: string;
+  /** Product URLs, one per line; supports variables like {{product_urls}} */
+  urls: string;
+  /** Stop at reviews stored by earlier runs */
+  incremental: boolean;
+  maxReviews?: number;
+}
+
+const DEFAULT_CONFIG: ReviewsConfig = {
+  platform: '',
+  urls: '',
+  incremental: true,
+};
+
+// Inputs a step without configured URLs falls back to
+const URL_INPUTS = ['product_urls', 'urls', 'product_url', 'url'];
+
+/**
+ * Review Monitor step: extracts product reviews, stores them in the
+ * workspace's review history and outputs what's new since the last run.
+ * Later steps read the changes as {{new_reviews}} and {{updated_reviews}}.
+ */
+export class ReviewsExecutor implements StepExecutor {
+  type = 'reviews';
+  displayName = 'Review Monitor';
+  icon = '⭐';
+  description = 'Extract product reviews, remember them, and pass on only the reviews that are new since the last run.';
+
+  validateConfig(step: RecipeStep): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+    const config = this.parseConfig(step);
+    if (!config.platform) {
+      errors.push('Review Monitor step requires a platform');
+    } else if (!getAllStrategies().some((strategy) => strategy.platform === config.platform)) {
+      errors.push(`Unsupported review platform: ${config.platform}`);
+    }
+    return { valid: errors.length === 0, errors };
+  }
+
+  async execute(step: RecipeStep, context: StepExecutorContext): Promise<StepExecutorResult> {
+    const config = this.parseConfig(step);
+    const urls = this.resolveUrls(config, context);
+    if (urls.length === 0) {
+      return {
+        success: false,
+        content: '',
+        error: `Review Monitor step needs product URLs (configure them or provide one of: ${URL_INPUTS.join(', ')})`,
+      };
+    }
+
+    const browserTaskId = browserService.createTask();
+    const task = browserService.getTask(browserTaskId);
+    if (!task) {
+      return { success: false, content: '', error: 'Failed to initialize browser task' };
+    }
+
+    try {
+      queries.updateStepExecution(
+        'running',
+        JSON.stringify({ browserTaskId, stepType: 'reviews' }),
+        `reviews:${config.platform}`,
+        urls.join('\n'),
+        context.stepExecution.id
+      );
+
+      const onProgress = (message: string) => this.emitProgress(task, context, step, message);
+      onProgress(`Collecting ${config.platform} reviews for ${urls.length} product(s)...`);
+      const page = await browserService.launchBrowser(browserTaskId);
+
+      const result = await extractAndRecordReviews(page, config.platform, urls, {
+        workspaceId: context.workspaceId ?? ensurePersonalWorkspace(context.userId),
+        userId: context.userId,
+        executionId: context.executionId,
+        incremental: config.incremental,
+        maxReviews: Number(config.maxReviews) || undefined,
+      }, onProgress);
+
+      if (!result.success) {
+        browserService.emit(task, 'error', { error: result.error || 'No reviews found' });
+        return { success: false, content: '', error: `Review extraction failed: ${result.error || 'No reviews found'}` };
+      }
+
+      const output = {
+        platform: config.platform,
+        new_count: result.newReviews.length,
+        updated_count: result.updatedReviews.length,
+        products: result.products.map((product) => ({
+          url: product.url,
+          product_name: product.productName,
+          total_count: product.totalCount,
+          average_rating: product.averageRating,
+          reviews_seen: product.reviews.length,
+          new_count: product.newCount,
+          updated_count: product.updatedCount,
+          run_id: product.runId,
+          error: product.error,
+        })),
+        new_reviews: result.newReviews,
+        updated_reviews: result.updatedReviews,
+      };
+      const content = JSON.stringify(output, null, 2);
+      browserService.emit(task, 'complete', { output: content, reviewCount: result.reviewCount });
+
+      return {
+        success: true,
+        content,
+        metadata: {
+          service: 'reviews',
+          browserTaskId,
+          newReviewCount: result.newReviews.length,
+          updatedReviewCount: result.updatedReviews.length,
+          reviewRunIds: result.products.map((product) => product.runId).filter((id) => id !== null),
+          stepType: 'reviews',
+          isJson: true,
+        },
+        promptUsed: urls.join('\n'),
+        modelUsed: `reviews:${config.platform}`,
+      };
+    } catch (error: any) {
+      browserService.emit(task, 'error', { error: error.message || 'Review extraction failed' });
+      return {
+        success: false,
+        content: '',
+        error: `Review extraction error: ${error.message || 'Unknown error'}`,
+      };
+    } finally {
+      await browserService.destroyTask(browserTaskId).catch(() => undefined);
+    }
+  }
+
+  getConfigSchema(): ExecutorConfigSchema {
+    return {
+      fields: [
+        {
+          name: 'platform',
+          label: 'Platform',
+          type: 'select',
+          required: true,
+          options: getAllStrategies().map((strategy) => ({ value: strategy.platform, label: strategy.displayName })),
+        },
+        {
+          name: 'urls',
+          label: 'Product URLs',
+          type: 'textarea',
+          required: false,
+          helpText: 'One URL per line. Supports variables like {{product_urls}}; defaults to the product_urls input.',
+        },
+        {
+          name: 'incremental',
+          label: 'Only collect new reviews',
+          type: 'boolean',
+          defaultValue: true,
+          helpText: 'Stop paging once reviews stored by an earlier run are reached.',
+        },
+        {
+          name: 'maxReviews',
+          label: 'Max Reviews per Product',
+          type: 'number',
+          required: false,
+          helpText: 'Optional cap on the reviews collected per product in one run.',
+        },
+      ],
+    };
+  }
+
+  private parseConfig(step: RecipeStep): ReviewsConfig {
+    if (!step.executor_config) return { ...DEFAULT_CONFIG };
+    try {
+      const parsed = JSON.parse(step.executor_config) || {};
+      return {
+        ...DEFAULT_CONFIG,
+        ...parsed,
+        platform: String(parsed.platform || '').trim().toLowerCase(),
+        urls: Array.isArray(parsed.urls) ? parsed.urls.join('\n') : String(parsed.urls || ''),
+        incremental: parsed.incremental !== false && parsed.incremental !== 'false',
+      };
+    } catch {
+      return { ...DEFAULT_CONFIG };
+    }
+  }
+
+  private resolveUrls(config: ReviewsConfig, context: StepExecutorContext): string[] {
+    let raw: any = config.urls;
+    if (raw.trim()) {
+      raw = compilePrompt(raw, {
+        userId: context.userId,
+        workspaceId: context.workspaceId,
+        userInputs: context.userInputs,
+        stepExecutions: context.completedStepExecutions,
+      }).compiledPrompt;
+    } else {
+      const input = URL_INPUTS.find((name) => context.userInputs[name]);
+      raw = input ? context.userInputs[input] : '';
+    }
+
+    const values: string[] = Array.isArray(raw) ? raw.map(String) : String(raw || '').split(/[\n,]+/);
+    return values
+      .map((value) => value.trim())
+      .filter((value) => /^https?:\/\//i.test(value) || /^www\./i.test(value))
+      .map((value) => (/^www\./i.test(value) ? `https://${value}` : value));
+  }
+
+  private emitProgress(task: any, context: StepExecutorContext, step: RecipeStep, message: string): void {
+    browserService.emit(task, 'message', {
+      role: 'system',
+      content: [{ type: 'text', text: message }],
+    });
+    if (context.emitter) {
+      const progressMsg = context.emitter.createMessage({
+        executionId: context.executionId,
+        stepOrder: context.stepExecution.step_order,
+        stepName: step.step_name,
+        stepType: 'reviews',
+        type: 'progress',
+        role: 'system',
+        content: message,
+        metadata: { taskId: task.id },
+      });
+      context.emitter.emit(context.executionId, progressMsg);
+    }
+  }
+}
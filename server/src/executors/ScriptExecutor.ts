@@ -1,8 +1,7 @@
-import { spawn } from 'child_process';
 import { promises as fs } from 'fs';
-import os from 'os';
 import path from 'path';
 import { RecipeStep } from '../types';
+import { createSandboxWorkDir, runSandboxed } from '../services/sandbox';
 import {
   StepExecutor,
   StepExecutorContext,
@@ -112,14 +111,14 @@ function toSafeFileExtension(name: string | undefined): string {
 
 async function materializeInlineFilesForPathScripts(
   inputData: Record<string, any>,
-  script: string
-): Promise<{ inputData: Record<string, any>; tempFiles: string[] }> {
+  script: string,
+  workDir: string
+): Promise<Record<string, any>> {
   if (!scriptLikelyExpectsFilePaths(script)) {
-    return { inputData, tempFiles: [] };
+    return inputData;
   }
 
   const converted: Record<string, any> = { ...inputData };
-  const tempFiles: string[] = [];
 
   for (const [key, value] of Object.entries(inputData || {})) {
     if (!/_files$/i.test(key) || !Array.isArray(value)) continue;
@@ -132,28 +131,15 @@ async function materializeInlineFilesForPathScripts(
     for (let i = 0; i < files.length; i += 1) {
       const item = files[i] as { name?: string; content: string };
       const ext = toSafeFileExtension(item.name);
-      const tmpPath = path.join(
-        os.tmpdir(),
-        `workflow-inline-${Date.now()}-${process.pid}-${Math.random().toString(16).slice(2)}-${i + 1}${ext}`
-      );
+      // Written into the sandbox work directory, which is removed after the run
+      const tmpPath = path.join(workDir, `${key}-${i + 1}${ext}`);
       await fs.writeFile(tmpPath, String(item.content || ''), 'utf8');
       tempPaths.push(tmpPath);
-      tempFiles.push(tmpPath);
     }
     converted[key] = tempPaths;
   }
 
-  return { inputData: converted, tempFiles };
-}
-
-async function cleanupTempFiles(pathsToRemove: string[]): Promise<void> {
-  await Promise.all(pathsToRemove.map(async (p) => {
-    try {
-      await fs.unlink(p);
-    } catch {
-      // Best effort cleanup.
-    }
-  }));
+  return converted;
 }
 
 function normalizeRuntimeAlias(runtime: unknown): ScriptConfig['runtime'] {
@@ -194,7 +180,7 @@ export class ScriptExecutor implements StepExecutor {
   type = 'script';
   displayName = 'Script';
   icon = '📜';
-  description = 'Run a Python or Node.js script with JSON input/output';
+  description = 'Run a Python or Node.js script with JSON input/output in the sandbox';
 
   validateConfig(step: RecipeStep): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
@@ -227,85 +213,87 @@ export class ScriptExecutor implements StepExecutor {
         }
       }
     }
-    const prepared = await materializeInlineFilesForPathScripts(inputData, config.script);
-    const payload = prepared.inputData;
-    const tempFiles = prepared.tempFiles;
-
-    return new Promise((resolve) => {
-      let settled = false;
-      const finalize = (result: StepExecutorResult) => {
-        if (settled) return;
-        settled = true;
-        cleanupTempFiles(tempFiles).finally(() => resolve(result));
+    const workDir = await createSandboxWorkDir();
+    const payload = await materializeInlineFilesForPathScripts(inputData, config.script, workDir);
+    const scriptPath = path.join(workDir, config.runtime === 'node' ? 'script.js' : 'script.py');
+    await fs.writeFile(scriptPath, config.script, 'utf8');
+
+    const run = await runSandboxed({
+      source: 'script',
+      command: config.runtime,
+      args: [scriptPath],
+      stdin: JSON.stringify(payload),
+      workDir,
+      timeoutMs: config.timeout || 60000,
+      auditCommand: `[${config.runtime}] ${config.script}`,
+      userId: context.userId,
+      executionId: context.executionId,
+    });
+
+    const { stdout, stderr } = run;
+    const sandboxMetadata = {
+      sandbox: run.isolation,
+      durationMs: run.durationMs,
+      ...(run.warning ? { sandboxWarning: run.warning } : {}),
+    };
+
+    if (run.status === 'denied' || run.status === 'timed_out' || run.outputTruncated) {
+      return {
+        success: false,
+        content: '',
+        error: `Script ${run.status === 'denied' ? 'blocked by sandbox' : 'stopped'}: ${run.error}`,
+        metadata: { ...sandboxMetadata, stderr: stderr.slice(0, 2000) },
       };
+    }
 
-      const timeout = config.timeout || 60000;
-      const proc = spawn(config.runtime, ['-c', config.script], {
-        timeout,
-        env: { ...process.env },
-      });
-
-      let stdout = '';
-      let stderr = '';
-
-      proc.stdin.write(JSON.stringify(payload));
-      proc.stdin.end();
-
-      proc.stdout.on('data', (data) => { stdout += data.toString(); });
-      proc.stderr.on('data', (data) => { stderr += data.toString(); });
-
-      proc.on('close', (code) => {
-        if (code !== 0) {
-          finalize({
-            success: false,
-            content: '',
-            error: `Script exited with code ${code}${stderr ? ': ' + stderr.slice(0, 500) : ''}`,
-            metadata: { exitCode: code, stderr: stderr.slice(0, 2000) },
-          });
-          return;
-        }
+    if (run.exitCode === null) {
+      return {
+        success: false,
+        content: '',
+        error: `Failed to spawn ${config.runtime}: ${run.error || 'unknown error'}`,
+      };
+    }
 
-        const stdoutTrim = stdout.trim();
-        const looksLikeRuntimeError =
-          stdoutTrim.length > 0
-          && !stdoutTrim.startsWith('{')
-          && !stdoutTrim.startsWith('[')
-          && /^(error(?:\s+processing)?|exception|traceback|failed)\b/i.test(stdoutTrim);
-
-        if (looksLikeRuntimeError) {
-          const firstLine = stdoutTrim.split('\n')[0] || stdoutTrim;
-          finalize({
-            success: false,
-            content: stdout,
-            error: `Script reported error output: ${firstLine}`,
-            metadata: { exitCode: 0, stderr: stderr.slice(0, 2000), stdout: stdoutTrim.slice(0, 2000) },
-            promptUsed: `[${config.runtime}] ${config.script.slice(0, 200)}`,
-            modelUsed: config.runtime,
-          });
-          return;
-        }
+    if (run.exitCode !== 0) {
+      return {
+        success: false,
+        content: '',
+        error: `Script exited with code ${run.exitCode}${stderr ? ': ' + stderr.slice(0, 500) : ''}`,
+        metadata: { exitCode: run.exitCode, stderr: stderr.slice(0, 2000), ...sandboxMetadata },
+      };
+    }
 
-        finalize({
-          success: true,
-          content: stdout,
-          metadata: {
-            runtime: config.runtime,
-            exitCode: 0,
-            stderr: stderr.slice(0, 2000) || undefined,
-          },
-          promptUsed: `[${config.runtime}] ${config.script.slice(0, 200)}`,
-          modelUsed: config.runtime,
-        });
-      });
-
-      proc.on('error', (err) => {
-        finalize({
-          success: false,
-          content: '',
-          error: `Failed to spawn ${config.runtime}: ${err.message}`,
-        });
-      });
-    });
+    const stdoutTrim = stdout.trim();
+    const looksLikeRuntimeError =
+      stdoutTrim.length > 0
+      && !stdoutTrim.startsWith('{')
+      && !stdoutTrim.startsWith('[')
+      && /^(error(?:\s+processing)?|exception|traceback|failed)\b/i.test(stdoutTrim);
+
+    if (looksLikeRuntimeError) {
+      const firstLine = stdoutTrim.split('\n')[0] || stdoutTrim;
+      return {
+        success: false,
+        content: stdout,
+        error: `Script reported error output: ${firstLine}`,
+        metadata: { exitCode: 0, stderr: stderr.slice(0, 2000), stdout: stdoutTrim.slice(0, 2000), ...sandboxMetadata },
+        promptUsed: `[${config.runtime}] ${config.script.slice(0, 200)}`,
+        modelUsed: config.runtime,
+      };
+    }
+
+    return {
+      success: true,
+      content: stdout,
+      metadata: {
+        runtime: config.runtime,
+        exitCode: 0,
+        stderr: stderr.slice(0, 2000) || undefined,
+        ...sandboxMetadata,
+      },
+      promptUsed: `[${config.runtime}] ${config.script.slice(0, 200)}`,
+      modelUsed: config.runtime,
+    };
   }
 
   getConfigSchema(): ExecutorConfigSchema {
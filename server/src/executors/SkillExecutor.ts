@@ -0,0 +1,317 @@
+import { queries } from '../models/database';
+import { compilePrompt, resolveReferenceValue } from '../services/promptParser';
+import {
+  ParentType,
+  ensureExecutionRecipeFromGraph,
+  getFinalOutput,
+  loadGraphParent,
+  parseBridgeMarker,
+} from '../services/executionBridge';
+import { bridgeSkillVersion, getSkillVersion } from '../services/skillVersions';
+import { canReadAsset } from '../services/workspaceService';
+import { RecipeStep, SkillVersion, StepExecution, WorkflowExecution } from '../types';
+import {
+  StepExecutor,
+  StepExecutorContext,
+  StepExecutorResult,
+  ExecutorConfigSchema,
+} from './StepExecutor';
+
+// Skills calling skills: a chain deeper than this is almost certainly a loop
+const MAX_NESTING_DEPTH = 5;
+const CHILD_POLL_MS = 500;
+const SETTLED_STATUSES = ['completed', 'failed', 'cancelled'];
+
+export interface SkillStepConfig {
+  target_type: ParentType;
+  target_id: number | null;
+  /** Saved version to run; null runs the current definition */
+  version: number | null;
+  /** Child input name → template over the parent's inputs and step outputs */
+  inputs: Record<string, string>;
+  /** Pass the parent's inputs through to the child under the same names */
+  inherit_inputs: boolean;
+}
+
+export function parseSkillStepConfig(step: RecipeStep): { config: SkillStepConfig; errors: string[] } {
+  const errors: string[] = [];
+  let raw: Record<string, any> = {};
+  if (step.executor_config) {
+    try {
+      const parsed = typeof step.executor_config === 'string'
+        ? JSON.parse(step.executor_config)
+        : step.executor_config;
+      raw = parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      errors.push('executor_config is not valid JSON');
+    }
+  }
+
+  const targetType = raw.target_type === 'workflow' ? 'workflow' : 'skill';
+  if (raw.target_type !== undefined && raw.target_type !== 'skill' && raw.target_type !== 'workflow') {
+    errors.push('target_type must be "skill" or "workflow"');
+  }
+
+  const targetId = Number(raw.target_id);
+  if (!Number.isInteger(targetId) || targetId < 1) {
+    errors.push('target_id must be the id of a skill or workflow');
+  }
+
+  const hasVersion = raw.version !== undefined && raw.version !== null && raw.version !== '';
+  const version = Number(raw.version);
+  if (hasVersion && (!Number.isInteger(version) || version < 1)) {
+    errors.push('version must be a positive version number');
+  }
+
+  let inputs = raw.inputs ?? {};
+  if (typeof inputs === 'string') {
+    try {
+      inputs = inputs.trim() ? JSON.parse(inputs) : {};
+    } catch {
+      errors.push('inputs must be a JSON object');
+      inputs = {};
+    }
+  }
+  if (!inputs || typeof inputs !== 'object' || Array.isArray(inputs)) {
+    errors.push('inputs must be an object mapping input names to values');
+    inputs = {};
+  }
+  const mapped: Record<string, string> = {};
+  for (const [name, value] of Object.entries(inputs)) {
+    if (typeof value === 'string') mapped[name] = value;
+    else if (value !== null && value !== undefined) mapped[name] = JSON.stringify(value);
+  }
+
+  return {
+    config: {
+      target_type: targetType,
+      target_id: Number.isInteger(targetId) && targetId > 0 ? targetId : null,
+      version: hasVersion && Number.isInteger(version) && version > 0 ? version : null,
+      inputs: mapped,
+      inherit_inputs: raw.inherit_inputs !== false,
+    },
+    errors,
+  };
+}
+
+// Resolve the child's inputs. A mapping that is a single reference keeps the
+// referenced value as is (lists, JSON), anything else is compiled as text.
+function resolveChildInputs(config: SkillStepConfig, context: StepExecutorContext): Record<string, any> {
+  const inputs: Record<string, any> = config.inherit_inputs ? { ...context.userInputs } : {};
+  for (const [name, template] of Object.entries(config.inputs)) {
+    const single = /^\s*\{\{\s*([^{}]+?)\s*\}\}\s*$/.exec(template);
+    const value = single
+      ? resolveReferenceValue(single[1], context.userInputs, context.completedStepExecutions)
+      : undefined;
+    inputs[name] = value !== undefined
+      ? value
+      : compilePrompt(template, {
+        userId: context.userId,
+        workspaceId: context.workspaceId,
+        userInputs: context.userInputs,
+        stepExecutions: context.completedStepExecutions,
+      }).compiledPrompt;
+  }
+  return inputs;
+}
+
+// The skills/workflows running this execution and the executions that started it
+function ancestorTargets(executionId: number): string[] {
+  const targets: string[] = [];
+  let current = queries.getExecutionById(executionId) as WorkflowExecution | undefined;
+  while (current && targets.length <= MAX_NESTING_DEPTH) {
+    const recipe = queries.getRecipeById(current.recipe_id) as { description?: string | null } | undefined;
+    const marker = parseBridgeMarker(recipe?.description);
+    targets.push(marker ? `${marker.parentType}:${marker.parentId}` : `recipe:${current.recipe_id}`);
+    current = current.parent_execution_id
+      ? queries.getExecutionById(current.parent_execution_id) as WorkflowExecution | undefined
+      : undefined;
+  }
+  return targets;
+}
+
+function failedStep(executionId: number): StepExecution | undefined {
+  return (queries.getStepExecutionsByExecutionId(executionId) as StepExecution[])
+    .find(se => se.status === 'failed');
+}
+
+export class SkillExecutor implements StepExecutor {
+  type = 'skill';
+  displayName = 'Run Skill';
+  icon = '🧩';
+  description = 'Run another skill or workflow as a nested execution and use its final output';
+
+  validateConfig(step: RecipeStep): { valid: boolean; errors: string[] } {
+    const { config, errors } = parseSkillStepConfig(step);
+    if (errors.length === 0 && config.target_id) {
+      if (!loadGraphParent(config.target_type, config.target_id).parent) {
+        errors.push(`${config.target_type} #${config.target_id} not found`);
+      } else if (config.version && !getSkillVersion(config.target_type, config.target_id, config.version)) {
+        errors.push(`${config.target_type} #${config.target_id} has no version ${config.version}`);
+      }
+    }
+    return { valid: errors.length === 0, errors };
+  }
+
+  async execute(step: RecipeStep, context: StepExecutorContext): Promise<StepExecutorResult> {
+    const { config, errors } = parseSkillStepConfig(step);
+    if (errors.length > 0) {
+      return { success: false, content: '', error: errors.join('; ') };
+    }
+    const label = `${config.target_type} #${config.target_id}`;
+
+    // After a restart, pick up the child run this step already started. A child
+    // that stopped on a failed step is replaced when this step is retried.
+    let child = queries.getChildExecutionForStep(context.stepExecution.id) as WorkflowExecution | undefined;
+    if (child && child.status === 'paused' && failedStep(child.id)) {
+      queries.cancelExecution(child.id);
+      child = undefined;
+    }
+    if (child && (child.status === 'cancelled' || child.status === 'failed')) child = undefined;
+
+    if (!child) {
+      const { parent, steps } = loadGraphParent(config.target_type, config.target_id!);
+      const visible = parent && (
+        context.workspaceId == null
+        || canReadAsset(config.target_type, parent.id, context.userId, context.workspaceId)
+      );
+      if (!parent || !visible) {
+        return { success: false, content: '', error: `${label} not found` };
+      }
+      if (!config.version && steps.length === 0) {
+        return { success: false, content: '', error: `${config.target_type} "${parent.name}" has no steps` };
+      }
+
+      const ancestors = ancestorTargets(context.executionId);
+      if (ancestors.includes(`${config.target_type}:${parent.id}`)) {
+        return { success: false, content: '', error: `${config.target_type} "${parent.name}" is already running in this chain of nested runs` };
+      }
+      if (ancestors.length >= MAX_NESTING_DEPTH) {
+        return { success: false, content: '', error: `Nested runs are limited to ${MAX_NESTING_DEPTH} levels` };
+      }
+
+      const pinned = config.version
+        ? bridgeSkillVersion(config.target_type, parent.id, config.version)
+        : ensureExecutionRecipeFromGraph(config.target_type, parent, steps);
+      if (!pinned) {
+        return { success: false, content: '', error: `${config.target_type} "${parent.name}" has no version ${config.version}` };
+      }
+      const { recipeId } = pinned;
+      // Loaded lazily: the engine imports the executor registry
+      const { startExecution } = await import('../services/workflowEngine');
+      const started = await startExecution(recipeId, context.userId, resolveChildInputs(config, context), undefined, {
+        parent: { executionId: context.executionId, stepExecutionId: context.stepExecution.id },
+      });
+      if (!started.success || !started.executionId) {
+        return { success: false, content: '', error: `Could not start ${label}: ${started.error || 'unknown error'}` };
+      }
+      child = queries.getExecutionById(started.executionId) as WorkflowExecution;
+      this.emitProgress(step, context, `Running ${config.target_type} "${parent.name}" as execution #${child.id}`, child.id);
+    }
+
+    const settled = await this.waitForChild(child.id, context.executionId);
+    if (settled.status !== 'completed') {
+      const failed = failedStep(child.id);
+      return {
+        success: false,
+        content: '',
+        error: failed
+          ? `Nested execution #${child.id} failed at step ${failed.step_order}: ${failed.error_message || 'unknown error'}`
+          : `Nested execution #${child.id} ended with status "${settled.status}"`,
+        metadata: { childExecutionId: child.id },
+      };
+    }
+
+    const stepExecutions = queries.getStepExecutionsByExecutionId(child.id) as StepExecution[];
+    const target = loadGraphParent(config.target_type, config.target_id!).parent;
+    const version = settled.skill_version_id
+      ? queries.getSkillVersionById(settled.skill_version_id) as SkillVersion | undefined
+      : undefined;
+    return {
+      success: true,
+      content: getFinalOutput(stepExecutions),
+      metadata: {
+        childExecutionId: child.id,
+        target: { type: config.target_type, id: config.target_id, name: target?.name, version: version?.version },
+      },
+      modelUsed: 'skill',
+    };
+  }
+
+  getConfigSchema(): ExecutorConfigSchema {
+    return {
+      fields: [
+        {
+          name: 'target_type',
+          label: 'Run',
+          type: 'select',
+          required: true,
+          defaultValue: 'skill',
+          options: [
+            { value: 'skill', label: 'Skill' },
+            { value: 'workflow', label: 'Workflow' },
+          ],
+        },
+        {
+          name: 'target_id',
+          label: 'Skill / Workflow ID',
+          type: 'number',
+          required: true,
+        },
+        {
+          name: 'version',
+          label: 'Version',
+          type: 'number',
+          helpText: 'Run this saved version instead of the latest definition',
+        },
+        {
+          name: 'inputs',
+          label: 'Inputs',
+          type: 'json',
+          defaultValue: {},
+          helpText: 'Map the child\'s input names to values, e.g. {"product_url": "{{url}}", "notes": "{{step_1_output}}"}',
+        },
+        {
+          name: 'inherit_inputs',
+          label: 'Pass Through This Run\'s Inputs',
+          type: 'boolean',
+          defaultValue: true,
+          helpText: 'Inputs not mapped above get the value of this run\'s input with the same name',
+        },
+      ],
+    };
+  }
+
+  // Wait for the child run to finish. Pausing for a review keeps it waiting, a
+  // failed step ends the wait. Cancelling the parent cancels the child.
+  private async waitForChild(childId: number, parentId: number): Promise<WorkflowExecution> {
+    for (;;) {
+      const child = queries.getExecutionById(childId) as WorkflowExecution | undefined;
+      if (!child) return { id: childId, status: 'cancelled' } as WorkflowExecution;
+      if (SETTLED_STATUSES.includes(child.status)) return child;
+      if (child.status === 'paused' && failedStep(childId)) return child;
+
+      const parent = queries.getExecutionById(parentId) as WorkflowExecution | undefined;
+      if (!parent || parent.status === 'cancelled') {
+        queries.cancelExecution(childId);
+        return { ...child, status: 'cancelled' };
+      }
+      await new Promise(resolve => setTimeout(resolve, CHILD_POLL_MS));
+    }
+  }
+
+  private emitProgress(step: RecipeStep, context: StepExecutorContext, message: string, childExecutionId: number): void {
+    const { emitter, executionId, stepExecution } = context;
+    if (!emitter) return;
+    emitter.emit(executionId, emitter.createMessage({
+      executionId,
+      stepOrder: stepExecution.step_order,
+      stepName: step.step_name,
+      stepType: 'skill',
+      type: 'progress',
+      role: 'system',
+      content: message,
+      metadata: { stepExecutionId: stepExecution.id, childExecutionId },
+    }));
+  }
+}
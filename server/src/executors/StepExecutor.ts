@@ -6,6 +6,11 @@ import type { ExecutionEventEmitter } from '../services/executionEvents';
  */
 export interface StepExecutorContext {
   userId: number;
+  // Workspace of the skill/workflow being run; its company standards apply
+  workspaceId?: number | null;
+  // Skill or workflow being run, for usage accounting
+  skillId?: number | null;
+  workflowId?: number | null;
   executionId: number;
   stepExecution: StepExecution;
   userInputs: Record<string, any>;
@@ -5,6 +5,13 @@ import { ScriptExecutor } from './ScriptExecutor';
 import { HttpExecutor } from './HttpExecutor';
 import { TransformExecutor } from './TransformExecutor';
 import { BrowserExecutor } from './BrowserExecutor';
+import { ConditionExecutor } from './ConditionExecutor';
+import { ParallelExecutor } from './ParallelExecutor';
+import { ForEachExecutor } from './ForEachExecutor';
+import { ApprovalExecutor } from './ApprovalExecutor';
+import { AskUserExecutor } from './AskUserExecutor';
+import { SkillExecutor } from './SkillExecutor';
+import { ReviewsExecutor } from './ReviewsExecutor';
 
 const executors = new Map<string, StepExecutor>();
 
@@ -27,3 +34,10 @@ registerExecutor(new ScriptExecutor());
 registerExecutor(new HttpExecutor());
 registerExecutor(new TransformExecutor());
 registerExecutor(new BrowserExecutor());
+registerExecutor(new ConditionExecutor());
+registerExecutor(new ParallelExecutor());
+registerExecutor(new ForEachExecutor(getExecutor));
+registerExecutor(new ApprovalExecutor());
+registerExecutor(new AskUserExecutor());
+registerExecutor(new SkillExecutor());
+registerExecutor(new ReviewsExecutor());
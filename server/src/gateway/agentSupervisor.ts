@@ -40,7 +40,8 @@ export class AgentSupervisor {
   async routeMessage(message: ChannelMessage): Promise<void> {
     const session = this.sessionManager.resolveSession(
       message.channelType, message.channelId,
-      message.userId, message.threadId
+      message.userId, message.threadId,
+      message.metadata?.workspaceId
     );
 
     let agent = this.agents.get(session.id);
@@ -1,16 +1,19 @@
 import { v4 as uuidv4 } from 'uuid';
-import { getDatabase } from '../models/database';
-import { Session, SessionMessage } from '../types';
+import { ensurePersonalWorkspace, getDatabase } from '../models/database';
+import { AgentConfig, Session, SessionMessage } from '../types';
+import { resolveExternalUser } from '../services/authService';
 
 export class SessionManager {
   /**
    * Find or create a session for the given channel/user/thread combination.
+   * New sessions act in `workspaceId`, or the user's personal workspace.
    */
   resolveSession(
     channelType: string,
     channelId: string,
     userId: string,
-    threadId?: string
+    threadId?: string,
+    workspaceId?: number | null
   ): Session {
     const db = getDatabase();
 
@@ -24,30 +27,59 @@ export class SessionManager {
       : [channelType, channelId, 'closed'];
 
     const existing = db.prepare(query).get(...params) as Session | undefined;
+    const dbUserId = this.resolveUserId(channelType, userId);
 
     if (existing) {
-      // Touch last_active_at
-      db.prepare('UPDATE sessions SET last_active_at = CURRENT_TIMESTAMP WHERE id = ?')
-        .run(existing.id);
-      return { ...existing, last_active_at: new Date().toISOString() };
+      // Touch last_active_at; follow the identity if it was linked to another account
+      db.prepare('UPDATE sessions SET last_active_at = CURRENT_TIMESTAMP, user_id = ? WHERE id = ?')
+        .run(dbUserId, existing.id);
+      return { ...existing, user_id: dbUserId, last_active_at: new Date().toISOString() };
     }
 
     // Create new session
     const id = uuidv4();
-
-    // Resolve platform userId to DB user_id (best-effort: look up by email or default to 1)
-    let dbUserId = 1;
-    const user = db.prepare('SELECT id FROM users WHERE id = ? OR email = ?').get(userId, userId) as any;
-    if (user) dbUserId = user.id;
+    const sessionWorkspaceId = workspaceId ?? ensurePersonalWorkspace(dbUserId);
 
     db.prepare(`
-      INSERT INTO sessions (id, channel_type, channel_id, user_id, thread_id, status)
-      VALUES (?, ?, ?, ?, ?, 'active')
-    `).run(id, channelType, channelId, dbUserId, threadId || null);
+      INSERT INTO sessions (id, channel_type, channel_id, user_id, thread_id, status, workspace_id, agent_config_id)
+      VALUES (?, ?, ?, ?, ?, 'active', ?, ?)
+    `).run(
+      id, channelType, channelId, dbUserId, threadId || null,
+      sessionWorkspaceId, this.findWorkspaceAgent(sessionWorkspaceId, channelType)
+    );
 
     return db.prepare('SELECT * FROM sessions WHERE id = ?').get(id) as Session;
   }
 
+  // The workspace's own agent config for this channel, if it has one
+  private findWorkspaceAgent(workspaceId: number, channelType: string): number | null {
+    const configs = getDatabase().prepare(
+      'SELECT id, allowed_channels FROM agent_configs WHERE workspace_id = ? ORDER BY id'
+    ).all(workspaceId) as Array<Pick<AgentConfig, 'id' | 'allowed_channels'>>;
+    const match = configs.find((config) => {
+      try {
+        const channels = JSON.parse(config.allowed_channels || '[]');
+        return !Array.isArray(channels) || channels.length === 0 || channels.includes(channelType);
+      } catch {
+        return true;
+      }
+    });
+    return match ? match.id : null;
+  }
+
+  /**
+   * Web sessions carry the authenticated user's id. Other channels send a
+   * platform user id (e.g. a Lark open_id), mapped through linked identities.
+   */
+  private resolveUserId(channelType: string, userId: string): number {
+    if (channelType === 'web') {
+      const user = getDatabase().prepare('SELECT id FROM users WHERE id = ?').get(userId) as { id: number } | undefined;
+      if (!user) throw new Error(`Unknown user for web session: ${userId}`);
+      return user.id;
+    }
+    return resolveExternalUser(channelType, userId);
+  }
+
   getSession(sessionId: string): Session | undefined {
     const db = getDatabase();
     return db.prepare('SELECT * FROM sessions WHERE id = ?').get(sessionId) as Session | undefined;
@@ -24,12 +24,24 @@ import agentsRouter from './routes/agents';
 import skillsRouter from './routes/skills';
 import workflowsRouter from './routes/workflows';
 import skillDraftsRouter from './routes/skillDrafts';
+import schedulesRouter from './routes/schedules';
+import webhooksRouter from './routes/webhooks';
+import hooksRouter from './routes/hooks';
+import sandboxRouter from './routes/sandbox';
+import workspacesRouter from './routes/workspaces';
+import evaluationsRouter from './routes/evaluations';
+import reviewsRouter from './routes/reviews';
 import { loadAllPlugins } from './plugins/loader';
 import { createChannelRouter } from './gateway/channelRouter';
 import { SessionManager } from './gateway/sessionManager';
 import { AgentSupervisor } from './gateway/agentSupervisor';
 import { pluginRegistry } from './plugins/registry';
 import { getUploadsDir } from './utils/uploadHelpers';
+import { workflowScheduler } from './services/scheduler';
+import { recoverInterruptedExecutions } from './services/executionRecovery';
+import { recoverInterruptedEvaluations } from './services/evaluations';
+import { applyDemoUserPassword, redeemLinkCode, userHasPermission } from './services/authService';
+import { AgentResponse } from './plugins/types';
 
 
 // Load environment variables from server directory
@@ -45,9 +57,6 @@ app.use(cors({
   origin: process.env.CLIENT_URL || 'http://localhost:3000',
   credentials: true,
 }));
-app.use(express.json({ limit: '50mb' }));
-app.use(express.urlencoded({ extended: true }));
-
 // Request logging middleware
 app.use((req, res, next) => {
   const start = Date.now();
@@ -58,6 +67,11 @@ app.use((req, res, next) => {
   next();
 });
 
+// Inbound webhooks verify signatures over the raw body, so they bypass the JSON parser
+app.use('/api/hooks', hooksRouter);
+app.use(express.json({ limit: '50mb' }));
+app.use(express.urlencoded({ extended: true }));
+
 // Health check endpoint
 app.get('/api/health', (req, res) => {
   res.json({
@@ -93,12 +107,19 @@ app.use('/api/agents', agentsRouter);
 app.use('/api/skills/drafts', skillDraftsRouter);
 app.use('/api/skills', skillsRouter);
 app.use('/api/workflows', workflowsRouter);
+app.use('/api/schedules', schedulesRouter);
+app.use('/api/webhooks', webhooksRouter);
+app.use('/api/sandbox', sandboxRouter);
+app.use('/api/workspaces', workspacesRouter);
+app.use('/api/evaluations', evaluationsRouter);
+app.use('/api/reviews', reviewsRouter);
 
 // Initialize database and start server
 async function start() {
   try {
     console.log('Initializing database...');
     initializeDatabase();
+    applyDemoUserPassword();
     console.log('Database initialized successfully');
 
     console.log('Loading plugins...');
@@ -109,6 +130,19 @@ async function start() {
     console.log('Initializing gateway...');
     const sessionManager = new SessionManager();
 
+    const sendToChannel = async (channelType: string, channelId: string, response: AgentResponse) => {
+      for (const [name, channel] of pluginRegistry.getAllChannels()) {
+        if (name.includes(channelType) || channelType === name.replace('channel-', '')) {
+          try {
+            await channel.sendOutbound(channelId, response);
+          } catch (err: any) {
+            console.error(`[Gateway] Failed to send response via ${name}:`, err.message);
+          }
+          break;
+        }
+      }
+    };
+
     // Response handler: route agent responses back to the correct channel
     const agentSupervisor = new AgentSupervisor({
       sessionManager,
@@ -120,16 +154,7 @@ async function start() {
         }
 
         // Route response back to the originating channel (AgentRunner persists messages itself)
-        for (const [name, channel] of pluginRegistry.getAllChannels()) {
-          if (name.includes(session.channel_type) || session.channel_type === name.replace('channel-', '')) {
-            try {
-              await channel.sendOutbound(session.channel_id, response);
-            } catch (err: any) {
-              console.error(`[Gateway] Failed to send response via ${name}:`, err.message);
-            }
-            break;
-          }
-        }
+        await sendToChannel(session.channel_type, session.channel_id, response);
       },
     });
     agentSupervisor.start();
@@ -138,18 +163,45 @@ async function start() {
     const channelRouter = createChannelRouter(async (message) => {
       console.log(`[Gateway] Routing message from ${message.channelType}: ${message.content.text?.substring(0, 50)}`);
 
+      // "/link CODE" from a chat platform links the sender to a web account
+      const linkMatch = message.content.text?.trim().match(/^\/link\s+(\S+)$/i);
+      if (linkMatch && message.channelType !== 'web') {
+        const userId = redeemLinkCode(linkMatch[1], message.channelType, message.userId);
+        await sendToChannel(message.channelType, message.channelId, {
+          text: userId
+            ? 'Your account is now linked. Skills, workflows and executions from this chat belong to your NovoHaven account.'
+            : 'That link code is invalid or has expired. Create a new one in NovoHaven and try again.',
+        });
+        return;
+      }
+
       // Ensure session exists (AgentRunner persists messages itself)
-      sessionManager.resolveSession(
+      const session = sessionManager.resolveSession(
         message.channelType, message.channelId,
-        message.userId, message.threadId
+        message.userId, message.threadId,
+        message.metadata?.workspaceId
       );
 
+      if (!userHasPermission(session.user_id, 'assets:run')) {
+        await sendToChannel(message.channelType, message.channelId, {
+          text: 'Your NovoHaven role does not allow running skills. Ask an admin for operator access.',
+        });
+        return;
+      }
+
       // Route to agent
       await agentSupervisor.routeMessage(message);
     });
     app.use('/channels', channelRouter);
     console.log('Gateway initialized successfully');
 
+    // Resume or pause executions, and fail evaluations, left running by the previous process
+    recoverInterruptedExecutions();
+    recoverInterruptedEvaluations();
+
+    // Start scheduled runs once plugins (output channels) are loaded
+    workflowScheduler.start();
+
     // 404 handler — must be registered AFTER all routes (including async channel routes)
     app.use((req, res) => {
       res.status(404).json({ error: 'Not found' });
@@ -174,6 +226,13 @@ async function start() {
       console.log('  - /api/agents, /api/plugins, /api/skills/drafts');
       console.log('  - /api/executions, /api/standards');
       console.log('  - /api/ai, /api/auth, /api/outputs, /api/usage');
+      console.log('  - /api/schedules');
+      console.log('  - /api/webhooks');
+      console.log('  - /api/sandbox');
+      console.log('  - /api/workspaces');
+      console.log('  - /api/evaluations');
+      console.log('  - /api/reviews');
+      console.log('  - /api/hooks/:token');
     });
   } catch (error) {
     console.error('Failed to start server:', error);
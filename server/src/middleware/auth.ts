@@ -1,52 +1,88 @@
 import { Request, Response, NextFunction } from 'express';
-import { queries } from '../models/database';
-import { User, UserPublic } from '../types';
+import { resolveAuthToken } from '../services/authService';
+import { hasPermission } from '../services/permissions';
+import {
+  assertWithinLimits,
+  canReadAsset,
+  canWriteAsset,
+  getAssetWorkspaceId,
+  resolveActiveWorkspace,
+  WorkspaceError,
+} from '../services/workspaceService';
+import { Permission, ShareableAssetType } from '../types';
 
-// Mock authentication middleware for MVP
-// In production, replace with proper JWT/session authentication
-export function authMiddleware(req: Request, res: Response, next: NextFunction): void {
-  // For MVP, use a hardcoded demo user
-  // Check for Authorization header (for future JWT implementation)
-  const authHeader = req.headers.authorization;
+// Bearer token from the Authorization header, or ?token= for EventSource streams
+export function getRequestToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (header && header.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim() || null;
+  }
+  return typeof req.query.token === 'string' && req.query.token ? req.query.token : null;
+}
 
-  // For now, always authenticate as the demo user
-  const mockUser = queries.getUserByEmail('demo@novohaven.com') as User | undefined;
+// X-Workspace-Id header, or ?workspace= for EventSource streams
+export function getRequestedWorkspace(req: Request): string | undefined {
+  const header = req.headers['x-workspace-id'];
+  if (typeof header === 'string' && header) return header;
+  return typeof req.query.workspace === 'string' && req.query.workspace ? req.query.workspace : undefined;
+}
 
-  if (!mockUser) {
-    res.status(401).json({ error: 'Authentication required. Demo user not found.' });
+// Session-token authentication; attaches the user (without sensitive data)
+// and the workspace the request acts in
+export function authMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const user = resolveAuthToken(getRequestToken(req));
+
+  if (!user) {
+    res.status(401).json({ error: 'Authentication required' });
     return;
   }
 
-  // Attach user to request (without sensitive data)
-  const userPublic: UserPublic = {
-    id: mockUser.id,
-    email: mockUser.email,
-    created_at: mockUser.created_at,
-  };
+  try {
+    req.workspaceId = resolveActiveWorkspace(user.id, getRequestedWorkspace(req));
+  } catch (error: any) {
+    const status = error instanceof WorkspaceError ? error.status : 500;
+    res.status(status).json({ error: error.message });
+    return;
+  }
 
-  req.user = userPublic;
+  req.user = user;
   next();
 }
 
 // Optional auth - attaches user if available but doesn't require it
 export function optionalAuthMiddleware(req: Request, res: Response, next: NextFunction): void {
-  const mockUser = queries.getUserByEmail('demo@novohaven.com') as User | undefined;
-
-  if (mockUser) {
-    const userPublic: UserPublic = {
-      id: mockUser.id,
-      email: mockUser.email,
-      created_at: mockUser.created_at,
-    };
-    req.user = userPublic;
+  const user = resolveAuthToken(getRequestToken(req));
+
+  if (user) {
+    req.user = user;
   }
 
   next();
 }
 
-// Require specific user to own a resource
+// Require the authenticated user's role to grant a permission
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (!hasPermission(req.user, permission)) {
+      res.status(403).json({ error: 'Insufficient permissions' });
+      return;
+    }
+
+    next();
+  };
+}
+
+// Require the authenticated user to own a resource. The getter returns the
+// owner's id, or null when the resource does not exist so the route can 404.
+// Users holding `overridePermission` may act on anyone's resource.
 export function requireOwnership(
-  getResourceUserId: (req: Request) => number | null
+  getResourceUserId: (req: Request) => number | null,
+  overridePermission?: Permission
 ) {
   return (req: Request, res: Response, next: NextFunction): void => {
     if (!req.user) {
@@ -54,15 +90,63 @@ export function requireOwnership(
       return;
     }
 
+    if (overridePermission && hasPermission(req.user, overridePermission)) {
+      next();
+      return;
+    }
+
     const resourceUserId = getResourceUserId(req);
 
-    // For MVP, skip ownership check since we only have one user
-    // In production, uncomment the following:
-    // if (resourceUserId !== null && resourceUserId !== req.user.id) {
-    //   res.status(403).json({ error: 'Access denied' });
-    //   return;
-    // }
+    if (resourceUserId !== null && resourceUserId !== req.user.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    next();
+  };
+}
+
+// Require access to a skill, workflow or standard (`:id`). Any member of the
+// asset's workspace may write it; shared or published assets are read-only.
+export function requireAssetAccess(assetType: ShareableAssetType, access: 'read' | 'write') {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const assetId = parseInt(req.params.id, 10);
+    if (!Number.isFinite(assetId) || getAssetWorkspaceId(assetType, assetId) === undefined) {
+      next();
+      return;
+    }
+
+    const allowed = access === 'write'
+      ? canWriteAsset(assetType, assetId, req.user.id)
+      : canReadAsset(assetType, assetId, req.user.id, req.workspaceId ?? -1);
+    if (!allowed) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
 
     next();
   };
 }
+
+// Reject work that would exceed the active workspace's monthly request quota or LLM budget
+export function requireWorkspaceQuota(req: Request, res: Response, next: NextFunction): void {
+  if (req.workspaceId === undefined) {
+    next();
+    return;
+  }
+
+  try {
+    assertWithinLimits(req.workspaceId);
+  } catch (error: any) {
+    const status = error instanceof WorkspaceError ? error.status : 500;
+    res.status(status).json({ error: error.message });
+    return;
+  }
+
+  next();
+}
@@ -37,6 +37,15 @@ function run(sql: string, params: any[] = []): { lastInsertRowid: number; change
   };
 }
 
+// Add a column to an existing table if it is not there yet
+function ensureColumn(table: string, column: string, definition: string): void {
+  if (!db) throw new Error('Database not initialized');
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
 // Get raw database instance
 export function getDatabase(): Database.Database {
   if (!db) throw new Error('Database not initialized');
@@ -59,6 +68,8 @@ export function initializeDatabase(): void {
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP
     )
   `);
+  // Accounts that predate roles keep the builder permissions they effectively had
+  ensureColumn('users', 'role', "TEXT NOT NULL DEFAULT 'builder'");
 
   db.exec(`
     CREATE TABLE IF NOT EXISTS recipes (
@@ -115,6 +126,14 @@ export function initializeDatabase(): void {
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP
     )
   `);
+  // Why an execution is in its current state, e.g. interrupted by a restart
+  ensureColumn('workflow_executions', 'status_reason', 'TEXT');
+  // A fork copies another run's results up to forked_from_step and re-runs the rest
+  ensureColumn('workflow_executions', 'forked_from_id', 'INTEGER REFERENCES workflow_executions(id)');
+  ensureColumn('workflow_executions', 'forked_from_step', 'INTEGER');
+  // Child runs started by a `skill` step of another execution
+  ensureColumn('workflow_executions', 'parent_execution_id', 'INTEGER REFERENCES workflow_executions(id)');
+  ensureColumn('workflow_executions', 'parent_step_execution_id', 'INTEGER');
 
   db.exec(`
     CREATE TABLE IF NOT EXISTS step_executions (
@@ -132,6 +151,12 @@ export function initializeDatabase(): void {
       executed_at DATETIME
     )
   `);
+  // JSON history of attempts made under the step's retry policy
+  ensureColumn('step_executions', 'attempts', 'TEXT');
+  // Human review steps: who must act, by when, and how often it was escalated
+  ensureColumn('step_executions', 'assigned_to', 'INTEGER REFERENCES users(id)');
+  ensureColumn('step_executions', 'review_due_at', 'DATETIME');
+  ensureColumn('step_executions', 'escalation_count', 'INTEGER DEFAULT 0');
 
   db.exec(`
     CREATE TABLE IF NOT EXISTS api_usage (
@@ -239,13 +264,35 @@ export function initializeDatabase(): void {
     CREATE TABLE IF NOT EXISTS plugin_configs (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       plugin_name TEXT UNIQUE NOT NULL,
-      plugin_type TEXT NOT NULL CHECK(plugin_type IN ('channel','tool','memory','provider')),
+      plugin_type TEXT NOT NULL CHECK(plugin_type IN ('channel','tool','memory','provider','extraction')),
       enabled BOOLEAN DEFAULT 1,
       config TEXT NOT NULL DEFAULT '{}',
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
     )
   `);
 
+  // Databases created before extraction plugins have the narrower CHECK; rebuild the table to widen it
+  const pluginConfigsSql = (db.prepare(
+    "SELECT sql FROM sqlite_master WHERE type='table' AND name='plugin_configs'"
+  ).get() as { sql: string }).sql;
+  if (!pluginConfigsSql.includes("'extraction'")) {
+    db.transaction(() => {
+      db!.exec(`
+        CREATE TABLE plugin_configs_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          plugin_name TEXT UNIQUE NOT NULL,
+          plugin_type TEXT NOT NULL CHECK(plugin_type IN ('channel','tool','memory','provider','extraction')),
+          enabled BOOLEAN DEFAULT 1,
+          config TEXT NOT NULL DEFAULT '{}',
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        INSERT INTO plugin_configs_new SELECT id, plugin_name, plugin_type, enabled, config, updated_at FROM plugin_configs;
+        DROP TABLE plugin_configs;
+        ALTER TABLE plugin_configs_new RENAME TO plugin_configs;
+      `);
+    })();
+  }
+
   db.exec(`
     CREATE TABLE IF NOT EXISTS skill_drafts (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -261,6 +308,13 @@ export function initializeDatabase(): void {
       reviewed_at DATETIME
     )
   `);
+  // Drafts imported from a bundle: who imported it and where, the tags to apply,
+  // standards to create on approval, and the skill/workflow approval produced
+  ensureColumn('skill_drafts', 'proposed_by_user', 'INTEGER REFERENCES users(id)');
+  ensureColumn('skill_drafts', 'workspace_id', 'INTEGER REFERENCES workspaces(id)');
+  ensureColumn('skill_drafts', 'tags', 'TEXT');
+  ensureColumn('skill_drafts', 'standards', 'TEXT');
+  ensureColumn('skill_drafts', 'applied_id', 'INTEGER');
 
   db.exec(`
     CREATE TABLE IF NOT EXISTS app_metadata (
@@ -270,15 +324,394 @@ export function initializeDatabase(): void {
     )
   `);
 
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS workflow_schedules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      parent_type TEXT NOT NULL CHECK(parent_type IN ('skill','workflow')),
+      parent_id INTEGER NOT NULL,
+      cron_expression TEXT NOT NULL,
+      input_data TEXT NOT NULL DEFAULT '{}',
+      output_channel TEXT NOT NULL DEFAULT 'none' CHECK(output_channel IN ('none','web','lark')),
+      output_channel_id TEXT,
+      auto_approve BOOLEAN DEFAULT 1,
+      enabled BOOLEAN DEFAULT 1,
+      created_by INTEGER REFERENCES users(id),
+      next_run_at TEXT,
+      last_run_at TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schedule_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      schedule_id INTEGER NOT NULL REFERENCES workflow_schedules(id) ON DELETE CASCADE,
+      execution_id INTEGER REFERENCES workflow_executions(id) ON DELETE SET NULL,
+      trigger_type TEXT NOT NULL DEFAULT 'schedule' CHECK(trigger_type IN ('schedule','manual')),
+      status TEXT NOT NULL DEFAULT 'running' CHECK(status IN ('running','awaiting_review','completed','failed')),
+      error_message TEXT,
+      delivery_status TEXT NOT NULL DEFAULT 'pending' CHECK(delivery_status IN ('pending','sent','skipped','failed')),
+      started_at TEXT NOT NULL,
+      finished_at TEXT
+    )
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS workflow_webhooks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      parent_type TEXT NOT NULL CHECK(parent_type IN ('skill','workflow')),
+      parent_id INTEGER NOT NULL,
+      token TEXT NOT NULL UNIQUE,
+      secret TEXT NOT NULL,
+      field_mapping TEXT NOT NULL DEFAULT '{}',
+      static_inputs TEXT NOT NULL DEFAULT '{}',
+      response_mode TEXT NOT NULL DEFAULT 'async' CHECK(response_mode IN ('async','sync')),
+      callback_url TEXT,
+      sync_timeout_seconds INTEGER NOT NULL DEFAULT 60,
+      auto_approve BOOLEAN DEFAULT 1,
+      enabled BOOLEAN DEFAULT 1,
+      created_by INTEGER REFERENCES users(id),
+      last_triggered_at TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS webhook_invocations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      webhook_id INTEGER NOT NULL REFERENCES workflow_webhooks(id) ON DELETE CASCADE,
+      execution_id INTEGER REFERENCES workflow_executions(id) ON DELETE SET NULL,
+      status TEXT NOT NULL DEFAULT 'running' CHECK(status IN ('rejected','running','awaiting_review','completed','failed','timed_out')),
+      payload TEXT,
+      error_message TEXT,
+      callback_status TEXT NOT NULL DEFAULT 'none' CHECK(callback_status IN ('none','pending','sent','failed')),
+      signature TEXT,
+      received_at TEXT NOT NULL,
+      finished_at TEXT
+    )
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sandbox_audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source TEXT NOT NULL CHECK(source IN ('script','bash')),
+      command TEXT NOT NULL,
+      user_id INTEGER,
+      execution_id INTEGER,
+      session_id TEXT,
+      status TEXT NOT NULL CHECK(status IN ('completed','failed','timed_out','denied')),
+      exit_code INTEGER,
+      isolation TEXT NOT NULL DEFAULT 'none',
+      network_allowed BOOLEAN DEFAULT 0,
+      output_truncated BOOLEAN DEFAULT 0,
+      duration_ms INTEGER,
+      error_message TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS auth_sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      token_hash TEXT UNIQUE NOT NULL,
+      expires_at DATETIME NOT NULL,
+      last_used_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS user_identities (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      provider TEXT NOT NULL,
+      external_id TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(provider, external_id),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS workspaces (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      monthly_request_quota INTEGER,
+      created_by INTEGER REFERENCES users(id),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS workspace_members (
+      workspace_id INTEGER NOT NULL,
+      user_id INTEGER NOT NULL,
+      role TEXT NOT NULL DEFAULT 'member' CHECK(role IN ('admin','member')),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (workspace_id, user_id),
+      FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Skills, workflows and standards made visible outside their workspace.
+  // A NULL workspace_id publishes the asset to every workspace.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS asset_shares (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      asset_type TEXT NOT NULL CHECK(asset_type IN ('skill','workflow','standard')),
+      asset_id INTEGER NOT NULL,
+      workspace_id INTEGER REFERENCES workspaces(id) ON DELETE CASCADE,
+      shared_by INTEGER REFERENCES users(id),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Monthly LLM spend limit in USD; runs warn at budget_warn_percent and stop at 100%
+  ensureColumn('workspaces', 'monthly_budget_usd', 'REAL');
+  ensureColumn('workspaces', 'budget_warn_percent', 'INTEGER DEFAULT 80');
+
+  // One row per LLM call, priced when it was made
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS llm_usage (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER REFERENCES users(id),
+      workspace_id INTEGER REFERENCES workspaces(id) ON DELETE SET NULL,
+      source TEXT NOT NULL CHECK(source IN ('workflow_step','agent','assistant','model_test')),
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      prompt_tokens INTEGER NOT NULL DEFAULT 0,
+      completion_tokens INTEGER NOT NULL DEFAULT 0,
+      cost_usd REAL NOT NULL DEFAULT 0,
+      estimated BOOLEAN DEFAULT 0,
+      execution_id INTEGER REFERENCES workflow_executions(id) ON DELETE SET NULL,
+      skill_id INTEGER,
+      workflow_id INTEGER,
+      session_id TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Admin overrides of the built-in price table (USD per million tokens)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS model_prices (
+      model TEXT PRIMARY KEY,
+      input_per_mtok REAL NOT NULL,
+      output_per_mtok REAL NOT NULL,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Content-addressed step results, reused by steps that opt in and by replays
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS step_cache (
+      cache_key TEXT PRIMARY KEY,
+      workspace_id INTEGER REFERENCES workspaces(id) ON DELETE CASCADE,
+      step_type TEXT NOT NULL,
+      result TEXT NOT NULL,
+      hit_count INTEGER NOT NULL DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      last_hit_at DATETIME,
+      expires_at DATETIME NOT NULL
+    )
+  `);
+
+  // Immutable snapshots of skill/workflow definitions; a new one on every change
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS skill_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      parent_type TEXT NOT NULL CHECK(parent_type IN ('skill','workflow')),
+      parent_id INTEGER NOT NULL,
+      version INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      description TEXT,
+      steps TEXT NOT NULL,
+      source TEXT NOT NULL DEFAULT 'edit',
+      note TEXT,
+      created_by INTEGER REFERENCES users(id),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(parent_type, parent_id, version)
+    )
+  `);
+  // Model/prompt comparisons: a matrix of variants run over a dataset of inputs
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS evaluations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      parent_type TEXT NOT NULL CHECK(parent_type IN ('skill','workflow')),
+      parent_id INTEGER NOT NULL,
+      step_order INTEGER,
+      variants TEXT NOT NULL DEFAULT '[]',
+      dataset TEXT NOT NULL DEFAULT '[]',
+      judge TEXT,
+      status TEXT NOT NULL DEFAULT 'draft',
+      workspace_id INTEGER REFERENCES workspaces(id),
+      created_by INTEGER REFERENCES users(id),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      started_at DATETIME,
+      completed_at DATETIME
+    )
+  `);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS evaluation_results (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      evaluation_id INTEGER NOT NULL REFERENCES evaluations(id) ON DELETE CASCADE,
+      variant_index INTEGER NOT NULL,
+      row_index INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      output TEXT,
+      error TEXT,
+      latency_ms INTEGER,
+      prompt_tokens INTEGER,
+      completion_tokens INTEGER,
+      cost_usd REAL,
+      execution_id INTEGER REFERENCES workflow_executions(id) ON DELETE SET NULL,
+      judge_score REAL,
+      judge_reason TEXT,
+      human_score INTEGER,
+      scored_by INTEGER REFERENCES users(id),
+      UNIQUE(evaluation_id, variant_index, row_index)
+    )
+  `);
+
+  // Version of the skill/workflow an execution ran
+  ensureColumn('workflow_executions', 'skill_version_id', 'INTEGER REFERENCES skill_versions(id)');
+
+  // Saved test cases per skill/workflow, and the regression runs made from them
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS skill_test_cases (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      parent_type TEXT NOT NULL CHECK(parent_type IN ('skill','workflow')),
+      parent_id INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      inputs TEXT NOT NULL DEFAULT '{}',
+      assertions TEXT NOT NULL DEFAULT '[]',
+      stubs TEXT NOT NULL DEFAULT '{}',
+      mock_ai INTEGER NOT NULL DEFAULT 0,
+      created_by INTEGER REFERENCES users(id),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS skill_test_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      parent_type TEXT NOT NULL CHECK(parent_type IN ('skill','workflow')),
+      parent_id INTEGER NOT NULL,
+      draft_id INTEGER REFERENCES skill_drafts(id) ON DELETE CASCADE,
+      status TEXT NOT NULL DEFAULT 'running',
+      passed INTEGER NOT NULL DEFAULT 0,
+      failed INTEGER NOT NULL DEFAULT 0,
+      results TEXT NOT NULL DEFAULT '[]',
+      created_by INTEGER REFERENCES users(id),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      completed_at DATETIME
+    )
+  `);
+
+  // Extracted product reviews, kept per workspace so repeat runs only report what's new
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS review_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+      platform TEXT NOT NULL,
+      product_key TEXT NOT NULL,
+      product_url TEXT NOT NULL,
+      product_name TEXT,
+      incremental INTEGER NOT NULL DEFAULT 0,
+      reviews_seen INTEGER NOT NULL DEFAULT 0,
+      new_count INTEGER NOT NULL DEFAULT 0,
+      updated_count INTEGER NOT NULL DEFAULT 0,
+      execution_id INTEGER REFERENCES workflow_executions(id) ON DELETE SET NULL,
+      created_by INTEGER REFERENCES users(id),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS reviews (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+      platform TEXT NOT NULL,
+      product_key TEXT NOT NULL,
+      review_key TEXT NOT NULL,
+      product_url TEXT,
+      product_name TEXT,
+      rating REAL,
+      title TEXT NOT NULL DEFAULT '',
+      body TEXT NOT NULL DEFAULT '',
+      review_date TEXT,
+      author TEXT,
+      variant TEXT,
+      images TEXT NOT NULL DEFAULT '[]',
+      verified INTEGER NOT NULL DEFAULT 0,
+      content_hash TEXT NOT NULL,
+      first_run_id INTEGER REFERENCES review_runs(id) ON DELETE SET NULL,
+      last_run_id INTEGER REFERENCES review_runs(id) ON DELETE SET NULL,
+      changed_run_id INTEGER REFERENCES review_runs(id) ON DELETE SET NULL,
+      first_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      last_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      changed_at DATETIME,
+      UNIQUE(workspace_id, platform, product_key, review_key)
+    )
+  `);
+  // AI-assigned sentiment, purchase motivation and topics; content_hash is the review's when tagged
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS review_tags (
+      review_id INTEGER PRIMARY KEY REFERENCES reviews(id) ON DELETE CASCADE,
+      sentiment TEXT NOT NULL CHECK(sentiment IN ('positive', 'neutral', 'negative')),
+      motivation TEXT,
+      topics TEXT NOT NULL DEFAULT '[]',
+      content_hash TEXT NOT NULL,
+      model TEXT,
+      tagged_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Workspace scoping for tables that predate workspaces (skills/workflows follow runMigrations)
+  ensureColumn('company_standards', 'workspace_id', 'INTEGER REFERENCES workspaces(id)');
+  ensureColumn('agent_configs', 'workspace_id', 'INTEGER REFERENCES workspaces(id)');
+  ensureColumn('sessions', 'workspace_id', 'INTEGER REFERENCES workspaces(id)');
+  ensureColumn('api_usage', 'workspace_id', 'INTEGER REFERENCES workspaces(id)');
+  // Bridged recipes remember their skill/workflow's workspace so runs resolve its standards
+  ensureColumn('recipes', 'workspace_id', 'INTEGER REFERENCES workspaces(id)');
+  // Verified request signature, so a captured webhook request cannot be replayed
+  ensureColumn('webhook_invocations', 'signature', 'TEXT');
+
   db.exec('CREATE INDEX IF NOT EXISTS idx_session_execution_memory_session ON session_execution_memory(session_id, created_at DESC)');
   db.exec('CREATE INDEX IF NOT EXISTS idx_session_execution_memory_asset ON session_execution_memory(session_id, asset_type, asset_id, created_at DESC)');
   db.exec('CREATE INDEX IF NOT EXISTS idx_session_execution_memory_execution ON session_execution_memory(execution_id)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_workflow_schedules_next_run ON workflow_schedules(enabled, next_run_at)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_schedule_runs_schedule ON schedule_runs(schedule_id, started_at DESC)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_schedule_runs_status ON schedule_runs(status)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_webhook_invocations_webhook ON webhook_invocations(webhook_id, received_at DESC)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_webhook_invocations_signature ON webhook_invocations(webhook_id, signature)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_sandbox_audit_log_created ON sandbox_audit_log(created_at DESC)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_auth_sessions_user ON auth_sessions(user_id)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_user_identities_user ON user_identities(user_id)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_workspace_members_user ON workspace_members(user_id)');
+  db.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_asset_shares_target ON asset_shares(asset_type, asset_id, IFNULL(workspace_id, 0))');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_company_standards_workspace ON company_standards(workspace_id)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_sessions_workspace ON sessions(workspace_id)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_api_usage_workspace ON api_usage(workspace_id, created_at)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_review_runs_product ON review_runs(workspace_id, platform, product_key, id DESC)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_reviews_first_run ON reviews(first_run_id)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_reviews_changed_run ON reviews(changed_run_id)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_llm_usage_workspace ON llm_usage(workspace_id, created_at)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_llm_usage_user ON llm_usage(user_id, created_at)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_step_cache_expires ON step_cache(expires_at)');
 
   // Insert mock user for MVP and get the user ID
   let mockUserId: number;
   const mockUser = getOne("SELECT id FROM users WHERE email = 'demo@novohaven.com'");
   if (!mockUser) {
-    run("INSERT INTO users (email, password_hash) VALUES ('demo@novohaven.com', 'mock_password_hash')");
+    run("INSERT INTO users (email, password_hash, role) VALUES ('demo@novohaven.com', 'mock_password_hash', 'admin')");
     const insertedUser = getOne("SELECT id FROM users WHERE email = 'demo@novohaven.com'");
     if (!insertedUser || !insertedUser.id) {
       throw new Error('Failed to create mock user');
@@ -289,6 +722,11 @@ export function initializeDatabase(): void {
       throw new Error('Mock user exists but has no ID');
     }
     mockUserId = mockUser.id;
+    // Databases created before roles existed have no admin yet
+    run(
+      "UPDATE users SET role = 'admin' WHERE id = ? AND NOT EXISTS (SELECT 1 FROM users WHERE role = 'admin')",
+      [mockUserId]
+    );
   }
 
   // Verify user exists before seeding
@@ -299,6 +737,11 @@ export function initializeDatabase(): void {
 
   // Run migrations (recipes → skills/workflows)
   runMigrations();
+  ensureColumn('skills', 'workspace_id', 'INTEGER REFERENCES workspaces(id)');
+  ensureColumn('workflows', 'workspace_id', 'INTEGER REFERENCES workspaces(id)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_skills_workspace ON skills(workspace_id)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_workflows_workspace ON workflows(workspace_id)');
+  backfillWorkspaces();
 
   // Seed default skills/workflows only once per seed version.
   // We claim a one-time seed lock row so concurrent initializers do not reseed.
@@ -337,6 +780,55 @@ export function initializeDatabase(): void {
   }
 }
 
+/**
+ * The workspace a user's own assets land in when no other is chosen: their
+ * oldest membership, or a new personal workspace they administer.
+ */
+export function ensurePersonalWorkspace(userId: number): number {
+  const membership = getOne(
+    'SELECT workspace_id FROM workspace_members WHERE user_id = ? ORDER BY workspace_id LIMIT 1',
+    [userId]
+  );
+  if (membership) return membership.workspace_id;
+
+  const user = getOne('SELECT email FROM users WHERE id = ?', [userId]);
+  if (!user) throw new Error(`User with ID ${userId} does not exist`);
+  const name = `${String(user.email).split('@')[0]}'s workspace`;
+  const workspaceId = run('INSERT INTO workspaces (name, created_by) VALUES (?, ?)', [name, userId]).lastInsertRowid;
+  run("INSERT INTO workspace_members (workspace_id, user_id, role) VALUES (?, ?, 'admin')", [workspaceId, userId]);
+  return workspaceId;
+}
+
+/**
+ * SQL condition matching assets owned by, shared with, or published to a
+ * workspace. Bind the workspace id twice, in order.
+ */
+export function workspaceVisibilitySql(alias: string, assetType: 'skill' | 'workflow' | 'standard'): string {
+  return `(${alias}.workspace_id = ? OR EXISTS (
+    SELECT 1 FROM asset_shares sh
+    WHERE sh.asset_type = '${assetType}' AND sh.asset_id = ${alias}.id
+      AND (sh.workspace_id IS NULL OR sh.workspace_id = ?)
+  ))`;
+}
+
+// Give every user a workspace and move rows created before workspaces existed into it
+function backfillWorkspaces(): void {
+  if (!db) return;
+
+  const homeless = getAll('SELECT id FROM users WHERE id NOT IN (SELECT user_id FROM workspace_members)');
+  homeless.forEach((u) => ensurePersonalWorkspace(u.id));
+
+  const personal = (column: string) =>
+    `(SELECT MIN(wm.workspace_id) FROM workspace_members wm WHERE wm.user_id = ${column})`;
+  db.transaction(() => {
+    run(`UPDATE skills SET workspace_id = ${personal('skills.created_by')} WHERE workspace_id IS NULL`);
+    run(`UPDATE workflows SET workspace_id = ${personal('workflows.created_by')} WHERE workspace_id IS NULL`);
+    run(`UPDATE company_standards SET workspace_id = ${personal('company_standards.user_id')} WHERE workspace_id IS NULL`);
+    run(`UPDATE sessions SET workspace_id = ${personal('sessions.user_id')} WHERE workspace_id IS NULL`);
+    run(`UPDATE api_usage SET workspace_id = ${personal('api_usage.user_id')} WHERE workspace_id IS NULL`);
+  })();
+}
+
 function runMigrations(): void {
   if (!db) return;
 
@@ -460,9 +952,9 @@ function upsertGraphDefinition(
     run('DELETE FROM skill_steps WHERE parent_id = ? AND parent_type = ?', [parentId, parentType]);
   } else {
     const result = run(`
-      INSERT INTO ${parentTable} (name, description, created_by, status, tags)
-      VALUES (?, ?, ?, 'active', '[]')
-    `, [name, description, createdBy]);
+      INSERT INTO ${parentTable} (name, description, created_by, workspace_id, status, tags)
+      VALUES (?, ?, ?, ?, 'active', '[]')
+    `, [name, description, createdBy, ensurePersonalWorkspace(createdBy)]);
     parentId = result.lastInsertRowid;
   }
 
@@ -530,13 +1022,13 @@ function upsertCompanyStandard(
     `, [content, existing.id]);
   } else {
     run(`
-      INSERT INTO company_standards (user_id, standard_type, name, content)
-      VALUES (?, ?, ?, ?)
-    `, [userId, standardType, name, content]);
+      INSERT INTO company_standards (user_id, workspace_id, standard_type, name, content)
+      VALUES (?, ?, ?, ?, ?)
+    `, [userId, ensurePersonalWorkspace(userId), standardType, name, content]);
   }
 }
 
-function seedDefaultAssets(mockUserId: number): void {
+export function seedDefaultAssets(mockUserId: number): void {
   if (!db) return;
 
   const imageStyleAnalysisPrompt = `Analyze this reference image in comprehensive detail for photography reproduction and AI image generation purposes.
@@ -960,8 +1452,12 @@ export const queries = {
   // Users
   getUserById: (id: number) => getOne('SELECT * FROM users WHERE id = ?', [id]),
   getUserByEmail: (email: string) => getOne('SELECT * FROM users WHERE email = ?', [email]),
-  createUser: (email: string, passwordHash: string, apiKeys?: string) =>
-    run('INSERT INTO users (email, password_hash, api_keys) VALUES (?, ?, ?)', [email, passwordHash, apiKeys || null]),
+  createUser: (email: string, passwordHash: string, role: string, apiKeys?: string) =>
+    run('INSERT INTO users (email, password_hash, role, api_keys) VALUES (?, ?, ?, ?)', [email, passwordHash, role, apiKeys || null]),
+  getAllUsers: () =>
+    getAll('SELECT id, email, role, created_at FROM users ORDER BY id'),
+  updateUserRole: (role: string, id: number) =>
+    run('UPDATE users SET role = ? WHERE id = ?', [role, id]),
   updateUserApiKeys: (apiKeys: string, id: number) =>
     run('UPDATE users SET api_keys = ? WHERE id = ?', [apiKeys, id]),
 
@@ -999,14 +1495,19 @@ export const queries = {
   deleteStepsByRecipeId: (recipeId: number) => run('DELETE FROM recipe_steps WHERE recipe_id = ?', [recipeId]),
 
   // Company Standards
-  getStandardsByUser: (userId: number) =>
-    getAll('SELECT * FROM company_standards WHERE user_id = ? ORDER BY standard_type, name', [userId]),
+  getStandardsByWorkspace: (workspaceId: number) =>
+    getAll(`SELECT s.* FROM company_standards s WHERE ${workspaceVisibilitySql('s', 'standard')}
+      ORDER BY s.standard_type, s.name`, [workspaceId, workspaceId]),
   getStandardById: (id: number) => getOne('SELECT * FROM company_standards WHERE id = ?', [id]),
-  getStandardsByType: (userId: number, standardType: string) =>
-    getAll('SELECT * FROM company_standards WHERE user_id = ? AND standard_type = ?', [userId, standardType]),
-  createStandard: (userId: number, standardType: string, name: string, content: string) =>
-    run('INSERT INTO company_standards (user_id, standard_type, name, content) VALUES (?, ?, ?, ?)',
-      [userId, standardType, name, content]),
+  // The workspace's own standards come before ones shared into it
+  getStandardsByType: (workspaceId: number, standardType: string) =>
+    getAll(`SELECT s.* FROM company_standards s
+      WHERE s.standard_type = ? AND ${workspaceVisibilitySql('s', 'standard')}
+      ORDER BY CASE WHEN s.workspace_id = ? THEN 0 ELSE 1 END, s.id`,
+      [standardType, workspaceId, workspaceId, workspaceId]),
+  createStandard: (userId: number, workspaceId: number, standardType: string, name: string, content: string) =>
+    run('INSERT INTO company_standards (user_id, workspace_id, standard_type, name, content) VALUES (?, ?, ?, ?, ?)',
+      [userId, workspaceId, standardType, name, content]),
   updateStandard: (name: string, content: string, id: number) =>
     run('UPDATE company_standards SET name = ?, content = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
       [name, content, id]),
@@ -1025,13 +1526,38 @@ export const queries = {
     run('UPDATE workflow_executions SET status = ?, current_step = ? WHERE id = ?', [status, currentStep, id]),
   completeExecution: (status: string, id: number) =>
     run('UPDATE workflow_executions SET status = ?, completed_at = CURRENT_TIMESTAMP WHERE id = ?', [status, id]),
+  setExecutionStatusReason: (reason: string | null, id: number) =>
+    run('UPDATE workflow_executions SET status_reason = ? WHERE id = ?', [reason, id]),
+  setExecutionFork: (forkedFromId: number, forkedFromStep: number, id: number) =>
+    run('UPDATE workflow_executions SET forked_from_id = ?, forked_from_step = ? WHERE id = ?',
+      [forkedFromId, forkedFromStep, id]),
+  setExecutionParent: (parentExecutionId: number, parentStepExecutionId: number, id: number) =>
+    run('UPDATE workflow_executions SET parent_execution_id = ?, parent_step_execution_id = ? WHERE id = ?',
+      [parentExecutionId, parentStepExecutionId, id]),
+  setExecutionSkillVersion: (skillVersionId: number, id: number) =>
+    run('UPDATE workflow_executions SET skill_version_id = ? WHERE id = ?', [skillVersionId, id]),
+  getChildExecutionForStep: (parentStepExecutionId: number) =>
+    getOne('SELECT * FROM workflow_executions WHERE parent_step_execution_id = ? ORDER BY id DESC LIMIT 1',
+      [parentStepExecutionId]),
+  getInterruptedExecutions: () =>
+    getAll("SELECT * FROM workflow_executions WHERE status IN ('running', 'pending') ORDER BY id"),
   cancelExecution: (id: number) =>
     run('UPDATE workflow_executions SET status = ?, completed_at = CURRENT_TIMESTAMP WHERE id = ?', ['cancelled', id]),
   deleteExecution: (id: number) => {
+    run('UPDATE workflow_executions SET forked_from_id = NULL WHERE forked_from_id = ?', [id]);
+    run('UPDATE workflow_executions SET parent_execution_id = NULL WHERE parent_execution_id = ?', [id]);
     run('DELETE FROM step_executions WHERE execution_id = ?', [id]);
     return run('DELETE FROM workflow_executions WHERE id = ?', [id]);
   },
   deleteAllExecutionsByUser: (userId: number) => {
+    run(
+      'UPDATE workflow_executions SET forked_from_id = NULL WHERE forked_from_id IN (SELECT id FROM workflow_executions WHERE user_id = ?)',
+      [userId]
+    );
+    run(
+      'UPDATE workflow_executions SET parent_execution_id = NULL WHERE parent_execution_id IN (SELECT id FROM workflow_executions WHERE user_id = ?)',
+      [userId]
+    );
     run(
       'DELETE FROM step_executions WHERE execution_id IN (SELECT id FROM workflow_executions WHERE user_id = ?)',
       [userId]
@@ -1056,6 +1582,209 @@ export const queries = {
     run('UPDATE step_executions SET approved = ?, status = ? WHERE id = ?', [approved ? 1 : 0, status, id]),
   setStepExecutionError: (status: string, errorMessage: string, id: number) =>
     run('UPDATE step_executions SET status = ?, error_message = ? WHERE id = ?', [status, errorMessage, id]),
+  setStepExecutionAttempts: (attempts: string | null, id: number) =>
+    run('UPDATE step_executions SET attempts = ? WHERE id = ?', [attempts, id]),
+  skipStepExecution: (id: number) =>
+    run(`UPDATE step_executions SET status = 'skipped', executed_at = CURRENT_TIMESTAMP WHERE id = ?`, [id]),
+  setStepExecutionOutput: (outputData: string, id: number) =>
+    run('UPDATE step_executions SET output_data = ? WHERE id = ?', [outputData, id]),
+
+  // Human review assignment. A null deadline modifier clears the deadline (datetime() returns NULL).
+  assignStepReview: (assignedTo: number | null, dueModifier: string | null, id: number) =>
+    run(`UPDATE step_executions SET assigned_to = ?, review_due_at = datetime('now', ?) WHERE id = ?`,
+      [assignedTo, dueModifier, id]),
+  escalateStepReview: (assignedTo: number, dueModifier: string | null, id: number) =>
+    run(`UPDATE step_executions SET assigned_to = ?, review_due_at = datetime('now', ?),
+      escalation_count = COALESCE(escalation_count, 0) + 1 WHERE id = ?`, [assignedTo, dueModifier, id]),
+  clearStepReviewDeadline: (id: number) =>
+    run('UPDATE step_executions SET review_due_at = NULL WHERE id = ?', [id]),
+  getOverdueStepReviews: () =>
+    getAll(`SELECT * FROM step_executions WHERE status = 'awaiting_review'
+      AND review_due_at IS NOT NULL AND review_due_at <= datetime('now') ORDER BY review_due_at`),
+  getAssignedStepReviews: (userId: number) =>
+    getAll(`SELECT se.id AS step_execution_id, se.execution_id, se.step_order, se.review_due_at, se.output_data,
+        r.name AS recipe_name, u.email AS requested_by
+      FROM step_executions se
+      JOIN workflow_executions we ON we.id = se.execution_id
+      LEFT JOIN recipes r ON r.id = we.recipe_id
+      LEFT JOIN users u ON u.id = we.user_id
+      WHERE se.assigned_to = ? AND se.status = 'awaiting_review'
+      ORDER BY se.review_due_at IS NULL, se.review_due_at, se.id`, [userId]),
+  isStepReviewer: (executionId: number, userId: number) =>
+    getOne('SELECT 1 AS found FROM step_executions WHERE execution_id = ? AND assigned_to = ? LIMIT 1',
+      [executionId, userId]),
+
+  // Skill/workflow versions
+  getLatestSkillVersion: (parentType: string, parentId: number) =>
+    getOne('SELECT * FROM skill_versions WHERE parent_type = ? AND parent_id = ? ORDER BY version DESC LIMIT 1',
+      [parentType, parentId]),
+  getSkillVersion: (parentType: string, parentId: number, version: number) =>
+    getOne('SELECT * FROM skill_versions WHERE parent_type = ? AND parent_id = ? AND version = ?',
+      [parentType, parentId, version]),
+  getSkillVersionById: (id: number) => getOne('SELECT * FROM skill_versions WHERE id = ?', [id]),
+  getSkillVersions: (parentType: string, parentId: number) =>
+    getAll(`SELECT v.id, v.parent_type, v.parent_id, v.version, v.name, v.description, v.source, v.note,
+        v.created_by, v.created_at, json_array_length(v.steps) AS step_count, u.email AS created_by_email
+      FROM skill_versions v
+      LEFT JOIN users u ON u.id = v.created_by
+      WHERE v.parent_type = ? AND v.parent_id = ?
+      ORDER BY v.version DESC`, [parentType, parentId]),
+  createSkillVersion: (
+    parentType: string, parentId: number, version: number, name: string, description: string | null,
+    steps: string, source: string, note: string | null, createdBy: number | null
+  ) =>
+    run(`INSERT INTO skill_versions (parent_type, parent_id, version, name, description, steps, source, note, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [parentType, parentId, version, name, description, steps, source, note, createdBy]),
+
+  // Skill drafts
+  getSkillDraftById: (id: number) => getOne('SELECT * FROM skill_drafts WHERE id = ?', [id]),
+
+  // Skill/workflow test suites
+  getSkillTestCases: (parentType: string, parentId: number) =>
+    getAll('SELECT * FROM skill_test_cases WHERE parent_type = ? AND parent_id = ? ORDER BY id', [parentType, parentId]),
+  getSkillTestCaseById: (id: number) => getOne('SELECT * FROM skill_test_cases WHERE id = ?', [id]),
+  createSkillTestCase: (
+    parentType: string, parentId: number, name: string, inputs: string, assertions: string,
+    stubs: string, mockAi: boolean, createdBy: number | null
+  ) =>
+    run(`INSERT INTO skill_test_cases (parent_type, parent_id, name, inputs, assertions, stubs, mock_ai, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [parentType, parentId, name, inputs, assertions, stubs, mockAi ? 1 : 0, createdBy]),
+  updateSkillTestCase: (name: string, inputs: string, assertions: string, stubs: string, mockAi: boolean, id: number) =>
+    run(`UPDATE skill_test_cases SET name = ?, inputs = ?, assertions = ?, stubs = ?, mock_ai = ?,
+      updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      [name, inputs, assertions, stubs, mockAi ? 1 : 0, id]),
+  deleteSkillTestCase: (id: number) => run('DELETE FROM skill_test_cases WHERE id = ?', [id]),
+  getSkillTestRunById: (id: number) => getOne('SELECT * FROM skill_test_runs WHERE id = ?', [id]),
+  getLatestSkillTestRun: (parentType: string, parentId: number, draftId: number | null) =>
+    getOne(`SELECT * FROM skill_test_runs WHERE parent_type = ? AND parent_id = ? AND draft_id IS ?
+      ORDER BY id DESC LIMIT 1`, [parentType, parentId, draftId]),
+  createSkillTestRun: (parentType: string, parentId: number, draftId: number | null, createdBy: number | null) =>
+    run('INSERT INTO skill_test_runs (parent_type, parent_id, draft_id, created_by) VALUES (?, ?, ?, ?)',
+      [parentType, parentId, draftId, createdBy]),
+  completeSkillTestRun: (status: string, passed: number, failed: number, results: string, id: number) =>
+    run(`UPDATE skill_test_runs SET status = ?, passed = ?, failed = ?, results = ?,
+      completed_at = CURRENT_TIMESTAMP WHERE id = ?`, [status, passed, failed, results, id]),
+
+  // Evaluations
+  getEvaluations: (workspaceId: number) =>
+    getAll(`SELECT e.*, u.email AS created_by_email FROM evaluations e
+      LEFT JOIN users u ON u.id = e.created_by
+      WHERE e.workspace_id = ? ORDER BY e.created_at DESC, e.id DESC`, [workspaceId]),
+  getEvaluationById: (id: number) => getOne('SELECT * FROM evaluations WHERE id = ?', [id]),
+  createEvaluation: (
+    name: string, parentType: string, parentId: number, stepOrder: number | null, variants: string,
+    dataset: string, judge: string | null, workspaceId: number | null, createdBy: number
+  ) =>
+    run(`INSERT INTO evaluations (name, parent_type, parent_id, step_order, variants, dataset, judge, workspace_id, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [name, parentType, parentId, stepOrder, variants, dataset, judge, workspaceId, createdBy]),
+  setEvaluationStatus: (status: string, id: number) =>
+    run(`UPDATE evaluations SET status = ?,
+      started_at = CASE WHEN ? = 'running' THEN CURRENT_TIMESTAMP ELSE started_at END,
+      completed_at = CASE WHEN ? = 'running' THEN NULL ELSE CURRENT_TIMESTAMP END
+      WHERE id = ?`, [status, status, status, id]),
+  deleteEvaluation: (id: number) => run('DELETE FROM evaluations WHERE id = ?', [id]),
+  getRunningEvaluations: () => getAll("SELECT * FROM evaluations WHERE status = 'running' ORDER BY id"),
+  failPendingEvaluationResults: (error: string, evaluationId: number) =>
+    run("UPDATE evaluation_results SET status = 'failed', error = ? WHERE evaluation_id = ? AND status = 'pending'",
+      [error, evaluationId]),
+  getEvaluationResults: (evaluationId: number) =>
+    getAll('SELECT * FROM evaluation_results WHERE evaluation_id = ? ORDER BY row_index, variant_index', [evaluationId]),
+  resetEvaluationResults: (evaluationId: number) =>
+    run('DELETE FROM evaluation_results WHERE evaluation_id = ?', [evaluationId]),
+  createEvaluationResult: (evaluationId: number, variantIndex: number, rowIndex: number) =>
+    run('INSERT INTO evaluation_results (evaluation_id, variant_index, row_index) VALUES (?, ?, ?)',
+      [evaluationId, variantIndex, rowIndex]),
+  completeEvaluationResult: (
+    status: string, output: string | null, error: string | null, latencyMs: number | null,
+    promptTokens: number | null, completionTokens: number | null, costUsd: number | null,
+    executionId: number | null, id: number
+  ) =>
+    run(`UPDATE evaluation_results SET status = ?, output = ?, error = ?, latency_ms = ?, prompt_tokens = ?,
+      completion_tokens = ?, cost_usd = ?, execution_id = ? WHERE id = ?`,
+      [status, output, error, latencyMs, promptTokens, completionTokens, costUsd, executionId, id]),
+  setEvaluationJudgeScore: (score: number | null, reason: string, id: number) =>
+    run('UPDATE evaluation_results SET judge_score = ?, judge_reason = ? WHERE id = ?', [score, reason, id]),
+  setEvaluationHumanScore: (score: number | null, userId: number, id: number) =>
+    run('UPDATE evaluation_results SET human_score = ?, scored_by = ? WHERE id = ?', [score, userId, id]),
+  getExecutionLlmUsage: (executionId: number) =>
+    getOne(`SELECT COALESCE(SUM(prompt_tokens), 0) AS prompt_tokens, COALESCE(SUM(completion_tokens), 0) AS completion_tokens,
+        COALESCE(SUM(cost_usd), 0) AS cost_usd
+      FROM llm_usage WHERE execution_id = ?`, [executionId]),
+
+  // Stored reviews and the extraction runs that found them
+  createReviewRun: (
+    workspaceId: number, platform: string, productKey: string, productUrl: string, productName: string | null,
+    incremental: boolean, executionId: number | null, createdBy: number | null
+  ) =>
+    run(`INSERT INTO review_runs (workspace_id, platform, product_key, product_url, product_name, incremental, execution_id, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [workspaceId, platform, productKey, productUrl, productName, incremental ? 1 : 0, executionId, createdBy]),
+  completeReviewRun: (seen: number, newCount: number, updatedCount: number, id: number) =>
+    run('UPDATE review_runs SET reviews_seen = ?, new_count = ?, updated_count = ? WHERE id = ?',
+      [seen, newCount, updatedCount, id]),
+  getReviewRunById: (id: number) => getOne('SELECT * FROM review_runs WHERE id = ?', [id]),
+  getReviewRuns: (workspaceId: number, platform: string | null, productKey: string | null, limit: number) =>
+    getAll(`SELECT * FROM review_runs WHERE workspace_id = ?
+      AND (? IS NULL OR platform = ?) AND (? IS NULL OR product_key = ?)
+      ORDER BY id DESC LIMIT ?`, [workspaceId, platform, platform, productKey, productKey, limit]),
+  getReviewKeys: (workspaceId: number, platform: string, productKey: string) =>
+    getAll('SELECT review_key, content_hash FROM reviews WHERE workspace_id = ? AND platform = ? AND product_key = ?',
+      [workspaceId, platform, productKey]),
+  getStoredReviews: (workspaceId: number, platform: string | null, productKey: string | null, limit: number, offset: number) =>
+    getAll(`SELECT * FROM reviews WHERE workspace_id = ?
+      AND (? IS NULL OR platform = ?) AND (? IS NULL OR product_key = ?)
+      ORDER BY COALESCE(review_date, first_seen_at) DESC, id DESC LIMIT ? OFFSET ?`,
+      [workspaceId, platform, platform, productKey, productKey, limit, offset]),
+  getReviewsFirstSeenInRun: (runId: number) =>
+    getAll('SELECT * FROM reviews WHERE first_run_id = ? ORDER BY id', [runId]),
+  getReviewsChangedInRun: (runId: number) =>
+    getAll('SELECT * FROM reviews WHERE changed_run_id = ? ORDER BY id', [runId]),
+  getReviewProducts: (workspaceId: number) =>
+    getAll(`SELECT platform, product_key, MAX(product_name) AS product_name, MAX(product_url) AS product_url,
+        COUNT(*) AS review_count, AVG(rating) AS average_rating, MAX(last_seen_at) AS last_seen_at
+      FROM reviews WHERE workspace_id = ?
+      GROUP BY platform, product_key ORDER BY last_seen_at DESC`, [workspaceId]),
+  // Reviews never tagged, or changed since they were
+  getUntaggedReviews: (workspaceId: number, platform: string | null, limit: number) =>
+    getAll(`SELECT r.* FROM reviews r LEFT JOIN review_tags t ON t.review_id = r.id
+      WHERE r.workspace_id = ? AND (? IS NULL OR r.platform = ?)
+        AND (t.review_id IS NULL OR t.content_hash != r.content_hash)
+      ORDER BY r.id LIMIT ?`, [workspaceId, platform, platform, limit]),
+  upsertReviewTag: (
+    reviewId: number, sentiment: string, motivation: string | null, topics: string, contentHash: string, model: string
+  ) =>
+    run(`INSERT INTO review_tags (review_id, sentiment, motivation, topics, content_hash, model) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(review_id) DO UPDATE SET sentiment = excluded.sentiment, motivation = excluded.motivation,
+        topics = excluded.topics, content_hash = excluded.content_hash, model = excluded.model, tagged_at = CURRENT_TIMESTAMP`,
+      [reviewId, sentiment, motivation, topics, contentHash, model]),
+  // Reviews with their tags (null columns when untagged or out of date)
+  getReviewsWithTags: (workspaceId: number, platform: string | null) =>
+    getAll(`SELECT r.*,
+        CASE WHEN t.content_hash = r.content_hash THEN t.sentiment END AS sentiment,
+        CASE WHEN t.content_hash = r.content_hash THEN t.motivation END AS motivation,
+        CASE WHEN t.content_hash = r.content_hash THEN t.topics END AS topics
+      FROM reviews r LEFT JOIN review_tags t ON t.review_id = r.id
+      WHERE r.workspace_id = ? AND (? IS NULL OR r.platform = ?)
+      ORDER BY r.id`, [workspaceId, platform, platform]),
+
+  // Step result cache
+  getStepCacheEntry: (cacheKey: string) =>
+    getOne("SELECT * FROM step_cache WHERE cache_key = ? AND expires_at > datetime('now')", [cacheKey]),
+  putStepCacheEntry: (cacheKey: string, workspaceId: number | null, stepType: string, result: string, ttlSeconds: number) =>
+    run(`INSERT INTO step_cache (cache_key, workspace_id, step_type, result, expires_at)
+      VALUES (?, ?, ?, ?, datetime('now', ?))
+      ON CONFLICT(cache_key) DO UPDATE SET
+        result = excluded.result,
+        created_at = CURRENT_TIMESTAMP,
+        expires_at = excluded.expires_at`,
+      [cacheKey, workspaceId, stepType, result, `+${ttlSeconds} seconds`]),
+  recordStepCacheHit: (cacheKey: string) =>
+    run('UPDATE step_cache SET hit_count = hit_count + 1, last_hit_at = CURRENT_TIMESTAMP WHERE cache_key = ?', [cacheKey]),
+  deleteExpiredStepCache: () =>
+    run("DELETE FROM step_cache WHERE expires_at <= datetime('now')"),
 
   // Outputs - Get all completed step outputs for a user
   getAllOutputsByUser: (userId: number) =>
@@ -1083,9 +1812,10 @@ export const queries = {
     `, [userId]),
 
   // API Usage tracking
-  logApiUsage: (userId: number, service: string, endpoint: string, requestCount: number, recordsFetched: number, metadata?: string) =>
-    run(`INSERT INTO api_usage (user_id, service, endpoint, request_count, records_fetched, metadata)
-      VALUES (?, ?, ?, ?, ?, ?)`, [userId, service, endpoint, requestCount, recordsFetched, metadata || null]),
+  logApiUsage: (userId: number, service: string, endpoint: string, requestCount: number, recordsFetched: number,
+    metadata?: string, workspaceId?: number) =>
+    run(`INSERT INTO api_usage (user_id, service, endpoint, request_count, records_fetched, metadata, workspace_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?)`, [userId, service, endpoint, requestCount, recordsFetched, metadata || null, workspaceId ?? null]),
 
   getUsageByUser: (userId: number) =>
     getAll('SELECT * FROM api_usage WHERE user_id = ? ORDER BY created_at DESC', [userId]),
@@ -6,6 +6,7 @@
  * - Dual mode receive path (WebSocket long connection or webhook)
  * - Message/media parsing for text, post, image, file, audio, video, sticker
  * - Outbound text + media uploads
+ * - Interactive cards for workflow review steps (approve/reject + form answers)
  */
 import fs from 'fs';
 import path from 'path';
@@ -15,6 +16,11 @@ import {
   ChannelPlugin, PluginManifest, ChannelMessage, AgentResponse,
 } from '../../types';
 import { getUploadsDir } from '../../../utils/uploadHelpers';
+import { queries } from '../../../models/database';
+import { findUserIdByIdentity, userHasPermission } from '../../../services/authService';
+import { canReviewStep, parseReviewRequest, validateReviewSubmission } from '../../../services/humanReview';
+import { approveStep, rejectStep } from '../../../services/workflowEngine';
+import { ReviewRequest, ReviewSubmission, StepExecution, WorkflowExecution } from '../../../types';
 
 type LarkConnectionMode = 'webhook' | 'websocket';
 type LarkDomain = 'feishu' | 'lark' | string;
@@ -76,6 +82,19 @@ type RuntimeOutboundResponse = AgentResponse & {
   messageId?: string;
 };
 
+// `metadata.review` sent by the workflow engine when a step waits on a reviewer
+type ReviewCardPayload = ReviewRequest & {
+  title: string;
+  url: string;
+  executionId: number;
+  stepExecutionId: number;
+  dueAt?: string | null;
+};
+
+type CardActionResponse = {
+  toast: { type: 'success' | 'error' | 'info'; content: string };
+};
+
 type PendingStreamOutput = {
   text: string;
   attachments: NonNullable<AgentResponse['attachments']>;
@@ -89,6 +108,10 @@ const DEDUP_TTL_MS = 30 * 60 * 1000;
 const DEDUP_MAX_SIZE = 1000;
 const DEDUP_CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
 
+// Lark card inputs hold at most this many characters
+const CARD_INPUT_MAX_LENGTH = 1000;
+const CARD_FIELD_TYPES = new Set(['text', 'textarea', 'url_list']);
+
 const IMAGE_EXTS = new Set(['.jpg', '.jpeg', '.png', '.gif', '.webp', '.bmp', '.ico', '.tiff', '.tif']);
 const FILE_TYPE_MAP: Record<string, 'opus' | 'mp4' | 'pdf' | 'doc' | 'xls' | 'ppt' | 'stream'> = {
   '.opus': 'opus',
@@ -117,6 +140,7 @@ class LarkChannelPlugin implements ChannelPlugin {
     requireMention: boolean;
     textChunkLimit: number;
     mediaMaxMb: number;
+    workspaceId?: number;
   } = {
       appId: '',
       appSecret: '',
@@ -151,6 +175,7 @@ class LarkChannelPlugin implements ChannelPlugin {
       requireMention: config.requireMention ?? this.parseBoolean(process.env.LARK_REQUIRE_MENTION, true),
       textChunkLimit: Number(config.textChunkLimit || process.env.LARK_TEXT_CHUNK_LIMIT || 3800),
       mediaMaxMb: Number(config.mediaMaxMb || process.env.LARK_MEDIA_MAX_MB || 30),
+      workspaceId: Number(config.workspaceId || process.env.LARK_WORKSPACE_ID) || undefined,
     };
 
     if (!this.config.appId || !this.config.appSecret) {
@@ -221,6 +246,7 @@ class LarkChannelPlugin implements ChannelPlugin {
         messageId: event.message.message_id,
         msgType: event.message.message_type,
         larkEvent: req.body?.header?.event_id,
+        workspaceId: this.config.workspaceId,
       },
       timestamp: new Date(),
     };
@@ -228,6 +254,10 @@ class LarkChannelPlugin implements ChannelPlugin {
 
   async sendOutbound(channelId: string, response: AgentResponse): Promise<void> {
     if (!this.client) return;
+    if (response.metadata?.review) {
+      await this.sendReviewCard(channelId, response.metadata.review as ReviewCardPayload, response.text || '');
+      return;
+    }
     const runtimeResponse = response as RuntimeOutboundResponse;
     const streamKey = `${channelId}:${runtimeResponse.messageId || '__stream__'}`;
     const text = runtimeResponse.text || '';
@@ -294,6 +324,12 @@ class LarkChannelPlugin implements ChannelPlugin {
         return;
       }
 
+      // Card callbacks are answered with a toast for the clicking user
+      if (body.header?.event_type === 'card.action.trigger') {
+        res.json(await this.handleCardAction(body.event) || {});
+        return;
+      }
+
       // Acknowledge quickly, process asynchronously.
       res.json({ code: 0 });
       void this.handleWebhookEvent(body);
@@ -324,6 +360,7 @@ class LarkChannelPlugin implements ChannelPlugin {
       'im.message.receive_v1': async (event: unknown) => {
         await this.handleMessageEvent(event as LarkMessageEvent, undefined);
       },
+      'card.action.trigger': async (event: any) => this.handleCardAction(event),
       'im.chat.member.bot.added_v1': async (event: any) => {
         const chatId = event?.chat_id || 'unknown';
         console.log(`[channel-lark] Bot added to chat ${chatId}`);
@@ -396,6 +433,68 @@ class LarkChannelPlugin implements ChannelPlugin {
     }
   }
 
+  /**
+   * Answer a review card. The clicking Lark user must be linked to the
+   * NovoHaven user allowed to review the step. Approval continues the
+   * workflow in the background so Lark gets its reply in time.
+   */
+  private async handleCardAction(event: any): Promise<CardActionResponse | undefined> {
+    const value = event?.action?.value;
+    if (!value || value.novohaven_action !== 'review') return undefined;
+    const toast = (type: CardActionResponse['toast']['type'], content: string): CardActionResponse => ({
+      toast: { type, content },
+    });
+
+    const openId = event?.operator?.open_id;
+    const userId = openId ? findUserIdByIdentity('lark', openId) : null;
+    if (userId === null) return toast('error', 'Link your Lark account to NovoHaven to answer reviews.');
+    if (!userHasPermission(userId, 'assets:run')) return toast('error', 'You do not have permission to run workflows.');
+
+    const executionId = Number(value.executionId);
+    const stepExecutionId = Number(value.stepExecutionId);
+    const execution = queries.getExecutionById(executionId) as WorkflowExecution | undefined;
+    const stepExecution = queries.getStepExecutionById(stepExecutionId) as StepExecution | undefined;
+    if (!execution || !stepExecution || stepExecution.execution_id !== executionId) {
+      return toast('error', 'This review no longer exists.');
+    }
+    if (!canReviewStep(userId, execution, stepExecution)) {
+      return toast('error', 'This step is assigned to another reviewer.');
+    }
+    const review = parseReviewRequest(stepExecution);
+    if (!review || stepExecution.status !== 'awaiting_review') {
+      return toast('info', 'This review has already been answered.');
+    }
+
+    const form: Record<string, any> = event?.action?.form_value || {};
+    const comment = typeof form.__comment === 'string' ? form.__comment : undefined;
+    if (value.decision === 'reject') {
+      const result = rejectStep(executionId, stepExecutionId, comment);
+      return result.success ? toast('success', 'Rejected.') : toast('error', result.error || 'Reject failed');
+    }
+
+    const values: Record<string, any> = {};
+    for (const [name, field] of Object.entries(review.fields || {})) {
+      const raw = typeof form[name] === 'string' ? form[name] : '';
+      values[name] = field.type === 'url_list'
+        ? raw.split(/\r?\n/).map((line: string) => line.trim()).filter(Boolean)
+        : raw;
+    }
+    const submission: ReviewSubmission = {
+      values,
+      comment,
+      previous_output: review.allow_edit_previous && typeof form.__previous_output === 'string'
+        ? form.__previous_output
+        : undefined,
+    };
+    const errors = validateReviewSubmission(review, submission);
+    if (errors.length > 0) return toast('error', errors.join('; '));
+
+    approveStep(executionId, stepExecutionId, userId, submission).catch((err: any) => {
+      console.error('[channel-lark] Approving review failed:', err?.message || String(err));
+    });
+    return toast('success', 'Submitted. The workflow is continuing.');
+  }
+
   private cleanupDedup(): void {
     const now = Date.now();
     for (const [messageId, ts] of this.processedMessageIds) {
@@ -561,6 +660,7 @@ class LarkChannelPlugin implements ChannelPlugin {
         rootId: msg.root_id,
         msgType: msg.message_type,
         larkEvent: eventId,
+        workspaceId: this.config.workspaceId,
       },
       timestamp: new Date(),
     };
@@ -910,6 +1010,121 @@ class LarkChannelPlugin implements ChannelPlugin {
     });
   }
 
+  /**
+   * Card for a waiting review step: instructions, the previous step output
+   * (editable when short enough), the form fields Lark can render and
+   * approve/reject buttons. Fields Lark cannot render (images, files) send
+   * the reviewer to the web app instead.
+   */
+  private buildReviewCard(review: ReviewCardPayload): Record<string, any> {
+    const plain = (content: string) => ({ tag: 'plain_text', content });
+    const fields = Object.entries(review.fields || {});
+    const webOnly = fields.some(([, field]) => !CARD_FIELD_TYPES.has(field.type) && field.required);
+    const previous = review.previous_output || '';
+    const editPrevious = review.allow_edit_previous && !!previous && previous.length <= CARD_INPUT_MAX_LENGTH;
+
+    const elements: Record<string, any>[] = [{ tag: 'markdown', content: review.instructions }];
+    if (previous && !editPrevious) {
+      const shown = previous.length > 1500 ? `${previous.slice(0, 1500)}\n…` : previous;
+      elements.push({ tag: 'markdown', content: `**Step ${review.previous_step_order} output**\n${shown}` });
+    }
+
+    if (webOnly) {
+      elements.push({ tag: 'markdown', content: `This form has fields that can only be answered in the [web app](${review.url}).` });
+    } else {
+      const inputs: Record<string, any>[] = fields
+        .filter(([, field]) => CARD_FIELD_TYPES.has(field.type))
+        .map(([name, field]) => ({
+          tag: 'input',
+          name,
+          label: plain(`${field.label || name}${field.required ? ' *' : ''}`),
+          placeholder: plain(field.placeholder || (field.type === 'url_list' ? 'One URL per line' : '')),
+          input_type: field.type === 'text' ? 'text' : 'multiline_text',
+          max_length: CARD_INPUT_MAX_LENGTH,
+        }));
+      if (editPrevious) {
+        inputs.push({
+          tag: 'input',
+          name: '__previous_output',
+          label: plain(`Step ${review.previous_step_order} output (edit before continuing)`),
+          input_type: 'multiline_text',
+          default_value: previous,
+          max_length: CARD_INPUT_MAX_LENGTH,
+        });
+      }
+      inputs.push({
+        tag: 'input',
+        name: '__comment',
+        label: plain('Comment'),
+        input_type: 'multiline_text',
+        max_length: CARD_INPUT_MAX_LENGTH,
+      });
+
+      const button = (decision: 'approve' | 'reject', text: string, type: string) => ({
+        tag: 'button',
+        name: decision,
+        text: plain(text),
+        type,
+        form_action_type: 'submit',
+        behaviors: [{
+          type: 'callback',
+          value: {
+            novohaven_action: 'review',
+            decision,
+            executionId: review.executionId,
+            stepExecutionId: review.stepExecutionId,
+          },
+        }],
+      });
+      elements.push({
+        tag: 'form',
+        name: 'review_form',
+        elements: [
+          ...inputs,
+          {
+            tag: 'column_set',
+            columns: [
+              { tag: 'column', width: 'auto', elements: [button('approve', review.kind === 'ask_user' ? 'Submit' : 'Approve', 'primary')] },
+              { tag: 'column', width: 'auto', elements: [button('reject', 'Reject', 'danger')] },
+            ],
+          },
+        ],
+      });
+    }
+
+    const footer = [review.dueAt ? `Due ${review.dueAt} UTC` : '', `[Open in NovoHaven](${review.url})`].filter(Boolean);
+    elements.push({ tag: 'markdown', content: footer.join(' · ') });
+
+    return {
+      schema: '2.0',
+      header: {
+        title: plain(review.title),
+        template: review.kind === 'ask_user' ? 'blue' : 'purple',
+      },
+      body: { elements },
+    };
+  }
+
+  private async sendReviewCard(receiveId: string, review: ReviewCardPayload, fallbackText: string): Promise<void> {
+    if (!this.client) return;
+    try {
+      const response: any = await this.client.im.message.create({
+        params: { receive_id_type: this.resolveReceiveIdType(receiveId) },
+        data: {
+          receive_id: receiveId,
+          msg_type: 'interactive',
+          content: JSON.stringify(this.buildReviewCard(review)),
+        },
+      });
+      if (response?.code !== undefined && response.code !== 0) {
+        throw new Error(response.msg || `code ${response.code}`);
+      }
+    } catch (err: any) {
+      console.warn('[channel-lark] Failed to send review card, falling back to text:', err?.message || String(err));
+      await this.sendTextMessage(receiveId, fallbackText);
+    }
+  }
+
   private async sendTextMessage(receiveId: string, text: string): Promise<void> {
     if (!this.client) return;
     const receiveIdType = this.resolveReceiveIdType(receiveId);
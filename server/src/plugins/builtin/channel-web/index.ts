@@ -3,6 +3,11 @@ import {
   ChannelPlugin, PluginManifest, ChannelMessage, AgentResponse,
 } from '../../types';
 import { saveAttachmentToDisk } from '../../../utils/uploadHelpers';
+import { getRequestedWorkspace, getRequestToken } from '../../../middleware/auth';
+import { resolveAuthToken } from '../../../services/authService';
+import { hasPermission } from '../../../services/permissions';
+import { resolveActiveWorkspace } from '../../../services/workspaceService';
+import { getDatabase } from '../../../models/database';
 
 // Store SSE connections by session ID
 const sseConnections = new Map<string, Response[]>();
@@ -32,9 +37,25 @@ class WebChannelPlugin implements ChannelPlugin {
   }
 
   verifyAuth(req: Request): boolean {
-    // Delegate to existing JWT auth — check for Authorization header or token query param
-    const token = req.headers.authorization?.replace('Bearer ', '') || req.query.token;
-    return !!token;
+    // Same session tokens as the REST API (header, or token query param for EventSource)
+    const user = resolveAuthToken(getRequestToken(req));
+    if (!user) return false;
+    req.user = user;
+    (req as any).userId = user.id;
+    try {
+      req.workspaceId = resolveActiveWorkspace(user.id, getRequestedWorkspace(req));
+    } catch {
+      return false;
+    }
+    return true;
+  }
+
+  // A web session id may only be used by the user who opened it
+  private ownsChannel(req: Request, channelId: string): boolean {
+    const session = getDatabase().prepare(
+      "SELECT user_id FROM sessions WHERE channel_type = 'web' AND channel_id = ? AND status != 'closed'"
+    ).get(channelId) as { user_id: number } | undefined;
+    return !session || session.user_id === (req as any).userId;
   }
 
   parseInbound(req: Request): ChannelMessage | null {
@@ -81,12 +102,12 @@ class WebChannelPlugin implements ChannelPlugin {
     return {
       channelType: 'web',
       channelId,
-      userId: (req as any).userId?.toString() || '1',
+      userId: String((req as any).userId),
       content: {
         text,
         attachments: processedAttachments,
       },
-      metadata: { sessionId },
+      metadata: { sessionId, workspaceId: req.workspaceId },
       timestamp: new Date(),
     };
   }
@@ -151,6 +172,19 @@ class WebChannelPlugin implements ChannelPlugin {
   registerRoutes(router: Router): void {
     // Send a message to the agent
     router.post('/message', async (req: Request, res: Response) => {
+      if (!this.verifyAuth(req)) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+      if (!hasPermission(req.user, 'assets:run')) {
+        res.status(403).json({ error: 'Insufficient permissions' });
+        return;
+      }
+      if (!this.ownsChannel(req, req.body?.sessionId || 'web-default')) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
       const message = this.parseInbound(req);
       if (!message) {
         res.status(400).json({ error: 'Missing text in request body' });
@@ -170,6 +204,14 @@ class WebChannelPlugin implements ChannelPlugin {
     // SSE stream for receiving agent responses
     router.get('/stream', (req: Request, res: Response) => {
       const sessionId = req.query.sessionId as string || 'web-default';
+      if (!this.verifyAuth(req)) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+      if (!this.ownsChannel(req, sessionId)) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
 
       // Set SSE headers
       res.writeHead(200, {
@@ -207,6 +249,10 @@ class WebChannelPlugin implements ChannelPlugin {
 
     // Get active sessions for this channel
     router.get('/sessions', (req: Request, res: Response) => {
+      if (!this.verifyAuth(req)) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
       const sessions = Array.from(sseConnections.keys()).map(id => ({
         sessionId: id,
         connections: sseConnections.get(id)?.length || 0,
@@ -0,0 +1,19 @@
+import { ExtractionPlugin, PluginManifest } from '../../types';
+import { AmazonStrategy } from '../../../services/extractionStrategies/amazonStrategy';
+
+class AmazonExtraction extends AmazonStrategy implements ExtractionPlugin {
+  manifest: PluginManifest;
+
+  constructor(manifest: PluginManifest) {
+    super();
+    this.manifest = manifest;
+  }
+
+  async initialize(config: Record<string, any>): Promise<void> {
+    this.configure(config);
+  }
+
+  async shutdown(): Promise<void> {}
+}
+
+export default AmazonExtraction;
@@ -0,0 +1,19 @@
+import { ExtractionPlugin, PluginManifest } from '../../types';
+import { ShopifyStrategy } from '../../../services/extractionStrategies/shopifyStrategy';
+
+class ShopifyExtraction extends ShopifyStrategy implements ExtractionPlugin {
+  manifest: PluginManifest;
+
+  constructor(manifest: PluginManifest) {
+    super();
+    this.manifest = manifest;
+  }
+
+  async initialize(config: Record<string, any>): Promise<void> {
+    this.configure(config);
+  }
+
+  async shutdown(): Promise<void> {}
+}
+
+export default ShopifyExtraction;
@@ -0,0 +1,19 @@
+import { ExtractionPlugin, PluginManifest } from '../../types';
+import { WalmartStrategy } from '../../../services/extractionStrategies/walmartStrategy';
+
+class WalmartExtraction extends WalmartStrategy implements ExtractionPlugin {
+  manifest: PluginManifest;
+
+  constructor(manifest: PluginManifest) {
+    super();
+    this.manifest = manifest;
+  }
+
+  async initialize(config: Record<string, any>): Promise<void> {
+    this.configure(config);
+  }
+
+  async shutdown(): Promise<void> {}
+}
+
+export default WalmartExtraction;
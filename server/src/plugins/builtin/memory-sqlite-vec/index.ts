@@ -9,6 +9,7 @@ import path from 'path';
 import {
   MemoryPlugin, PluginManifest, SkillIndexEntry, SearchResult, SearchOptions, MemoryEntry,
 } from '../../types';
+import { pluginRegistry } from '../../registry';
 
 const DB_PATH = process.env.DATABASE_PATH || path.join(__dirname, '../../../../data/novohaven.db');
 
@@ -279,13 +280,24 @@ class SqliteVecMemoryPlugin implements MemoryPlugin {
    * Get embedding from the configured provider.
    */
   private async getEmbedding(text: string): Promise<number[] | null> {
+    // Prefer the loaded provider, which was initialized with its saved config
+    const loaded = pluginRegistry.getProvider(this.embeddingProvider);
+    if (loaded?.embed) {
+      try {
+        const embeddings = await loaded.embed([text]);
+        return embeddings[0] || null;
+      } catch {
+        return null;
+      }
+    }
+
     try {
       // Try to load the provider plugin dynamically
       const providerDir = path.join(__dirname, '..', this.embeddingProvider);
       const manifest = require(path.join(providerDir, 'manifest.json'));
       const PluginClass = require(path.join(providerDir, 'index.ts')).default;
       const provider = new PluginClass(manifest);
-      await provider.initialize({});
+      await provider.initialize(this.getProviderConfig());
 
       if (provider.embed) {
         const embeddings = await provider.embed([text]);
@@ -299,6 +311,17 @@ class SqliteVecMemoryPlugin implements MemoryPlugin {
     return null;
   }
 
+  private getProviderConfig(): Record<string, any> {
+    try {
+      const row = this.db?.prepare(
+        'SELECT config FROM plugin_configs WHERE plugin_name = ?'
+      ).get(this.embeddingProvider) as { config: string } | undefined;
+      return row ? JSON.parse(row.config) : {};
+    } catch {
+      return {};
+    }
+  }
+
   /**
    * Index all existing skills/workflows on first load.
    */
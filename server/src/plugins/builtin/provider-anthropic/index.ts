@@ -1,7 +1,7 @@
 import Anthropic from '@anthropic-ai/sdk';
 import {
   ProviderPlugin, PluginManifest, ModelInfo,
-  CompletionRequest, StreamEvent
+  CompletionRequest, CompletionResult, StreamEvent
 } from '../../types';
 
 class AnthropicProvider implements ProviderPlugin {
@@ -26,6 +26,10 @@ class AnthropicProvider implements ProviderPlugin {
     this.client = null;
   }
 
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
   listModels(): ModelInfo[] {
     return [
       {
@@ -35,6 +39,8 @@ class AnthropicProvider implements ProviderPlugin {
         supportsStreaming: true,
         supportsTools: true,
         contextWindow: 200000,
+        supportsVision: true,
+        supportsStructuredOutput: true,
       },
       {
         id: 'claude-sonnet-4-5-20250929',
@@ -43,6 +49,8 @@ class AnthropicProvider implements ProviderPlugin {
         supportsStreaming: true,
         supportsTools: true,
         contextWindow: 200000,
+        supportsVision: true,
+        supportsStructuredOutput: true,
       },
     ];
   }
@@ -59,6 +67,131 @@ class AnthropicProvider implements ProviderPlugin {
       return;
     }
 
+    const built = this.buildMessages(request);
+    if ('error' in built) {
+      yield { type: 'error', error: built.error };
+      return;
+    }
+    const messages = built.messages;
+
+    // Build tools if provided
+    const tools: Anthropic.Tool[] | undefined = request.tools?.map(t => ({
+      name: t.name,
+      description: t.description,
+      input_schema: t.parameters as Anthropic.Tool.InputSchema,
+    }));
+
+    try {
+      const stream = this.client.messages.stream({
+        model: request.model,
+        max_tokens: request.maxTokens ?? 4096,
+        ...(request.temperature != null ? { temperature: request.temperature } : {}),
+        ...(request.systemPrompt ? { system: request.systemPrompt } : {}),
+        messages,
+        ...(tools && tools.length > 0 ? { tools } : {}),
+      });
+
+      for await (const event of stream) {
+        if (event.type === 'content_block_delta') {
+          const delta = event.delta as any;
+          if (delta.type === 'text_delta') {
+            yield { type: 'text', text: delta.text };
+          } else if (delta.type === 'input_json_delta') {
+            // Tool call arguments streaming — accumulate, will emit on content_block_stop
+          }
+        } else if (event.type === 'content_block_start') {
+          const block = event.content_block as any;
+          if (block.type === 'tool_use') {
+            // We'll emit the full tool call when the block stops
+          }
+        } else if (event.type === 'content_block_stop') {
+          // Check if the completed block was a tool_use
+          const finalMessage = stream.currentMessage;
+          if (finalMessage) {
+            const block = finalMessage.content[event.index];
+            if (block && block.type === 'tool_use') {
+              yield {
+                type: 'tool_call',
+                toolCall: {
+                  id: block.id,
+                  name: block.name,
+                  args: block.input as Record<string, any>,
+                },
+              };
+            }
+          }
+        } else if (event.type === 'message_stop') {
+          const usage = stream.currentMessage?.usage;
+          yield {
+            type: 'done',
+            ...(usage ? { usage: { promptTokens: usage.input_tokens || 0, completionTokens: usage.output_tokens || 0 } } : {}),
+          };
+        }
+      }
+    } catch (err: any) {
+      yield { type: 'error', error: err.message || 'Anthropic streaming failed' };
+    }
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    if (!this.client) {
+      throw new Error('Anthropic client not initialized (missing API key)');
+    }
+
+    const built = this.buildMessages(request);
+    if ('error' in built) {
+      throw new Error(built.error);
+    }
+
+    const schemaTool = this.buildSchemaTool(request);
+    const response = await this.client.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens ?? 2000,
+      ...(request.temperature != null ? { temperature: request.temperature } : {}),
+      ...(request.systemPrompt ? { system: request.systemPrompt } : {}),
+      messages: built.messages,
+      ...(schemaTool ? { tools: [schemaTool.tool], tool_choice: { type: 'tool' as const, name: schemaTool.tool.name } } : {}),
+    });
+
+    const toolInput = schemaTool
+      ? response.content.find((block) => block.type === 'tool_use')
+      : undefined;
+
+    return {
+      text: toolInput && toolInput.type === 'tool_use'
+        ? JSON.stringify(schemaTool!.wrapped ? (toolInput.input as any)?.value : toolInput.input)
+        : response.content
+          .map((block) => (block.type === 'text' ? block.text : ''))
+          .join(''),
+      usage: {
+        promptTokens: response.usage?.input_tokens || 0,
+        completionTokens: response.usage?.output_tokens || 0,
+      },
+    };
+  }
+
+  /**
+   * Structured output goes through a forced tool call whose input schema is
+   * the response schema. Tool inputs must be objects, so other schemas are
+   * wrapped in a `value` property.
+   */
+  private buildSchemaTool(request: CompletionRequest): { tool: Anthropic.Tool; wrapped: boolean } | null {
+    if (!request.responseSchema) return null;
+    const { schema } = request.responseSchema;
+    const wrapped = schema.type !== 'object';
+    return {
+      tool: {
+        name: request.responseSchema.name.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64) || 'output',
+        description: 'Return the final answer in this structure.',
+        input_schema: (wrapped
+          ? { type: 'object', properties: { value: schema }, required: ['value'] }
+          : schema) as Anthropic.Tool.InputSchema,
+      },
+      wrapped,
+    };
+  }
+
+  private buildMessages(request: CompletionRequest): { messages: Anthropic.MessageParam[] } | { error: string } {
     // Build Anthropic messages.
     // Anthropic does not support a "tool" role directly; tool results must be sent
     // as user content blocks of type "tool_result".
@@ -78,8 +211,7 @@ class AnthropicProvider implements ProviderPlugin {
       if (m.role === 'tool') {
         const toolUseId = m.toolCallId;
         if (!toolUseId) {
-          yield { type: 'error', error: 'Invalid tool message: toolCallId is required for Anthropic tool results.' };
-          return;
+          return { error: 'Invalid tool message: toolCallId is required for Anthropic tool results.' };
         }
         pendingToolResults.push({
           type: 'tool_result',
@@ -98,11 +230,9 @@ class AnthropicProvider implements ProviderPlugin {
             const attachment = m.attachments[i];
             const imageBytes = this.estimateImageBytes(attachment.data);
             if (imageBytes > AnthropicProvider.MAX_IMAGE_BYTES) {
-              yield {
-                type: 'error',
+              return {
                 error: `Image #${i + 1} is too large for Anthropic (${imageBytes} bytes). Please upload an image smaller than 5 MB.`,
               };
-              return;
             }
           }
           const content: Array<Anthropic.TextBlockParam | Anthropic.ImageBlockParam> = [
@@ -143,59 +273,7 @@ class AnthropicProvider implements ProviderPlugin {
 
     flushToolResults();
 
-    // Build tools if provided
-    const tools: Anthropic.Tool[] | undefined = request.tools?.map(t => ({
-      name: t.name,
-      description: t.description,
-      input_schema: t.parameters as Anthropic.Tool.InputSchema,
-    }));
-
-    try {
-      const stream = this.client.messages.stream({
-        model: request.model,
-        max_tokens: request.maxTokens ?? 4096,
-        ...(request.temperature != null ? { temperature: request.temperature } : {}),
-        ...(request.systemPrompt ? { system: request.systemPrompt } : {}),
-        messages,
-        ...(tools && tools.length > 0 ? { tools } : {}),
-      });
-
-      for await (const event of stream) {
-        if (event.type === 'content_block_delta') {
-          const delta = event.delta as any;
-          if (delta.type === 'text_delta') {
-            yield { type: 'text', text: delta.text };
-          } else if (delta.type === 'input_json_delta') {
-            // Tool call arguments streaming — accumulate, will emit on content_block_stop
-          }
-        } else if (event.type === 'content_block_start') {
-          const block = event.content_block as any;
-          if (block.type === 'tool_use') {
-            // We'll emit the full tool call when the block stops
-          }
-        } else if (event.type === 'content_block_stop') {
-          // Check if the completed block was a tool_use
-          const finalMessage = stream.currentMessage;
-          if (finalMessage) {
-            const block = finalMessage.content[event.index];
-            if (block && block.type === 'tool_use') {
-              yield {
-                type: 'tool_call',
-                toolCall: {
-                  id: block.id,
-                  name: block.name,
-                  args: block.input as Record<string, any>,
-                },
-              };
-            }
-          }
-        } else if (event.type === 'message_stop') {
-          yield { type: 'done' };
-        }
-      }
-    } catch (err: any) {
-      yield { type: 'error', error: err.message || 'Anthropic streaming failed' };
-    }
+    return { messages };
   }
 
   private validateToolLoop(request: CompletionRequest): string | null {
@@ -1,7 +1,7 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import {
   ProviderPlugin, PluginManifest, ModelInfo,
-  CompletionRequest, StreamEvent
+  CompletionRequest, CompletionResult, StreamEvent
 } from '../../types';
 
 class GoogleProvider implements ProviderPlugin {
@@ -25,32 +25,31 @@ class GoogleProvider implements ProviderPlugin {
     this.client = null;
   }
 
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
   listModels(): ModelInfo[] {
+    const chat = (id: string, name: string): ModelInfo => ({
+      id,
+      name,
+      provider: 'google',
+      supportsStreaming: true,
+      supportsTools: true,
+      contextWindow: 1000000,
+      supportsVision: true,
+    });
+
     return [
-      
-      {
-        id: 'gemini-3-pro-preview',
-        name: 'Gemini 3 Pro',
-        provider: 'google',
-        supportsStreaming: true,
-        supportsTools: true,
-        contextWindow: 1000000,
-      },
-      {
-        id: 'gemini-3-flash-preview',
-        name: 'Gemini 3 Flash',
-        provider: 'google',
-        supportsStreaming: true,
-        supportsTools: true,
-        contextWindow: 1000000,
-      },
+      chat('gemini-3-pro-preview', 'Gemini 3 Pro'),
+      chat('gemini-3-flash-preview', 'Gemini 3 Flash'),
+      chat('gemini-2.5-pro', 'Gemini 2.5 Pro'),
+      chat('gemini-2.5-flash', 'Gemini 2.5 Flash'),
+      chat('gemini-2.5-flash-lite', 'Gemini 2.5 Flash Lite'),
       {
-        id: 'gemini-3-pro-image-preview',
-        name: 'Nanobanana',
-        provider: 'google',
-        supportsStreaming: true,
+        ...chat('gemini-3-pro-image-preview', 'Gemini 3 Pro Image (Nanobanana)'),
         supportsTools: false,
-        contextWindow: 1000000,
+        supportsImageGeneration: true,
       },
     ];
   }
@@ -168,12 +167,69 @@ class GoogleProvider implements ProviderPlugin {
         };
       }
 
-      yield { type: 'done' };
+      const usage = (finalResponse as any)?.usageMetadata;
+      yield {
+        type: 'done',
+        ...(usage ? { usage: { promptTokens: usage.promptTokenCount || 0, completionTokens: usage.candidatesTokenCount || 0 } } : {}),
+      };
     } catch (err: any) {
       yield { type: 'error', error: err.message || 'Google Gemini streaming failed' };
     }
   }
 
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    if (!this.client) {
+      throw new Error('Google client not initialized (missing API key)');
+    }
+
+    const generatesImages = this.listModels().some((m) => m.id === request.model && m.supportsImageGeneration);
+    const modelOptions: any = {
+      model: request.model,
+      generationConfig: generatesImages
+        ? { temperature: request.temperature ?? 1, maxOutputTokens: request.maxTokens ?? 8192 }
+        : {
+          temperature: request.temperature ?? 0.7,
+          maxOutputTokens: request.maxTokens ?? 2000,
+          topP: request.topP ?? 1,
+        },
+    };
+    if (request.systemPrompt && !generatesImages) {
+      modelOptions.systemInstruction = { parts: [{ text: request.systemPrompt }] };
+    }
+
+    // Gemini requires the conversation to start and end on a user turn
+    const contents = this.buildContents(request.messages, request.model);
+    while (contents.length > 0 && contents[0].role === 'model') {
+      contents.shift();
+    }
+    if (contents.length === 0 || contents[contents.length - 1].role === 'model') {
+      contents.push({ role: 'user', parts: [{ text: 'Continue.' }] });
+    }
+
+    const result = await this.client.getGenerativeModel(modelOptions).generateContent({ contents });
+    const response: any = result.response;
+
+    let text = '';
+    const generatedImages: Array<{ base64: string; mimeType: string }> = [];
+    for (const candidate of response.candidates || []) {
+      for (const part of candidate.content?.parts || []) {
+        if (part.text) text += part.text;
+        if (part.inlineData) {
+          generatedImages.push({ base64: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' });
+        }
+      }
+    }
+
+    return {
+      text: text || (generatedImages.length > 0 ? `Generated ${generatedImages.length} image(s)` : ''),
+      usage: {
+        promptTokens: response.usageMetadata?.promptTokenCount || 0,
+        completionTokens: response.usageMetadata?.candidatesTokenCount || 0,
+      },
+      ...(generatedImages.length > 0 ? { generatedImages } : {}),
+    };
+  }
+
   private buildContents(
     messages: CompletionRequest['messages'],
     modelId?: string
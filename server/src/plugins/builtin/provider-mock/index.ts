@@ -0,0 +1,196 @@
+import {
+  ProviderPlugin, PluginManifest, ModelInfo,
+  CompletionRequest, CompletionResult, StreamEvent
+} from '../../types';
+
+// 1x1 pink pixel standing in for a generated product image
+const MOCK_IMAGE_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==';
+
+const MOCK_RESPONSES: Record<string, string> = {
+  research: `## Product Research Results
+
+### Product Category
+Consumer Electronics > Smart Home Devices
+
+### Key Features
+- Voice-controlled operation
+- Energy-efficient design
+- Easy installation
+- Mobile app integration
+
+### Target Audience
+- Tech-savvy homeowners aged 25-45
+- Environmentally conscious consumers
+- Busy professionals seeking convenience
+
+### Competitor Analysis
+1. **Competitor A** - Market leader with premium pricing
+2. **Competitor B** - Budget-friendly option with limited features
+3. **Competitor C** - Mid-range with strong brand recognition
+
+### Price Range
+$49.99 - $149.99 depending on features and bundle options`,
+
+  listing: `## Amazon Product Listing
+
+### Title
+Premium Smart Home Device - Voice Controlled, Energy Efficient, Easy Setup | Works with Alexa & Google Home
+
+### Bullet Points
+• VOICE CONTROL - Simply speak to control your device hands-free
+• ENERGY EFFICIENT - Save up to 30% on energy costs with smart scheduling
+• EASY INSTALLATION - Set up in minutes with no tools required
+• APP CONTROL - Monitor and control from anywhere using our free mobile app
+• COMPATIBLE - Works seamlessly with Alexa, Google Home, and Apple HomeKit
+
+### Description
+Transform your home into a smart home with our premium device. Featuring advanced voice control technology and energy-efficient design, this device makes everyday tasks simpler and more convenient.`,
+
+  image_analysis: `## Image Analysis Results
+
+### Visual Elements
+- Clean, modern design with minimalist aesthetics
+- Primary colors: white, blue, and silver
+- Professional product photography with soft lighting
+
+### Style Characteristics
+- Contemporary and sleek appearance
+- High-end premium feel
+- Emphasis on simplicity and functionality
+
+### Recommendations
+Based on the visual style:
+1. Use similar lighting in future product shots
+2. Maintain the minimalist color palette
+3. Focus on the product's clean lines and modern design`,
+
+  default: `## AI Generated Content
+
+This is a mock response generated for testing purposes.
+
+### Key Points
+- Point 1: This is automatically generated content
+- Point 2: Replace with actual AI integration for production
+- Point 3: Useful for UI testing and development
+
+### Summary
+The mock AI service simulates the behavior of real AI providers, allowing for development and testing without incurring API costs.`,
+};
+
+// Placeholder value that satisfies a (simple) JSON Schema
+function sampleFromSchema(schema: any): any {
+  if (!schema || typeof schema !== 'object') return null;
+  if ('const' in schema) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+  const alternatives = schema.anyOf || schema.oneOf;
+  if (Array.isArray(alternatives) && alternatives.length > 0) return sampleFromSchema(alternatives[0]);
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'object': {
+      const result: Record<string, any> = {};
+      for (const [key, child] of Object.entries(schema.properties || {})) {
+        result[key] = sampleFromSchema(child);
+      }
+      return result;
+    }
+    case 'array':
+      return Array.from({ length: Math.max(1, schema.minItems || 0) }, () => sampleFromSchema(schema.items));
+    case 'integer':
+    case 'number':
+      return typeof schema.minimum === 'number' ? schema.minimum : 0;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    case 'string':
+      return 'mock'.padEnd(schema.minLength || 0, '.');
+    default:
+      return schema.properties ? sampleFromSchema({ ...schema, type: 'object' }) : null;
+  }
+}
+
+class MockProvider implements ProviderPlugin {
+  manifest: PluginManifest;
+
+  constructor(manifest: PluginManifest) {
+    this.manifest = manifest;
+  }
+
+  async initialize(): Promise<void> {}
+
+  async shutdown(): Promise<void> {}
+
+  listModels(): ModelInfo[] {
+    return [
+      {
+        id: 'mock',
+        name: 'Mock (Testing)',
+        provider: 'mock',
+        supportsStreaming: true,
+        supportsTools: false,
+        contextWindow: 8192,
+        supportsVision: true,
+        supportsStructuredOutput: true,
+      },
+      {
+        id: 'mock-imagen',
+        name: 'Mock Image Generation',
+        provider: 'mock',
+        supportsStreaming: false,
+        supportsTools: false,
+        contextWindow: 8192,
+        supportsImageGeneration: true,
+      },
+    ];
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    // Simulate API delay
+    await new Promise(resolve => setTimeout(resolve, 500 + Math.random() * 1000));
+
+    if (request.model === 'mock-imagen') {
+      return {
+        text: 'Generated 1 mock image(s) for testing. In production, this would use Google Imagen to generate real product images.',
+        generatedImages: [{ base64: MOCK_IMAGE_BASE64, mimeType: 'image/png' }],
+      };
+    }
+
+    const lastUser = [...request.messages].reverse().find((m) => m.role === 'user');
+    const prompt = String(lastUser?.content || '').toLowerCase();
+
+    if (request.responseSchema) {
+      const text = JSON.stringify(sampleFromSchema(request.responseSchema.schema), null, 2);
+      return {
+        text,
+        usage: { promptTokens: Math.floor(prompt.length / 4), completionTokens: Math.floor(text.length / 4) },
+      };
+    }
+
+    // Pick a canned response based on prompt content and images
+    let responseKey = 'default';
+    if (lastUser?.attachments?.length) {
+      responseKey = 'image_analysis';
+    } else if (prompt.includes('research')) {
+      responseKey = 'research';
+    } else if (prompt.includes('listing') || prompt.includes('amazon')) {
+      responseKey = 'listing';
+    }
+
+    return {
+      text: MOCK_RESPONSES[responseKey],
+      usage: {
+        promptTokens: Math.floor(prompt.length / 4),
+        completionTokens: Math.floor(MOCK_RESPONSES[responseKey].length / 4),
+      },
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<StreamEvent> {
+    const result = await this.complete(request);
+    yield { type: 'text', text: result.text };
+    yield { type: 'done', usage: result.usage };
+  }
+}
+
+export default MockProvider;
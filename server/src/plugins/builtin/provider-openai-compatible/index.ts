@@ -0,0 +1,149 @@
+/**
+ * provider-openai-compatible — Self-hosted models behind the OpenAI chat-completions API.
+ *
+ * Works with vLLM, Ollama, llama.cpp and LM Studio: point `baseUrl` at the
+ * server's /v1 root and models are discovered from /v1/models at startup.
+ * Requests and streaming are shared with provider-openai.
+ */
+import OpenAI from 'openai';
+import OpenAIProvider from '../provider-openai';
+import {
+  PluginManifest, ModelInfo, CompletionRequest, StreamEvent
+} from '../../types';
+
+type ToolCalling = 'auto' | 'enabled' | 'disabled';
+
+const DISCOVERY_TIMEOUT_MS = 5000;
+
+// Errors servers return when a model or launch config cannot do tool calls
+const TOOLS_UNSUPPORTED_PATTERN =
+  /does not support tools|tool choice requires|tools param requires|tools? (?:are|is) not supported|not support(?:ed)? tools/i;
+
+class OpenAICompatibleProvider extends OpenAIProvider {
+  private baseUrl = '';
+  private toolCalling: ToolCalling = 'auto';
+  private defaultContextWindow = 8192;
+  private models: ModelInfo[] = [];
+
+  constructor(manifest: PluginManifest) {
+    super(manifest);
+    this.embeddingModel = '';
+    this.missingClientError = 'OpenAI-compatible client not initialized (missing base URL)';
+  }
+
+  async initialize(config: Record<string, any>): Promise<void> {
+    this.baseUrl = String(config.baseUrl || process.env.OPENAI_COMPATIBLE_BASE_URL || '').replace(/\/+$/, '');
+    if (!this.baseUrl) {
+      console.warn('[provider-openai-compatible] No base URL configured, plugin will not be functional');
+      return;
+    }
+
+    this.embeddingModel = String(config.embeddingModel || '');
+    this.toolCalling = ['enabled', 'disabled'].includes(config.toolCalling) ? config.toolCalling : 'auto';
+    this.defaultContextWindow = Number(config.contextWindow) || 8192;
+    this.client = new OpenAI({
+      baseURL: this.baseUrl,
+      // Most local servers ignore the key, but the SDK requires one
+      apiKey: config.apiKey || process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+    });
+
+    const configured = String(config.models || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean);
+    this.models = configured.length > 0
+      ? configured.map((id) => this.toModelInfo({ id }))
+      : await this.discoverModels();
+  }
+
+  async shutdown(): Promise<void> {
+    await super.shutdown();
+    this.models = [];
+  }
+
+  listModels(): ModelInfo[] {
+    return this.models;
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<StreamEvent> {
+    const model = this.models.find((m) => m.id === request.model);
+    const sendTools = !!request.tools?.length && model?.supportsTools !== false;
+    const first = sendTools ? request : { ...request, tools: undefined };
+
+    let emitted = false;
+    for await (const event of super.stream(first)) {
+      if (event.type === 'error' && !emitted && sendTools && TOOLS_UNSUPPORTED_PATTERN.test(event.error || '')) {
+        // Remember the model cannot call tools and answer this turn without them
+        console.warn(`[provider-openai-compatible] ${request.model} does not support tool calls: ${event.error}`);
+        if (model) model.supportsTools = false;
+        yield* super.stream({ ...request, tools: undefined });
+        return;
+      }
+      emitted = true;
+      yield event;
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.client) {
+      throw new Error(this.missingClientError);
+    }
+    if (!this.embeddingModel) {
+      throw new Error('No embeddingModel configured for provider-openai-compatible');
+    }
+
+    const response = await this.client.embeddings.create({
+      model: this.embeddingModel,
+      input: texts,
+      // The SDK defaults to base64, which Ollama and llama.cpp do not honour
+      encoding_format: 'float',
+    });
+
+    return response.data.map(d => d.embedding);
+  }
+
+  /** Ask the server which models it serves; falls back to none if it is unreachable. */
+  private async discoverModels(): Promise<ModelInfo[]> {
+    if (!this.client) return [];
+    try {
+      const page = await this.client.models.list({ timeout: DISCOVERY_TIMEOUT_MS, maxRetries: 0 });
+      const models = page.data
+        .map((entry) => this.toModelInfo(entry as Record<string, any>))
+        // Embedding-only models cannot chat
+        .filter((m) => m.id !== this.embeddingModel);
+      console.log(`[provider-openai-compatible] Discovered ${models.length} model(s) at ${this.baseUrl}`);
+      return models;
+    } catch (err: any) {
+      console.warn(`[provider-openai-compatible] Model discovery at ${this.baseUrl} failed: ${err.message}`);
+      return [];
+    }
+  }
+
+  private toModelInfo(entry: Record<string, any>): ModelInfo {
+    const id = String(entry.id);
+    return {
+      id,
+      name: id,
+      provider: 'openai-compatible',
+      supportsStreaming: true,
+      supportsTools: this.detectToolSupport(entry),
+      // vLLM reports max_model_len, LM Studio max_context_length, others context_length
+      contextWindow: Number(entry.max_model_len || entry.max_context_length || entry.context_length) || this.defaultContextWindow,
+    };
+  }
+
+  /**
+   * Servers that describe capabilities (LM Studio, newer Ollama) are trusted;
+   * otherwise tools are assumed to work until the server rejects them.
+   */
+  private detectToolSupport(entry: Record<string, any>): boolean {
+    if (this.toolCalling !== 'auto') return this.toolCalling === 'enabled';
+    if (Array.isArray(entry.capabilities)) {
+      return entry.capabilities.some((c: unknown) => c === 'tools' || c === 'tool_use');
+    }
+    if (typeof entry.supports_tools === 'boolean') return entry.supports_tools;
+    return true;
+  }
+}
+
+export default OpenAICompatibleProvider;
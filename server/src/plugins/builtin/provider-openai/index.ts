@@ -1,12 +1,14 @@
 import OpenAI from 'openai';
 import {
   ProviderPlugin, PluginManifest, ModelInfo,
-  CompletionRequest, StreamEvent
+  CompletionRequest, CompletionResult, StreamEvent
 } from '../../types';
 
 class OpenAIProvider implements ProviderPlugin {
   manifest: PluginManifest;
-  private client: OpenAI | null = null;
+  protected client: OpenAI | null = null;
+  protected embeddingModel = 'text-embedding-3-small';
+  protected missingClientError = 'OpenAI client not initialized (missing API key)';
 
   constructor(manifest: PluginManifest) {
     this.manifest = manifest;
@@ -25,6 +27,10 @@ class OpenAIProvider implements ProviderPlugin {
     this.client = null;
   }
 
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
   listModels(): ModelInfo[] {
     return [
       {
@@ -34,6 +40,8 @@ class OpenAIProvider implements ProviderPlugin {
         supportsStreaming: true,
         supportsTools: true,
         contextWindow: 128000,
+        supportsVision: true,
+        supportsStructuredOutput: true,
       },
       {
         id: 'gpt-5',
@@ -42,13 +50,15 @@ class OpenAIProvider implements ProviderPlugin {
         supportsStreaming: true,
         supportsTools: true,
         contextWindow: 8192,
+        supportsVision: true,
+        supportsStructuredOutput: true,
       },
     ];
   }
 
   async *stream(request: CompletionRequest): AsyncIterable<StreamEvent> {
     if (!this.client) {
-      yield { type: 'error', error: 'OpenAI client not initialized (missing API key)' };
+      yield { type: 'error', error: this.missingClientError };
       return;
     }
 
@@ -58,49 +68,7 @@ class OpenAIProvider implements ProviderPlugin {
       return;
     }
 
-    // Build messages
-    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
-
-    if (request.systemPrompt) {
-      messages.push({ role: 'system', content: request.systemPrompt });
-    }
-
-    for (const msg of request.messages) {
-      if (msg.role === 'tool' && msg.toolCallId) {
-        messages.push({
-          role: 'tool',
-          content: msg.content,
-          tool_call_id: msg.toolCallId,
-        });
-      } else if (msg.role === 'assistant' && msg.toolCalls?.length) {
-        messages.push({
-          role: 'assistant',
-          content: msg.content || null,
-          tool_calls: msg.toolCalls.map(tc => ({
-            id: tc.id,
-            type: 'function',
-            function: {
-              name: tc.name,
-              arguments: JSON.stringify(tc.args || {}),
-            },
-          })),
-        } as any);
-      } else if (msg.role === 'user' && msg.attachments?.length) {
-        const contentParts: OpenAI.Chat.ChatCompletionContentPart[] = [
-          { type: 'text', text: msg.content },
-          ...msg.attachments.map(a => ({
-            type: 'image_url' as const,
-            image_url: { url: `data:${a.mimeType};base64,${a.data}` },
-          })),
-        ];
-        messages.push({ role: 'user', content: contentParts });
-      } else {
-        messages.push({
-          role: msg.role as 'user' | 'assistant' | 'system',
-          content: msg.content,
-        });
-      }
-    }
+    const messages = this.buildMessages(request);
 
     // Build tools
     const tools: OpenAI.Chat.ChatCompletionTool[] | undefined = request.tools?.map(t => ({
@@ -119,16 +87,25 @@ class OpenAIProvider implements ProviderPlugin {
         ...this.buildTokenParams(request.model, request.maxTokens ?? 4096),
         ...(request.temperature != null ? { temperature: request.temperature } : {}),
         ...(tools && tools.length > 0 ? { tools } : {}),
+        ...this.buildResponseFormat(request),
         stream: true,
+        // Adds a final chunk with token usage
+        stream_options: { include_usage: true },
       };
       const stream: any = await this.client.chat.completions.create(requestBody as any);
 
       // Track tool calls being assembled across deltas
       const toolCallAccum: Map<number, { id: string; name: string; args: string }> = new Map();
-      let doneEmitted = false;
+      let usage: StreamEvent['usage'];
 
       for await (const chunk of stream) {
-        const choice = chunk.choices[0];
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens || 0,
+            completionTokens: chunk.usage.completion_tokens || 0,
+          };
+        }
+        const choice = chunk.choices?.[0];
         if (!choice) continue;
         const delta = choice.delta || {};
 
@@ -151,8 +128,8 @@ class OpenAIProvider implements ProviderPlugin {
           }
         }
 
-        // Check for finish
-        if (choice.finish_reason) {
+        // Check for finish; the usage chunk may still follow
+        if (choice.finish_reason && toolCallAccum.size > 0) {
           // Emit any accumulated tool calls
           for (const [, tc] of toolCallAccum) {
             let args: Record<string, any> = {};
@@ -169,33 +146,108 @@ class OpenAIProvider implements ProviderPlugin {
               toolCall: { id: tc.id, name: tc.name, args },
             };
           }
-          doneEmitted = true;
-          yield { type: 'done' };
-          break;
+          toolCallAccum.clear();
         }
       }
-      if (!doneEmitted) {
-        yield { type: 'done' };
-      }
+      yield { type: 'done', ...(usage ? { usage } : {}) };
     } catch (err: any) {
       yield { type: 'error', error: err.message || 'OpenAI streaming failed' };
     }
   }
 
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    if (!this.client) {
+      throw new Error(this.missingClientError);
+    }
+
+    const requestBody: any = {
+      model: request.model,
+      messages: this.buildMessages(request),
+      ...this.buildTokenParams(request.model, request.maxTokens ?? 2000),
+      ...this.buildResponseFormat(request),
+    };
+
+    // GPT-5 family currently supports default sampling behavior only.
+    if (this.requiresMaxCompletionTokens(request.model)) {
+      if (request.temperature !== undefined && Number(request.temperature) !== 1) {
+        console.warn(`[provider-openai] Ignoring unsupported temperature=${request.temperature} for model ${request.model}`);
+      }
+    } else {
+      requestBody.temperature = request.temperature ?? 0.7;
+      requestBody.top_p = request.topP ?? 1;
+    }
+
+    const response = await this.client.chat.completions.create(requestBody);
+    return {
+      text: response.choices[0]?.message?.content || '',
+      usage: {
+        promptTokens: response.usage?.prompt_tokens || 0,
+        completionTokens: response.usage?.completion_tokens || 0,
+      },
+    };
+  }
+
+  protected buildMessages(request: CompletionRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+
+    if (request.systemPrompt) {
+      messages.push({ role: 'system', content: request.systemPrompt });
+    }
+
+    for (const msg of request.messages) {
+      if (msg.role === 'tool' && msg.toolCallId) {
+        messages.push({
+          role: 'tool',
+          content: msg.content,
+          tool_call_id: msg.toolCallId,
+        });
+      } else if (msg.role === 'assistant' && msg.toolCalls?.length) {
+        messages.push({
+          role: 'assistant',
+          content: msg.content || null,
+          tool_calls: msg.toolCalls.map(tc => ({
+            id: tc.id,
+            type: 'function',
+            function: {
+              name: tc.name,
+              arguments: JSON.stringify(tc.args || {}),
+            },
+          })),
+        } as any);
+      } else if (msg.role === 'user' && msg.attachments?.length) {
+        const contentParts: OpenAI.Chat.ChatCompletionContentPart[] = [
+          { type: 'text', text: msg.content },
+          ...msg.attachments.map(a => ({
+            type: 'image_url' as const,
+            image_url: { url: `data:${a.mimeType};base64,${a.data}` },
+          })),
+        ];
+        messages.push({ role: 'user', content: contentParts });
+      } else {
+        messages.push({
+          role: msg.role as 'user' | 'assistant' | 'system',
+          content: msg.content,
+        });
+      }
+    }
+
+    return messages;
+  }
+
   async embed(texts: string[]): Promise<number[][]> {
     if (!this.client) {
-      throw new Error('OpenAI client not initialized (missing API key)');
+      throw new Error(this.missingClientError);
     }
 
     const response = await this.client.embeddings.create({
-      model: 'text-embedding-3-small',
+      model: this.embeddingModel,
       input: texts,
     });
 
     return response.data.map(d => d.embedding);
   }
 
-  private validateToolLoop(request: CompletionRequest): string | null {
+  protected validateToolLoop(request: CompletionRequest): string | null {
     const declaredToolCalls = new Set<string>();
 
     for (const msg of request.messages) {
@@ -221,7 +273,23 @@ class OpenAIProvider implements ProviderPlugin {
     return null;
   }
 
-  private buildTokenParams(model: string, maxTokens: number): Record<string, number> {
+  protected buildResponseFormat(request: CompletionRequest): Record<string, any> {
+    if (!request.responseSchema) return {};
+    return {
+      response_format: {
+        type: 'json_schema',
+        json_schema: {
+          // Names are limited to [a-zA-Z0-9_-]{1,64}
+          name: request.responseSchema.name.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64) || 'output',
+          schema: request.responseSchema.schema,
+          // Strict mode rejects schemas without additionalProperties: false everywhere
+          strict: false,
+        },
+      },
+    };
+  }
+
+  protected buildTokenParams(model: string, maxTokens: number): Record<string, number> {
     // GPT-5 class models reject max_tokens and require max_completion_tokens.
     if (this.requiresMaxCompletionTokens(model)) {
       return { max_completion_tokens: maxTokens };
@@ -229,7 +297,7 @@ class OpenAIProvider implements ProviderPlugin {
     return { max_tokens: maxTokens };
   }
 
-  private requiresMaxCompletionTokens(model: string): boolean {
+  protected requiresMaxCompletionTokens(model: string): boolean {
     return /^gpt-5(?:$|[.-])/i.test(String(model || '').trim());
   }
 }
@@ -1,7 +1,7 @@
-import { exec } from 'child_process';
 import {
   ToolPlugin, PluginManifest, ToolDefinition, ToolContext, ToolResult,
 } from '../../types';
+import { runSandboxed } from '../../../services/sandbox';
 
 const DEFAULT_DENIED = ['rm -rf /', 'mkfs', 'dd if=', ':(){', 'fork bomb', 'shutdown', 'reboot', 'halt'];
 
@@ -9,7 +9,8 @@ class BashToolPlugin implements ToolPlugin {
   manifest: PluginManifest;
   private allowedCommands: string[] = [];
   private deniedCommands: string[] = DEFAULT_DENIED;
-  private workingDirectory: string = process.cwd();
+  /** Must be inside the sandbox allow-list; unset runs in a fresh per-run directory */
+  private workingDirectory?: string;
   private timeoutMs: number = 30000;
 
   constructor(manifest: PluginManifest) {
@@ -29,12 +30,12 @@ class BashToolPlugin implements ToolPlugin {
     return [
       {
         name: 'bash:execute',
-        description: 'Execute a shell command and return stdout/stderr. Use for system commands, data processing, or running scripts.',
+        description: 'Execute a shell command in a sandbox and return stdout/stderr. Commands start in an empty temporary directory without network access unless the administrator allows it. Use for data processing or running scripts.',
         parameters: {
           type: 'object',
           properties: {
             command: { type: 'string', description: 'Shell command to execute' },
-            workingDirectory: { type: 'string', description: 'Override working directory' },
+            workingDirectory: { type: 'string', description: 'Working directory (must be on the sandbox allow-list)' },
             timeoutMs: { type: 'number', description: 'Override timeout in ms' },
           },
           required: ['command'],
@@ -62,38 +63,48 @@ class BashToolPlugin implements ToolPlugin {
       }
     }
 
-    const cwd = args.workingDirectory || this.workingDirectory;
-    const timeout = args.timeoutMs || this.timeoutMs;
-
-    return new Promise((resolve) => {
-      exec(command, { cwd, timeout, maxBuffer: 1024 * 1024 }, (error, stdout, stderr) => {
-        if (error) {
-          const output = [
-            stderr ? `stderr: ${stderr.substring(0, 2000)}` : '',
-            stdout ? `stdout: ${stdout.substring(0, 2000)}` : '',
-            `Exit code: ${error.code || 'unknown'}`,
-          ].filter(Boolean).join('\n');
-
-          resolve({
-            success: false,
-            output: output || error.message,
-            metadata: { exitCode: error.code },
-          });
-          return;
-        }
-
-        const output = [
-          stdout ? stdout.substring(0, 4000) : '',
-          stderr ? `(stderr: ${stderr.substring(0, 500)})` : '',
-        ].filter(Boolean).join('\n');
-
-        resolve({
-          success: true,
-          output: output || '(no output)',
-          metadata: { exitCode: 0 },
-        });
-      });
+    const result = await runSandboxed({
+      source: 'bash',
+      command: '/bin/sh',
+      args: ['-c', command],
+      cwd: args.workingDirectory || this.workingDirectory,
+      timeoutMs: args.timeoutMs || this.timeoutMs,
+      auditCommand: command,
+      userId: context.userId,
+      sessionId: context.sessionId,
     });
+    const { stdout, stderr } = result;
+    const metadata = {
+      exitCode: result.exitCode,
+      sandbox: result.isolation,
+      ...(result.warning ? { sandboxWarning: result.warning } : {}),
+    };
+
+    if (result.status === 'denied') {
+      return { success: false, output: `Command denied by sandbox: ${result.error}`, metadata };
+    }
+
+    if (result.status !== 'completed') {
+      const output = [
+        stderr ? `stderr: ${stderr.substring(0, 2000)}` : '',
+        stdout ? `stdout: ${stdout.substring(0, 2000)}` : '',
+        result.error || '',
+        `Exit code: ${result.exitCode ?? 'unknown'}`,
+      ].filter(Boolean).join('\n');
+
+      return { success: false, output, metadata };
+    }
+
+    const output = [
+      stdout ? stdout.substring(0, 4000) : '',
+      stderr ? `(stderr: ${stderr.substring(0, 500)})` : '',
+    ].filter(Boolean).join('\n');
+
+    return {
+      success: true,
+      output: output || '(no output)',
+      metadata,
+    };
   }
 }
 
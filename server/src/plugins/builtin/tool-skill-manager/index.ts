@@ -8,7 +8,7 @@ import Database from 'better-sqlite3';
 import fs from 'fs';
 import os from 'os';
 import path from 'path';
-import { getDatabase, initializeDatabase } from '../../../models/database';
+import { getDatabase, initializeDatabase, workspaceVisibilitySql } from '../../../models/database';
 import { approveStep, startExecution } from '../../../services/workflowEngine';
 import { inferInputsFromNaturalLanguage } from './inputAutofill';
 import {
@@ -69,6 +69,7 @@ class SkillManagerPlugin implements ToolPlugin {
             skillType: { type: 'string', enum: ['skill', 'workflow'] },
             inputs: { type: 'object', description: 'Text input variables (key=variable name, value=text)' },
             imageInputs: { type: 'object', description: 'Image input variables. Map variable name to one index or an array of indices (e.g., {"reference_image": 0, "product_images": [1,2]}). Indices refer to uploaded images in order.' },
+            replayFromStep: { type: 'number', description: 'When re-running after fixing a step, reuse cached outputs for the steps before this step number instead of running them again' },
           },
           required: ['skillId', 'skillType'],
         },
@@ -135,7 +136,7 @@ class SkillManagerPlugin implements ToolPlugin {
     }
 
     switch (toolName) {
-      case 'skill_search': return this.search(args);
+      case 'skill_search': return this.search(args, context);
       case 'skill_execute': return this.executeSkill(args, context);
       case 'skill_test': return this.testSkill(args, context);
       case 'skill_edit': return this.editSkill(args, context);
@@ -145,7 +146,12 @@ class SkillManagerPlugin implements ToolPlugin {
     }
   }
 
-  private async search(args: Record<string, any>): Promise<ToolResult> {
+  // Assets without a workspace predate workspaces and stay visible everywhere
+  private visibleAssetSql(assetType: 'skill' | 'workflow'): string {
+    return `(a.workspace_id IS NULL OR ${workspaceVisibilitySql('a', assetType)})`;
+  }
+
+  private async search(args: Record<string, any>, context: ToolContext): Promise<ToolResult> {
     const { query, type = 'all', limit = 5 } = args;
     const normalizedQuery = String(query || '').trim().toLowerCase();
     const tokens = this.tokenizeQuery(normalizedQuery);
@@ -157,19 +163,19 @@ class SkillManagerPlugin implements ToolPlugin {
     if (type === 'all' || type === 'skill') {
       const skills = this.db!.prepare(`
         SELECT id, name, description, 'skill' as type, status, tags
-        FROM skills WHERE status = 'active'
+        FROM skills a WHERE status = 'active' AND ${this.visibleAssetSql('skill')}
         ORDER BY updated_at DESC
         LIMIT 200
-      `).all() as any[];
+      `).all(context.workspaceId ?? null, context.workspaceId ?? null) as any[];
       candidates.push(...skills);
     }
     if (type === 'all' || type === 'workflow') {
       const workflows = this.db!.prepare(`
         SELECT id, name, description, 'workflow' as type, status, tags
-        FROM workflows WHERE status = 'active'
+        FROM workflows a WHERE status = 'active' AND ${this.visibleAssetSql('workflow')}
         ORDER BY updated_at DESC
         LIMIT 200
-      `).all() as any[];
+      `).all(context.workspaceId ?? null, context.workspaceId ?? null) as any[];
       candidates.push(...workflows);
     }
 
@@ -211,13 +217,15 @@ class SkillManagerPlugin implements ToolPlugin {
   }
 
   private async executeSkill(args: Record<string, any>, context: ToolContext): Promise<ToolResult> {
-    const { skillId, skillType, inputs = {}, imageInputs = {} } = args;
+    const { skillId, skillType, inputs = {}, imageInputs = {}, replayFromStep } = args;
     const parentType: 'skill' | 'workflow' = skillType === 'workflow' ? 'workflow' : 'skill';
     const pinnedSelection = this.getPinnedTaskSelection(context.sessionId);
 
-    // Verify the skill exists
+    // Verify the skill exists and is visible in the session's workspace
     const table = parentType === 'skill' ? 'skills' : 'workflows';
-    const skill = this.db!.prepare(`SELECT * FROM ${table} WHERE id = ?`).get(skillId) as any;
+    const skill = this.db!.prepare(
+      `SELECT * FROM ${table} a WHERE a.id = ? AND ${this.visibleAssetSql(parentType)}`
+    ).get(skillId, context.workspaceId ?? null, context.workspaceId ?? null) as any;
     if (!skill) {
       return { success: false, output: `${parentType} #${skillId} not found` };
     }
@@ -362,7 +370,8 @@ class SkillManagerPlugin implements ToolPlugin {
 
     const { recipeId } = this.ensureExecutionRecipe(skill, parentType, steps);
 
-    const startResult = await startExecution(recipeId, context.userId, resolvedInputs);
+    const replay = Number.isInteger(replayFromStep) && replayFromStep > 1 ? { replayFromStep } : {};
+    const startResult = await startExecution(recipeId, context.userId, resolvedInputs, undefined, replay);
     if (!startResult.success || !startResult.executionId) {
       return {
         success: false,
@@ -1382,12 +1391,12 @@ class SkillManagerPlugin implements ToolPlugin {
     if (existingRecipe) {
       recipeId = skill.id;
       this.db!.prepare(
-        'UPDATE recipes SET name = ?, description = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'
-      ).run(skill.name, skill.description || null, recipeId);
+        'UPDATE recipes SET name = ?, description = ?, workspace_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'
+      ).run(skill.name, skill.description || null, skill.workspace_id ?? null, recipeId);
     } else {
       const created = this.db!.prepare(
-        'INSERT INTO recipes (name, description, created_by, is_template) VALUES (?, ?, ?, ?)'
-      ).run(skill.name, skill.description || null, skill.created_by || null, skillType === 'skill' ? 1 : 0);
+        'INSERT INTO recipes (name, description, created_by, is_template, workspace_id) VALUES (?, ?, ?, ?, ?)'
+      ).run(skill.name, skill.description || null, skill.created_by || null, skillType === 'skill' ? 1 : 0, skill.workspace_id ?? null);
       recipeId = Number(created.lastInsertRowid);
     }
 
@@ -1,12 +1,20 @@
 import fs from 'fs';
 import path from 'path';
+import type Database from 'better-sqlite3';
 import { PluginManifest } from './types';
 import { pluginRegistry } from './registry';
 
 const BUILTIN_DIR = path.join(__dirname, 'builtin');
 const COMMUNITY_DIR = path.join(__dirname, 'community');
 
-export async function loadAllPlugins(): Promise<void> {
+interface LoadOptions {
+  /** Only load plugins of these types */
+  types?: Array<PluginManifest['type']>;
+  /** Connection for plugin_configs; defaults to the shared database */
+  db?: Database.Database;
+}
+
+export async function loadAllPlugins(options: LoadOptions = {}): Promise<void> {
   console.log('[PluginLoader] Loading plugins...');
 
   for (const dir of [BUILTIN_DIR, COMMUNITY_DIR]) {
@@ -20,7 +28,7 @@ export async function loadAllPlugins(): Promise<void> {
       if (!entry.isDirectory()) continue;
       const pluginPath = path.join(dir, entry.name);
       try {
-        await loadPlugin(pluginPath);
+        await loadPlugin(pluginPath, options);
       } catch (err) {
         console.error(`[PluginLoader] Failed to load plugin at ${pluginPath}:`, err);
       }
@@ -30,7 +38,16 @@ export async function loadAllPlugins(): Promise<void> {
   console.log('[PluginLoader] All plugins loaded.');
 }
 
-async function loadPlugin(pluginPath: string): Promise<void> {
+/**
+ * Load builtin and community provider plugins into this process's registry.
+ * Agent child processes have no access to the gateway's registry, so they
+ * load providers themselves to share the same model catalog.
+ */
+export async function loadProviderPlugins(db: Database.Database): Promise<void> {
+  await loadAllPlugins({ types: ['provider'], db });
+}
+
+async function loadPlugin(pluginPath: string, options: LoadOptions): Promise<void> {
   const manifestPath = resolveManifestPath(pluginPath);
   if (!manifestPath) {
     console.warn(`[PluginLoader] No manifest.json in ${pluginPath}, skipping`);
@@ -41,12 +58,15 @@ async function loadPlugin(pluginPath: string): Promise<void> {
     fs.readFileSync(manifestPath, 'utf-8')
   );
 
+  if (options.types && !options.types.includes(manifest.type)) return;
+  if (pluginRegistry.getAllManifests().has(manifest.name)) return;
+
   // Check if plugin is enabled in DB (default: enabled)
   // Import lazily to avoid circular dependency issues at module load time
   const { getDatabase } = require('../models/database');
   let dbConfig: any = null;
   try {
-    const db = getDatabase();
+    const db = options.db || getDatabase();
     dbConfig = db.prepare(
       'SELECT enabled, config FROM plugin_configs WHERE plugin_name = ?'
     ).get(manifest.name);
@@ -1,6 +1,6 @@
 import {
   Plugin, PluginManifest,
-  ChannelPlugin, ToolPlugin, MemoryPlugin, ProviderPlugin
+  ChannelPlugin, ToolPlugin, MemoryPlugin, ProviderPlugin, ExtractionPlugin
 } from './types';
 
 class PluginRegistry {
@@ -8,6 +8,7 @@ class PluginRegistry {
   private tools = new Map<string, ToolPlugin>();
   private memory = new Map<string, MemoryPlugin>();
   private providers = new Map<string, ProviderPlugin>();
+  private extractors = new Map<string, ExtractionPlugin>();
   private manifests = new Map<string, PluginManifest>();
 
   register(type: string, name: string, plugin: Plugin): void {
@@ -25,6 +26,9 @@ class PluginRegistry {
       case 'provider':
         this.providers.set(name, plugin as ProviderPlugin);
         break;
+      case 'extraction':
+        this.extractors.set(name, plugin as ExtractionPlugin);
+        break;
       default:
         throw new Error(`Unknown plugin type: ${type}`);
     }
@@ -47,10 +51,15 @@ class PluginRegistry {
     return this.providers.get(name);
   }
 
+  getExtractor(name: string): ExtractionPlugin | undefined {
+    return this.extractors.get(name);
+  }
+
   getAllChannels(): Map<string, ChannelPlugin> { return this.channels; }
   getAllTools(): Map<string, ToolPlugin> { return this.tools; }
   getAllMemory(): Map<string, MemoryPlugin> { return this.memory; }
   getAllProviders(): Map<string, ProviderPlugin> { return this.providers; }
+  getAllExtractors(): Map<string, ExtractionPlugin> { return this.extractors; }
   getAllManifests(): Map<string, PluginManifest> { return this.manifests; }
 
   async shutdownAll(): Promise<void> {
@@ -59,6 +68,7 @@ class PluginRegistry {
       ...this.tools.values(),
       ...this.memory.values(),
       ...this.providers.values(),
+      ...this.extractors.values(),
     ];
     await Promise.allSettled(all.map(p => p.shutdown()));
   }
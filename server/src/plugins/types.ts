@@ -1,4 +1,5 @@
 import { Request, Router } from 'express';
+import type { ExtractionStrategy } from '../services/extractionStrategies';
 
 // ---- Shared Types ----
 
@@ -40,6 +41,8 @@ export interface ToolDefinition {
 export interface ToolContext {
   sessionId: string;
   userId: number;
+  /** Workspace the session acts in; tools only see its skills and workflows */
+  workspaceId?: number | null;
   workingDirectory?: string;
   /** Image attachments from the current conversation, keyed by variable name or indexed */
   attachments?: MessageAttachment[];
@@ -88,6 +91,10 @@ export interface ModelInfo {
   supportsStreaming: boolean;
   supportsTools: boolean;
   contextWindow?: number;
+  supportsVision?: boolean;
+  supportsImageGeneration?: boolean;
+  /** The provider enforces `CompletionRequest.responseSchema` itself */
+  supportsStructuredOutput?: boolean;
 }
 
 export interface MessageAttachment {
@@ -114,6 +121,25 @@ export interface CompletionRequest {
   tools?: ToolDefinition[];
   maxTokens?: number;
   temperature?: number;
+  topP?: number;
+  /** JSON Schema the reply must match; the text of the result is the JSON value */
+  responseSchema?: ResponseSchema;
+}
+
+export interface ResponseSchema {
+  name: string;
+  schema: Record<string, any>;
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionResult {
+  text: string;
+  usage?: CompletionUsage;
+  generatedImages?: Array<{ base64: string; mimeType: string }>;
 }
 
 export interface StreamEvent {
@@ -126,6 +152,8 @@ export interface StreamEvent {
     providerData?: Record<string, any>;
   };
   error?: string;
+  /** Token counts, on 'done' when the provider reports them */
+  usage?: CompletionUsage;
 }
 
 // ---- Plugin Manifest ----
@@ -133,7 +161,7 @@ export interface StreamEvent {
 export interface PluginManifest {
   name: string;
   version: string;
-  type: 'channel' | 'tool' | 'memory' | 'provider';
+  type: 'channel' | 'tool' | 'memory' | 'provider' | 'extraction';
   displayName: string;
   description: string;
   entry: string;
@@ -178,6 +206,21 @@ export interface MemoryPlugin extends Plugin {
 
 export interface ProviderPlugin extends Plugin {
   listModels(): ModelInfo[];
+  /** False when the plugin loaded without usable credentials (default: true) */
+  isConfigured?(): boolean;
   stream(request: CompletionRequest): AsyncIterable<StreamEvent>;
+  /**
+   * Single-shot completion for workflow steps. Throws on failure. Optional:
+   * the model router collects `stream()` text for providers without it.
+   */
+  complete?(request: CompletionRequest): Promise<CompletionResult>;
   embed?(texts: string[]): Promise<number[][]>;
 }
+
+// ---- Extraction Plugin ----
+
+/**
+ * A review-extraction strategy for one platform, run by browser tasks
+ * (`POST /api/browser/tasks` with `platform`). See services/extractionStrategies.
+ */
+export interface ExtractionPlugin extends Plugin, ExtractionStrategy {}
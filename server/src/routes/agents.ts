@@ -1,19 +1,21 @@
 import { Router } from 'express';
-import { authMiddleware } from '../middleware/auth';
+import { authMiddleware, requirePermission } from '../middleware/auth';
 import { getDatabase } from '../models/database';
 
 const router = Router();
 router.use(authMiddleware);
 
-// List agent configs
+// List agent configs: the active workspace's plus global ones (no workspace)
 router.get('/', (req, res) => {
   const db = getDatabase();
-  const configs = db.prepare('SELECT * FROM agent_configs ORDER BY id').all();
+  const configs = db.prepare(
+    'SELECT * FROM agent_configs WHERE workspace_id IS NULL OR workspace_id = ? ORDER BY id'
+  ).all(req.workspaceId);
   res.json(configs);
 });
 
 // Create agent config
-router.post('/', (req, res) => {
+router.post('/', requirePermission('system:configure'), (req, res) => {
   const { name, description, default_model, system_prompt, allowed_tools, allowed_channels, max_turns_per_session } = req.body;
   if (!name || !default_model) {
     res.status(400).json({ error: 'name and default_model are required' });
@@ -22,8 +24,8 @@ router.post('/', (req, res) => {
 
   const db = getDatabase();
   const result = db.prepare(`
-    INSERT INTO agent_configs (name, description, default_model, system_prompt, allowed_tools, allowed_channels, max_turns_per_session)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO agent_configs (name, description, default_model, system_prompt, allowed_tools, allowed_channels, max_turns_per_session, workspace_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
     name,
     description || null,
@@ -31,7 +33,8 @@ router.post('/', (req, res) => {
     system_prompt || null,
     JSON.stringify(allowed_tools || []),
     JSON.stringify(allowed_channels || []),
-    max_turns_per_session || 50
+    max_turns_per_session || 50,
+    req.workspaceId
   );
 
   const created = db.prepare('SELECT * FROM agent_configs WHERE id = ?').get(Number(result.lastInsertRowid));
@@ -50,7 +53,7 @@ router.get('/:id', (req, res) => {
 });
 
 // Update agent config
-router.put('/:id', (req, res) => {
+router.put('/:id', requirePermission('system:configure'), (req, res) => {
   const db = getDatabase();
   const existing = db.prepare('SELECT * FROM agent_configs WHERE id = ?').get(req.params.id) as any;
   if (!existing) {
@@ -81,7 +84,7 @@ router.put('/:id', (req, res) => {
 });
 
 // Delete agent config
-router.delete('/:id', (req, res) => {
+router.delete('/:id', requirePermission('system:configure'), (req, res) => {
   const db = getDatabase();
   const existing = db.prepare('SELECT * FROM agent_configs WHERE id = ?').get(req.params.id);
   if (!existing) {
@@ -1,25 +1,20 @@
 import { Router, Request, Response } from 'express';
 import { authMiddleware } from '../middleware/auth';
 import { callAI, getAllModels, getAvailableModels, isProviderConfigured } from '../services/aiService';
-import { TestAIRequest } from '../types';
+import { pluginRegistry } from '../plugins/registry';
+import { isReviewChangeVariable } from '../services/promptParser';
 
 const router = Router();
 
 // Apply auth middleware to all routes
 router.use(authMiddleware);
 
-// GET /api/ai/models - Get available AI models
+// GET /api/ai/models - The model catalog from provider plugins
 router.get('/models', (req: Request, res: Response) => {
   try {
-    const availableModels = getAvailableModels();
-    const allModels = getAllModels().map(model => ({
-      ...model,
-      available: isProviderConfigured(model.provider),
-    }));
-
     res.json({
-      available: availableModels,
-      all: allModels,
+      available: getAvailableModels(),
+      all: getAllModels(),
     });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -29,14 +24,18 @@ router.get('/models', (req: Request, res: Response) => {
 // GET /api/ai/providers - Get provider status
 router.get('/providers', (req: Request, res: Response) => {
   try {
-    const providers = [
-      { id: 'openai', name: 'OpenAI', configured: isProviderConfigured('openai') },
-      { id: 'anthropic', name: 'Anthropic', configured: isProviderConfigured('anthropic') },
-      { id: 'google', name: 'Google', configured: isProviderConfigured('google') },
-      { id: 'mock', name: 'Mock (Testing)', configured: true },
-    ];
+    const manifests = pluginRegistry.getAllManifests();
+    const providers = new Map<string, { id: string; name: string; configured: boolean }>();
+    for (const model of getAllModels()) {
+      if (providers.has(model.provider)) continue;
+      providers.set(model.provider, {
+        id: model.provider,
+        name: manifests.get(model.plugin)?.displayName || model.provider,
+        configured: isProviderConfigured(model.provider),
+      });
+    }
 
-    res.json(providers);
+    res.json(Array.from(providers.values()));
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
@@ -62,17 +61,18 @@ router.post('/test', async (req: Request, res: Response) => {
 
     // Validate model belongs to provider
     const modelInfo = getAllModels().find(m => m.id === model && m.provider === provider);
-    if (!modelInfo && provider !== 'mock') {
+    if (!modelInfo) {
       res.status(400).json({
         error: `Model ${model} is not available for provider ${provider}`,
       });
       return;
     }
 
-    // Merge images into config if provided
+    // Merge images into config if provided; test calls count against the workspace budget
     const finalConfig = {
       ...(config || {}),
       ...(images && images.length > 0 ? { images } : {}),
+      usage: { userId: req.user!.id, workspaceId: req.workspaceId, source: 'model_test' as const },
     };
 
     const response = await callAI(provider, model, prompt, finalConfig);
@@ -117,7 +117,7 @@ router.post('/validate', (req: Request, res: Response) => {
 
     for (const varName of variables) {
       const stepMatch = varName.match(/^step_(\d+)_output$/);
-      if (stepMatch) {
+      if (stepMatch || isReviewChangeVariable(varName)) {
         stepOutputVars.push(varName);
       } else if (standardNames.some(s =>
         varName.toLowerCase().includes(s.replace(/_/g, '')) ||
@@ -1,5 +1,5 @@
 import { Router, Request, Response } from 'express';
-import { authMiddleware } from '../middleware/auth';
+import { authMiddleware, requirePermission } from '../middleware/auth';
 import { generateWorkflow, saveWorkflowGraph, ConversationMessage, GeneratedWorkflow } from '../services/workflowAssistant';
 
 const router = Router();
@@ -8,7 +8,7 @@ const router = Router();
 router.use(authMiddleware);
 
 // POST /api/assistant/generate - Generate workflow from conversation
-router.post('/generate', async (req: Request, res: Response) => {
+router.post('/generate', requirePermission('assets:write'), async (req: Request, res: Response) => {
   try {
     const { messages, modelId } = req.body as { messages: ConversationMessage[]; modelId?: string };
 
@@ -17,7 +17,7 @@ router.post('/generate', async (req: Request, res: Response) => {
     }
 
     const userId = req.user!.id;
-    const result = await generateWorkflow(messages, userId, modelId);
+    const result = await generateWorkflow(messages, userId, modelId, req.workspaceId);
     res.json(result);
   } catch (error: any) {
     console.error('Assistant generate error:', error);
@@ -28,7 +28,7 @@ router.post('/generate', async (req: Request, res: Response) => {
 });
 
 // POST /api/assistant/save - Save a generated workflow as a workflow or skill
-router.post('/save', async (req: Request, res: Response) => {
+router.post('/save', requirePermission('assets:write'), async (req: Request, res: Response) => {
   try {
     const { workflow, asSkill } = req.body as {
       workflow: GeneratedWorkflow;
@@ -45,7 +45,7 @@ router.post('/save', async (req: Request, res: Response) => {
 
     const userId = req.user!.id;
     const saveAsSkill = !!asSkill;
-    const result = await saveWorkflowGraph(workflow, userId, saveAsSkill);
+    const result = await saveWorkflowGraph(workflow, userId, saveAsSkill, req.workspaceId);
 
     res.json({
       success: true,
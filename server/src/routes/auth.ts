@@ -1,64 +1,68 @@
 import { Router, Request, Response } from 'express';
-import { queries } from '../models/database';
-import { authMiddleware } from '../middleware/auth';
-import { User, UserPublic } from '../types';
+import { queries, seedDefaultAssets } from '../models/database';
+import { authMiddleware, getRequestToken, requirePermission } from '../middleware/auth';
+import {
+  AuthError,
+  authenticate,
+  registerUser,
+  createAuthSession,
+  revokeAuthToken,
+  toUserPublic,
+  listIdentities,
+  createLinkCode,
+  unlinkIdentity,
+  setUserRole,
+} from '../services/authService';
 
 const router = Router();
 
-// POST /api/auth/login - Mock login
+function sendAuthError(res: Response, error: any): void {
+  if (error instanceof AuthError) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+  res.status(500).json({ error: error.message });
+}
+
+// POST /api/auth/login - Verify credentials and issue a session token
 router.post('/login', (req: Request, res: Response) => {
   try {
     const { email, password } = req.body;
+    const user = authenticate(email, password);
+    const { token, expiresAt } = createAuthSession(user.id);
 
-    // For MVP, accept any credentials and return the demo user
-    // In production, implement proper password verification
-    const user = queries.getUserByEmail('demo@novohaven.com') as User | undefined;
-
-    if (!user) {
-      res.status(401).json({ error: 'Invalid credentials' });
-      return;
-    }
-
-    // Return user without sensitive data
-    const userPublic: UserPublic = {
-      id: user.id,
-      email: user.email,
-      created_at: user.created_at,
-    };
-
-    // In production, generate and return a JWT token here
     res.json({
-      user: userPublic,
-      token: 'mock_jwt_token_for_mvp',
-      message: 'Login successful (mock authentication)',
+      user: toUserPublic(user),
+      token,
+      expires_at: expiresAt,
     });
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    sendAuthError(res, error);
   }
 });
 
-// POST /api/auth/register - Mock registration
+// POST /api/auth/register - Create an account and sign it in
 router.post('/register', (req: Request, res: Response) => {
   try {
-    const { email, password } = req.body;
+    const { email, password, bootstrap_token } = req.body;
 
     if (!email || !password) {
       res.status(400).json({ error: 'Email and password are required' });
       return;
     }
 
-    // For MVP, just return success without creating a new user
-    // In production, implement proper user creation
-    res.json({
-      message: 'Registration successful (mock - using demo account)',
-      user: {
-        id: 1,
-        email: 'demo@novohaven.com',
-        created_at: new Date().toISOString(),
-      },
+    const user = registerUser(email, password, bootstrap_token);
+    // New accounts start with the same starter skills and workflows as the demo user
+    seedDefaultAssets(user.id);
+    const { token, expiresAt } = createAuthSession(user.id);
+
+    res.status(201).json({
+      user: toUserPublic(user),
+      token,
+      expires_at: expiresAt,
     });
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    sendAuthError(res, error);
   }
 });
 
@@ -76,17 +80,68 @@ router.get('/me', authMiddleware, (req: Request, res: Response) => {
   }
 });
 
-// POST /api/auth/logout - Logout
+// POST /api/auth/logout - Revoke the current session token
 router.post('/logout', (req: Request, res: Response) => {
   try {
-    // For MVP, just return success
-    // In production, invalidate the JWT token
+    const token = getRequestToken(req);
+    if (token) revokeAuthToken(token);
     res.json({ message: 'Logout successful' });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
+// GET /api/auth/identities - Chat platform accounts linked to the current user
+router.get('/identities', authMiddleware, (req: Request, res: Response) => {
+  try {
+    res.json(listIdentities(req.user!.id));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/auth/identities/link-code - One-time code to send as "/link CODE" from a chat platform
+router.post('/identities/link-code', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { code, expiresAt } = createLinkCode(req.user!.id);
+    res.status(201).json({ code, expires_at: expiresAt });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// DELETE /api/auth/identities/:id - Unlink a chat platform account
+router.delete('/identities/:id', authMiddleware, (req: Request, res: Response) => {
+  try {
+    if (!unlinkIdentity(req.user!.id, Number(req.params.id))) {
+      res.status(404).json({ error: 'Identity not found' });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/auth/users - List accounts and their roles (admin only)
+router.get('/users', authMiddleware, requirePermission('users:manage'), (req: Request, res: Response) => {
+  try {
+    res.json(queries.getAllUsers());
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PUT /api/auth/users/:id/role - Change an account's role (admin only)
+router.put('/users/:id/role', authMiddleware, requirePermission('users:manage'), (req: Request, res: Response) => {
+  try {
+    const user = setUserRole(Number(req.params.id), req.body.role);
+    res.json({ id: user.id, email: user.email, role: user.role, created_at: user.created_at });
+  } catch (error: any) {
+    sendAuthError(res, error);
+  }
+});
+
 // PUT /api/auth/api-keys - Update API keys
 router.put('/api-keys', authMiddleware, (req: Request, res: Response) => {
   try {
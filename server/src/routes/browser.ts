@@ -1,18 +1,25 @@
 import { Router, Request, Response } from 'express';
-import { authMiddleware } from '../middleware/auth';
+import { authMiddleware, requireWorkspaceQuota } from '../middleware/auth';
 import { browserService, BrowserProgressEvent } from '../services/browserService';
 import { getStrategy, getAllStrategies } from '../services/extractionStrategies';
+import { extractAndRecordReviews, ReviewExtraction } from '../services/reviewStore';
 import { logUsage } from '../services/usageTrackingService';
+import { ensurePersonalWorkspace } from '../models/database';
 
 const router = Router();
 
 // Apply auth middleware to all routes
 router.use(authMiddleware);
 
+// GET /api/browser/platforms — Review platforms that tasks can extract from
+router.get('/platforms', (_req: Request, res: Response) => {
+  res.json(getAllStrategies().map(({ platform, displayName }) => ({ platform, displayName })));
+});
+
 // POST /api/browser/tasks — Create + start browser task
-router.post('/tasks', async (req: Request, res: Response) => {
+router.post('/tasks', requireWorkspaceQuota, async (req: Request, res: Response) => {
   try {
-    const { platform, urls, maxReviews } = req.body;
+    const { platform, urls, maxReviews, incremental } = req.body;
     const userId = req.user?.id;
 
     if (!userId) {
@@ -40,12 +47,12 @@ router.post('/tasks', async (req: Request, res: Response) => {
     const taskId = browserService.createTask();
 
     // Log usage
-    logUsage(userId, 'browser', 'create_task', 1, 0, { taskId, platform });
+    logUsage(userId, 'browser', 'create_task', 1, 0, { taskId, platform }, req.workspaceId);
 
     res.json({ taskId, platform });
 
     // Run extraction asynchronously (after response is sent)
-    runExtraction(taskId, platform, urls, userId, maxReviews).catch(err => {
+    runExtraction(taskId, platform, urls, userId, req.workspaceId, maxReviews, incremental !== false).catch(err => {
       console.error(`[Browser] Extraction error for task ${taskId}:`, err.message);
     });
   } catch (error: any) {
@@ -181,21 +188,21 @@ router.get('/tasks/:id/screenshot', async (req: Request, res: Response) => {
   res.json({ screenshot });
 });
 
-// Async extraction runner
+// Async extraction runner; reviews are stored so later runs report what's new
 async function runExtraction(
   taskId: string,
   platform: string,
   urls: string[],
   userId: number,
+  workspaceId: number | undefined,
   maxReviews?: number,
+  incremental = true,
 ): Promise<void> {
   const task = browserService.getTask(taskId);
   if (!task) return;
 
   try {
     const page = await browserService.launchBrowser(taskId);
-    const strategy = getStrategy(platform);
-    if (!strategy) throw new Error(`Strategy not found for platform: ${platform}`);
 
     const onProgress = (message: string) => {
       browserService.emit(task, 'message', {
@@ -204,7 +211,13 @@ async function runExtraction(
       });
     };
 
-    const result = await strategy.execute(page, urls, onProgress);
+    const context = {
+      workspaceId: workspaceId ?? ensurePersonalWorkspace(userId),
+      userId,
+      incremental,
+      maxReviews: Number(maxReviews) || undefined,
+    };
+    let result = await extractAndRecordReviews(page, platform, urls, context, onProgress);
 
     // Check for CAPTCHA after execution
     const hasCaptcha = await browserService.detectCaptcha(taskId);
@@ -212,22 +225,19 @@ async function runExtraction(
       onProgress('Waiting for CAPTCHA to be resolved...');
       await browserService.waitForCaptchaResolution(taskId);
       // Re-run extraction after CAPTCHA resolution
-      const retryResult = await strategy.execute(page, urls, onProgress);
-      task.status = 'completed';
-      browserService.emit(task, 'complete', {
-        output: JSON.stringify(retryResult.data, null, 2),
-        reviewCount: retryResult.reviewCount,
-      });
-    } else {
-      task.status = 'completed';
-      browserService.emit(task, 'complete', {
-        output: JSON.stringify(result.data, null, 2),
-        reviewCount: result.reviewCount,
-      });
+      result = await extractAndRecordReviews(page, platform, urls, context, onProgress);
     }
 
+    task.status = 'completed';
+    browserService.emit(task, 'complete', {
+      output: JSON.stringify(extractionOutput(result), null, 2),
+      reviewCount: result.reviewCount,
+      newReviewCount: result.newReviews.length,
+      updatedReviewCount: result.updatedReviews.length,
+    });
+
     // Log usage
-    logUsage(userId, 'browser', 'extract', 1, result.reviewCount || 0, { taskId, platform });
+    logUsage(userId, 'browser', 'extract', 1, result.reviewCount || 0, { taskId, platform }, workspaceId);
   } catch (error: any) {
     console.error(`[Browser] Task ${taskId} failed:`, error.message);
     const t = browserService.getTask(taskId);
@@ -240,4 +250,9 @@ async function runExtraction(
   }
 }
 
+// A single product is returned as-is, several as an array (as strategies do)
+function extractionOutput(result: ReviewExtraction) {
+  return result.products.length === 1 ? result.products[0] : result.products;
+}
+
 export default router;
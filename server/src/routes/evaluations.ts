@@ -0,0 +1,106 @@
+import { Router, Request, Response } from 'express';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import {
+  EvaluationError,
+  createEvaluation,
+  deleteEvaluation,
+  executeEvaluation,
+  getEvaluationReport,
+  listEvaluations,
+  scoreEvaluationResult,
+  startEvaluation,
+} from '../services/evaluations';
+
+const router = Router();
+router.use(authMiddleware);
+
+function sendError(res: Response, error: any) {
+  if (error instanceof EvaluationError) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+  res.status(500).json({ error: error.message });
+}
+
+// GET /api/evaluations — evaluations in the current workspace
+router.get('/', (req: Request, res: Response) => {
+  try {
+    res.json(listEvaluations(req.workspaceId!));
+  } catch (error: any) {
+    sendError(res, error);
+  }
+});
+
+// POST /api/evaluations — set up a comparison of variants over a dataset
+router.post('/', requirePermission('assets:run_draft'), (req: Request, res: Response) => {
+  try {
+    res.status(201).json(createEvaluation(req.body, req.user!.id, req.workspaceId!));
+  } catch (error: any) {
+    sendError(res, error);
+  }
+});
+
+// GET /api/evaluations/:id — the comparison grid with per-variant totals
+router.get('/:id', (req: Request, res: Response) => {
+  try {
+    const report = getEvaluationReport(Number(req.params.id), req.workspaceId!);
+    if (!report) {
+      res.status(404).json({ error: 'Evaluation not found' });
+      return;
+    }
+    res.json(report);
+  } catch (error: any) {
+    sendError(res, error);
+  }
+});
+
+// POST /api/evaluations/:id/run — run (or re-run) every cell of the grid
+router.post('/:id/run', requirePermission('assets:run_draft'), (req: Request, res: Response) => {
+  try {
+    const id = Number(req.params.id);
+    if (!getEvaluationReport(id, req.workspaceId!)) {
+      res.status(404).json({ error: 'Evaluation not found' });
+      return;
+    }
+    startEvaluation(id);
+    // Cells run in the background; poll GET /:id for results
+    executeEvaluation(id).catch(err => console.error(`[Evaluations] Evaluation ${id} error:`, err));
+    res.status(202).json(getEvaluationReport(id, req.workspaceId!));
+  } catch (error: any) {
+    sendError(res, error);
+  }
+});
+
+// PUT /api/evaluations/:id/results/:resultId/score — a reviewer's 1-5 score for one cell
+router.put('/:id/results/:resultId/score', requirePermission('assets:run'), (req: Request, res: Response) => {
+  try {
+    const id = Number(req.params.id);
+    const result = getEvaluationReport(id, req.workspaceId!)
+      ? scoreEvaluationResult(id, Number(req.params.resultId), req.body.score ?? null, req.user!.id)
+      : null;
+    if (!result) {
+      res.status(404).json({ error: 'Result not found' });
+      return;
+    }
+    res.json(result);
+  } catch (error: any) {
+    sendError(res, error);
+  }
+});
+
+// DELETE /api/evaluations/:id
+router.delete('/:id', requirePermission('assets:run_draft'), (req: Request, res: Response) => {
+  try {
+    const id = Number(req.params.id);
+    if (!getEvaluationReport(id, req.workspaceId!)) {
+      res.status(404).json({ error: 'Evaluation not found' });
+      return;
+    }
+    deleteEvaluation(id);
+    res.json({ success: true });
+  } catch (error: any) {
+    sendError(res, error);
+  }
+});
+
+export default router;
@@ -1,11 +1,24 @@
 import { Router, Request, Response } from 'express';
 import { executionEvents } from '../services/executionEvents';
-import { ExecutionChatMessage } from '../types';
+import { queries } from '../models/database';
+import { authMiddleware, requireOwnership } from '../middleware/auth';
+import { isExecutionReviewer } from '../services/humanReview';
+import { ExecutionChatMessage, WorkflowExecution } from '../types';
 
 const router = Router();
 
+// EventSource cannot set headers, so the client passes its token as ?token=
+router.use(authMiddleware);
+
+// The owner and any reviewer assigned to one of its steps may follow an execution
+const requireExecutionParticipant = requireOwnership((req) => {
+  const execution = queries.getExecutionById(parseInt(req.params.id, 10)) as WorkflowExecution | undefined;
+  if (execution && isExecutionReviewer(execution.id, req.user!.id)) return req.user!.id;
+  return execution?.user_id ?? null;
+});
+
 // GET /api/executions/:id/stream - SSE endpoint for execution chat messages
-router.get('/:id/stream', (req: Request, res: Response) => {
+router.get('/:id/stream', requireExecutionParticipant, (req: Request, res: Response) => {
   const executionId = parseInt(req.params.id, 10);
 
   if (isNaN(executionId)) {
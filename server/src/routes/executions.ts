@@ -1,177 +1,61 @@
 import { Router, Request, Response } from 'express';
-import { queries, getDatabase } from '../models/database';
-import { authMiddleware } from '../middleware/auth';
+import { queries } from '../models/database';
+import { authMiddleware, requireOwnership, requirePermission, requireWorkspaceQuota } from '../middleware/auth';
 import {
   startExecution,
   approveStep,
   rejectStep,
   retryStep,
   getExecutionStatus,
+  getExecutionInputs,
+  validateForkPoint,
 } from '../services/workflowEngine';
+import {
+  ParentType,
+  loadGraphParent,
+  ensureExecutionRecipeFromGraph,
+  parseBridgeMarker,
+} from '../services/executionBridge';
+import { parseStepAttempts } from '../services/stepRetry';
+import { bridgeSkillVersion } from '../services/skillVersions';
+import { diffForkedExecution } from '../services/executionDiff';
+import { canReviewStep, isExecutionReviewer, parseReviewRequest } from '../services/humanReview';
+import { hasPermission } from '../services/permissions';
+import { canReadAsset } from '../services/workspaceService';
 import {
   WorkflowExecution,
   StepExecution,
   Recipe,
   RecipeStep,
+  SkillVersion,
+  User,
 } from '../types';
 
 const router = Router();
 
-type ParentType = 'skill' | 'workflow';
-
-interface GraphParent {
-  id: number;
-  name: string;
-  description?: string | null;
-  created_by?: number | null;
-}
-
-interface SkillStepRow {
-  id: number;
-  parent_id: number;
-  parent_type: ParentType;
-  step_order: number;
-  step_name: string;
-  step_type?: string | null;
-  ai_model?: string | null;
-  prompt_template?: string | null;
-  input_config?: string | null;
-  output_format?: string | null;
-  model_config?: string | null;
-  executor_config?: string | null;
-}
-
-function loadGraphParent(parentType: ParentType, parentId: number): {
-  parent: GraphParent | null;
-  steps: SkillStepRow[];
-} {
-  const db = getDatabase();
-  const table = parentType === 'skill' ? 'skills' : 'workflows';
-  const parent = db.prepare(`SELECT * FROM ${table} WHERE id = ?`).get(parentId) as GraphParent | undefined;
-  if (!parent) return { parent: null, steps: [] };
-  const steps = db.prepare(
-    'SELECT * FROM skill_steps WHERE parent_id = ? AND parent_type = ? ORDER BY step_order'
-  ).all(parentId, parentType) as SkillStepRow[];
-  return { parent, steps };
-}
-
-function ensureExecutionRecipeFromGraph(
-  parentType: ParentType,
-  parent: GraphParent,
-  steps: SkillStepRow[]
-): { recipeId: number; syncedSteps: RecipeStep[] } {
-  const db = getDatabase();
-  const bridgeMarker = `[BRIDGE:${parentType}:${parent.id}]`;
-  const existingRecipe = db.prepare('SELECT id FROM recipes WHERE description = ?').get(bridgeMarker) as { id: number } | undefined;
-  let recipeId: number;
-
-  if (existingRecipe) {
-    recipeId = existingRecipe.id;
-    db.prepare(
-      'UPDATE recipes SET name = ?, description = ?, is_template = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'
-    ).run(
-      parent.name,
-      bridgeMarker,
-      parentType === 'skill' ? 1 : 0,
-      recipeId
-    );
-  } else {
-    const created = db.prepare(
-      'INSERT INTO recipes (name, description, created_by, is_template) VALUES (?, ?, ?, ?)'
-    ).run(
-      parent.name,
-      bridgeMarker,
-      parent.created_by || null,
-      parentType === 'skill' ? 1 : 0
-    );
-    recipeId = Number(created.lastInsertRowid);
-  }
-
-  const existingSteps = db.prepare(
-    'SELECT id, step_order FROM recipe_steps WHERE recipe_id = ? ORDER BY step_order'
-  ).all(recipeId) as Array<{ id: number; step_order: number }>;
-  const existingStepIdByOrder = new Map(existingSteps.map((row) => [row.step_order, row.id]));
-  const expectedOrders = new Set<number>();
-  const syncedSteps: RecipeStep[] = [];
-
-  for (const step of steps) {
-    expectedOrders.add(step.step_order);
-    const stepName = step.step_name || `Step ${step.step_order}`;
-    const stepType = step.step_type || 'ai';
-    const outputFormat = (step.output_format as RecipeStep['output_format']) || 'text';
-    const promptTemplate = step.prompt_template || '';
-    const inputConfig = step.input_config || '{}';
-    const modelConfig = step.model_config || '{}';
-    const executorConfig = step.executor_config || '{}';
-    const aiModel = step.ai_model || null;
-
-    const existingStepId = existingStepIdByOrder.get(step.step_order);
-    let recipeStepId: number;
-    if (existingStepId) {
-      db.prepare(`
-        UPDATE recipe_steps
-        SET step_name = ?, step_type = ?, ai_model = ?, prompt_template = ?, input_config = ?, output_format = ?, model_config = ?, executor_config = ?
-        WHERE id = ?
-      `).run(
-        stepName,
-        stepType,
-        aiModel,
-        promptTemplate,
-        inputConfig,
-        outputFormat,
-        modelConfig,
-        executorConfig,
-        existingStepId
-      );
-      recipeStepId = existingStepId;
-    } else {
-      const inserted = db.prepare(`
-        INSERT INTO recipe_steps (recipe_id, step_order, step_name, step_type, ai_model, prompt_template, input_config, output_format, model_config, api_config, executor_config)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `).run(
-        recipeId,
-        step.step_order,
-        stepName,
-        stepType,
-        aiModel,
-        promptTemplate,
-        inputConfig,
-        outputFormat,
-        modelConfig,
-        null,
-        executorConfig
-      );
-      recipeStepId = Number(inserted.lastInsertRowid);
-    }
-
-    syncedSteps.push({
-      id: recipeStepId,
-      recipe_id: recipeId,
-      step_order: step.step_order,
-      step_name: stepName,
-      step_type: stepType,
-      ai_model: aiModel || '',
-      prompt_template: promptTemplate,
-      input_config: inputConfig,
-      output_format: outputFormat,
-      model_config: modelConfig,
-      executor_config: executorConfig,
-      created_at: new Date().toISOString(),
-    });
-  }
-
-  for (const oldStep of existingSteps) {
-    if (!expectedOrders.has(oldStep.step_order)) {
-      db.prepare('DELETE FROM recipe_steps WHERE id = ?').run(oldStep.id);
-    }
-  }
-
-  return { recipeId, syncedSteps };
+// undefined when absent, null when not a positive integer
+function parseReplayFromStep(value: unknown): number | undefined | null {
+  if (value === undefined || value === null || value === '') return undefined;
+  const step = Number(value);
+  return Number.isInteger(step) && step >= 1 ? step : null;
 }
 
 // Apply auth middleware to all routes
 router.use(authMiddleware);
 
+// Executions are visible only to the user who started them
+const requireExecutionOwner = requireOwnership((req) => {
+  const execution = queries.getExecutionById(parseInt(req.params.id, 10)) as WorkflowExecution | undefined;
+  return execution?.user_id ?? null;
+});
+
+// Reviewers assigned to one of its steps may also open an execution and answer the review
+const requireExecutionParticipant = requireOwnership((req) => {
+  const execution = queries.getExecutionById(parseInt(req.params.id, 10)) as WorkflowExecution | undefined;
+  if (execution && isExecutionReviewer(execution.id, req.user!.id)) return req.user!.id;
+  return execution?.user_id ?? null;
+});
+
 // GET /api/executions - List executions
 router.get('/', (req: Request, res: Response) => {
   try {
@@ -181,9 +65,13 @@ router.get('/', (req: Request, res: Response) => {
     // Enrich with recipe names
     const enrichedExecutions = executions.map(exec => {
       const recipe = queries.getRecipeById(exec.recipe_id) as Recipe | undefined;
+      const version = exec.skill_version_id
+        ? queries.getSkillVersionById(exec.skill_version_id) as SkillVersion | undefined
+        : undefined;
       return {
         ...exec,
         recipe_name: recipe?.name || 'Unknown Recipe',
+        skill_version: version?.version ?? null,
       };
     });
 
@@ -193,8 +81,25 @@ router.get('/', (req: Request, res: Response) => {
   }
 });
 
+// GET /api/executions/reviews/assigned - Human steps waiting on the current user
+router.get('/reviews/assigned', (req: Request, res: Response) => {
+  try {
+    const rows = queries.getAssignedStepReviews(req.user!.id) as Array<StepExecution & {
+      step_execution_id: number;
+      recipe_name: string | null;
+      requested_by: string | null;
+    }>;
+    res.json(rows.map(({ output_data, ...row }) => ({
+      ...row,
+      kind: parseReviewRequest({ output_data } as StepExecution)?.kind || 'approval',
+    })));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // GET /api/executions/:id - Get execution status
-router.get('/:id', (req: Request, res: Response) => {
+router.get('/:id', requireExecutionParticipant, (req: Request, res: Response) => {
   try {
     const executionId = parseInt(req.params.id, 10);
     const execution = queries.getExecutionById(executionId) as WorkflowExecution | undefined;
@@ -210,6 +115,7 @@ router.get('/:id', (req: Request, res: Response) => {
     // Parse input data and check for custom steps
     let inputData: Record<string, any> = {};
     let customSteps: RecipeStep[] | undefined;
+    let replayFromStep: number | null = null;
     if (execution.input_data) {
       try {
         const data = JSON.parse(execution.input_data as string);
@@ -217,6 +123,10 @@ router.get('/:id', (req: Request, res: Response) => {
           customSteps = data.__customSteps;
           delete data.__customSteps;
         }
+        if (data.__replayFromStep) {
+          replayFromStep = Number(data.__replayFromStep);
+          delete data.__replayFromStep;
+        }
         inputData = data;
       } catch {
         // Keep as empty object
@@ -244,14 +154,33 @@ router.get('/:id', (req: Request, res: Response) => {
       return {
         ...se,
         step_name: step?.step_name || 'Unknown Step',
+        step_type: step?.step_type || 'ai',
         ai_model: step?.ai_model || se.ai_model_used,
         output: parsedOutput,
+        attempts: parseStepAttempts(se.attempts),
+        assignee_email: se.assigned_to
+          ? (queries.getUserById(se.assigned_to) as User | undefined)?.email
+          : undefined,
+        child_execution_id: step?.step_type === 'skill'
+          ? (queries.getChildExecutionForStep(se.id) as WorkflowExecution | undefined)?.id ?? null
+          : null,
       };
     });
 
+    const parentStep = execution.parent_step_execution_id
+      ? queries.getStepExecutionById(execution.parent_step_execution_id) as StepExecution | undefined
+      : undefined;
+
+    const version = execution.skill_version_id
+      ? queries.getSkillVersionById(execution.skill_version_id) as SkillVersion | undefined
+      : undefined;
+
     res.json({
       ...execution,
       input_data: inputData,
+      replay_from_step: replayFromStep,
+      parent_step_order: parentStep?.step_order ?? null,
+      skill_version: version?.version ?? null,
       recipe,
       step_executions: enrichedStepExecutions,
       total_steps: steps.length,
@@ -263,7 +192,7 @@ router.get('/:id', (req: Request, res: Response) => {
 
 // POST /api/executions - Start new execution
 // POST /api/executions/quick - Create a quick single-step execution (e.g. Manus shortcut)
-router.post('/quick', async (req: Request, res: Response) => {
+router.post('/quick', requirePermission('assets:run_draft'), requireWorkspaceQuota, async (req: Request, res: Response) => {
   try {
     const userId = req.user!.id;
     const { step_type, prompt, input_data } = req.body;
@@ -311,7 +240,7 @@ router.post('/quick', async (req: Request, res: Response) => {
 });
 
 // POST /api/executions - Start execution from a recipe, skill, or workflow
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requirePermission('assets:run'), requireWorkspaceQuota, async (req: Request, res: Response) => {
   try {
     const userId = req.user!.id;
     const {
@@ -320,8 +249,15 @@ router.post('/', async (req: Request, res: Response) => {
       skill_id,
       input_data,
       steps: customSteps,
+      replay_from_step,
     } = req.body;
 
+    const replayFromStep = parseReplayFromStep(replay_from_step);
+    if (replayFromStep === null) {
+      res.status(400).json({ error: 'replay_from_step must be a positive integer' });
+      return;
+    }
+
     const idCount = [recipe_id, workflow_id, skill_id].filter((v) => v !== undefined && v !== null).length;
     if (idCount !== 1) {
       res.status(400).json({ error: 'Exactly one of recipe_id, workflow_id, or skill_id is required' });
@@ -339,6 +275,19 @@ router.post('/', async (req: Request, res: Response) => {
         res.status(404).json({ error: `${parentType === 'workflow' ? 'Workflow' : 'Skill'} not found` });
         return;
       }
+      if (!canReadAsset(parentType, parentId, userId, req.workspaceId!)) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+      // Operators may only run published assets exactly as built
+      if (!hasPermission(req.user, 'assets:run_draft') && (parent.status !== 'active' || resolvedCustomSteps)) {
+        res.status(403).json({
+          error: resolvedCustomSteps
+            ? 'Insufficient permissions to change steps before running'
+            : `Only active ${parentType}s can be run`,
+        });
+        return;
+      }
       if (steps.length === 0 && !resolvedCustomSteps) {
         res.status(400).json({ error: `${parentType === 'workflow' ? 'Workflow' : 'Skill'} has no steps` });
         return;
@@ -368,9 +317,86 @@ router.post('/', async (req: Request, res: Response) => {
         res.status(404).json({ error: 'Recipe not found' });
         return;
       }
+      if (recipe.created_by != null && recipe.created_by !== userId) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+    }
+
+    const result = await startExecution(resolvedRecipeId, userId, input_data || {}, resolvedCustomSteps, {
+      replayFromStep,
+      recordVersion: !customSteps,
+    });
+
+    if (!result.success && result.executionId === 0) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    res.status(201).json(result);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// What a new run based on `execution` runs: the same inputs and steps.
+// Bridged skills/workflows re-run their current definition, so edits to later steps take effect,
+// unless the run was pinned to a version.
+function resolveRerunTarget(execution: WorkflowExecution): {
+  userInputs: Record<string, any>;
+  recipeId: number;
+  steps: RecipeStep[] | undefined;
+  stepCount: number;
+} {
+  const { userInputs, customSteps } = getExecutionInputs(execution);
+  let recipeId = execution.recipe_id;
+  let steps = customSteps;
+
+  const recipe = queries.getRecipeById(execution.recipe_id) as Recipe | undefined;
+  const parentRef = parseBridgeMarker(recipe?.description);
+  const pinned = parentRef?.version
+    ? bridgeSkillVersion(parentRef.parentType, parentRef.parentId, parentRef.version)
+    : null;
+  if (pinned) {
+    recipeId = pinned.recipeId;
+    steps = pinned.syncedSteps;
+  } else if (parentRef) {
+    const { parent, steps: graphSteps } = loadGraphParent(parentRef.parentType, parentRef.parentId);
+    if (parent && graphSteps.length > 0) {
+      const bridged = ensureExecutionRecipeFromGraph(parentRef.parentType, parent, graphSteps);
+      recipeId = bridged.recipeId;
+      steps = bridged.syncedSteps;
+    }
+  }
+  const stepCount = steps?.length || (queries.getStepsByRecipeId(recipeId) as RecipeStep[]).length;
+  return { userInputs, recipeId, steps, stepCount };
+}
+
+// POST /api/executions/:id/rerun - Start a new run with the same inputs, reusing
+// cached results for the steps before from_step (default: the first unfinished step)
+router.post('/:id/rerun', requirePermission('assets:run'), requireExecutionOwner, requireWorkspaceQuota, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const executionId = parseInt(req.params.id, 10);
+    const execution = queries.getExecutionById(executionId) as WorkflowExecution | undefined;
+    if (!execution) {
+      res.status(404).json({ error: 'Execution not found' });
+      return;
     }
 
-    const result = await startExecution(resolvedRecipeId, userId, input_data || {}, resolvedCustomSteps);
+    const { userInputs, recipeId, steps, stepCount } = resolveRerunTarget(execution);
+
+    let fromStep = parseReplayFromStep(req.body.from_step);
+    if (fromStep === null || (fromStep !== undefined && fromStep > stepCount)) {
+      res.status(400).json({ error: `from_step must be between 1 and ${stepCount}` });
+      return;
+    }
+    if (fromStep === undefined) {
+      const stepExecutions = queries.getStepExecutionsByExecutionId(executionId) as StepExecution[];
+      fromStep = stepExecutions.find(se => se.status !== 'completed' && se.status !== 'skipped')?.step_order ?? 1;
+    }
+
+    const result = await startExecution(recipeId, userId, userInputs, steps, { replayFromStep: fromStep });
 
     if (!result.success && result.executionId === 0) {
       res.status(400).json({ error: result.error });
@@ -383,12 +409,87 @@ router.post('/', async (req: Request, res: Response) => {
   }
 });
 
+// POST /api/executions/:id/fork - Start a new run linked to this one that copies its
+// results up to step_order, optionally replacing that step's output with content,
+// and re-runs the steps after it
+router.post('/:id/fork', requirePermission('assets:run'), requireExecutionOwner, requireWorkspaceQuota, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const executionId = parseInt(req.params.id, 10);
+    const execution = queries.getExecutionById(executionId) as WorkflowExecution | undefined;
+    if (!execution) {
+      res.status(404).json({ error: 'Execution not found' });
+      return;
+    }
+    if (execution.status === 'running' || execution.status === 'pending') {
+      res.status(409).json({ error: 'Execution is still running' });
+      return;
+    }
+
+    const { userInputs, recipeId, steps, stepCount } = resolveRerunTarget(execution);
+    const stepOrder = parseReplayFromStep(req.body.step_order);
+    if (!stepOrder || stepOrder > stepCount) {
+      res.status(400).json({ error: `step_order must be between 1 and ${stepCount}` });
+      return;
+    }
+    const { content } = req.body;
+    if (content !== undefined && typeof content !== 'string') {
+      res.status(400).json({ error: 'content must be a string' });
+      return;
+    }
+    const forkError = validateForkPoint(executionId, stepOrder);
+    if (forkError) {
+      res.status(400).json({ error: forkError });
+      return;
+    }
+
+    const result = await startExecution(recipeId, userId, userInputs, steps, {
+      fork: { executionId, stepOrder, content },
+    });
+
+    if (!result.success && result.executionId === 0) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    res.status(201).json(result);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/executions/:id/diff - Step outputs of a fork compared with its original
+router.get('/:id/diff', requireExecutionOwner, (req: Request, res: Response) => {
+  try {
+    const execution = queries.getExecutionById(parseInt(req.params.id, 10)) as WorkflowExecution | undefined;
+    if (!execution) {
+      res.status(404).json({ error: 'Execution not found' });
+      return;
+    }
+    if (!execution.forked_from_id) {
+      res.status(400).json({ error: 'Execution is not a fork, or its original was deleted' });
+      return;
+    }
+
+    const diff = diffForkedExecution(execution);
+    if (!diff) {
+      res.status(404).json({ error: 'Original execution not found' });
+      return;
+    }
+    res.json(diff);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // POST /api/executions/:id/steps/:stepId/approve - Approve step
-router.post('/:id/steps/:stepId/approve', async (req: Request, res: Response) => {
+// Human steps accept { values, previous_output, comment } from their reviewer
+router.post('/:id/steps/:stepId/approve', requirePermission('assets:run'), requireExecutionParticipant, async (req: Request, res: Response) => {
   try {
     const userId = req.user!.id;
     const executionId = parseInt(req.params.id, 10);
     const stepExecutionId = parseInt(req.params.stepId, 10);
+    const { values, previous_output, comment } = req.body || {};
 
     const execution = queries.getExecutionById(executionId) as WorkflowExecution | undefined;
     if (!execution) {
@@ -396,7 +497,25 @@ router.post('/:id/steps/:stepId/approve', async (req: Request, res: Response) =>
       return;
     }
 
-    const result = await approveStep(executionId, stepExecutionId, userId);
+    const stepExecution = queries.getStepExecutionById(stepExecutionId) as StepExecution | undefined;
+    if (stepExecution && !canReviewStep(userId, execution, stepExecution)) {
+      res.status(403).json({ error: 'This step is assigned to another reviewer' });
+      return;
+    }
+    if (values !== undefined && (typeof values !== 'object' || values === null || Array.isArray(values))) {
+      res.status(400).json({ error: 'values must be an object' });
+      return;
+    }
+    if (previous_output !== undefined && typeof previous_output !== 'string') {
+      res.status(400).json({ error: 'previous_output must be a string' });
+      return;
+    }
+
+    const result = await approveStep(executionId, stepExecutionId, userId, {
+      values,
+      previous_output,
+      comment: typeof comment === 'string' ? comment : undefined,
+    });
     res.json(result);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -404,10 +523,11 @@ router.post('/:id/steps/:stepId/approve', async (req: Request, res: Response) =>
 });
 
 // POST /api/executions/:id/steps/:stepId/reject - Reject step
-router.post('/:id/steps/:stepId/reject', (req: Request, res: Response) => {
+router.post('/:id/steps/:stepId/reject', requirePermission('assets:run'), requireExecutionParticipant, (req: Request, res: Response) => {
   try {
     const executionId = parseInt(req.params.id, 10);
     const stepExecutionId = parseInt(req.params.stepId, 10);
+    const { comment } = req.body || {};
 
     const execution = queries.getExecutionById(executionId) as WorkflowExecution | undefined;
     if (!execution) {
@@ -415,7 +535,13 @@ router.post('/:id/steps/:stepId/reject', (req: Request, res: Response) => {
       return;
     }
 
-    const result = rejectStep(executionId, stepExecutionId);
+    const stepExecution = queries.getStepExecutionById(stepExecutionId) as StepExecution | undefined;
+    if (stepExecution && !canReviewStep(req.user!.id, execution, stepExecution)) {
+      res.status(403).json({ error: 'This step is assigned to another reviewer' });
+      return;
+    }
+
+    const result = rejectStep(executionId, stepExecutionId, typeof comment === 'string' ? comment : undefined);
 
     if (!result.success) {
       res.status(400).json({ error: result.error });
@@ -429,7 +555,7 @@ router.post('/:id/steps/:stepId/reject', (req: Request, res: Response) => {
 });
 
 // POST /api/executions/:id/steps/:stepId/retry - Retry step with modifications
-router.post('/:id/steps/:stepId/retry', async (req: Request, res: Response) => {
+router.post('/:id/steps/:stepId/retry', requirePermission('assets:run'), requireExecutionOwner, async (req: Request, res: Response) => {
   try {
     const userId = req.user!.id;
     const executionId = parseInt(req.params.id, 10);
@@ -457,7 +583,7 @@ router.post('/:id/steps/:stepId/retry', async (req: Request, res: Response) => {
 });
 
 // GET /api/executions/:id/status - Get quick status
-router.get('/:id/status', (req: Request, res: Response) => {
+router.get('/:id/status', requireExecutionOwner, (req: Request, res: Response) => {
   try {
     const executionId = parseInt(req.params.id, 10);
     const status = getExecutionStatus(executionId);
@@ -474,10 +600,9 @@ router.get('/:id/status', (req: Request, res: Response) => {
 });
 
 // POST /api/executions/:id/cancel - Cancel/kill a running execution
-router.post('/:id/cancel', (req: Request, res: Response) => {
+router.post('/:id/cancel', requirePermission('assets:run'), requireExecutionOwner, (req: Request, res: Response) => {
   try {
     const executionId = parseInt(req.params.id, 10);
-    const userId = req.user!.id;
 
     const execution = queries.getExecutionById(executionId) as WorkflowExecution | undefined;
     if (!execution) {
@@ -485,12 +610,6 @@ router.post('/:id/cancel', (req: Request, res: Response) => {
       return;
     }
 
-    // Check ownership
-    if (execution.user_id !== userId) {
-      res.status(403).json({ error: 'Not authorized to cancel this execution' });
-      return;
-    }
-
     // Only allow cancelling running or paused executions
     if (!['running', 'paused', 'pending'].includes(execution.status)) {
       res.status(400).json({ error: `Cannot cancel execution with status: ${execution.status}` });
@@ -517,10 +636,9 @@ router.delete('/', (req: Request, res: Response) => {
 });
 
 // DELETE /api/executions/:id - Delete an execution
-router.delete('/:id', (req: Request, res: Response) => {
+router.delete('/:id', requireExecutionOwner, (req: Request, res: Response) => {
   try {
     const executionId = parseInt(req.params.id, 10);
-    const userId = req.user!.id;
 
     const execution = queries.getExecutionById(executionId) as WorkflowExecution | undefined;
     if (!execution) {
@@ -528,12 +646,6 @@ router.delete('/:id', (req: Request, res: Response) => {
       return;
     }
 
-    // Check ownership
-    if (execution.user_id !== userId) {
-      res.status(403).json({ error: 'Not authorized to delete this execution' });
-      return;
-    }
-
     queries.deleteExecution(executionId);
 
     res.json({ success: true, message: 'Execution deleted' });
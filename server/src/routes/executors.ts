@@ -2,7 +2,7 @@ import { Router } from 'express';
 import { getAllExecutors } from '../executors/registry';
 
 const router = Router();
-const BUSINESS_EXECUTOR_TYPES = new Set(['ai', 'browser']);
+const BUSINESS_EXECUTOR_TYPES = new Set(['ai', 'browser', 'reviews']);
 const HIDDEN_EXECUTOR_TYPES = new Set(['manus']);
 
 // GET /api/executors - List all available step executor types with their config schemas
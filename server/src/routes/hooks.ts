@@ -0,0 +1,98 @@
+import express, { Router, Request, Response } from 'express';
+import { getDatabase } from '../models/database';
+import {
+  verifyWebhookSignature,
+  isReplayedSignature,
+  recordRejectedInvocation,
+  triggerWebhook,
+  waitForExecutionToSettle,
+  finishInvocation,
+  buildWebhookResult,
+  settleInvocation,
+  MAX_SYNC_TIMEOUT_SECONDS,
+} from '../services/webhookTrigger';
+import { WorkspaceError } from '../services/workspaceService';
+import { WorkflowWebhook } from '../types';
+
+// Public endpoints called by external systems. Requests are authenticated by
+// the HMAC signature of the raw body, so this router parses the body itself
+// and must be mounted before the global JSON parser. A signature that already
+// started a run is refused, so captured requests cannot be replayed.
+const router = Router();
+router.use(express.raw({ type: '*/*', limit: '5mb' }));
+
+// POST /api/hooks/:token — trigger the webhook's skill/workflow
+router.post('/:token', async (req: Request, res: Response) => {
+  const webhook = getDatabase().prepare(
+    'SELECT * FROM workflow_webhooks WHERE token = ?'
+  ).get(req.params.token) as WorkflowWebhook | undefined;
+
+  if (!webhook || !webhook.enabled) {
+    res.status(404).json({ error: 'Webhook not found' });
+    return;
+  }
+
+  const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.from('');
+  const bodyText = rawBody.toString('utf8');
+
+  const check = verifyWebhookSignature(webhook.secret, rawBody, req.headers);
+  if (!check.valid) {
+    recordRejectedInvocation(webhook.id, check.error, bodyText);
+    res.status(401).json({ error: check.error });
+    return;
+  }
+  if (isReplayedSignature(webhook.id, check.signature)) {
+    recordRejectedInvocation(webhook.id, 'Request was already delivered', bodyText);
+    res.status(409).json({ error: 'Request was already delivered' });
+    return;
+  }
+
+  let payload: any = {};
+  if (bodyText.trim()) {
+    try {
+      payload = JSON.parse(bodyText);
+    } catch {
+      recordRejectedInvocation(webhook.id, 'Payload is not valid JSON', bodyText);
+      res.status(400).json({ error: 'Payload must be JSON' });
+      return;
+    }
+  }
+
+  let triggered: Awaited<ReturnType<typeof triggerWebhook>>;
+  try {
+    triggered = await triggerWebhook(webhook, payload, check.signature);
+  } catch (error: any) {
+    res.status(error instanceof WorkspaceError ? error.status : 422).json({ error: error.message });
+    return;
+  }
+
+  const { invocation } = triggered;
+  const executionId = invocation.execution_id!;
+
+  if (webhook.response_mode === 'sync') {
+    const timeoutSeconds = Math.min(Math.max(webhook.sync_timeout_seconds || 60, 1), MAX_SYNC_TIMEOUT_SECONDS);
+    const settled = await waitForExecutionToSettle(executionId, {
+      timeoutMs: timeoutSeconds * 1000,
+      autoApprove: !!webhook.auto_approve,
+    });
+    finishInvocation(invocation.id, settled);
+
+    if (settled.status === 'timed_out' || settled.status === 'awaiting_review') {
+      // Still running; record the outcome (and call back, if configured) once it finishes
+      settleInvocation(webhook, invocation).catch(err => console.error('[Webhook] Settling invocation failed:', err));
+      res.status(202).json(buildWebhookResult(webhook, settled));
+      return;
+    }
+    res.status(settled.status === 'completed' ? 200 : 500).json(buildWebhookResult(webhook, settled));
+    return;
+  }
+
+  settleInvocation(webhook, invocation).catch(err => console.error('[Webhook] Settling invocation failed:', err));
+  res.status(202).json({
+    webhook_id: webhook.id,
+    execution_id: executionId,
+    status: 'running',
+  });
+});
+
+export default router;
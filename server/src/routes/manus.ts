@@ -1,5 +1,5 @@
 import { Router, Request, Response } from 'express';
-import { authMiddleware } from '../middleware/auth';
+import { authMiddleware, requireWorkspaceQuota } from '../middleware/auth';
 import {
   isManusConfigured,
   createTask,
@@ -9,6 +9,7 @@ import {
 import { compilePrompt } from '../services/promptParser';
 import { logUsage } from '../services/usageTrackingService';
 import { queries, getDatabase } from '../models/database';
+import { canReadAsset } from '../services/workspaceService';
 
 const router = Router();
 
@@ -19,7 +20,7 @@ const taskPrompts = new Map<string, { prompt: string; userId: number }>();
 router.use(authMiddleware);
 
 // POST /api/manus/tasks — Start a Manus task (returns immediately)
-router.post('/tasks', async (req: Request, res: Response) => {
+router.post('/tasks', requireWorkspaceQuota, async (req: Request, res: Response) => {
   try {
     const { prompt, urls } = req.body;
     const userId = req.user?.id;
@@ -51,7 +52,7 @@ router.post('/tasks', async (req: Request, res: Response) => {
     taskPrompts.set(taskId, { prompt: fullPrompt, userId });
 
     // Log usage
-    logUsage(userId, 'manus', 'chat_task', 1, 0, { taskId });
+    logUsage(userId, 'manus', 'chat_task', 1, 0, { taskId }, req.workspaceId);
 
     // Return immediately — client will connect via SSE to stream messages
     res.json({ taskId });
@@ -62,7 +63,7 @@ router.post('/tasks', async (req: Request, res: Response) => {
 });
 
 // POST /api/manus/tasks/from-skill — Start a task from a saved skill
-router.post('/tasks/from-skill', async (req: Request, res: Response) => {
+router.post('/tasks/from-skill', requireWorkspaceQuota, async (req: Request, res: Response) => {
   try {
     const { skillId, variables } = req.body;
     const userId = req.user?.id;
@@ -89,6 +90,10 @@ router.post('/tasks/from-skill', async (req: Request, res: Response) => {
       res.status(404).json({ error: 'Skill not found' });
       return;
     }
+    if (!canReadAsset('skill', skill.id, userId, req.workspaceId!)) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
 
     const steps = db.prepare(
       "SELECT * FROM skill_steps WHERE parent_id = ? AND parent_type = 'skill' ORDER BY step_order"
@@ -102,6 +107,7 @@ router.post('/tasks/from-skill', async (req: Request, res: Response) => {
     // Compile the prompt with variables and company standards
     const compiled = compilePrompt(step.prompt_template, {
       userId,
+      workspaceId: skill.workspace_id,
       userInputs: variables || {},
       stepExecutions: [],
     });
@@ -115,7 +121,7 @@ router.post('/tasks/from-skill', async (req: Request, res: Response) => {
     taskPrompts.set(taskId, { prompt: compiledPrompt, userId });
 
     // Log usage
-    logUsage(userId, 'manus', 'skill_task', 1, 0, { taskId, skillId });
+    logUsage(userId, 'manus', 'skill_task', 1, 0, { taskId, skillId }, req.workspaceId);
 
     res.json({ taskId, compiledPrompt });
   } catch (error: any) {
@@ -246,7 +252,7 @@ router.get('/tasks/:taskId/stream', async (req: Request, res: Response) => {
         logUsage(userId, 'manus', 'chat_complete', 0, 0, {
           taskId,
           creditsUsed: result.creditsUsed,
-        });
+        }, req.workspaceId);
 
         res.end();
         return;
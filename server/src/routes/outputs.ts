@@ -1,6 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { queries } from '../models/database';
-import { authMiddleware } from '../middleware/auth';
+import { authMiddleware, requireOwnership } from '../middleware/auth';
 import { getDatabase } from '../models/database';
 
 const router = Router();
@@ -8,6 +8,16 @@ const router = Router();
 // Apply auth middleware to all routes
 router.use(authMiddleware);
 
+// An output belongs to whoever owns the execution that produced it
+const requireOutputOwner = requireOwnership((req) => {
+  const row = getDatabase().prepare(`
+    SELECT we.user_id FROM step_executions se
+    JOIN workflow_executions we ON we.id = se.execution_id
+    WHERE se.id = ?
+  `).get(parseInt(req.params.id, 10)) as { user_id: number | null } | undefined;
+  return row?.user_id ?? null;
+});
+
 interface OutputRecord {
   id: number;
   execution_id: number;
@@ -222,7 +232,7 @@ router.get('/', (req: Request, res: Response) => {
 });
 
 // GET /api/outputs/:id - Get a specific output
-router.get('/:id', (req: Request, res: Response) => {
+router.get('/:id', requireOutputOwner, (req: Request, res: Response) => {
   try {
     const outputId = parseInt(req.params.id, 10);
     const output = queries.getStepExecutionById(outputId) as any;
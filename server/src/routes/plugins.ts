@@ -1,7 +1,8 @@
 import { Router } from 'express';
-import { authMiddleware } from '../middleware/auth';
+import { authMiddleware, requirePermission } from '../middleware/auth';
 import { pluginRegistry } from '../plugins/registry';
 import { getDatabase } from '../models/database';
+import { getAllModels } from '../services/aiService';
 
 const router = Router();
 router.use(authMiddleware);
@@ -30,32 +31,13 @@ router.get('/', (req, res) => {
   res.json(plugins);
 });
 
-// List all available models from provider plugins
+// The model catalog from enabled provider plugins (same as GET /api/ai/models `all`)
 router.get('/models', (req, res) => {
-  const providers = pluginRegistry.getAllProviders();
-  const db = getDatabase();
-  const models: Array<{ id: string; name: string; provider: string }> = [];
-
-  for (const [name, provider] of providers) {
-    // Check if plugin is enabled
-    const dbConfig = db.prepare('SELECT enabled FROM plugin_configs WHERE plugin_name = ?').get(name) as any;
-    if (dbConfig && !dbConfig.enabled) continue;
-
-    try {
-      const providerModels = provider.listModels();
-      for (const m of providerModels) {
-        models.push({ id: m.id, name: m.name, provider: m.provider });
-      }
-    } catch {
-      // Skip providers that fail to list models
-    }
-  }
-
-  res.json(models);
+  res.json(getAllModels());
 });
 
 // Update plugin config
-router.put('/:name', (req, res) => {
+router.put('/:name', requirePermission('system:configure'), (req, res) => {
   const { name } = req.params;
   const { enabled, config } = req.body;
   const db = getDatabase();
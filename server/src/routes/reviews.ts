@@ -0,0 +1,146 @@
+import { Router, Request, Response } from 'express';
+import { authMiddleware, requirePermission, requireWorkspaceQuota } from '../middleware/auth';
+import { queries } from '../models/database';
+import {
+  ReviewStoreError,
+  getReviewRunDiff,
+  listReviewRuns,
+  listStoredReviews,
+  toNormalizedReview,
+} from '../services/reviewStore';
+import {
+  ReviewAnalyticsError,
+  ReviewAnalyticsFilters,
+  exportReviewAnalytics,
+  getReviewAnalytics,
+  tagReviews,
+} from '../services/reviewAnalytics';
+
+const router = Router();
+router.use(authMiddleware);
+
+function sendError(res: Response, error: any) {
+  if (error instanceof ReviewStoreError || error instanceof ReviewAnalyticsError) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+  res.status(500).json({ error: error.message });
+}
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+
+// ?product=a&product=b selects several products to compare
+function analyticsFilters(query: Request['query']): ReviewAnalyticsFilters {
+  const products = ([] as unknown[]).concat(query.product ?? []);
+  return {
+    platform: optionalString(query.platform),
+    productKeys: products.filter((value): value is string => typeof value === 'string' && !!value),
+    interval: query.interval === 'week' ? 'week' : 'month',
+  };
+}
+
+// GET /api/reviews — reviews stored in the current workspace, newest first
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const rows = listStoredReviews(req.workspaceId!, {
+      platform: optionalString(req.query.platform),
+      productKey: optionalString(req.query.product),
+      limit: Number(req.query.limit) || undefined,
+      offset: Number(req.query.offset) || undefined,
+    });
+    res.json(rows.map((row) => ({
+      ...toNormalizedReview(row),
+      productKey: row.product_key,
+      productUrl: row.product_url,
+      productName: row.product_name,
+      firstSeenAt: row.first_seen_at,
+      lastSeenAt: row.last_seen_at,
+      changedAt: row.changed_at,
+    })));
+  } catch (error: any) {
+    sendError(res, error);
+  }
+});
+
+// GET /api/reviews/runs — extraction runs with their new/updated counts
+router.get('/runs', (req: Request, res: Response) => {
+  try {
+    res.json(listReviewRuns(req.workspaceId!, {
+      platform: optionalString(req.query.platform),
+      productKey: optionalString(req.query.product),
+      limit: Number(req.query.limit) || undefined,
+    }));
+  } catch (error: any) {
+    sendError(res, error);
+  }
+});
+
+// GET /api/reviews/runs/:id/diff — what a run found that earlier runs hadn't
+router.get('/runs/:id/diff', (req: Request, res: Response) => {
+  try {
+    const diff = getReviewRunDiff(Number(req.params.id), req.workspaceId!);
+    if (!diff) {
+      res.status(404).json({ error: 'Review run not found' });
+      return;
+    }
+    res.json(diff);
+  } catch (error: any) {
+    sendError(res, error);
+  }
+});
+
+// GET /api/reviews/products — products with stored reviews
+router.get('/products', (req: Request, res: Response) => {
+  try {
+    res.json(queries.getReviewProducts(req.workspaceId!).map((row: any) => ({
+      platform: row.platform,
+      productKey: row.product_key,
+      productName: row.product_name,
+      productUrl: row.product_url,
+      reviewCount: row.review_count,
+      averageRating: row.average_rating === null ? null : Math.round(row.average_rating * 100) / 100,
+      lastSeenAt: row.last_seen_at,
+    })));
+  } catch (error: any) {
+    sendError(res, error);
+  }
+});
+
+// GET /api/reviews/analytics — rating/sentiment trends, topic clusters and product comparison
+router.get('/analytics', (req: Request, res: Response) => {
+  try {
+    res.json(getReviewAnalytics(req.workspaceId!, analyticsFilters(req.query)));
+  } catch (error: any) {
+    sendError(res, error);
+  }
+});
+
+// POST /api/reviews/tag — tag untagged reviews with sentiment, motivation and topics
+router.post('/tag', requirePermission('assets:run'), requireWorkspaceQuota, async (req: Request, res: Response) => {
+  try {
+    const { platform, productKeys, model, limit } = req.body || {};
+    res.json(await tagReviews(req.workspaceId!, req.user!.id, {
+      platform: optionalString(platform),
+      productKeys: Array.isArray(productKeys) ? productKeys.filter((key: unknown) => typeof key === 'string') : undefined,
+      model: optionalString(model),
+      limit: Number(limit) || undefined,
+    }));
+  } catch (error: any) {
+    sendError(res, error);
+  }
+});
+
+// GET /api/reviews/export?format=csv|xlsx — the analytics scope as a spreadsheet
+router.get('/export', (req: Request, res: Response) => {
+  try {
+    const format = req.query.format === 'xlsx' ? 'xlsx' : 'csv';
+    const file = exportReviewAnalytics(req.workspaceId!, analyticsFilters(req.query), format);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.body);
+  } catch (error: any) {
+    sendError(res, error);
+  }
+});
+
+export default router;
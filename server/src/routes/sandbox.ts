@@ -0,0 +1,73 @@
+import { Router, Request, Response } from 'express';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { getDatabase } from '../models/database';
+import {
+  DEFAULT_SANDBOX_CONFIG,
+  SandboxConfig,
+  getSandboxConfig,
+  getSandboxRunMode,
+  saveSandboxConfig,
+  isNamespaceIsolationAvailable,
+} from '../services/sandbox';
+import { SandboxAuditEntry } from '../types';
+
+const router = Router();
+router.use(authMiddleware);
+
+const SOURCES = ['script', 'bash'];
+
+// `runMode` says whether runs are isolated, unisolated (an admin allowed it) or refused
+function sandboxStatus(config: SandboxConfig) {
+  return {
+    config,
+    defaults: DEFAULT_SANDBOX_CONFIG,
+    isolationAvailable: isNamespaceIsolationAvailable(),
+    runMode: getSandboxRunMode(config),
+  };
+}
+
+// GET /api/sandbox/config — current limits plus whether namespace isolation works here
+router.get('/config', (req: Request, res: Response) => {
+  try {
+    res.json(sandboxStatus(getSandboxConfig()));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PUT /api/sandbox/config — replace the sandbox configuration
+router.put('/config', requirePermission('system:configure'), (req: Request, res: Response) => {
+  try {
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      res.status(400).json({ error: 'Config must be an object' });
+      return;
+    }
+    res.json(sandboxStatus(saveSandboxConfig({ ...getSandboxConfig(), ...req.body })));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/sandbox/audit — most recent sandboxed runs
+router.get('/audit', requirePermission('system:configure'), (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 500);
+    const source = typeof req.query.source === 'string' && SOURCES.includes(req.query.source)
+      ? req.query.source
+      : null;
+
+    const entries = source
+      ? getDatabase().prepare(
+        'SELECT * FROM sandbox_audit_log WHERE source = ? ORDER BY created_at DESC, id DESC LIMIT ?'
+      ).all(source, limit)
+      : getDatabase().prepare(
+        'SELECT * FROM sandbox_audit_log ORDER BY created_at DESC, id DESC LIMIT ?'
+      ).all(limit);
+
+    res.json(entries as SandboxAuditEntry[]);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,275 @@
+import { Router, Request, Response } from 'express';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { getDatabase } from '../models/database';
+import { validateCronExpression, getNextRunTimes } from '../services/cronExpression';
+import { workflowScheduler, computeNextRunAt } from '../services/scheduler';
+import { WorkflowSchedule } from '../types';
+
+const router = Router();
+router.use(authMiddleware);
+
+const PARENT_TYPES = ['skill', 'workflow'];
+const OUTPUT_CHANNELS = ['none', 'web', 'lark'];
+
+function getOwnedSchedule(id: number, userId: number): WorkflowSchedule | undefined {
+  return getDatabase().prepare(
+    'SELECT * FROM workflow_schedules WHERE id = ? AND created_by = ?'
+  ).get(id, userId) as WorkflowSchedule | undefined;
+}
+
+function withDetails(schedule: WorkflowSchedule) {
+  const db = getDatabase();
+  const table = schedule.parent_type === 'skill' ? 'skills' : 'workflows';
+  const parent = db.prepare(`SELECT name FROM ${table} WHERE id = ?`).get(schedule.parent_id) as { name: string } | undefined;
+  const lastRun = db.prepare(
+    'SELECT * FROM schedule_runs WHERE schedule_id = ? ORDER BY started_at DESC LIMIT 1'
+  ).get(schedule.id);
+
+  let inputData: Record<string, any> = {};
+  try {
+    inputData = JSON.parse(schedule.input_data || '{}');
+  } catch {
+    // Keep as empty object
+  }
+
+  return {
+    ...schedule,
+    input_data: inputData,
+    enabled: !!schedule.enabled,
+    auto_approve: !!schedule.auto_approve,
+    parent_name: parent?.name || null,
+    last_run: lastRun || null,
+  };
+}
+
+// Validate a create/update payload; returns an error message or null
+function validatePayload(body: any, partial: boolean): string | null {
+  const { name, parent_type, parent_id, cron_expression, output_channel, output_channel_id } = body;
+
+  if (!partial || name !== undefined) {
+    if (!name || !String(name).trim()) return 'Schedule name is required';
+  }
+  if (!partial || parent_type !== undefined) {
+    if (!PARENT_TYPES.includes(parent_type)) return 'parent_type must be "skill" or "workflow"';
+  }
+  if (!partial || parent_id !== undefined) {
+    if (!Number.isInteger(Number(parent_id)) || Number(parent_id) <= 0) return 'parent_id is required';
+  }
+  if (!partial || cron_expression !== undefined) {
+    const validation = validateCronExpression(cron_expression);
+    if (!validation.valid) return `Invalid cron expression: ${validation.error}`;
+  }
+  if (output_channel !== undefined && !OUTPUT_CHANNELS.includes(output_channel)) {
+    return `output_channel must be one of: ${OUTPUT_CHANNELS.join(', ')}`;
+  }
+  if (output_channel && output_channel !== 'none' && !String(output_channel_id || '').trim()) {
+    return 'output_channel_id is required when posting results to a channel';
+  }
+  return null;
+}
+
+function parentExists(parentType: string, parentId: number): boolean {
+  const table = parentType === 'skill' ? 'skills' : 'workflows';
+  return !!getDatabase().prepare(`SELECT id FROM ${table} WHERE id = ?`).get(parentId);
+}
+
+// GET /api/schedules/preview?expression=...&count=5 — validate and preview next runs
+router.get('/preview', (req: Request, res: Response) => {
+  const expression = String(req.query.expression || '');
+  const count = Math.min(Math.max(parseInt(String(req.query.count || '5'), 10) || 5, 1), 20);
+  const validation = validateCronExpression(expression);
+  if (!validation.valid) {
+    res.json({ valid: false, error: validation.error, next_runs: [] });
+    return;
+  }
+  res.json({
+    valid: true,
+    next_runs: getNextRunTimes(expression, count).map(date => date.toISOString()),
+  });
+});
+
+// GET /api/schedules — list schedules
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const schedules = getDatabase().prepare(
+      'SELECT * FROM workflow_schedules WHERE created_by = ? ORDER BY created_at DESC'
+    ).all(req.user!.id) as WorkflowSchedule[];
+    res.json(schedules.map(withDetails));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/schedules/:id — schedule detail
+router.get('/:id', (req: Request, res: Response) => {
+  try {
+    const schedule = getOwnedSchedule(Number(req.params.id), req.user!.id);
+    if (!schedule) {
+      res.status(404).json({ error: 'Schedule not found' });
+      return;
+    }
+    res.json(withDetails(schedule));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/schedules — create schedule
+router.post('/', requirePermission('assets:write'), (req: Request, res: Response) => {
+  try {
+    const error = validatePayload(req.body, false);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+
+    const {
+      name, parent_type, parent_id, cron_expression, input_data,
+      output_channel, output_channel_id, auto_approve, enabled,
+    } = req.body;
+
+    if (!parentExists(parent_type, Number(parent_id))) {
+      res.status(404).json({ error: `${parent_type === 'skill' ? 'Skill' : 'Workflow'} not found` });
+      return;
+    }
+
+    const isEnabled = enabled !== false;
+    const result = getDatabase().prepare(`
+      INSERT INTO workflow_schedules
+        (name, parent_type, parent_id, cron_expression, input_data, output_channel, output_channel_id, auto_approve, enabled, created_by, next_run_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      String(name).trim(),
+      parent_type,
+      Number(parent_id),
+      String(cron_expression).trim(),
+      JSON.stringify(input_data || {}),
+      output_channel || 'none',
+      output_channel && output_channel !== 'none' ? String(output_channel_id).trim() : null,
+      auto_approve === false ? 0 : 1,
+      isEnabled ? 1 : 0,
+      req.user!.id,
+      isEnabled ? computeNextRunAt(cron_expression) : null
+    );
+
+    const schedule = getOwnedSchedule(Number(result.lastInsertRowid), req.user!.id)!;
+    res.status(201).json(withDetails(schedule));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PUT /api/schedules/:id — update schedule
+router.put('/:id', requirePermission('assets:write'), (req: Request, res: Response) => {
+  try {
+    const existing = getOwnedSchedule(Number(req.params.id), req.user!.id);
+    if (!existing) {
+      res.status(404).json({ error: 'Schedule not found' });
+      return;
+    }
+
+    const error = validatePayload(
+      { output_channel: existing.output_channel, output_channel_id: existing.output_channel_id, ...req.body },
+      true
+    );
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+
+    const merged = {
+      name: req.body.name !== undefined ? String(req.body.name).trim() : existing.name,
+      parent_type: req.body.parent_type ?? existing.parent_type,
+      parent_id: req.body.parent_id !== undefined ? Number(req.body.parent_id) : existing.parent_id,
+      cron_expression: req.body.cron_expression !== undefined ? String(req.body.cron_expression).trim() : existing.cron_expression,
+      input_data: req.body.input_data !== undefined ? JSON.stringify(req.body.input_data || {}) : existing.input_data,
+      output_channel: req.body.output_channel ?? existing.output_channel,
+      output_channel_id: req.body.output_channel_id !== undefined ? req.body.output_channel_id : existing.output_channel_id,
+      auto_approve: req.body.auto_approve !== undefined ? (req.body.auto_approve ? 1 : 0) : existing.auto_approve,
+      enabled: req.body.enabled !== undefined ? (req.body.enabled ? 1 : 0) : existing.enabled,
+    };
+
+    if (!parentExists(merged.parent_type, merged.parent_id)) {
+      res.status(404).json({ error: `${merged.parent_type === 'skill' ? 'Skill' : 'Workflow'} not found` });
+      return;
+    }
+
+    getDatabase().prepare(`
+      UPDATE workflow_schedules
+      SET name = ?, parent_type = ?, parent_id = ?, cron_expression = ?, input_data = ?, output_channel = ?,
+          output_channel_id = ?, auto_approve = ?, enabled = ?, next_run_at = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(
+      merged.name,
+      merged.parent_type,
+      merged.parent_id,
+      merged.cron_expression,
+      merged.input_data,
+      merged.output_channel,
+      merged.output_channel === 'none' ? null : merged.output_channel_id,
+      merged.auto_approve,
+      merged.enabled,
+      merged.enabled ? computeNextRunAt(merged.cron_expression) : null,
+      existing.id
+    );
+
+    res.json(withDetails(getOwnedSchedule(existing.id, req.user!.id)!));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// DELETE /api/schedules/:id — delete schedule and its run history
+router.delete('/:id', requirePermission('assets:write'), (req: Request, res: Response) => {
+  try {
+    const existing = getOwnedSchedule(Number(req.params.id), req.user!.id);
+    if (!existing) {
+      res.status(404).json({ error: 'Schedule not found' });
+      return;
+    }
+    getDatabase().prepare('DELETE FROM workflow_schedules WHERE id = ?').run(existing.id);
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/schedules/:id/run — trigger a run now
+router.post('/:id/run', requirePermission('assets:run'), async (req: Request, res: Response) => {
+  try {
+    const existing = getOwnedSchedule(Number(req.params.id), req.user!.id);
+    if (!existing) {
+      res.status(404).json({ error: 'Schedule not found' });
+      return;
+    }
+    const run = await workflowScheduler.runSchedule(existing.id, 'manual');
+    res.status(201).json(run);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/schedules/:id/runs — run history
+router.get('/:id/runs', (req: Request, res: Response) => {
+  try {
+    const existing = getOwnedSchedule(Number(req.params.id), req.user!.id);
+    if (!existing) {
+      res.status(404).json({ error: 'Schedule not found' });
+      return;
+    }
+    const limit = Math.min(parseInt(String(req.query.limit || '50'), 10) || 50, 200);
+    const runs = getDatabase().prepare(`
+      SELECT r.*, e.status AS execution_status
+      FROM schedule_runs r
+      LEFT JOIN workflow_executions e ON e.id = r.execution_id
+      WHERE r.schedule_id = ?
+      ORDER BY r.started_at DESC
+      LIMIT ?
+    `).all(existing.id, limit);
+    res.json(runs);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -1,5 +1,5 @@
 import { Router, Request, Response } from 'express';
-import { authMiddleware } from '../middleware/auth';
+import { authMiddleware, requireWorkspaceQuota } from '../middleware/auth';
 import { isManusConfigured, createTask, waitForCompletion } from '../services/manusService';
 import { logUsage } from '../services/usageTrackingService';
 
@@ -16,7 +16,7 @@ router.get('/status', (req: Request, res: Response) => {
 });
 
 // POST /api/scraping/test - Test a scraping prompt via Manus AI
-router.post('/test', async (req: Request, res: Response) => {
+router.post('/test', requireWorkspaceQuota, async (req: Request, res: Response) => {
   try {
     const { prompt, urls } = req.body;
     const userId = req.user?.id;
@@ -49,7 +49,7 @@ router.post('/test', async (req: Request, res: Response) => {
     logUsage(userId, 'manus', 'scrape_test', 1, 0, {
       taskId,
       creditsUsed: result.creditsUsed,
-    });
+    }, req.workspaceId);
 
     res.json({
       success: result.status === 'completed',
@@ -1,14 +1,23 @@
 import { Router } from 'express';
-import { authMiddleware } from '../middleware/auth';
+import { authMiddleware, requireOwnership, requirePermission } from '../middleware/auth';
 import { getDatabase } from '../models/database';
+import { hasPermission } from '../services/permissions';
 import { deleteSessionUploads } from '../utils/uploadHelpers';
 
 const router = Router();
 router.use(authMiddleware);
 
-// List active sessions
+// Users see their own sessions; session managers see everyone's
+const requireSessionOwner = requireOwnership((req) => {
+  const row = getDatabase().prepare('SELECT user_id FROM sessions WHERE id = ?').get(req.params.id) as
+    { user_id: number | null } | undefined;
+  return row?.user_id ?? null;
+}, 'sessions:manage');
+
+// List active sessions in the active workspace
 router.get('/', (req, res) => {
   const db = getDatabase();
+  const seeAll = hasPermission(req.user, 'sessions:manage');
   const sessions = db.prepare(`
     SELECT s.*, u.email as user_email,
       (SELECT SUBSTR(sm.content, 1, 60) FROM session_messages sm
@@ -16,14 +25,14 @@ router.get('/', (req, res) => {
        ORDER BY sm.created_at ASC LIMIT 1) as title
     FROM sessions s
     LEFT JOIN users u ON s.user_id = u.id
-    WHERE s.status != 'closed'
+    WHERE s.status != 'closed' AND s.workspace_id = ? ${seeAll ? '' : 'AND s.user_id = ?'}
     ORDER BY s.last_active_at DESC
-  `).all();
+  `).all(req.workspaceId, ...(seeAll ? [] : [req.user!.id]));
   res.json(sessions);
 });
 
 // Close all non-closed sessions
-router.post('/close-all', (req, res) => {
+router.post('/close-all', requirePermission('sessions:manage'), (req, res) => {
   const db = getDatabase();
   const result = db.prepare(
     "UPDATE sessions SET status = 'closed' WHERE status != 'closed'"
@@ -32,7 +41,7 @@ router.post('/close-all', (req, res) => {
 });
 
 // Get session detail with recent messages
-router.get('/:id', (req, res) => {
+router.get('/:id', requireSessionOwner, (req, res) => {
   const db = getDatabase();
   const session = db.prepare('SELECT * FROM sessions WHERE id = ?').get(req.params.id);
   if (!session) {
@@ -48,7 +57,7 @@ router.get('/:id', (req, res) => {
 });
 
 // Delete a session and its messages
-router.delete('/:id', (req, res) => {
+router.delete('/:id', requireSessionOwner, (req, res) => {
   const db = getDatabase();
   const session = db.prepare('SELECT * FROM sessions WHERE id = ?').get(req.params.id);
   if (!session) {
@@ -63,7 +72,7 @@ router.delete('/:id', (req, res) => {
 });
 
 // Delete all sessions and their messages
-router.delete('/', (req, res) => {
+router.delete('/', requirePermission('sessions:manage'), (req, res) => {
   const db = getDatabase();
   const sessionIds = (db.prepare('SELECT id FROM sessions').all() as Array<{ id: string }>)
     .map(s => s.id);
@@ -76,7 +85,7 @@ router.delete('/', (req, res) => {
 });
 
 // Close a session
-router.post('/:id/close', (req, res) => {
+router.post('/:id/close', requireSessionOwner, (req, res) => {
   const db = getDatabase();
   const session = db.prepare('SELECT * FROM sessions WHERE id = ?').get(req.params.id);
   if (!session) {
@@ -1,25 +1,98 @@
-import { Router, Request, Response } from 'express';
-import { authMiddleware } from '../middleware/auth';
-import { getDatabase } from '../models/database';
+import { Router, Request, Response, NextFunction } from 'express';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { getDatabase, queries } from '../models/database';
+import { recordSkillVersion } from '../services/skillVersions';
+import { BundleError, importSkillBundle, resolveImportedDraftSteps } from '../services/skillBundles';
+import { SkillTestError, createTestRun, executeTestRun, getLatestTestRun, listTestCases } from '../services/skillTests';
+import { canReadAsset, canWriteAsset, getAssetWorkspaceId, getMembershipRole } from '../services/workspaceService';
+import { SkillDraft } from '../types';
 
 const router = Router();
 router.use(authMiddleware);
 
-// GET /api/skills/drafts — list pending drafts
+const editsExistingAsset = (draft: SkillDraft): boolean =>
+  !!draft.original_skill_id && getAssetWorkspaceId(draft.skill_type, draft.original_skill_id) !== undefined;
+
+// The workspace a draft belongs to: the edited skill/workflow's, otherwise the
+// one it was proposed in (the chat session's) or imported into
+function getDraftWorkspaceId(draft: SkillDraft): number | null {
+  if (editsExistingAsset(draft)) {
+    return getAssetWorkspaceId(draft.skill_type, draft.original_skill_id!) ?? null;
+  }
+  const session = draft.proposed_by_session
+    ? getDatabase().prepare('SELECT workspace_id FROM sessions WHERE id = ?').get(draft.proposed_by_session) as
+      { workspace_id: number | null } | undefined
+    : undefined;
+  return session?.workspace_id ?? draft.workspace_id ?? null;
+}
+
+// A draft that edits a skill/workflow shows it, runs its test cases and, once
+// approved, replaces it, so it needs the same access as that skill/workflow.
+// New drafts stay with the members of the workspace they came from.
+function requireDraftAccess(access: 'read' | 'write') {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const draft = queries.getSkillDraftById(Number(req.params.id)) as SkillDraft | undefined;
+    if (!draft) {
+      next();
+      return;
+    }
+
+    const userId = req.user!.id;
+    let allowed: boolean;
+    if (editsExistingAsset(draft)) {
+      allowed = access === 'write'
+        ? canWriteAsset(draft.skill_type, draft.original_skill_id!, userId)
+        : canReadAsset(draft.skill_type, draft.original_skill_id!, userId, req.workspaceId ?? -1);
+    } else {
+      const workspaceId = getDraftWorkspaceId(draft);
+      allowed = workspaceId !== null && getMembershipRole(workspaceId, userId) !== null;
+    }
+    if (!allowed) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+    next();
+  };
+}
+
+// GET /api/skills/drafts — list pending drafts in the active workspace
 router.get('/', (req: Request, res: Response) => {
   try {
     const db = getDatabase();
     const drafts = db.prepare(
       "SELECT * FROM skill_drafts WHERE status = 'pending' ORDER BY created_at DESC"
-    ).all();
-    res.json(drafts);
+    ).all() as SkillDraft[];
+    res.json(drafts.filter((draft) => getDraftWorkspaceId(draft) === req.workspaceId));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/skills/drafts/import — import a skill/workflow bundle as drafts for review
+router.post('/import', requirePermission('assets:write'), (req: Request, res: Response) => {
+  try {
+    const { bundle, as_new } = req.body;
+    if (!bundle) {
+      res.status(400).json({ error: 'bundle is required' });
+      return;
+    }
+    const result = importSkillBundle(bundle, {
+      userId: req.user!.id,
+      workspaceId: req.workspaceId!,
+      asNew: as_new === true,
+    });
+    res.status(201).json(result);
   } catch (error: any) {
+    if (error instanceof BundleError) {
+      res.status(error.status).json({ error: error.message, errors: error.errors });
+      return;
+    }
     res.status(500).json({ error: error.message });
   }
 });
 
 // GET /api/skills/drafts/:id — get draft with diff info
-router.get('/:id', (req: Request, res: Response) => {
+router.get('/:id', requireDraftAccess('read'), (req: Request, res: Response) => {
   try {
     const db = getDatabase();
     const draft = db.prepare('SELECT * FROM skill_drafts WHERE id = ?').get(req.params.id) as any;
@@ -43,20 +116,55 @@ router.get('/:id', (req: Request, res: Response) => {
       }
     }
 
+    // Edits are checked against the test cases of what they change
+    const tests = draft.original_skill_id
+      ? {
+        case_count: listTestCases(draft.skill_type, draft.original_skill_id).length,
+        latest_run: getLatestTestRun(draft.skill_type, draft.original_skill_id, draft.id),
+      }
+      : null;
+
     res.json({
       draft: {
         ...draft,
         steps: JSON.parse(draft.steps || '[]'),
       },
       original,
+      tests,
     });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
+// POST /api/skills/drafts/:id/tests/run — run the edited skill/workflow's test cases against the draft
+router.post('/:id/tests/run', requirePermission('assets:run_draft'), requireDraftAccess('read'), (req: Request, res: Response) => {
+  try {
+    const draft = queries.getSkillDraftById(Number(req.params.id)) as SkillDraft | undefined;
+    if (!draft) {
+      res.status(404).json({ error: 'Draft not found' });
+      return;
+    }
+    if (!draft.original_skill_id) {
+      res.status(400).json({ error: 'Only drafts that edit an existing skill or workflow have test cases' });
+      return;
+    }
+
+    const run = createTestRun(draft.skill_type, draft.original_skill_id, req.user!.id, draft);
+    // Cases run in the background; the draft's detail carries the report
+    executeTestRun(run.id).catch(err => console.error(`[SkillDrafts] Test run ${run.id} error:`, err));
+    res.status(202).json(run);
+  } catch (error: any) {
+    if (error instanceof SkillTestError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // POST /api/skills/drafts/:id/approve — approve and apply draft
-router.post('/:id/approve', (req: Request, res: Response) => {
+router.post('/:id/approve', requirePermission('drafts:review'), requireDraftAccess('write'), (req: Request, res: Response) => {
   try {
     const db = getDatabase();
     const draft = db.prepare('SELECT * FROM skill_drafts WHERE id = ?').get(req.params.id) as any;
@@ -71,10 +179,18 @@ router.post('/:id/approve', (req: Request, res: Response) => {
       return;
     }
 
-    const steps = JSON.parse(draft.steps || '[]');
+    let steps = JSON.parse(draft.steps || '[]');
     const table = draft.skill_type === 'skill' ? 'skills' : 'workflows';
+    let targetId: number = draft.original_skill_id;
+    if (targetId) {
+      // Keep the definition being replaced, in case it predates versioning
+      recordSkillVersion(draft.skill_type, targetId, { source: 'edit' });
+    }
 
     db.transaction(() => {
+      // Imported drafts bring standards to create and may run other imported drafts
+      steps = resolveImportedDraftSteps(draft, steps, req.user!.id);
+
       if (draft.original_skill_id) {
         // Update existing skill/workflow
         db.prepare(`UPDATE ${table} SET name = ?, description = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`)
@@ -98,12 +214,22 @@ router.post('/:id/approve', (req: Request, res: Response) => {
           );
         }
       } else {
-        // Create new skill/workflow
+        // Create new skill/workflow, owned by whoever proposed it in chat, in that chat's workspace
+        const proposer = draft.proposed_by_session
+          ? db.prepare('SELECT user_id, workspace_id FROM sessions WHERE id = ?').get(draft.proposed_by_session) as
+            { user_id: number; workspace_id: number | null } | undefined
+          : undefined;
         const result = db.prepare(
-          `INSERT INTO ${table} (name, description, created_by, status) VALUES (?, ?, 1, 'active')`
-        ).run(draft.name, draft.description);
+          `INSERT INTO ${table} (name, description, created_by, workspace_id, status) VALUES (?, ?, ?, ?, 'active')`
+        ).run(
+          draft.name,
+          draft.description,
+          proposer?.user_id ?? draft.proposed_by_user ?? req.user!.id,
+          proposer?.workspace_id ?? draft.workspace_id ?? req.workspaceId
+        );
 
         const newId = Number(result.lastInsertRowid);
+        targetId = newId;
 
         for (let i = 0; i < steps.length; i++) {
           const step = steps[i];
@@ -120,19 +246,34 @@ router.post('/:id/approve', (req: Request, res: Response) => {
         }
       }
 
+      if (draft.tags) {
+        db.prepare(`UPDATE ${table} SET tags = ? WHERE id = ?`).run(draft.tags, targetId);
+      }
+
       // Mark draft as approved
-      db.prepare("UPDATE skill_drafts SET status = 'approved', reviewed_at = CURRENT_TIMESTAMP WHERE id = ?")
-        .run(draft.id);
+      db.prepare("UPDATE skill_drafts SET status = 'approved', applied_id = ?, reviewed_at = CURRENT_TIMESTAMP WHERE id = ?")
+        .run(targetId, draft.id);
     })();
 
-    res.json({ success: true, message: 'Draft approved and applied' });
+    // Every approval becomes a new version, so the definition it replaced can be restored
+    const version = recordSkillVersion(draft.skill_type, targetId, {
+      source: 'draft',
+      createdBy: req.user!.id,
+      note: draft.change_summary || null,
+    });
+
+    res.json({ success: true, message: 'Draft approved and applied', version: version?.version ?? null });
   } catch (error: any) {
+    if (error instanceof BundleError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
     res.status(500).json({ error: error.message });
   }
 });
 
 // POST /api/skills/drafts/:id/reject — reject draft
-router.post('/:id/reject', (req: Request, res: Response) => {
+router.post('/:id/reject', requirePermission('drafts:review'), requireDraftAccess('write'), (req: Request, res: Response) => {
   try {
     const db = getDatabase();
     const draft = db.prepare('SELECT * FROM skill_drafts WHERE id = ?').get(req.params.id) as any;
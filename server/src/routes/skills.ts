@@ -1,9 +1,32 @@
 import { Router, Request, Response } from 'express';
-import { authMiddleware } from '../middleware/auth';
-import { getDatabase } from '../models/database';
+import { authMiddleware, requireAssetAccess, requirePermission } from '../middleware/auth';
+import { getDatabase, workspaceVisibilitySql } from '../models/database';
+import { deleteAssetShares } from '../services/workspaceService';
+import {
+  compareSkillVersions,
+  getSkillVersion,
+  listSkillVersions,
+  recordSkillVersion,
+  rollbackSkillVersion,
+} from '../services/skillVersions';
+import { exportSkillBundle, serializeBundle } from '../services/skillBundles';
+import {
+  SkillTestError,
+  createTestCase,
+  createTestRun,
+  deleteTestCase,
+  executeTestRun,
+  getLatestTestRun,
+  listTestCases,
+  updateTestCase,
+} from '../services/skillTests';
 
 const router = Router();
 router.use(authMiddleware);
+
+// Assets shared into the active workspace are readable; only their own workspace may change them
+const requireSkillRead = requireAssetAccess('skill', 'read');
+const requireSkillWrite = requireAssetAccess('skill', 'write');
 const DISABLED_SKILL_STEP_TYPES = new Set(['manus']);
 
 function findDisabledStepType(steps: any[] | undefined): string | null {
@@ -19,10 +42,10 @@ function findDisabledStepType(steps: any[] | undefined): string | null {
 router.get('/', (req: Request, res: Response) => {
   try {
     const db = getDatabase();
-    const userId = req.user!.id;
+    const workspaceId = req.workspaceId!;
     const skills = db.prepare(
-      'SELECT * FROM skills WHERE created_by = ? ORDER BY updated_at DESC'
-    ).all(userId) as any[];
+      `SELECT * FROM skills a WHERE ${workspaceVisibilitySql('a', 'skill')} ORDER BY updated_at DESC`
+    ).all(workspaceId, workspaceId) as any[];
 
     const withCounts = skills.map(skill => {
       const stepCount = (db.prepare(
@@ -38,7 +61,7 @@ router.get('/', (req: Request, res: Response) => {
 });
 
 // POST /api/skills — create skill
-router.post('/', (req: Request, res: Response) => {
+router.post('/', requirePermission('assets:write'), (req: Request, res: Response) => {
   try {
     const db = getDatabase();
     const userId = req.user!.id;
@@ -56,8 +79,8 @@ router.post('/', (req: Request, res: Response) => {
     }
 
     const result = db.prepare(
-      'INSERT INTO skills (name, description, created_by, tags) VALUES (?, ?, ?, ?)'
-    ).run(name, description || null, userId, JSON.stringify(tags || []));
+      'INSERT INTO skills (name, description, created_by, workspace_id, tags) VALUES (?, ?, ?, ?, ?)'
+    ).run(name, description || null, userId, req.workspaceId, JSON.stringify(tags || []));
 
     const skillId = Number(result.lastInsertRowid);
 
@@ -80,6 +103,8 @@ router.post('/', (req: Request, res: Response) => {
       }
     }
 
+    recordSkillVersion('skill', skillId, { source: 'create', createdBy: userId });
+
     const created = db.prepare('SELECT * FROM skills WHERE id = ?').get(skillId);
     res.status(201).json(created);
   } catch (error: any) {
@@ -88,7 +113,7 @@ router.post('/', (req: Request, res: Response) => {
 });
 
 // GET /api/skills/:id — get skill with steps
-router.get('/:id', (req: Request, res: Response) => {
+router.get('/:id', requireSkillRead, (req: Request, res: Response) => {
   try {
     const db = getDatabase();
     const skill = db.prepare('SELECT * FROM skills WHERE id = ?').get(req.params.id) as any;
@@ -109,7 +134,7 @@ router.get('/:id', (req: Request, res: Response) => {
 });
 
 // PUT /api/skills/:id — update skill
-router.put('/:id', (req: Request, res: Response) => {
+router.put('/:id', requirePermission('assets:write'), requireSkillWrite, (req: Request, res: Response) => {
   try {
     const db = getDatabase();
     const existing = db.prepare('SELECT * FROM skills WHERE id = ?').get(req.params.id) as any;
@@ -126,6 +151,9 @@ router.put('/:id', (req: Request, res: Response) => {
       return;
     }
 
+    // Keep the definition being replaced, in case it predates versioning
+    recordSkillVersion('skill', Number(req.params.id), { source: 'edit' });
+
     db.prepare(`
       UPDATE skills SET name = ?, description = ?, status = ?, tags = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
     `).run(
@@ -139,6 +167,7 @@ router.put('/:id', (req: Request, res: Response) => {
     // Update steps if provided
     if (steps) {
       db.prepare("DELETE FROM skill_steps WHERE parent_id = ? AND parent_type = 'skill'").run(req.params.id);
+    db.prepare("DELETE FROM skill_test_cases WHERE parent_id = ? AND parent_type = 'skill'").run(req.params.id);
       const insertStep = db.prepare(`
         INSERT INTO skill_steps (parent_id, parent_type, step_order, step_name, step_type, ai_model, prompt_template, input_config, output_format, model_config, executor_config)
         VALUES (?, 'skill', ?, ?, ?, ?, ?, ?, ?, ?, ?)
@@ -156,6 +185,8 @@ router.put('/:id', (req: Request, res: Response) => {
       }
     }
 
+    recordSkillVersion('skill', Number(req.params.id), { source: 'edit', createdBy: req.user!.id });
+
     const updated = db.prepare('SELECT * FROM skills WHERE id = ?').get(req.params.id);
     res.json(updated);
   } catch (error: any) {
@@ -164,7 +195,7 @@ router.put('/:id', (req: Request, res: Response) => {
 });
 
 // DELETE /api/skills/:id
-router.delete('/:id', (req: Request, res: Response) => {
+router.delete('/:id', requirePermission('assets:write'), requireSkillWrite, (req: Request, res: Response) => {
   try {
     const db = getDatabase();
     const existing = db.prepare('SELECT * FROM skills WHERE id = ?').get(req.params.id);
@@ -174,7 +205,9 @@ router.delete('/:id', (req: Request, res: Response) => {
     }
 
     db.prepare("DELETE FROM skill_steps WHERE parent_id = ? AND parent_type = 'skill'").run(req.params.id);
+    db.prepare("DELETE FROM skill_test_cases WHERE parent_id = ? AND parent_type = 'skill'").run(req.params.id);
     db.prepare('DELETE FROM skills WHERE id = ?').run(req.params.id);
+    deleteAssetShares('skill', Number(req.params.id));
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -182,7 +215,7 @@ router.delete('/:id', (req: Request, res: Response) => {
 });
 
 // POST /api/skills/:id/clone
-router.post('/:id/clone', (req: Request, res: Response) => {
+router.post('/:id/clone', requirePermission('assets:write'), requireSkillRead, (req: Request, res: Response) => {
   try {
     const db = getDatabase();
     const userId = req.user!.id;
@@ -206,8 +239,8 @@ router.post('/:id/clone', (req: Request, res: Response) => {
     }
 
     const result = db.prepare(
-      'INSERT INTO skills (name, description, created_by, tags) VALUES (?, ?, ?, ?)'
-    ).run(newName, original.description, userId, original.tags);
+      'INSERT INTO skills (name, description, created_by, workspace_id, tags) VALUES (?, ?, ?, ?, ?)'
+    ).run(newName, original.description, userId, req.workspaceId, original.tags);
 
     const newId = Number(result.lastInsertRowid);
 
@@ -224,6 +257,8 @@ router.post('/:id/clone', (req: Request, res: Response) => {
       );
     }
 
+    recordSkillVersion('skill', newId, { source: 'create', createdBy: userId, note: `Cloned from #${original.id}` });
+
     const cloned = db.prepare('SELECT * FROM skills WHERE id = ?').get(newId);
     res.status(201).json(cloned);
   } catch (error: any) {
@@ -231,4 +266,150 @@ router.post('/:id/clone', (req: Request, res: Response) => {
   }
 });
 
+// GET /api/skills/:id/versions — version history, newest first
+router.get('/:id/versions', requireSkillRead, (req: Request, res: Response) => {
+  try {
+    const skillId = Number(req.params.id);
+    // Skills saved before versioning get their current definition as the first version
+    if (!recordSkillVersion('skill', skillId, { source: 'edit' })) {
+      res.status(404).json({ error: 'Skill not found' });
+      return;
+    }
+    res.json(listSkillVersions('skill', skillId));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/skills/:id/versions/:version — one version with its steps
+router.get('/:id/versions/:version', requireSkillRead, (req: Request, res: Response) => {
+  try {
+    const version = getSkillVersion('skill', Number(req.params.id), parseInt(req.params.version, 10));
+    if (!version) {
+      res.status(404).json({ error: 'Version not found' });
+      return;
+    }
+    res.json(version);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/skills/:id/versions/:version/diff?against=N — changes since version N (default: the previous one)
+router.get('/:id/versions/:version/diff', requireSkillRead, (req: Request, res: Response) => {
+  try {
+    const against = req.query.against !== undefined ? parseInt(String(req.query.against), 10) : undefined;
+    const diff = compareSkillVersions('skill', Number(req.params.id), parseInt(req.params.version, 10), against);
+    if (!diff) {
+      res.status(404).json({ error: 'Version not found' });
+      return;
+    }
+    res.json(diff);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/skills/:id/versions/:version/rollback — make an old version current again
+router.post('/:id/versions/:version/rollback', requirePermission('assets:write'), requireSkillWrite, (req: Request, res: Response) => {
+  try {
+    const version = rollbackSkillVersion('skill', Number(req.params.id), parseInt(req.params.version, 10), req.user!.id);
+    if (!version) {
+      res.status(404).json({ error: 'Version not found' });
+      return;
+    }
+    res.json(version);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/skills/:id/tests — saved test cases and the latest run against the current definition
+router.get('/:id/tests', requireSkillRead, (req: Request, res: Response) => {
+  try {
+    const skillId = Number(req.params.id);
+    res.json({ cases: listTestCases('skill', skillId), latest_run: getLatestTestRun('skill', skillId, null) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/skills/:id/tests — save a test case
+router.post('/:id/tests', requirePermission('assets:write'), requireSkillWrite, (req: Request, res: Response) => {
+  try {
+    res.status(201).json(createTestCase('skill', Number(req.params.id), req.body, req.user!.id));
+  } catch (error: any) {
+    if (error instanceof SkillTestError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PUT /api/skills/:id/tests/:caseId
+router.put('/:id/tests/:caseId', requirePermission('assets:write'), requireSkillWrite, (req: Request, res: Response) => {
+  try {
+    const testCase = updateTestCase('skill', Number(req.params.id), Number(req.params.caseId), req.body);
+    if (!testCase) {
+      res.status(404).json({ error: 'Test case not found' });
+      return;
+    }
+    res.json(testCase);
+  } catch (error: any) {
+    if (error instanceof SkillTestError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// DELETE /api/skills/:id/tests/:caseId
+router.delete('/:id/tests/:caseId', requirePermission('assets:write'), requireSkillWrite, (req: Request, res: Response) => {
+  try {
+    if (!deleteTestCase('skill', Number(req.params.id), Number(req.params.caseId))) {
+      res.status(404).json({ error: 'Test case not found' });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/skills/:id/tests/run — run every test case against the current definition
+router.post('/:id/tests/run', requirePermission('assets:run_draft'), requireSkillRead, (req: Request, res: Response) => {
+  try {
+    const run = createTestRun('skill', Number(req.params.id), req.user!.id);
+    // Cases run in the background; poll GET /:id/tests for the report
+    executeTestRun(run.id).catch(err => console.error(`[Skills] Test run ${run.id} error:`, err));
+    res.status(202).json(run);
+  } catch (error: any) {
+    if (error instanceof SkillTestError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/skills/:id/export?format=json|yaml — download as a portable bundle
+router.get('/:id/export', requireSkillRead, (req: Request, res: Response) => {
+  try {
+    const bundle = exportSkillBundle('skill', Number(req.params.id), req.user!.id, req.workspaceId!);
+    if (!bundle) {
+      res.status(404).json({ error: 'Skill not found' });
+      return;
+    }
+    const format = req.query.format === 'yaml' ? 'yaml' : 'json';
+    const filename = `${bundle.asset.name.replace(/[^\w.-]+/g, '_') || 'skill'}.skill.${format}`;
+    res.setHeader('Content-Type', format === 'yaml' ? 'application/yaml' : 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(serializeBundle(bundle, format));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 export default router;
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { queries } from '../models/database';
-import { authMiddleware } from '../middleware/auth';
+import { authMiddleware, requireAssetAccess, requirePermission } from '../middleware/auth';
+import { deleteAssetShares } from '../services/workspaceService';
 import { CompanyStandard, CreateStandardRequest } from '../types';
 
 const router = Router();
@@ -13,11 +14,13 @@ function parseStandardId(raw: string): number | null {
   return Number.isFinite(parsed) ? parsed : null;
 }
 
+const requireStandardRead = requireAssetAccess('standard', 'read');
+const requireStandardWrite = requireAssetAccess('standard', 'write');
+
 // GET /api/standards - List all standards
 router.get('/', (req: Request, res: Response) => {
   try {
-    const userId = req.user!.id;
-    const standards = queries.getStandardsByUser(userId) as CompanyStandard[];
+    const standards = queries.getStandardsByWorkspace(req.workspaceId!) as CompanyStandard[];
 
     // Parse content for each standard
     const parsedStandards = standards.map(standard => {
@@ -43,7 +46,6 @@ router.get('/', (req: Request, res: Response) => {
 // GET /api/standards/type/:type - Get standards by type
 router.get('/type/:type', (req: Request, res: Response) => {
   try {
-    const userId = req.user!.id;
     const standardType = req.params.type;
 
     if (!['voice', 'platform', 'image'].includes(standardType)) {
@@ -51,7 +53,7 @@ router.get('/type/:type', (req: Request, res: Response) => {
       return;
     }
 
-    const standards = queries.getStandardsByType(userId, standardType) as CompanyStandard[];
+    const standards = queries.getStandardsByType(req.workspaceId!, standardType) as CompanyStandard[];
 
     const parsedStandards = standards.map(standard => {
       let parsedContent = {};
@@ -74,7 +76,7 @@ router.get('/type/:type', (req: Request, res: Response) => {
 });
 
 // POST /api/standards - Create standard
-router.post('/', (req: Request, res: Response) => {
+router.post('/', requirePermission('assets:write'), (req: Request, res: Response) => {
   try {
     const userId = req.user!.id;
     const { standard_type, name, content } = req.body as CreateStandardRequest;
@@ -92,7 +94,7 @@ router.post('/', (req: Request, res: Response) => {
     // Stringify content if it's an object
     const contentStr = typeof content === 'object' ? JSON.stringify(content) : content;
 
-    const result = queries.createStandard(userId, standard_type, name, contentStr);
+    const result = queries.createStandard(userId, req.workspaceId!, standard_type, name, contentStr);
     const standardId = result.lastInsertRowid;
 
     const createdStandard = queries.getStandardById(standardId) as CompanyStandard;
@@ -114,7 +116,7 @@ router.post('/', (req: Request, res: Response) => {
 });
 
 // PUT /api/standards/:id - Update standard
-router.put('/:id', (req: Request, res: Response) => {
+router.put('/:id', requirePermission('assets:write'), requireStandardWrite, (req: Request, res: Response) => {
   try {
     const standardId = parseStandardId(req.params.id);
     if (standardId === null) {
@@ -159,7 +161,7 @@ router.put('/:id', (req: Request, res: Response) => {
 });
 
 // DELETE /api/standards/:id - Delete standard
-router.delete('/:id', (req: Request, res: Response) => {
+router.delete('/:id', requirePermission('assets:write'), requireStandardWrite, (req: Request, res: Response) => {
   try {
     const standardId = parseStandardId(req.params.id);
     if (standardId === null) {
@@ -174,6 +176,7 @@ router.delete('/:id', (req: Request, res: Response) => {
     }
 
     queries.deleteStandard(standardId);
+    deleteAssetShares('standard', standardId);
 
     res.json({ success: true, message: 'Standard deleted' });
   } catch (error: any) {
@@ -182,7 +185,7 @@ router.delete('/:id', (req: Request, res: Response) => {
 });
 
 // GET /api/standards/preview/:id - Preview how standard will be injected
-router.get('/preview/:id', (req: Request, res: Response) => {
+router.get('/preview/:id', requireStandardRead, (req: Request, res: Response) => {
   try {
     const standardId = parseStandardId(req.params.id);
     if (standardId === null) {
@@ -260,7 +263,7 @@ router.get('/preview/:id', (req: Request, res: Response) => {
 });
 
 // GET /api/standards/:id - Get single standard
-router.get('/:id', (req: Request, res: Response) => {
+router.get('/:id', requireStandardRead, (req: Request, res: Response) => {
   try {
     const standardId = parseStandardId(req.params.id);
     if (standardId === null) {
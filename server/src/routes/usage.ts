@@ -1,11 +1,21 @@
 import { Router, Request, Response } from 'express';
-import { authMiddleware } from '../middleware/auth';
+import { authMiddleware, requirePermission } from '../middleware/auth';
 import {
   getUserUsageStats,
   getUserUsageHistory,
   getAllUsageAdmin,
   generateBillingReport,
 } from '../services/usageTrackingService';
+import {
+  clearModelPrice,
+  getBudgetStatus,
+  getLlmUsageHistory,
+  getLlmUsageSummary,
+  getModelPrice,
+  isLlmUsagePeriod,
+  setModelPrice,
+} from '../services/llmUsageService';
+import { getAllModels } from '../services/aiService';
 
 const router = Router();
 
@@ -70,20 +80,93 @@ router.get('/billing', (req: Request, res: Response) => {
   }
 });
 
-// GET /api/usage/admin - Get all users' usage (admin only)
-// Note: In production, add admin role check here
-router.get('/admin', (req: Request, res: Response) => {
+// GET /api/usage/llm - Token and cost totals for the active workspace (?scope=me for your own calls)
+router.get('/llm', (req: Request, res: Response) => {
   try {
-    const userId = req.user?.id;
+    const period = req.query.period ?? 'month';
+    if (!isLlmUsagePeriod(period)) {
+      res.status(400).json({ error: 'period must be one of today, week, month, all' });
+      return;
+    }
 
-    if (!userId) {
-      res.status(401).json({ error: 'Authentication required' });
+    const filter = req.query.scope === 'me'
+      ? { userId: req.user!.id }
+      : { workspaceId: req.workspaceId ?? -1 };
+    res.json({
+      ...getLlmUsageSummary(filter, period),
+      budget: req.workspaceId !== undefined ? getBudgetStatus(req.workspaceId) : null,
+    });
+
+  } catch (error: any) {
+    console.error('Get LLM usage error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/usage/llm/history - Most recent LLM calls in the active workspace
+router.get('/llm/history', (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 500);
+    const filter = req.query.scope === 'me'
+      ? { userId: req.user!.id }
+      : { workspaceId: req.workspaceId ?? -1 };
+    res.json(getLlmUsageHistory(filter, limit));
+
+  } catch (error: any) {
+    console.error('Get LLM usage history error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/usage/prices - Effective per-model prices for the model catalog
+router.get('/prices', (req: Request, res: Response) => {
+  try {
+    res.json(getAllModels().map((model) => getModelPrice(model.id, model.provider)));
+
+  } catch (error: any) {
+    console.error('Get model prices error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PUT /api/usage/prices/:model - Override a model's price (USD per million tokens)
+router.put('/prices/:model', requirePermission('system:configure'), (req: Request, res: Response) => {
+  try {
+    const input = Number(req.body.input_per_mtok);
+    const output = Number(req.body.output_per_mtok);
+    if (!Number.isFinite(input) || !Number.isFinite(output) || input < 0 || output < 0) {
+      res.status(400).json({ error: 'input_per_mtok and output_per_mtok must be non-negative numbers' });
+      return;
+    }
+
+    setModelPrice(req.params.model, { input_per_mtok: input, output_per_mtok: output });
+    const provider = getAllModels().find((m) => m.id === req.params.model)?.provider || 'unknown';
+    res.json(getModelPrice(req.params.model, provider));
+
+  } catch (error: any) {
+    console.error('Set model price error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// DELETE /api/usage/prices/:model - Go back to the built-in price
+router.delete('/prices/:model', requirePermission('system:configure'), (req: Request, res: Response) => {
+  try {
+    if (!clearModelPrice(req.params.model)) {
+      res.status(404).json({ error: 'No price override for this model' });
       return;
     }
+    res.json({ success: true });
 
-    // TODO: Add admin role check
-    // For now, allow all authenticated users (MVP)
+  } catch (error: any) {
+    console.error('Clear model price error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
 
+// GET /api/usage/admin - Get all users' usage (admin only)
+router.get('/admin', requirePermission('users:manage'), (req: Request, res: Response) => {
+  try {
     const allUsage = getAllUsageAdmin();
     res.json(allUsage);
 
@@ -0,0 +1,287 @@
+import { Router, Request, Response } from 'express';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { getDatabase } from '../models/database';
+import {
+  generateWebhookToken,
+  generateWebhookSecret,
+  MAX_SYNC_TIMEOUT_SECONDS,
+} from '../services/webhookTrigger';
+import { WorkflowWebhook } from '../types';
+
+const router = Router();
+router.use(authMiddleware);
+
+const PARENT_TYPES = ['skill', 'workflow'];
+const RESPONSE_MODES = ['async', 'sync'];
+
+function getOwnedWebhook(id: number, userId: number): WorkflowWebhook | undefined {
+  return getDatabase().prepare(
+    'SELECT * FROM workflow_webhooks WHERE id = ? AND created_by = ?'
+  ).get(id, userId) as WorkflowWebhook | undefined;
+}
+
+function parseJsonObject(value: string | null | undefined): Record<string, any> {
+  try {
+    const parsed = JSON.parse(value || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function withDetails(webhook: WorkflowWebhook) {
+  const db = getDatabase();
+  const table = webhook.parent_type === 'skill' ? 'skills' : 'workflows';
+  const parent = db.prepare(`SELECT name FROM ${table} WHERE id = ?`).get(webhook.parent_id) as { name: string } | undefined;
+  const lastInvocation = db.prepare(
+    'SELECT id, execution_id, status, error_message, callback_status, received_at, finished_at FROM webhook_invocations WHERE webhook_id = ? ORDER BY received_at DESC LIMIT 1'
+  ).get(webhook.id);
+
+  return {
+    ...webhook,
+    field_mapping: parseJsonObject(webhook.field_mapping),
+    static_inputs: parseJsonObject(webhook.static_inputs),
+    enabled: !!webhook.enabled,
+    auto_approve: !!webhook.auto_approve,
+    url_path: `/api/hooks/${webhook.token}`,
+    parent_name: parent?.name || null,
+    last_invocation: lastInvocation || null,
+  };
+}
+
+function isPlainObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Validate a create/update payload; returns an error message or null
+function validatePayload(body: any, partial: boolean): string | null {
+  const { name, parent_type, parent_id, field_mapping, static_inputs, response_mode, callback_url, sync_timeout_seconds } = body;
+
+  if (!partial || name !== undefined) {
+    if (!name || !String(name).trim()) return 'Webhook name is required';
+  }
+  if (!partial || parent_type !== undefined) {
+    if (!PARENT_TYPES.includes(parent_type)) return 'parent_type must be "skill" or "workflow"';
+  }
+  if (!partial || parent_id !== undefined) {
+    if (!Number.isInteger(Number(parent_id)) || Number(parent_id) <= 0) return 'parent_id is required';
+  }
+  if (field_mapping !== undefined && field_mapping !== null) {
+    if (!isPlainObject(field_mapping) || Object.values(field_mapping).some(v => typeof v !== 'string' || !v.trim())) {
+      return 'field_mapping must be an object of { "payload.path": "input_name" }';
+    }
+  }
+  if (static_inputs !== undefined && static_inputs !== null && !isPlainObject(static_inputs)) {
+    return 'static_inputs must be an object';
+  }
+  if (response_mode !== undefined && !RESPONSE_MODES.includes(response_mode)) {
+    return 'response_mode must be "async" or "sync"';
+  }
+  if (callback_url) {
+    try {
+      const url = new URL(String(callback_url));
+      if (!['http:', 'https:'].includes(url.protocol)) return 'callback_url must be an http(s) URL';
+    } catch {
+      return 'callback_url must be a valid URL';
+    }
+  }
+  if (sync_timeout_seconds !== undefined) {
+    const seconds = Number(sync_timeout_seconds);
+    if (!Number.isInteger(seconds) || seconds < 1 || seconds > MAX_SYNC_TIMEOUT_SECONDS) {
+      return `sync_timeout_seconds must be between 1 and ${MAX_SYNC_TIMEOUT_SECONDS}`;
+    }
+  }
+  return null;
+}
+
+function parentExists(parentType: string, parentId: number): boolean {
+  const table = parentType === 'skill' ? 'skills' : 'workflows';
+  return !!getDatabase().prepare(`SELECT id FROM ${table} WHERE id = ?`).get(parentId);
+}
+
+// GET /api/webhooks — list webhooks
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const webhooks = getDatabase().prepare(
+      'SELECT * FROM workflow_webhooks WHERE created_by = ? ORDER BY created_at DESC'
+    ).all(req.user!.id) as WorkflowWebhook[];
+    res.json(webhooks.map(withDetails));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/webhooks/:id — webhook detail
+router.get('/:id', (req: Request, res: Response) => {
+  try {
+    const webhook = getOwnedWebhook(Number(req.params.id), req.user!.id);
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    res.json(withDetails(webhook));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/webhooks — create webhook with a fresh token and signing secret
+router.post('/', requirePermission('assets:write'), (req: Request, res: Response) => {
+  try {
+    const error = validatePayload(req.body, false);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+
+    const {
+      name, parent_type, parent_id, field_mapping, static_inputs,
+      response_mode, callback_url, sync_timeout_seconds, auto_approve, enabled,
+    } = req.body;
+
+    if (!parentExists(parent_type, Number(parent_id))) {
+      res.status(404).json({ error: `${parent_type === 'skill' ? 'Skill' : 'Workflow'} not found` });
+      return;
+    }
+
+    const result = getDatabase().prepare(`
+      INSERT INTO workflow_webhooks
+        (name, parent_type, parent_id, token, secret, field_mapping, static_inputs, response_mode,
+         callback_url, sync_timeout_seconds, auto_approve, enabled, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      String(name).trim(),
+      parent_type,
+      Number(parent_id),
+      generateWebhookToken(),
+      generateWebhookSecret(),
+      JSON.stringify(field_mapping || {}),
+      JSON.stringify(static_inputs || {}),
+      response_mode || 'async',
+      callback_url ? String(callback_url).trim() : null,
+      sync_timeout_seconds !== undefined ? Number(sync_timeout_seconds) : 60,
+      auto_approve === false ? 0 : 1,
+      enabled === false ? 0 : 1,
+      req.user!.id
+    );
+
+    const webhook = getOwnedWebhook(Number(result.lastInsertRowid), req.user!.id)!;
+    res.status(201).json(withDetails(webhook));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PUT /api/webhooks/:id — update webhook
+router.put('/:id', requirePermission('assets:write'), (req: Request, res: Response) => {
+  try {
+    const existing = getOwnedWebhook(Number(req.params.id), req.user!.id);
+    if (!existing) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+
+    const error = validatePayload(req.body, true);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+
+    const body = req.body;
+    const merged = {
+      name: body.name !== undefined ? String(body.name).trim() : existing.name,
+      parent_type: body.parent_type ?? existing.parent_type,
+      parent_id: body.parent_id !== undefined ? Number(body.parent_id) : existing.parent_id,
+      field_mapping: body.field_mapping !== undefined ? JSON.stringify(body.field_mapping || {}) : existing.field_mapping,
+      static_inputs: body.static_inputs !== undefined ? JSON.stringify(body.static_inputs || {}) : existing.static_inputs,
+      response_mode: body.response_mode ?? existing.response_mode,
+      callback_url: body.callback_url !== undefined ? (body.callback_url ? String(body.callback_url).trim() : null) : existing.callback_url,
+      sync_timeout_seconds: body.sync_timeout_seconds !== undefined ? Number(body.sync_timeout_seconds) : existing.sync_timeout_seconds,
+      auto_approve: body.auto_approve !== undefined ? (body.auto_approve ? 1 : 0) : existing.auto_approve,
+      enabled: body.enabled !== undefined ? (body.enabled ? 1 : 0) : existing.enabled,
+    };
+
+    if (!parentExists(merged.parent_type, merged.parent_id)) {
+      res.status(404).json({ error: `${merged.parent_type === 'skill' ? 'Skill' : 'Workflow'} not found` });
+      return;
+    }
+
+    getDatabase().prepare(`
+      UPDATE workflow_webhooks
+      SET name = ?, parent_type = ?, parent_id = ?, field_mapping = ?, static_inputs = ?, response_mode = ?,
+          callback_url = ?, sync_timeout_seconds = ?, auto_approve = ?, enabled = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(
+      merged.name,
+      merged.parent_type,
+      merged.parent_id,
+      merged.field_mapping,
+      merged.static_inputs,
+      merged.response_mode,
+      merged.callback_url,
+      merged.sync_timeout_seconds,
+      merged.auto_approve,
+      merged.enabled,
+      existing.id
+    );
+
+    res.json(withDetails(getOwnedWebhook(existing.id, req.user!.id)!));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/webhooks/:id/rotate-secret — issue a new signing secret
+router.post('/:id/rotate-secret', requirePermission('assets:write'), (req: Request, res: Response) => {
+  try {
+    const existing = getOwnedWebhook(Number(req.params.id), req.user!.id);
+    if (!existing) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    getDatabase().prepare(
+      'UPDATE workflow_webhooks SET secret = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'
+    ).run(generateWebhookSecret(), existing.id);
+    res.json(withDetails(getOwnedWebhook(existing.id, req.user!.id)!));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// DELETE /api/webhooks/:id — delete webhook and its invocation history
+router.delete('/:id', requirePermission('assets:write'), (req: Request, res: Response) => {
+  try {
+    const existing = getOwnedWebhook(Number(req.params.id), req.user!.id);
+    if (!existing) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    getDatabase().prepare('DELETE FROM workflow_webhooks WHERE id = ?').run(existing.id);
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/webhooks/:id/invocations — invocation history
+router.get('/:id/invocations', (req: Request, res: Response) => {
+  try {
+    const existing = getOwnedWebhook(Number(req.params.id), req.user!.id);
+    if (!existing) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    const limit = Math.min(parseInt(String(req.query.limit || '50'), 10) || 50, 200);
+    const invocations = getDatabase().prepare(`
+      SELECT * FROM webhook_invocations
+      WHERE webhook_id = ?
+      ORDER BY received_at DESC
+      LIMIT ?
+    `).all(existing.id, limit);
+    res.json(invocations);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -1,18 +1,41 @@
 import { Router, Request, Response } from 'express';
-import { authMiddleware } from '../middleware/auth';
-import { getDatabase } from '../models/database';
+import { authMiddleware, requireAssetAccess, requirePermission } from '../middleware/auth';
+import { getDatabase, workspaceVisibilitySql } from '../models/database';
+import { deleteAssetShares } from '../services/workspaceService';
+import {
+  compareSkillVersions,
+  getSkillVersion,
+  listSkillVersions,
+  recordSkillVersion,
+  rollbackSkillVersion,
+} from '../services/skillVersions';
+import { exportSkillBundle, serializeBundle } from '../services/skillBundles';
+import {
+  SkillTestError,
+  createTestCase,
+  createTestRun,
+  deleteTestCase,
+  executeTestRun,
+  getLatestTestRun,
+  listTestCases,
+  updateTestCase,
+} from '../services/skillTests';
 
 const router = Router();
 router.use(authMiddleware);
 
+// Assets shared into the active workspace are readable; only their own workspace may change them
+const requireWorkflowRead = requireAssetAccess('workflow', 'read');
+const requireWorkflowWrite = requireAssetAccess('workflow', 'write');
+
 // GET /api/workflows — list all workflows
 router.get('/', (req: Request, res: Response) => {
   try {
     const db = getDatabase();
-    const userId = req.user!.id;
+    const workspaceId = req.workspaceId!;
     const workflows = db.prepare(
-      'SELECT * FROM workflows WHERE created_by = ? ORDER BY updated_at DESC'
-    ).all(userId) as any[];
+      `SELECT * FROM workflows a WHERE ${workspaceVisibilitySql('a', 'workflow')} ORDER BY updated_at DESC`
+    ).all(workspaceId, workspaceId) as any[];
 
     const withCounts = workflows.map(wf => {
       const stepCount = (db.prepare(
@@ -28,7 +51,7 @@ router.get('/', (req: Request, res: Response) => {
 });
 
 // POST /api/workflows — create workflow
-router.post('/', (req: Request, res: Response) => {
+router.post('/', requirePermission('assets:write'), (req: Request, res: Response) => {
   try {
     const db = getDatabase();
     const userId = req.user!.id;
@@ -40,8 +63,8 @@ router.post('/', (req: Request, res: Response) => {
     }
 
     const result = db.prepare(
-      'INSERT INTO workflows (name, description, created_by, tags) VALUES (?, ?, ?, ?)'
-    ).run(name, description || null, userId, JSON.stringify(tags || []));
+      'INSERT INTO workflows (name, description, created_by, workspace_id, tags) VALUES (?, ?, ?, ?, ?)'
+    ).run(name, description || null, userId, req.workspaceId, JSON.stringify(tags || []));
 
     const workflowId = Number(result.lastInsertRowid);
 
@@ -63,6 +86,8 @@ router.post('/', (req: Request, res: Response) => {
       }
     }
 
+    recordSkillVersion('workflow', workflowId, { source: 'create', createdBy: userId });
+
     const created = db.prepare('SELECT * FROM workflows WHERE id = ?').get(workflowId);
     res.status(201).json(created);
   } catch (error: any) {
@@ -71,7 +96,7 @@ router.post('/', (req: Request, res: Response) => {
 });
 
 // GET /api/workflows/:id — get workflow with steps
-router.get('/:id', (req: Request, res: Response) => {
+router.get('/:id', requireWorkflowRead, (req: Request, res: Response) => {
   try {
     const db = getDatabase();
     const wf = db.prepare('SELECT * FROM workflows WHERE id = ?').get(req.params.id) as any;
@@ -92,7 +117,7 @@ router.get('/:id', (req: Request, res: Response) => {
 });
 
 // PUT /api/workflows/:id
-router.put('/:id', (req: Request, res: Response) => {
+router.put('/:id', requirePermission('assets:write'), requireWorkflowWrite, (req: Request, res: Response) => {
   try {
     const db = getDatabase();
     const existing = db.prepare('SELECT * FROM workflows WHERE id = ?').get(req.params.id) as any;
@@ -103,6 +128,9 @@ router.put('/:id', (req: Request, res: Response) => {
 
     const { name, description, status, tags, steps } = req.body;
 
+    // Keep the definition being replaced, in case it predates versioning
+    recordSkillVersion('workflow', Number(req.params.id), { source: 'edit' });
+
     db.prepare(`
       UPDATE workflows SET name = ?, description = ?, status = ?, tags = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
     `).run(
@@ -115,6 +143,7 @@ router.put('/:id', (req: Request, res: Response) => {
 
     if (steps) {
       db.prepare("DELETE FROM skill_steps WHERE parent_id = ? AND parent_type = 'workflow'").run(req.params.id);
+    db.prepare("DELETE FROM skill_test_cases WHERE parent_id = ? AND parent_type = 'workflow'").run(req.params.id);
       const insertStep = db.prepare(`
         INSERT INTO skill_steps (parent_id, parent_type, step_order, step_name, step_type, ai_model, prompt_template, input_config, output_format, model_config, executor_config)
         VALUES (?, 'workflow', ?, ?, ?, ?, ?, ?, ?, ?, ?)
@@ -132,6 +161,8 @@ router.put('/:id', (req: Request, res: Response) => {
       }
     }
 
+    recordSkillVersion('workflow', Number(req.params.id), { source: 'edit', createdBy: req.user!.id });
+
     const updated = db.prepare('SELECT * FROM workflows WHERE id = ?').get(req.params.id);
     res.json(updated);
   } catch (error: any) {
@@ -140,7 +171,7 @@ router.put('/:id', (req: Request, res: Response) => {
 });
 
 // DELETE /api/workflows/:id
-router.delete('/:id', (req: Request, res: Response) => {
+router.delete('/:id', requirePermission('assets:write'), requireWorkflowWrite, (req: Request, res: Response) => {
   try {
     const db = getDatabase();
     const existing = db.prepare('SELECT * FROM workflows WHERE id = ?').get(req.params.id);
@@ -150,7 +181,9 @@ router.delete('/:id', (req: Request, res: Response) => {
     }
 
     db.prepare("DELETE FROM skill_steps WHERE parent_id = ? AND parent_type = 'workflow'").run(req.params.id);
+    db.prepare("DELETE FROM skill_test_cases WHERE parent_id = ? AND parent_type = 'workflow'").run(req.params.id);
     db.prepare('DELETE FROM workflows WHERE id = ?').run(req.params.id);
+    deleteAssetShares('workflow', Number(req.params.id));
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -158,7 +191,7 @@ router.delete('/:id', (req: Request, res: Response) => {
 });
 
 // POST /api/workflows/:id/clone
-router.post('/:id/clone', (req: Request, res: Response) => {
+router.post('/:id/clone', requirePermission('assets:write'), requireWorkflowRead, (req: Request, res: Response) => {
   try {
     const db = getDatabase();
     const userId = req.user!.id;
@@ -171,8 +204,8 @@ router.post('/:id/clone', (req: Request, res: Response) => {
 
     const newName = req.body.name || `${original.name} (Copy)`;
     const result = db.prepare(
-      'INSERT INTO workflows (name, description, created_by, tags) VALUES (?, ?, ?, ?)'
-    ).run(newName, original.description, userId, original.tags);
+      'INSERT INTO workflows (name, description, created_by, workspace_id, tags) VALUES (?, ?, ?, ?, ?)'
+    ).run(newName, original.description, userId, req.workspaceId, original.tags);
 
     const newId = Number(result.lastInsertRowid);
 
@@ -193,6 +226,8 @@ router.post('/:id/clone', (req: Request, res: Response) => {
       );
     }
 
+    recordSkillVersion('workflow', newId, { source: 'create', createdBy: userId, note: `Cloned from #${original.id}` });
+
     const cloned = db.prepare('SELECT * FROM workflows WHERE id = ?').get(newId);
     res.status(201).json(cloned);
   } catch (error: any) {
@@ -200,4 +235,150 @@ router.post('/:id/clone', (req: Request, res: Response) => {
   }
 });
 
+// GET /api/workflows/:id/versions — version history, newest first
+router.get('/:id/versions', requireWorkflowRead, (req: Request, res: Response) => {
+  try {
+    const workflowId = Number(req.params.id);
+    // Workflows saved before versioning get their current definition as the first version
+    if (!recordSkillVersion('workflow', workflowId, { source: 'edit' })) {
+      res.status(404).json({ error: 'Workflow not found' });
+      return;
+    }
+    res.json(listSkillVersions('workflow', workflowId));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/workflows/:id/versions/:version — one version with its steps
+router.get('/:id/versions/:version', requireWorkflowRead, (req: Request, res: Response) => {
+  try {
+    const version = getSkillVersion('workflow', Number(req.params.id), parseInt(req.params.version, 10));
+    if (!version) {
+      res.status(404).json({ error: 'Version not found' });
+      return;
+    }
+    res.json(version);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/workflows/:id/versions/:version/diff?against=N — changes since version N (default: the previous one)
+router.get('/:id/versions/:version/diff', requireWorkflowRead, (req: Request, res: Response) => {
+  try {
+    const against = req.query.against !== undefined ? parseInt(String(req.query.against), 10) : undefined;
+    const diff = compareSkillVersions('workflow', Number(req.params.id), parseInt(req.params.version, 10), against);
+    if (!diff) {
+      res.status(404).json({ error: 'Version not found' });
+      return;
+    }
+    res.json(diff);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/workflows/:id/versions/:version/rollback — make an old version current again
+router.post('/:id/versions/:version/rollback', requirePermission('assets:write'), requireWorkflowWrite, (req: Request, res: Response) => {
+  try {
+    const version = rollbackSkillVersion('workflow', Number(req.params.id), parseInt(req.params.version, 10), req.user!.id);
+    if (!version) {
+      res.status(404).json({ error: 'Version not found' });
+      return;
+    }
+    res.json(version);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/workflows/:id/tests — saved test cases and the latest run against the current definition
+router.get('/:id/tests', requireWorkflowRead, (req: Request, res: Response) => {
+  try {
+    const workflowId = Number(req.params.id);
+    res.json({ cases: listTestCases('workflow', workflowId), latest_run: getLatestTestRun('workflow', workflowId, null) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/workflows/:id/tests — save a test case
+router.post('/:id/tests', requirePermission('assets:write'), requireWorkflowWrite, (req: Request, res: Response) => {
+  try {
+    res.status(201).json(createTestCase('workflow', Number(req.params.id), req.body, req.user!.id));
+  } catch (error: any) {
+    if (error instanceof SkillTestError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PUT /api/workflows/:id/tests/:caseId
+router.put('/:id/tests/:caseId', requirePermission('assets:write'), requireWorkflowWrite, (req: Request, res: Response) => {
+  try {
+    const testCase = updateTestCase('workflow', Number(req.params.id), Number(req.params.caseId), req.body);
+    if (!testCase) {
+      res.status(404).json({ error: 'Test case not found' });
+      return;
+    }
+    res.json(testCase);
+  } catch (error: any) {
+    if (error instanceof SkillTestError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// DELETE /api/workflows/:id/tests/:caseId
+router.delete('/:id/tests/:caseId', requirePermission('assets:write'), requireWorkflowWrite, (req: Request, res: Response) => {
+  try {
+    if (!deleteTestCase('workflow', Number(req.params.id), Number(req.params.caseId))) {
+      res.status(404).json({ error: 'Test case not found' });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/workflows/:id/tests/run — run every test case against the current definition
+router.post('/:id/tests/run', requirePermission('assets:run_draft'), requireWorkflowRead, (req: Request, res: Response) => {
+  try {
+    const run = createTestRun('workflow', Number(req.params.id), req.user!.id);
+    // Cases run in the background; poll GET /:id/tests for the report
+    executeTestRun(run.id).catch(err => console.error(`[Workflows] Test run ${run.id} error:`, err));
+    res.status(202).json(run);
+  } catch (error: any) {
+    if (error instanceof SkillTestError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/workflows/:id/export?format=json|yaml — download as a portable bundle
+router.get('/:id/export', requireWorkflowRead, (req: Request, res: Response) => {
+  try {
+    const bundle = exportSkillBundle('workflow', Number(req.params.id), req.user!.id, req.workspaceId!);
+    if (!bundle) {
+      res.status(404).json({ error: 'Workflow not found' });
+      return;
+    }
+    const format = req.query.format === 'yaml' ? 'yaml' : 'json';
+    const filename = `${bundle.asset.name.replace(/[^\w.-]+/g, '_') || 'workflow'}.workflow.${format}`;
+    res.setHeader('Content-Type', format === 'yaml' ? 'application/yaml' : 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(serializeBundle(bundle, format));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 export default router;
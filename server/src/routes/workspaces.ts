@@ -0,0 +1,198 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { hasPermission } from '../services/permissions';
+import {
+  WorkspaceError,
+  addMember,
+  createWorkspace,
+  getMembershipRole,
+  getWorkspace,
+  getWorkspaceUsage,
+  isWorkspaceAdmin,
+  listAllWorkspaces,
+  listMembers,
+  listShares,
+  listUserWorkspaces,
+  removeMember,
+  setMemberRole,
+  shareAsset,
+  unshareAsset,
+  updateWorkspace,
+} from '../services/workspaceService';
+
+const router = Router();
+router.use(authMiddleware);
+
+function sendWorkspaceError(res: Response, error: any): void {
+  if (error instanceof WorkspaceError) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+  res.status(500).json({ error: error.message });
+}
+
+function workspaceIdParam(req: Request): number {
+  return parseInt(req.params.id, 10);
+}
+
+// Members may view a workspace; users:manage admins may view any
+function requireWorkspaceMember(req: Request, res: Response, next: NextFunction): void {
+  const workspaceId = workspaceIdParam(req);
+  if (!getWorkspace(workspaceId)) {
+    res.status(404).json({ error: 'Workspace not found' });
+    return;
+  }
+  if (getMembershipRole(workspaceId, req.user!.id) === null && !hasPermission(req.user, 'users:manage')) {
+    res.status(403).json({ error: 'Access denied' });
+    return;
+  }
+  next();
+}
+
+// Workspace admins manage members, quotas and sharing; so may users:manage admins
+function requireWorkspaceAdmin(req: Request, res: Response, next: NextFunction): void {
+  const workspaceId = workspaceIdParam(req);
+  if (!getWorkspace(workspaceId)) {
+    res.status(404).json({ error: 'Workspace not found' });
+    return;
+  }
+  if (!isWorkspaceAdmin(workspaceId, req.user!.id) && !hasPermission(req.user, 'users:manage')) {
+    res.status(403).json({ error: 'Workspace admin access required' });
+    return;
+  }
+  next();
+}
+
+// GET /api/workspaces - Workspaces the current user belongs to
+router.get('/', (req: Request, res: Response) => {
+  try {
+    res.json(listUserWorkspaces(req.user!.id));
+  } catch (error: any) {
+    sendWorkspaceError(res, error);
+  }
+});
+
+// GET /api/workspaces/all - Every workspace, e.g. as share targets
+router.get('/all', (req: Request, res: Response) => {
+  try {
+    res.json(listAllWorkspaces().map(({ id, name }) => ({ id, name })));
+  } catch (error: any) {
+    sendWorkspaceError(res, error);
+  }
+});
+
+// POST /api/workspaces - Create a workspace; the creator becomes its admin
+router.post('/', requirePermission('assets:write'), (req: Request, res: Response) => {
+  try {
+    const workspace = createWorkspace(req.body.name, req.user!.id, req.body.monthly_request_quota);
+    res.status(201).json(workspace);
+  } catch (error: any) {
+    sendWorkspaceError(res, error);
+  }
+});
+
+// POST /api/workspaces/shares - Share an asset with a workspace, or publish it (workspace_id null)
+router.post('/shares', (req: Request, res: Response) => {
+  try {
+    const { asset_type, asset_id, workspace_id } = req.body;
+    const share = shareAsset(
+      asset_type,
+      Number(asset_id),
+      workspace_id === null || workspace_id === undefined ? null : Number(workspace_id),
+      req.user!.id
+    );
+    res.status(201).json(share);
+  } catch (error: any) {
+    sendWorkspaceError(res, error);
+  }
+});
+
+// DELETE /api/workspaces/shares/:shareId - Stop sharing an asset
+router.delete('/shares/:shareId', (req: Request, res: Response) => {
+  try {
+    unshareAsset(parseInt(req.params.shareId, 10), req.user!.id);
+    res.json({ success: true });
+  } catch (error: any) {
+    sendWorkspaceError(res, error);
+  }
+});
+
+// GET /api/workspaces/:id - Workspace with its members
+router.get('/:id', requireWorkspaceMember, (req: Request, res: Response) => {
+  try {
+    const workspaceId = workspaceIdParam(req);
+    res.json({
+      ...getWorkspace(workspaceId),
+      role: getMembershipRole(workspaceId, req.user!.id),
+      members: listMembers(workspaceId),
+    });
+  } catch (error: any) {
+    sendWorkspaceError(res, error);
+  }
+});
+
+// PUT /api/workspaces/:id - Rename or change the monthly request quota
+router.put('/:id', requireWorkspaceAdmin, (req: Request, res: Response) => {
+  try {
+    const { name, monthly_request_quota, monthly_budget_usd, budget_warn_percent } = req.body;
+    res.json(updateWorkspace(workspaceIdParam(req), { name, monthly_request_quota, monthly_budget_usd, budget_warn_percent }));
+  } catch (error: any) {
+    sendWorkspaceError(res, error);
+  }
+});
+
+// POST /api/workspaces/:id/members - Add an existing account by email
+router.post('/:id/members', requireWorkspaceAdmin, (req: Request, res: Response) => {
+  try {
+    const member = addMember(workspaceIdParam(req), req.body.email, req.body.role ?? 'member');
+    res.status(201).json(member);
+  } catch (error: any) {
+    sendWorkspaceError(res, error);
+  }
+});
+
+// PUT /api/workspaces/:id/members/:userId - Change a member's workspace role
+router.put('/:id/members/:userId', requireWorkspaceAdmin, (req: Request, res: Response) => {
+  try {
+    setMemberRole(workspaceIdParam(req), parseInt(req.params.userId, 10), req.body.role);
+    res.json({ success: true });
+  } catch (error: any) {
+    sendWorkspaceError(res, error);
+  }
+});
+
+// DELETE /api/workspaces/:id/members/:userId - Remove a member (members may leave)
+router.delete('/:id/members/:userId', (req: Request, res: Response, next: NextFunction) => {
+  if (parseInt(req.params.userId, 10) === req.user!.id) {
+    requireWorkspaceMember(req, res, next);
+    return;
+  }
+  requireWorkspaceAdmin(req, res, next);
+}, (req: Request, res: Response) => {
+  try {
+    removeMember(workspaceIdParam(req), parseInt(req.params.userId, 10));
+    res.json({ success: true });
+  } catch (error: any) {
+    sendWorkspaceError(res, error);
+  }
+});
+
+// GET /api/workspaces/:id/usage - This month's usage against the quota
+router.get('/:id/usage', requireWorkspaceMember, (req: Request, res: Response) => {
+  try {
+    res.json(getWorkspaceUsage(workspaceIdParam(req)));
+  } catch (error: any) {
+    sendWorkspaceError(res, error);
+  }
+});
+
+// GET /api/workspaces/:id/shares - Assets this workspace shares or publishes
+router.get('/:id/shares', requireWorkspaceMember, (req: Request, res: Response) => {
+  try {
+    res.json(listShares(workspaceIdParam(req)));
+  } catch (error: any) {
+    sendWorkspaceError(res, error);
+  }
+});
+
+export default router;
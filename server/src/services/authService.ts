@@ -0,0 +1,268 @@
+import crypto from 'crypto';
+import { getDatabase, queries } from '../models/database';
+import { Permission, User, UserPublic, UserRole } from '../types';
+import { isUserRole, permissionsForRole } from './permissions';
+
+const SCRYPT_KEY_LENGTH = 64;
+const SESSION_TTL_DAYS = Number(process.env.AUTH_SESSION_TTL_DAYS) || 30;
+const MIN_PASSWORD_LENGTH = 8;
+// Password hash of accounts created for unlinked chat users; never verifies
+const EXTERNAL_PLACEHOLDER_HASH = 'external_identity';
+// Unlinked chat users can talk to the agent, which only runs active skills
+const EXTERNAL_PLACEHOLDER_ROLE: UserRole = 'operator';
+
+export const DEMO_USER_EMAIL = 'demo@novohaven.com';
+
+export class AuthError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export function toUserPublic(user: User): UserPublic {
+  return {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    permissions: permissionsForRole(user.role),
+    created_at: user.created_at,
+  };
+}
+
+function defaultUserRole(): UserRole {
+  const configured = process.env.DEFAULT_USER_ROLE;
+  return isUserRole(configured) ? configured : 'viewer';
+}
+
+// An admin whose password can actually be used to sign in
+function hasUsableAdmin(): boolean {
+  const admins = getDatabase().prepare(
+    "SELECT password_hash FROM users WHERE role = 'admin'"
+  ).all() as Array<{ password_hash: string }>;
+  return admins.some(a => a.password_hash.startsWith('scrypt$'));
+}
+
+/** Hash a password as `scrypt$<salt>$<hash>`. */
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+/** Accounts created before real auth have a placeholder hash and never verify. */
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = String(stored || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Registering with ADMIN_BOOTSTRAP_TOKEN is the only way to become admin while no admin can sign in.
+// An upgraded install looks just like a fresh one (the seeded demo admin has no password), so
+// promoting whoever registers first would let anyone who reaches the server take it over.
+function matchesBootstrapToken(token: unknown): boolean {
+  const configured = process.env.ADMIN_BOOTSTRAP_TOKEN;
+  if (!configured || typeof token !== 'string' || !token) return false;
+  return crypto.timingSafeEqual(Buffer.from(hashToken(token), 'hex'), Buffer.from(hashToken(configured), 'hex'));
+}
+
+function normalizeEmail(email: unknown): string {
+  return String(email || '').trim().toLowerCase();
+}
+
+/** Issue a session token. Only its hash is stored, so a leaked database cannot be replayed. */
+export function createAuthSession(userId: number): { token: string; expiresAt: string } {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  getDatabase().prepare(
+    'INSERT INTO auth_sessions (user_id, token_hash, expires_at) VALUES (?, ?, ?)'
+  ).run(userId, hashToken(token), expiresAt);
+  return { token, expiresAt };
+}
+
+/** Resolve a bearer token to its user, or null when it is unknown or expired. */
+export function resolveAuthToken(token: string | undefined | null): UserPublic | null {
+  if (!token) return null;
+  const db = getDatabase();
+  const session = db.prepare(
+    'SELECT id, user_id, expires_at FROM auth_sessions WHERE token_hash = ?'
+  ).get(hashToken(token)) as { id: number; user_id: number; expires_at: string } | undefined;
+  if (!session) return null;
+
+  if (new Date(session.expires_at).getTime() <= Date.now()) {
+    db.prepare('DELETE FROM auth_sessions WHERE id = ?').run(session.id);
+    return null;
+  }
+
+  const user = queries.getUserById(session.user_id) as User | undefined;
+  if (!user) return null;
+  db.prepare('UPDATE auth_sessions SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?').run(session.id);
+  return toUserPublic(user);
+}
+
+export function revokeAuthToken(token: string): void {
+  getDatabase().prepare('DELETE FROM auth_sessions WHERE token_hash = ?').run(hashToken(token));
+}
+
+export function authenticate(email: unknown, password: unknown): User {
+  const user = queries.getUserByEmail(normalizeEmail(email)) as User | undefined;
+  if (!user || !verifyPassword(String(password || ''), user.password_hash)) {
+    throw new AuthError('Invalid email or password', 401);
+  }
+  return user;
+}
+
+export function registerUser(email: unknown, password: unknown, bootstrapToken?: unknown): User {
+  const normalized = normalizeEmail(email);
+  if (!/^[^\s@]+@[^\s@]+$/.test(normalized)) {
+    throw new AuthError('A valid email is required');
+  }
+  if (String(password || '').length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if (queries.getUserByEmail(normalized)) {
+    throw new AuthError('An account with this email already exists', 409);
+  }
+
+  let role = defaultUserRole();
+  if (bootstrapToken !== undefined && bootstrapToken !== null && bootstrapToken !== '') {
+    if (hasUsableAdmin()) {
+      throw new AuthError('An admin already exists', 409);
+    }
+    if (!matchesBootstrapToken(bootstrapToken)) {
+      throw new AuthError('Invalid bootstrap token', 403);
+    }
+    role = 'admin';
+  }
+  const result = queries.createUser(normalized, hashPassword(String(password)), role);
+  return queries.getUserById(Number(result.lastInsertRowid)) as User;
+}
+
+export function userHasPermission(userId: number, permission: Permission): boolean {
+  const user = queries.getUserById(userId) as User | undefined;
+  return !!user && permissionsForRole(user.role).includes(permission);
+}
+
+export function setUserRole(userId: number, role: unknown): User {
+  if (!isUserRole(role)) {
+    throw new AuthError('Invalid role');
+  }
+  const user = queries.getUserById(userId) as User | undefined;
+  if (!user) {
+    throw new AuthError('User not found', 404);
+  }
+  if (user.role === 'admin' && role !== 'admin') {
+    const { count } = getDatabase().prepare(
+      "SELECT COUNT(*) as count FROM users WHERE role = 'admin'"
+    ).get() as { count: number };
+    if (count <= 1) {
+      throw new AuthError('At least one admin is required', 409);
+    }
+  }
+  queries.updateUserRole(role, userId);
+  return { ...user, role };
+}
+
+/**
+ * The seeded demo account has no usable password. Setting DEMO_USER_PASSWORD
+ * gives it one, so existing single-user installs keep access to their data.
+ */
+export function applyDemoUserPassword(): void {
+  const password = process.env.DEMO_USER_PASSWORD;
+  if (!password) return;
+  const user = queries.getUserByEmail(DEMO_USER_EMAIL) as User | undefined;
+  if (!user || verifyPassword(password, user.password_hash)) return;
+  getDatabase().prepare('UPDATE users SET password_hash = ? WHERE id = ?').run(hashPassword(password), user.id);
+  console.log(`[Auth] Password set for ${DEMO_USER_EMAIL} from DEMO_USER_PASSWORD`);
+}
+
+// --- External identities (e.g. Lark open_id → user) ---
+
+export interface UserIdentity {
+  id: number;
+  user_id: number;
+  provider: string;
+  external_id: string;
+  created_at: string;
+}
+
+export function findUserIdByIdentity(provider: string, externalId: string): number | null {
+  const row = getDatabase().prepare(
+    'SELECT user_id FROM user_identities WHERE provider = ? AND external_id = ?'
+  ).get(provider, externalId) as { user_id: number } | undefined;
+  return row ? row.user_id : null;
+}
+
+function linkIdentity(userId: number, provider: string, externalId: string): void {
+  getDatabase().prepare(`
+    INSERT INTO user_identities (user_id, provider, external_id) VALUES (?, ?, ?)
+    ON CONFLICT(provider, external_id) DO UPDATE SET user_id = excluded.user_id
+  `).run(userId, provider, externalId);
+}
+
+const LINK_CODE_TTL_MS = 10 * 60 * 1000;
+const linkCodes = new Map<string, { userId: number; expiresAt: number }>();
+
+/**
+ * One-time code a logged-in user sends from a chat platform (`/link CODE`)
+ * to prove the chat account is theirs.
+ */
+export function createLinkCode(userId: number): { code: string; expiresAt: string } {
+  const now = Date.now();
+  for (const [code, entry] of linkCodes) {
+    if (entry.expiresAt <= now || entry.userId === userId) linkCodes.delete(code);
+  }
+  const code = crypto.randomBytes(4).toString('hex').toUpperCase();
+  linkCodes.set(code, { userId, expiresAt: now + LINK_CODE_TTL_MS });
+  return { code, expiresAt: new Date(now + LINK_CODE_TTL_MS).toISOString() };
+}
+
+/** Link the chat identity to the code's owner; returns the user id, or null for a bad code. */
+export function redeemLinkCode(code: string, provider: string, externalId: string): number | null {
+  const key = String(code || '').trim().toUpperCase();
+  const entry = linkCodes.get(key);
+  if (!entry) return null;
+  linkCodes.delete(key);
+  if (entry.expiresAt <= Date.now()) return null;
+  linkIdentity(entry.userId, provider, externalId);
+  return entry.userId;
+}
+
+export function listIdentities(userId: number): UserIdentity[] {
+  return getDatabase().prepare(
+    'SELECT * FROM user_identities WHERE user_id = ? ORDER BY created_at'
+  ).all(userId) as UserIdentity[];
+}
+
+export function unlinkIdentity(userId: number, identityId: number): boolean {
+  return getDatabase().prepare(
+    'DELETE FROM user_identities WHERE id = ? AND user_id = ?'
+  ).run(identityId, userId).changes > 0;
+}
+
+/**
+ * Map a chat platform user to an account. Unknown users get a placeholder
+ * account of their own (which cannot log in) until a real user links the
+ * identity, so their sessions never land in someone else's workspace.
+ */
+export function resolveExternalUser(provider: string, externalId: string): number {
+  const linked = findUserIdByIdentity(provider, externalId);
+  if (linked !== null) return linked;
+
+  const email = `${provider}:${externalId}@users.novohaven.local`;
+  let user = queries.getUserByEmail(email) as User | undefined;
+  if (!user) {
+    const result = queries.createUser(email, EXTERNAL_PLACEHOLDER_HASH, EXTERNAL_PLACEHOLDER_ROLE);
+    user = queries.getUserById(Number(result.lastInsertRowid)) as User;
+  }
+  getDatabase().prepare(
+    'INSERT OR IGNORE INTO user_identities (user_id, provider, external_id) VALUES (?, ?, ?)'
+  ).run(user.id, provider, externalId);
+  return user.id;
+}
@@ -0,0 +1,190 @@
+// Minimal 5-field cron parser: "minute hour day-of-month month day-of-week".
+// Supports *, numbers, ranges (1-5), steps (*/15, 1-30/5), lists (1,15),
+// month/day names (JAN, MON) and the @hourly/@daily/@weekly/@monthly aliases.
+// Times are evaluated in the server's local timezone.
+
+export interface ParsedCron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /**
+   * Cron semantics: when both day fields are restricted, either one may match.
+   * As in Vixie cron, a field starting with "*" (steps over the full range too) is not restricted.
+   */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// Search horizon for the next run (covers leap-day schedules)
+const MAX_LOOKAHEAD_YEARS = 5;
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  nameOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+function parseValue(raw: string, spec: FieldSpec): number {
+  const upper = raw.toUpperCase();
+  if (spec.names) {
+    const idx = spec.names.indexOf(upper);
+    if (idx >= 0) return idx + (spec.nameOffset || 0);
+  }
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(`Invalid ${spec.name} value "${raw}"`);
+  }
+  const value = parseInt(raw, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new Error(`${spec.name} value ${value} is out of range (${spec.min}-${spec.max})`);
+  }
+  return value;
+}
+
+function parseField(raw: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of raw.split(',')) {
+    if (!part) throw new Error(`Empty entry in ${spec.name} field`);
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step <= 0) {
+      throw new Error(`Invalid step "${stepPart}" in ${spec.name} field`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) throw new Error(`Invalid range "${rangePart}" in ${spec.name} field`);
+    } else {
+      start = parseValue(rangePart, spec);
+      end = stepPart === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCronExpression(expression: string): ParsedCron {
+  const normalized = String(expression || '').trim().replace(/\s+/g, ' ');
+  const expanded = ALIASES[normalized.toLowerCase()] || normalized;
+  const parts = expanded.split(' ');
+  if (parts.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, rawDaysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i]));
+
+  // 7 is an alias for Sunday
+  const daysOfWeek = new Set(Array.from(rawDaysOfWeek).map(day => day % 7));
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !parts[2].startsWith('*'),
+    dayOfWeekRestricted: !parts[4].startsWith('*'),
+  };
+}
+
+export function validateCronExpression(expression: string): { valid: boolean; error?: string } {
+  try {
+    parseCronExpression(expression);
+    return { valid: true };
+  } catch (error: any) {
+    return { valid: false, error: error.message };
+  }
+}
+
+function matchesDay(cron: ParsedCron, date: Date): boolean {
+  const domMatch = cron.daysOfMonth.has(date.getDate());
+  const dowMatch = cron.daysOfWeek.has(date.getDay());
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) return domMatch || dowMatch;
+  return domMatch && dowMatch;
+}
+
+/**
+ * Next time strictly after `from` that matches the expression, or null
+ * if nothing matches within the lookahead window (e.g. "0 0 31 2 *").
+ */
+export function getNextRunTime(expression: string | ParsedCron, from: Date = new Date()): Date | null {
+  const cron = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+  const candidate = new Date(from.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+  const horizon = new Date(candidate.getTime());
+  horizon.setFullYear(horizon.getFullYear() + MAX_LOOKAHEAD_YEARS);
+
+  while (candidate <= horizon) {
+    if (!cron.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+
+  return null;
+}
+
+export function getNextRunTimes(expression: string, count: number, from: Date = new Date()): Date[] {
+  const cron = parseCronExpression(expression);
+  const runs: Date[] = [];
+  let cursor = from;
+  while (runs.length < count) {
+    const next = getNextRunTime(cron, cursor);
+    if (!next) break;
+    runs.push(next);
+    cursor = next;
+  }
+  return runs;
+}
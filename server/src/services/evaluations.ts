@@ -0,0 +1,492 @@
+import { queries } from '../models/database';
+import { callAIByModel, getAllModels, getModelInfo } from './aiService';
+import {
+  GraphParent,
+  ParentType,
+  SkillStepRow,
+  ensureExecutionRecipeFromGraph,
+  getFinalOutput,
+  loadGraphParent,
+} from './executionBridge';
+import { computeCost, getModelPrice } from './llmUsageService';
+import { compilePrompt } from './promptParser';
+import { extractJson, parseOutputSchema } from './structuredOutput';
+import { AUTO_RUN_STEP_TYPES, LIVE_STEP_TYPES, startExecution, waitForExecution } from './workflowEngine';
+import { canReadAsset } from './workspaceService';
+import {
+  AIServiceConfig,
+  Evaluation,
+  EvaluationJudge,
+  EvaluationResult,
+  EvaluationVariant,
+  LlmUsageContext,
+  RecipeStep,
+  StepExecution,
+  StepExecutionStatus,
+  StepType,
+} from '../types';
+
+/**
+ * Side-by-side evaluations: run one AI step (or a whole skill/workflow) for
+ * every model/prompt variant over a dataset of inputs, record each output
+ * with its latency, tokens and cost, and score the outputs by hand or with an
+ * LLM judge.
+ */
+
+export class EvaluationError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+const MAX_VARIANTS = 6;
+const MAX_ROWS = 50;
+const MAX_CELLS = 200;
+// How long one whole-workflow cell may run before it is reported as failed
+const CELL_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface EvaluationInput {
+  name?: unknown;
+  parent_type?: unknown;
+  parent_id?: unknown;
+  step_order?: unknown;
+  variants?: unknown;
+  dataset?: unknown;
+  judge?: unknown;
+}
+
+export interface EvaluationWithConfig extends Omit<Evaluation, 'variants' | 'dataset' | 'judge'> {
+  variants: EvaluationVariant[];
+  dataset: Array<Record<string, any>>;
+  judge: EvaluationJudge | null;
+}
+
+export interface EvaluationVariantSummary {
+  variant_index: number;
+  label: string;
+  model: string;
+  completed: number;
+  failed: number;
+  avg_latency_ms: number | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+  avg_judge_score: number | null;
+  avg_human_score: number | null;
+}
+
+export interface EvaluationReport {
+  evaluation: EvaluationWithConfig;
+  results: EvaluationResult[];
+  summary: EvaluationVariantSummary[];
+}
+
+interface CellOutcome {
+  status: 'completed' | 'failed';
+  output: string | null;
+  error: string | null;
+  latencyMs: number | null;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  costUsd: number | null;
+  executionId: number | null;
+}
+
+function parseJson<T>(raw: string | null | undefined, fallback: T): T {
+  try {
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function withConfig(evaluation: Evaluation): EvaluationWithConfig {
+  return {
+    ...evaluation,
+    variants: parseJson(evaluation.variants, []),
+    dataset: parseJson(evaluation.dataset, []),
+    judge: parseJson(evaluation.judge, null),
+  };
+}
+
+const stepTypeOf = (step: SkillStepRow) => (step.step_type === 'scraping' ? 'browser' : step.step_type || 'ai');
+
+// Check an evaluation from the API against its skill/workflow and the model catalog
+function normalizeEvaluation(
+  input: EvaluationInput,
+  userId: number,
+  workspaceId: number
+): {
+  name: string;
+  parentType: ParentType;
+  parentId: number;
+  stepOrder: number | null;
+  variants: EvaluationVariant[];
+  dataset: Array<Record<string, any>>;
+  judge: EvaluationJudge | null;
+} {
+  const errors: string[] = [];
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) errors.push('name is required');
+
+  const parentType = input.parent_type as ParentType;
+  const parentId = Number(input.parent_id);
+  if (parentType !== 'skill' && parentType !== 'workflow') {
+    throw new EvaluationError('parent_type must be skill or workflow');
+  }
+  const { parent, steps } = loadGraphParent(parentType, parentId);
+  if (!parent || !canReadAsset(parentType, parentId, userId, workspaceId)) {
+    throw new EvaluationError(`${parentType === 'skill' ? 'Skill' : 'Workflow'} not found`, 404);
+  }
+
+  let stepOrder: number | null = null;
+  if (input.step_order !== undefined && input.step_order !== null && input.step_order !== '') {
+    stepOrder = Number(input.step_order);
+    const step = steps.find((candidate) => candidate.step_order === stepOrder);
+    if (!step) errors.push(`Step ${input.step_order} not found`);
+    else if (stepTypeOf(step) !== 'ai') errors.push(`Step ${stepOrder} is not an AI step`);
+  }
+
+  const knownModels = new Set(getAllModels().map((model) => model.id));
+  const variants: EvaluationVariant[] = [];
+  if (!Array.isArray(input.variants) || input.variants.length === 0) {
+    errors.push('at least one variant is required');
+  } else if (input.variants.length > MAX_VARIANTS) {
+    errors.push(`at most ${MAX_VARIANTS} variants are allowed`);
+  } else {
+    input.variants.forEach((raw: any, index: number) => {
+      const model = String(raw?.model || '').trim();
+      if (!knownModels.has(model)) {
+        errors.push(`Variant ${index + 1}: unknown model "${model}"`);
+        return;
+      }
+      const prompt = typeof raw.prompt_template === 'string' && raw.prompt_template.trim() ? raw.prompt_template : null;
+      if (prompt && stepOrder === null) errors.push(`Variant ${index + 1}: prompt variants need a step`);
+      variants.push({ label: String(raw.label || '').trim() || model, model, prompt_template: prompt });
+    });
+  }
+
+  const dataset = input.dataset;
+  if (!Array.isArray(dataset) || dataset.length === 0) {
+    errors.push('the dataset needs at least one row of inputs');
+  } else if (dataset.length > MAX_ROWS) {
+    errors.push(`the dataset can have at most ${MAX_ROWS} rows`);
+  } else if (!dataset.every(isPlainObject)) {
+    errors.push('every dataset row must be an object of inputs');
+  } else if (dataset.length * variants.length > MAX_CELLS) {
+    errors.push(`variants × rows can be at most ${MAX_CELLS}`);
+  }
+
+  let judge: EvaluationJudge | null = null;
+  if (input.judge) {
+    const raw = input.judge as Record<string, any>;
+    const model = String(raw.model || '').trim();
+    const rubric = String(raw.rubric || '').trim();
+    if (!knownModels.has(model)) errors.push(`Judge: unknown model "${model}"`);
+    if (!rubric) errors.push('Judge: rubric is required');
+    judge = { model, rubric };
+  }
+
+  if (errors.length > 0) throw new EvaluationError(errors.join('; '));
+  return { name, parentType, parentId, stepOrder, variants, dataset: dataset as Array<Record<string, any>>, judge };
+}
+
+export function createEvaluation(
+  input: EvaluationInput,
+  userId: number,
+  workspaceId: number
+): EvaluationWithConfig {
+  const { name, parentType, parentId, stepOrder, variants, dataset, judge } = normalizeEvaluation(input, userId, workspaceId);
+  const result = queries.createEvaluation(
+    name, parentType, parentId, stepOrder, JSON.stringify(variants), JSON.stringify(dataset),
+    judge ? JSON.stringify(judge) : null, workspaceId, userId
+  );
+  return withConfig(queries.getEvaluationById(Number(result.lastInsertRowid)) as Evaluation);
+}
+
+export function listEvaluations(workspaceId: number): EvaluationWithConfig[] {
+  return (queries.getEvaluations(workspaceId) as Evaluation[]).map(withConfig);
+}
+
+function summarize(evaluation: EvaluationWithConfig, results: EvaluationResult[]): EvaluationVariantSummary[] {
+  const average = (values: number[]) => (
+    values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100 : null
+  );
+  return evaluation.variants.map((variant, index) => {
+    const cells = results.filter((result) => result.variant_index === index);
+    const completed = cells.filter((result) => result.status === 'completed');
+    return {
+      variant_index: index,
+      label: variant.label,
+      model: variant.model,
+      completed: completed.length,
+      failed: cells.filter((result) => result.status === 'failed').length,
+      avg_latency_ms: average(completed.map((result) => result.latency_ms ?? 0)),
+      prompt_tokens: completed.reduce((sum, result) => sum + (result.prompt_tokens ?? 0), 0),
+      completion_tokens: completed.reduce((sum, result) => sum + (result.completion_tokens ?? 0), 0),
+      cost_usd: completed.reduce((sum, result) => sum + (result.cost_usd ?? 0), 0),
+      avg_judge_score: average(cells.flatMap((result) => (result.judge_score === null ? [] : [result.judge_score]))),
+      avg_human_score: average(cells.flatMap((result) => (result.human_score === null ? [] : [result.human_score]))),
+    };
+  });
+}
+
+/**
+ * An evaluation with every cell of its grid and per-variant totals, or null
+ * if it doesn't exist in the workspace.
+ */
+export function getEvaluationReport(id: number, workspaceId: number): EvaluationReport | null {
+  const evaluation = queries.getEvaluationById(id) as Evaluation | undefined;
+  if (!evaluation || evaluation.workspace_id !== workspaceId) return null;
+  const parsed = withConfig(evaluation);
+  const results = queries.getEvaluationResults(id) as EvaluationResult[];
+  return { evaluation: parsed, results, summary: summarize(parsed, results) };
+}
+
+/**
+ * Clear any earlier results and lay out a pending cell per variant and row.
+ * The cells run in `executeEvaluation`.
+ */
+export function startEvaluation(id: number): void {
+  const evaluation = withConfig(queries.getEvaluationById(id) as Evaluation);
+  if (evaluation.status === 'running') throw new EvaluationError('Evaluation is already running', 409);
+
+  queries.resetEvaluationResults(id);
+  evaluation.dataset.forEach((_row, rowIndex) => {
+    evaluation.variants.forEach((_variant, variantIndex) => queries.createEvaluationResult(id, variantIndex, rowIndex));
+  });
+  queries.setEvaluationStatus('running', id);
+}
+
+export function deleteEvaluation(id: number): void {
+  const evaluation = queries.getEvaluationById(id) as Evaluation;
+  if (evaluation.status === 'running') throw new EvaluationError('Evaluation is still running', 409);
+  queries.deleteEvaluation(id);
+}
+
+export const INTERRUPTED_EVALUATION_ERROR = 'Interrupted by a server restart';
+
+/**
+ * Evaluations run in the background, so a restart leaves them "running" with
+ * nothing working on them, and they could then be neither re-run nor deleted.
+ * At boot, fail them and their unfinished cells.
+ */
+export function recoverInterruptedEvaluations(): number[] {
+  const evaluations = queries.getRunningEvaluations() as Evaluation[];
+  for (const evaluation of evaluations) {
+    queries.failPendingEvaluationResults(INTERRUPTED_EVALUATION_ERROR, evaluation.id);
+    queries.setEvaluationStatus('failed', evaluation.id);
+  }
+  return evaluations.map((evaluation) => evaluation.id);
+}
+
+/**
+ * Run every pending cell, one at a time, then score the outputs with the
+ * judge if there is one. A cell that fails is recorded and the rest go on.
+ */
+export async function executeEvaluation(id: number): Promise<void> {
+  const evaluation = withConfig(queries.getEvaluationById(id) as Evaluation);
+  const { parent, steps } = loadGraphParent(evaluation.parent_type, evaluation.parent_id);
+  const userId = evaluation.created_by ?? 1;
+  const usage: LlmUsageContext = {
+    userId,
+    workspaceId: evaluation.workspace_id,
+    source: 'model_test',
+    skillId: evaluation.parent_type === 'skill' ? evaluation.parent_id : null,
+    workflowId: evaluation.parent_type === 'workflow' ? evaluation.parent_id : null,
+  };
+
+  try {
+    for (const cell of queries.getEvaluationResults(id) as EvaluationResult[]) {
+      const variant = evaluation.variants[cell.variant_index];
+      const row = evaluation.dataset[cell.row_index];
+      let outcome: CellOutcome;
+      try {
+        if (!parent) throw new Error(`The ${evaluation.parent_type} no longer exists`);
+        outcome = evaluation.step_order !== null
+          ? await runStepCell(steps, evaluation.step_order, variant, row, usage)
+          : await runWorkflowCell(evaluation, parent, steps, cell.variant_index, row, userId);
+      } catch (error: any) {
+        outcome = failedCell(error.message);
+      }
+      queries.completeEvaluationResult(
+        outcome.status, outcome.output, outcome.error, outcome.latencyMs, outcome.promptTokens,
+        outcome.completionTokens, outcome.costUsd, outcome.executionId, cell.id
+      );
+
+      if (evaluation.judge && outcome.status === 'completed') {
+        const { score, reason } = await judgeOutput(evaluation.judge, row, outcome.output || '', usage);
+        queries.setEvaluationJudgeScore(score, reason, cell.id);
+      }
+    }
+    queries.setEvaluationStatus('completed', id);
+  } catch (error) {
+    queries.setEvaluationStatus('failed', id);
+    throw error;
+  }
+}
+
+function failedCell(error: string, extra: Partial<CellOutcome> = {}): CellOutcome {
+  return {
+    status: 'failed',
+    output: null,
+    error,
+    latencyMs: null,
+    promptTokens: null,
+    completionTokens: null,
+    costUsd: null,
+    executionId: null,
+    ...extra,
+  };
+}
+
+// Dataset rows stand in for earlier steps with `step_N_output` fields
+function rowStepOutputs(row: Record<string, any>): StepExecution[] {
+  return Object.entries(row).flatMap(([key, value]) => {
+    const match = /^step_(\d+)_output$/.exec(key);
+    if (!match) return [];
+    return [{
+      step_order: Number(match[1]),
+      status: 'completed' as StepExecutionStatus,
+      output_data: JSON.stringify({ content: typeof value === 'string' ? value : JSON.stringify(value) }),
+    } as StepExecution];
+  });
+}
+
+// One call of the step's prompt (or the variant's) on the variant's model
+async function runStepCell(
+  steps: SkillStepRow[],
+  stepOrder: number,
+  variant: EvaluationVariant,
+  row: Record<string, any>,
+  usage: LlmUsageContext
+): Promise<CellOutcome> {
+  const step = steps.find((candidate) => candidate.step_order === stepOrder);
+  if (!step) return failedCell(`Step ${stepOrder} no longer exists`);
+
+  const { compiledPrompt, unresolvedVariables, images } = compilePrompt(
+    variant.prompt_template || step.prompt_template || '',
+    { userId: usage.userId, workspaceId: usage.workspaceId, userInputs: row, stepExecutions: rowStepOutputs(row) }
+  );
+  if (unresolvedVariables.length > 0) return failedCell(`Unresolved variables: ${unresolvedVariables.join(', ')}`);
+
+  const config: AIServiceConfig = { ...parseJson(step.model_config, {}), usage };
+  if (images.length > 0) config.images = images;
+  const schema = parseOutputSchema(step as unknown as RecipeStep);
+  if (schema) config.responseSchema = { name: 'step_output', schema };
+
+  const started = Date.now();
+  const response = await callAIByModel(variant.model, compiledPrompt, config);
+  const latencyMs = Date.now() - started;
+  if (!response.success) return failedCell(response.error || 'AI call failed', { latencyMs });
+
+  const promptTokens = response.usage?.promptTokens ?? null;
+  const completionTokens = response.usage?.completionTokens ?? null;
+  const provider = getModelInfo(variant.model)?.provider || '';
+  return {
+    status: 'completed',
+    output: response.content,
+    error: null,
+    latencyMs,
+    promptTokens,
+    completionTokens,
+    costUsd: computeCost(getModelPrice(variant.model, provider), promptTokens ?? 0, completionTokens ?? 0),
+    executionId: null,
+  };
+}
+
+// A full run with every AI step on the variant's model; usage is what the run billed
+async function runWorkflowCell(
+  evaluation: EvaluationWithConfig,
+  parent: GraphParent,
+  steps: SkillStepRow[],
+  variantIndex: number,
+  row: Record<string, any>,
+  userId: number
+): Promise<CellOutcome> {
+  const unattended = steps.find((step) => (
+    !AUTO_RUN_STEP_TYPES.includes(stepTypeOf(step) as StepType) || LIVE_STEP_TYPES.includes(stepTypeOf(step) as StepType)
+  ));
+  if (unattended) {
+    return failedCell(`Step ${unattended.step_order} (${unattended.step_name}) is a ${stepTypeOf(unattended)} step; evaluate the AI steps one at a time`);
+  }
+
+  const model = evaluation.variants[variantIndex].model;
+  const rows = steps.map((step) => (stepTypeOf(step) === 'ai' ? { ...step, ai_model: model } : step));
+  const { recipeId } = ensureExecutionRecipeFromGraph(evaluation.parent_type, parent, rows, {
+    test: `eval${evaluation.id}-${variantIndex}`,
+  });
+
+  const started = Date.now();
+  const run = await startExecution(recipeId, userId, { ...row }, undefined, { recordVersion: false });
+  if (!run.success) return failedCell(run.error || 'The run did not start');
+  const execution = await waitForExecution(run.executionId, CELL_TIMEOUT_MS);
+  const latencyMs = Date.now() - started;
+  const billed = queries.getExecutionLlmUsage(run.executionId) as
+    { prompt_tokens: number; completion_tokens: number; cost_usd: number };
+  const usage = {
+    latencyMs,
+    promptTokens: billed.prompt_tokens,
+    completionTokens: billed.completion_tokens,
+    costUsd: billed.cost_usd,
+    executionId: run.executionId,
+  };
+
+  const stepExecutions = queries.getStepExecutionsByExecutionId(run.executionId) as StepExecution[];
+  if (execution.status !== 'completed') {
+    const failed = stepExecutions.find((se) => se.status === 'failed');
+    return failedCell(
+      failed
+        ? `Step ${failed.step_order} failed: ${failed.error_message || 'unknown error'}`
+        : execution.status === 'running' ? 'Timed out waiting for the run to finish' : `The run stopped with status ${execution.status}`,
+      usage
+    );
+  }
+  return { status: 'completed', output: getFinalOutput(stepExecutions), error: null, ...usage };
+}
+
+async function judgeOutput(
+  judge: EvaluationJudge,
+  row: Record<string, any>,
+  output: string,
+  usage: LlmUsageContext
+): Promise<{ score: number | null; reason: string }> {
+  const prompt = [
+    'You are scoring the output of an AI step for a side-by-side model evaluation.',
+    `Rubric:\n${judge.rubric}`,
+    `Inputs:\n${JSON.stringify(row, null, 2)}`,
+    `Output:\n${output}`,
+    'Score the output from 1 (poor) to 5 (excellent). Reply with only a JSON object: {"score": <1-5>, "reason": "<one sentence>"}',
+  ].join('\n\n');
+  const response = await callAIByModel(judge.model, prompt, { temperature: 0, usage });
+  if (!response.success) return { score: null, reason: `Judge failed: ${response.error || 'no response'}` };
+
+  const verdict = extractJson(response.content)?.value;
+  const score = Number(verdict?.score);
+  if (!isPlainObject(verdict) || !Number.isFinite(score) || score < 1 || score > 5) {
+    return { score: null, reason: 'Judge gave no 1-5 score' };
+  }
+  return { score, reason: String(verdict.reason || '') };
+}
+
+/**
+ * Record a reviewer's 1-5 score for one cell; null clears it.
+ */
+export function scoreEvaluationResult(
+  evaluationId: number,
+  resultId: number,
+  score: unknown,
+  userId: number
+): EvaluationResult | null {
+  const result = (queries.getEvaluationResults(evaluationId) as EvaluationResult[]).find((cell) => cell.id === resultId);
+  if (!result) return null;
+  if (score !== null && !(Number.isInteger(score) && (score as number) >= 1 && (score as number) <= 5)) {
+    throw new EvaluationError('score must be a whole number from 1 to 5, or null');
+  }
+  queries.setEvaluationHumanScore(score as number | null, userId, resultId);
+  return (queries.getEvaluationResults(evaluationId) as EvaluationResult[]).find((cell) => cell.id === resultId)!;
+}
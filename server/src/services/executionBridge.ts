@@ -0,0 +1,204 @@
+import { getDatabase } from '../models/database';
+import { RecipeStep, StepExecution } from '../types';
+
+// Executions still run against recipes/recipe_steps. Skills and workflows are
+// bridged onto a hidden recipe (marked in its description) before starting.
+
+export type ParentType = 'skill' | 'workflow';
+
+export interface GraphParent {
+  id: number;
+  name: string;
+  description?: string | null;
+  created_by?: number | null;
+  workspace_id?: number | null;
+  status?: string | null;
+}
+
+export interface SkillStepRow {
+  id: number;
+  parent_id: number;
+  parent_type: ParentType;
+  step_order: number;
+  step_name: string;
+  step_type?: string | null;
+  ai_model?: string | null;
+  prompt_template?: string | null;
+  input_config?: string | null;
+  output_format?: string | null;
+  model_config?: string | null;
+  executor_config?: string | null;
+}
+
+/**
+ * The skill or workflow a bridged recipe runs, read back from its description
+ * marker. Recipes pinned to one version of it carry that version too.
+ */
+export function parseBridgeMarker(
+  description?: string | null
+): { parentType: ParentType; parentId: number; version?: number } | null {
+  const match = /^\[BRIDGE:(skill|workflow):(\d+)(?:@v(\d+))?\]$/.exec(String(description || ''));
+  if (!match) return null;
+  return {
+    parentType: match[1] as ParentType,
+    parentId: Number(match[2]),
+    ...(match[3] ? { version: Number(match[3]) } : {}),
+  };
+}
+
+export function loadGraphParent(parentType: ParentType, parentId: number): {
+  parent: GraphParent | null;
+  steps: SkillStepRow[];
+} {
+  const db = getDatabase();
+  const table = parentType === 'skill' ? 'skills' : 'workflows';
+  const parent = db.prepare(`SELECT * FROM ${table} WHERE id = ?`).get(parentId) as GraphParent | undefined;
+  if (!parent) return { parent: null, steps: [] };
+  const steps = db.prepare(
+    'SELECT * FROM skill_steps WHERE parent_id = ? AND parent_type = ? ORDER BY step_order'
+  ).all(parentId, parentType) as SkillStepRow[];
+  return { parent, steps };
+}
+
+// `version` bridges a saved version's steps onto a recipe of its own, leaving
+// the recipe that runs the current definition alone; `test` does the same for
+// steps under test, which may be a draft's or run on the mock model
+export function ensureExecutionRecipeFromGraph(
+  parentType: ParentType,
+  parent: GraphParent,
+  steps: SkillStepRow[],
+  pin: { version?: number; test?: string } = {}
+): { recipeId: number; syncedSteps: RecipeStep[] } {
+  const db = getDatabase();
+  const suffix = pin.version ? `@v${pin.version}` : pin.test ? `@test:${pin.test}` : '';
+  const bridgeMarker = `[BRIDGE:${parentType}:${parent.id}${suffix}]`;
+  const existingRecipe = db.prepare('SELECT id FROM recipes WHERE description = ?').get(bridgeMarker) as { id: number } | undefined;
+  let recipeId: number;
+
+  if (existingRecipe) {
+    recipeId = existingRecipe.id;
+    db.prepare(
+      'UPDATE recipes SET name = ?, description = ?, is_template = ?, workspace_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'
+    ).run(
+      parent.name,
+      bridgeMarker,
+      parentType === 'skill' ? 1 : 0,
+      parent.workspace_id ?? null,
+      recipeId
+    );
+  } else {
+    const created = db.prepare(
+      'INSERT INTO recipes (name, description, created_by, is_template, workspace_id) VALUES (?, ?, ?, ?, ?)'
+    ).run(
+      parent.name,
+      bridgeMarker,
+      parent.created_by || null,
+      parentType === 'skill' ? 1 : 0,
+      parent.workspace_id ?? null
+    );
+    recipeId = Number(created.lastInsertRowid);
+  }
+
+  const existingSteps = db.prepare(
+    'SELECT id, step_order FROM recipe_steps WHERE recipe_id = ? ORDER BY step_order'
+  ).all(recipeId) as Array<{ id: number; step_order: number }>;
+  const existingStepIdByOrder = new Map(existingSteps.map((row) => [row.step_order, row.id]));
+  const expectedOrders = new Set<number>();
+  const syncedSteps: RecipeStep[] = [];
+
+  for (const step of steps) {
+    expectedOrders.add(step.step_order);
+    const stepName = step.step_name || `Step ${step.step_order}`;
+    const stepType = step.step_type || 'ai';
+    const outputFormat = (step.output_format as RecipeStep['output_format']) || 'text';
+    const promptTemplate = step.prompt_template || '';
+    const inputConfig = step.input_config || '{}';
+    const modelConfig = step.model_config || '{}';
+    const executorConfig = step.executor_config || '{}';
+    const aiModel = step.ai_model || null;
+
+    const existingStepId = existingStepIdByOrder.get(step.step_order);
+    let recipeStepId: number;
+    if (existingStepId) {
+      db.prepare(`
+        UPDATE recipe_steps
+        SET step_name = ?, step_type = ?, ai_model = ?, prompt_template = ?, input_config = ?, output_format = ?, model_config = ?, executor_config = ?
+        WHERE id = ?
+      `).run(
+        stepName,
+        stepType,
+        aiModel,
+        promptTemplate,
+        inputConfig,
+        outputFormat,
+        modelConfig,
+        executorConfig,
+        existingStepId
+      );
+      recipeStepId = existingStepId;
+    } else {
+      const inserted = db.prepare(`
+        INSERT INTO recipe_steps (recipe_id, step_order, step_name, step_type, ai_model, prompt_template, input_config, output_format, model_config, api_config, executor_config)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        recipeId,
+        step.step_order,
+        stepName,
+        stepType,
+        aiModel,
+        promptTemplate,
+        inputConfig,
+        outputFormat,
+        modelConfig,
+        null,
+        executorConfig
+      );
+      recipeStepId = Number(inserted.lastInsertRowid);
+    }
+
+    syncedSteps.push({
+      id: recipeStepId,
+      recipe_id: recipeId,
+      step_order: step.step_order,
+      step_name: stepName,
+      step_type: stepType,
+      ai_model: aiModel || '',
+      prompt_template: promptTemplate,
+      input_config: inputConfig,
+      output_format: outputFormat,
+      model_config: modelConfig,
+      executor_config: executorConfig,
+      created_at: new Date().toISOString(),
+    });
+  }
+
+  for (const oldStep of existingSteps) {
+    if (!expectedOrders.has(oldStep.step_order)) {
+      db.prepare('DELETE FROM recipe_steps WHERE id = ?').run(oldStep.id);
+    }
+  }
+
+  return { recipeId, syncedSteps };
+}
+
+/**
+ * Text content of a step's stored output (the `content` field when present).
+ */
+export function getStepOutputContent(stepExecution: StepExecution): string {
+  if (!stepExecution.output_data) return '';
+  try {
+    const parsed = JSON.parse(stepExecution.output_data);
+    const content = parsed.content ?? parsed;
+    return typeof content === 'string' ? content : JSON.stringify(content, null, 2);
+  } catch {
+    return stepExecution.output_data;
+  }
+}
+
+/**
+ * Output of the last completed step, which is what a run "returns".
+ */
+export function getFinalOutput(stepExecutions: StepExecution[]): string {
+  const lastOutput = [...stepExecutions].reverse().find(se => se.status === 'completed' && se.output_data);
+  return lastOutput ? getStepOutputContent(lastOutput) : '';
+}
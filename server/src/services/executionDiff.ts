@@ -0,0 +1,139 @@
+import { queries } from '../models/database';
+import { getExecutionInputs } from './workflowEngine';
+import { getStepOutputContent } from './executionBridge';
+import { RecipeStep, StepExecution, StepExecutionStatus, WorkflowExecution } from '../types';
+
+/**
+ * Step-by-step comparison of a forked execution with the run it was forked
+ * from, using a line diff of each step's output.
+ */
+
+// Beyond this many line pairs a changed output is shown as replaced, not diffed
+const MAX_DIFF_CELLS = 1_000_000;
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface StepOutputDiff {
+  step_order: number;
+  step_name: string;
+  original_status: StepExecutionStatus | null;
+  forked_status: StepExecutionStatus | null;
+  changed: boolean;
+  // The fork step's output was edited by hand; later steps were re-run
+  edited: boolean;
+  lines: DiffLine[];
+}
+
+export interface ExecutionDiff {
+  execution_id: number;
+  forked_from_id: number;
+  forked_from_step: number;
+  steps: StepOutputDiff[];
+}
+
+/** Line diff of two texts (longest common subsequence). */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split(/\r?\n/) : [];
+  const b = after ? after.split(/\r?\n/) : [];
+
+  // Common prefix and suffix need no table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+  const tail: DiffLine[] = a.slice(endA).map(text => ({ type: 'same', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...midA.map(text => ({ type: 'removed' as const, text })),
+      ...midB.map(text => ({ type: 'added' as const, text })),
+      ...tail,
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of midA[i..] and midB[j..]
+  const lcs: number[][] = Array.from({ length: midA.length + 1 }, () => new Array(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: 'same', text: midA[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      middle.push({ type: 'removed', text: midA[i++] });
+    } else {
+      middle.push({ type: 'added', text: midB[j++] });
+    }
+  }
+  while (i < midA.length) middle.push({ type: 'removed', text: midA[i++] });
+  while (j < midB.length) middle.push({ type: 'added', text: midB[j++] });
+
+  return [...head, ...middle, ...tail];
+}
+
+function stepNames(execution: WorkflowExecution): Map<number, string> {
+  const { customSteps } = getExecutionInputs(execution);
+  const steps = customSteps?.length
+    ? customSteps.map((step, index) => ({ ...step, step_order: index + 1 }))
+    : queries.getStepsByRecipeId(execution.recipe_id) as RecipeStep[];
+  return new Map(steps.map(step => [step.step_order, step.step_name]));
+}
+
+/**
+ * Compare a fork with its original, or null when `fork` is not a fork or its
+ * original has been deleted.
+ */
+export function diffForkedExecution(fork: WorkflowExecution): ExecutionDiff | null {
+  if (!fork.forked_from_id || !fork.forked_from_step) return null;
+  const original = queries.getExecutionById(fork.forked_from_id) as WorkflowExecution | undefined;
+  if (!original) return null;
+
+  const originalSteps = queries.getStepExecutionsByExecutionId(original.id) as StepExecution[];
+  const forkedSteps = queries.getStepExecutionsByExecutionId(fork.id) as StepExecution[];
+  const names = stepNames(fork);
+  const originalNames = stepNames(original);
+
+  const orders = Array.from(new Set([...originalSteps, ...forkedSteps].map(se => se.step_order))).sort((x, y) => x - y);
+  const steps = orders.map((order): StepOutputDiff => {
+    const before = originalSteps.find(se => se.step_order === order);
+    const after = forkedSteps.find(se => se.step_order === order);
+    const beforeText = before ? getStepOutputContent(before) : '';
+    const afterText = after ? getStepOutputContent(after) : '';
+    return {
+      step_order: order,
+      step_name: names.get(order) || originalNames.get(order) || `Step ${order}`,
+      original_status: before?.status ?? null,
+      forked_status: after?.status ?? null,
+      changed: beforeText !== afterText,
+      edited: order === fork.forked_from_step && beforeText !== afterText,
+      lines: diffLines(beforeText, afterText),
+    };
+  });
+
+  return {
+    execution_id: fork.id,
+    forked_from_id: original.id,
+    forked_from_step: fork.forked_from_step,
+    steps,
+  };
+}
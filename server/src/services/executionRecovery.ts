@@ -0,0 +1,137 @@
+import { queries } from '../models/database';
+import { parseForEachConfig } from '../executors/ForEachExecutor';
+import { parseParallelConfig } from '../executors/ParallelExecutor';
+import { executionEvents } from './executionEvents';
+import { getExecutionInputs, resumeExecution } from './workflowEngine';
+import { RecipeStep, StepExecution, WorkflowExecution } from '../types';
+
+// Step types that are safe to run again from scratch: they only read their
+// inputs and produce an output, with no side effects outside the execution.
+// A skill step picks up the child run it already started instead of starting another.
+const RESUMABLE_STEP_TYPES = ['ai', 'transform', 'condition', 'skill'];
+
+export const RESUMED_REASON = 'Resumed automatically after a server restart';
+
+export interface RecoveryResult {
+  resumed: number[];
+  paused: number[];
+}
+
+function getStepType(step: RecipeStep | undefined): string {
+  const type = step?.step_type || 'ai';
+  return type === 'scraping' ? 'browser' : type;
+}
+
+/**
+ * Whether an interrupted step can simply be run again. For-each steps depend
+ * on their item step type and parallel groups on their branch steps.
+ */
+export function isResumableStep(step: RecipeStep | undefined, steps: RecipeStep[]): boolean {
+  if (!step) return false;
+  const type = getStepType(step);
+
+  if (type === 'foreach') {
+    return RESUMABLE_STEP_TYPES.includes(parseForEachConfig(step).item_step_type);
+  }
+  if (type === 'parallel') {
+    const { branches } = parseParallelConfig(step);
+    return branches.every(order => isResumableStep(steps.find(s => s.step_order === order), steps));
+  }
+  return RESUMABLE_STEP_TYPES.includes(type);
+}
+
+function findStep(steps: RecipeStep[], stepExecution: StepExecution): RecipeStep | undefined {
+  return steps.find(s => s.id === stepExecution.step_id) ||
+    steps.find(s => s.step_order === stepExecution.step_order);
+}
+
+/**
+ * Executions run in the background, so a restart leaves them (and the step
+ * that was in flight) stuck in "running". At boot, resume the ones whose
+ * interrupted steps are safe to repeat and pause the rest so a person can
+ * decide whether to retry.
+ */
+export function recoverInterruptedExecutions(): RecoveryResult {
+  const result: RecoveryResult = { resumed: [], paused: [] };
+  const executions = queries.getInterruptedExecutions() as WorkflowExecution[];
+
+  for (const execution of executions) {
+    const stepExecutions = queries.getStepExecutionsByExecutionId(execution.id) as StepExecution[];
+    const { customSteps } = getExecutionInputs(execution);
+    const steps = customSteps && customSteps.length > 0
+      ? customSteps
+      : queries.getStepsByRecipeId(execution.recipe_id) as RecipeStep[];
+
+    const interrupted = stepExecutions.filter(se => se.status === 'running');
+    const unsafe = interrupted.filter(se => !isResumableStep(findStep(steps, se), steps));
+
+    if (unsafe.length === 0) {
+      // Re-queue the interrupted steps and continue from the earliest one. Partial
+      // output is kept so a for-each step skips the items it already finished.
+      for (const se of interrupted) {
+        queries.updateStepExecution('pending', se.output_data || null, null, null, se.id);
+      }
+      const firstOrder = interrupted.length > 0
+        ? Math.min(...interrupted.map(se => se.step_order))
+        : execution.current_step;
+      queries.updateExecutionStatus('running', Math.max(firstOrder - 1, 0), execution.id);
+      queries.setExecutionStatusReason(RESUMED_REASON, execution.id);
+
+      const step = interrupted.length > 0 ? findStep(steps, interrupted[0]) : undefined;
+      executionEvents.emit(execution.id, executionEvents.createMessage({
+        executionId: execution.id,
+        stepOrder: firstOrder,
+        stepName: step?.step_name || '',
+        stepType: getStepType(step),
+        type: 'execution-recovered',
+        role: 'system',
+        content: RESUMED_REASON,
+      }));
+
+      resumeExecution(execution.id).catch(err => {
+        console.error(`[Recovery] Resuming execution ${execution.id} failed:`, err);
+      });
+      result.resumed.push(execution.id);
+      continue;
+    }
+
+    // Pause for a human decision: mark the unsafe steps as failed so they can be retried
+    const names = unsafe.map(se => {
+      const step = findStep(steps, se);
+      return `step ${se.step_order} (${step?.step_name || getStepType(step)})`;
+    });
+    const reason = `Interrupted by a server restart while running ${names.join(', ')}. ` +
+      'These steps may have side effects, so they were not re-run automatically. Retry to run them again.';
+
+    for (const se of interrupted) {
+      const step = findStep(steps, se);
+      const stepReason = isResumableStep(step, steps)
+        ? 'Interrupted by a server restart'
+        : `Interrupted by a server restart. This ${getStepType(step)} step may have side effects; retry it to run it again.`;
+      queries.setStepExecutionError('failed', stepReason, se.id);
+      executionEvents.emit(execution.id, executionEvents.createMessage({
+        executionId: execution.id,
+        stepOrder: se.step_order,
+        stepName: step?.step_name || `Step ${se.step_order}`,
+        stepType: getStepType(step),
+        type: 'step-error',
+        role: 'system',
+        content: stepReason,
+        metadata: { stepExecutionId: se.id },
+      }));
+    }
+
+    const firstOrder = Math.min(...unsafe.map(se => se.step_order));
+    queries.updateExecutionStatus('paused', firstOrder, execution.id);
+    queries.setExecutionStatusReason(reason, execution.id);
+    result.paused.push(execution.id);
+  }
+
+  if (result.resumed.length > 0 || result.paused.length > 0) {
+    console.log(
+      `[Recovery] Interrupted executions: resumed ${result.resumed.length ? result.resumed.join(', ') : 'none'}; ` +
+      `paused ${result.paused.length ? result.paused.join(', ') : 'none'}`
+    );
+  }
+  return result;
+}
@@ -0,0 +1,56 @@
+import { HtmlReviewStrategy } from './htmlReviewStrategy';
+import { attribute, findElement, findElements, imageSources, parseCount, stripTags, textOf } from './htmlParsing';
+import { ReviewPage } from './pagination';
+import { NormalizedReview, normalizeReview, parseRating } from './reviewSchema';
+
+// ASIN in /dp/, /gp/product/ and /product-reviews/ URLs
+const ASIN_PATTERN = /\/(?:dp|gp\/product|product-reviews)\/([A-Z0-9]{10})(?:[/?]|$)/i;
+
+/**
+ * Amazon's "See all reviews" pages (`/product-reviews/<ASIN>`), which are
+ * server-rendered with `data-hook` attributes on every review part.
+ */
+export class AmazonStrategy extends HtmlReviewStrategy {
+  platform = 'amazon';
+  displayName = 'Amazon Reviews';
+
+  protected reviewPageUrl(productUrl: string, pageNumber: number): string {
+    const asin = productUrl.match(ASIN_PATTERN)?.[1];
+    if (!asin) throw new Error('Could not find the product ASIN in the URL (expected /dp/<ASIN>)');
+    return `${new URL(productUrl).origin}/product-reviews/${asin.toUpperCase()}/?reviewerType=all_reviews&sortBy=recent&pageNumber=${pageNumber}`;
+  }
+
+  protected parseReviewPage(html: string): ReviewPage {
+    const cards = findElements(html, /\sdata-hook="review"/);
+    if (cards.length === 0 && /\/ap\/signin|id="ap_email"/.test(html)) {
+      throw new Error('Amazon asked to sign in before showing more reviews');
+    }
+
+    const reviews = cards
+      .map((card) => {
+        const titleElement = findElement(card, /\sdata-hook="review-title"/);
+        // The title link also holds the star rating; drop it from the title text
+        const ratingElement = findElement(titleElement || card, /\sdata-hook="(?:cmps-)?review-star-rating"/);
+        return normalizeReview(this.platform, {
+          reviewId: attribute(card, 'id'),
+          rating: stripTags(ratingElement),
+          title: stripTags(titleElement.replace(ratingElement, '')),
+          body: textOf(card, /\sdata-hook="review-body"/),
+          date: textOf(card, /\sdata-hook="review-date"/),
+          author: textOf(card, /\sclass="a-profile-name"/),
+          variant: textOf(card, /\sdata-hook="format-strip"/),
+          images: imageSources(card, /\sdata-hook="review-image-tile"|\sclass="[^"]*review-image-tile/),
+          verified: /\sdata-hook="avp-badge"/.test(card),
+        });
+      })
+      .filter((review): review is NormalizedReview => review !== null);
+
+    return {
+      productName: textOf(html, /\sdata-hook="product-link"/),
+      totalCount: parseCount(textOf(html, /\sdata-hook="total-review-count"/)),
+      averageRating: parseRating(textOf(html, /\sdata-hook="rating-out-of-text"/)),
+      reviews,
+      hasNextPage: /<li\b[^>]*class="a-last"[^>]*>\s*<a\b/.test(html),
+    };
+  }
+}
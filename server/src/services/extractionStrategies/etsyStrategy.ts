@@ -0,0 +1,57 @@
+import { HtmlReviewStrategy } from './htmlReviewStrategy';
+import {
+  attribute, classPattern, findElements, fromJsonLdReview, hasNextLink, imageSources, jsonLdProduct, textOf,
+} from './htmlParsing';
+import { ReviewPage } from './pagination';
+import { NormalizedReview, normalizeReview } from './reviewSchema';
+
+const LISTING_PATTERN = /\/listing\/(\d+)/;
+
+/**
+ * Etsy listing reviews. Listing pages render review cards
+ * (`data-review-region`) and take `?page=N`; when the cards are missing the
+ * listing's JSON-LD still carries the first few reviews.
+ */
+export class EtsyStrategy extends HtmlReviewStrategy {
+  platform = 'etsy';
+  displayName = 'Etsy Reviews';
+
+  protected reviewPageUrl(productUrl: string, pageNumber: number): string {
+    if (!LISTING_PATTERN.test(productUrl)) {
+      throw new Error('Could not find the listing id in the URL (expected /listing/<id>)');
+    }
+    const url = new URL(productUrl);
+    url.hash = '';
+    if (pageNumber > 1) url.searchParams.set('page', String(pageNumber));
+    else url.searchParams.delete('page');
+    return url.toString();
+  }
+
+  protected parseReviewPage(html: string): ReviewPage {
+    const product = jsonLdProduct(html);
+    const cards = findElements(html, /\sdata-review-region=/);
+
+    const reviews = (cards.length > 0
+      ? cards.map((card) => normalizeReview(this.platform, {
+        reviewId: attribute(card, 'data-review-region'),
+        rating: attribute(card, 'data-rating') || attribute(card, 'value', /<input\b[^>]*\sname=["']rating["']/),
+        body: textOf(card, /\sid="review-preview-toggle-\d+"|\sdata-review-text/),
+        date: textOf(card, classPattern('review-date')) || textOf(card, /\sdata-review-date/),
+        author: textOf(card, /\sdata-review-username|\sclass="[^"]*shop2-review-attribution/),
+        variant: textOf(card, /\sdata-review-variation/),
+        images: imageSources(card, /\sdata-review-photo|\sclass="[^"]*review-image/),
+        // Etsy only lists reviews from completed orders
+        verified: true,
+      }))
+      : (product?.reviews || []).map((review) => normalizeReview(this.platform, { ...fromJsonLdReview(review), verified: true }))
+    ).filter((review): review is NormalizedReview => review !== null);
+
+    return {
+      productName: product?.productName || textOf(html, /<h1\b/),
+      totalCount: product?.totalCount,
+      averageRating: product?.averageRating ?? null,
+      reviews,
+      hasNextPage: cards.length > 0 && hasNextLink(html),
+    };
+  }
+}
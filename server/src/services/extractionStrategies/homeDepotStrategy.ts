@@ -0,0 +1,43 @@
+import { HtmlReviewStrategy } from './htmlReviewStrategy';
+import { fromJsonLdReview, hasNextLink, jsonLdProduct } from './htmlParsing';
+import { ReviewPage } from './pagination';
+import { NormalizedReview, normalizeReview } from './reviewSchema';
+
+// Slug and item id in /p/<slug>/<id> and /p/reviews/<slug>/<id> URLs
+const PRODUCT_PATTERN = /\/p\/(?:reviews\/)?([^/?#]+)\/(\d{6,})(?:[/?#]|$)/;
+
+/**
+ * Home Depot's review pages (`/p/reviews/<slug>/<id>/<page>`), read from the
+ * schema.org JSON-LD that each page publishes.
+ */
+export class HomeDepotStrategy extends HtmlReviewStrategy {
+  platform = 'homedepot';
+  displayName = 'Home Depot Reviews';
+
+  protected reviewPageUrl(productUrl: string, pageNumber: number): string {
+    const match = productUrl.match(PRODUCT_PATTERN);
+    if (!match) throw new Error('Could not find the product id in the URL (expected /p/<name>/<id>)');
+    return `${new URL(productUrl).origin}/p/reviews/${match[1]}/${match[2]}/${pageNumber}`;
+  }
+
+  protected parseReviewPage(html: string): ReviewPage {
+    const product = jsonLdProduct(html);
+    if (!product) throw new Error('Product data (JSON-LD) not found on the page');
+
+    const reviews = product.reviews
+      .map((review) => normalizeReview(this.platform, {
+        ...fromJsonLdReview(review),
+        // Home Depot tags verified buyers in the review's badges
+        verified: /verified/i.test(JSON.stringify(review.badges || review.additionalProperty || '')),
+      }))
+      .filter((review): review is NormalizedReview => review !== null);
+
+    return {
+      productName: product.productName,
+      totalCount: product.totalCount,
+      averageRating: product.averageRating,
+      reviews,
+      hasNextPage: hasNextLink(html),
+    };
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Helpers for reading review markup out of a page's HTML in Node. Strategies
+ * parse `page.content()` rather than the live DOM, so the same parsers run on
+ * saved fixture pages in tests.
+ */
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', '#39': "'",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (entity, code: string) => {
+    const lower = code.toLowerCase();
+    if (ENTITIES[lower] !== undefined) return ENTITIES[lower];
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return entity;
+  });
+}
+
+// Visible text of an HTML fragment, with line breaks kept as spaces
+export function stripTags(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|noscript)\b[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<br\s*\/?>/gi, ' ')
+      .replace(/<[^>]+>/g, ' ')
+  ).replace(/\s+/g, ' ').trim();
+}
+
+const VOID_TAGS = new Set(['area', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'wbr']);
+
+/**
+ * Outer HTML of every element whose opening tag matches `pattern`, e.g.
+ * `/data-hook="review"/`. Nested elements of the same tag are balanced, so a
+ * review card comes back whole; matches inside an earlier match are skipped.
+ */
+export function findElements(html: string, pattern: RegExp): string[] {
+  const results: string[] = [];
+  const openTag = /<([a-z][a-z0-9-]*)\b[^>]*>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = openTag.exec(html)) !== null) {
+    if (!pattern.test(match[0])) continue;
+    const tag = match[1].toLowerCase();
+    const start = match.index;
+    if (VOID_TAGS.has(tag) || match[0].endsWith('/>')) {
+      results.push(match[0]);
+      continue;
+    }
+
+    const tags = new RegExp(`<(/?)${tag}\\b[^>]*>`, 'gi');
+    tags.lastIndex = start + match[0].length;
+    let depth = 1;
+    let end = html.length;
+    let inner: RegExpExecArray | null;
+    while ((inner = tags.exec(html)) !== null) {
+      depth += inner[1] ? -1 : 1;
+      if (depth === 0) {
+        end = inner.index + inner[0].length;
+        break;
+      }
+    }
+    results.push(html.slice(start, end));
+    openTag.lastIndex = end;
+  }
+  return results;
+}
+
+// Matches an opening tag whose class list has `name` as a whole class
+export function classPattern(name: string): RegExp {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\sclass=["'](?:[^"']*\\s)?${escaped}(?:\\s[^"']*)?["']`, 'i');
+}
+
+export function findElement(html: string, pattern: RegExp): string {
+  return findElements(html, pattern)[0] || '';
+}
+
+// Text of the first element matching `pattern`
+export function textOf(html: string, pattern: RegExp): string {
+  return stripTags(findElement(html, pattern));
+}
+
+// Value of an attribute on the first tag of `html` (or the first tag matching `pattern`)
+export function attribute(html: string, name: string, pattern?: RegExp): string {
+  const tag = pattern ? findElement(html, pattern).match(/^<[^>]+>/)?.[0] || '' : html.match(/<[^>]+>/)?.[0] || '';
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3] ?? '') : '';
+}
+
+// Every `src` (or lazy-loaded `data-src`) of the images matching `pattern`
+export function imageSources(html: string, pattern: RegExp): string[] {
+  return findElements(html, pattern)
+    .flatMap((element) => element.match(/<img\b[^>]*>/gi) || [])
+    .map((img) => attribute(img, 'data-src') || attribute(img, 'src'))
+    .filter(Boolean);
+}
+
+// First whole number in text such as "1,234 global ratings"
+export function parseCount(text: string): number {
+  const match = text.replace(/(\d),(\d)/g, '$1$2').match(/\d+/);
+  return match ? parseInt(match[0], 10) : 0;
+}
+
+// Whether the page links a next page of results (`rel="next"` link or anchor)
+export function hasNextLink(html: string): boolean {
+  return /<(?:link|a)\b[^>]*\brel=["']next["'][^>]*>/i.test(html);
+}
+
+function parseJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+// Contents of a JSON `<script>` by id, e.g. Next.js's `__NEXT_DATA__`
+export function scriptJson(html: string, id: string): any {
+  const script = findElement(html, new RegExp(`<script\\b[^>]*\\bid=["']${id}["']`));
+  return script ? parseJson(script.replace(/^<script\b[^>]*>/i, '').replace(/<\/script>$/i, '')) : undefined;
+}
+
+/**
+ * Every schema.org object in the page's JSON-LD blocks, with `@graph` and
+ * top-level arrays flattened.
+ */
+export function jsonLdObjects(html: string): any[] {
+  const objects: any[] = [];
+  const visit = (value: any) => {
+    if (Array.isArray(value)) value.forEach(visit);
+    else if (value && typeof value === 'object') {
+      objects.push(value);
+      if (value['@graph']) visit(value['@graph']);
+    }
+  };
+  for (const script of findElements(html, /<script\b[^>]*type=["']application\/ld\+json["']/i)) {
+    visit(parseJson(script.replace(/^<script\b[^>]*>/i, '').replace(/<\/script>$/i, '').trim()));
+  }
+  return objects;
+}
+
+const isType = (value: any, type: string) => (
+  Array.isArray(value?.['@type']) ? value['@type'].includes(type) : value?.['@type'] === type
+);
+
+/**
+ * The product, its aggregate rating and its reviews from JSON-LD, which many
+ * storefronts publish for search engines. Review fields are raw schema.org.
+ */
+export function jsonLdProduct(html: string): {
+  productName: string;
+  averageRating: number | null;
+  totalCount: number;
+  reviews: any[];
+} | null {
+  const objects = jsonLdObjects(html);
+  const product = objects.find((value) => isType(value, 'Product'));
+  if (!product) return null;
+  const reviews = [product.review || [], objects.filter((value) => isType(value, 'Review'))].flat();
+  const aggregate = product.aggregateRating || {};
+  return {
+    productName: String(product.name || ''),
+    averageRating: aggregate.ratingValue !== undefined ? Number(aggregate.ratingValue) : null,
+    totalCount: Number(aggregate.reviewCount || aggregate.ratingCount || 0),
+    reviews: Array.from(new Set(reviews)),
+  };
+}
+
+// A schema.org Review in the normalized field names
+export function fromJsonLdReview(review: any): Record<string, unknown> {
+  const author = typeof review.author === 'string' ? review.author : review.author?.name;
+  const images = [review.image || [], review.associatedMedia || []].flat()
+    .map((image: any) => (typeof image === 'string' ? image : image?.contentUrl || image?.url));
+  return {
+    reviewId: review['@id'] || review.identifier || '',
+    rating: review.reviewRating?.ratingValue,
+    title: review.name || review.headline || '',
+    body: review.reviewBody || review.description || '',
+    date: review.datePublished || review.dateCreated || '',
+    author,
+    images,
+  };
+}
@@ -0,0 +1,107 @@
+import { Page } from 'puppeteer';
+import { ExtractionOptions, ExtractionResult, ExtractionStrategy } from './index';
+import { DEFAULT_PAGINATION, PaginationOptions, RateLimitError, ReviewPage, collectReviewPages } from './pagination';
+import { ProductReviews } from './reviewSchema';
+
+/**
+ * Base for strategies that read review pages as HTML: load each page of a
+ * product's reviews in the browser, parse `page.content()` in Node and page
+ * through with the shared pagination helpers. Subclasses say where review
+ * page N is and how to read one.
+ */
+export abstract class HtmlReviewStrategy implements ExtractionStrategy {
+  abstract platform: string;
+  abstract displayName: string;
+  protected pagination: PaginationOptions = { ...DEFAULT_PAGINATION };
+
+  constructor(options: Partial<PaginationOptions> = {}) {
+    this.configure(options);
+  }
+
+  // Override the paging defaults, e.g. from the plugin's config
+  configure(options: Partial<PaginationOptions>): void {
+    for (const key of Object.keys(DEFAULT_PAGINATION) as Array<keyof PaginationOptions>) {
+      const value = Number(options[key]);
+      if (options[key] !== undefined && Number.isFinite(value) && value >= 0) this.pagination[key] = value;
+    }
+  }
+
+  // The first review page stands for the product: it's the same for every URL form
+  productKey(productUrl: string): string {
+    return this.reviewPageUrl(productUrl, 1);
+  }
+
+  /** URL of review page `pageNumber` (1-based) for the product at `productUrl` */
+  protected abstract reviewPageUrl(productUrl: string, pageNumber: number): string;
+
+  protected abstract parseReviewPage(html: string, url: string): ReviewPage;
+
+  async execute(
+    page: Page,
+    urls: string[],
+    onProgress: (message: string) => void,
+    options: ExtractionOptions = {},
+  ): Promise<ExtractionResult> {
+    const products: ProductReviews[] = [];
+    for (const url of urls) {
+      try {
+        products.push(await this.extractFromUrl(page, url, onProgress, options));
+      } catch (error: any) {
+        const message = error instanceof Error ? error.message : String(error || 'Unknown extraction error');
+        onProgress(`Error extracting from ${url}: ${message}`);
+        products.push({
+          url, platform: this.platform, productName: '', totalCount: 0, averageRating: null,
+          reviews: [], pages: 0, source: 'html', error: message,
+        });
+      }
+    }
+
+    const succeeded = products.filter((product) => product.reviews.length > 0);
+    return {
+      success: succeeded.length > 0,
+      // If single URL, return its data directly; otherwise wrap in array
+      data: products.length === 1 ? products[0] : products,
+      reviewCount: products.reduce((sum, product) => sum + product.reviews.length, 0),
+      error: succeeded.length === 0 ? `Failed to extract reviews from all provided ${this.displayName} URLs.` : undefined,
+    };
+  }
+
+  protected async extractFromUrl(
+    page: Page,
+    url: string,
+    onProgress: (message: string) => void,
+    options: ExtractionOptions,
+  ): Promise<ProductReviews> {
+    const pagination = {
+      ...this.pagination,
+      maxReviews: options.maxReviews && options.maxReviews > 0 ? options.maxReviews : this.pagination.maxReviews,
+    };
+    const collected = await collectReviewPages(async (pageNumber) => {
+      const pageUrl = this.reviewPageUrl(url, pageNumber);
+      onProgress(`Loading review page ${pageNumber}: ${pageUrl}`);
+      return this.parseReviewPage(await this.loadHtml(page, pageUrl), pageUrl);
+    }, pagination, onProgress, options.isKnownReview);
+
+    if (collected.reviews.length === 0) {
+      throw new Error(
+        'No reviews found. The product may have none, or the page was blocked or its layout changed.'
+      );
+    }
+    onProgress(`Extracted ${collected.reviews.length} reviews from ${collected.pages} page(s).`);
+    return { url, platform: this.platform, ...collected, source: 'html' };
+  }
+
+  protected async loadHtml(page: Page, url: string): Promise<string> {
+    const response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 });
+    const status = response?.status() ?? 200;
+    if (status === 429 || status === 503) {
+      const retryAfter = Number(response?.headers()['retry-after']);
+      throw new RateLimitError(
+        `Rate limited (${status})`,
+        Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+      );
+    }
+    if (status >= 400) throw new Error(`Review page returned ${status}`);
+    return page.content();
+  }
+}
@@ -1,4 +1,6 @@
 import { Page } from 'puppeteer';
+import { pluginRegistry } from '../../plugins/registry';
+import type { NormalizedReview } from './reviewSchema';
 
 export interface ExtractionResult {
   success: boolean;
@@ -7,13 +9,23 @@ export interface ExtractionResult {
   error?: string;
 }
 
+export interface ExtractionOptions {
+  /** Stop collecting a product's reviews after this many */
+  maxReviews?: number;
+  /** Incremental runs: stop paging once a page has a review this returns true for */
+  isKnownReview?: (review: NormalizedReview) => boolean;
+}
+
 export interface ExtractionStrategy {
   platform: string;
   displayName: string;
+  /** Stable identity of the product behind a URL (defaults to the URL without query or hash) */
+  productKey?(productUrl: string): string;
   execute(
     page: Page,
     urls: string[],
     onProgress: (message: string) => void,
+    options?: ExtractionOptions,
   ): Promise<ExtractionResult>;
 }
 
@@ -24,12 +36,15 @@ export function registerStrategy(strategy: ExtractionStrategy): void {
   strategies.set(strategy.platform, strategy);
 }
 
+// Built-in strategies, then those loaded as extraction plugins
 export function getStrategy(platform: string): ExtractionStrategy | undefined {
-  return strategies.get(platform);
+  return strategies.get(platform) || getAllStrategies().find((strategy) => strategy.platform === platform);
 }
 
 export function getAllStrategies(): ExtractionStrategy[] {
-  return Array.from(strategies.values());
+  const plugins = Array.from(pluginRegistry.getAllExtractors().values())
+    .filter((plugin) => !strategies.has(plugin.platform));
+  return [...strategies.values(), ...plugins];
 }
 
 // Register strategies
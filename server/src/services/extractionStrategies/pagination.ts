@@ -0,0 +1,142 @@
+import { NormalizedReview, reviewKey } from './reviewSchema';
+
+/**
+ * Paging and politeness shared by the strategies: a minimum gap between page
+ * loads, backoff when the platform rate-limits, and de-duplication of reviews
+ * that show up on more than one page.
+ */
+
+export interface PaginationOptions {
+  /** Review pages to read per product */
+  maxPages: number;
+  /** Stop once this many reviews are collected for a product */
+  maxReviews: number;
+  /** Minimum time between page loads */
+  pageDelayMs: number;
+  /** First backoff after a rate-limit response; doubles on each retry */
+  retryDelayMs: number;
+  retries: number;
+}
+
+export const DEFAULT_PAGINATION: PaginationOptions = {
+  maxPages: 10,
+  maxReviews: 500,
+  pageDelayMs: 1500,
+  retryDelayMs: 5000,
+  retries: 3,
+};
+
+// The platform asked us to slow down (HTTP 429/503)
+export class RateLimitError extends Error {
+  constructor(message: string, public retryAfterMs?: number) {
+    super(message);
+  }
+}
+
+export interface ReviewPage {
+  productName?: string;
+  totalCount?: number;
+  averageRating?: number | null;
+  reviews: NormalizedReview[];
+  hasNextPage: boolean;
+}
+
+export const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * A gate that keeps calls at least `minIntervalMs` apart; the first call
+ * passes straight through.
+ */
+export function createRateLimiter(minIntervalMs: number): () => Promise<void> {
+  let last = 0;
+  return async () => {
+    const wait = last + minIntervalMs - Date.now();
+    if (last > 0 && wait > 0) await sleep(wait);
+    last = Date.now();
+  };
+}
+
+/**
+ * Run `fn`, retrying rate-limit errors with exponential backoff (or the
+ * platform's Retry-After). Other errors are thrown straight away.
+ */
+export async function withBackoff<T>(
+  fn: () => Promise<T>,
+  options: Pick<PaginationOptions, 'retries' | 'retryDelayMs'>,
+  onRetry?: (message: string) => void,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (!(error instanceof RateLimitError) || attempt > options.retries) throw error;
+      const delayMs = error.retryAfterMs ?? options.retryDelayMs * 2 ** (attempt - 1);
+      onRetry?.(`${error.message}. Retrying in ${Math.round(delayMs / 1000)}s... (attempt ${attempt}/${options.retries})`);
+      await sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * Read review pages 1, 2, ... until the platform has no next page, a page
+ * adds nothing new, or a page/review limit is hit. Product details come from
+ * the first page that has them. Only a failure on the first page is thrown.
+ *
+ * Pages are newest first, so an incremental run passes `isKnown` and stops
+ * after the first page holding a review it already has.
+ */
+export async function collectReviewPages(
+  fetchPage: (pageNumber: number) => Promise<ReviewPage>,
+  options: PaginationOptions,
+  onProgress: (message: string) => void,
+  isKnown?: (review: NormalizedReview) => boolean,
+): Promise<{ reviews: NormalizedReview[]; pages: number; productName: string; totalCount: number; averageRating: number | null }> {
+  const throttle = createRateLimiter(options.pageDelayMs);
+  const seen = new Set<string>();
+  const reviews: NormalizedReview[] = [];
+  let productName = '';
+  let totalCount = 0;
+  let averageRating: number | null = null;
+  let pages = 0;
+
+  for (let pageNumber = 1; pageNumber <= options.maxPages; pageNumber++) {
+    await throttle();
+    let page: ReviewPage;
+    try {
+      page = await withBackoff(() => fetchPage(pageNumber), options, onProgress);
+    } catch (error) {
+      // Keep what earlier pages gave; a later page failing (often a sign-in wall) isn't fatal
+      if (reviews.length === 0) throw error;
+      onProgress(`Stopped at page ${pageNumber}: ${error instanceof Error ? error.message : String(error)}`);
+      break;
+    }
+    pages = pageNumber;
+    productName = productName || page.productName || '';
+    totalCount = totalCount || page.totalCount || 0;
+    averageRating = averageRating ?? page.averageRating ?? null;
+
+    let added = 0;
+    for (const review of page.reviews) {
+      const key = reviewKey(review);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      reviews.push(review);
+      added += 1;
+    }
+    onProgress(`Page ${pageNumber}: ${added} new review(s), ${reviews.length} so far.`);
+
+    if (reviews.length >= options.maxReviews || !page.hasNextPage || added === 0) break;
+    if (isKnown && page.reviews.some(isKnown)) {
+      onProgress('Reached reviews collected by an earlier run; stopping.');
+      break;
+    }
+  }
+
+  return {
+    reviews: reviews.slice(0, options.maxReviews),
+    pages,
+    productName,
+    totalCount: totalCount || reviews.length,
+    averageRating,
+  };
+}
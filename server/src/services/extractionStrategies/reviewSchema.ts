@@ -0,0 +1,112 @@
+/**
+ * The review shape every extraction strategy returns, whatever the platform
+ * calls its fields, so review-analysis prompts work across platforms.
+ */
+
+export interface NormalizedReview {
+  platform: string;
+  reviewId: string;
+  /** 1-5 stars, or null if the page doesn't show one */
+  rating: number | null;
+  title: string;
+  body: string;
+  /** ISO date (YYYY-MM-DD) when it could be read, else the page's text */
+  date: string;
+  author: string;
+  /** The option the reviewer bought, e.g. "Color: Blue, Size: Large" */
+  variant: string;
+  images: string[];
+  verified: boolean;
+}
+
+export interface ProductReviews {
+  url: string;
+  platform: string;
+  productName: string;
+  totalCount: number;
+  averageRating: number | null;
+  reviews: NormalizedReview[];
+  /** Review pages read for this product */
+  pages: number;
+  source: string;
+  error?: string;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+export function cleanText(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Star rating from a number or text such as "4.0 out of 5 stars"; values
+ * outside 1-5 (or a 0-100 score) are scaled or dropped.
+ */
+export function parseRating(value: unknown, scale = 5): number | null {
+  const match = cleanText(value).match(/(\d+(?:\.\d+)?)/);
+  if (!match) return null;
+  let rating = parseFloat(match[1]);
+  if (scale !== 5) rating = (rating / scale) * 5;
+  if (!Number.isFinite(rating) || rating < 0 || rating > 5) return null;
+  return Math.round(rating * 10) / 10;
+}
+
+const iso = (year: number, month: number, day: number) => (
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+);
+
+/**
+ * ISO date from the formats review pages use: ISO timestamps, "January 5,
+ * 2026" (with any "Reviewed in ... on" prefix), "5 Jan 2026" and US
+ * "1/5/2026". Anything else is returned as-is.
+ */
+export function parseReviewDate(value: unknown): string {
+  const text = cleanText(value);
+  if (!text) return '';
+
+  let match = text.match(/\b(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  match = text.match(/\b([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})\b/);
+  if (match && MONTHS.includes(match[1].slice(0, 3).toLowerCase())) {
+    return iso(Number(match[3]), MONTHS.indexOf(match[1].slice(0, 3).toLowerCase()) + 1, Number(match[2]));
+  }
+
+  match = text.match(/\b(\d{1,2})\s+([A-Za-z]{3,9})\.?,?\s+(\d{4})\b/);
+  if (match && MONTHS.includes(match[2].slice(0, 3).toLowerCase())) {
+    return iso(Number(match[3]), MONTHS.indexOf(match[2].slice(0, 3).toLowerCase()) + 1, Number(match[1]));
+  }
+
+  match = text.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/);
+  if (match) return iso(Number(match[3]), Number(match[1]), Number(match[2]));
+
+  return text;
+}
+
+/**
+ * Fill in a review from whatever fields a strategy could read. Reviews with
+ * neither a rating nor any text are dropped (null).
+ */
+export function normalizeReview(platform: string, raw: Partial<Record<keyof NormalizedReview, unknown>>): NormalizedReview | null {
+  const review: NormalizedReview = {
+    platform,
+    reviewId: cleanText(raw.reviewId),
+    rating: parseRating(raw.rating),
+    title: cleanText(raw.title),
+    body: cleanText(raw.body).slice(0, 5000),
+    date: parseReviewDate(raw.date),
+    author: cleanText(raw.author),
+    variant: cleanText(raw.variant),
+    images: Array.isArray(raw.images)
+      ? Array.from(new Set(raw.images.map(cleanText).filter((src) => /^https?:\/\//.test(src))))
+      : [],
+    verified: raw.verified === true,
+  };
+  if (review.rating === null && !review.title && !review.body) return null;
+  return review;
+}
+
+// Identity of a review for de-duplicating across pages
+export function reviewKey(review: NormalizedReview): string {
+  return review.reviewId || `${review.author}|${review.date}|${review.rating}|${review.body.slice(0, 120)}`;
+}
@@ -0,0 +1,70 @@
+import { HtmlReviewStrategy } from './htmlReviewStrategy';
+import {
+  attribute, classPattern, findElements, fromJsonLdReview, hasNextLink, imageSources, jsonLdProduct, textOf,
+} from './htmlParsing';
+import { ReviewPage } from './pagination';
+import { NormalizedReview, normalizeReview } from './reviewSchema';
+
+/**
+ * Shopify storefront product pages. Shopify has no review system of its own,
+ * so this reads the common review apps' widgets — Judge.me (`jdgm-rev`) and
+ * Shopify Product Reviews (`spr-review`) — and falls back to the product's
+ * JSON-LD. Any store domain works; pages are `?page=N`.
+ */
+export class ShopifyStrategy extends HtmlReviewStrategy {
+  platform = 'shopify';
+  displayName = 'Shopify Store Reviews';
+
+  protected reviewPageUrl(productUrl: string, pageNumber: number): string {
+    const url = new URL(productUrl);
+    if (!/\/products\/[^/?#]+/.test(url.pathname)) {
+      throw new Error('Could not find the product in the URL (expected /products/<handle>)');
+    }
+    url.hash = '';
+    if (pageNumber > 1) url.searchParams.set('page', String(pageNumber));
+    else url.searchParams.delete('page');
+    return url.toString();
+  }
+
+  protected parseReviewPage(html: string): ReviewPage {
+    const product = jsonLdProduct(html);
+    const judgeMe = findElements(html, classPattern('jdgm-rev'));
+    const spr = findElements(html, classPattern('spr-review'));
+
+    let reviews: Array<NormalizedReview | null>;
+    if (judgeMe.length > 0) {
+      reviews = judgeMe.map((card) => normalizeReview(this.platform, {
+        reviewId: attribute(card, 'data-review-id'),
+        rating: attribute(card, 'data-score', classPattern('jdgm-rev__rating')),
+        title: textOf(card, classPattern('jdgm-rev__title')),
+        body: textOf(card, classPattern('jdgm-rev__body')),
+        date: attribute(card, 'data-content', classPattern('jdgm-rev__timestamp')),
+        author: textOf(card, classPattern('jdgm-rev__author')),
+        variant: textOf(card, classPattern('jdgm-rev__variant')),
+        images: imageSources(card, classPattern('jdgm-rev__pics')),
+        verified: attribute(card, 'data-verified-buyer') === 'true',
+      }));
+    } else if (spr.length > 0) {
+      reviews = spr.map((card) => normalizeReview(this.platform, {
+        reviewId: attribute(card, 'id').replace(/^review_/, ''),
+        rating: attribute(card, 'aria-label', classPattern('spr-starratings')),
+        title: textOf(card, classPattern('spr-review-header-title')),
+        body: textOf(card, classPattern('spr-review-content-body')),
+        // "Jane on Jan 5, 2026"
+        date: textOf(card, classPattern('spr-review-header-byline')).replace(/^.*?\bon\s+/, ''),
+        author: textOf(card, /<strong\b/),
+        images: imageSources(card, classPattern('spr-review-content')),
+      }));
+    } else {
+      reviews = (product?.reviews || []).map((review) => normalizeReview(this.platform, fromJsonLdReview(review)));
+    }
+
+    return {
+      productName: product?.productName || textOf(html, /<h1\b/),
+      totalCount: product?.totalCount,
+      averageRating: product?.averageRating ?? null,
+      reviews: reviews.filter((review): review is NormalizedReview => review !== null),
+      hasNextPage: /jdgm-paginate__next-page|spr-pagination-next/.test(html) || ((judgeMe.length > 0 || spr.length > 0) && hasNextLink(html)),
+    };
+  }
+}
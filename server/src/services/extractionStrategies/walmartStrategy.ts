@@ -0,0 +1,68 @@
+import { HtmlReviewStrategy } from './htmlReviewStrategy';
+import { scriptJson } from './htmlParsing';
+import { ReviewPage } from './pagination';
+import { NormalizedReview, normalizeReview } from './reviewSchema';
+
+// Item id in /ip/<slug>/<id> and /reviews/product/<id> URLs
+const ITEM_ID_PATTERN = /\/(?:ip(?:\/[^/?#]+)?|reviews\/product)\/(\d{5,})(?:[/?#]|$)/;
+
+// The first object anywhere in `value` for which `test` holds
+function findDeep(value: any, test: (candidate: any) => boolean, depth = 0): any {
+  if (!value || typeof value !== 'object' || depth > 12) return undefined;
+  if (test(value)) return value;
+  for (const child of Object.values(value)) {
+    const found = findDeep(child, test, depth + 1);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Walmart's review pages (`/reviews/product/<id>`). They are Next.js pages,
+ * so the reviews are read from the `__NEXT_DATA__` state rather than markup.
+ */
+export class WalmartStrategy extends HtmlReviewStrategy {
+  platform = 'walmart';
+  displayName = 'Walmart Reviews';
+
+  protected reviewPageUrl(productUrl: string, pageNumber: number): string {
+    const itemId = productUrl.match(ITEM_ID_PATTERN)?.[1];
+    if (!itemId) throw new Error('Could not find the item id in the URL (expected /ip/<name>/<id>)');
+    return `${new URL(productUrl).origin}/reviews/product/${itemId}?sort=submission-desc&page=${pageNumber}`;
+  }
+
+  protected parseReviewPage(html: string): ReviewPage {
+    const state = scriptJson(html, '__NEXT_DATA__');
+    if (!state) {
+      throw new Error(/px-captcha|Robot or human/i.test(html)
+        ? 'Walmart showed a bot check instead of reviews'
+        : 'Review data (__NEXT_DATA__) not found on the page');
+    }
+
+    const data = findDeep(state, (candidate) => Array.isArray(candidate.customerReviews)) || { customerReviews: [] };
+    const product = findDeep(state, (candidate) => typeof candidate.name === 'string' && 'usItemId' in candidate);
+    const reviews = (data.customerReviews as any[])
+      .map((review) => normalizeReview(this.platform, {
+        reviewId: review.reviewId,
+        rating: review.rating,
+        title: review.reviewTitle,
+        body: review.reviewText,
+        date: review.reviewSubmissionTime,
+        author: review.userNickname,
+        variant: (review.productAttributes || [])
+          .map((attr: any) => `${attr.name}: ${attr.value}`)
+          .join(', '),
+        images: (review.photos || []).map((photo: any) => photo.sizes?.normal?.url || photo.normalUrl || photo.url),
+        verified: (review.badges || []).some((badge: any) => /verified/i.test(String(badge.id || badge.glassBadge?.id || ''))),
+      }))
+      .filter((review): review is NormalizedReview => review !== null);
+
+    return {
+      productName: product?.name || '',
+      totalCount: Number(data.totalReviewCount || 0),
+      averageRating: data.averageOverallRating !== undefined ? Number(data.averageOverallRating) : null,
+      reviews,
+      hasNextPage: !!data.pagination?.next,
+    };
+  }
+}
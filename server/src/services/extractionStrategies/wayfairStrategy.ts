@@ -1,5 +1,6 @@
 import { Page } from 'puppeteer';
-import { ExtractionStrategy, ExtractionResult } from './index';
+import { ExtractionStrategy, ExtractionResult, ExtractionOptions } from './index';
+import { NormalizedReview, normalizeReview } from './reviewSchema';
 
 // Legacy fallback values kept for backward compatibility if runtime discovery fails.
 const LEGACY_GRAPHQL_SHA256_HASH = 'fd486434f7f187089721b27eabba5632a38689ab17ee027f45913299f022cfc9';
@@ -31,6 +32,7 @@ export class WayfairStrategy implements ExtractionStrategy {
     page: Page,
     urls: string[],
     onProgress: (message: string) => void,
+    options: ExtractionOptions = {},
   ): Promise<ExtractionResult> {
     const allResults: any[] = [];
     let successCount = 0;
@@ -38,7 +40,7 @@ export class WayfairStrategy implements ExtractionStrategy {
 
     for (const url of urls) {
       try {
-        const result = await this.extractFromUrl(page, url, onProgress);
+        const result = await this.extractFromUrl(page, url, onProgress, options);
         allResults.push(result);
         if (!result.error && Array.isArray(result.reviews) && result.reviews.length > 0) {
           successCount += 1;
@@ -47,7 +49,7 @@ export class WayfairStrategy implements ExtractionStrategy {
       } catch (error: any) {
         const message = this.toErrorMessage(error);
         onProgress(`Error extracting from ${url}: ${message}`);
-        allResults.push({ url, error: message, reviews: [] });
+        allResults.push({ url, platform: this.platform, error: message, reviews: [] });
       }
     }
 
@@ -66,6 +68,7 @@ export class WayfairStrategy implements ExtractionStrategy {
     page: Page,
     url: string,
     onProgress: (message: string) => void,
+    options: ExtractionOptions,
   ): Promise<any> {
     // Step 1: Navigate to product page
     onProgress(`Navigating to ${url}`);
@@ -105,6 +108,8 @@ export class WayfairStrategy implements ExtractionStrategy {
           onProgress(`Extracted ${parsed.reviews.length} reviews via GraphQL.`);
           return {
             ...parsed,
+            platform: this.platform,
+            reviews: this.normalizeReviews(parsed.reviews, options),
             source: 'graphql',
             diagnostics: graphqlResult.diagnostics || [],
           };
@@ -124,6 +129,8 @@ export class WayfairStrategy implements ExtractionStrategy {
       onProgress(`Extracted ${domResult.reviews.length} reviews via DOM fallback.`);
       return {
         ...domResult,
+        platform: this.platform,
+        reviews: this.normalizeReviews(domResult.reviews, options),
         source: 'dom',
         diagnostics: [graphqlError].filter(Boolean),
       };
@@ -520,6 +527,21 @@ export class WayfairStrategy implements ExtractionStrategy {
     };
   }
 
+  // Wayfair's reviewer name and badge fields in the shared review shape
+  private normalizeReviews(reviews: any[], options: ExtractionOptions): NormalizedReview[] {
+    const normalized = reviews
+      .map((r) => normalizeReview(this.platform, {
+        reviewId: r.reviewId,
+        rating: r.rating,
+        body: r.body,
+        date: r.date,
+        author: r.name,
+        verified: /verified/i.test(`${r.badge || ''} ${r.badgeDescription || ''}`),
+      }))
+      .filter((r): r is NormalizedReview => r !== null);
+    return options.maxReviews && options.maxReviews > 0 ? normalized.slice(0, options.maxReviews) : normalized;
+  }
+
   private toErrorMessage(error: unknown): string {
     if (error instanceof Error) return error.message;
     return String(error || 'Unknown extraction error');
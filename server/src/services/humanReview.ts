@@ -0,0 +1,355 @@
+import { queries } from '../models/database';
+import { pluginRegistry } from '../plugins/registry';
+import { listIdentities } from './authService';
+import { executionEvents } from './executionEvents';
+import { compilePrompt } from './promptParser';
+import { getStepOutputContent } from './executionBridge';
+import { StepExecutorContext } from '../executors/StepExecutor';
+import {
+  Recipe,
+  RecipeStep,
+  ReviewFormField,
+  ReviewKind,
+  ReviewRequest,
+  ReviewSubmission,
+  ReviewTimeoutAction,
+  StepExecution,
+  User,
+  WorkflowExecution,
+} from '../types';
+
+/**
+ * Human-in-the-loop steps. `approval` and `ask_user` steps pause the run with
+ * a review request stored under `review` in the step output. A reviewer
+ * approves it (answering the form and optionally correcting the previous
+ * step's output) or rejects it. A step can be assigned to one user with a
+ * deadline; the scheduler escalates or settles reviews that run past it.
+ */
+
+export const HUMAN_STEP_TYPES = ['approval', 'ask_user'];
+
+const FIELD_TYPES: ReviewFormField['type'][] = ['text', 'textarea', 'image', 'url_list', 'file'];
+const TIMEOUT_ACTIONS: ReviewTimeoutAction[] = ['approve', 'reject'];
+const MAX_TIMEOUT_MINUTES = 30 * 24 * 60;
+const FIELD_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const DEFAULT_INSTRUCTIONS: Record<ReviewKind, string> = {
+  approval: 'Review the previous step\'s output and approve to continue.',
+  ask_user: 'Fill in the form to continue.',
+};
+
+export interface ReviewConfig {
+  assignee?: string;
+  escalate_to?: string;
+  timeout_minutes: number | null;
+  on_timeout: ReviewTimeoutAction;
+  allow_edit_previous: boolean;
+  fields: Record<string, ReviewFormField>;
+}
+
+function parseExecutorConfig(step: RecipeStep): Record<string, any> {
+  if (!step.executor_config) return {};
+  try {
+    const parsed = typeof step.executor_config === 'string'
+      ? JSON.parse(step.executor_config)
+      : step.executor_config;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// `fields` maps names to a field object, or just a label for a text field
+function parseFields(raw: unknown, errors: string[]): Record<string, ReviewFormField> {
+  let source = raw;
+  if (typeof source === 'string') {
+    if (!source.trim()) return {};
+    try {
+      source = JSON.parse(source);
+    } catch {
+      errors.push('Form fields must be a JSON object');
+      return {};
+    }
+  }
+  if (source === undefined || source === null) return {};
+  if (typeof source !== 'object' || Array.isArray(source)) {
+    errors.push('Form fields must be a JSON object');
+    return {};
+  }
+
+  const fields: Record<string, ReviewFormField> = {};
+  for (const [name, value] of Object.entries(source as Record<string, any>)) {
+    if (!FIELD_NAME.test(name)) {
+      errors.push(`Form field "${name}" must be a plain identifier`);
+      continue;
+    }
+    const field: ReviewFormField = typeof value === 'string'
+      ? { type: 'text', label: value }
+      : { ...(value || {}), type: value?.type || 'text' };
+    if (!FIELD_TYPES.includes(field.type)) {
+      errors.push(`Form field "${name}" has unknown type "${field.type}"`);
+      continue;
+    }
+    fields[name] = field;
+  }
+  return fields;
+}
+
+/** Read a human step's executor_config; `errors` says what is unusable. */
+export function parseReviewConfig(step: RecipeStep): { config: ReviewConfig; errors: string[] } {
+  const raw = parseExecutorConfig(step);
+  const errors: string[] = [];
+
+  let timeout: number | null = null;
+  if (raw.timeout_minutes !== undefined && raw.timeout_minutes !== null && raw.timeout_minutes !== '') {
+    const minutes = Number(raw.timeout_minutes);
+    if (Number.isFinite(minutes) && minutes > 0) {
+      timeout = Math.min(Math.ceil(minutes), MAX_TIMEOUT_MINUTES);
+    } else {
+      errors.push('Timeout must be a positive number of minutes');
+    }
+  }
+
+  const onTimeout = raw.on_timeout || 'reject';
+  if (!TIMEOUT_ACTIONS.includes(onTimeout)) {
+    errors.push(`On timeout must be one of: ${TIMEOUT_ACTIONS.join(', ')}`);
+  }
+
+  const text = (value: unknown) => (value === undefined || value === null ? '' : String(value).trim());
+
+  return {
+    config: {
+      assignee: text(raw.assignee) || undefined,
+      escalate_to: text(raw.escalate_to) || undefined,
+      timeout_minutes: timeout,
+      on_timeout: TIMEOUT_ACTIONS.includes(onTimeout) ? onTimeout : 'reject',
+      allow_edit_previous: raw.allow_edit_previous !== false,
+      fields: parseFields(raw.fields, errors),
+    },
+    errors,
+  };
+}
+
+/** Resolve a user id or email to a user id; null when no such user exists. */
+export function resolveReviewer(reference: string): number | null {
+  const user = /^\d+$/.test(reference)
+    ? queries.getUserById(Number(reference)) as User | undefined
+    : queries.getUserByEmail(reference.toLowerCase()) as User | undefined;
+  return user ? user.id : null;
+}
+
+/**
+ * The review a human step asks for in `context`, or an error when its
+ * config is unusable or names a reviewer that does not exist.
+ */
+export function buildReviewRequest(
+  step: RecipeStep,
+  kind: ReviewKind,
+  context: StepExecutorContext
+): { request?: ReviewRequest; error?: string } {
+  const { config, errors } = parseReviewConfig(step);
+  if (errors.length > 0) return { error: errors.join('; ') };
+  if (kind === 'ask_user' && Object.keys(config.fields).length === 0) {
+    return { error: 'Ask-user steps need at least one form field' };
+  }
+
+  const assigneeId = config.assignee ? resolveReviewer(config.assignee) : null;
+  if (config.assignee && assigneeId === null) return { error: `Reviewer "${config.assignee}" not found` };
+  const escalateToId = config.escalate_to ? resolveReviewer(config.escalate_to) : null;
+  if (config.escalate_to && escalateToId === null) return { error: `Escalation reviewer "${config.escalate_to}" not found` };
+
+  const instructions = compilePrompt(step.prompt_template || '', {
+    userId: context.userId,
+    workspaceId: context.workspaceId,
+    userInputs: context.userInputs,
+    stepExecutions: context.completedStepExecutions,
+  }).compiledPrompt.trim();
+
+  const previous = context.completedStepExecutions
+    .filter(se => se.step_order < step.step_order)
+    .sort((a, b) => b.step_order - a.step_order)[0];
+
+  return {
+    request: {
+      kind,
+      instructions: instructions || DEFAULT_INSTRUCTIONS[kind],
+      fields: kind === 'ask_user' ? config.fields : {},
+      allow_edit_previous: config.allow_edit_previous && !!previous,
+      previous_step_order: previous?.step_order,
+      previous_output: previous ? getStepOutputContent(previous) : undefined,
+      assignee_id: assigneeId,
+      timeout_minutes: config.timeout_minutes,
+      escalate_to_id: escalateToId,
+      on_timeout: config.on_timeout,
+    },
+  };
+}
+
+/** The review request a paused human step is waiting on, if any. */
+export function parseReviewRequest(stepExecution: StepExecution | undefined): ReviewRequest | null {
+  if (!stepExecution?.output_data) return null;
+  try {
+    const review = JSON.parse(stepExecution.output_data).review;
+    return review && typeof review === 'object' ? review : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Only the assignee may answer an assigned review; otherwise whoever started the run. */
+export function canReviewStep(userId: number, execution: WorkflowExecution, stepExecution: StepExecution): boolean {
+  if (stepExecution.assigned_to) return stepExecution.assigned_to === userId;
+  return execution.user_id === userId;
+}
+
+/** Whether `userId` has been asked to review any step of the execution. */
+export function isExecutionReviewer(executionId: number, userId: number): boolean {
+  return !!queries.isStepReviewer(executionId, userId);
+}
+
+function isBlank(value: any): boolean {
+  if (value === undefined || value === null) return true;
+  if (Array.isArray(value)) return value.filter(v => String(v ?? '').trim()).length === 0;
+  return typeof value === 'string' && value.trim() === '';
+}
+
+/** Problems with a submission; empty when it can be accepted. */
+export function validateReviewSubmission(review: ReviewRequest, submission: ReviewSubmission): string[] {
+  const errors: string[] = [];
+  const values = submission.values || {};
+  for (const [name, field] of Object.entries(review.fields || {})) {
+    if (field.required && isBlank(values[name])) {
+      errors.push(`"${field.label || name}" is required`);
+    }
+  }
+  if (submission.previous_output !== undefined && !review.allow_edit_previous) {
+    errors.push('This step does not allow editing the previous output');
+  }
+  return errors;
+}
+
+/** Output stored on an approved human step: the answers, or the reviewer's comment. */
+export function buildReviewOutput(
+  review: ReviewRequest,
+  submission: ReviewSubmission,
+  reviewerId: number | null
+): Record<string, any> {
+  const comment = submission.comment?.trim() || undefined;
+  const reviewed = { reviewed_by: reviewerId, reviewed_at: new Date().toISOString(), comment };
+
+  if (review.kind === 'ask_user') {
+    const values = submission.values || {};
+    const answers: Record<string, any> = {};
+    for (const name of Object.keys(review.fields || {})) {
+      answers[name] = values[name] ?? '';
+    }
+    return { content: JSON.stringify(answers, null, 2), values: answers, isJson: true, ...reviewed };
+  }
+  return { content: comment || 'Approved', ...reviewed };
+}
+
+// SQLite datetime() modifier for a review deadline
+function deadlineModifier(timeoutMinutes: number | null | undefined): string | null {
+  return timeoutMinutes ? `+${timeoutMinutes * 60} seconds` : null;
+}
+
+/**
+ * Assign a paused human step and start its deadline. The reviewer is told
+ * on every channel they have linked. Returns who must act and by when.
+ */
+export function openStepReview(
+  executionId: number,
+  stepExecutionId: number,
+  stepName: string,
+  review: ReviewRequest
+): { assignedTo: number | null; dueAt: string | null } {
+  queries.assignStepReview(review.assignee_id ?? null, deadlineModifier(review.timeout_minutes), stepExecutionId);
+  const stepExecution = queries.getStepExecutionById(stepExecutionId) as StepExecution;
+  const execution = queries.getExecutionById(executionId) as WorkflowExecution;
+
+  notifyReviewer(review.assignee_id ?? execution.user_id, execution, stepExecution, stepName, review).catch(() => {});
+  return { assignedTo: stepExecution.assigned_to ?? null, dueAt: stepExecution.review_due_at ?? null };
+}
+
+/** Hand an overdue review to the escalation reviewer with a fresh deadline. */
+export function escalateStepReview(
+  execution: WorkflowExecution,
+  stepExecution: StepExecution,
+  stepName: string,
+  review: ReviewRequest
+): void {
+  const escalateTo = review.escalate_to_id!;
+  queries.escalateStepReview(escalateTo, deadlineModifier(review.timeout_minutes), stepExecution.id);
+  const updated = queries.getStepExecutionById(stepExecution.id) as StepExecution;
+  const reviewer = queries.getUserById(escalateTo) as User | undefined;
+
+  executionEvents.emit(execution.id, executionEvents.createMessage({
+    executionId: execution.id,
+    stepOrder: stepExecution.step_order,
+    stepName,
+    stepType: review.kind,
+    type: 'action-required',
+    role: 'system',
+    content: `No response before the deadline; escalated to ${reviewer?.email || `user ${escalateTo}`}.`,
+    metadata: {
+      actionType: review.kind === 'ask_user' ? 'form' : 'approve',
+      review,
+      assignedTo: escalateTo,
+      dueAt: updated.review_due_at ?? null,
+      stepExecutionId: stepExecution.id,
+    },
+  }));
+  notifyReviewer(escalateTo, execution, updated, stepName, review).catch(() => {});
+}
+
+function executionUrl(executionId: number): string {
+  return `${(process.env.CLIENT_URL || 'http://localhost:3000').replace(/\/+$/, '')}/executions/${executionId}`;
+}
+
+/**
+ * Tell a reviewer about a waiting step on each channel they have linked.
+ * The `review` metadata lets channels that support it render a form.
+ */
+async function notifyReviewer(
+  userId: number,
+  execution: WorkflowExecution,
+  stepExecution: StepExecution,
+  stepName: string,
+  review: ReviewRequest
+): Promise<void> {
+  const identities = listIdentities(userId);
+  if (identities.length === 0) return;
+
+  const recipe = queries.getRecipeById(execution.recipe_id) as Recipe | undefined;
+  const title = `${recipe?.name || 'Workflow'} · step ${stepExecution.step_order}: ${stepName}`;
+  const url = executionUrl(execution.id);
+  const text = [
+    `${review.kind === 'ask_user' ? '📝' : '✅'} ${title} is waiting for you.`,
+    review.instructions,
+    stepExecution.review_due_at ? `Due: ${stepExecution.review_due_at} UTC` : '',
+    url,
+  ].filter(Boolean).join('\n\n');
+
+  for (const identity of identities) {
+    const channel = pluginRegistry.getChannel(`channel-${identity.provider}`);
+    if (!channel) continue;
+    try {
+      await channel.sendOutbound(identity.external_id, {
+        text,
+        metadata: {
+          executionId: execution.id,
+          review: {
+            ...review,
+            title,
+            url,
+            executionId: execution.id,
+            stepExecutionId: stepExecution.id,
+            dueAt: stepExecution.review_due_at ?? null,
+          },
+        },
+      });
+    } catch (err: any) {
+      console.error(`[HumanReview] Failed to notify user ${userId} on ${identity.provider}:`, err?.message || err);
+    }
+  }
+}
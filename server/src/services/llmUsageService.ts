@@ -0,0 +1,246 @@
+import type Database from 'better-sqlite3';
+import { getDatabase } from '../models/database';
+import {
+  BudgetStatus,
+  LlmUsageContext,
+  LlmUsagePeriod,
+  LlmUsageRecord,
+  LlmUsageSummary,
+  LlmUsageTotals,
+  ModelPrice,
+  ModelPriceEntry,
+} from '../types';
+
+/**
+ * Token and cost accounting for LLM calls, and the workspace monthly budgets
+ * built on it. Every function takes an optional connection because agent
+ * child processes have their own database handle.
+ */
+
+// List prices in USD per million tokens for the builtin provider plugins
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-5.2': { input_per_mtok: 1.75, output_per_mtok: 14 },
+  'gpt-5': { input_per_mtok: 1.25, output_per_mtok: 10 },
+  'claude-opus-4-6': { input_per_mtok: 5, output_per_mtok: 25 },
+  'claude-sonnet-4-5-20250929': { input_per_mtok: 3, output_per_mtok: 15 },
+  'gemini-3-pro-preview': { input_per_mtok: 2, output_per_mtok: 12 },
+  'gemini-3-flash-preview': { input_per_mtok: 0.5, output_per_mtok: 3 },
+  'gemini-3-pro-image-preview': { input_per_mtok: 2, output_per_mtok: 12 },
+  'gemini-2.5-pro': { input_per_mtok: 1.25, output_per_mtok: 10 },
+  'gemini-2.5-flash': { input_per_mtok: 0.3, output_per_mtok: 2.5 },
+  'gemini-2.5-flash-lite': { input_per_mtok: 0.1, output_per_mtok: 0.4 },
+};
+
+// Canned and self-hosted models cost nothing per token
+const FREE_PROVIDERS = new Set(['mock', 'openai-compatible']);
+
+const PERIOD_START: Record<LlmUsagePeriod, string | null> = {
+  today: "datetime('now', 'start of day')",
+  week: "datetime('now', '-7 days')",
+  month: "datetime('now', 'start of month')",
+  all: null,
+};
+
+export function isLlmUsagePeriod(value: unknown): value is LlmUsagePeriod {
+  return typeof value === 'string' && value in PERIOD_START;
+}
+
+/** Rough token count (~4 characters per token) for providers that report none. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(String(text || '').length / 4);
+}
+
+// --- Prices ---
+
+export function getModelPrice(
+  model: string,
+  provider: string,
+  db: Database.Database = getDatabase()
+): ModelPriceEntry {
+  const override = db.prepare(
+    'SELECT input_per_mtok, output_per_mtok FROM model_prices WHERE model = ?'
+  ).get(model) as ModelPrice | undefined;
+  if (override) return { model, provider, ...override, source: 'override' };
+  if (DEFAULT_MODEL_PRICES[model]) return { model, provider, ...DEFAULT_MODEL_PRICES[model], source: 'default' };
+  return {
+    model,
+    provider,
+    input_per_mtok: 0,
+    output_per_mtok: 0,
+    source: FREE_PROVIDERS.has(provider) ? 'free' : 'unpriced',
+  };
+}
+
+export function setModelPrice(model: string, price: ModelPrice): void {
+  getDatabase().prepare(`
+    INSERT INTO model_prices (model, input_per_mtok, output_per_mtok) VALUES (?, ?, ?)
+    ON CONFLICT(model) DO UPDATE SET
+      input_per_mtok = excluded.input_per_mtok,
+      output_per_mtok = excluded.output_per_mtok,
+      updated_at = CURRENT_TIMESTAMP
+  `).run(model, price.input_per_mtok, price.output_per_mtok);
+}
+
+export function clearModelPrice(model: string): boolean {
+  return getDatabase().prepare('DELETE FROM model_prices WHERE model = ?').run(model).changes > 0;
+}
+
+export function computeCost(price: ModelPrice, promptTokens: number, completionTokens: number): number {
+  return (promptTokens * price.input_per_mtok + completionTokens * price.output_per_mtok) / 1_000_000;
+}
+
+// --- Recording ---
+
+export function recordLlmUsage(
+  context: LlmUsageContext,
+  call: { provider: string; model: string; promptTokens: number; completionTokens: number; estimated?: boolean },
+  db: Database.Database = getDatabase()
+): void {
+  try {
+    const before = context.workspaceId ? getBudgetStatus(context.workspaceId, db) : null;
+    const price = getModelPrice(call.model, call.provider, db);
+    db.prepare(`
+      INSERT INTO llm_usage (
+        user_id, workspace_id, source, provider, model, prompt_tokens, completion_tokens, cost_usd,
+        estimated, execution_id, skill_id, workflow_id, session_id
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      context.userId,
+      context.workspaceId ?? null,
+      context.source,
+      call.provider,
+      call.model,
+      call.promptTokens,
+      call.completionTokens,
+      computeCost(price, call.promptTokens, call.completionTokens),
+      call.estimated ? 1 : 0,
+      context.executionId ?? null,
+      context.skillId ?? null,
+      context.workflowId ?? null,
+      context.sessionId ?? null
+    );
+
+    if (before && context.workspaceId) {
+      const after = getBudgetStatus(context.workspaceId, db);
+      if (after.state !== before.state && (after.state === 'warning' || after.state === 'exceeded')) {
+        console.warn(
+          `[LlmUsage] Workspace ${context.workspaceId} has spent $${after.month_cost_usd.toFixed(2)} ` +
+          `of its $${after.monthly_budget_usd} monthly budget (${after.state})`
+        );
+      }
+    }
+  } catch (error: any) {
+    // Accounting must not break the call it describes
+    console.error('Failed to record LLM usage:', error.message);
+  }
+}
+
+// --- Budgets ---
+
+export function getMonthlyCost(workspaceId: number, db: Database.Database = getDatabase()): number {
+  const row = db.prepare(`
+    SELECT COALESCE(SUM(cost_usd), 0) as total FROM llm_usage
+    WHERE workspace_id = ? AND created_at >= datetime('now', 'start of month')
+  `).get(workspaceId) as { total: number };
+  return row.total;
+}
+
+export function getBudgetStatus(workspaceId: number, db: Database.Database = getDatabase()): BudgetStatus {
+  const workspace = db.prepare(
+    'SELECT monthly_budget_usd, budget_warn_percent FROM workspaces WHERE id = ?'
+  ).get(workspaceId) as { monthly_budget_usd: number | null; budget_warn_percent: number | null } | undefined;
+  const budget = workspace?.monthly_budget_usd ?? null;
+  const warnPercent = workspace?.budget_warn_percent ?? 80;
+  const spent = getMonthlyCost(workspaceId, db);
+
+  let state: BudgetStatus['state'] = 'none';
+  if (budget !== null) {
+    if (spent >= budget) state = 'exceeded';
+    else if (spent >= budget * warnPercent / 100) state = 'warning';
+    else state = 'ok';
+  }
+  return { monthly_budget_usd: budget, budget_warn_percent: warnPercent, month_cost_usd: spent, state };
+}
+
+/** Why new LLM calls in a workspace are blocked, or null while it is within budget. */
+export function getBudgetBlockReason(workspaceId: number, db: Database.Database = getDatabase()): string | null {
+  const status = getBudgetStatus(workspaceId, db);
+  if (status.state !== 'exceeded') return null;
+  return `Workspace has used its $${status.monthly_budget_usd} LLM budget for this month`;
+}
+
+// --- Reporting ---
+
+const TOTALS_SQL = `
+  COUNT(*) as calls,
+  COALESCE(SUM(u.prompt_tokens), 0) as prompt_tokens,
+  COALESCE(SUM(u.completion_tokens), 0) as completion_tokens,
+  COALESCE(SUM(u.cost_usd), 0) as cost_usd
+`;
+
+export function getLlmUsageSummary(
+  filter: { workspaceId?: number; userId?: number },
+  period: LlmUsagePeriod = 'month'
+): LlmUsageSummary {
+  const db = getDatabase();
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (filter.workspaceId !== undefined) {
+    conditions.push('u.workspace_id = ?');
+    params.push(filter.workspaceId);
+  }
+  if (filter.userId !== undefined) {
+    conditions.push('u.user_id = ?');
+    params.push(filter.userId);
+  }
+  if (PERIOD_START[period]) {
+    conditions.push(`u.created_at >= ${PERIOD_START[period]}`);
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const grouped = <T>(select: string, join: string, groupBy: string, extraWhere = ''): T[] => {
+    const clause = extraWhere ? (where ? `${where} AND ${extraWhere}` : `WHERE ${extraWhere}`) : where;
+    return db.prepare(`
+      SELECT ${select}, ${TOTALS_SQL}
+      FROM llm_usage u ${join}
+      ${clause}
+      GROUP BY ${groupBy}
+      ORDER BY cost_usd DESC, calls DESC
+    `).all(...params) as T[];
+  };
+
+  const totals = db.prepare(`SELECT ${TOTALS_SQL} FROM llm_usage u ${where}`).get(...params) as LlmUsageTotals;
+
+  return {
+    period,
+    totals,
+    by_source: grouped('u.source', '', 'u.source'),
+    by_model: grouped('u.model, u.provider', '', 'u.model, u.provider'),
+    by_user: grouped('u.user_id, us.email', 'LEFT JOIN users us ON us.id = u.user_id', 'u.user_id'),
+    by_skill: grouped('u.skill_id, s.name', 'LEFT JOIN skills s ON s.id = u.skill_id', 'u.skill_id', 'u.skill_id IS NOT NULL'),
+    by_workflow: grouped(
+      'u.workflow_id, w.name', 'LEFT JOIN workflows w ON w.id = u.workflow_id', 'u.workflow_id', 'u.workflow_id IS NOT NULL'
+    ),
+    by_session: grouped('u.session_id', '', 'u.session_id', 'u.session_id IS NOT NULL'),
+  };
+}
+
+export function getLlmUsageHistory(
+  filter: { workspaceId?: number; userId?: number },
+  limit = 50
+): LlmUsageRecord[] {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (filter.workspaceId !== undefined) {
+    conditions.push('workspace_id = ?');
+    params.push(filter.workspaceId);
+  }
+  if (filter.userId !== undefined) {
+    conditions.push('user_id = ?');
+    params.push(filter.userId);
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  return getDatabase().prepare(
+    `SELECT * FROM llm_usage ${where} ORDER BY created_at DESC, id DESC LIMIT ?`
+  ).all(...params, limit) as LlmUsageRecord[];
+}
@@ -0,0 +1,26 @@
+import { Permission, UserRole } from '../types';
+
+export const USER_ROLES: UserRole[] = ['admin', 'builder', 'operator', 'viewer'];
+
+// Each role includes everything the role below it can do
+const OPERATOR_PERMISSIONS: Permission[] = ['assets:run'];
+const BUILDER_PERMISSIONS: Permission[] = [...OPERATOR_PERMISSIONS, 'assets:run_draft', 'assets:write'];
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  viewer: [],
+  operator: OPERATOR_PERMISSIONS,
+  builder: BUILDER_PERMISSIONS,
+  admin: [...BUILDER_PERMISSIONS, 'drafts:review', 'system:configure', 'sessions:manage', 'users:manage'],
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as string[]).includes(value);
+}
+
+export function permissionsForRole(role: UserRole): Permission[] {
+  return ROLE_PERMISSIONS[role] || [];
+}
+
+export function hasPermission(user: { permissions?: Permission[] } | undefined, permission: Permission): boolean {
+  return !!user?.permissions?.includes(permission);
+}
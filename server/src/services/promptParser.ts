@@ -1,4 +1,4 @@
-import { queries } from '../models/database';
+import { ensurePersonalWorkspace, queries } from '../models/database';
 import { CompanyStandard, StepExecution, ImageData } from '../types';
 
 // Regex to match variables in format {{variable_name}}
@@ -8,7 +8,7 @@ const VARIABLE_REGEX = /\{\{([^}]+)\}\}/g;
 export interface ParsedVariable {
   name: string;
   fullMatch: string;
-  type: 'user_input' | 'previous_step' | 'company_standard' | 'unknown';
+  type: 'user_input' | 'previous_step' | 'company_standard' | 'review_changes' | 'unknown';
   stepNumber?: number;
   standardName?: string;
 }
@@ -34,6 +34,10 @@ export function extractVariables(promptTemplate: string): ParsedVariable[] {
       parsedVar.type = 'previous_step';
       parsedVar.stepNumber = parseInt(stepMatch[1], 10);
     }
+    // Reviews a review monitor step found since its last run
+    else if (isReviewChangeVariable(varName)) {
+      parsedVar.type = 'review_changes';
+    }
     // Check if it's a company standard reference (common names)
     else if (isCompanyStandardVariable(varName)) {
       parsedVar.type = 'company_standard';
@@ -73,6 +77,13 @@ function isCompanyStandardVariable(varName: string): boolean {
   );
 }
 
+// Filled from the latest review monitor step's output
+export const REVIEW_CHANGE_VARIABLES = ['new_reviews', 'updated_reviews'];
+
+export function isReviewChangeVariable(varName: string): boolean {
+  return REVIEW_CHANGE_VARIABLES.includes(String(varName || '').trim().split('.')[0]);
+}
+
 // Get user input variables (those that need to be provided by the user)
 export function getUserInputVariables(promptTemplate: string): string[] {
   const variables = extractVariables(promptTemplate);
@@ -81,57 +92,65 @@ export function getUserInputVariables(promptTemplate: string): string[] {
     .map(v => v.name);
 }
 
-// Resolve company standard variables
-function resolveCompanyStandard(varName: string, userId: number): string {
-  // Map variable names to standard types and names
-  const standardMappings: Record<string, { type: string; keywords: string[] }> = {
-    brand_voice: { type: 'voice', keywords: ['voice', 'brand', 'tone'] },
-    company_voice: { type: 'voice', keywords: ['voice', 'brand', 'tone'] },
-    voice_guidelines: { type: 'voice', keywords: ['voice', 'brand', 'tone'] },
-    amazon_requirements: { type: 'platform', keywords: ['amazon'] },
-    social_media_guidelines: { type: 'platform', keywords: ['social', 'media', 'instagram', 'tiktok', 'facebook'] },
-    image_style_guidelines: { type: 'image', keywords: ['image', 'photo', 'style'] },
-    company_image: { type: 'image', keywords: ['image', 'photo', 'style'] },
-    platform_requirements: { type: 'platform', keywords: ['platform'] },
-    company_platform: { type: 'platform', keywords: ['platform'] },
-    tone_guidelines: { type: 'voice', keywords: ['tone', 'voice'] },
-    content_guidelines: { type: 'voice', keywords: ['content', 'guideline', 'voice'] },
-  };
-
-  // Find matching standard
-  let matchedType: string | null = null;
-  let matchedKeywords: string[] = [];
-
-  for (const [key, mapping] of Object.entries(standardMappings)) {
+// Map variable names to standard types and names
+const STANDARD_MAPPINGS: Record<string, { type: string; keywords: string[] }> = {
+  brand_voice: { type: 'voice', keywords: ['voice', 'brand', 'tone'] },
+  company_voice: { type: 'voice', keywords: ['voice', 'brand', 'tone'] },
+  voice_guidelines: { type: 'voice', keywords: ['voice', 'brand', 'tone'] },
+  amazon_requirements: { type: 'platform', keywords: ['amazon'] },
+  social_media_guidelines: { type: 'platform', keywords: ['social', 'media', 'instagram', 'tiktok', 'facebook'] },
+  image_style_guidelines: { type: 'image', keywords: ['image', 'photo', 'style'] },
+  company_image: { type: 'image', keywords: ['image', 'photo', 'style'] },
+  platform_requirements: { type: 'platform', keywords: ['platform'] },
+  company_platform: { type: 'platform', keywords: ['platform'] },
+  tone_guidelines: { type: 'voice', keywords: ['tone', 'voice'] },
+  content_guidelines: { type: 'voice', keywords: ['content', 'guideline', 'voice'] },
+};
+
+function matchStandardMapping(varName: string): { type: string; keywords: string[] } | null {
+  for (const [key, mapping] of Object.entries(STANDARD_MAPPINGS)) {
     if (varName.toLowerCase().includes(key.replace(/_/g, '')) ||
         varName.toLowerCase().replace(/_/g, '') === key.replace(/_/g, '')) {
-      matchedType = mapping.type;
-      matchedKeywords = mapping.keywords;
-      break;
+      return mapping;
     }
   }
+  return null;
+}
 
-  if (!matchedType) {
-    return `[Company standard "${varName}" not found]`;
-  }
+// The standard a company standard variable resolves to in a workspace
+export function findCompanyStandard(varName: string, workspaceId: number): CompanyStandard | null {
+  const mapping = matchStandardMapping(varName);
+  if (!mapping) return null;
 
   // Get standards of the matched type
-  const standards = queries.getStandardsByType(userId, matchedType) as CompanyStandard[];
-
-  if (standards.length === 0) {
-    return `[No ${matchedType} standards configured]`;
-  }
+  const standards = queries.getStandardsByType(workspaceId, mapping.type) as CompanyStandard[];
+  if (standards.length === 0) return null;
 
   // Find the best matching standard by keywords in name
   let bestMatch = standards[0];
   for (const standard of standards) {
-    for (const keyword of matchedKeywords) {
+    for (const keyword of mapping.keywords) {
       if (standard.name.toLowerCase().includes(keyword)) {
         bestMatch = standard;
         break;
       }
     }
   }
+  return bestMatch;
+}
+
+// Resolve company standard variables
+function resolveCompanyStandard(varName: string, workspaceId: number): string {
+  const mapping = matchStandardMapping(varName);
+  if (!mapping) {
+    return `[Company standard "${varName}" not found]`;
+  }
+  const matchedType = mapping.type;
+
+  const bestMatch = findCompanyStandard(varName, workspaceId);
+  if (!bestMatch) {
+    return `[No ${matchedType} standards configured]`;
+  }
 
   // Parse and format the standard content
   try {
@@ -211,9 +230,100 @@ function resolvePreviousStepOutput(
   }
 }
 
+// The reviews array a review monitor step reported under `key`, most recent
+// step first; undefined when no completed step reported one
+function findReviewChanges(key: string, stepExecutions: StepExecution[]): any[] | undefined {
+  const completed = stepExecutions
+    .filter((se) => se.status === 'completed' && se.output_data)
+    .sort((a, b) => b.step_order - a.step_order);
+  for (const stepExecution of completed) {
+    try {
+      const outputData = JSON.parse(stepExecution.output_data!);
+      const content = typeof outputData.content === 'string' ? JSON.parse(outputData.content) : outputData.content;
+      if (Array.isArray(content?.[key])) return content[key];
+    } catch {
+      // Not a review monitor step
+    }
+  }
+  return undefined;
+}
+
+// One line per review, for prompts
+function formatReviewChanges(key: string, reviews: any[]): string {
+  if (reviews.length === 0) {
+    return key === 'new_reviews' ? 'No new reviews since the last run' : 'No updated reviews since the last run';
+  }
+  return reviews.map((review) => {
+    const header = [
+      review.rating !== null && review.rating !== undefined ? `${review.rating}/5` : null,
+      review.date,
+      review.author,
+      review.variant,
+      review.verified ? 'verified' : null,
+    ].filter(Boolean).join(' | ');
+    const text = [review.title, review.body].filter(Boolean).join(' — ');
+    return `- [${header}] ${text}`;
+  }).join('\n');
+}
+
+// Walk a dotted path (e.g. "items.0.title") into a parsed value
+function getValueAtPath(value: any, pathParts: string[]): any {
+  let current = value;
+  for (const part of pathParts) {
+    if (current === null || current === undefined) return undefined;
+    current = current[part];
+  }
+  return current;
+}
+
+// Resolve a reference like "step_2_output.needs_translation" or a user input name
+// to its raw value. Step outputs are JSON-parsed when possible so nested paths work.
+export function resolveReferenceValue(
+  reference: string,
+  userInputs: Record<string, any>,
+  stepExecutions: StepExecution[]
+): any {
+  const ref = String(reference || '').trim().replace(/^\{\{\s*|\s*\}\}$/g, '');
+  const stepMatch = ref.match(/^step_(\d+)_output(?:\.(.+))?$/);
+
+  if (!stepMatch) {
+    const [inputName, ...pathParts] = ref.split('.');
+    if (isReviewChangeVariable(inputName)) {
+      const reviews = findReviewChanges(inputName, stepExecutions);
+      if (reviews) return getValueAtPath(reviews, pathParts);
+    }
+    return getValueAtPath(userInputs[inputName], pathParts);
+  }
+
+  const stepNumber = parseInt(stepMatch[1], 10);
+  const stepExecution = stepExecutions.find(se => se.step_order === stepNumber);
+  if (!stepExecution || stepExecution.status !== 'completed' || !stepExecution.output_data) {
+    return undefined;
+  }
+
+  let content: any = stepExecution.output_data;
+  try {
+    const outputData = JSON.parse(stepExecution.output_data);
+    content = outputData.content ?? outputData.output ?? outputData;
+  } catch {
+    // Keep raw output
+  }
+  if (typeof content === 'string') {
+    try {
+      content = JSON.parse(content);
+    } catch {
+      // Plain text output
+    }
+  }
+
+  return stepMatch[2] ? getValueAtPath(content, stepMatch[2].split('.')) : content;
+}
+
 // Main function to compile a prompt with all variables resolved
 export interface CompilePromptContext {
   userId: number;
+  // Workspace whose company standards apply; defaults to the user's personal one
+  workspaceId?: number | null;
   userInputs: Record<string, any>;
   stepExecutions: StepExecution[];
 }
@@ -311,8 +421,30 @@ export function compilePrompt(
         }
         break;
 
+      case 'review_changes': {
+        const [key, ...pathParts] = variable.name.split('.');
+        // A run's inputs stand in when no review monitor step ran (tests, evaluations)
+        const reviews = findReviewChanges(key, context.stepExecutions)
+          ?? (Array.isArray(context.userInputs[key]) ? context.userInputs[key] : undefined);
+        if (reviews && pathParts.length > 0) {
+          const value = getValueAtPath(reviews, pathParts);
+          resolvedValue = typeof value === 'string' ? value : JSON.stringify(value ?? null);
+        } else if (reviews) {
+          resolvedValue = formatReviewChanges(key, reviews);
+        } else if (typeof context.userInputs[key] === 'string' && context.userInputs[key]) {
+          resolvedValue = context.userInputs[key];
+        } else {
+          unresolvedVariables.push(variable.name);
+          resolvedValue = `[No review monitor step has reported ${key}]`;
+        }
+        break;
+      }
+
       case 'company_standard':
-        resolvedValue = resolveCompanyStandard(variable.name, context.userId);
+        resolvedValue = resolveCompanyStandard(
+          variable.name,
+          context.workspaceId ?? ensurePersonalWorkspace(context.userId)
+        );
         break;
 
       default:
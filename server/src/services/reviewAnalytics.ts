@@ -0,0 +1,492 @@
+import { callAIByModel, getAvailableModels } from './aiService';
+import { extractJson } from './structuredOutput';
+import { queries } from '../models/database';
+import { ReviewSentiment, ReviewTopic, StoredReviewRow, TaggedReviewRow } from '../types';
+import { Sheet, SpreadsheetCell, toCsv, toXlsx } from '../utils/spreadsheet';
+
+/**
+ * Product-level analytics over the reviews kept by the review store: rating
+ * and sentiment trends, AI-tagged purchase motivations and topics, topic
+ * clusters with example quotes, side-by-side product comparison and
+ * CSV/XLSX export.
+ */
+
+export class ReviewAnalyticsError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+export type TrendInterval = 'week' | 'month';
+
+export interface ReviewAnalyticsFilters {
+  platform?: string;
+  /** Product keys to include; several are compared side by side */
+  productKeys?: string[];
+  interval?: TrendInterval;
+}
+
+type RatingCounts = Record<'1' | '2' | '3' | '4' | '5', number>;
+type SentimentCounts = Record<ReviewSentiment, number>;
+
+export interface ProductSummary {
+  platform: string;
+  productKey: string;
+  productName: string | null;
+  productUrl: string | null;
+  reviewCount: number;
+  taggedCount: number;
+  averageRating: number | null;
+  ratingCounts: RatingCounts;
+  sentimentCounts: SentimentCounts;
+  topTopics: Array<{ topic: string; count: number; share: number }>;
+}
+
+export interface TrendPoint {
+  period: string;
+  reviewCount: number;
+  averageRating: number | null;
+  ratingCounts: RatingCounts;
+  sentimentCounts: SentimentCounts;
+  // Average rating per product key, for comparison lines
+  byProduct: Record<string, { reviewCount: number; averageRating: number | null }>;
+}
+
+export interface TopicCluster {
+  topic: string;
+  /** Other wordings grouped under this topic */
+  variants: string[];
+  count: number;
+  share: number;
+  averageRating: number | null;
+  sentimentCounts: SentimentCounts;
+  examples: Array<{ quote: string; rating: number | null; sentiment: ReviewSentiment; productKey: string; date: string }>;
+}
+
+export interface ReviewAnalytics {
+  interval: TrendInterval;
+  reviewCount: number;
+  taggedCount: number;
+  products: ProductSummary[];
+  trend: TrendPoint[];
+  topics: TopicCluster[];
+  motivations: Array<{ motivation: string; count: number; share: number }>;
+}
+
+export interface TagReviewsResult {
+  model: string;
+  tagged: number;
+  failed: number;
+  remaining: number;
+}
+
+// Reviews sent to the model per call
+const TAG_BATCH_SIZE = 20;
+const MAX_TAG_LIMIT = 500;
+const MAX_TOPIC_CLUSTERS = 30;
+const EXAMPLES_PER_TOPIC = 3;
+// Topics whose words overlap at least this much are grouped
+const TOPIC_SIMILARITY = 0.5;
+
+const SENTIMENTS: ReviewSentiment[] = ['positive', 'neutral', 'negative'];
+
+const emptyRatingCounts = (): RatingCounts => ({ 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 });
+const emptySentimentCounts = (): SentimentCounts => ({ positive: 0, neutral: 0, negative: 0 });
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100;
+}
+
+function share(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 1000) / 1000 : 0;
+}
+
+function parseTopics(raw: string | null): ReviewTopic[] {
+  if (!raw) return [];
+  try {
+    const topics = JSON.parse(raw);
+    return Array.isArray(topics) ? topics.filter((topic) => topic && typeof topic.topic === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+// ----- Tagging -----
+
+function selectTaggingModel(requested?: string): string {
+  const available = getAvailableModels();
+  if (requested) {
+    if (!available.some((model) => model.id === requested)) {
+      throw new ReviewAnalyticsError(`Model "${requested}" is not available`);
+    }
+    return requested;
+  }
+  const textModel = available.find((model) => !model.supportsImageGeneration);
+  if (!textModel) throw new ReviewAnalyticsError('No AI models available. Please configure at least one AI provider.');
+  return textModel.id;
+}
+
+// Follows the "E-commerce Review Motivation Analysis" skill: why people bought, and what they talk about
+function taggingPrompt(reviews: StoredReviewRow[]): string {
+  const items = reviews.map((review) => ({
+    id: review.id,
+    rating: review.rating,
+    title: review.title || undefined,
+    body: review.body,
+    variant: review.variant || undefined,
+  }));
+  return [
+    'You are analyzing e-commerce product reviews for purchase motivation and sentiment.',
+    'For each review give:',
+    '- sentiment: "positive", "neutral" or "negative"',
+    '- motivation: why the customer bought the product, in 2-5 words (e.g. "gift for a parent", "replacing a broken one"), or null if the review does not say',
+    '- topics: 1-4 product aspects the review talks about, each a short lowercase noun phrase (e.g. "battery life", "packaging") with a short quote copied word for word from the review',
+    'Use the language of the review for motivations, topics and quotes.',
+    'Reply with only a JSON array: [{"id": <review id>, "sentiment": "...", "motivation": "..." | null, "topics": [{"topic": "...", "quote": "..."}]}]',
+    `Reviews:\n${JSON.stringify(items, null, 2)}`,
+  ].join('\n\n');
+}
+
+function normalizeTag(raw: any): { sentiment: ReviewSentiment; motivation: string | null; topics: ReviewTopic[] } | null {
+  const sentiment = String(raw?.sentiment || '').toLowerCase() as ReviewSentiment;
+  if (!SENTIMENTS.includes(sentiment)) return null;
+  const motivation = typeof raw.motivation === 'string' && raw.motivation.trim() ? raw.motivation.trim().slice(0, 100) : null;
+  const topics = (Array.isArray(raw.topics) ? raw.topics : [])
+    .map((topic: any) => (typeof topic === 'string' ? { topic, quote: '' } : topic))
+    .filter((topic: any) => topic && typeof topic.topic === 'string' && topic.topic.trim())
+    .slice(0, 4)
+    .map((topic: any) => ({
+      topic: topic.topic.trim().toLowerCase().slice(0, 60),
+      quote: typeof topic.quote === 'string' ? topic.quote.trim().slice(0, 300) : '',
+    }));
+  return { sentiment, motivation, topics };
+}
+
+/**
+ * Tag up to `limit` untagged (or since-changed) reviews with an AI model, in
+ * batches. A batch the model fails is counted and left for the next call.
+ */
+export async function tagReviews(
+  workspaceId: number,
+  userId: number,
+  options: { platform?: string; productKeys?: string[]; model?: string; limit?: number } = {},
+): Promise<TagReviewsResult> {
+  const model = selectTaggingModel(options.model);
+  const limit = Math.min(Math.max(Number(options.limit) || 100, 1), MAX_TAG_LIMIT);
+  const inScope = (review: StoredReviewRow) => !options.productKeys?.length || options.productKeys.includes(review.product_key);
+  const pending = () => (queries.getUntaggedReviews(workspaceId, options.platform || null, -1) as StoredReviewRow[]).filter(inScope);
+
+  const queue = pending().slice(0, limit);
+  let tagged = 0;
+  let failed = 0;
+  for (let start = 0; start < queue.length; start += TAG_BATCH_SIZE) {
+    const batch = queue.slice(start, start + TAG_BATCH_SIZE);
+    const response = await callAIByModel(model, taggingPrompt(batch), {
+      temperature: 0,
+      usage: { userId, workspaceId, source: 'workflow_step' },
+    });
+    const replies = response.success ? extractJson(response.content)?.value : undefined;
+    const byId = new Map<number, any>(
+      (Array.isArray(replies) ? replies : []).map((reply: any) => [Number(reply?.id), reply])
+    );
+
+    for (const review of batch) {
+      const tag = normalizeTag(byId.get(review.id));
+      if (!tag) {
+        failed += 1;
+        continue;
+      }
+      queries.upsertReviewTag(review.id, tag.sentiment, tag.motivation, JSON.stringify(tag.topics), review.content_hash, model);
+      tagged += 1;
+    }
+  }
+
+  return { model, tagged, failed, remaining: pending().length };
+}
+
+// ----- Analytics -----
+
+// ISO date of the review, falling back to when it was first stored
+function reviewDay(review: StoredReviewRow): string {
+  const date = /^\d{4}-\d{2}-\d{2}/.test(review.review_date || '') ? review.review_date! : review.first_seen_at;
+  return String(date || '').slice(0, 10);
+}
+
+// "2026-01" for months; the Monday starting the week for weeks
+export function periodOf(day: string, interval: TrendInterval): string {
+  if (interval === 'month') return day.slice(0, 7);
+  const date = new Date(`${day}T00:00:00Z`);
+  if (Number.isNaN(date.getTime())) return day;
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().slice(0, 10);
+}
+
+function countRating(counts: RatingCounts, rating: number | null): void {
+  if (rating === null) return;
+  const star = String(Math.min(5, Math.max(1, Math.round(rating)))) as keyof RatingCounts;
+  counts[star] += 1;
+}
+
+// Words of a topic, lowercased with simple plurals folded ("batteries" ~ "battery")
+function topicWords(topic: string): Set<string> {
+  const words = topic.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+  return new Set(words.map((word) => {
+    if (/ies$/.test(word) && word.length > 4) return `${word.slice(0, -3)}y`;
+    if (/[^s]s$/.test(word) && word.length > 3) return word.slice(0, -1);
+    return word;
+  }));
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  const shared = Array.from(a).filter((word) => b.has(word)).length;
+  const union = new Set([...Array.from(a), ...Array.from(b)]).size;
+  return union === 0 ? 0 : shared / union;
+}
+
+interface TaggedReview {
+  row: TaggedReviewRow;
+  topics: ReviewTopic[];
+}
+
+/**
+ * Group topic mentions into clusters. The most mentioned wording names a
+ * cluster; other wordings join the first cluster whose name shares enough
+ * of their words.
+ */
+export function clusterTopics(reviews: TaggedReview[], taggedCount: number): TopicCluster[] {
+  const mentions = new Map<string, Array<{ review: TaggedReviewRow; quote: string }>>();
+  for (const { row, topics } of reviews) {
+    for (const { topic, quote } of topics) {
+      const key = topic.trim().toLowerCase();
+      if (!key) continue;
+      if (!mentions.has(key)) mentions.set(key, []);
+      mentions.get(key)!.push({ review: row, quote });
+    }
+  }
+
+  const wordings = Array.from(mentions.entries()).sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]));
+  const clusters: Array<{ topic: string; words: Set<string>; variants: string[]; mentions: Array<{ review: TaggedReviewRow; quote: string }> }> = [];
+  for (const [topic, topicMentions] of wordings) {
+    const words = topicWords(topic);
+    const cluster = clusters.find((candidate) => similarity(candidate.words, words) >= TOPIC_SIMILARITY);
+    if (cluster) {
+      cluster.variants.push(topic);
+      cluster.mentions.push(...topicMentions);
+    } else {
+      clusters.push({ topic, words, variants: [], mentions: [...topicMentions] });
+    }
+  }
+
+  return clusters
+    .map((cluster) => {
+      // A review mentioning two wordings of a topic counts once
+      const reviewsInCluster = new Map<number, TaggedReviewRow>();
+      cluster.mentions.forEach(({ review }) => reviewsInCluster.set(review.id, review));
+      const sentimentCounts = emptySentimentCounts();
+      reviewsInCluster.forEach((review) => { if (review.sentiment) sentimentCounts[review.sentiment] += 1; });
+
+      const seen = new Set<number>();
+      const examples = cluster.mentions
+        .filter(({ review, quote }) => quote && !seen.has(review.id) && seen.add(review.id))
+        .sort((a, b) => reviewDay(b.review).localeCompare(reviewDay(a.review)))
+        .slice(0, EXAMPLES_PER_TOPIC)
+        .map(({ review, quote }) => ({
+          quote,
+          rating: review.rating,
+          sentiment: review.sentiment!,
+          productKey: review.product_key,
+          date: reviewDay(review),
+        }));
+
+      return {
+        topic: cluster.topic,
+        variants: cluster.variants,
+        count: reviewsInCluster.size,
+        share: share(reviewsInCluster.size, taggedCount),
+        averageRating: average(Array.from(reviewsInCluster.values()).flatMap((review) => (review.rating === null ? [] : [review.rating]))),
+        sentimentCounts,
+        examples,
+      };
+    })
+    .sort((a, b) => b.count - a.count || a.topic.localeCompare(b.topic))
+    .slice(0, MAX_TOPIC_CLUSTERS);
+}
+
+function loadReviews(workspaceId: number, filters: ReviewAnalyticsFilters): TaggedReview[] {
+  const productKeys = (filters.productKeys || []).filter(Boolean);
+  return (queries.getReviewsWithTags(workspaceId, filters.platform || null) as TaggedReviewRow[])
+    .filter((row) => productKeys.length === 0 || productKeys.includes(row.product_key))
+    .map((row) => ({ row, topics: row.sentiment ? parseTopics(row.topics) : [] }));
+}
+
+export function getReviewAnalytics(workspaceId: number, filters: ReviewAnalyticsFilters = {}): ReviewAnalytics {
+  const interval: TrendInterval = filters.interval === 'week' ? 'week' : 'month';
+  const reviews = loadReviews(workspaceId, filters);
+  const tagged = reviews.filter(({ row }) => row.sentiment);
+
+  // Per product
+  const byProduct = new Map<string, TaggedReview[]>();
+  for (const review of reviews) {
+    const key = `${review.row.platform}\n${review.row.product_key}`;
+    if (!byProduct.has(key)) byProduct.set(key, []);
+    byProduct.get(key)!.push(review);
+  }
+  const products: ProductSummary[] = Array.from(byProduct.values()).map((productReviews) => {
+    const first = productReviews[0].row;
+    const ratingCounts = emptyRatingCounts();
+    const sentimentCounts = emptySentimentCounts();
+    productReviews.forEach(({ row }) => {
+      countRating(ratingCounts, row.rating);
+      if (row.sentiment) sentimentCounts[row.sentiment] += 1;
+    });
+    const productTagged = productReviews.filter(({ row }) => row.sentiment);
+    return {
+      platform: first.platform,
+      productKey: first.product_key,
+      productName: productReviews.map(({ row }) => row.product_name).find(Boolean) || null,
+      productUrl: first.product_url,
+      reviewCount: productReviews.length,
+      taggedCount: productTagged.length,
+      averageRating: average(productReviews.flatMap(({ row }) => (row.rating === null ? [] : [row.rating]))),
+      ratingCounts,
+      sentimentCounts,
+      topTopics: clusterTopics(productTagged, productTagged.length)
+        .slice(0, 5)
+        .map(({ topic, count, share: topicShare }) => ({ topic, count, share: topicShare })),
+    };
+  }).sort((a, b) => b.reviewCount - a.reviewCount);
+
+  // Over time
+  const periods = new Map<string, TaggedReview[]>();
+  for (const review of reviews) {
+    const period = periodOf(reviewDay(review.row), interval);
+    if (!periods.has(period)) periods.set(period, []);
+    periods.get(period)!.push(review);
+  }
+  const trend: TrendPoint[] = Array.from(periods.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([period, periodReviews]) => {
+      const ratingCounts = emptyRatingCounts();
+      const sentimentCounts = emptySentimentCounts();
+      const ratingsByProduct = new Map<string, { reviewCount: number; ratings: number[] }>();
+      for (const { row } of periodReviews) {
+        countRating(ratingCounts, row.rating);
+        if (row.sentiment) sentimentCounts[row.sentiment] += 1;
+        const entry = ratingsByProduct.get(row.product_key) || { reviewCount: 0, ratings: [] };
+        entry.reviewCount += 1;
+        if (row.rating !== null) entry.ratings.push(row.rating);
+        ratingsByProduct.set(row.product_key, entry);
+      }
+      return {
+        period,
+        reviewCount: periodReviews.length,
+        averageRating: average(periodReviews.flatMap(({ row }) => (row.rating === null ? [] : [row.rating]))),
+        ratingCounts,
+        sentimentCounts,
+        byProduct: Object.fromEntries(Array.from(ratingsByProduct.entries()).map(([productKey, entry]) => [
+          productKey, { reviewCount: entry.reviewCount, averageRating: average(entry.ratings) },
+        ])),
+      };
+    });
+
+  // Why people bought
+  const motivationCounts = new Map<string, number>();
+  tagged.forEach(({ row }) => {
+    const motivation = row.motivation?.trim().toLowerCase();
+    if (motivation) motivationCounts.set(motivation, (motivationCounts.get(motivation) || 0) + 1);
+  });
+  const motivations = Array.from(motivationCounts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, 15)
+    .map(([motivation, count]) => ({ motivation, count, share: share(count, tagged.length) }));
+
+  return {
+    interval,
+    reviewCount: reviews.length,
+    taggedCount: tagged.length,
+    products,
+    trend,
+    topics: clusterTopics(tagged, tagged.length),
+    motivations,
+  };
+}
+
+// ----- Export -----
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+function reviewRows(reviews: TaggedReview[]): SpreadsheetCell[][] {
+  return [
+    ['Platform', 'Product', 'Product URL', 'Review ID', 'Date', 'Rating', 'Title', 'Review', 'Author', 'Variant',
+      'Verified', 'Sentiment', 'Motivation', 'Topics', 'First seen'],
+    ...reviews.map(({ row, topics }) => [
+      row.platform, row.product_name, row.product_url, row.review_key, row.review_date, row.rating, row.title, row.body,
+      row.author, row.variant, !!row.verified, row.sentiment, row.motivation,
+      topics.map((topic) => topic.topic).join('; '), row.first_seen_at,
+    ]),
+  ];
+}
+
+/**
+ * The reviews in scope with their tags. CSV holds the reviews; XLSX adds
+ * sheets for the product comparison, the trend and the topic clusters.
+ */
+export function exportReviewAnalytics(
+  workspaceId: number,
+  filters: ReviewAnalyticsFilters,
+  format: ExportFormat,
+): { filename: string; contentType: string; body: string | Buffer } {
+  const reviews = loadReviews(workspaceId, filters);
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  if (format === 'csv') {
+    return { filename: `reviews-${stamp}.csv`, contentType: 'text/csv; charset=utf-8', body: toCsv(reviewRows(reviews)) };
+  }
+
+  const analytics = getReviewAnalytics(workspaceId, filters);
+  const sheets: Sheet[] = [
+    { name: 'Reviews', rows: reviewRows(reviews) },
+    {
+      name: 'Products',
+      rows: [
+        ['Platform', 'Product', 'Product URL', 'Reviews', 'Average rating', '1★', '2★', '3★', '4★', '5★',
+          'Positive', 'Neutral', 'Negative', 'Top topics'],
+        ...analytics.products.map((product) => [
+          product.platform, product.productName, product.productUrl, product.reviewCount, product.averageRating,
+          ...(['1', '2', '3', '4', '5'] as const).map((star) => product.ratingCounts[star]),
+          ...SENTIMENTS.map((sentiment) => product.sentimentCounts[sentiment]),
+          product.topTopics.map((topic) => topic.topic).join('; '),
+        ]),
+      ],
+    },
+    {
+      name: 'Trend',
+      rows: [
+        [analytics.interval === 'week' ? 'Week' : 'Month', 'Reviews', 'Average rating', '1★', '2★', '3★', '4★', '5★',
+          'Positive', 'Neutral', 'Negative'],
+        ...analytics.trend.map((point) => [
+          point.period, point.reviewCount, point.averageRating,
+          ...(['1', '2', '3', '4', '5'] as const).map((star) => point.ratingCounts[star]),
+          ...SENTIMENTS.map((sentiment) => point.sentimentCounts[sentiment]),
+        ]),
+      ],
+    },
+    {
+      name: 'Topics',
+      rows: [
+        ['Topic', 'Also worded as', 'Reviews', 'Share of tagged', 'Average rating', 'Positive', 'Neutral', 'Negative', 'Example quotes'],
+        ...analytics.topics.map((topic) => [
+          topic.topic, topic.variants.join('; '), topic.count, topic.share, topic.averageRating,
+          ...SENTIMENTS.map((sentiment) => topic.sentimentCounts[sentiment]),
+          topic.examples.map((example) => `"${example.quote}"`).join('\n'),
+        ]),
+      ],
+    },
+  ];
+  return {
+    filename: `reviews-${stamp}.xlsx`,
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    body: toXlsx(sheets),
+  };
+}
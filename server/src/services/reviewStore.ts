@@ -0,0 +1,269 @@
+import crypto from 'crypto';
+import { Page } from 'puppeteer';
+import { getDatabase, queries } from '../models/database';
+import { ExtractionStrategy, getAllStrategies, getStrategy } from './extractionStrategies';
+import { NormalizedReview, ProductReviews, reviewKey } from './extractionStrategies/reviewSchema';
+import { ReviewRun, StoredReviewRow } from '../types';
+
+/**
+ * Extracted reviews kept per workspace, keyed by platform + product + review.
+ * Each extraction is a review run; a review first stored by a run is "new" in
+ * that run, and one whose text or rating changed is "updated". Incremental
+ * runs stop paging once they reach reviews that are already stored.
+ */
+
+export class ReviewStoreError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+export interface ReviewExtractionContext {
+  workspaceId: number;
+  userId: number | null;
+  executionId?: number | null;
+  /** Stop at reviews stored by earlier runs (default: true) */
+  incremental?: boolean;
+  maxReviews?: number;
+}
+
+// One product's outcome: the extraction plus what changed since the last run
+export interface ProductReviewRun extends ProductReviews {
+  productKey: string;
+  runId: number | null;
+  newCount: number;
+  updatedCount: number;
+}
+
+export interface ReviewExtraction {
+  success: boolean;
+  products: ProductReviewRun[];
+  newReviews: NormalizedReview[];
+  updatedReviews: NormalizedReview[];
+  reviewCount: number;
+  error?: string;
+}
+
+export interface ReviewRunDiff {
+  run: ReviewRun;
+  newReviews: NormalizedReview[];
+  updatedReviews: NormalizedReview[];
+}
+
+// Identity of a product's URL when its strategy doesn't define one
+function canonicalUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    return `${parsed.protocol}//${parsed.host.toLowerCase()}${parsed.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return url.trim();
+  }
+}
+
+export function productKeyFor(strategy: ExtractionStrategy, url: string): string {
+  try {
+    return strategy.productKey?.(url) || canonicalUrl(url);
+  } catch {
+    // The strategy can't read this URL; extraction reports why
+    return canonicalUrl(url);
+  }
+}
+
+// Changes to these fields make a stored review "updated"
+function contentHash(review: NormalizedReview): string {
+  const content = [review.rating, review.title, review.body, review.variant, review.images, review.verified];
+  return crypto.createHash('sha1').update(JSON.stringify(content)).digest('hex');
+}
+
+export function toNormalizedReview(row: StoredReviewRow): NormalizedReview {
+  let images: string[] = [];
+  try {
+    images = JSON.parse(row.images);
+  } catch {
+    // Keep no images
+  }
+  return {
+    platform: row.platform,
+    reviewId: row.review_key,
+    rating: row.rating,
+    title: row.title,
+    body: row.body,
+    date: row.review_date || '',
+    author: row.author || '',
+    variant: row.variant || '',
+    images,
+    verified: !!row.verified,
+  };
+}
+
+/**
+ * Store one product's extracted reviews as a new run. Returns the reviews the
+ * workspace hadn't seen, and those whose content changed since last seen.
+ */
+export function recordProductReviews(
+  product: ProductReviews,
+  productKey: string,
+  context: ReviewExtractionContext,
+): { runId: number; newReviews: NormalizedReview[]; updatedReviews: NormalizedReview[] } {
+  const db = getDatabase();
+  const insertReview = db.prepare(`
+    INSERT INTO reviews (workspace_id, platform, product_key, review_key, product_url, product_name, rating, title, body,
+      review_date, author, variant, images, verified, content_hash, first_run_id, last_run_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const updateReview = db.prepare(`
+    UPDATE reviews SET rating = ?, title = ?, body = ?, review_date = ?, author = ?, variant = ?, images = ?,
+      verified = ?, content_hash = ?, product_name = COALESCE(?, product_name), last_run_id = ?,
+      last_seen_at = CURRENT_TIMESTAMP, changed_run_id = ?, changed_at = CURRENT_TIMESTAMP
+    WHERE workspace_id = ? AND platform = ? AND product_key = ? AND review_key = ?
+  `);
+  const touchReview = db.prepare(`
+    UPDATE reviews SET last_run_id = ?, last_seen_at = CURRENT_TIMESTAMP
+    WHERE workspace_id = ? AND platform = ? AND product_key = ? AND review_key = ?
+  `);
+
+  return db.transaction(() => {
+    const { workspaceId } = context;
+    const stored = new Map(
+      (queries.getReviewKeys(workspaceId, product.platform, productKey) as Array<{ review_key: string; content_hash: string }>)
+        .map((row) => [row.review_key, row.content_hash])
+    );
+    const runId = Number(queries.createReviewRun(
+      workspaceId, product.platform, productKey, product.url, product.productName || null,
+      context.incremental !== false, context.executionId ?? null, context.userId
+    ).lastInsertRowid);
+
+    const newReviews: NormalizedReview[] = [];
+    const updatedReviews: NormalizedReview[] = [];
+    for (const review of product.reviews) {
+      const key = reviewKey(review);
+      const hash = contentHash(review);
+      const previousHash = stored.get(key);
+      const fields = [
+        review.rating, review.title, review.body, review.date, review.author, review.variant,
+        JSON.stringify(review.images), review.verified ? 1 : 0, hash,
+      ];
+
+      if (previousHash === undefined) {
+        insertReview.run(
+          workspaceId, product.platform, productKey, key, product.url, product.productName || null,
+          ...fields, runId, runId
+        );
+        newReviews.push(review);
+      } else if (previousHash !== hash) {
+        updateReview.run(...fields, product.productName || null, runId, runId, workspaceId, product.platform, productKey, key);
+        updatedReviews.push(review);
+      } else {
+        touchReview.run(runId, workspaceId, product.platform, productKey, key);
+      }
+      stored.set(key, hash);
+    }
+
+    queries.completeReviewRun(product.reviews.length, newReviews.length, updatedReviews.length, runId);
+    return { runId, newReviews, updatedReviews };
+  })();
+}
+
+/**
+ * Extract reviews for each URL with the platform's strategy and store them.
+ * With `incremental` (the default) a product's paging stops at the first
+ * page holding a review stored by an earlier run.
+ */
+export async function extractAndRecordReviews(
+  page: Page,
+  platform: string,
+  urls: string[],
+  context: ReviewExtractionContext,
+  onProgress: (message: string) => void,
+): Promise<ReviewExtraction> {
+  const strategy = getStrategy(platform);
+  if (!strategy) {
+    const available = getAllStrategies().map((s) => s.platform).join(', ');
+    throw new ReviewStoreError(`Unsupported platform: ${platform}. Available: ${available}`);
+  }
+
+  const products: ProductReviewRun[] = [];
+  const newReviews: NormalizedReview[] = [];
+  const updatedReviews: NormalizedReview[] = [];
+
+  for (const url of urls) {
+    const productKey = productKeyFor(strategy, url);
+    const known = new Set(
+      (queries.getReviewKeys(context.workspaceId, platform, productKey) as Array<{ review_key: string }>)
+        .map((row) => row.review_key)
+    );
+    const incremental = context.incremental !== false && known.size > 0;
+    if (incremental) onProgress(`${known.size} review(s) of this product already stored; collecting newer ones.`);
+
+    const result = await strategy.execute(page, [url], onProgress, {
+      maxReviews: context.maxReviews,
+      isKnownReview: incremental ? (review) => known.has(reviewKey(review)) : undefined,
+    });
+    // Strategies return a single URL's product directly
+    const product = (Array.isArray(result.data) ? result.data[0] : result.data) as ProductReviews | undefined;
+    const reviews = Array.isArray(product?.reviews) ? product!.reviews : [];
+
+    if (!product || product.error || reviews.length === 0) {
+      products.push({
+        url, platform, productName: product?.productName || '', totalCount: product?.totalCount || 0,
+        averageRating: product?.averageRating ?? null, reviews: [], pages: product?.pages || 0,
+        source: product?.source || '', error: product?.error || result.error || 'No reviews found',
+        productKey, runId: null, newCount: 0, updatedCount: 0,
+      });
+      continue;
+    }
+
+    const recorded = recordProductReviews({ ...product, platform }, productKey, context);
+    onProgress(`${recorded.newReviews.length} new and ${recorded.updatedReviews.length} updated review(s) since the last run.`);
+    products.push({
+      ...product,
+      platform,
+      productKey,
+      runId: recorded.runId,
+      newCount: recorded.newReviews.length,
+      updatedCount: recorded.updatedReviews.length,
+    });
+    newReviews.push(...recorded.newReviews);
+    updatedReviews.push(...recorded.updatedReviews);
+  }
+
+  const succeeded = products.filter((product) => !product.error);
+  return {
+    success: succeeded.length > 0,
+    products,
+    newReviews,
+    updatedReviews,
+    reviewCount: products.reduce((sum, product) => sum + product.reviews.length, 0),
+    error: succeeded.length === 0 ? products.map((product) => `${product.url}: ${product.error}`).join('; ') : undefined,
+  };
+}
+
+export function listReviewRuns(
+  workspaceId: number,
+  filters: { platform?: string; productKey?: string; limit?: number } = {},
+): ReviewRun[] {
+  const limit = Math.min(Math.max(Number(filters.limit) || 50, 1), 200);
+  return queries.getReviewRuns(workspaceId, filters.platform || null, filters.productKey || null, limit) as ReviewRun[];
+}
+
+export function listStoredReviews(
+  workspaceId: number,
+  filters: { platform?: string; productKey?: string; limit?: number; offset?: number } = {},
+): StoredReviewRow[] {
+  const limit = Math.min(Math.max(Number(filters.limit) || 100, 1), 1000);
+  const offset = Math.max(Number(filters.offset) || 0, 0);
+  return queries.getStoredReviews(
+    workspaceId, filters.platform || null, filters.productKey || null, limit, offset
+  ) as StoredReviewRow[];
+}
+
+// What a run found that was new or changed, or null outside the workspace
+export function getReviewRunDiff(runId: number, workspaceId: number): ReviewRunDiff | null {
+  const run = queries.getReviewRunById(runId) as ReviewRun | undefined;
+  if (!run || run.workspace_id !== workspaceId) return null;
+  return {
+    run,
+    newReviews: (queries.getReviewsFirstSeenInRun(runId) as StoredReviewRow[]).map(toNormalizedReview),
+    updatedReviews: (queries.getReviewsChangedInRun(runId) as StoredReviewRow[]).map(toNormalizedReview),
+  };
+}
@@ -0,0 +1,475 @@
+import { spawn, execFileSync } from 'child_process';
+import fs, { promises as fsp } from 'fs';
+import os from 'os';
+import path from 'path';
+import { getDatabase } from '../models/database';
+import { SandboxIsolation, SandboxSource } from '../types';
+
+/**
+ * Shared sandbox for code that agents write themselves: workflow `script`
+ * steps and the `bash:execute` tool. Every run gets its own temporary
+ * working directory, a scrubbed environment, CPU/memory/time/output limits
+ * and an audit log row. Where Linux user namespaces are available the run
+ * also gets its own network namespace (no network) and a mount namespace in
+ * which home directories, temp directories and the server's own files are
+ * hidden except for the allow-listed paths.
+ */
+export interface SandboxConfig {
+  /** Give runs network access (default: no network) */
+  allowNetwork: boolean;
+  /** Host paths visible read-only inside the sandbox */
+  allowedPaths: string[];
+  /** Host paths visible read-write inside the sandbox */
+  writablePaths: string[];
+  /** Upper bound for a run's wall-clock time */
+  timeoutMs: number;
+  maxCpuSeconds: number;
+  /** Address-space limit; Node.js needs roughly 2048 MB of headroom */
+  maxMemoryMb: number;
+  /** stdout + stderr cap; the run is stopped once it is exceeded */
+  maxOutputBytes: number;
+  /** Environment variables passed through from the server */
+  allowedEnv: string[];
+  /**
+   * Refuse to run when namespace isolation is not available (default). An
+   * admin can turn this off to allow runs with only the ulimits applied.
+   */
+  requireIsolation: boolean;
+}
+
+export const DEFAULT_SANDBOX_CONFIG: SandboxConfig = {
+  allowNetwork: false,
+  allowedPaths: [],
+  writablePaths: [],
+  timeoutMs: 120000,
+  maxCpuSeconds: 60,
+  maxMemoryMb: 2048,
+  maxOutputBytes: 5 * 1024 * 1024,
+  allowedEnv: ['PATH', 'LANG', 'LC_ALL', 'TZ', 'PYENV_ROOT', 'PYENV_VERSION'],
+  requireIsolation: true,
+};
+
+const SANDBOX_CONFIG_KEY = 'sandbox_config';
+const WORKDIR_PREFIX = 'novohaven-sandbox-';
+const MAX_AUDIT_COMMAND_LENGTH = 2000;
+
+// Directories hidden inside the mount namespace unless allow-listed
+const HIDDEN_ROOTS = ['/home', '/root', '/tmp', '/var/tmp', '/mnt', '/media', '/srv'];
+
+export interface SandboxRunOptions {
+  source: SandboxSource;
+  /** Executable, resolved through PATH inside the sandbox */
+  command: string;
+  args?: string[];
+  stdin?: string;
+  /** Work directory from createSandboxWorkDir(); a fresh one is created otherwise */
+  workDir?: string;
+  /** Host directory to run in; must be allow-listed */
+  cwd?: string;
+  /** Requested wall-clock limit, capped by the sandbox config */
+  timeoutMs?: number;
+  env?: Record<string, string>;
+  /** Text recorded in the audit log instead of command + args */
+  auditCommand?: string;
+  userId?: number;
+  executionId?: number;
+  sessionId?: string;
+}
+
+export interface SandboxResult {
+  status: 'completed' | 'failed' | 'timed_out' | 'denied';
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  outputTruncated: boolean;
+  durationMs: number;
+  isolation: SandboxIsolation;
+  /** Spawn failure or the reason a run was denied */
+  error?: string;
+  /** Set when the run went ahead without isolation because an admin allowed it */
+  warning?: string;
+}
+
+export const ISOLATION_UNAVAILABLE_ERROR =
+  'Sandbox isolation unavailable: this server cannot create user namespaces. '
+  + 'An admin can allow unisolated runs in the sandbox settings.';
+export const UNISOLATED_RUN_WARNING =
+  'Ran without sandbox isolation (allowed by an admin): network and host files were reachable; only resource limits applied';
+
+/**
+ * How runs go on this server: inside namespaces, without isolation because an
+ * admin allowed it, or not at all.
+ */
+export type SandboxRunMode = 'isolated' | 'unisolated' | 'blocked';
+
+export function getSandboxRunMode(config: SandboxConfig = getSandboxConfig()): SandboxRunMode {
+  if (isNamespaceIsolationAvailable()) return 'isolated';
+  return config.requireIsolation ? 'blocked' : 'unisolated';
+}
+
+function toStringList(value: any): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.map(v => String(v || '').trim()).filter(Boolean);
+}
+
+function toPositiveNumber(value: any, fallback: number): number {
+  const num = Number(value);
+  return Number.isFinite(num) && num > 0 ? num : fallback;
+}
+
+export function normalizeSandboxConfig(raw: any): SandboxConfig {
+  const value = raw && typeof raw === 'object' ? raw : {};
+  return {
+    allowNetwork: value.allowNetwork === true,
+    allowedPaths: toStringList(value.allowedPaths).map(p => path.resolve(p)),
+    writablePaths: toStringList(value.writablePaths).map(p => path.resolve(p)),
+    timeoutMs: toPositiveNumber(value.timeoutMs, DEFAULT_SANDBOX_CONFIG.timeoutMs),
+    maxCpuSeconds: Math.ceil(toPositiveNumber(value.maxCpuSeconds, DEFAULT_SANDBOX_CONFIG.maxCpuSeconds)),
+    maxMemoryMb: Math.ceil(toPositiveNumber(value.maxMemoryMb, DEFAULT_SANDBOX_CONFIG.maxMemoryMb)),
+    maxOutputBytes: Math.ceil(toPositiveNumber(value.maxOutputBytes, DEFAULT_SANDBOX_CONFIG.maxOutputBytes)),
+    allowedEnv: Array.isArray(value.allowedEnv) ? toStringList(value.allowedEnv) : [...DEFAULT_SANDBOX_CONFIG.allowedEnv],
+    // Only an explicit false allows unisolated runs
+    requireIsolation: value.requireIsolation !== false,
+  };
+}
+
+export function getSandboxConfig(): SandboxConfig {
+  try {
+    const row = getDatabase().prepare('SELECT value FROM app_metadata WHERE key = ?').get(SANDBOX_CONFIG_KEY) as
+      { value: string } | undefined;
+    return normalizeSandboxConfig(row ? JSON.parse(row.value) : {});
+  } catch {
+    return normalizeSandboxConfig({});
+  }
+}
+
+export function saveSandboxConfig(raw: any): SandboxConfig {
+  const config = normalizeSandboxConfig(raw);
+  getDatabase().prepare(`
+    INSERT INTO app_metadata (key, value, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP
+  `).run(SANDBOX_CONFIG_KEY, JSON.stringify(config));
+  return config;
+}
+
+let namespaceSupport: boolean | null = null;
+
+// Root inside the namespaces could unmount the tmpfs over a hidden root and
+// see what is under it, so the command itself runs with no capabilities
+const DROP_CAPABILITIES = ['setpriv', '--no-new-privs', '--bounding-set=-all', '--inh-caps=-all'];
+
+/**
+ * Whether `unshare` can create user, mount and network namespaces here and
+ * `setpriv` can drop capabilities inside them (probed once).
+ */
+export function isNamespaceIsolationAvailable(): boolean {
+  if (namespaceSupport !== null) return namespaceSupport;
+  try {
+    execFileSync('unshare', ['-r', '-m', '-n', ...DROP_CAPABILITIES, 'true'], { timeout: 5000, stdio: 'ignore' });
+    namespaceSupport = true;
+  } catch {
+    namespaceSupport = false;
+  }
+  return namespaceSupport;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function isWithin(child: string, parent: string): boolean {
+  const rel = path.relative(parent, child);
+  return rel === '' || (!!rel && !rel.startsWith('..') && !path.isAbsolute(rel));
+}
+
+function getHiddenPaths(): string[] {
+  const hidden = new Set(HIDDEN_ROOTS);
+  // The server's own files (.env, database, uploads) are never visible
+  hidden.add(path.resolve(process.cwd()));
+  const dbPath = process.env.DATABASE_PATH;
+  if (dbPath && dbPath !== ':memory:') hidden.add(path.dirname(path.resolve(dbPath)));
+  const existing = Array.from(hidden).filter(p => fs.existsSync(p));
+  // A root inside another hidden root is already covered by its parent's tmpfs
+  return existing.filter(p => !existing.some(other => other !== p && isWithin(p, other)));
+}
+
+function resolveExecutable(command: string, envPath: string): string | null {
+  if (command.includes('/')) return path.resolve(command);
+  for (const dir of envPath.split(path.delimiter)) {
+    if (!dir) continue;
+    const candidate = path.join(dir, command);
+    try {
+      fs.accessSync(candidate, fs.constants.X_OK);
+      return fs.realpathSync(candidate);
+    } catch {
+      // keep looking
+    }
+  }
+  return null;
+}
+
+/**
+ * Directory to keep visible so a runtime installed under a hidden root
+ * (e.g. ~/.pyenv, ~/.nvm) still works: the nearest dot-directory above the
+ * binary, otherwise its install prefix.
+ */
+function getRuntimeRoot(executable: string, hiddenPaths: string[]): string | null {
+  if (!hiddenPaths.some(h => isWithin(executable, h))) return null;
+  let dir = path.dirname(executable);
+  while (dir !== path.dirname(dir)) {
+    if (path.basename(dir).startsWith('.')) return dir;
+    dir = path.dirname(dir);
+  }
+  return path.dirname(path.dirname(executable));
+}
+
+interface Mount {
+  path: string;
+  writable: boolean;
+}
+
+// Shell prelude run inside the namespaces: hide the hidden roots, then
+// re-expose allowed paths via file descriptors opened before hiding them.
+function buildMountScript(hiddenPaths: string[], mounts: Mount[]): string {
+  const lines: string[] = ['set -e'];
+  const sorted = [...mounts].sort((a, b) => a.path.length - b.path.length);
+  sorted.forEach((mount, index) => {
+    lines.push(`exec ${index + 3}< ${shellQuote(mount.path)}`);
+  });
+  for (const hidden of hiddenPaths) {
+    lines.push(`mount -t tmpfs -o size=16m,mode=755 sandbox ${shellQuote(hidden)}`);
+  }
+  sorted.forEach((mount, index) => {
+    const target = shellQuote(mount.path);
+    lines.push(`mkdir -p ${target}`);
+    lines.push(`mount --no-canonicalize --bind /proc/self/fd/${index + 3} ${target}`);
+    if (!mount.writable) lines.push(`mount -o remount,bind,ro ${target}`);
+    lines.push(`exec ${index + 3}<&-`);
+  });
+  return lines.join('\n');
+}
+
+function buildLimitScript(config: SandboxConfig, cwd: string, dropCapabilities: boolean): string {
+  return [
+    `ulimit -t ${config.maxCpuSeconds}`,
+    `ulimit -v ${config.maxMemoryMb * 1024}`,
+    `cd ${shellQuote(cwd)}`,
+    dropCapabilities ? `exec ${DROP_CAPABILITIES.join(' ')} -- "$@"` : 'exec "$@"',
+  ].join('\n');
+}
+
+export async function createSandboxWorkDir(): Promise<string> {
+  const dir = await fsp.mkdtemp(path.join(os.tmpdir(), WORKDIR_PREFIX));
+  await fsp.mkdir(path.join(dir, '.tmp'));
+  return dir;
+}
+
+async function removeWorkDir(dir: string): Promise<void> {
+  try {
+    await fsp.rm(dir, { recursive: true, force: true });
+  } catch {
+    // Best effort cleanup.
+  }
+}
+
+function recordAudit(options: SandboxRunOptions, config: SandboxConfig, result: SandboxResult): void {
+  const command = options.auditCommand || [options.command, ...(options.args || [])].join(' ');
+  try {
+    getDatabase().prepare(`
+      INSERT INTO sandbox_audit_log
+        (source, command, user_id, execution_id, session_id, status, exit_code, isolation,
+         network_allowed, output_truncated, duration_ms, error_message)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      options.source,
+      command.slice(0, MAX_AUDIT_COMMAND_LENGTH),
+      options.userId ?? null,
+      options.executionId ?? null,
+      options.sessionId ?? null,
+      result.status,
+      result.exitCode,
+      result.isolation,
+      config.allowNetwork ? 1 : 0,
+      result.outputTruncated ? 1 : 0,
+      result.durationMs,
+      result.error || null
+    );
+  } catch (err: any) {
+    console.warn(`[Sandbox] Failed to write audit log: ${err.message}`);
+  }
+}
+
+/** Resolve a requested working directory against the allow-list. */
+export function resolveSandboxCwd(requested: string | undefined, config: SandboxConfig): string | null {
+  if (!requested) return null;
+  const resolved = path.resolve(requested);
+  const allowed = [...config.allowedPaths, ...config.writablePaths];
+  return allowed.some(p => isWithin(resolved, p)) ? resolved : null;
+}
+
+export async function runSandboxed(options: SandboxRunOptions): Promise<SandboxResult> {
+  const config = getSandboxConfig();
+  const startedAt = Date.now();
+  const isolated = isNamespaceIsolationAvailable();
+  const isolation: SandboxIsolation = isolated ? 'namespace' : 'none';
+
+  const finish = (result: Omit<SandboxResult, 'durationMs' | 'isolation'>): SandboxResult => {
+    const full: SandboxResult = { ...result, durationMs: Date.now() - startedAt, isolation };
+    if (!isolated && result.status !== 'denied') full.warning = UNISOLATED_RUN_WARNING;
+    recordAudit(options, config, full);
+    return full;
+  };
+
+  const deny = (error: string): SandboxResult => finish({
+    status: 'denied', exitCode: null, stdout: '', stderr: '', timedOut: false, outputTruncated: false, error,
+  });
+
+  if (!isolated && config.requireIsolation) {
+    if (options.workDir) await removeWorkDir(options.workDir);
+    return deny(ISOLATION_UNAVAILABLE_ERROR);
+  }
+
+  let cwd: string | undefined;
+  if (options.cwd) {
+    const resolved = resolveSandboxCwd(options.cwd, config);
+    if (!resolved) {
+      if (options.workDir) await removeWorkDir(options.workDir);
+      return deny(`Working directory is outside the sandbox allow-list: ${options.cwd}`);
+    }
+    cwd = resolved;
+  }
+
+  const workDir = options.workDir || await createSandboxWorkDir();
+  cwd = cwd || workDir;
+
+  const env: Record<string, string> = {};
+  for (const name of config.allowedEnv) {
+    if (process.env[name] !== undefined) env[name] = process.env[name]!;
+  }
+  Object.assign(env, options.env || {}, {
+    HOME: workDir,
+    TMPDIR: path.join(workDir, '.tmp'),
+  });
+  if (!env.PATH) env.PATH = '/usr/local/bin:/usr/bin:/bin';
+
+  const limitScript = buildLimitScript(config, cwd, isolated);
+  const args = options.args || [];
+  let file: string;
+  let spawnArgs: string[];
+
+  if (isolated) {
+    const hiddenPaths = getHiddenPaths();
+    const mounts: Mount[] = [
+      { path: workDir, writable: true },
+      ...config.writablePaths.map(p => ({ path: p, writable: true })),
+      ...config.allowedPaths.map(p => ({ path: p, writable: false })),
+    ];
+    const executable = resolveExecutable(options.command, env.PATH);
+    const runtimeRoot = executable ? getRuntimeRoot(executable, hiddenPaths) : null;
+    if (runtimeRoot) mounts.push({ path: runtimeRoot, writable: false });
+
+    const visibleMounts = mounts.filter(m => fs.existsSync(m.path));
+    file = 'unshare';
+    spawnArgs = [
+      '-r', '-m',
+      ...(config.allowNetwork ? [] : ['-n']),
+      '--', '/bin/sh', '-c',
+      `${buildMountScript(hiddenPaths, visibleMounts)}\n${limitScript}`,
+      'sandbox', options.command, ...args,
+    ];
+  } else {
+    file = '/bin/sh';
+    spawnArgs = ['-c', limitScript, 'sandbox', options.command, ...args];
+  }
+
+  const timeoutMs = Math.min(options.timeoutMs || config.timeoutMs, config.timeoutMs);
+
+  return new Promise((resolve) => {
+    let settled = false;
+    let stdout = '';
+    let stderr = '';
+    let outputBytes = 0;
+    let outputTruncated = false;
+    let timedOut = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    const proc = spawn(file, spawnArgs, { cwd: workDir, env, detached: true });
+
+    const kill = () => {
+      try {
+        if (proc.pid) process.kill(-proc.pid, 'SIGKILL');
+      } catch {
+        try { proc.kill('SIGKILL'); } catch { /* already gone */ }
+      }
+    };
+
+    const settle = (result: Omit<SandboxResult, 'durationMs' | 'isolation'>) => {
+      if (settled) return;
+      settled = true;
+      if (timer) clearTimeout(timer);
+      const finished = finish(result);
+      removeWorkDir(workDir).finally(() => resolve(finished));
+    };
+
+    const collect = (chunk: Buffer | string, target: 'stdout' | 'stderr') => {
+      if (outputTruncated) return;
+      const text = chunk.toString();
+      const remaining = config.maxOutputBytes - outputBytes;
+      const size = Buffer.byteLength(text);
+      if (size > remaining) {
+        const kept = Buffer.from(text).subarray(0, Math.max(remaining, 0)).toString();
+        if (target === 'stdout') stdout += kept; else stderr += kept;
+        outputBytes = config.maxOutputBytes;
+        outputTruncated = true;
+        kill();
+        return;
+      }
+      outputBytes += size;
+      if (target === 'stdout') stdout += text; else stderr += text;
+    };
+
+    timer = setTimeout(() => {
+      timedOut = true;
+      kill();
+    }, timeoutMs);
+
+    proc.stdout?.on('data', (data) => collect(data, 'stdout'));
+    proc.stderr?.on('data', (data) => collect(data, 'stderr'));
+
+    proc.on('close', (code) => {
+      const error = timedOut
+        ? `Timed out after ${timeoutMs}ms`
+        : outputTruncated
+          ? `Output exceeded ${config.maxOutputBytes} bytes`
+          : undefined;
+      settle({
+        status: timedOut ? 'timed_out' : code === 0 && !outputTruncated ? 'completed' : 'failed',
+        exitCode: code,
+        stdout,
+        stderr,
+        timedOut,
+        outputTruncated,
+        error,
+      });
+    });
+
+    proc.on('error', (err) => {
+      settle({
+        status: 'failed',
+        exitCode: null,
+        stdout,
+        stderr,
+        timedOut: false,
+        outputTruncated,
+        error: err.message,
+      });
+    });
+
+    if (proc.stdin) {
+      proc.stdin.on?.('error', () => { /* process exited before reading stdin */ });
+      if (options.stdin !== undefined) proc.stdin.write(options.stdin);
+      proc.stdin.end();
+    }
+  });
+}
@@ -0,0 +1,320 @@
+import { getDatabase, queries } from '../models/database';
+import { pluginRegistry } from '../plugins/registry';
+import { SessionManager } from '../gateway/sessionManager';
+import { startExecution, approveStep, rejectStep } from './workflowEngine';
+import { escalateStepReview, parseReviewRequest, validateReviewSubmission } from './humanReview';
+import { loadGraphParent, ensureExecutionRecipeFromGraph, getFinalOutput } from './executionBridge';
+import { getNextRunTime } from './cronExpression';
+import { authorizeTriggeredRun } from './workspaceService';
+import {
+  WorkflowSchedule,
+  ScheduleRun,
+  RecipeStep,
+  ScheduleRunStatus,
+  StepExecution,
+  WorkflowExecution,
+} from '../types';
+
+const TICK_INTERVAL_MS = 30 * 1000;
+const MAX_DELIVERY_CHARS = 3500;
+
+/**
+ * Compute the next run for a schedule as an ISO string, or null if the
+ * expression is invalid or never fires again.
+ */
+export function computeNextRunAt(cronExpression: string, from: Date = new Date()): string | null {
+  try {
+    return getNextRunTime(cronExpression, from)?.toISOString() || null;
+  } catch {
+    return null;
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_DELIVERY_CHARS ? `${text.slice(0, MAX_DELIVERY_CHARS)}\n…(truncated)` : text;
+}
+
+/**
+ * Runs skills/workflows on cron-style schedules. Schedules and their run
+ * history live in SQLite, so a restart picks up where it left off: a run
+ * missed while the server was down fires once on boot. Each tick also follows
+ * up on in-flight runs, posts results to the configured channel and settles
+ * human review steps that ran past their deadline.
+ */
+export class WorkflowScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private sessionManager = new SessionManager();
+
+  start(): void {
+    if (this.timer) return;
+
+    // Backfill next_run_at for enabled schedules that lost it
+    const db = getDatabase();
+    const schedules = db.prepare(
+      'SELECT * FROM workflow_schedules WHERE enabled = 1 AND next_run_at IS NULL'
+    ).all() as WorkflowSchedule[];
+    for (const schedule of schedules) {
+      this.updateNextRun(schedule.id, computeNextRunAt(schedule.cron_expression));
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(err => console.error('[Scheduler] Tick failed:', err));
+    }, TICK_INTERVAL_MS);
+    this.tick().catch(err => console.error('[Scheduler] Tick failed:', err));
+    console.log('[Scheduler] Started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      const db = getDatabase();
+      const due = (db.prepare(
+        'SELECT * FROM workflow_schedules WHERE enabled = 1 AND next_run_at IS NOT NULL'
+      ).all() as WorkflowSchedule[]).filter(s => new Date(s.next_run_at!).getTime() <= now.getTime());
+
+      for (const schedule of due) {
+        // Advance first so a failing run is not retried every tick
+        this.updateNextRun(schedule.id, computeNextRunAt(schedule.cron_expression, now));
+        await this.runSchedule(schedule.id, 'schedule');
+      }
+
+      await this.syncActiveRuns();
+      await this.processOverdueReviews();
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Start an execution for a schedule and record it in the run history.
+   */
+  async runSchedule(scheduleId: number, trigger: ScheduleRun['trigger_type']): Promise<ScheduleRun> {
+    const db = getDatabase();
+    const schedule = db.prepare('SELECT * FROM workflow_schedules WHERE id = ?').get(scheduleId) as WorkflowSchedule | undefined;
+    if (!schedule) {
+      throw new Error('Schedule not found');
+    }
+
+    const startedAt = new Date().toISOString();
+    db.prepare('UPDATE workflow_schedules SET last_run_at = ? WHERE id = ?').run(startedAt, schedule.id);
+
+    let executionId: number | null = null;
+    let error: string | null = null;
+    try {
+      const { parent, steps } = loadGraphParent(schedule.parent_type, schedule.parent_id);
+      if (!parent) {
+        throw new Error(`${schedule.parent_type === 'workflow' ? 'Workflow' : 'Skill'} ${schedule.parent_id} no longer exists`);
+      }
+      if (steps.length === 0) {
+        throw new Error(`${parent.name} has no steps`);
+      }
+
+      let inputs: Record<string, any> = {};
+      try {
+        inputs = JSON.parse(schedule.input_data || '{}');
+      } catch {
+        // Run with empty inputs
+      }
+
+      const ownerId = authorizeTriggeredRun(schedule.created_by, parent.workspace_id);
+      const { recipeId, syncedSteps } = ensureExecutionRecipeFromGraph(schedule.parent_type, parent, steps);
+      const result = await startExecution(recipeId, ownerId, inputs, syncedSteps);
+      if (!result.success || !result.executionId) {
+        throw new Error(result.error || 'Failed to start execution');
+      }
+      executionId = result.executionId;
+    } catch (err: any) {
+      error = err?.message || String(err);
+      console.error(`[Scheduler] Schedule ${schedule.id} (${schedule.name}) failed to start:`, error);
+    }
+
+    const inserted = db.prepare(`
+      INSERT INTO schedule_runs (schedule_id, execution_id, trigger_type, status, error_message, started_at, finished_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      schedule.id,
+      executionId,
+      trigger,
+      error ? 'failed' : 'running',
+      error,
+      startedAt,
+      error ? startedAt : null
+    );
+    const run = db.prepare('SELECT * FROM schedule_runs WHERE id = ?').get(Number(inserted.lastInsertRowid)) as ScheduleRun;
+
+    if (error) {
+      await this.deliver(schedule, run, `⚠️ Scheduled run "${schedule.name}" failed to start: ${error}`);
+    } else {
+      console.log(`[Scheduler] Schedule ${schedule.id} (${schedule.name}) started execution ${executionId}`);
+    }
+
+    return db.prepare('SELECT * FROM schedule_runs WHERE id = ?').get(run.id) as ScheduleRun;
+  }
+
+  /**
+   * Follow up on runs whose execution is still in flight: auto-approve review
+   * steps when allowed, and record + deliver the outcome once it settles.
+   */
+  async syncActiveRuns(): Promise<void> {
+    const db = getDatabase();
+    const activeRuns = db.prepare(
+      "SELECT * FROM schedule_runs WHERE status IN ('running', 'awaiting_review')"
+    ).all() as ScheduleRun[];
+
+    for (const run of activeRuns) {
+      const schedule = db.prepare('SELECT * FROM workflow_schedules WHERE id = ?').get(run.schedule_id) as WorkflowSchedule | undefined;
+      const execution = run.execution_id
+        ? queries.getExecutionById(run.execution_id) as WorkflowExecution | undefined
+        : undefined;
+      if (!schedule || !execution) {
+        this.finishRun(run.id, 'failed', 'Execution record not found');
+        continue;
+      }
+
+      const stepExecutions = queries.getStepExecutionsByExecutionId(execution.id) as StepExecution[];
+      const failedStep = stepExecutions.find(se => se.status === 'failed');
+      const awaitingStep = stepExecutions.find(se => se.status === 'awaiting_review');
+
+      if (execution.status === 'completed') {
+        this.finishRun(run.id, 'completed');
+        const output = getFinalOutput(stepExecutions);
+        await this.deliver(
+          schedule,
+          run,
+          `✅ Scheduled run "${schedule.name}" completed (execution #${execution.id}).${output ? `\n\n${truncate(output)}` : ''}`
+        );
+      } else if (failedStep || execution.status === 'failed' || execution.status === 'cancelled') {
+        const error = failedStep?.error_message || `Execution ${execution.status}`;
+        this.finishRun(run.id, 'failed', error);
+        await this.deliver(
+          schedule,
+          run,
+          `⚠️ Scheduled run "${schedule.name}" failed at step ${failedStep?.step_order ?? execution.current_step} (execution #${execution.id}): ${error}`
+        );
+      } else if (awaitingStep) {
+        // Approval and ask-user steps always wait for their reviewer
+        if (schedule.auto_approve && !parseReviewRequest(awaitingStep)) {
+          // approveStep runs the rest of the workflow; don't hold up the tick
+          approveStep(execution.id, awaitingStep.id, execution.user_id).catch((err: any) => {
+            this.finishRun(run.id, 'failed', `Auto-approve failed: ${err?.message || String(err)}`);
+          });
+        } else if (run.status !== 'awaiting_review') {
+          db.prepare("UPDATE schedule_runs SET status = 'awaiting_review' WHERE id = ?").run(run.id);
+          await this.deliver(
+            schedule,
+            run,
+            `⏸️ Scheduled run "${schedule.name}" is waiting for review at step ${awaitingStep.step_order} (execution #${execution.id}).`
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Human review steps past their deadline go to the escalation reviewer
+   * once; after that the step's `on_timeout` action settles them. An
+   * ask-user form with required fields cannot be approved unanswered, so it
+   * is rejected instead.
+   */
+  async processOverdueReviews(): Promise<void> {
+    const overdue = queries.getOverdueStepReviews() as StepExecution[];
+
+    for (const stepExecution of overdue) {
+      const execution = queries.getExecutionById(stepExecution.execution_id) as WorkflowExecution | undefined;
+      const review = parseReviewRequest(stepExecution);
+      if (!execution || !review) {
+        queries.clearStepReviewDeadline(stepExecution.id);
+        continue;
+      }
+      const step = queries.getStepById(stepExecution.step_id) as RecipeStep | undefined;
+      const stepName = step?.step_name || `Step ${stepExecution.step_order}`;
+
+      if (review.escalate_to_id && !stepExecution.escalation_count && review.escalate_to_id !== stepExecution.assigned_to) {
+        escalateStepReview(execution, stepExecution, stepName, review);
+        continue;
+      }
+
+      queries.clearStepReviewDeadline(stepExecution.id);
+      const submission = { comment: 'Approved automatically after the review deadline' };
+      if (review.on_timeout === 'approve' && validateReviewSubmission(review, submission).length === 0) {
+        // approveStep runs the rest of the workflow; don't hold up the tick
+        approveStep(execution.id, stepExecution.id, execution.user_id, submission).catch((err: any) => {
+          console.error(`[Scheduler] Auto-approving review ${stepExecution.id} failed:`, err?.message || err);
+        });
+      } else {
+        rejectStep(execution.id, stepExecution.id, 'No response before the review deadline');
+      }
+    }
+  }
+
+  private finishRun(runId: number, status: ScheduleRunStatus, error?: string): void {
+    getDatabase().prepare(
+      'UPDATE schedule_runs SET status = ?, error_message = ?, finished_at = ? WHERE id = ?'
+    ).run(status, error || null, new Date().toISOString(), runId);
+  }
+
+  private updateNextRun(scheduleId: number, nextRunAt: string | null): void {
+    getDatabase().prepare(
+      'UPDATE workflow_schedules SET next_run_at = ? WHERE id = ?'
+    ).run(nextRunAt, scheduleId);
+  }
+
+  /**
+   * Post a run update to the schedule's channel. Web messages are also stored
+   * in the session history so they show up for clients that are not connected.
+   */
+  private async deliver(schedule: WorkflowSchedule, run: ScheduleRun, text: string): Promise<void> {
+    const db = getDatabase();
+    const setDelivery = (status: ScheduleRun['delivery_status']) => {
+      db.prepare('UPDATE schedule_runs SET delivery_status = ? WHERE id = ?').run(status, run.id);
+    };
+
+    if (schedule.output_channel === 'none' || !schedule.output_channel_id) {
+      setDelivery('skipped');
+      return;
+    }
+
+    const channel = pluginRegistry.getChannel(`channel-${schedule.output_channel}`);
+    if (!channel) {
+      console.warn(`[Scheduler] Channel plugin channel-${schedule.output_channel} is not loaded`);
+      setDelivery('failed');
+      return;
+    }
+
+    try {
+      if (schedule.output_channel === 'web') {
+        if (!schedule.created_by) {
+          throw new Error('Schedule has no owner to deliver to');
+        }
+        const session = this.sessionManager.resolveSession(
+          'web',
+          schedule.output_channel_id,
+          String(schedule.created_by)
+        );
+        this.sessionManager.appendMessage(session.id, 'assistant', text, {
+          metadata: { scheduleId: schedule.id, executionId: run.execution_id },
+        });
+      }
+      await channel.sendOutbound(schedule.output_channel_id, {
+        text,
+        metadata: { scheduleId: schedule.id, executionId: run.execution_id },
+      });
+      setDelivery('sent');
+    } catch (err: any) {
+      console.error(`[Scheduler] Failed to deliver run ${run.id} to ${schedule.output_channel}:`, err?.message || err);
+      setDelivery('failed');
+    }
+  }
+}
+
+// Singleton instance
+export const workflowScheduler = new WorkflowScheduler();
@@ -0,0 +1,528 @@
+import { getDatabase, queries, workspaceVisibilitySql } from '../models/database';
+import { getExecutor } from '../executors/registry';
+import { ParentType, SkillStepRow, loadGraphParent } from './executionBridge';
+import { extractVariables, findCompanyStandard } from './promptParser';
+import { canReadAsset } from './workspaceService';
+import { CompanyStandard, RecipeStep, SkillDraft } from '../types';
+import { parseYaml, toYaml } from '../utils/yaml';
+
+/**
+ * Portable bundles of a skill or workflow for copying between instances. A
+ * bundle carries the definition, the skills/workflows its `skill` steps run
+ * and the company standards it references. Importing never goes live: it
+ * creates drafts that go through the usual review.
+ */
+
+export const BUNDLE_FORMAT = 'novohaven-bundle';
+export const BUNDLE_VERSION = 1;
+
+export type BundleFormat = 'json' | 'yaml';
+
+export interface BundleStep {
+  step_name: string;
+  step_type: string;
+  ai_model: string | null;
+  prompt_template: string;
+  output_format: string;
+  input_config: Record<string, any>;
+  model_config: Record<string, any>;
+  executor_config: Record<string, any>;
+}
+
+export interface BundleAsset {
+  /** `type:id` on the exporting instance; `skill` steps point at these */
+  ref: string;
+  type: ParentType;
+  name: string;
+  description: string | null;
+  tags: string[];
+  steps: BundleStep[];
+}
+
+export interface BundleStandard {
+  /** `standard:id` on the exporting instance; input variables point at these */
+  ref: string;
+  standard_type: string;
+  name: string;
+  content: any;
+}
+
+export interface SkillBundle {
+  format: typeof BUNDLE_FORMAT;
+  bundle_version: number;
+  exported_at: string;
+  asset: BundleAsset;
+  /** Skills/workflows run by `skill` steps, the ones they depend on first */
+  dependencies: BundleAsset[];
+  standards: BundleStandard[];
+}
+
+export interface BundleImportResult {
+  drafts: Array<{ id: number; ref: string; type: ParentType; name: string; original_skill_id: number | null }>;
+  /** Dependencies already present, used instead of importing them */
+  reused: Array<{ ref: string; type: ParentType; id: number; name: string }>;
+  standards: Array<{ ref: string; name: string; id: number | null; action: 'reused' | 'create_on_approval' }>;
+  warnings: string[];
+}
+
+export class BundleError extends Error {
+  constructor(message: string, public errors: string[] = [], public status: number = 400) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+const PARENT_TABLES: Record<ParentType, string> = { skill: 'skills', workflow: 'workflows' };
+
+function parseJsonObject(value: string | null | undefined): Record<string, any> {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function parseTags(value: unknown): string[] {
+  try {
+    const tags = typeof value === 'string' ? JSON.parse(value) : value;
+    return Array.isArray(tags) ? tags.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+// --- Export ---
+
+function toBundleStep(row: SkillStepRow): BundleStep {
+  const executorConfig = parseJsonObject(row.executor_config);
+  if (row.step_type === 'skill') {
+    // Saved versions don't travel between instances
+    delete executorConfig.version;
+  }
+  return {
+    step_name: row.step_name,
+    step_type: row.step_type || 'ai',
+    ai_model: row.ai_model || null,
+    prompt_template: row.prompt_template || '',
+    output_format: row.output_format || 'text',
+    input_config: parseJsonObject(row.input_config),
+    model_config: parseJsonObject(row.model_config),
+    executor_config: executorConfig,
+  };
+}
+
+function toBundleStandard(standard: CompanyStandard): BundleStandard {
+  let content: any = standard.content;
+  try {
+    content = JSON.parse(standard.content);
+  } catch {
+    // Plain text standard
+  }
+  return { ref: `standard:${standard.id}`, standard_type: standard.standard_type, name: standard.name, content };
+}
+
+/**
+ * Bundle a skill/workflow with what it needs to run elsewhere: the targets of
+ * its `skill` steps (that this workspace can read) and the standards its
+ * prompts and inputs resolve to here.
+ */
+export function exportSkillBundle(
+  parentType: ParentType,
+  parentId: number,
+  userId: number,
+  workspaceId: number
+): SkillBundle | null {
+  const assets = new Map<string, BundleAsset>();
+  const standards = new Map<number, BundleStandard>();
+
+  const visit = (type: ParentType, id: number): BundleAsset | null => {
+    const ref = `${type}:${id}`;
+    if (assets.has(ref)) return assets.get(ref)!;
+    const { parent, steps } = loadGraphParent(type, id);
+    if (!parent) return null;
+
+    const asset: BundleAsset = {
+      ref,
+      type,
+      name: parent.name,
+      description: parent.description ?? null,
+      tags: parseTags((parent as { tags?: unknown }).tags),
+      steps: steps.map(toBundleStep),
+    };
+    // Registered before its dependencies so a cycle ends here
+    assets.set(ref, asset);
+
+    for (const step of asset.steps) {
+      for (const variable of step.input_config.variables || []) {
+        const standardId = Number(variable?.standardId);
+        const standard = standardId ? queries.getStandardById(standardId) as CompanyStandard | undefined : undefined;
+        if (standard) standards.set(standard.id, toBundleStandard(standard));
+      }
+      for (const variable of extractVariables(step.prompt_template)) {
+        if (variable.type !== 'company_standard') continue;
+        const standard = findCompanyStandard(variable.name, workspaceId);
+        if (standard) standards.set(standard.id, toBundleStandard(standard));
+      }
+
+      if (step.step_type === 'skill') {
+        const targetType: ParentType = step.executor_config.target_type === 'workflow' ? 'workflow' : 'skill';
+        const targetId = Number(step.executor_config.target_id);
+        if (Number.isInteger(targetId) && targetId > 0 && canReadAsset(targetType, targetId, userId, workspaceId)) {
+          visit(targetType, targetId);
+        }
+      }
+    }
+
+    // Re-inserted after its dependencies, so the map lists leaves first
+    assets.delete(ref);
+    assets.set(ref, asset);
+    return asset;
+  };
+
+  const root = visit(parentType, parentId);
+  if (!root) return null;
+
+  return {
+    format: BUNDLE_FORMAT,
+    bundle_version: BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    asset: root,
+    dependencies: Array.from(assets.values()).filter(asset => asset !== root),
+    standards: Array.from(standards.values()),
+  };
+}
+
+export function serializeBundle(bundle: SkillBundle, format: BundleFormat): string {
+  return format === 'yaml' ? toYaml(bundle) : JSON.stringify(bundle, null, 2);
+}
+
+// --- Import ---
+
+/** Read a bundle from an object, or from JSON or YAML text, and check its shape. */
+export function parseBundle(input: unknown): SkillBundle {
+  let raw = input;
+  if (typeof input === 'string') {
+    const text = input.trim();
+    try {
+      raw = text.startsWith('{') ? JSON.parse(text) : parseYaml(text);
+    } catch (error: any) {
+      throw new BundleError(`Could not read bundle: ${error.message}`);
+    }
+  }
+
+  const bundle = raw as Partial<SkillBundle> | null;
+  if (!bundle || typeof bundle !== 'object' || bundle.format !== BUNDLE_FORMAT) {
+    throw new BundleError(`Not a skill bundle (expected format "${BUNDLE_FORMAT}")`);
+  }
+  const version = Number(bundle.bundle_version);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new BundleError('Bundle is missing bundle_version');
+  }
+  if (version > BUNDLE_VERSION) {
+    throw new BundleError(`Bundle version ${version} is newer than this server supports (${BUNDLE_VERSION})`);
+  }
+
+  const errors: string[] = [];
+  const checkAsset = (asset: any, label: string): BundleAsset | null => {
+    if (!asset || typeof asset !== 'object') {
+      errors.push(`${label} is missing`);
+      return null;
+    }
+    if (asset.type !== 'skill' && asset.type !== 'workflow') errors.push(`${label}: type must be "skill" or "workflow"`);
+    if (!asset.name || typeof asset.name !== 'string') errors.push(`${label}: name is required`);
+    if (!Array.isArray(asset.steps)) errors.push(`${label}: steps must be a list`);
+    return {
+      ref: String(asset.ref || `${asset.type}:${label}`),
+      type: asset.type,
+      name: String(asset.name || ''),
+      description: asset.description ?? null,
+      tags: parseTags(asset.tags),
+      steps: (Array.isArray(asset.steps) ? asset.steps : []).map((step: any, index: number) => ({
+        step_name: String(step?.step_name || `Step ${index + 1}`),
+        step_type: String(step?.step_type || 'ai'),
+        ai_model: step?.ai_model ?? null,
+        prompt_template: String(step?.prompt_template ?? ''),
+        output_format: String(step?.output_format || 'text'),
+        input_config: step?.input_config && typeof step.input_config === 'object' ? step.input_config : {},
+        model_config: step?.model_config && typeof step.model_config === 'object' ? step.model_config : {},
+        executor_config: step?.executor_config && typeof step.executor_config === 'object' ? step.executor_config : {},
+      })),
+    };
+  };
+
+  const asset = checkAsset(bundle.asset, 'asset');
+  const dependencies = (Array.isArray(bundle.dependencies) ? bundle.dependencies : [])
+    .map((dependency, index) => checkAsset(dependency, `dependencies[${index}]`))
+    .filter((dependency): dependency is BundleAsset => !!dependency);
+  const standards = (Array.isArray(bundle.standards) ? bundle.standards : []).map((standard: any, index): BundleStandard => {
+    if (!standard?.standard_type || !standard?.name) {
+      errors.push(`standards[${index}]: standard_type and name are required`);
+    }
+    return {
+      ref: String(standard?.ref || `standard:${index}`),
+      standard_type: String(standard?.standard_type || ''),
+      name: String(standard?.name || ''),
+      content: standard?.content ?? '',
+    };
+  });
+
+  if (errors.length > 0 || !asset) throw new BundleError('Bundle is not valid', errors);
+
+  return {
+    format: BUNDLE_FORMAT,
+    bundle_version: version,
+    exported_at: String(bundle.exported_at || ''),
+    asset,
+    dependencies,
+    standards,
+  };
+}
+
+function findAssetByName(type: ParentType, name: string, workspaceId: number, ownOnly: boolean): { id: number } | undefined {
+  const table = PARENT_TABLES[type];
+  const db = getDatabase();
+  return ownOnly
+    ? db.prepare(`SELECT id FROM ${table} WHERE name = ? AND workspace_id = ? ORDER BY id LIMIT 1`).get(name, workspaceId) as
+      { id: number } | undefined
+    : db.prepare(`SELECT a.id FROM ${table} a WHERE a.name = ? AND ${workspaceVisibilitySql('a', type)}
+        ORDER BY CASE WHEN a.workspace_id = ? THEN 0 ELSE 1 END, a.id LIMIT 1`).get(name, workspaceId, workspaceId, workspaceId) as
+      { id: number } | undefined;
+}
+
+function findStandardByName(standardType: string, name: string, workspaceId: number): CompanyStandard | undefined {
+  return (queries.getStandardsByType(workspaceId, standardType) as CompanyStandard[])
+    .find(standard => standard.name === name);
+}
+
+function standardContent(content: any): string {
+  return typeof content === 'string' ? content : JSON.stringify(content);
+}
+
+/**
+ * Import a bundle as drafts. Bundle ids are never reused: `skill` step
+ * targets and standards are matched by name in the importing workspace.
+ * Dependencies found there are used as they are; missing ones get drafts of
+ * their own, which must be approved before the drafts that run them.
+ * Standards that are missing are created when a draft using them is approved.
+ * Every step is checked with its executor's `validateConfig`; any error
+ * rejects the whole bundle and nothing is created.
+ *
+ * `asNew` imports the bundle's main skill/workflow as a new one even when one
+ * with the same name exists; otherwise the draft updates that one.
+ */
+export function importSkillBundle(
+  input: unknown,
+  options: { userId: number; workspaceId: number; asNew?: boolean }
+): BundleImportResult {
+  const bundle = parseBundle(input);
+  const { userId, workspaceId } = options;
+  const result: BundleImportResult = { drafts: [], reused: [], standards: [], warnings: [] };
+
+  // Standards: reuse same-named ones of the same type, create the rest on approval
+  const standardIds = new Map<string, number>();
+  const pendingStandards: BundleStandard[] = [];
+  for (const standard of bundle.standards) {
+    const existing = findStandardByName(standard.standard_type, standard.name, workspaceId);
+    if (existing) {
+      standardIds.set(standard.ref, existing.id);
+      result.standards.push({ ref: standard.ref, name: standard.name, id: existing.id, action: 'reused' });
+      if (existing.content !== standardContent(standard.content)) {
+        result.warnings.push(`Standard "${standard.name}" already exists with different content; the existing one is used`);
+      }
+    } else {
+      pendingStandards.push(standard);
+      result.standards.push({ ref: standard.ref, name: standard.name, id: null, action: 'create_on_approval' });
+    }
+  }
+
+  // Dependencies: reuse same-named ones this workspace can read, draft the rest
+  const targets = new Map<string, { id: number } | { draftRef: string }>();
+  const toDraft: BundleAsset[] = [];
+  for (const dependency of bundle.dependencies) {
+    const existing = findAssetByName(dependency.type, dependency.name, workspaceId, false);
+    if (existing) {
+      targets.set(dependency.ref, { id: existing.id });
+      result.reused.push({ ref: dependency.ref, type: dependency.type, id: existing.id, name: dependency.name });
+    } else {
+      targets.set(dependency.ref, { draftRef: dependency.ref });
+      toDraft.push(dependency);
+    }
+  }
+  toDraft.push(bundle.asset);
+
+  // Point steps at this instance's ids. Draft ids are filled in once the drafts exist.
+  const draftIds = new Map<string, number>();
+  const remapSteps = (asset: BundleAsset): BundleStep[] => asset.steps.map(step => {
+    const inputConfig = { ...step.input_config };
+    if (Array.isArray(inputConfig.variables)) {
+      inputConfig.variables = inputConfig.variables.map((variable: any) => {
+        if (!variable?.standardId) return variable;
+        const ref = `standard:${variable.standardId}`;
+        const { standardId, ...rest } = variable;
+        if (standardIds.has(ref)) return { ...rest, standardId: standardIds.get(ref) };
+        if (pendingStandards.some(standard => standard.ref === ref)) return { ...rest, standard_ref: ref };
+        result.warnings.push(`${asset.name} / ${step.step_name}: standard #${standardId} is not in the bundle`);
+        return rest;
+      });
+    }
+
+    const executorConfig = { ...step.executor_config };
+    if (step.step_type === 'skill') {
+      const targetType = executorConfig.target_type === 'workflow' ? 'workflow' : 'skill';
+      const target = targets.get(`${targetType}:${executorConfig.target_id}`);
+      if (target && 'id' in target) {
+        executorConfig.target_id = target.id;
+      } else if (target) {
+        executorConfig.target_id = null;
+        executorConfig.target_draft_id = draftIds.get(target.draftRef) ?? null;
+      } else {
+        // Never keep another instance's id
+        executorConfig.target_id = null;
+      }
+    }
+    return { ...step, input_config: inputConfig, executor_config: executorConfig };
+  });
+
+  // Validate everything before creating anything
+  const errors: string[] = [];
+  for (const asset of toDraft) {
+    asset.steps.forEach((step, index) => {
+      if (step.step_type !== 'skill' || step.executor_config.target_id == null) return;
+      const targetType = step.executor_config.target_type === 'workflow' ? 'workflow' : 'skill';
+      if (!targets.has(`${targetType}:${step.executor_config.target_id}`)) {
+        errors.push(`${asset.name} step ${index + 1} (${step.step_name}): runs ${targetType} #${step.executor_config.target_id}, which is not in the bundle`);
+      }
+    });
+    remapSteps(asset).forEach((step, index) => {
+      const executor = getExecutor(step.step_type);
+      const label = `${asset.name} step ${index + 1} (${step.step_name})`;
+      if (!executor) {
+        errors.push(`${label}: unknown step type "${step.step_type}"`);
+        return;
+      }
+      // Targets that are imported alongside don't exist yet; they are checked on approval
+      if (step.step_type === 'skill' && 'target_draft_id' in step.executor_config) return;
+      const validation = executor.validateConfig(toRecipeStep(step, index));
+      validation.errors.forEach(error => errors.push(`${label}: ${error}`));
+    });
+  }
+  if (errors.length > 0) throw new BundleError('Bundle failed validation', errors);
+
+  const db = getDatabase();
+  const insertDraft = db.prepare(`
+    INSERT INTO skill_drafts (original_skill_id, skill_type, proposed_by_user, workspace_id, name, description, steps, change_summary, tags, standards, status)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending')
+  `);
+  const exportedAt = bundle.exported_at ? ` exported ${bundle.exported_at}` : '';
+
+  db.transaction(() => {
+    for (const asset of toDraft) {
+      const isRoot = asset === bundle.asset;
+      const existing = isRoot && !options.asNew
+        ? findAssetByName(asset.type, asset.name, workspaceId, true)
+        : undefined;
+      const steps = remapSteps(asset).map(step => ({
+        ...step,
+        input_config: JSON.stringify(step.input_config),
+        model_config: JSON.stringify(step.model_config),
+        executor_config: JSON.stringify(step.executor_config),
+      }));
+      const info = insertDraft.run(
+        existing?.id ?? null,
+        asset.type,
+        userId,
+        workspaceId,
+        asset.name,
+        asset.description,
+        JSON.stringify(steps),
+        `Imported from bundle${exportedAt}`,
+        JSON.stringify(asset.tags),
+        pendingStandards.length > 0 ? JSON.stringify(pendingStandards) : null
+      );
+      const draftId = Number(info.lastInsertRowid);
+      draftIds.set(asset.ref, draftId);
+      result.drafts.push({ id: draftId, ref: asset.ref, type: asset.type, name: asset.name, original_skill_id: existing?.id ?? null });
+    }
+  })();
+
+  for (const draft of result.drafts) {
+    if (draft.ref !== bundle.asset.ref) {
+      result.warnings.push(`${draft.type} "${draft.name}" is imported as draft #${draft.id}; approve it first`);
+    }
+  }
+  // Steps are remapped once to validate and once to save
+  result.warnings = Array.from(new Set(result.warnings));
+  return result;
+}
+
+function toRecipeStep(step: BundleStep, index: number): RecipeStep {
+  return {
+    id: 0,
+    recipe_id: 0,
+    step_order: index + 1,
+    step_name: step.step_name,
+    step_type: step.step_type,
+    ai_model: step.ai_model || undefined,
+    prompt_template: step.prompt_template,
+    input_config: JSON.stringify(step.input_config),
+    output_format: step.output_format,
+    model_config: JSON.stringify(step.model_config),
+    executor_config: JSON.stringify(step.executor_config),
+    created_at: '',
+  } as RecipeStep;
+}
+
+/**
+ * Finish an imported draft's steps at approval time: create the standards it
+ * brought that are still missing, and point `skill` steps at the drafts they
+ * depend on, which must have been approved. Drafts from elsewhere pass through.
+ */
+export function resolveImportedDraftSteps(draft: SkillDraft, steps: any[], userId: number): any[] {
+  const workspaceId = draft.workspace_id;
+  const pendingStandards: BundleStandard[] = draft.standards ? JSON.parse(draft.standards) : [];
+  const standardIds = new Map<string, number>();
+
+  const standardId = (ref: string): number | undefined => {
+    if (standardIds.has(ref) || !workspaceId) return standardIds.get(ref);
+    const standard = pendingStandards.find(candidate => candidate.ref === ref);
+    if (!standard) return undefined;
+    const existing = findStandardByName(standard.standard_type, standard.name, workspaceId);
+    const id = existing
+      ? existing.id
+      : Number(queries.createStandard(userId, workspaceId, standard.standard_type, standard.name, standardContent(standard.content)).lastInsertRowid);
+    standardIds.set(ref, id);
+    return id;
+  };
+
+  return steps.map(step => {
+    const inputConfig = parseJsonObject(step.input_config);
+    if (Array.isArray(inputConfig.variables) && inputConfig.variables.some((variable: any) => variable?.standard_ref)) {
+      inputConfig.variables = inputConfig.variables.map((variable: any) => {
+        if (!variable?.standard_ref) return variable;
+        const { standard_ref, ...rest } = variable;
+        const id = standardId(standard_ref);
+        return id ? { ...rest, standardId: id } : rest;
+      });
+      step = { ...step, input_config: JSON.stringify(inputConfig) };
+    }
+
+    const executorConfig = parseJsonObject(step.executor_config);
+    if (step.step_type === 'skill' && 'target_draft_id' in executorConfig) {
+      const { target_draft_id, ...rest } = executorConfig;
+      const dependency = target_draft_id
+        ? queries.getSkillDraftById(target_draft_id) as SkillDraft | undefined
+        : undefined;
+      if (!dependency?.applied_id) {
+        throw new BundleError(
+          dependency
+            ? `Approve draft #${dependency.id} ("${dependency.name}") first; step "${step.step_name}" runs it`
+            : `Step "${step.step_name}" runs a draft that no longer exists`
+        );
+      }
+      step = { ...step, executor_config: JSON.stringify({ ...rest, target_id: dependency.applied_id }) };
+    }
+    return step;
+  });
+}
@@ -0,0 +1,465 @@
+import { isDeepStrictEqual } from 'util';
+import { queries } from '../models/database';
+import { callAIByModel, getAvailableModels } from './aiService';
+import {
+  GraphParent,
+  ParentType,
+  SkillStepRow,
+  ensureExecutionRecipeFromGraph,
+  getFinalOutput,
+  getStepOutputContent,
+  loadGraphParent,
+} from './executionBridge';
+import { extractJson, validateJsonSchema } from './structuredOutput';
+import { AUTO_RUN_STEP_TYPES, LIVE_STEP_TYPES, startExecution, waitForExecution } from './workflowEngine';
+import {
+  SkillDraft,
+  SkillTestAssertion,
+  SkillTestAssertionType,
+  SkillTestCase,
+  SkillTestRun,
+  StepExecution,
+  StepType,
+} from '../types';
+
+/**
+ * Regression tests for skills and workflows. A test case saves golden inputs
+ * and assertions on the output; a test run executes every case against a
+ * pending draft (or the current definition), so a reviewer sees what a change
+ * breaks before approving it.
+ */
+
+export class SkillTestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+const ASSERTION_TYPES: SkillTestAssertionType[] = ['contains', 'regex', 'json_schema', 'field_equals', 'llm_rubric'];
+
+// How long a case may run before it is reported as an error
+const CASE_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface SkillTestCaseInput {
+  name?: unknown;
+  inputs?: unknown;
+  assertions?: unknown;
+  stubs?: unknown;
+  mock_ai?: unknown;
+}
+
+export interface SkillTestCaseWithConfig extends Omit<SkillTestCase, 'inputs' | 'assertions' | 'stubs' | 'mock_ai'> {
+  inputs: Record<string, any>;
+  assertions: SkillTestAssertion[];
+  stubs: Record<string, string>;
+  mock_ai: boolean;
+}
+
+export interface AssertionResult {
+  type: SkillTestAssertionType;
+  step: number | null;
+  passed: boolean;
+  message: string;
+}
+
+export interface SkillTestCaseResult {
+  case_id: number;
+  name: string;
+  status: 'passed' | 'failed' | 'error';
+  execution_id: number | null;
+  error?: string;
+  assertions: AssertionResult[];
+}
+
+export interface SkillTestRunReport extends Omit<SkillTestRun, 'results'> {
+  results: SkillTestCaseResult[];
+}
+
+function parseJson<T>(raw: string | null | undefined, fallback: T): T {
+  try {
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function validateAssertion(assertion: any, index: number): string[] {
+  const label = `Assertion ${index + 1}`;
+  if (!isPlainObject(assertion)) return [`${label} must be an object`];
+  if (!ASSERTION_TYPES.includes(assertion.type)) {
+    return [`${label}: type must be one of ${ASSERTION_TYPES.join(', ')}`];
+  }
+
+  const errors: string[] = [];
+  if (assertion.step !== undefined && assertion.step !== null && !(Number.isInteger(assertion.step) && assertion.step > 0)) {
+    errors.push(`${label}: step must be a step number`);
+  }
+  const hasValue = typeof assertion.value === 'string' && assertion.value.trim() !== '';
+  switch (assertion.type as SkillTestAssertionType) {
+    case 'contains':
+    case 'llm_rubric':
+      if (!hasValue) errors.push(`${label}: value is required`);
+      break;
+    case 'regex':
+      if (!hasValue) {
+        errors.push(`${label}: value is required`);
+        break;
+      }
+      try {
+        new RegExp(assertion.value, assertion.flags || '');
+      } catch (error: any) {
+        errors.push(`${label}: ${error.message}`);
+      }
+      break;
+    case 'json_schema':
+      if (!isPlainObject(assertion.schema)) errors.push(`${label}: schema must be a JSON Schema object`);
+      break;
+    case 'field_equals':
+      if (typeof assertion.path !== 'string' || !assertion.path.trim()) errors.push(`${label}: path is required`);
+      if (assertion.expected === undefined) errors.push(`${label}: expected is required`);
+      break;
+  }
+  return errors;
+}
+
+// Check a case from the API and put it in the shape it is stored in
+function normalizeTestCase(input: SkillTestCaseInput): {
+  name: string;
+  inputs: string;
+  assertions: string;
+  stubs: string;
+  mockAi: boolean;
+} {
+  const errors: string[] = [];
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) errors.push('name is required');
+
+  const inputs = input.inputs ?? {};
+  if (!isPlainObject(inputs)) errors.push('inputs must be an object');
+
+  const assertions = input.assertions ?? [];
+  if (!Array.isArray(assertions)) {
+    errors.push('assertions must be an array');
+  } else {
+    assertions.forEach((assertion, index) => errors.push(...validateAssertion(assertion, index)));
+  }
+
+  const stubs = input.stubs ?? {};
+  if (!isPlainObject(stubs)) {
+    errors.push('stubs must map step numbers to outputs');
+  } else {
+    for (const [stepOrder, output] of Object.entries(stubs)) {
+      if (!/^[1-9]\d*$/.test(stepOrder)) errors.push(`stubs: "${stepOrder}" is not a step number`);
+      if (typeof output !== 'string') errors.push(`stubs: the output for step ${stepOrder} must be text`);
+    }
+  }
+
+  if (errors.length > 0) throw new SkillTestError(errors.join('; '));
+  return {
+    name,
+    inputs: JSON.stringify(inputs),
+    assertions: JSON.stringify(assertions),
+    stubs: JSON.stringify(stubs),
+    mockAi: input.mock_ai === true,
+  };
+}
+
+function withConfig(testCase: SkillTestCase): SkillTestCaseWithConfig {
+  return {
+    ...testCase,
+    inputs: parseJson(testCase.inputs, {}),
+    assertions: parseJson(testCase.assertions, []),
+    stubs: parseJson(testCase.stubs, {}),
+    mock_ai: !!testCase.mock_ai,
+  };
+}
+
+export function toTestRunReport(run: SkillTestRun): SkillTestRunReport {
+  return { ...run, results: parseJson(run.results, []) };
+}
+
+export function listTestCases(parentType: ParentType, parentId: number): SkillTestCaseWithConfig[] {
+  return (queries.getSkillTestCases(parentType, parentId) as SkillTestCase[]).map(withConfig);
+}
+
+function getOwnTestCase(parentType: ParentType, parentId: number, caseId: number): SkillTestCase | null {
+  const testCase = queries.getSkillTestCaseById(caseId) as SkillTestCase | undefined;
+  return testCase && testCase.parent_type === parentType && testCase.parent_id === parentId ? testCase : null;
+}
+
+export function createTestCase(
+  parentType: ParentType,
+  parentId: number,
+  input: SkillTestCaseInput,
+  userId: number
+): SkillTestCaseWithConfig {
+  const { name, inputs, assertions, stubs, mockAi } = normalizeTestCase(input);
+  const result = queries.createSkillTestCase(parentType, parentId, name, inputs, assertions, stubs, mockAi, userId);
+  return withConfig(queries.getSkillTestCaseById(Number(result.lastInsertRowid)) as SkillTestCase);
+}
+
+export function updateTestCase(
+  parentType: ParentType,
+  parentId: number,
+  caseId: number,
+  input: SkillTestCaseInput
+): SkillTestCaseWithConfig | null {
+  if (!getOwnTestCase(parentType, parentId, caseId)) return null;
+  const { name, inputs, assertions, stubs, mockAi } = normalizeTestCase(input);
+  queries.updateSkillTestCase(name, inputs, assertions, stubs, mockAi, caseId);
+  return withConfig(queries.getSkillTestCaseById(caseId) as SkillTestCase);
+}
+
+export function deleteTestCase(parentType: ParentType, parentId: number, caseId: number): boolean {
+  if (!getOwnTestCase(parentType, parentId, caseId)) return false;
+  queries.deleteSkillTestCase(caseId);
+  return true;
+}
+
+/**
+ * Latest test run of a draft, or of the current definition when `draftId` is null.
+ */
+export function getLatestTestRun(parentType: ParentType, parentId: number, draftId: number | null): SkillTestRunReport | null {
+  const run = queries.getLatestSkillTestRun(parentType, parentId, draftId) as SkillTestRun | undefined;
+  return run ? toTestRunReport(run) : null;
+}
+
+/**
+ * Record a run of every test case, against a draft's steps when given. The
+ * cases run in `executeTestRun`.
+ */
+export function createTestRun(
+  parentType: ParentType,
+  parentId: number,
+  userId: number,
+  draft?: SkillDraft
+): SkillTestRunReport {
+  if (!loadGraphParent(parentType, parentId).parent) {
+    throw new SkillTestError(`${parentType === 'skill' ? 'Skill' : 'Workflow'} not found`, 404);
+  }
+  if ((queries.getSkillTestCases(parentType, parentId) as SkillTestCase[]).length === 0) {
+    throw new SkillTestError(`This ${parentType} has no test cases`);
+  }
+  const result = queries.createSkillTestRun(parentType, parentId, draft?.id ?? null, userId);
+  return toTestRunReport(queries.getSkillTestRunById(Number(result.lastInsertRowid)) as SkillTestRun);
+}
+
+function draftStepRows(draft: SkillDraft, parentType: ParentType, parentId: number): SkillStepRow[] {
+  const asText = (value: unknown, fallback: string) => (
+    value === undefined || value === null ? fallback : typeof value === 'string' ? value : JSON.stringify(value)
+  );
+  return (parseJson(draft.steps, []) as any[]).map((step, index) => ({
+    id: 0,
+    parent_id: parentId,
+    parent_type: parentType,
+    step_order: index + 1,
+    step_name: step.step_name || `Step ${index + 1}`,
+    step_type: step.step_type || 'ai',
+    ai_model: step.ai_model || null,
+    prompt_template: step.prompt_template || '',
+    input_config: asText(step.input_config, '{}'),
+    output_format: step.output_format || 'text',
+    model_config: asText(step.model_config, '{}'),
+    executor_config: asText(step.executor_config, '{}'),
+  }));
+}
+
+/**
+ * Run every test case of a recorded run and store the report. Cases run one
+ * at a time; one that can't finish is reported as an error, not a failure.
+ */
+export async function executeTestRun(runId: number): Promise<SkillTestRunReport> {
+  const run = queries.getSkillTestRunById(runId) as SkillTestRun;
+  const parentType = run.parent_type;
+  const { parent, steps: currentSteps } = loadGraphParent(parentType, run.parent_id);
+  const draft = run.draft_id ? queries.getSkillDraftById(run.draft_id) as SkillDraft | undefined : undefined;
+  const results: SkillTestCaseResult[] = [];
+
+  for (const testCase of listTestCases(parentType, run.parent_id)) {
+    if (!parent || (run.draft_id && !draft)) {
+      results.push({
+        case_id: testCase.id, name: testCase.name, status: 'error', execution_id: null, assertions: [],
+        error: `The ${draft || !run.draft_id ? parentType : 'draft'} under test no longer exists`,
+      });
+      continue;
+    }
+    const steps = draft ? draftStepRows(draft, parentType, run.parent_id) : currentSteps;
+    const target = draft ? { ...parent, name: draft.name } : parent;
+    try {
+      results.push(await runTestCase(testCase, target, steps, run));
+    } catch (error: any) {
+      results.push({
+        case_id: testCase.id, name: testCase.name, status: 'error', execution_id: null, assertions: [],
+        error: error.message,
+      });
+    }
+  }
+
+  const passed = results.filter((result) => result.status === 'passed').length;
+  const failed = results.length - passed;
+  queries.completeSkillTestRun(failed === 0 ? 'passed' : 'failed', passed, failed, JSON.stringify(results), runId);
+  return toTestRunReport(queries.getSkillTestRunById(runId) as SkillTestRun);
+}
+
+async function runTestCase(
+  testCase: SkillTestCaseWithConfig,
+  parent: GraphParent,
+  steps: SkillStepRow[],
+  run: SkillTestRun
+): Promise<SkillTestCaseResult> {
+  const result: SkillTestCaseResult = {
+    case_id: testCase.id,
+    name: testCase.name,
+    status: 'error',
+    execution_id: null,
+    assertions: [],
+  };
+
+  // A test run can't wait for a person or a browser session
+  const stepType = (step: SkillStepRow) => (step.step_type === 'scraping' ? 'browser' : step.step_type || 'ai');
+  const unattended = steps.find(
+    (step) => (!AUTO_RUN_STEP_TYPES.includes(stepType(step) as StepType) || LIVE_STEP_TYPES.includes(stepType(step) as StepType))
+      && testCase.stubs[step.step_order] === undefined
+  );
+  if (unattended) {
+    result.error = `Step ${unattended.step_order} (${unattended.step_name}) is a ${stepType(unattended)} step and needs a stub`;
+    return result;
+  }
+
+  const rows = testCase.mock_ai
+    ? steps.map((step) => (stepType(step) === 'ai' ? { ...step, ai_model: 'mock' } : step))
+    : steps;
+  const pin = `${run.draft_id ? `draft${run.draft_id}` : 'current'}${testCase.mock_ai ? ':mock' : ''}`;
+  const { recipeId } = ensureExecutionRecipeFromGraph(run.parent_type, parent, rows, { test: pin });
+
+  const stubs: Record<number, string> = {};
+  for (const [stepOrder, output] of Object.entries(testCase.stubs)) stubs[Number(stepOrder)] = output;
+  const started = await startExecution(recipeId, run.created_by ?? 1, { ...testCase.inputs }, undefined, {
+    recordVersion: false,
+    stubs,
+  });
+  if (!started.success) {
+    result.error = started.error || 'The run did not start';
+    return result;
+  }
+  result.execution_id = started.executionId;
+
+  const execution = await waitForExecution(started.executionId, CASE_TIMEOUT_MS);
+  const stepExecutions = queries.getStepExecutionsByExecutionId(started.executionId) as StepExecution[];
+  if (execution.status !== 'completed') {
+    const stuck = stepExecutions.find((se) => se.status === 'failed' || se.status === 'awaiting_review');
+    result.error = execution.status === 'running'
+      ? 'Timed out waiting for the run to finish'
+      : stuck?.status === 'failed'
+        ? `Step ${stuck.step_order} failed: ${stuck.error_message || 'unknown error'}`
+        : `The run stopped with status ${execution.status}${stuck ? ` at step ${stuck.step_order}` : ''}`;
+    return result;
+  }
+
+  for (const assertion of testCase.assertions) {
+    result.assertions.push(await checkAssertion(assertion, stepExecutions, {
+      userId: run.created_by ?? 1,
+      workspaceId: parent.workspace_id ?? null,
+      executionId: started.executionId,
+    }));
+  }
+  result.status = result.assertions.every((assertion) => assertion.passed) ? 'passed' : 'failed';
+  return result;
+}
+
+// `items[0].name` and `items.0.name` both read the first item's name
+function readPath(value: any, path: string): unknown {
+  return path
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter(Boolean)
+    .reduce((current, key) => (current === null || current === undefined ? undefined : current[key]), value);
+}
+
+/**
+ * Check one assertion against a finished run's step outputs.
+ */
+export async function checkAssertion(
+  assertion: SkillTestAssertion,
+  stepExecutions: StepExecution[],
+  grader: { userId: number; workspaceId?: number | null; executionId?: number }
+): Promise<AssertionResult> {
+  const step = assertion.step ?? null;
+  const verdict = (passed: boolean, message: string): AssertionResult => ({ type: assertion.type, step, passed, message });
+
+  let output: string;
+  if (step !== null) {
+    const target = stepExecutions.find((se) => se.step_order === step);
+    if (!target || target.status !== 'completed') return verdict(false, `Step ${step} did not complete`);
+    output = getStepOutputContent(target);
+  } else {
+    output = getFinalOutput(stepExecutions);
+  }
+
+  switch (assertion.type) {
+    case 'contains': {
+      const value = String(assertion.value);
+      return output.includes(value)
+        ? verdict(true, `Contains "${value}"`)
+        : verdict(false, `Output does not contain "${value}"`);
+    }
+    case 'regex': {
+      const pattern = new RegExp(String(assertion.value), assertion.flags || '');
+      return pattern.test(output)
+        ? verdict(true, `Matches ${pattern}`)
+        : verdict(false, `Output does not match ${pattern}`);
+    }
+    case 'json_schema': {
+      const parsed = extractJson(output);
+      if (!parsed) return verdict(false, 'Output is not JSON');
+      const errors = validateJsonSchema(parsed.value, assertion.schema || {});
+      return errors.length === 0 ? verdict(true, 'Matches the schema') : verdict(false, errors.join('; '));
+    }
+    case 'field_equals': {
+      const parsed = extractJson(output);
+      if (!parsed) return verdict(false, 'Output is not JSON');
+      const actual = readPath(parsed.value, String(assertion.path));
+      const expected = JSON.stringify(assertion.expected);
+      return isDeepStrictEqual(actual, assertion.expected)
+        ? verdict(true, `${assertion.path} is ${expected}`)
+        : verdict(false, `${assertion.path} is ${actual === undefined ? 'missing' : JSON.stringify(actual)}, expected ${expected}`);
+    }
+    case 'llm_rubric':
+      return gradeWithRubric(assertion, output, grader, verdict);
+    default:
+      return verdict(false, `Unknown assertion type "${assertion.type}"`);
+  }
+}
+
+async function gradeWithRubric(
+  assertion: SkillTestAssertion,
+  output: string,
+  grader: { userId: number; workspaceId?: number | null; executionId?: number },
+  verdict: (passed: boolean, message: string) => AssertionResult
+): Promise<AssertionResult> {
+  const model = assertion.model
+    || getAvailableModels().find((candidate) => !candidate.supportsImageGeneration)?.id;
+  if (!model) return verdict(false, 'No AI model is available to grade the rubric');
+
+  const prompt = [
+    'You are grading the output of an automated workflow against a rubric.',
+    `Rubric:\n${assertion.value}`,
+    `Output:\n${output}`,
+    'Reply with only a JSON object: {"pass": true or false, "reason": "<one sentence>"}',
+  ].join('\n\n');
+  const response = await callAIByModel(model, prompt, {
+    temperature: 0,
+    usage: { ...grader, source: 'workflow_step' },
+  });
+  if (!response.success) return verdict(false, `Grader failed: ${response.error || 'no response'}`);
+
+  const grade = extractJson(response.content)?.value;
+  if (!isPlainObject(grade) || typeof grade.pass !== 'boolean') {
+    return verdict(false, 'Grader gave no pass/fail verdict');
+  }
+  return verdict(grade.pass, String(grade.reason || (grade.pass ? 'Meets the rubric' : 'Does not meet the rubric')));
+}
@@ -0,0 +1,278 @@
+import { getDatabase, queries } from '../models/database';
+import {
+  ParentType,
+  SkillStepRow,
+  ensureExecutionRecipeFromGraph,
+  loadGraphParent,
+  parseBridgeMarker,
+} from './executionBridge';
+import { DiffLine, diffLines } from './executionDiff';
+import { RecipeStep, SkillVersion, SkillVersionSource } from '../types';
+
+/**
+ * Immutable versions of skills and workflows. Every change to a definition's
+ * name, description or steps is snapshotted as version N+1; rolling back
+ * copies an old snapshot forward as a new version.
+ */
+
+export interface VersionStep {
+  step_order: number;
+  step_name: string;
+  step_type: string;
+  ai_model: string | null;
+  prompt_template: string;
+  input_config: string;
+  output_format: string;
+  model_config: string;
+  executor_config: string;
+}
+
+export interface SkillVersionWithSteps extends Omit<SkillVersion, 'steps'> {
+  steps: VersionStep[];
+}
+
+// Fields compared between versions; JSON ones are diffed pretty-printed
+const DIFF_FIELDS: Array<keyof VersionStep> = [
+  'step_name', 'step_type', 'ai_model', 'prompt_template', 'output_format',
+  'executor_config', 'input_config', 'model_config',
+];
+const JSON_FIELDS: Array<keyof VersionStep> = ['executor_config', 'input_config', 'model_config'];
+
+export interface VersionFieldDiff {
+  field: keyof VersionStep;
+  before: string;
+  after: string;
+  lines: DiffLine[];
+}
+
+export interface VersionStepDiff {
+  step_order: number;
+  step_name: string;
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+  fields: VersionFieldDiff[];
+}
+
+export interface VersionDiff {
+  parent_type: ParentType;
+  parent_id: number;
+  from_version: number;
+  to_version: number;
+  name: { before: string; after: string } | null;
+  description: { before: string; after: string } | null;
+  steps: VersionStepDiff[];
+}
+
+function snapshotSteps(rows: SkillStepRow[]): VersionStep[] {
+  return rows.map((row, index) => ({
+    step_order: row.step_order || index + 1,
+    step_name: row.step_name || `Step ${index + 1}`,
+    step_type: row.step_type || 'ai',
+    ai_model: row.ai_model || null,
+    prompt_template: row.prompt_template || '',
+    input_config: row.input_config || '{}',
+    output_format: row.output_format || 'text',
+    model_config: row.model_config || '{}',
+    executor_config: row.executor_config || '{}',
+  }));
+}
+
+function withSteps(version: SkillVersion): SkillVersionWithSteps {
+  let steps: VersionStep[] = [];
+  try {
+    steps = JSON.parse(version.steps);
+  } catch {
+    // Keep empty
+  }
+  return { ...version, steps };
+}
+
+/**
+ * Snapshot the current definition as a new version, unless it matches the
+ * latest one. Returns the version that matches the definition, or null when
+ * the skill/workflow does not exist.
+ */
+export function recordSkillVersion(
+  parentType: ParentType,
+  parentId: number,
+  options: { source: SkillVersionSource; createdBy?: number | null; note?: string | null }
+): SkillVersion | null {
+  const { parent, steps } = loadGraphParent(parentType, parentId);
+  if (!parent) return null;
+
+  const snapshot = JSON.stringify(snapshotSteps(steps));
+  const description = parent.description ?? null;
+  const latest = queries.getLatestSkillVersion(parentType, parentId) as SkillVersion | undefined;
+  if (latest && latest.steps === snapshot && latest.name === parent.name && latest.description === description) {
+    return latest;
+  }
+
+  const created = queries.createSkillVersion(
+    parentType,
+    parentId,
+    (latest?.version ?? 0) + 1,
+    parent.name,
+    description,
+    snapshot,
+    options.source,
+    options.note ?? null,
+    options.createdBy ?? null
+  );
+  return queries.getSkillVersionById(created.lastInsertRowid) as SkillVersion;
+}
+
+export function listSkillVersions(parentType: ParentType, parentId: number): Array<Omit<SkillVersion, 'steps'> & {
+  step_count: number;
+  created_by_email: string | null;
+}> {
+  return queries.getSkillVersions(parentType, parentId);
+}
+
+export function getSkillVersion(parentType: ParentType, parentId: number, version: number): SkillVersionWithSteps | null {
+  const row = queries.getSkillVersion(parentType, parentId, version) as SkillVersion | undefined;
+  return row ? withSteps(row) : null;
+}
+
+function displayValue(step: VersionStep | undefined, field: keyof VersionStep): string {
+  if (!step) return '';
+  const value = step[field];
+  if (value === null || value === undefined) return '';
+  if (!JSON_FIELDS.includes(field)) return String(value);
+  try {
+    const parsed = JSON.parse(String(value));
+    return parsed && typeof parsed === 'object' && Object.keys(parsed).length === 0
+      ? ''
+      : JSON.stringify(parsed, null, 2);
+  } catch {
+    return String(value);
+  }
+}
+
+/** Field-by-field comparison of two versions, matching steps by position. */
+export function diffSkillVersions(before: SkillVersionWithSteps, after: SkillVersionWithSteps): VersionDiff {
+  const orders = Array.from(new Set([...before.steps, ...after.steps].map(step => step.step_order)))
+    .sort((a, b) => a - b);
+
+  const steps = orders.map((order): VersionStepDiff => {
+    const old = before.steps.find(step => step.step_order === order);
+    const current = after.steps.find(step => step.step_order === order);
+    const fields = DIFF_FIELDS
+      .map((field): VersionFieldDiff => {
+        const beforeText = displayValue(old, field);
+        const afterText = displayValue(current, field);
+        return { field, before: beforeText, after: afterText, lines: diffLines(beforeText, afterText) };
+      })
+      .filter(field => field.before !== field.after);
+
+    return {
+      step_order: order,
+      step_name: current?.step_name || old?.step_name || `Step ${order}`,
+      change: !old ? 'added' : !current ? 'removed' : fields.length > 0 ? 'changed' : 'unchanged',
+      fields,
+    };
+  });
+
+  return {
+    parent_type: after.parent_type,
+    parent_id: after.parent_id,
+    from_version: before.version,
+    to_version: after.version,
+    name: before.name !== after.name ? { before: before.name, after: after.name } : null,
+    description: (before.description || '') !== (after.description || '')
+      ? { before: before.description || '', after: after.description || '' }
+      : null,
+    steps,
+  };
+}
+
+/**
+ * Compare `version` with `against` (default: the version before it). Version 1
+ * is compared with an empty definition. Null when either version is missing.
+ */
+export function compareSkillVersions(
+  parentType: ParentType,
+  parentId: number,
+  version: number,
+  against?: number
+): VersionDiff | null {
+  const after = getSkillVersion(parentType, parentId, version);
+  if (!after) return null;
+  const base = against ?? version - 1;
+  const before = base >= 1
+    ? getSkillVersion(parentType, parentId, base)
+    : { ...after, version: 0, name: after.name, description: after.description, steps: [] };
+  return before ? diffSkillVersions(before, after) : null;
+}
+
+/**
+ * Make an old version current again. The definition is overwritten with that
+ * version's snapshot, which is recorded as a new version; history is kept.
+ */
+export function rollbackSkillVersion(
+  parentType: ParentType,
+  parentId: number,
+  version: number,
+  userId: number
+): SkillVersion | null {
+  const target = getSkillVersion(parentType, parentId, version);
+  if (!target) return null;
+
+  const db = getDatabase();
+  const table = parentType === 'skill' ? 'skills' : 'workflows';
+  db.transaction(() => {
+    db.prepare(`UPDATE ${table} SET name = ?, description = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`)
+      .run(target.name, target.description, parentId);
+    db.prepare('DELETE FROM skill_steps WHERE parent_id = ? AND parent_type = ?').run(parentId, parentType);
+    const insertStep = db.prepare(`
+      INSERT INTO skill_steps (parent_id, parent_type, step_order, step_name, step_type, ai_model, prompt_template, input_config, output_format, model_config, executor_config)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const step of target.steps) {
+      insertStep.run(
+        parentId, parentType, step.step_order, step.step_name, step.step_type, step.ai_model,
+        step.prompt_template, step.input_config, step.output_format, step.model_config, step.executor_config
+      );
+    }
+  })();
+
+  return recordSkillVersion(parentType, parentId, {
+    source: 'rollback',
+    createdBy: userId,
+    note: `Rolled back to version ${version}`,
+  });
+}
+
+/**
+ * Bridge a saved version onto its own recipe so it can be run as it was,
+ * whatever the definition looks like now.
+ */
+export function bridgeSkillVersion(
+  parentType: ParentType,
+  parentId: number,
+  version: number
+): { recipeId: number; syncedSteps: RecipeStep[] } | null {
+  const { parent } = loadGraphParent(parentType, parentId);
+  const snapshot = getSkillVersion(parentType, parentId, version);
+  if (!parent || !snapshot) return null;
+
+  const rows: SkillStepRow[] = snapshot.steps.map(step => ({
+    ...step,
+    id: 0,
+    parent_id: parentId,
+    parent_type: parentType,
+  }));
+  return ensureExecutionRecipeFromGraph(parentType, { ...parent, name: snapshot.name }, rows, { version });
+}
+
+/**
+ * The version a run of a bridged recipe executes: the pinned one, or the
+ * current definition (snapshotted if it changed since the latest version).
+ */
+export function resolveRecipeSkillVersion(recipeId: number): SkillVersion | null {
+  const recipe = queries.getRecipeById(recipeId) as { description?: string | null } | undefined;
+  const marker = parseBridgeMarker(recipe?.description);
+  if (!marker) return null;
+  if (marker.version) {
+    return (queries.getSkillVersion(marker.parentType, marker.parentId, marker.version) as SkillVersion | undefined) ?? null;
+  }
+  return recordSkillVersion(marker.parentType, marker.parentId, { source: 'run' });
+}
@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import { queries } from '../models/database';
+import { compilePrompt } from './promptParser';
+import { getStepOutputContent } from './executionBridge';
+import { StepExecutorContext, StepExecutorResult } from '../executors/StepExecutor';
+import { RecipeStep } from '../types';
+
+/**
+ * Content-addressed cache of step results. A step's key hashes everything
+ * that decides its output: executor type, model, the compiled prompt and
+ * executor config, the run's inputs and the earlier step outputs it can see.
+ * Successful results of cacheable steps are always stored; they are reused
+ * when the step opts in (`executor_config.cache`) or when a replay reuses
+ * the steps before the one being re-run.
+ */
+
+// Control-flow and interactive steps always run
+export const CACHEABLE_STEP_TYPES = ['ai', 'http', 'browser', 'script', 'transform'];
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const MAX_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Executor config that changes how a step runs, not what it returns
+const RUN_ONLY_CONFIG_KEYS = ['cache', 'retry'];
+
+export interface CachePolicy {
+  enabled: boolean;
+  ttl_seconds: number;
+}
+
+export interface CachedStepResult extends StepExecutorResult {
+  cachedAt: string;
+}
+
+function parseExecutorConfig(step: RecipeStep): Record<string, any> {
+  if (!step.executor_config) return {};
+  try {
+    const parsed = typeof step.executor_config === 'string'
+      ? JSON.parse(step.executor_config)
+      : step.executor_config;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Read `executor_config.cache`: `true`, or `{ enabled?, ttl_seconds? }`. */
+export function parseCachePolicy(step: RecipeStep): CachePolicy {
+  const raw = parseExecutorConfig(step).cache;
+  if (raw === true) return { enabled: true, ttl_seconds: DEFAULT_TTL_SECONDS };
+  if (!raw || typeof raw !== 'object') return { enabled: false, ttl_seconds: DEFAULT_TTL_SECONDS };
+
+  const ttl = Number(raw.ttl_seconds);
+  return {
+    enabled: raw.enabled !== false,
+    ttl_seconds: Number.isFinite(ttl) && ttl > 0
+      ? Math.min(Math.floor(ttl), MAX_TTL_SECONDS)
+      : DEFAULT_TTL_SECONDS,
+  };
+}
+
+// JSON with sorted object keys, so equal values always hash the same
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * The cache key for running `step` in `context`, or null when the step type
+ * is not cacheable or its inputs cannot be resolved.
+ */
+export function computeStepCacheKey(
+  step: RecipeStep,
+  stepType: string,
+  context: StepExecutorContext
+): string | null {
+  if (!CACHEABLE_STEP_TYPES.includes(stepType)) return null;
+
+  try {
+    const compileContext = {
+      userId: context.userId,
+      workspaceId: context.workspaceId,
+      userInputs: context.userInputs,
+      stepExecutions: context.completedStepExecutions,
+    };
+    const config = parseExecutorConfig(step);
+    for (const key of RUN_ONLY_CONFIG_KEYS) delete config[key];
+
+    const material = {
+      version: 1,
+      workspace: context.workspaceId ?? null,
+      executor: stepType,
+      model: step.ai_model || '',
+      output_format: step.output_format || '',
+      prompt: compilePrompt(step.prompt_template || '', compileContext).compiledPrompt,
+      config: compilePrompt(stableStringify(config), compileContext).compiledPrompt,
+      inputs: context.userInputs,
+      upstream: context.completedStepExecutions
+        .filter((se) => se.step_order < step.step_order)
+        .sort((a, b) => a.step_order - b.step_order)
+        // Content only: whether an earlier step was itself served from cache must not matter
+        .map((se) => [se.step_order, getStepOutputContent(se)]),
+    };
+    return crypto.createHash('sha256').update(stableStringify(material)).digest('hex');
+  } catch (error: any) {
+    console.error('[StepCache] Could not compute cache key:', error.message);
+    return null;
+  }
+}
+
+/** A stored, unexpired result for `cacheKey`, or null on a miss. */
+export function lookupStepCache(cacheKey: string): CachedStepResult | null {
+  try {
+    const entry = queries.getStepCacheEntry(cacheKey) as { result: string; created_at: string } | undefined;
+    if (!entry) return null;
+    queries.recordStepCacheHit(cacheKey);
+    return { ...JSON.parse(entry.result), success: true, cachedAt: entry.created_at };
+  } catch (error: any) {
+    // The cache must never fail the step it would have served
+    console.error('[StepCache] Lookup failed:', error.message);
+    return null;
+  }
+}
+
+export function storeStepCache(
+  cacheKey: string,
+  workspaceId: number | null | undefined,
+  stepType: string,
+  result: StepExecutorResult,
+  ttlSeconds: number
+): void {
+  if (!result.success) return;
+  try {
+    queries.deleteExpiredStepCache();
+    queries.putStepCacheEntry(
+      cacheKey,
+      workspaceId ?? null,
+      stepType,
+      JSON.stringify({
+        content: result.content,
+        metadata: result.metadata,
+        promptUsed: result.promptUsed,
+        modelUsed: result.modelUsed,
+      }),
+      ttlSeconds
+    );
+  } catch (error: any) {
+    console.error('[StepCache] Store failed:', error.message);
+  }
+}
@@ -0,0 +1,201 @@
+import { StepExecutorResult } from '../executors/StepExecutor';
+import { RecipeStep, StepAttempt, StepErrorClass } from '../types';
+
+const MAX_ATTEMPTS = 10;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+export const STEP_ERROR_CLASSES: StepErrorClass[] = ['rate_limit', 'timeout', 'network', 'server', 'auth', 'other'];
+
+/**
+ * Per-step retry policy, read from `executor_config.retry`. The default of a
+ * single attempt keeps the old behaviour: a failure pauses the execution.
+ */
+export interface RetryPolicy {
+  /** Attempts per model, including the first one */
+  max_attempts: number;
+  /** Delay before the first retry */
+  backoff_ms: number;
+  /** Factor applied to the delay after each retry */
+  backoff_multiplier: number;
+  /** Upper bound for a single delay */
+  max_backoff_ms: number;
+  /** Error classes that are worth another attempt */
+  retry_on: StepErrorClass[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  max_attempts: 1,
+  backoff_ms: 1000,
+  backoff_multiplier: 2,
+  max_backoff_ms: 30000,
+  retry_on: ['rate_limit', 'timeout', 'network', 'server'],
+};
+
+function parseExecutorConfig(step: RecipeStep): Record<string, any> {
+  if (!step.executor_config) return {};
+  try {
+    const parsed = typeof step.executor_config === 'string'
+      ? JSON.parse(step.executor_config)
+      : step.executor_config;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function clampNumber(value: any, fallback: number, min: number, max: number): number {
+  const num = Number(value);
+  if (!Number.isFinite(num)) return fallback;
+  return Math.min(Math.max(num, min), max);
+}
+
+export function parseRetryPolicy(step: RecipeStep): RetryPolicy {
+  const raw = parseExecutorConfig(step).retry;
+  if (!raw || typeof raw !== 'object') return { ...DEFAULT_RETRY_POLICY };
+
+  const retryOn = Array.isArray(raw.retry_on)
+    ? raw.retry_on.filter((c: any) => STEP_ERROR_CLASSES.includes(c))
+    : DEFAULT_RETRY_POLICY.retry_on;
+
+  return {
+    max_attempts: Math.floor(clampNumber(raw.max_attempts, DEFAULT_RETRY_POLICY.max_attempts, 1, MAX_ATTEMPTS)),
+    backoff_ms: clampNumber(raw.backoff_ms, DEFAULT_RETRY_POLICY.backoff_ms, 0, MAX_BACKOFF_MS),
+    backoff_multiplier: clampNumber(raw.backoff_multiplier, DEFAULT_RETRY_POLICY.backoff_multiplier, 1, 10),
+    max_backoff_ms: clampNumber(raw.max_backoff_ms, DEFAULT_RETRY_POLICY.max_backoff_ms, 0, MAX_BACKOFF_MS),
+    retry_on: retryOn,
+  };
+}
+
+/** Ordered fallback models for an `ai` step, from `executor_config.fallback_models`. */
+export function parseFallbackModels(step: RecipeStep): string[] {
+  const raw = parseExecutorConfig(step).fallback_models;
+  if (!Array.isArray(raw)) return [];
+  const models = raw.map((m: any) => String(m || '').trim()).filter(Boolean);
+  return Array.from(new Set(models)).filter(m => m !== step.ai_model);
+}
+
+/** Sort an error message into a coarse class so policies can decide what to retry. */
+export function classifyStepError(message?: string): StepErrorClass {
+  const text = String(message || '').toLowerCase();
+  if (!text) return 'other';
+  if (/rate.?limit|too many requests|overloaded|resource exhausted|quota|\b429\b|\b529\b/.test(text)) return 'rate_limit';
+  if (/timed? ?out|timeout|deadline exceeded|etimedout|aborted/.test(text)) return 'timeout';
+  if (/econnreset|econnrefused|enotfound|eai_again|socket hang up|fetch failed|network/.test(text)) return 'network';
+  if (/api key|unauthori[sz]ed|forbidden|not configured|\b401\b|\b403\b/.test(text)) return 'auth';
+  if (/internal server error|bad gateway|service unavailable|temporarily unavailable|\b50[0-4]\b/.test(text)) return 'server';
+  return 'other';
+}
+
+/** Delay before retry number `retry` (1-based) on the same model. */
+export function getBackoffDelay(policy: RetryPolicy, retry: number): number {
+  const delay = policy.backoff_ms * Math.pow(policy.backoff_multiplier, Math.max(0, retry - 1));
+  return Math.min(delay, policy.max_backoff_ms);
+}
+
+export interface RetryNotice {
+  attempt: StepAttempt;
+  nextModel?: string;
+  delayMs: number;
+}
+
+export interface RunWithRetryOptions {
+  /** Attempts already recorded for this step execution (e.g. before a manual retry) */
+  previousAttempts?: StepAttempt[];
+  /** Called after every attempt with the full attempt history */
+  onAttempt?: (attempts: StepAttempt[]) => void;
+  /** Called before waiting for the next attempt */
+  onRetry?: (notice: RetryNotice) => void;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a step under its retry policy. Each model (the step's own model, then
+ * any fallbacks for `ai` steps) gets up to `max_attempts` attempts while the
+ * error class is retryable. Moving to a fallback model also happens on auth
+ * errors, since another provider has its own credentials.
+ */
+export async function runWithRetryPolicy(
+  step: RecipeStep,
+  stepType: string,
+  run: (step: RecipeStep) => Promise<StepExecutorResult>,
+  options: RunWithRetryOptions = {}
+): Promise<{ result: StepExecutorResult; attempts: StepAttempt[] }> {
+  const policy = parseRetryPolicy(step);
+  const sleep = options.sleep || defaultSleep;
+  const models: Array<string | undefined> = stepType === 'ai'
+    ? [step.ai_model, ...parseFallbackModels(step)]
+    : [undefined];
+  const attempts: StepAttempt[] = [...(options.previousAttempts || [])];
+
+  let result: StepExecutorResult = { success: false, content: '', error: 'Step execution failed' };
+
+  for (let modelIndex = 0; modelIndex < models.length; modelIndex++) {
+    const model = models[modelIndex];
+    const stepToRun = model && model !== step.ai_model ? { ...step, ai_model: model } : step;
+
+    for (let tryOnModel = 1; tryOnModel <= policy.max_attempts; tryOnModel++) {
+      const startedAt = new Date().toISOString();
+      try {
+        result = await run(stepToRun);
+      } catch (error) {
+        result = {
+          success: false,
+          content: '',
+          error: error instanceof Error ? error.message : 'Step execution failed',
+        };
+      }
+
+      const attempt: StepAttempt = {
+        attempt: attempts.length + 1,
+        model,
+        status: result.success ? 'succeeded' : 'failed',
+        started_at: startedAt,
+        finished_at: new Date().toISOString(),
+      };
+
+      if (result.success) {
+        attempts.push(attempt);
+        options.onAttempt?.(attempts);
+        return { result, attempts };
+      }
+
+      const errorClass = classifyStepError(result.error);
+      attempt.error = result.error || 'Step execution failed';
+      attempt.error_class = errorClass;
+      attempts.push(attempt);
+      options.onAttempt?.(attempts);
+
+      const retrySameModel = tryOnModel < policy.max_attempts && policy.retry_on.includes(errorClass);
+      const hasFallback = modelIndex < models.length - 1 &&
+        (policy.retry_on.includes(errorClass) || errorClass === 'auth');
+
+      if (retrySameModel) {
+        const delayMs = getBackoffDelay(policy, tryOnModel);
+        options.onRetry?.({ attempt, nextModel: model, delayMs });
+        if (delayMs > 0) await sleep(delayMs);
+        continue;
+      }
+      if (hasFallback) {
+        options.onRetry?.({ attempt, nextModel: models[modelIndex + 1], delayMs: 0 });
+        break;
+      }
+      return { result, attempts };
+    }
+  }
+
+  return { result, attempts };
+}
+
+export function parseStepAttempts(value: string | null | undefined): StepAttempt[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
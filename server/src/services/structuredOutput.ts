@@ -0,0 +1,212 @@
+import { RecipeStep } from '../types';
+
+/**
+ * JSON Schema output contracts for `ai` steps: reading the schema from
+ * `executor_config.output_schema`, pulling JSON out of a model reply and
+ * validating it. The validator covers the keywords step schemas use in
+ * practice (types, properties, items, enums, bounds, combinators); `$ref`
+ * and format assertions are not supported.
+ */
+
+export type JsonSchema = Record<string, any>;
+
+const DEFAULT_REPAIR_ATTEMPTS = 2;
+const MAX_REPAIR_ATTEMPTS = 5;
+const MAX_REPORTED_ERRORS = 10;
+
+function parseExecutorConfig(step: RecipeStep): Record<string, any> {
+  if (!step.executor_config) return {};
+  try {
+    const parsed = typeof step.executor_config === 'string'
+      ? JSON.parse(step.executor_config)
+      : step.executor_config;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** The step's declared output schema, or null when it has none (or it is not an object). */
+export function parseOutputSchema(step: RecipeStep): JsonSchema | null {
+  let raw = parseExecutorConfig(step).output_schema;
+  if (typeof raw === 'string') {
+    if (!raw.trim()) return null;
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  return raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : null;
+}
+
+/** Why `executor_config.output_schema` is unusable, or null when it is absent or valid. */
+export function checkOutputSchema(step: RecipeStep): string | null {
+  const raw = parseExecutorConfig(step).output_schema;
+  if (raw === undefined || raw === null || raw === '') return null;
+  if (!parseOutputSchema(step)) return 'Output schema must be a JSON Schema object';
+  return null;
+}
+
+/** How many times a step re-asks the model after an invalid reply (`executor_config.max_repair_attempts`). */
+export function parseRepairAttempts(step: RecipeStep): number {
+  const raw = Number(parseExecutorConfig(step).max_repair_attempts);
+  if (!Number.isFinite(raw)) return DEFAULT_REPAIR_ATTEMPTS;
+  return Math.min(Math.max(Math.floor(raw), 0), MAX_REPAIR_ATTEMPTS);
+}
+
+/** Instruction appended to the system prompt for models without native structured output. */
+export function schemaInstruction(schema: JsonSchema): string {
+  return 'Respond with a single JSON value that matches this JSON Schema. ' +
+    'Do not wrap it in code fences or add any other text.\n' +
+    JSON.stringify(schema, null, 2);
+}
+
+/**
+ * Parse JSON from a model reply, repairing the usual damage: code fences,
+ * prose around the value and trailing commas. Returns undefined when no
+ * JSON value can be recovered.
+ */
+export function extractJson(text: string): { value: any; repaired: boolean } | undefined {
+  const raw = String(text || '').trim();
+  const tryParse = (candidate: string): { ok: true; value: any } | { ok: false } => {
+    try {
+      return { ok: true, value: JSON.parse(candidate) };
+    } catch {
+      return { ok: false };
+    }
+  };
+
+  const direct = tryParse(raw);
+  if (direct.ok) return { value: direct.value, repaired: false };
+
+  const candidates: string[] = [];
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) candidates.push(fenced[1].trim());
+
+  const start = raw.search(/[[{]/);
+  if (start !== -1) {
+    const close = raw[start] === '{' ? '}' : ']';
+    const end = raw.lastIndexOf(close);
+    if (end > start) candidates.push(raw.slice(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    for (const attempt of [candidate, candidate.replace(/,\s*([}\]])/g, '$1')]) {
+      const parsed = tryParse(attempt);
+      if (parsed.ok) return { value: parsed.value, repaired: true };
+    }
+  }
+  return undefined;
+}
+
+function typeOf(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: any, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function validateNode(value: any, schema: any, path: string, errors: string[]): void {
+  if (schema === true || schema === undefined || schema === null) return;
+  if (schema === false) {
+    errors.push(`${path}: no value is allowed here`);
+    return;
+  }
+  if (typeof schema !== 'object') return;
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+
+  if ('const' in schema && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: any) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((o: any) => JSON.stringify(o)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern).test(value)) errors.push(`${path}: must match /${schema.pattern}/`);
+      } catch {
+        // Unsupported pattern syntax is not the model's fault
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`);
+    if (typeof schema.maximum === 'number' && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`);
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items !== undefined && !Array.isArray(schema.items)) {
+      value.forEach((item, index) => validateNode(item, schema.items, `${path}[${index}]`, errors));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const properties: Record<string, any> = schema.properties && typeof schema.properties === 'object'
+      ? schema.properties
+      : {};
+    for (const key of Array.isArray(schema.required) ? schema.required : []) {
+      if (!(key in value)) errors.push(`${path}: missing required property "${key}"`);
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (key in properties) {
+        validateNode(child, properties[key], `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${key}"`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        validateNode(child, schema.additionalProperties, `${path}.${key}`, errors);
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf) validateNode(value, sub, path, errors);
+  }
+  for (const keyword of ['anyOf', 'oneOf'] as const) {
+    if (!Array.isArray(schema[keyword])) continue;
+    const passing = schema[keyword].filter((sub: any) => validateJsonSchema(value, sub, path).length === 0).length;
+    if (keyword === 'anyOf' ? passing === 0 : passing !== 1) {
+      errors.push(`${path}: must match ${keyword === 'anyOf' ? 'at least one' : 'exactly one'} of the allowed schemas`);
+    }
+  }
+}
+
+/** Validation errors for `value` against `schema`; empty when it conforms. Paths start at `$`. */
+export function validateJsonSchema(value: any, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+  validateNode(value, schema, path, errors);
+  return errors.slice(0, MAX_REPORTED_ERRORS);
+}
@@ -1,14 +1,15 @@
-import { queries } from '../models/database';
+import { ensurePersonalWorkspace, queries } from '../models/database';
 import { UsageStats } from '../types';
 
-// Log API usage
+// Log API usage against a workspace (the user's personal one by default)
 export function logUsage(
   userId: number,
   service: string,
   endpoint: string,
   requestCount: number = 1,
   recordsFetched: number = 0,
-  metadata?: Record<string, any>
+  metadata?: Record<string, any>,
+  workspaceId?: number | null
 ): void {
   try {
     queries.logApiUsage(
@@ -17,7 +18,8 @@ export function logUsage(
       endpoint,
       requestCount,
       recordsFetched,
-      metadata ? JSON.stringify(metadata) : undefined
+      metadata ? JSON.stringify(metadata) : undefined,
+      workspaceId ?? ensurePersonalWorkspace(userId)
     );
   } catch (error: any) {
     console.error('Failed to log API usage:', error.message);
@@ -0,0 +1,378 @@
+import crypto from 'crypto';
+import { getDatabase, queries } from '../models/database';
+import { startExecution, approveStep } from './workflowEngine';
+import { loadGraphParent, ensureExecutionRecipeFromGraph, getFinalOutput } from './executionBridge';
+import { authorizeTriggeredRun } from './workspaceService';
+import {
+  StepExecution,
+  WebhookInvocation,
+  WebhookInvocationStatus,
+  WorkflowExecution,
+  WorkflowWebhook,
+} from '../types';
+
+// Header carrying "sha256=<hex HMAC of "<timestamp>.<raw body>">", with the unix timestamp
+// in its own header; Shopify's base64 header (an HMAC of the body alone) is accepted too
+const SIGNATURE_HEADER = 'x-webhook-signature';
+const TIMESTAMP_HEADER = 'x-webhook-timestamp';
+const SHOPIFY_SIGNATURE_HEADER = 'x-shopify-hmac-sha256';
+// Signed timestamps further than this from the server clock are rejected
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export const MAX_SYNC_TIMEOUT_SECONDS = 300;
+// Background settling waits this long, which leaves time for a person to approve review steps
+const INVOCATION_SETTLE_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+const CALLBACK_TIMEOUT_MS = 15 * 1000;
+const MAX_STORED_PAYLOAD_CHARS = 10000;
+const POLL_INTERVAL_MS = 1000;
+
+export function generateWebhookToken(): string {
+  return crypto.randomBytes(18).toString('base64url');
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+export function computeWebhookSignature(secret: string, timestamp: number | string, body: Buffer | string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.`).update(body).digest('hex');
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+function getHeader(headers: Record<string, string | string[] | undefined>, name: string): string {
+  const value = headers[name];
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+export type SignatureCheck = { valid: true; signature: string } | { valid: false; error: string };
+
+/**
+ * Check the request's HMAC-SHA256 signature against the webhook secret. The
+ * native header signs a timestamp along with the body and is rejected once
+ * the timestamp is stale. On success the verified signature is returned as
+ * hex, so the caller can refuse a request that has already been delivered.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  rawBody: Buffer,
+  headers: Record<string, string | string[] | undefined>,
+  now: number = Date.now()
+): SignatureCheck {
+  const header = getHeader(headers, SIGNATURE_HEADER);
+  if (header) {
+    const timestamp = getHeader(headers, TIMESTAMP_HEADER);
+    if (!/^\d+$/.test(timestamp) || Math.abs(now / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECONDS) {
+      return { valid: false, error: 'Missing or stale timestamp' };
+    }
+    const expected = computeWebhookSignature(secret, timestamp, rawBody);
+    const hex = header.replace(/^sha256=/i, '');
+    if (/^[0-9a-f]+$/i.test(hex) && safeEqual(Buffer.from(hex, 'hex'), Buffer.from(expected, 'hex'))) {
+      return { valid: true, signature: expected };
+    }
+    return { valid: false, error: 'Invalid signature' };
+  }
+
+  const shopifyHeader = getHeader(headers, SHOPIFY_SIGNATURE_HEADER);
+  if (shopifyHeader) {
+    const expected = crypto.createHmac('sha256', secret).update(rawBody).digest();
+    if (safeEqual(Buffer.from(shopifyHeader, 'base64'), expected)) {
+      return { valid: true, signature: expected.toString('hex') };
+    }
+  }
+
+  return { valid: false, error: 'Invalid signature' };
+}
+
+/**
+ * Whether a request with this signature already started a run of the webhook.
+ * Shopify signatures carry no timestamp, so this is what stops them being replayed.
+ */
+export function isReplayedSignature(webhookId: number, signature: string): boolean {
+  return !!getDatabase().prepare(
+    'SELECT 1 FROM webhook_invocations WHERE webhook_id = ? AND signature = ? AND execution_id IS NOT NULL'
+  ).get(webhookId, signature);
+}
+
+/**
+ * Read a dotted path such as "order.line_items.0.title" from a payload.
+ * "$" returns the whole payload.
+ */
+export function getPayloadValue(payload: any, path: string): any {
+  if (path === '$') return payload;
+  let current = payload;
+  for (const key of path.split('.')) {
+    if (current === undefined || current === null) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+function toInputValue(value: any): any {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
+/**
+ * Map a JSON payload onto workflow inputs. Like the transform step's field_map,
+ * the mapping is { sourcePath: inputName }. With no mapping, top-level payload
+ * fields are passed through as inputs of the same name. Static inputs fill in
+ * anything the payload does not provide. Names starting with "__" are dropped,
+ * since the engine reads those as execution controls rather than inputs.
+ */
+export function mapPayloadToInputs(
+  payload: any,
+  mapping: Record<string, string>,
+  staticInputs: Record<string, any> = {}
+): Record<string, any> {
+  const inputs: Record<string, any> = { ...staticInputs };
+
+  if (Object.keys(mapping).length === 0) {
+    if (payload && typeof payload === 'object' && !Array.isArray(payload)) {
+      for (const [key, value] of Object.entries(payload)) {
+        inputs[key] = toInputValue(value);
+      }
+    }
+  } else {
+    for (const [source, target] of Object.entries(mapping)) {
+      const value = getPayloadValue(payload, source);
+      if (value !== undefined) {
+        inputs[target] = toInputValue(value);
+      }
+    }
+  }
+
+  for (const key of Object.keys(inputs)) {
+    if (key.startsWith('__')) delete inputs[key];
+  }
+  return inputs;
+}
+
+function parseJsonObject(value: string | null | undefined): Record<string, any> {
+  try {
+    const parsed = JSON.parse(value || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export interface SettledExecution {
+  executionId: number;
+  status: WebhookInvocationStatus;
+  output: string;
+  error?: string;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Poll an execution until it completes, fails or stops for review. Review
+ * steps are approved (as the user the execution runs as) when `autoApprove`
+ * is set; with `waitForReview` polling goes on while they wait for a person.
+ */
+export async function waitForExecutionToSettle(
+  executionId: number,
+  options: { timeoutMs: number; autoApprove: boolean; waitForReview?: boolean; pollIntervalMs?: number }
+): Promise<SettledExecution> {
+  const started = Date.now();
+  const approvedSteps = new Set<number>();
+  const pollInterval = options.pollIntervalMs ?? POLL_INTERVAL_MS;
+
+  while (Date.now() - started < options.timeoutMs) {
+    const execution = queries.getExecutionById(executionId) as WorkflowExecution | undefined;
+    if (!execution) {
+      return { executionId, status: 'failed', output: '', error: 'Execution record not found' };
+    }
+    const stepExecutions = queries.getStepExecutionsByExecutionId(executionId) as StepExecution[];
+    const failedStep = stepExecutions.find(se => se.status === 'failed');
+
+    if (execution.status === 'completed') {
+      return { executionId, status: 'completed', output: getFinalOutput(stepExecutions) };
+    }
+    if (failedStep || execution.status === 'failed' || execution.status === 'cancelled') {
+      return {
+        executionId,
+        status: 'failed',
+        output: getFinalOutput(stepExecutions),
+        error: failedStep?.error_message || `Execution ${execution.status}`,
+      };
+    }
+
+    const awaiting = stepExecutions.find(se => se.status === 'awaiting_review');
+    if (awaiting) {
+      if (!options.autoApprove) {
+        if (!options.waitForReview) {
+          return { executionId, status: 'awaiting_review', output: getFinalOutput(stepExecutions) };
+        }
+      } else if (!approvedSteps.has(awaiting.id)) {
+        approvedSteps.add(awaiting.id);
+        // approveStep runs the rest of the workflow; keep polling so the timeout still applies
+        approveStep(executionId, awaiting.id, execution.user_id).catch((err: any) => {
+          console.error(`[Webhook] Auto-approve of step ${awaiting.id} failed:`, err?.message || err);
+        });
+      }
+    }
+
+    await sleep(pollInterval);
+  }
+
+  return { executionId, status: 'timed_out', output: '' };
+}
+
+/**
+ * Record an invocation that never started an execution (bad signature, bad payload, ...).
+ */
+export function recordRejectedInvocation(webhookId: number, error: string, payload?: string): void {
+  const now = new Date().toISOString();
+  getDatabase().prepare(`
+    INSERT INTO webhook_invocations (webhook_id, status, payload, error_message, received_at, finished_at)
+    VALUES (?, 'rejected', ?, ?, ?, ?)
+  `).run(webhookId, payload ? payload.slice(0, MAX_STORED_PAYLOAD_CHARS) : null, error, now, now);
+}
+
+/**
+ * Map the payload onto inputs and start an execution of the webhook's
+ * skill/workflow. Throws when the execution cannot be started.
+ */
+export async function triggerWebhook(
+  webhook: WorkflowWebhook,
+  payload: any,
+  signature: string | null = null
+): Promise<{ invocation: WebhookInvocation; inputs: Record<string, any> }> {
+  const db = getDatabase();
+  const receivedAt = new Date().toISOString();
+  const payloadText = JSON.stringify(payload ?? null).slice(0, MAX_STORED_PAYLOAD_CHARS);
+  db.prepare('UPDATE workflow_webhooks SET last_triggered_at = ? WHERE id = ?').run(receivedAt, webhook.id);
+
+  const inputs = mapPayloadToInputs(
+    payload,
+    parseJsonObject(webhook.field_mapping),
+    parseJsonObject(webhook.static_inputs)
+  );
+
+  let executionId: number | null = null;
+  let error: string | null = null;
+  let failure: unknown = null;
+  try {
+    const { parent, steps } = loadGraphParent(webhook.parent_type, webhook.parent_id);
+    if (!parent) {
+      throw new Error(`${webhook.parent_type === 'workflow' ? 'Workflow' : 'Skill'} ${webhook.parent_id} no longer exists`);
+    }
+    if (steps.length === 0) {
+      throw new Error(`${parent.name} has no steps`);
+    }
+
+    const ownerId = authorizeTriggeredRun(webhook.created_by, parent.workspace_id);
+    const { recipeId, syncedSteps } = ensureExecutionRecipeFromGraph(webhook.parent_type, parent, steps);
+    const result = await startExecution(recipeId, ownerId, inputs, syncedSteps);
+    if (!result.success || !result.executionId) {
+      throw new Error(result.error || 'Failed to start execution');
+    }
+    executionId = result.executionId;
+  } catch (err: any) {
+    failure = err;
+    error = err?.message || String(err);
+  }
+
+  const inserted = db.prepare(`
+    INSERT INTO webhook_invocations (webhook_id, execution_id, status, payload, error_message, signature, received_at, finished_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    webhook.id,
+    executionId,
+    error ? 'failed' : 'running',
+    payloadText,
+    error,
+    signature,
+    receivedAt,
+    error ? receivedAt : null
+  );
+
+  if (error) {
+    throw failure instanceof Error ? failure : new Error(error);
+  }
+
+  console.log(`[Webhook] Webhook ${webhook.id} (${webhook.name}) started execution ${executionId}`);
+  const invocation = db.prepare('SELECT * FROM webhook_invocations WHERE id = ?')
+    .get(Number(inserted.lastInsertRowid)) as WebhookInvocation;
+  return { invocation, inputs };
+}
+
+export function finishInvocation(invocationId: number, settled: SettledExecution): void {
+  const finished = settled.status !== 'running' && settled.status !== 'timed_out' && settled.status !== 'awaiting_review';
+  getDatabase().prepare(
+    'UPDATE webhook_invocations SET status = ?, error_message = ?, finished_at = ? WHERE id = ?'
+  ).run(settled.status, settled.error || null, finished ? new Date().toISOString() : null, invocationId);
+}
+
+/**
+ * Body sent to callers, both as a synchronous reply and as the callback payload.
+ */
+export function buildWebhookResult(webhook: WorkflowWebhook, settled: SettledExecution) {
+  return {
+    webhook_id: webhook.id,
+    execution_id: settled.executionId,
+    status: settled.status,
+    output: settled.output,
+    ...(settled.error ? { error: settled.error } : {}),
+  };
+}
+
+/**
+ * Wait in the background for the invocation's execution to finish and record
+ * the outcome in the webhook history, then POST the result to the callback
+ * URL if the webhook has one.
+ */
+export async function settleInvocation(webhook: WorkflowWebhook, invocation: WebhookInvocation): Promise<void> {
+  if (!invocation.execution_id) return;
+  if (webhook.callback_url) {
+    getDatabase().prepare("UPDATE webhook_invocations SET callback_status = 'pending' WHERE id = ?").run(invocation.id);
+  }
+
+  const settled = await waitForExecutionToSettle(invocation.execution_id, {
+    timeoutMs: INVOCATION_SETTLE_TIMEOUT_MS,
+    autoApprove: !!webhook.auto_approve,
+    waitForReview: true,
+  });
+  finishInvocation(invocation.id, settled);
+
+  if (webhook.callback_url) {
+    await deliverCallback(webhook, invocation, settled);
+  }
+}
+
+/**
+ * POST the result to the webhook's callback URL, signed with the webhook secret.
+ */
+async function deliverCallback(webhook: WorkflowWebhook, invocation: WebhookInvocation, settled: SettledExecution): Promise<void> {
+  const db = getDatabase();
+  const body = JSON.stringify(buildWebhookResult(webhook, settled));
+  const timestamp = Math.floor(Date.now() / 1000);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), CALLBACK_TIMEOUT_MS);
+  try {
+    const response = await fetch(webhook.callback_url!, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': `sha256=${computeWebhookSignature(webhook.secret, timestamp, body)}`,
+      },
+      body,
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Callback returned HTTP ${response.status}`);
+    }
+    db.prepare("UPDATE webhook_invocations SET callback_status = 'sent' WHERE id = ?").run(invocation.id);
+  } catch (err: any) {
+    console.error(`[Webhook] Callback for invocation ${invocation.id} failed:`, err?.message || err);
+    db.prepare("UPDATE webhook_invocations SET callback_status = 'failed' WHERE id = ?").run(invocation.id);
+  } finally {
+    clearTimeout(timer);
+  }
+}
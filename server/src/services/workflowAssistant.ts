@@ -1,5 +1,7 @@
 import { callAIByModel, getAvailableModels } from './aiService';
 import { getAllExecutors } from '../executors/registry';
+import { LlmUsageContext } from '../types';
+import { isReviewChangeVariable } from './promptParser';
 
 // Types for the assistant
 export interface ConversationMessage {
@@ -97,13 +99,13 @@ function resolveAssistantModel(requestedModelId?: string): string {
   return requested;
 }
 
-async function buildSystemPrompt(userId: number): Promise<string> {
-  // Gather available skills
-  const { getDatabase } = await import('../models/database');
+async function buildSystemPrompt(workspaceId: number): Promise<string> {
+  // Gather skills available in the workspace
+  const { getDatabase, workspaceVisibilitySql } = await import('../models/database');
   const db = getDatabase();
   const skills = db.prepare(
-    'SELECT id, name, description FROM skills WHERE created_by = ? ORDER BY updated_at DESC'
-  ).all(userId) as Array<{ id: number; name: string; description?: string | null }>;
+    `SELECT id, name, description FROM skills a WHERE ${workspaceVisibilitySql('a', 'skill')} ORDER BY updated_at DESC`
+  ).all(workspaceId, workspaceId) as Array<{ id: number; name: string; description?: string | null }>;
 
   let skillSection = '';
   if (skills.length > 0) {
@@ -202,6 +204,7 @@ ${skillSection}
    - If an existing skill clearly covers a sub-task, reference that sub-task with \`from_skill_id\`.
    - If a skill is only partially relevant, combine skill-derived steps with newly generated steps.
    - Do NOT force the whole workflow into one reused skill when multiple explicit sub-tasks are requested.
+   - To run an existing skill unchanged as one step, use a "skill" step with \`executor_config\` \`{"target_type": "skill", "target_id": <id>, "inputs": {"<its input>": "{{...}}"}}\` instead of copying its steps.
 
 3. **When the user describes a goal**, analyze it and either:
    - Ask clarifying questions if the goal is too vague
@@ -724,7 +727,8 @@ function buildEmergencyWorkflowMessages(messages: ConversationMessage[]): Assist
 
 async function forceGenerateWorkflowJson(
   messages: ConversationMessage[],
-  modelId: string
+  modelId: string,
+  usage: LlmUsageContext
 ): Promise<AssistantResponse | null> {
   const latestUserMessage = [...messages].reverse().find((msg) => msg.role === 'user')?.content || '';
   const chinese = isLikelyChinese(latestUserMessage);
@@ -760,6 +764,7 @@ Rules:
     maxTokens: 12000,
     systemMessage: emergencySystemPrompt,
     messages: buildEmergencyWorkflowMessages(messages),
+    usage,
   });
 
   if (!forcedResponse.success) return null;
@@ -817,7 +822,8 @@ async function resolveSkillRequestIfNeeded(
   apiMessages: AssistantApiMessage[],
   assistantContent: string,
   modelId: string,
-  systemPrompt: string
+  systemPrompt: string,
+  usage: LlmUsageContext
 ): Promise<AssistantResponse> {
   if (!hasSkillRequest(parsed)) return parsed;
 
@@ -866,6 +872,7 @@ async function resolveSkillRequestIfNeeded(
     maxTokens: 16000,
     systemMessage: systemPrompt,
     messages: followUpMessages,
+    usage,
   });
 
   if (!secondResponse.success) {
@@ -958,7 +965,8 @@ function parseAssistantResponse(content: string): AssistantResponse {
 export async function generateWorkflow(
   messages: ConversationMessage[],
   userId: number,
-  requestedModelId?: string
+  requestedModelId?: string,
+  workspaceId?: number
 ): Promise<AssistantResponse> {
   if (!messages.length) {
     return {
@@ -972,7 +980,10 @@ export async function generateWorkflow(
   }
 
   const modelId = resolveAssistantModel(requestedModelId);
-  const systemPrompt = await buildSystemPrompt(userId);
+  const { ensurePersonalWorkspace } = await import('../models/database');
+  const activeWorkspaceId = workspaceId ?? ensurePersonalWorkspace(userId);
+  const systemPrompt = await buildSystemPrompt(activeWorkspaceId);
+  const usage: LlmUsageContext = { userId, workspaceId: activeWorkspaceId, source: 'assistant' };
 
   // Build multi-turn messages, with a format reminder on the last user message
   const apiMessages: AssistantApiMessage[] = messages.map((msg, i) => {
@@ -991,6 +1002,7 @@ export async function generateWorkflow(
     maxTokens: 16000,
     systemMessage: systemPrompt,
     messages: apiMessages,
+    usage,
   });
 
   if (!response.success) {
@@ -999,7 +1011,7 @@ export async function generateWorkflow(
 
   let parsed = parseAssistantResponse(response.content);
   const initialHadSkillRequest = hasSkillRequest(parsed);
-  parsed = await resolveSkillRequestIfNeeded(parsed, apiMessages, response.content, modelId, systemPrompt);
+  parsed = await resolveSkillRequestIfNeeded(parsed, apiMessages, response.content, modelId, systemPrompt, usage);
 
   if (!parsed.workflow && !hasSkillRequest(parsed) && !initialHadSkillRequest) {
     console.warn('[WorkflowAssistant] No workflow JSON extracted from AI response. Response length:', response.content.length,
@@ -1025,11 +1037,12 @@ Do NOT say "wait a moment" or "I will generate later". Produce the final result
       maxTokens: 12000,
       systemMessage: systemPrompt,
       messages: repairMessages,
+      usage,
     });
 
     if (repairResponse.success) {
       let repaired = parseAssistantResponse(repairResponse.content);
-      repaired = await resolveSkillRequestIfNeeded(repaired, repairMessages, repairResponse.content, modelId, systemPrompt);
+      repaired = await resolveSkillRequestIfNeeded(repaired, repairMessages, repairResponse.content, modelId, systemPrompt, usage);
       if (repaired.workflow || hasSkillRequest(repaired)) {
         return repaired;
       }
@@ -1039,7 +1052,7 @@ Do NOT say "wait a moment" or "I will generate later". Produce the final result
       console.warn('[WorkflowAssistant] Workflow repair pass failed:', repairResponse.error || 'unknown error');
     }
 
-    const emergency = await forceGenerateWorkflowJson(messages, modelId);
+    const emergency = await forceGenerateWorkflowJson(messages, modelId, usage);
     if (emergency?.workflow) {
       console.warn('[WorkflowAssistant] Recovered workflow JSON via emergency compiler pass.');
       return emergency;
@@ -1056,7 +1069,8 @@ Do NOT say "wait a moment" or "I will generate later". Produce the final result
 export async function saveWorkflowGraph(
   workflow: GeneratedWorkflow,
   userId: number,
-  asSkill: boolean = false
+  asSkill: boolean = false,
+  workspaceId?: number
 ): Promise<{ entityType: 'skill' | 'workflow'; skillId?: number; workflowId?: number; createdSkillIds?: number[] }> {
   if (asSkill) {
     const hasUnsupportedSkillStepType = (workflow.steps || []).some(
@@ -1067,13 +1081,14 @@ export async function saveWorkflowGraph(
     }
   }
 
-  const { getDatabase } = await import('../models/database');
+  const { getDatabase, ensurePersonalWorkspace } = await import('../models/database');
   const db = getDatabase();
+  const targetWorkspaceId = workspaceId ?? ensurePersonalWorkspace(userId);
 
   const parentType: 'skill' | 'workflow' = asSkill ? 'skill' : 'workflow';
   const parentTable = asSkill ? 'skills' : 'workflows';
   const parentInsert = db.prepare(
-    `INSERT INTO ${parentTable} (name, description, created_by, tags) VALUES (?, ?, ?, ?)`
+    `INSERT INTO ${parentTable} (name, description, created_by, workspace_id, tags) VALUES (?, ?, ?, ?, ?)`
   );
   const getSkillStep = db.prepare(
     "SELECT * FROM skill_steps WHERE parent_id = ? AND parent_type = 'skill' AND step_order = ?"
@@ -1142,7 +1157,7 @@ export async function saveWorkflowGraph(
         const name = String(m[1] || '').trim();
         if (!name) continue;
         if (/^step_\d+_output(?:\..+)?$/i.test(name)) continue;
-        if (SYSTEM_VARIABLES.has(name.toLowerCase())) continue;
+        if (SYSTEM_VARIABLES.has(name.toLowerCase()) || isReviewChangeVariable(name)) continue;
         out.add(name);
       }
       return out;
@@ -1285,12 +1300,13 @@ export async function saveWorkflowGraph(
         if (!blueprint.steps || blueprint.steps.length === 0) continue;
 
         const skillInsert = db.prepare(
-          'INSERT INTO skills (name, description, created_by, tags) VALUES (?, ?, ?, ?)'
+          'INSERT INTO skills (name, description, created_by, workspace_id, tags) VALUES (?, ?, ?, ?, ?)'
         );
         const inserted = skillInsert.run(
           blueprint.name || `Generated Skill ${i + 1}`,
           blueprint.description || null,
           userId,
+          targetWorkspaceId,
           JSON.stringify(blueprint.tags || [])
         );
         const createdSkillId = Number(inserted.lastInsertRowid);
@@ -1304,6 +1320,7 @@ export async function saveWorkflowGraph(
       workflow.name,
       workflow.description || null,
       userId,
+      targetWorkspaceId,
       JSON.stringify([])
     );
     const parentId = Number(parentResult.lastInsertRowid);
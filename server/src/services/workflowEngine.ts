@@ -1,7 +1,20 @@
 import { queries } from '../models/database';
 import { getExecutor } from '../executors/registry';
-import { StepExecutorContext } from '../executors/StepExecutor';
+import { StepExecutor, StepExecutorContext, StepExecutorResult } from '../executors/StepExecutor';
+import { BranchDecision } from '../executors/ConditionExecutor';
+import { parseParallelConfig } from '../executors/ParallelExecutor';
 import { executionEvents } from './executionEvents';
+import { isReviewChangeVariable } from './promptParser';
+import { parseBridgeMarker } from './executionBridge';
+import { resolveRecipeSkillVersion } from './skillVersions';
+import { runWithRetryPolicy, parseStepAttempts, RetryNotice } from './stepRetry';
+import { computeStepCacheKey, lookupStepCache, parseCachePolicy, storeStepCache } from './stepCache';
+import {
+  buildReviewOutput,
+  openStepReview,
+  parseReviewRequest,
+  validateReviewSubmission,
+} from './humanReview';
 import {
   WorkflowExecution,
   StepExecution,
@@ -9,10 +22,19 @@ import {
   ExecutionStatus,
   StepExecutionStatus,
   StepType,
+  ReviewRequest,
+  ReviewSubmission,
+  User,
 } from '../types';
 
 // Step types that auto-run (no human approval needed)
-const AUTO_RUN_STEP_TYPES: StepType[] = ['ai', 'script', 'http', 'transform'];
+export const AUTO_RUN_STEP_TYPES: StepType[] = ['ai', 'script', 'http', 'transform', 'condition', 'parallel', 'foreach', 'skill', 'reviews'];
+
+// Auto-run step types that read live sites; tests and evaluations stub or skip them
+export const LIVE_STEP_TYPES: StepType[] = ['reviews'];
+
+// Control-flow step types that cannot be nested inside a parallel group
+const CONTROL_FLOW_STEP_TYPES: StepType[] = ['condition', 'parallel'];
 
 export interface ExecutionResult {
   success: boolean;
@@ -23,6 +45,26 @@ export interface ExecutionResult {
   error?: string;
 }
 
+export interface StartExecutionOptions {
+  // Reuse cached results for every step before this one, run the rest fresh
+  replayFromStep?: number;
+  // Start from a copy of another run's results up to and including a step
+  fork?: ExecutionForkPoint;
+  // The `skill` step this run was started by
+  parent?: { executionId: number; stepExecutionId: number };
+  // Set to false when the steps were changed for this run only, so they match no saved version
+  recordVersion?: boolean;
+  // Canned outputs by step order; those steps complete with them instead of running
+  stubs?: Record<number, string>;
+}
+
+export interface ExecutionForkPoint {
+  executionId: number;
+  stepOrder: number;
+  // Replaces the copied output of the fork step
+  content?: string;
+}
+
 export interface StepExecutionResult {
   stepId: number;
   stepOrder: number;
@@ -37,7 +79,8 @@ export async function startExecution(
   recipeId: number,
   userId: number,
   inputData: Record<string, any>,
-  customSteps?: RecipeStep[]
+  customSteps?: RecipeStep[],
+  options: StartExecutionOptions = {}
 ): Promise<ExecutionResult> {
   // Get recipe steps - use custom steps if provided, otherwise fetch from database
   let steps: RecipeStep[];
@@ -81,11 +124,10 @@ export async function startExecution(
     );
   }
 
-  // Create execution record - store custom steps in the execution if provided
-  const executionData = customSteps ? {
-    ...inputData,
-    __customSteps: customSteps
-  } : inputData;
+  // Create execution record - store custom steps and replay mode in the execution if provided
+  const executionData: Record<string, any> = { ...inputData };
+  if (customSteps) executionData.__customSteps = customSteps;
+  if (options.replayFromStep) executionData.__replayFromStep = options.replayFromStep;
 
   const execResult = queries.createExecution(
     recipeId,
@@ -104,6 +146,20 @@ export async function startExecution(
     );
   }
 
+  const skillVersion = options.recordVersion === false ? null : resolveRecipeSkillVersion(recipeId);
+  if (skillVersion) {
+    queries.setExecutionSkillVersion(skillVersion.id, executionId);
+  }
+  if (options.parent) {
+    queries.setExecutionParent(options.parent.executionId, options.parent.stepExecutionId, executionId);
+  }
+  if (options.fork) {
+    seedForkedSteps(executionId, userId, options.fork, steps);
+  }
+  if (options.stubs) {
+    seedStubbedSteps(executionId, options.stubs);
+  }
+
   // Fire-and-forget: always run execution in background so frontend can navigate immediately
   executeWorkflowWithSteps(executionId, userId, inputData, steps).catch(err => {
     console.error(`[WorkflowEngine] Background execution ${executionId} error:`, err);
@@ -124,6 +180,70 @@ export async function startExecution(
   };
 }
 
+/**
+ * Why a run cannot be forked at `stepOrder`, or null if it can. Every step up
+ * to the fork point must have finished, since their results are copied.
+ */
+export function validateForkPoint(executionId: number, stepOrder: number): string | null {
+  const stepExecutions = queries.getStepExecutionsByExecutionId(executionId) as StepExecution[];
+  const forkStep = stepExecutions.find(se => se.step_order === stepOrder);
+  if (!forkStep) return `Step ${stepOrder} not found in execution ${executionId}`;
+  if (forkStep.status !== 'completed') return `Step ${stepOrder} has not completed`;
+
+  const unfinished = stepExecutions.find(
+    se => se.step_order < stepOrder && se.status !== 'completed' && se.status !== 'skipped'
+  );
+  return unfinished ? `Step ${unfinished.step_order} has not completed` : null;
+}
+
+// Copy the original run's results up to the fork point; the run continues after it.
+// Copied condition steps skip the same later steps they skipped in the original.
+function seedForkedSteps(
+  executionId: number,
+  userId: number,
+  fork: ExecutionForkPoint,
+  steps: RecipeStep[]
+): void {
+  const originals = queries.getStepExecutionsByExecutionId(fork.executionId) as StepExecution[];
+  const copies = queries.getStepExecutionsByExecutionId(executionId) as StepExecution[];
+
+  for (const copy of copies) {
+    if (copy.step_order > fork.stepOrder) continue;
+    const original = originals.find(se => se.step_order === copy.step_order);
+    if (!original) continue;
+
+    let data: Record<string, any> = {};
+    try {
+      data = original.output_data ? JSON.parse(original.output_data) : {};
+    } catch {
+      // Plain-text output
+    }
+    let outputData = original.output_data ?? null;
+    if (copy.step_order === fork.stepOrder && fork.content !== undefined) {
+      outputData = JSON.stringify({ ...data, content: fork.content, edited_by: userId });
+    }
+    queries.updateStepExecution(original.status, outputData, original.ai_model_used ?? null, original.prompt_used ?? null, copy.id);
+    queries.approveStepExecution(!!original.approved, original.status, copy.id);
+    if (original.status === 'completed') {
+      applyBranchDecision(executionId, copy.step_order, data.branch, steps);
+    }
+  }
+
+  queries.setExecutionFork(fork.executionId, fork.stepOrder, executionId);
+  queries.updateExecutionStatus('running', fork.stepOrder, executionId);
+}
+
+// Complete stubbed steps up front; the run picks up the steps still pending
+function seedStubbedSteps(executionId: number, stubs: Record<number, string>): void {
+  const stepExecutions = queries.getStepExecutionsByExecutionId(executionId) as StepExecution[];
+  for (const stepExecution of stepExecutions) {
+    const content = stubs[stepExecution.step_order];
+    if (content === undefined) continue;
+    queries.updateStepExecution('completed', JSON.stringify({ content, stubbed: true }), 'stub', null, stepExecution.id);
+    queries.approveStepExecution(true, 'completed', stepExecution.id);
+  }
+}
+
 // Extract required inputs from steps
 function extractRequiredInputsFromSteps(steps: RecipeStep[]): string[] {
   const inputs = new Set<string>();
@@ -194,7 +314,7 @@ function extractRequiredInputsFromSteps(steps: RecipeStep[]): string[] {
             || isOptionalByPromptHint(stepPrompt || '', name)
           );
           if (isOptional) continue;
-          if (isStepOutputReference(name) || isCompanyStandardVariable(name)) continue;
+          if (isStepOutputReference(name) || isCompanyStandardVariable(name) || isReviewChangeVariable(name)) continue;
           inputs.add(name);
         }
         return true;
@@ -213,7 +333,7 @@ function extractRequiredInputsFromSteps(steps: RecipeStep[]): string[] {
             || isOptionalByPromptHint(stepPrompt || '', name)
           );
           if (isOptional) continue;
-          if (isStepOutputReference(name) || isCompanyStandardVariable(name)) continue;
+          if (isStepOutputReference(name) || isCompanyStandardVariable(name) || isReviewChangeVariable(name)) continue;
           inputs.add(name);
         }
         return true;
@@ -243,6 +363,7 @@ function extractRequiredInputsFromSteps(steps: RecipeStep[]): string[] {
         // Skip step outputs and company standards
         if (!isStepOutputReference(varName) &&
           !isCompanyStandardVariable(varName) &&
+          !isReviewChangeVariable(varName) &&
           !isOptionalByPromptHint(template, varName)) {
           inputs.add(varName);
         }
@@ -251,6 +372,20 @@ function extractRequiredInputsFromSteps(steps: RecipeStep[]): string[] {
   return Array.from(inputs);
 }
 
+// Bridged recipes carry the workspace and identity of the skill/workflow they run
+function getExecutionScope(
+  execution: WorkflowExecution
+): Pick<StepExecutorContext, 'workspaceId' | 'skillId' | 'workflowId'> {
+  const recipe = queries.getRecipeById(execution.recipe_id) as
+    { workspace_id?: number | null; description?: string | null } | undefined;
+  const parent = parseBridgeMarker(recipe?.description);
+  return {
+    workspaceId: recipe?.workspace_id ?? null,
+    skillId: parent?.parentType === 'skill' ? parent.parentId : null,
+    workflowId: parent?.parentType === 'workflow' ? parent.parentId : null,
+  };
+}
+
 // Execute the workflow with provided steps
 async function executeWorkflowWithSteps(
   executionId: number,
@@ -347,6 +482,7 @@ async function executeWorkflowWithSteps(
 
   const executorContext: StepExecutorContext = {
     userId,
+    ...getExecutionScope(execution),
     executionId,
     stepExecution: nextStepExecution,
     userInputs,
@@ -355,9 +491,10 @@ async function executeWorkflowWithSteps(
   };
 
   try {
-    const result = await executor.execute(step, executorContext);
+    const result = await runStepWithCache(step, stepType, executor, executorContext, steps);
 
     if (!result.success) {
+      storeFailedStepOutput(nextStepExecution.id, result, executor);
       queries.setStepExecutionError('failed', result.error || 'Step execution failed', nextStepExecution.id);
       queries.updateExecutionStatus('paused', step.step_order, executionId);
 
@@ -396,24 +533,29 @@ async function executeWorkflowWithSteps(
       ...result.metadata,
     });
 
-    // Emit step-output
-    const outputMsg = executionEvents.createMessage({
-      executionId,
-      stepOrder: step.step_order,
-      stepName: step.step_name,
-      stepType,
-      type: 'step-output',
-      role: 'system',
-      content: result.content,
-      metadata: {
-        model: result.modelUsed,
-        usage: result.metadata?.usage,
-        images: result.metadata?.generatedImages,
-        isJson: result.metadata?.isJson || step.output_format === 'json',
-        stepExecutionId: nextStepExecution.id,
-      },
-    });
-    executionEvents.emit(executionId, outputMsg);
+    // Emit step-output; a human step's request is shown by its action-required message
+    const review = result.metadata?.review as ReviewRequest | undefined;
+    if (!review) {
+      const outputMsg = executionEvents.createMessage({
+        executionId,
+        stepOrder: step.step_order,
+        stepName: step.step_name,
+        stepType,
+        type: 'step-output',
+        role: 'system',
+        content: result.content,
+        metadata: {
+          model: result.modelUsed,
+          usage: result.metadata?.usage,
+          images: result.metadata?.generatedImages,
+          isJson: result.metadata?.isJson || step.output_format === 'json',
+          cached: result.metadata?.cached,
+          cachedAt: result.metadata?.cachedAt,
+          stepExecutionId: nextStepExecution.id,
+        },
+      });
+      executionEvents.emit(executionId, outputMsg);
+    }
 
     // Auto-run logic: non-interactive steps auto-approve and continue
     if (AUTO_RUN_STEP_TYPES.includes(stepType)) {
@@ -439,11 +581,14 @@ async function executeWorkflowWithSteps(
       });
       executionEvents.emit(executionId, approvedMsg);
 
+      // Condition steps may jump ahead, skipping the steps in between
+      applyBranchDecision(executionId, step.step_order, result.metadata?.branch, steps);
+
       // Continue to next step
       return executeWorkflowWithSteps(executionId, userId, userInputs, steps);
     }
 
-    // Interactive steps (scraping, manus) — pause for review
+    // Interactive steps (scraping, manus) and human steps — pause for review
     queries.updateStepExecution(
       'awaiting_review',
       outputData,
@@ -453,6 +598,11 @@ async function executeWorkflowWithSteps(
     );
     queries.updateExecutionStatus('paused', step.step_order, executionId);
 
+    // Human steps are assigned and their reviewer notified
+    const assignment = review
+      ? openStepReview(executionId, nextStepExecution.id, step.step_name, review)
+      : undefined;
+
     // Emit action-required
     const actionMsg = executionEvents.createMessage({
       executionId,
@@ -461,9 +611,12 @@ async function executeWorkflowWithSteps(
       stepType,
       type: 'action-required',
       role: 'system',
-      content: 'Step complete. Please review and approve or reject.',
+      content: review ? review.instructions : 'Step complete. Please review and approve or reject.',
       metadata: {
-        actionType: 'approve',
+        actionType: review?.kind === 'ask_user' ? 'form' : 'approve',
+        review,
+        assignedTo: assignment?.assignedTo,
+        dueAt: assignment?.dueAt,
         stepExecutionId: nextStepExecution.id,
       },
     });
@@ -524,6 +677,275 @@ async function executeWorkflowWithSteps(
   }
 }
 
+// Serve a step from the result cache when it opts in, or when the execution
+// replays the steps before a later one; otherwise run it and cache the result.
+async function runStepWithCache(
+  step: RecipeStep,
+  stepType: string,
+  executor: StepExecutor,
+  context: StepExecutorContext,
+  steps: RecipeStep[]
+): Promise<StepExecutorResult> {
+  const cacheKey = computeStepCacheKey(step, stepType, context);
+  if (!cacheKey) {
+    return runStepWithRetries(step, stepType, executor, context, steps);
+  }
+
+  const policy = parseCachePolicy(step);
+  const execution = queries.getExecutionById(context.executionId) as WorkflowExecution | undefined;
+  const { replayFromStep } = execution ? getExecutionInputs(execution) : { replayFromStep: undefined };
+  const reuse = replayFromStep !== undefined ? step.step_order < replayFromStep : policy.enabled;
+
+  if (reuse) {
+    const hit = lookupStepCache(cacheKey);
+    if (hit) {
+      const { cachedAt, ...result } = hit;
+      return { ...result, metadata: { ...result.metadata, cached: true, cachedAt } };
+    }
+  }
+
+  const result = await runStepWithRetries(step, stepType, executor, context, steps);
+  storeStepCache(cacheKey, context.workspaceId, stepType, result, policy.ttl_seconds);
+  return result;
+}
+
+// Run a step under its retry policy (and fallback models for AI steps),
+// recording each attempt on the step execution and announcing retries.
+async function runStepWithRetries(
+  step: RecipeStep,
+  stepType: string,
+  executor: StepExecutor,
+  context: StepExecutorContext,
+  steps: RecipeStep[]
+): Promise<StepExecutorResult> {
+  const stepExecutionId = context.stepExecution.id;
+  const { result } = await runWithRetryPolicy(
+    step,
+    stepType,
+    (stepToRun) => runStepWithExecutor(stepToRun, executor, context, steps),
+    {
+      previousAttempts: parseStepAttempts(context.stepExecution.attempts),
+      onAttempt: (attempts) => queries.setStepExecutionAttempts(JSON.stringify(attempts), stepExecutionId),
+      onRetry: (notice) => emitStepRetry(context.executionId, step, stepType, stepExecutionId, notice),
+    }
+  );
+  return result;
+}
+
+function emitStepRetry(
+  executionId: number,
+  step: RecipeStep,
+  stepType: string,
+  stepExecutionId: number,
+  notice: RetryNotice
+): void {
+  const { attempt, nextModel, delayMs } = notice;
+  const switchingModel = !!nextModel && nextModel !== attempt.model;
+  const next = switchingModel ? ` with ${nextModel}` : '';
+  const wait = delayMs > 0 ? ` in ${Math.round(delayMs / 100) / 10}s` : '';
+
+  executionEvents.emit(executionId, executionEvents.createMessage({
+    executionId,
+    stepOrder: step.step_order,
+    stepName: step.step_name,
+    stepType,
+    type: 'step-retry',
+    role: 'system',
+    content: `Attempt ${attempt.attempt} failed (${attempt.error_class}): ${attempt.error}. Retrying${next}${wait}...`,
+    metadata: {
+      stepExecutionId,
+      attempt: attempt.attempt,
+      errorClass: attempt.error_class,
+      model: nextModel,
+      delayMs,
+    },
+  }));
+}
+
+// Dispatch a step to its executor. Parallel groups first run their branch
+// steps concurrently, then the parallel executor joins the branch outputs.
+async function runStepWithExecutor(
+  step: RecipeStep,
+  executor: StepExecutor,
+  context: StepExecutorContext,
+  steps: RecipeStep[]
+): Promise<StepExecutorResult> {
+  if (executor.type !== 'parallel') {
+    return executor.execute(step, context);
+  }
+
+  const branchError = await runParallelBranches(step, context, steps);
+  if (branchError) {
+    return { success: false, content: '', error: branchError };
+  }
+
+  const refreshed = queries.getStepExecutionsByExecutionId(context.executionId) as StepExecution[];
+  return executor.execute(step, {
+    ...context,
+    completedStepExecutions: refreshed.filter(se => se.status === 'completed'),
+  });
+}
+
+// Keep partial output from a failed step (e.g. for-each items that did succeed)
+// so a retry can pick up where it left off.
+function storeFailedStepOutput(stepExecutionId: number, result: StepExecutorResult, executor: StepExecutor): void {
+  if (!result.content) return;
+  queries.updateStepExecution(
+    'failed',
+    JSON.stringify({ content: result.content, ...result.metadata }),
+    result.modelUsed || executor.type,
+    result.promptUsed || '',
+    stepExecutionId
+  );
+}
+
+// Run every unfinished branch of a parallel group at the same time.
+// Returns a combined error message if any branch failed.
+async function runParallelBranches(
+  parallelStep: RecipeStep,
+  context: StepExecutorContext,
+  steps: RecipeStep[]
+): Promise<string | null> {
+  const { branches } = parseParallelConfig(parallelStep);
+  const stepExecutions = queries.getStepExecutionsByExecutionId(context.executionId) as StepExecution[];
+  const failures: string[] = [];
+
+  await Promise.all(branches.map(async (order) => {
+    const branchExecution = stepExecutions.find(se => se.step_order === order);
+    const branchStep = steps.find(s => s.step_order === order);
+    if (!branchExecution || !branchStep) {
+      failures.push(`step ${order}: step not found`);
+      return;
+    }
+    if (branchExecution.status === 'completed') return;
+
+    const error = await runParallelBranch(branchStep, branchExecution, context);
+    if (error) failures.push(`step ${order}: ${error}`);
+  }));
+
+  return failures.length > 0
+    ? `Parallel branch failed (${failures.sort().join('; ')})`
+    : null;
+}
+
+// Run a single parallel branch step, recording its own status and events.
+async function runParallelBranch(
+  step: RecipeStep,
+  stepExecution: StepExecution,
+  groupContext: StepExecutorContext
+): Promise<string | null> {
+  const { executionId } = groupContext;
+  const rawStepType = step.step_type || 'ai';
+  const stepType = rawStepType === 'scraping' ? 'browser' : rawStepType;
+
+  const fail = (error: string): string => {
+    queries.setStepExecutionError('failed', error, stepExecution.id);
+    executionEvents.emit(executionId, executionEvents.createMessage({
+      executionId,
+      stepOrder: step.step_order,
+      stepName: step.step_name,
+      stepType,
+      type: 'step-error',
+      role: 'system',
+      content: error,
+      metadata: { stepExecutionId: stepExecution.id },
+    }));
+    return error;
+  };
+
+  if (CONTROL_FLOW_STEP_TYPES.includes(stepType) || !AUTO_RUN_STEP_TYPES.includes(stepType)) {
+    return fail(`Step type "${stepType}" cannot run inside a parallel group`);
+  }
+
+  executionEvents.emit(executionId, executionEvents.createMessage({
+    executionId,
+    stepOrder: step.step_order,
+    stepName: step.step_name,
+    stepType,
+    type: 'step-start',
+    role: 'system',
+    content: `Starting step ${step.step_order}: ${step.step_name} (parallel)`,
+  }));
+  queries.updateStepExecution('running', null, null, null, stepExecution.id);
+
+  const executor = getExecutor(stepType) || getExecutor('ai')!;
+
+  try {
+    const result = await runStepWithCache(step, stepType, executor, { ...groupContext, stepExecution }, []);
+    if (!result.success) {
+      storeFailedStepOutput(stepExecution.id, result, executor);
+      return fail(result.error || 'Step execution failed');
+    }
+
+    const outputData = JSON.stringify({
+      content: result.content,
+      ...result.metadata,
+    });
+    queries.updateStepExecution(
+      'completed',
+      outputData,
+      result.modelUsed || executor.type,
+      result.promptUsed || '',
+      stepExecution.id
+    );
+    queries.approveStepExecution(true, 'completed', stepExecution.id);
+
+    executionEvents.emit(executionId, executionEvents.createMessage({
+      executionId,
+      stepOrder: step.step_order,
+      stepName: step.step_name,
+      stepType,
+      type: 'step-output',
+      role: 'system',
+      content: result.content,
+      metadata: {
+        model: result.modelUsed,
+        usage: result.metadata?.usage,
+        images: result.metadata?.generatedImages,
+        isJson: result.metadata?.isJson || step.output_format === 'json',
+        cached: result.metadata?.cached,
+        cachedAt: result.metadata?.cachedAt,
+        stepExecutionId: stepExecution.id,
+      },
+    }));
+    return null;
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : 'Step execution failed');
+  }
+}
+
+// Skip the pending steps between a condition step and its branch target.
+function applyBranchDecision(
+  executionId: number,
+  fromStepOrder: number,
+  branch: BranchDecision | undefined,
+  steps: RecipeStep[]
+): void {
+  if (!branch || branch.target === undefined) return;
+
+  const upperBound = branch.target === 'end' ? Number.POSITIVE_INFINITY : branch.target;
+  if (upperBound <= fromStepOrder + 1) return;
+
+  const stepExecutions = queries.getStepExecutionsByExecutionId(executionId) as StepExecution[];
+  for (const se of stepExecutions) {
+    if (se.status !== 'pending') continue;
+    if (se.step_order <= fromStepOrder || se.step_order >= upperBound) continue;
+
+    queries.skipStepExecution(se.id);
+    const skippedStep = steps.find(s => s.id === se.step_id) || steps.find(s => s.step_order === se.step_order);
+    executionEvents.emit(executionId, executionEvents.createMessage({
+      executionId,
+      stepOrder: se.step_order,
+      stepName: skippedStep?.step_name || `Step ${se.step_order}`,
+      stepType: skippedStep?.step_type || 'ai',
+      type: 'step-skipped',
+      role: 'system',
+      content: `Skipped step ${se.step_order} (condition was ${branch.result ? 'true' : 'false'})`,
+      metadata: { stepExecutionId: se.id },
+    }));
+  }
+}
+
 // Execute the workflow from current step (legacy - fetches steps from DB)
 async function executeWorkflow(
   executionId: number,
@@ -565,11 +987,13 @@ async function executeWorkflow(
   return executeWorkflowWithSteps(executionId, userId, userInputs, steps);
 }
 
-// Approve a step and continue execution
+// Approve a step and continue execution. Human steps take the reviewer's
+// answers and may replace the previous step's output.
 export async function approveStep(
   executionId: number,
   stepExecutionId: number,
-  userId: number
+  userId: number,
+  submission: ReviewSubmission = {}
 ): Promise<ExecutionResult> {
   const execution = queries.getExecutionById(executionId) as WorkflowExecution;
   const stepExecution = queries.getStepExecutionById(stepExecutionId) as StepExecution;
@@ -596,11 +1020,30 @@ export async function approveStep(
     };
   }
 
+  const step = queries.getStepById(stepExecution.step_id) as RecipeStep;
+  const review = parseReviewRequest(stepExecution);
+  if (review) {
+    const errors = stepExecution.status === 'awaiting_review'
+      ? validateReviewSubmission(review, submission)
+      : ['Step is not waiting for review'];
+    if (errors.length > 0) {
+      return {
+        success: false,
+        executionId,
+        status: execution.status,
+        currentStep: stepExecution.step_order,
+        stepResults: [],
+        error: errors.join('; '),
+      };
+    }
+    applyReviewSubmission(executionId, stepExecution, step?.step_name || 'Unknown', review, submission, userId);
+  }
+
   // Mark step as approved and completed
   queries.approveStepExecution(true, 'completed', stepExecutionId);
 
   // Emit step-approved
-  const step = queries.getStepById(stepExecution.step_id) as RecipeStep;
+  const reviewer = review ? queries.getUserById(userId) as User | undefined : undefined;
   const approvedMsg = executionEvents.createMessage({
     executionId,
     stepOrder: stepExecution.step_order,
@@ -608,43 +1051,152 @@ export async function approveStep(
     stepType: step?.step_type || 'ai',
     type: 'step-approved',
     role: 'system',
-    content: 'Step approved, continuing...',
+    content: reviewer ? `Approved by ${reviewer.email}, continuing...` : 'Step approved, continuing...',
   });
   executionEvents.emit(executionId, approvedMsg);
 
-  // Get user inputs and custom steps from execution
+  // A retried condition step carries its branch decision in the stored output
+  if (stepExecution.output_data) {
+    try {
+      const output = JSON.parse(stepExecution.output_data);
+      if (output?.branch) {
+        applyBranchDecision(executionId, stepExecution.step_order, output.branch, step ? [step] : []);
+      }
+    } catch {
+      // Not JSON; nothing to branch on
+    }
+  }
+
+  return continueExecution(execution, userId);
+}
+
+// Store a reviewer's answers as the human step's output, first replacing the
+// previous step's output when the reviewer corrected it.
+function applyReviewSubmission(
+  executionId: number,
+  stepExecution: StepExecution,
+  stepName: string,
+  review: ReviewRequest,
+  submission: ReviewSubmission,
+  userId: number
+): void {
+  const previous = review.previous_step_order !== undefined
+    ? (queries.getStepExecutionsByExecutionId(executionId) as StepExecution[])
+      .find(se => se.step_order === review.previous_step_order)
+    : undefined;
+
+  if (previous && submission.previous_output !== undefined && submission.previous_output !== review.previous_output) {
+    let data: Record<string, any> = {};
+    try {
+      data = JSON.parse(previous.output_data || '{}') || {};
+    } catch {
+      // Replace unparseable output wholesale
+    }
+    queries.setStepExecutionOutput(
+      JSON.stringify({ ...data, content: submission.previous_output, edited_by: userId }),
+      previous.id
+    );
+    const previousStep = queries.getStepById(previous.step_id) as RecipeStep | undefined;
+    executionEvents.emit(executionId, executionEvents.createMessage({
+      executionId,
+      stepOrder: previous.step_order,
+      stepName: previousStep?.step_name || `Step ${previous.step_order}`,
+      stepType: previousStep?.step_type || 'ai',
+      type: 'step-output',
+      role: 'system',
+      content: submission.previous_output,
+      metadata: { edited: true, stepExecutionId: previous.id },
+    }));
+  }
+
+  const output = buildReviewOutput(review, submission, userId);
+  queries.setStepExecutionOutput(JSON.stringify(output), stepExecution.id);
+  queries.clearStepReviewDeadline(stepExecution.id);
+  executionEvents.emit(executionId, executionEvents.createMessage({
+    executionId,
+    stepOrder: stepExecution.step_order,
+    stepName,
+    stepType: review.kind,
+    type: 'step-output',
+    role: 'system',
+    content: output.content,
+    metadata: { isJson: !!output.isJson, stepExecutionId: stepExecution.id },
+  }));
+}
+
+// Get user inputs and custom steps stored on an execution
+export function getExecutionInputs(execution: WorkflowExecution): {
+  userInputs: Record<string, any>;
+  customSteps?: RecipeStep[];
+  replayFromStep?: number;
+} {
   let userInputs: Record<string, any> = {};
   let customSteps: RecipeStep[] | undefined;
+  let replayFromStep: number | undefined;
   if (execution.input_data) {
     try {
       const data = JSON.parse(execution.input_data as string);
       // Extract custom steps if present
       if (data.__customSteps) {
-        customSteps = data.__customSteps;
+        customSteps = (data.__customSteps as RecipeStep[]).map((step, index) => ({
+          ...step,
+          id: step.id || -(index + 1),
+          step_order: index + 1,
+        }));
         delete data.__customSteps;
       }
+      if (data.__replayFromStep) {
+        replayFromStep = Number(data.__replayFromStep);
+        delete data.__replayFromStep;
+      }
       userInputs = data;
     } catch {
       // Use empty object if parsing fails
     }
   }
+  return { userInputs, customSteps, replayFromStep };
+}
 
-  // Continue execution with next step - use custom steps if present
+// Get the steps an execution runs with: its stored custom steps (template
+// edits, forks and replays) or else the recipe's current steps
+export function getExecutionSteps(execution: WorkflowExecution): RecipeStep[] {
+  const { customSteps } = getExecutionInputs(execution);
+  return customSteps && customSteps.length > 0
+    ? customSteps
+    : queries.getStepsByRecipeId(execution.recipe_id) as RecipeStep[];
+}
+
+// Continue execution with the next pending step - use custom steps if present
+function continueExecution(execution: WorkflowExecution, userId: number): Promise<ExecutionResult> {
+  const { userInputs, customSteps } = getExecutionInputs(execution);
   if (customSteps && customSteps.length > 0) {
-    const steps = customSteps.map((step, index) => ({
-      ...step,
-      id: step.id || -(index + 1),
-      step_order: index + 1,
-    }));
-    return executeWorkflowWithSteps(executionId, userId, userInputs, steps);
+    return executeWorkflowWithSteps(execution.id, userId, userInputs, customSteps);
+  }
+  return executeWorkflow(execution.id, userId, userInputs);
+}
+
+// Resume an execution from its next pending step (e.g. after a server restart)
+export async function resumeExecution(executionId: number): Promise<ExecutionResult> {
+  const execution = queries.getExecutionById(executionId) as WorkflowExecution | undefined;
+  if (!execution) {
+    return {
+      success: false,
+      executionId,
+      status: 'failed',
+      currentStep: 0,
+      stepResults: [],
+      error: 'Execution not found',
+    };
   }
-  return executeWorkflow(executionId, userId, userInputs);
+  return continueExecution(execution, execution.user_id);
 }
 
-// Reject a step (marks it for retry)
+// Reject a step (marks it for retry). A rejected human step fails like any
+// other step, pausing the run until someone retries it.
 export function rejectStep(
   executionId: number,
-  stepExecutionId: number
+  stepExecutionId: number,
+  comment?: string
 ): { success: boolean; error?: string } {
   const stepExecution = queries.getStepExecutionById(stepExecutionId) as StepExecution;
 
@@ -652,6 +1204,29 @@ export function rejectStep(
     return { success: false, error: 'Step not found or does not belong to this execution' };
   }
 
+  const review = parseReviewRequest(stepExecution);
+  if (review) {
+    if (stepExecution.status !== 'awaiting_review') {
+      return { success: false, error: 'Step is not waiting for review' };
+    }
+    const reason = comment?.trim() ? `Rejected: ${comment.trim()}` : 'Rejected by reviewer';
+    queries.clearStepReviewDeadline(stepExecutionId);
+    queries.setStepExecutionError('failed', reason, stepExecutionId);
+    queries.updateExecutionStatus('paused', stepExecution.step_order, executionId);
+
+    const reviewStep = queries.getStepById(stepExecution.step_id) as RecipeStep | undefined;
+    executionEvents.emit(executionId, executionEvents.createMessage({
+      executionId,
+      stepOrder: stepExecution.step_order,
+      stepName: reviewStep?.step_name || 'Unknown',
+      stepType: review.kind,
+      type: 'step-rejected',
+      role: 'system',
+      content: reason,
+    }));
+    return { success: true };
+  }
+
   // Reset step to pending for retry
   queries.approveStepExecution(false, 'pending', stepExecutionId);
   queries.updateExecutionStatus('paused', stepExecution.step_order - 1, executionId);
@@ -682,7 +1257,11 @@ export async function retryStep(
 ): Promise<ExecutionResult> {
   const execution = queries.getExecutionById(executionId) as WorkflowExecution;
   const stepExecution = queries.getStepExecutionById(stepExecutionId) as StepExecution;
-  const step = queries.getStepById(stepExecution.step_id) as RecipeStep;
+  // Retry against the steps this execution ran with, not the recipe's current ones
+  const steps = execution ? getExecutionSteps(execution) : [];
+  const step = stepExecution
+    ? steps.find(s => s.id === stepExecution.step_id) || steps.find(s => s.step_order === stepExecution.step_order)
+    : undefined;
 
   if (!execution || !stepExecution || !step) {
     return {
@@ -696,14 +1275,7 @@ export async function retryStep(
   }
 
   // Get user inputs
-  let userInputs: Record<string, any> = {};
-  if (execution.input_data) {
-    try {
-      userInputs = JSON.parse(execution.input_data as string);
-    } catch {
-      // Use empty object if parsing fails
-    }
-  }
+  let { userInputs } = getExecutionInputs(execution);
 
   // Merge modified inputs
   if (modifiedInput) {
@@ -715,7 +1287,8 @@ export async function retryStep(
     );
   }
 
-  // Update step status to running
+  // Update step status to running; a retry settles any recovery decision
+  queries.setExecutionStatusReason(null, executionId);
   queries.updateStepExecution(
     'running',
     null,
@@ -736,6 +1309,7 @@ export async function retryStep(
 
   const executorContext: StepExecutorContext = {
     userId,
+    ...getExecutionScope(execution),
     executionId,
     stepExecution: stepExecution,
     userInputs,
@@ -743,9 +1317,16 @@ export async function retryStep(
   };
 
   try {
-    const result = await executor.execute(stepToExecute, executorContext);
+    const result = await runStepWithRetries(
+      stepToExecute,
+      step.step_type || 'ai',
+      executor,
+      executorContext,
+      steps
+    );
 
     if (!result.success) {
+      storeFailedStepOutput(stepExecutionId, result, executor);
       queries.setStepExecutionError('failed', result.error || 'Step execution failed', stepExecutionId);
       return {
         success: false,
@@ -775,10 +1356,12 @@ export async function retryStep(
       result.promptUsed || '',
       stepExecutionId
     );
+    if (result.metadata?.review) {
+      openStepReview(executionId, stepExecutionId, step.step_name, result.metadata.review);
+    }
 
     // Get updated step executions
     const updatedStepExecutions = queries.getStepExecutionsByExecutionId(executionId) as StepExecution[];
-    const steps = queries.getStepsByRecipeId(execution.recipe_id) as RecipeStep[];
 
     return {
       success: true,
@@ -854,3 +1437,21 @@ export function getExecutionStatus(executionId: number): ExecutionResult | null
     }),
   };
 }
+
+/**
+ * Wait for a background run to stop running: finished, paused on a step, or
+ * still running when `timeoutMs` runs out.
+ */
+export async function waitForExecution(
+  executionId: number,
+  timeoutMs: number,
+  pollIntervalMs = 100
+): Promise<WorkflowExecution> {
+  const deadline = Date.now() + timeoutMs;
+  let execution = queries.getExecutionById(executionId) as WorkflowExecution;
+  while ((execution.status === 'running' || execution.status === 'pending') && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    execution = queries.getExecutionById(executionId) as WorkflowExecution;
+  }
+  return execution;
+}
@@ -0,0 +1,411 @@
+import { ensurePersonalWorkspace, getDatabase, workspaceVisibilitySql } from '../models/database';
+import { getBudgetBlockReason, getBudgetStatus } from './llmUsageService';
+import {
+  AssetShare,
+  ShareableAssetType,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceRole,
+  WorkspaceSummary,
+  BudgetStatus,
+} from '../types';
+
+export { ensurePersonalWorkspace, workspaceVisibilitySql };
+
+export const SHAREABLE_ASSET_TYPES: ShareableAssetType[] = ['skill', 'workflow', 'standard'];
+
+const ASSET_TABLES: Record<ShareableAssetType, string> = {
+  skill: 'skills',
+  workflow: 'workflows',
+  standard: 'company_standards',
+};
+
+export class WorkspaceError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'WorkspaceError';
+  }
+}
+
+export function isShareableAssetType(value: unknown): value is ShareableAssetType {
+  return typeof value === 'string' && (SHAREABLE_ASSET_TYPES as string[]).includes(value);
+}
+
+function isWorkspaceRole(value: unknown): value is WorkspaceRole {
+  return value === 'admin' || value === 'member';
+}
+
+// --- Membership ---
+
+export function getWorkspace(workspaceId: number): Workspace | undefined {
+  return getDatabase().prepare('SELECT * FROM workspaces WHERE id = ?').get(workspaceId) as Workspace | undefined;
+}
+
+export function getMembershipRole(workspaceId: number, userId: number): WorkspaceRole | null {
+  const row = getDatabase().prepare(
+    'SELECT role FROM workspace_members WHERE workspace_id = ? AND user_id = ?'
+  ).get(workspaceId, userId) as { role: WorkspaceRole } | undefined;
+  return row ? row.role : null;
+}
+
+export function isWorkspaceAdmin(workspaceId: number, userId: number): boolean {
+  return getMembershipRole(workspaceId, userId) === 'admin';
+}
+
+export function listUserWorkspaces(userId: number): WorkspaceSummary[] {
+  ensurePersonalWorkspace(userId);
+  const rows = getDatabase().prepare(`
+    SELECT w.*, wm.role,
+      (SELECT COUNT(*) FROM workspace_members m WHERE m.workspace_id = w.id) as member_count
+    FROM workspaces w
+    JOIN workspace_members wm ON wm.workspace_id = w.id AND wm.user_id = ?
+    ORDER BY w.id
+  `).all(userId) as Array<Omit<WorkspaceSummary, 'budget_state'>>;
+  return rows.map((row) => ({
+    ...row,
+    budget_state: row.monthly_budget_usd === null ? 'none' : getBudgetStatus(row.id).state,
+  }));
+}
+
+export function listAllWorkspaces(): Workspace[] {
+  return getDatabase().prepare('SELECT * FROM workspaces ORDER BY name').all() as Workspace[];
+}
+
+/**
+ * The workspace a request acts in: the one asked for (header or query), which
+ * the user must belong to, or their personal workspace.
+ */
+export function resolveActiveWorkspace(userId: number, requested: unknown): number {
+  if (requested === undefined || requested === null || requested === '') {
+    return ensurePersonalWorkspace(userId);
+  }
+  const workspaceId = Number(requested);
+  if (!Number.isInteger(workspaceId) || getMembershipRole(workspaceId, userId) === null) {
+    throw new WorkspaceError('Not a member of this workspace', 403);
+  }
+  return workspaceId;
+}
+
+function normalizeQuota(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const quota = Number(value);
+  if (!Number.isInteger(quota) || quota < 0) {
+    throw new WorkspaceError('Quota must be a non-negative whole number');
+  }
+  return quota;
+}
+
+function normalizeBudget(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const budget = Number(value);
+  if (!Number.isFinite(budget) || budget < 0) {
+    throw new WorkspaceError('Budget must be a non-negative amount');
+  }
+  return budget;
+}
+
+function normalizeWarnPercent(value: unknown): number {
+  const percent = Number(value);
+  if (!Number.isInteger(percent) || percent < 1 || percent > 100) {
+    throw new WorkspaceError('Budget warning threshold must be a whole percentage between 1 and 100');
+  }
+  return percent;
+}
+
+export function createWorkspace(name: unknown, userId: number, quota?: unknown): Workspace {
+  const trimmed = String(name || '').trim();
+  if (!trimmed) {
+    throw new WorkspaceError('Workspace name is required');
+  }
+  const db = getDatabase();
+  const monthlyQuota = normalizeQuota(quota);
+  const workspaceId = db.transaction(() => {
+    const result = db.prepare(
+      'INSERT INTO workspaces (name, monthly_request_quota, created_by) VALUES (?, ?, ?)'
+    ).run(trimmed, monthlyQuota, userId);
+    const id = Number(result.lastInsertRowid);
+    db.prepare("INSERT INTO workspace_members (workspace_id, user_id, role) VALUES (?, ?, 'admin')").run(id, userId);
+    return id;
+  })();
+  return getWorkspace(workspaceId)!;
+}
+
+export function updateWorkspace(
+  workspaceId: number,
+  updates: { name?: unknown; monthly_request_quota?: unknown; monthly_budget_usd?: unknown; budget_warn_percent?: unknown }
+): Workspace {
+  const workspace = getWorkspace(workspaceId);
+  if (!workspace) {
+    throw new WorkspaceError('Workspace not found', 404);
+  }
+  const name = updates.name === undefined ? workspace.name : String(updates.name || '').trim();
+  if (!name) {
+    throw new WorkspaceError('Workspace name is required');
+  }
+  const quota = updates.monthly_request_quota === undefined
+    ? workspace.monthly_request_quota
+    : normalizeQuota(updates.monthly_request_quota);
+  const budget = updates.monthly_budget_usd === undefined
+    ? workspace.monthly_budget_usd
+    : normalizeBudget(updates.monthly_budget_usd);
+  const warnPercent = updates.budget_warn_percent === undefined
+    ? workspace.budget_warn_percent
+    : normalizeWarnPercent(updates.budget_warn_percent);
+  getDatabase().prepare(`
+    UPDATE workspaces
+    SET name = ?, monthly_request_quota = ?, monthly_budget_usd = ?, budget_warn_percent = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).run(name, quota, budget, warnPercent, workspaceId);
+  return getWorkspace(workspaceId)!;
+}
+
+export function listMembers(workspaceId: number): WorkspaceMember[] {
+  return getDatabase().prepare(`
+    SELECT wm.workspace_id, wm.user_id, u.email, wm.role, wm.created_at
+    FROM workspace_members wm
+    JOIN users u ON u.id = wm.user_id
+    WHERE wm.workspace_id = ?
+    ORDER BY wm.created_at, u.email
+  `).all(workspaceId) as WorkspaceMember[];
+}
+
+function countAdmins(workspaceId: number): number {
+  const row = getDatabase().prepare(
+    "SELECT COUNT(*) as count FROM workspace_members WHERE workspace_id = ? AND role = 'admin'"
+  ).get(workspaceId) as { count: number };
+  return row.count;
+}
+
+export function addMember(workspaceId: number, email: unknown, role: unknown = 'member'): WorkspaceMember {
+  if (!isWorkspaceRole(role)) {
+    throw new WorkspaceError('Invalid workspace role');
+  }
+  const db = getDatabase();
+  const user = db.prepare('SELECT id FROM users WHERE email = ?').get(String(email || '').trim().toLowerCase()) as
+    { id: number } | undefined;
+  if (!user) {
+    throw new WorkspaceError('No account with this email', 404);
+  }
+  if (getMembershipRole(workspaceId, user.id) !== null) {
+    throw new WorkspaceError('Already a member of this workspace', 409);
+  }
+  db.prepare('INSERT INTO workspace_members (workspace_id, user_id, role) VALUES (?, ?, ?)').run(workspaceId, user.id, role);
+  return listMembers(workspaceId).find(m => m.user_id === user.id)!;
+}
+
+export function setMemberRole(workspaceId: number, userId: number, role: unknown): void {
+  if (!isWorkspaceRole(role)) {
+    throw new WorkspaceError('Invalid workspace role');
+  }
+  const current = getMembershipRole(workspaceId, userId);
+  if (current === null) {
+    throw new WorkspaceError('Member not found', 404);
+  }
+  if (current === 'admin' && role !== 'admin' && countAdmins(workspaceId) <= 1) {
+    throw new WorkspaceError('A workspace needs at least one admin', 409);
+  }
+  getDatabase().prepare(
+    'UPDATE workspace_members SET role = ? WHERE workspace_id = ? AND user_id = ?'
+  ).run(role, workspaceId, userId);
+}
+
+export function removeMember(workspaceId: number, userId: number): void {
+  const current = getMembershipRole(workspaceId, userId);
+  if (current === null) {
+    throw new WorkspaceError('Member not found', 404);
+  }
+  if (current === 'admin' && countAdmins(workspaceId) <= 1) {
+    throw new WorkspaceError('A workspace needs at least one admin', 409);
+  }
+  getDatabase().prepare(
+    'DELETE FROM workspace_members WHERE workspace_id = ? AND user_id = ?'
+  ).run(workspaceId, userId);
+}
+
+// --- Asset access and sharing ---
+
+/** The workspace an asset belongs to; undefined when the asset does not exist. */
+export function getAssetWorkspaceId(assetType: ShareableAssetType, assetId: number): number | null | undefined {
+  const row = getDatabase().prepare(
+    `SELECT workspace_id FROM ${ASSET_TABLES[assetType]} WHERE id = ?`
+  ).get(assetId) as { workspace_id: number | null } | undefined;
+  return row ? row.workspace_id : undefined;
+}
+
+/** Members of the asset's own workspace may change it. */
+export function canWriteAsset(assetType: ShareableAssetType, assetId: number, userId: number): boolean {
+  const workspaceId = getAssetWorkspaceId(assetType, assetId);
+  return workspaceId != null && getMembershipRole(workspaceId, userId) !== null;
+}
+
+/** Shared and published assets can also be read (and run) from the receiving workspace. */
+export function canReadAsset(
+  assetType: ShareableAssetType,
+  assetId: number,
+  userId: number,
+  activeWorkspaceId: number
+): boolean {
+  if (canWriteAsset(assetType, assetId, userId)) return true;
+  const visible = getDatabase().prepare(
+    `SELECT 1 FROM ${ASSET_TABLES[assetType]} a WHERE a.id = ? AND ${workspaceVisibilitySql('a', assetType)}`
+  ).get(assetId, activeWorkspaceId, activeWorkspaceId);
+  return !!visible;
+}
+
+export function listShares(workspaceId: number): Array<AssetShare & { asset_name: string | null; workspace_name: string | null }> {
+  return getDatabase().prepare(`
+    SELECT sh.*, COALESCE(s.name, w.name, cs.name) as asset_name, tw.name as workspace_name
+    FROM asset_shares sh
+    LEFT JOIN workspaces tw ON tw.id = sh.workspace_id
+    LEFT JOIN skills s ON sh.asset_type = 'skill' AND s.id = sh.asset_id
+    LEFT JOIN workflows w ON sh.asset_type = 'workflow' AND w.id = sh.asset_id
+    LEFT JOIN company_standards cs ON sh.asset_type = 'standard' AND cs.id = sh.asset_id
+    WHERE COALESCE(s.workspace_id, w.workspace_id, cs.workspace_id) = ?
+    ORDER BY sh.created_at DESC
+  `).all(workspaceId) as Array<AssetShare & { asset_name: string | null; workspace_name: string | null }>;
+}
+
+/**
+ * Share an asset with another workspace, or publish it to all of them when
+ * `targetWorkspaceId` is null. Only admins of the asset's workspace may.
+ */
+export function shareAsset(
+  assetType: unknown,
+  assetId: number,
+  targetWorkspaceId: number | null,
+  userId: number
+): AssetShare {
+  if (!isShareableAssetType(assetType)) {
+    throw new WorkspaceError('Invalid asset type');
+  }
+  const ownerWorkspaceId = getAssetWorkspaceId(assetType, assetId);
+  if (ownerWorkspaceId === undefined) {
+    throw new WorkspaceError('Asset not found', 404);
+  }
+  if (ownerWorkspaceId === null || !isWorkspaceAdmin(ownerWorkspaceId, userId)) {
+    throw new WorkspaceError('Only workspace admins can share assets', 403);
+  }
+  if (targetWorkspaceId !== null) {
+    if (!getWorkspace(targetWorkspaceId)) {
+      throw new WorkspaceError('Workspace not found', 404);
+    }
+    if (targetWorkspaceId === ownerWorkspaceId) {
+      throw new WorkspaceError('Asset already belongs to this workspace');
+    }
+  }
+
+  const db = getDatabase();
+  db.prepare(`
+    INSERT OR IGNORE INTO asset_shares (asset_type, asset_id, workspace_id, shared_by) VALUES (?, ?, ?, ?)
+  `).run(assetType, assetId, targetWorkspaceId, userId);
+  return db.prepare(
+    'SELECT * FROM asset_shares WHERE asset_type = ? AND asset_id = ? AND IFNULL(workspace_id, 0) = ?'
+  ).get(assetType, assetId, targetWorkspaceId ?? 0) as AssetShare;
+}
+
+export function unshareAsset(shareId: number, userId: number): void {
+  const db = getDatabase();
+  const share = db.prepare('SELECT * FROM asset_shares WHERE id = ?').get(shareId) as AssetShare | undefined;
+  if (!share) {
+    throw new WorkspaceError('Share not found', 404);
+  }
+  const ownerWorkspaceId = getAssetWorkspaceId(share.asset_type, share.asset_id);
+  if (ownerWorkspaceId == null || !isWorkspaceAdmin(ownerWorkspaceId, userId)) {
+    throw new WorkspaceError('Only workspace admins can share assets', 403);
+  }
+  db.prepare('DELETE FROM asset_shares WHERE id = ?').run(shareId);
+}
+
+// Shares point at assets by id, so they go when the asset does
+export function deleteAssetShares(assetType: ShareableAssetType, assetId: number): void {
+  getDatabase().prepare('DELETE FROM asset_shares WHERE asset_type = ? AND asset_id = ?').run(assetType, assetId);
+}
+
+// --- Usage quotas ---
+
+export function getMonthlyRequestCount(workspaceId: number): number {
+  const row = getDatabase().prepare(`
+    SELECT COALESCE(SUM(request_count), 0) as total FROM api_usage
+    WHERE workspace_id = ? AND created_at >= datetime('now', 'start of month')
+  `).get(workspaceId) as { total: number };
+  return row.total;
+}
+
+export function getWorkspaceUsage(workspaceId: number): {
+  monthly_request_quota: number | null;
+  month_requests: number;
+  budget: BudgetStatus;
+  by_service: Record<string, number>;
+  by_member: Array<{ user_id: number; email: string; requests: number }>;
+} {
+  const db = getDatabase();
+  const workspace = getWorkspace(workspaceId);
+  const byService = db.prepare(`
+    SELECT service, COALESCE(SUM(request_count), 0) as requests FROM api_usage
+    WHERE workspace_id = ? AND created_at >= datetime('now', 'start of month')
+    GROUP BY service
+  `).all(workspaceId) as Array<{ service: string; requests: number }>;
+  const byMember = db.prepare(`
+    SELECT u.id as user_id, u.email, COALESCE(SUM(a.request_count), 0) as requests
+    FROM api_usage a JOIN users u ON u.id = a.user_id
+    WHERE a.workspace_id = ? AND a.created_at >= datetime('now', 'start of month')
+    GROUP BY u.id ORDER BY requests DESC
+  `).all(workspaceId) as Array<{ user_id: number; email: string; requests: number }>;
+
+  return {
+    monthly_request_quota: workspace?.monthly_request_quota ?? null,
+    month_requests: getMonthlyRequestCount(workspaceId),
+    budget: getBudgetStatus(workspaceId),
+    by_service: Object.fromEntries(byService.map(r => [r.service, r.requests])),
+    by_member: byMember,
+  };
+}
+
+/** Throws 429 once the workspace has used its monthly request quota. */
+export function assertWithinQuota(workspaceId: number): void {
+  const workspace = getWorkspace(workspaceId);
+  if (!workspace || workspace.monthly_request_quota === null) return;
+  if (getMonthlyRequestCount(workspaceId) >= workspace.monthly_request_quota) {
+    throw new WorkspaceError(
+      `Workspace "${workspace.name}" has used its ${workspace.monthly_request_quota} requests for this month`,
+      429
+    );
+  }
+}
+
+/** Throws 429 once the workspace has spent its monthly LLM budget. */
+export function assertWithinBudget(workspaceId: number): void {
+  const reason = getBudgetBlockReason(workspaceId);
+  if (reason) {
+    throw new WorkspaceError(reason, 429);
+  }
+}
+
+/** Throws 429 when the workspace is over its monthly request quota or LLM budget. */
+export function assertWithinLimits(workspaceId: number): void {
+  assertWithinQuota(workspaceId);
+  assertWithinBudget(workspaceId);
+}
+
+/**
+ * Schedules and webhooks start runs without a request behind them. They run
+ * as the user who set them up, so that user must still exist (and belong to
+ * the asset's workspace), and the workspace must be within its limits.
+ * Returns the user to run as.
+ */
+export function authorizeTriggeredRun(ownerId: number | null | undefined, workspaceId: number | null | undefined): number {
+  const owner = ownerId
+    ? getDatabase().prepare('SELECT id FROM users WHERE id = ?').get(ownerId) as { id: number } | undefined
+    : undefined;
+  if (!owner) {
+    throw new WorkspaceError('Trigger has no owner to run as', 403);
+  }
+  if (workspaceId === null || workspaceId === undefined) {
+    return owner.id;
+  }
+  if (!getMembershipRole(workspaceId, owner.id)) {
+    throw new WorkspaceError(`Trigger owner is no longer a member of workspace ${workspaceId}`, 403);
+  }
+  assertWithinLimits(workspaceId);
+  return owner.id;
+}
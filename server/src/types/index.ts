@@ -1,8 +1,20 @@
 // User types
+export type UserRole = 'admin' | 'builder' | 'operator' | 'viewer';
+
+export type Permission =
+  | 'assets:run'        // run active skills/workflows and chat with the agent
+  | 'assets:run_draft'  // run inactive skills/workflows, edited steps and ad-hoc steps
+  | 'assets:write'      // create, edit and delete skills, workflows, standards, schedules, webhooks
+  | 'drafts:review'     // approve or reject agent-proposed skill drafts
+  | 'system:configure'  // plugin, sandbox and agent configuration
+  | 'sessions:manage'   // see and bulk-manage every user's chat sessions
+  | 'users:manage';     // assign roles, view all users' usage
+
 export interface User {
   id: number;
   email: string;
   password_hash: string;
+  role: UserRole;
   api_keys?: string;
   created_at: string;
 }
@@ -10,6 +22,47 @@ export interface User {
 export interface UserPublic {
   id: number;
   email: string;
+  role: UserRole;
+  permissions: Permission[];
+  created_at: string;
+}
+
+// Workspace types
+export type WorkspaceRole = 'admin' | 'member';
+
+export type ShareableAssetType = 'skill' | 'workflow' | 'standard';
+
+export interface Workspace {
+  id: number;
+  name: string;
+  monthly_request_quota: number | null;
+  monthly_budget_usd: number | null;
+  budget_warn_percent: number;
+  created_by: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkspaceSummary extends Workspace {
+  role: WorkspaceRole;
+  member_count: number;
+  budget_state: BudgetState;
+}
+
+export interface WorkspaceMember {
+  workspace_id: number;
+  user_id: number;
+  email: string;
+  role: WorkspaceRole;
+  created_at: string;
+}
+
+export interface AssetShare {
+  id: number;
+  asset_type: ShareableAssetType;
+  asset_id: number;
+  workspace_id: number | null; // null = published to every workspace
+  shared_by: number | null;
   created_at: string;
 }
 
@@ -28,7 +81,7 @@ export interface RecipeWithSteps extends Recipe {
   steps: RecipeStep[];
 }
 
-export type StepType = 'ai' | 'scraping' | 'manus' | 'script' | 'browser' | 'http' | 'transform' | string;
+export type StepType = 'ai' | 'scraping' | 'manus' | 'script' | 'browser' | 'http' | 'transform' | 'condition' | 'parallel' | 'foreach' | 'approval' | 'ask_user' | 'skill' | string;
 
 export interface RecipeStep {
   id: number;
@@ -72,6 +125,7 @@ export interface Skill {
   name: string;
   description: string;
   created_by: number;
+  workspace_id: number | null;
   status: 'draft' | 'active' | 'archived';
   tags: string; // JSON array
   created_at: string;
@@ -83,6 +137,7 @@ export interface Workflow {
   name: string;
   description: string;
   created_by: number;
+  workspace_id: number | null;
   status: 'draft' | 'active' | 'archived';
   tags: string;
   created_at: string;
@@ -114,6 +169,7 @@ export interface Session {
   status: 'active' | 'idle' | 'closed';
   agent_config_id: number | null;
   active_execution_id: number | null;
+  workspace_id: number | null;
   created_at: string;
   last_active_at: string;
 }
@@ -138,13 +194,14 @@ export interface AgentConfig {
   allowed_tools: string; // JSON array
   allowed_channels: string; // JSON array
   max_turns_per_session: number;
+  workspace_id: number | null; // null = available to every workspace
   created_at: string;
 }
 
 export interface PluginConfig {
   id: number;
   plugin_name: string;
-  plugin_type: 'channel' | 'tool' | 'memory' | 'provider';
+  plugin_type: 'channel' | 'tool' | 'memory' | 'provider' | 'extraction';
   enabled: boolean;
   config: string; // JSON
   updated_at: string;
@@ -162,12 +219,283 @@ export interface SkillDraft {
   status: 'pending' | 'approved' | 'rejected';
   created_at: string;
   reviewed_at: string | null;
+  proposed_by_user?: number | null;
+  workspace_id?: number | null;
+  tags?: string | null; // JSON array, applied on approval
+  standards?: string | null; // JSON array of bundle standards to create on approval
+  applied_id?: number | null;
+}
+
+// What produced a skill/workflow version
+export type SkillVersionSource = 'create' | 'edit' | 'draft' | 'rollback' | 'run';
+
+// Immutable snapshot of a skill or workflow definition
+export interface SkillVersion {
+  id: number;
+  parent_type: 'skill' | 'workflow';
+  parent_id: number;
+  version: number;
+  name: string;
+  description: string | null;
+  steps: string; // JSON array of VersionStep
+  source: SkillVersionSource;
+  note: string | null;
+  created_by: number | null;
+  created_at: string;
+}
+
+export type SkillTestAssertionType = 'contains' | 'regex' | 'json_schema' | 'field_equals' | 'llm_rubric';
+
+// A check on one step's output (the last step's by default)
+export interface SkillTestAssertion {
+  type: SkillTestAssertionType;
+  step?: number;
+  value?: string; // contains: text; regex: pattern; llm_rubric: the rubric
+  flags?: string; // regex flags
+  path?: string; // field_equals: dotted path into the output JSON
+  expected?: unknown; // field_equals
+  schema?: Record<string, any>; // json_schema
+  model?: string; // llm_rubric grader, defaults to the first available model
+}
+
+// Saved golden inputs for a skill/workflow and what its output must satisfy
+export interface SkillTestCase {
+  id: number;
+  parent_type: 'skill' | 'workflow';
+  parent_id: number;
+  name: string;
+  inputs: string; // JSON object
+  assertions: string; // JSON array of SkillTestAssertion
+  stubs: string; // JSON object: step order -> canned output
+  mock_ai: number; // AI steps run on the mock model
+  created_by: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SkillTestRunStatus = 'running' | 'passed' | 'failed';
+
+// One run of a skill/workflow's test cases, against a draft or the current definition
+export interface SkillTestRun {
+  id: number;
+  parent_type: 'skill' | 'workflow';
+  parent_id: number;
+  draft_id: number | null;
+  status: SkillTestRunStatus;
+  passed: number;
+  failed: number;
+  results: string; // JSON array of SkillTestCaseResult
+  created_by: number | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+// One column of an evaluation: a model, and for single-step runs an optional prompt
+export interface EvaluationVariant {
+  label: string;
+  model: string;
+  prompt_template?: string | null;
+}
+
+export interface EvaluationJudge {
+  model: string;
+  rubric: string;
+}
+
+export type EvaluationStatus = 'draft' | 'running' | 'completed' | 'failed';
+
+// A matrix of variants run over a dataset of inputs, on one step or a whole skill/workflow
+export interface Evaluation {
+  id: number;
+  name: string;
+  parent_type: 'skill' | 'workflow';
+  parent_id: number;
+  step_order: number | null; // null runs the whole skill/workflow
+  variants: string; // JSON array of EvaluationVariant
+  dataset: string; // JSON array of input objects
+  judge: string | null; // JSON EvaluationJudge
+  status: EvaluationStatus;
+  workspace_id: number | null;
+  created_by: number | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export type EvaluationResultStatus = 'pending' | 'completed' | 'failed';
+
+// One cell of the grid: a variant run on a dataset row
+export interface EvaluationResult {
+  id: number;
+  evaluation_id: number;
+  variant_index: number;
+  row_index: number;
+  status: EvaluationResultStatus;
+  output: string | null;
+  error: string | null;
+  latency_ms: number | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  cost_usd: number | null;
+  execution_id: number | null;
+  judge_score: number | null;
+  judge_reason: string | null;
+  human_score: number | null;
+  scored_by: number | null;
+}
+
+// One extraction of a product's reviews, and what it found that was new
+export interface ReviewRun {
+  id: number;
+  workspace_id: number;
+  platform: string;
+  product_key: string;
+  product_url: string;
+  product_name: string | null;
+  incremental: number;
+  reviews_seen: number;
+  new_count: number;
+  updated_count: number;
+  execution_id: number | null;
+  created_by: number | null;
+  created_at: string;
+}
+
+// A review as stored; the same review seen again updates this row
+export interface StoredReviewRow {
+  id: number;
+  workspace_id: number;
+  platform: string;
+  product_key: string;
+  review_key: string;
+  product_url: string | null;
+  product_name: string | null;
+  rating: number | null;
+  title: string;
+  body: string;
+  review_date: string | null;
+  author: string | null;
+  variant: string | null;
+  images: string; // JSON string[]
+  verified: number;
+  content_hash: string;
+  first_run_id: number | null;
+  last_run_id: number | null;
+  changed_run_id: number | null;
+  first_seen_at: string;
+  last_seen_at: string;
+  changed_at: string | null;
+}
+
+export type ReviewSentiment = 'positive' | 'neutral' | 'negative';
+
+// A product aspect a review talks about, with the words it uses
+export interface ReviewTopic {
+  topic: string;
+  quote: string;
+}
+
+// A stored review with its AI tags; the tag columns are null until tagged
+export interface TaggedReviewRow extends StoredReviewRow {
+  sentiment: ReviewSentiment | null;
+  motivation: string | null;
+  topics: string | null; // JSON ReviewTopic[]
+}
+
+export type ScheduleOutputChannel = 'none' | 'web' | 'lark';
+export type ScheduleRunStatus = 'running' | 'awaiting_review' | 'completed' | 'failed';
+
+export interface WorkflowSchedule {
+  id: number;
+  name: string;
+  parent_type: 'skill' | 'workflow';
+  parent_id: number;
+  cron_expression: string;
+  input_data: string; // JSON
+  output_channel: ScheduleOutputChannel;
+  output_channel_id: string | null;
+  auto_approve: number; // 0 | 1
+  enabled: number; // 0 | 1
+  created_by: number | null;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ScheduleRun {
+  id: number;
+  schedule_id: number;
+  execution_id: number | null;
+  trigger_type: 'schedule' | 'manual';
+  status: ScheduleRunStatus;
+  error_message: string | null;
+  delivery_status: 'pending' | 'sent' | 'skipped' | 'failed';
+  started_at: string;
+  finished_at: string | null;
+}
+
+export type WebhookResponseMode = 'async' | 'sync';
+export type WebhookInvocationStatus = 'rejected' | 'running' | 'awaiting_review' | 'completed' | 'failed' | 'timed_out';
+
+export interface WorkflowWebhook {
+  id: number;
+  name: string;
+  parent_type: 'skill' | 'workflow';
+  parent_id: number;
+  token: string;
+  secret: string;
+  field_mapping: string; // JSON: { "payload.path": "input_name" }
+  static_inputs: string; // JSON
+  response_mode: WebhookResponseMode;
+  callback_url: string | null;
+  sync_timeout_seconds: number;
+  auto_approve: number; // 0 | 1
+  enabled: number; // 0 | 1
+  created_by: number | null;
+  last_triggered_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookInvocation {
+  id: number;
+  webhook_id: number;
+  execution_id: number | null;
+  status: WebhookInvocationStatus;
+  payload: string | null;
+  error_message: string | null;
+  callback_status: 'none' | 'pending' | 'sent' | 'failed';
+  signature: string | null;
+  received_at: string;
+  finished_at: string | null;
+}
+
+export type SandboxSource = 'script' | 'bash';
+export type SandboxIsolation = 'namespace' | 'none';
+
+export interface SandboxAuditEntry {
+  id: number;
+  source: SandboxSource;
+  command: string;
+  user_id: number | null;
+  execution_id: number | null;
+  session_id: string | null;
+  status: 'completed' | 'failed' | 'timed_out' | 'denied';
+  exit_code: number | null;
+  isolation: SandboxIsolation;
+  network_allowed: number;
+  output_truncated: number;
+  duration_ms: number | null;
+  error_message: string | null;
+  created_at: string;
 }
 
 // Company Standards types
 export interface CompanyStandard {
   id: number;
   user_id: number;
+  workspace_id: number | null;
   standard_type: 'voice' | 'platform' | 'image';
   name: string;
   content: string;
@@ -196,8 +524,8 @@ export interface ImageStandardContent {
 }
 
 // Workflow Execution types
-export type ExecutionStatus = 'pending' | 'running' | 'paused' | 'completed' | 'failed';
-export type StepExecutionStatus = 'pending' | 'running' | 'completed' | 'failed' | 'awaiting_review';
+export type ExecutionStatus = 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+export type StepExecutionStatus = 'pending' | 'running' | 'completed' | 'failed' | 'awaiting_review' | 'skipped';
 
 export interface WorkflowExecution {
   id: number;
@@ -206,6 +534,13 @@ export interface WorkflowExecution {
   status: ExecutionStatus;
   current_step: number;
   input_data?: string;
+  status_reason?: string | null;
+  forked_from_id?: number | null;
+  forked_from_step?: number | null;
+  parent_execution_id?: number | null;
+  parent_step_execution_id?: number | null;
+  // Version of the skill/workflow this run executed
+  skill_version_id?: number | null;
   started_at?: string;
   completed_at?: string;
   created_at: string;
@@ -228,11 +563,63 @@ export interface StepExecution {
   prompt_used?: string;
   approved: boolean;
   error_message?: string;
+  attempts?: string; // JSON: StepAttempt[]
   executed_at?: string;
+  // Human review steps
+  assigned_to?: number | null;
+  review_due_at?: string | null;
+  escalation_count?: number;
+}
+
+export type ReviewKind = 'approval' | 'ask_user';
+export type ReviewTimeoutAction = 'approve' | 'reject';
+
+// One field of an ask-user form; rendered like a skill input
+export interface ReviewFormField {
+  type: 'text' | 'textarea' | 'image' | 'url_list' | 'file';
+  label?: string;
+  placeholder?: string;
+  description?: string;
+  required?: boolean;
+}
+
+// What a paused human step asks for, stored under `review` in its output
+export interface ReviewRequest {
+  kind: ReviewKind;
+  instructions: string;
+  fields: Record<string, ReviewFormField>;
+  allow_edit_previous: boolean;
+  previous_step_order?: number;
+  previous_output?: string;
+  assignee_id?: number | null;
+  timeout_minutes?: number | null;
+  escalate_to_id?: number | null;
+  on_timeout: ReviewTimeoutAction;
+}
+
+// A reviewer's answer to a human step
+export interface ReviewSubmission {
+  values?: Record<string, any>;
+  previous_output?: string;
+  comment?: string;
+}
+
+export type StepErrorClass = 'rate_limit' | 'timeout' | 'network' | 'server' | 'auth' | 'other';
+
+// One try of a step under its retry policy
+export interface StepAttempt {
+  attempt: number;
+  model?: string;
+  status: 'succeeded' | 'failed';
+  error?: string;
+  error_class?: StepErrorClass;
+  started_at: string;
+  finished_at: string;
 }
 
 // AI Service types
-export type AIProvider = 'openai' | 'anthropic' | 'google' | 'mock';
+// Provider id reported by a provider plugin, e.g. 'openai', 'anthropic', 'google', 'mock'
+export type AIProvider = string;
 
 export interface ImageData {
   base64: string;
@@ -256,6 +643,10 @@ export interface AIServiceConfig {
   // Multi-turn conversation support
   systemMessage?: string;
   messages?: ChatMessage[];
+  // Who the call is billed to; also enforces the workspace's monthly budget
+  usage?: LlmUsageContext;
+  // JSON Schema the reply must match (native mode where the model supports it)
+  responseSchema?: { name: string; schema: Record<string, any> };
 }
 
 export interface GeneratedImage {
@@ -275,33 +666,20 @@ export interface AIResponse {
   generatedImages?: GeneratedImage[];
 }
 
+// A model in the catalog built from provider plugins (see services/aiService)
 export interface AIModelInfo {
   id: string;
   name: string;
   provider: AIProvider;
+  plugin: string;
   maxTokens: number;
   supportsVision?: boolean;
   supportsImageGeneration?: boolean;
+  supportsTools?: boolean;
+  supportsStructuredOutput?: boolean;
+  available: boolean; // the provider plugin has credentials
 }
 
-// Available AI Models
-export const AI_MODELS: AIModelInfo[] = [
-  // OpenAI
-  { id: 'gpt-5.2', name: 'GPT-5.2', provider: 'openai', maxTokens: 128000, supportsVision: true },
-  { id: 'gpt-5', name: 'GPT-5', provider: 'openai', maxTokens: 8192, supportsVision: true },
-  // Anthropic
-  { id: 'claude-opus-4-6', name: 'Claude 4.6 Opus', provider: 'anthropic', maxTokens: 200000, supportsVision: true },
-  // Google
-  { id: 'gemini-3-flash-preview', name: 'Gemini 3 Flash', provider: 'google', maxTokens: 1000000, supportsVision: true },
-  { id: 'gemini-3-pro-preview', name: 'Gemini 3 Pro', provider: 'google', maxTokens: 1000000, supportsVision: true },
-  { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', provider: 'google', maxTokens: 1000000, supportsVision: true },
-  { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', provider: 'google', maxTokens: 1000000, supportsVision: true },
-  { id: 'gemini-2.5-flash-lite', name: 'Gemini 2.5 Flash Lite', provider: 'google', maxTokens: 1000000, supportsVision: true },
-  // Google Image Generation
-  { id: 'gemini-3-pro-image-preview', name: 'Gemini 3 Pro Image (Nanobanana)', provider: 'google', maxTokens: 1000000, supportsVision: true, supportsImageGeneration: true },
-
-  ];
-
 // API Request/Response types
 export interface CreateRecipeRequest {
   name: string;
@@ -407,12 +785,85 @@ export interface UsageStats {
   };
 }
 
+// LLM token and cost accounting
+export type LlmUsageSource = 'workflow_step' | 'agent' | 'assistant' | 'model_test';
+
+export interface LlmUsageContext {
+  userId: number;
+  workspaceId?: number | null;
+  source: LlmUsageSource;
+  executionId?: number;
+  skillId?: number | null;
+  workflowId?: number | null;
+  sessionId?: string;
+}
+
+export interface LlmUsageRecord {
+  id: number;
+  user_id: number;
+  workspace_id: number | null;
+  source: LlmUsageSource;
+  provider: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+  // Tokens were estimated from text length because the provider reported none
+  estimated: number;
+  execution_id: number | null;
+  skill_id: number | null;
+  workflow_id: number | null;
+  session_id: string | null;
+  created_at: string;
+}
+
+/** USD per million tokens */
+export interface ModelPrice {
+  input_per_mtok: number;
+  output_per_mtok: number;
+}
+
+export interface ModelPriceEntry extends ModelPrice {
+  model: string;
+  provider: string;
+  source: 'override' | 'default' | 'free' | 'unpriced';
+}
+
+export interface LlmUsageTotals {
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+}
+
+export type LlmUsagePeriod = 'today' | 'week' | 'month' | 'all';
+
+export interface LlmUsageSummary {
+  period: LlmUsagePeriod;
+  totals: LlmUsageTotals;
+  by_source: Array<LlmUsageTotals & { source: LlmUsageSource }>;
+  by_model: Array<LlmUsageTotals & { model: string; provider: string }>;
+  by_user: Array<LlmUsageTotals & { user_id: number; email: string }>;
+  by_skill: Array<LlmUsageTotals & { skill_id: number; name: string | null }>;
+  by_workflow: Array<LlmUsageTotals & { workflow_id: number; name: string | null }>;
+  by_session: Array<LlmUsageTotals & { session_id: string }>;
+}
+
+export type BudgetState = 'none' | 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+  monthly_budget_usd: number | null;
+  budget_warn_percent: number;
+  month_cost_usd: number;
+  state: BudgetState;
+}
 
 // Execution Chat Message types (unified chat protocol)
 export type ExecutionChatMessageType =
   | 'step-start' | 'progress' | 'agent-message' | 'user-message'
   | 'step-output' | 'step-error' | 'action-required'
-  | 'step-approved' | 'step-rejected' | 'execution-complete';
+  | 'step-approved' | 'step-rejected' | 'step-skipped' | 'step-retry' | 'execution-recovered'
+  | 'execution-complete';
 
 export interface ExecutionChatMessage {
   id: string;
@@ -429,10 +880,25 @@ export interface ExecutionChatMessage {
     files?: ManusFile[];
     usage?: { promptTokens: number; completionTokens: number };
     model?: string;
-    actionType?: 'approve' | 'captcha' | 'take-control';
+    actionType?: 'approve' | 'form' | 'captcha' | 'take-control';
     debuggerUrl?: string;
     isJson?: boolean;
+    // Served from the step result cache instead of re-running
+    cached?: boolean;
+    cachedAt?: string;
+    // Human review steps
+    review?: ReviewRequest;
+    // Output replaced by a reviewer
+    edited?: boolean;
+    assignedTo?: number | null;
+    dueAt?: string | null;
+    // Nested run started by a `skill` step
+    childExecutionId?: number;
     stepExecutionId?: number;
+    itemIndex?: number;
+    attempt?: number;
+    errorClass?: StepErrorClass;
+    delayMs?: number;
   };
   timestamp: string;
 }
@@ -442,6 +908,7 @@ declare global {
   namespace Express {
     interface Request {
       user?: UserPublic;
+      workspaceId?: number;
     }
   }
 }
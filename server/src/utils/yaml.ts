@@ -0,0 +1,263 @@
+/**
+ * A small YAML reader/writer for skill bundles. It covers block mappings and
+ * sequences, quoted and plain scalars, literal blocks (`|`, `|-`, `|+`) for
+ * multi-line prompts, and JSON-style flow values. Anchors, tags, folded
+ * blocks and multi-document streams are not supported.
+ */
+
+type YamlValue = null | boolean | number | string | YamlValue[] | { [key: string]: YamlValue };
+
+const PLAIN_KEY = /^[A-Za-z_][\w.-]*$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isBlock(value: unknown): boolean {
+  return (Array.isArray(value) && value.length > 0)
+    || (isPlainObject(value) && Object.keys(value).length > 0);
+}
+
+function formatKey(key: string): string {
+  return PLAIN_KEY.test(key) ? key : JSON.stringify(key);
+}
+
+// A scalar as the text after `key:` or `- `, plus the lines of a literal block
+function formatScalar(value: unknown, indent: number): { head: string; lines: string[] } {
+  if (value === null || value === undefined) return { head: 'null', lines: [] };
+  if (typeof value === 'boolean' || typeof value === 'number') return { head: String(value), lines: [] };
+  if (Array.isArray(value)) return { head: '[]', lines: [] };
+  if (isPlainObject(value)) return { head: '{}', lines: [] };
+
+  const text = String(value);
+  // Literal blocks can't start with indentation or keep whitespace-only lines
+  if (text.includes('\n') && !text.includes('\r') && !/^[ \t]/.test(text) && !/(^|\n)[ \t]+(\n|$)/.test(text)) {
+    const chomp = !text.endsWith('\n') ? '-' : text.endsWith('\n\n') ? '+' : '';
+    const body = text.endsWith('\n') ? text.slice(0, -1) : text;
+    const pad = ' '.repeat(indent);
+    return { head: `|${chomp}`, lines: body.split('\n').map(line => (line ? pad + line : '')) };
+  }
+  return { head: JSON.stringify(text), lines: [] };
+}
+
+function emit(value: unknown, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+  const out: string[] = [];
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (isPlainObject(item) && isBlock(item)) {
+        // First key shares the dash line, the rest line up under it
+        const [first, ...rest] = emit(item, indent + 2);
+        out.push(`${pad}- ${first.slice(indent + 2)}`, ...rest);
+      } else if (isBlock(item)) {
+        out.push(`${pad}-`, ...emit(item, indent + 2));
+      } else {
+        const { head, lines } = formatScalar(item, indent + 2);
+        out.push(`${pad}- ${head}`, ...lines);
+      }
+    }
+    return out;
+  }
+
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    if (item === undefined) continue;
+    if (isBlock(item)) {
+      out.push(`${pad}${formatKey(key)}:`, ...emit(item, indent + 2));
+    } else {
+      const { head, lines } = formatScalar(item, indent + 2);
+      out.push(`${pad}${formatKey(key)}: ${head}`, ...lines);
+    }
+  }
+  return out;
+}
+
+export function toYaml(value: unknown): string {
+  return isBlock(value) ? `${emit(value, 0).join('\n')}\n` : `${formatScalar(value, 0).head}\n`;
+}
+
+interface Line {
+  indent: number;
+  text: string;
+  number: number;
+}
+
+class YamlReader {
+  private pos = 0;
+
+  constructor(private raw: string[], private lines: Line[]) {}
+
+  static parse(source: string): YamlValue {
+    const raw = source.replace(/\r\n?/g, '\n').split('\n');
+    if (raw[raw.length - 1] === '') raw.pop();
+    const lines = raw.map((text, i) => ({
+      indent: text.length - text.trimStart().length,
+      text: text.trim(),
+      number: i + 1,
+    }));
+    const reader = new YamlReader(raw, lines);
+    reader.skipBlank();
+    if (reader.done()) return null;
+    const value = reader.parseNode(reader.current().indent);
+    reader.skipBlank();
+    if (!reader.done()) reader.fail('unexpected content');
+    return value;
+  }
+
+  fail(message: string, line: Line | undefined = this.lines[this.pos]): never {
+    throw new Error(`Invalid YAML${line ? ` at line ${line.number}` : ''}: ${message}`);
+  }
+
+  done(): boolean {
+    return this.pos >= this.lines.length;
+  }
+
+  current(): Line {
+    return this.lines[this.pos];
+  }
+
+  skipBlank(): void {
+    while (!this.done() && (this.current().text === '' || this.current().text.startsWith('#') || this.current().text === '---')) {
+      this.pos++;
+    }
+  }
+
+  parseNode(indent: number): YamlValue {
+    const line = this.current();
+    if (line.text === '-' || line.text.startsWith('- ')) return this.parseSequence(indent);
+    if (this.splitKey(line.text)) return this.parseMapping(indent);
+    this.pos++;
+    return this.parseScalar(line.text, line);
+  }
+
+  private parseSequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+    for (this.skipBlank(); !this.done(); this.skipBlank()) {
+      const line = this.current();
+      if (line.indent < indent) break;
+      if (line.indent > indent) this.fail('bad indentation');
+      if (line.text !== '-' && !line.text.startsWith('- ')) break;
+
+      const rest = line.text.slice(1).trimStart();
+      if (!rest) {
+        this.pos++;
+        items.push(this.parseChild(indent));
+      } else if (this.splitKey(rest)) {
+        // `- key: value` opens a mapping indented to where `key` starts
+        const offset = line.text.length - rest.length;
+        this.lines[this.pos] = { ...line, indent: indent + offset, text: rest };
+        items.push(this.parseMapping(indent + offset));
+      } else {
+        this.pos++;
+        items.push(this.parseValue(rest, line, indent + 2));
+      }
+    }
+    return items;
+  }
+
+  private parseMapping(indent: number): Record<string, YamlValue> {
+    const map: Record<string, YamlValue> = {};
+    for (this.skipBlank(); !this.done(); this.skipBlank()) {
+      const line = this.current();
+      if (line.indent < indent) break;
+      if (line.indent > indent) this.fail('bad indentation');
+      const pair = this.splitKey(line.text);
+      if (!pair) break;
+
+      this.pos++;
+      map[pair.key] = pair.rest ? this.parseValue(pair.rest, line, indent + 2) : this.parseChild(indent, true);
+    }
+    return map;
+  }
+
+  // The block under `key:` or `-`; a sequence may sit at the key's own indent
+  private parseChild(indent: number, allowSameIndentSequence = false): YamlValue {
+    this.skipBlank();
+    if (this.done()) return null;
+    const next = this.current();
+    if (next.indent > indent) return this.parseNode(next.indent);
+    if (allowSameIndentSequence && next.indent === indent && (next.text === '-' || next.text.startsWith('- '))) {
+      return this.parseSequence(indent);
+    }
+    return null;
+  }
+
+  private parseValue(text: string, line: Line, blockIndent: number): YamlValue {
+    const header = /^\|([+-]?)\s*(#.*)?$/.exec(text);
+    if (header) return this.parseLiteral(header[1], blockIndent);
+    if (text.startsWith('>')) this.fail('folded blocks are not supported', line);
+    return this.parseScalar(text, line);
+  }
+
+  private parseLiteral(chomp: string, minIndent: number): string {
+    const body: string[] = [];
+    let indent: number | null = null;
+    while (!this.done()) {
+      const line = this.current();
+      if (line.text === '') {
+        body.push('');
+        this.pos++;
+        continue;
+      }
+      if (indent === null) {
+        if (line.indent < minIndent - 1) break;
+        indent = line.indent;
+      }
+      if (line.indent < indent) break;
+      body.push(this.raw[this.pos].slice(indent));
+      this.pos++;
+    }
+
+    // Blank lines after the block belong to it only with `|+`
+    let trailing = 0;
+    while (body.length > 0 && body[body.length - 1] === '') {
+      body.pop();
+      trailing++;
+    }
+    const text = body.join('\n');
+    if (chomp === '-' || !text) return text;
+    return chomp === '+' ? text + '\n'.repeat(trailing + 1) : `${text}\n`;
+  }
+
+  private parseScalar(text: string, line: Line): YamlValue {
+    if (text.startsWith('"')) {
+      try {
+        return JSON.parse(text);
+      } catch {
+        this.fail('bad double-quoted string', line);
+      }
+    }
+    if (text.startsWith("'")) {
+      if (!text.endsWith("'") || text.length < 2) this.fail('bad single-quoted string', line);
+      return text.slice(1, -1).replace(/''/g, "'");
+    }
+    if (text.startsWith('[') || text.startsWith('{')) {
+      try {
+        return JSON.parse(text);
+      } catch {
+        this.fail('only JSON-style flow collections are supported', line);
+      }
+    }
+
+    const plain = text.replace(/\s+#.*$/, '');
+    if (plain === 'null' || plain === '~' || plain === '') return null;
+    if (plain === 'true') return true;
+    if (plain === 'false') return false;
+    if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(plain)) return Number(plain);
+    return plain;
+  }
+
+  private splitKey(text: string): { key: string; rest: string } | null {
+    if (text.startsWith('"')) {
+      const match = /^("(?:[^"\\]|\\.)*")\s*:(?:\s+(.*))?$/.exec(text);
+      return match ? { key: JSON.parse(match[1]), rest: (match[2] || '').trim() } : null;
+    }
+    if (text.startsWith('- ') || text.startsWith('[') || text.startsWith('{') || text.startsWith("'")) return null;
+    const match = /^([^:#][^:]*?)\s*:(?:\s+(.*))?$/.exec(text);
+    return match ? { key: match[1], rest: (match[2] || '').trim() } : null;
+  }
+}
+
+export function parseYaml(source: string): unknown {
+  return YamlReader.parse(source);
+}